@@ -63,7 +63,19 @@ async function initializeCollections(): Promise<void> {
       'vector_embeddings',
       'document_vectors',
       'knowledge_graph',
-      'analysis_results'
+      'analysis_results',
+      'analysis_revisions',
+      'analysis_jobs',
+      'analysis_cache',
+      'rate_library',
+      'exchange_rates',
+      'location_factors',
+      'price_indices',
+      'material_norms',
+      'productivity_norms',
+      'resource_rates',
+      'valuations',
+      'variations'
     ];
 
     for (const collectionName of collections) {
@@ -123,6 +135,7 @@ async function createIndexes(): Promise<void> {
     await db.collection('uploaded_files').createIndex({ filename: 1 });
     await db.collection('uploaded_files').createIndex({ uploadedAt: 1 });
     await db.collection('uploaded_files').createIndex({ fileType: 1 });
+    await db.collection('uploaded_files').createIndex({ 'metadata.fileHash': 1 });
 
     // Reports collection indexes
     await db.collection('reports').createIndex({ projectId: 1 });
@@ -151,6 +164,48 @@ async function createIndexes(): Promise<void> {
     await db.collection('analysis_results').createIndex({ fileName: 1 });
     await db.collection('analysis_results').createIndex({ createdAt: 1 });
     await db.collection('analysis_results').createIndex({ 'metadata.fileType': 1 });
+    await db.collection('analysis_results').createIndex({ 'metadata.fileHash': 1, 'metadata.cache.projectType': 1, 'metadata.cache.analysisVersion': 1 });
+
+    // Analysis revisions collection indexes
+    await db.collection('analysis_revisions').createIndex({ analysisId: 1, revisionNumber: -1 }, { unique: true });
+
+    // Analysis cache collection indexes
+    await db.collection('analysis_cache').createIndex({ fileHash: 1, projectType: 1, analysisVersion: 1 }, { unique: true });
+
+    // Analysis jobs collection indexes
+    await db.collection('analysis_jobs').createIndex({ jobId: 1 }, { unique: true });
+    await db.collection('analysis_jobs').createIndex({ userId: 1, createdAt: -1 });
+    await db.collection('analysis_jobs').createIndex({ status: 1 });
+
+    // Rate library collection indexes
+    await db.collection('rate_library').createIndex({ itemCode: 1, region: 1, effectiveDate: -1 });
+    await db.collection('rate_library').createIndex({ region: 1, isActive: 1 });
+    await db.collection('rate_library').createIndex({ description: 'text' });
+
+    // Exchange rates collection indexes
+    await db.collection('exchange_rates').createIndex({ baseCurrency: 1, quoteCurrency: 1, effectiveDate: -1 });
+
+    // Location factors collection indexes
+    await db.collection('location_factors').createIndex({ location: 1, isActive: 1, effectiveDate: -1 });
+    await db.collection('location_factors').createIndex({ county: 1 });
+
+    // Price indices collection indexes
+    await db.collection('price_indices').createIndex({ trade: 1, period: 1, isActive: 1 });
+
+    // Material norms collection indexes
+    await db.collection('material_norms').createIndex({ key: 1, isActive: 1 });
+
+    // Productivity norms and resource rates collection indexes
+    await db.collection('productivity_norms').createIndex({ key: 1, isActive: 1 });
+    await db.collection('resource_rates').createIndex({ kind: 1, resource: 1, isActive: 1 });
+
+    // Valuations collection indexes; one valuation per number of each contract BQ
+    await db.collection('valuations').createIndex({ analysisId: 1, number: 1 }, { unique: true });
+    await db.collection('valuations').createIndex({ userId: 1, projectId: 1 });
+
+    // Variations collection indexes; one variation order per number of each contract BQ
+    await db.collection('variations').createIndex({ analysisId: 1, number: 1 }, { unique: true });
+    await db.collection('variations').createIndex({ userId: 1, projectId: 1 });
 
     logger.info('✅ All database indexes created successfully');
 
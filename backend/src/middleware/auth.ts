@@ -190,3 +190,29 @@ export const requireProjectAccess = async (
     next(error);
   }
 };
+
+// Admins are the users whose email is listed in ADMIN_EMAILS (comma separated)
+export const isAdminEmail = (email: string | undefined, adminEmails: string = process.env.ADMIN_EMAILS || ''): boolean => {
+  if (!email) return false;
+  return adminEmails
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .includes(email.trim().toLowerCase());
+};
+
+export const requireAdmin = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    return next(new CustomError('Authentication required', 401));
+  }
+
+  if (!isAdminEmail(req.user.email)) {
+    return next(new CustomError('Admin access required', 403));
+  }
+
+  next();
+};
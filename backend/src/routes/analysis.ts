@@ -1,16 +1,88 @@
 import { Router, Request, Response } from 'express';
-import { body, validationResult } from 'express-validator';
-import { ObjectId } from 'mongodb';
+import { body, param, query, validationResult } from 'express-validator';
+import { Db, ObjectId } from 'mongodb';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { getDatabase } from '../config/database';
 import { CustomError, asyncHandler } from '../middleware/errorHandler';
-import { authenticateUser, AuthenticatedRequest, optionalAuth } from '../middleware/auth';
+import { authenticateUser, requireAdmin, AuthenticatedRequest, optionalAuth } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import axios from 'axios';
-import { analyzeFloorPlan as geminiAnalyzeFloorPlan } from '../services/geminiService';
+import { analyzeFloorPlanValidated } from '../services/geminiService';
+import { convertAIResponseToAnalysisResult } from '../services/bqSchema';
+import { isLLMConfigured } from '../services/llmProviders';
 import { createFileStorageService } from '../services/fileStorageService';
+import { reconcileAnalysis, applyReconciliation } from '../services/bqReconciliation';
+import { applyRateLibrary, loadEffectiveRates, DEFAULT_RATE_REGION } from '../services/rateLibrary';
+import { buildBqWorkbook, BqExcelOptions } from '../services/bqExcelExport';
+import { renderAnalysisPdf, renderMarkdownPdf, loadCompanyBranding } from '../services/pdfExport';
+import {
+  parseSpreadsheet,
+  suggestColumnMapping,
+  validateColumnMapping,
+  mapRowsToBQ,
+  buildImportedAnalysis,
+  SUPPORTED_IMPORT_EXTENSIONS,
+  BQ_IMPORT_FIELDS
+} from '../services/bqImport';
+import { classifyBillOfQuantities, groupBillOfQuantities } from '../services/bqClassification';
+import { analyzeDrawingSet } from '../services/drawingSetAnalysis';
+import { isCadFile, takeoffFromFile, buildCadAnalysis, CadLayerOverrides } from '../services/cadTakeoff';
+import { compareBillOfQuantities, formatComparisonMarkdown } from '../services/bqComparison';
+import {
+  convertAnalysis,
+  convertAnalysisTo,
+  currencyOf,
+  isCurrencyCode,
+  resolveConversion,
+  CURRENCY_CODES,
+  DEFAULT_CURRENCY
+} from '../services/currency';
+import {
+  applyLocationFactors,
+  compareLocations,
+  findLocationFactor,
+  isSameLocation,
+  loadLocationFactors,
+  locationCandidates,
+  pricingFactor,
+  toFactorRef
+} from '../services/locationFactors';
+import { describeEscalation, loadPriceIndices, projectEscalation, removeEscalation } from '../services/escalation';
+import { buildMaterialSchedule, loadMaterialNorms } from '../services/materialSchedule';
+import { buildContractBaseline } from '../services/variations';
+import { buildResourceEstimate, estimateItemResources, loadProductivityNorms, loadResourceRateTable } from '../services/resourceEstimate';
+import {
+  loadProjectSummaryConfig,
+  parseSummaryConfig,
+  withEstimateSummary,
+  DEFAULT_SUMMARY_CONFIG
+} from '../services/estimateSummary';
+import { buildTakeoff, saveTakeoff, attachMeasurements, applyTakeoffQuantities, MAX_MEASUREMENTS } from '../services/planTakeoff';
+import {
+  submitAnalysisJob,
+  getAnalysisJob,
+  listAnalysisJobs,
+  cancelAnalysisJob,
+  retryAnalysisJob,
+  setAnalysisJobRunner,
+  publicJob,
+  AnalysisJobReporter,
+  ANALYSIS_JOB_STATUSES
+} from '../services/analysisJobs';
+import {
+  hashFile,
+  analysisCacheKey,
+  findCachedAnalysis,
+  storeCachedAnalysis,
+  reuseCachedAnalysis,
+  cacheInfo,
+  analysisCacheStats,
+  findAnalysesOfFile
+} from '../services/analysisCache';
+import { saveRevision, listRevisions, getRevision, restoreRevision, revisionAuthor, summarizeRevision } from '../services/analysisRevisions';
+import { AnalysisFallback, AnalysisJobInput, AnalysisJobStatus, AnalysisResult, BQGrouping, BqColumnMapping, CadLayerRole, CurrencyCode, EstimateSummaryConfig, RateMatchMode } from '../types';
 
 const router = Router();
 const fileStorageService = createFileStorageService();
@@ -46,57 +118,265 @@ const upload = multer({
       'application/x-dwg'
     ];
 
-    if (allowedTypes.includes(file.mimetype)) {
+    // Browsers send CAD drawings under many different types, so DXF and DWG go by extension
+    if (allowedTypes.includes(file.mimetype) || isCadFile(file.originalname)) {
       cb(null, true);
     } else {
-      cb(new CustomError('File type not allowed. Please upload PDF, JPG, PNG, or DWG files.', 400));
+      cb(new CustomError('File type not allowed. Please upload PDF, JPG, PNG, DXF or DWG files.', 400));
     }
   }
 });
 
-// Interface for analysis result matching frontend AnalyzedBQ
-interface AnalysisResult {
-  summary: {
-    totalEstimatedCostKES: number;
-    totalWastageCostKES: number;
-    confidenceScore: number;
-    totalArea?: number; // Kept for backend reference
+// BQ spreadsheets are parsed in memory and never stored
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (SUPPORTED_IMPORT_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new CustomError('File type not allowed. Please upload a CSV or XLSX file.', 400));
+    }
+  }
+});
+
+const IMPORT_PREVIEW_ROWS = 10;
+
+// Parse the column mapping sent as a JSON form field
+const parseColumnMapping = (raw: unknown): BqColumnMapping => {
+  let value: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new CustomError('Column mapping must be valid JSON', 400);
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new CustomError('Column mapping is required', 400);
+  }
+
+  const mapping: BqColumnMapping = {};
+  for (const field of BQ_IMPORT_FIELDS) {
+    if (value[field] !== undefined && value[field] !== null && value[field] !== '') {
+      mapping[field] = Number(value[field]);
+    }
+  }
+  return mapping;
+};
+
+const CAD_LAYER_ROLES: CadLayerRole[] = ['walls', 'doors', 'windows', 'rooms'];
+
+// Parse the CAD layer names sent as a JSON form field, e.g. {"walls": ["MURS"]}
+const parseCadLayers = (raw: unknown): CadLayerOverrides | undefined => {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+
+  let value: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new CustomError('CAD layers must be valid JSON', 400);
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new CustomError('CAD layers must map a role to a list of layer names', 400);
+  }
+
+  const layers: CadLayerOverrides = {};
+  for (const role of CAD_LAYER_ROLES) {
+    if (value[role] === undefined) continue;
+    const names = Array.isArray(value[role]) ? value[role] : [value[role]];
+    layers[role] = names.map(String).filter((name: string) => name.trim() !== '');
+  }
+  return layers;
+};
+
+// Options shared by direct and queued analysis, read from the upload form
+const analysisOptions = (body: any): Omit<AnalysisJobInput, 'filePath' | 'fileName' | 'fileType' | 'fileSize'> => ({
+  projectName: body.projectName || '',
+  projectType: body.projectType || 'residential',
+  region: body.region || DEFAULT_RATE_REGION,
+  rateMode: body.rateMode === 'check' ? 'check' : 'override',
+  currency: isCurrencyCode(body.currency) ? body.currency : DEFAULT_CURRENCY,
+  ...(body.location && { location: String(body.location) }),
+  ...(body.wallHeight && { wallHeightM: parseFloat(body.wallHeight) }),
+  ...(body.cadLayers && { cadLayers: parseCadLayers(body.cadLayers) }),
+  ...((body.reanalyze === true || body.reanalyze === 'true') && { reanalyze: true }),
+});
+
+const analyzeValidators = [
+  body('projectId').optional({ values: 'falsy' }).isMongoId().withMessage('projectId must be a project ID'),
+  body('currency').optional({ values: 'falsy' }).isIn(CURRENCY_CODES).withMessage('Unsupported currency'),
+  body('reanalyze').optional().isBoolean().withMessage('reanalyze must be true or false'),
+  body('wallHeight').optional({ values: 'falsy' }).isFloat({ min: 1.5, max: 20 }).withMessage('Wall height must be between 1.5 and 20 metres'),
+];
+
+// Fail before analysing when the BQ could not be converted to the requested currency
+const ensureConvertible = async (currency: CurrencyCode = DEFAULT_CURRENCY): Promise<void> => {
+  try {
+    await resolveConversion(DEFAULT_CURRENCY, currency);
+  } catch (error: any) {
+    throw new CustomError(`${error.message}; ask an admin to add one`, 400);
+  }
+};
+
+type AnalysisOptions = ReturnType<typeof analysisOptions>;
+
+// The project's currency and location apply unless the form names others
+const applyProjectSettings = async (userId: string | undefined, body: any, options: AnalysisOptions): Promise<AnalysisOptions> => {
+  const settings = { ...options };
+  let candidates = locationCandidates(body.location || undefined);
+
+  if (body.projectId) {
+    if (!userId) throw new CustomError('Sign in to analyse a drawing for a project', 401);
+
+    const project = await getDatabase().collection('projects').findOne({ _id: new ObjectId(body.projectId), userId });
+    if (!project) throw new CustomError('Project not found', 404);
+
+    settings.projectId = body.projectId;
+    if (!body.currency && isCurrencyCode(project.metadata?.currency)) settings.currency = project.metadata.currency;
+    if (!body.location) candidates = locationCandidates(project.location);
+  }
+
+  if (candidates.length > 0) {
+    const factor = findLocationFactor(await loadLocationFactors(), candidates);
+    if (!factor) throw new CustomError(`No location factor for ${candidates.join(' or ')}; ask an admin to add one`, 400);
+    settings.location = factor.location;
+  }
+
+  await ensureConvertible(settings.currency);
+  return settings;
+};
+
+// Convert a stored BQ for display or export, when another currency is asked for
+const convertForDisplay = async (analysisResult: AnalysisResult, currency?: string, asOf?: string): Promise<AnalysisResult> => {
+  if (!currency || currency === currencyOf(analysisResult)) return analysisResult;
+  try {
+    return await convertAnalysisTo(analysisResult, currency as CurrencyCode, asOf ? new Date(asOf) : new Date());
+  } catch (error: any) {
+    throw new CustomError(error.message, 400);
+  }
+};
+
+const resourceRatesFor = async (analysisResult: AnalysisResult) => {
+  try {
+    return await loadResourceRateTable(analysisResult);
+  } catch (error: any) {
+    throw new CustomError(error.message, 400);
+  }
+};
+
+const currencyValidators = [
+  query('currency').optional().isIn(CURRENCY_CODES).withMessage('Unsupported currency'),
+  query('asOf').optional().isISO8601().withMessage('asOf must be a valid date'),
+];
+
+const readSpreadsheet = async (file: Express.Multer.File, sheetName?: string) => {
+  try {
+    return await parseSpreadsheet(file.buffer, file.originalname, sheetName);
+  } catch (error: any) {
+    logger.error('BQ spreadsheet parse error:', error);
+    throw new CustomError(error.message || 'Failed to read spreadsheet', 400);
+  }
+};
+
+// A BQ locked as a contract keeps its baseline; changes to it are recorded as variation orders
+const assertNotContract = (analysis: any) => {
+  if (analysis.contract) {
+    throw new CustomError('This BQ is locked as a contract; record changes to it as variation orders', 400);
+  }
+};
+
+// Metadata and summary fields set by the server (provenance, currency, location, escalation), never by a draft save
+const SERVER_METADATA_FIELDS = [
+  'userId', 'source', 'fallback', 'validation', 'fileHash', 'cache', 'pages', 'cadTakeoff',
+  'currency', 'conversions', 'region', 'location', 'escalation'
+] as const;
+const SERVER_SUMMARY_FIELDS = ['escalationAllowanceKES', 'regionalPricingDifferences'] as const;
+
+const keepServerFields = <T extends object>(sent: T | undefined, stored: T | undefined, fields: readonly string[]): T => {
+  const kept: any = { ...(sent || {}) };
+  fields.forEach(field => {
+    delete kept[field];
+    if ((stored as any)?.[field] !== undefined) kept[field] = (stored as any)[field];
+  });
+  return kept;
+};
+
+// Load one side of a BQ comparison: the current analysis or one of its revisions
+const loadComparisonSide = async (userId: string | undefined, id: string, revision?: string) => {
+  const db = getDatabase();
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const analysis = await db.collection('analysis_results').findOne({ _id: new ObjectId(id), userId });
+  if (!analysis) throw new CustomError('Analysis not found or unauthorized', 404);
+
+  let analysisResult = analysis.analysisResult as AnalysisResult;
+  let label = `${analysis.projectName || analysis.fileName || 'Analysis'} (${new Date(analysis.createdAt).toLocaleDateString('en-GB')})`;
+
+  if (revision) {
+    const snapshot = await getRevision(db, analysis._id, Number(revision));
+    if (!snapshot) throw new CustomError(`Revision ${revision} not found`, 404);
+    analysisResult = snapshot.analysisResult;
+    label = `${analysis.projectName || analysis.fileName || 'Analysis'} rev ${snapshot.revisionNumber} (${new Date(snapshot.createdAt).toLocaleDateString('en-GB')})`;
+  }
+
+  return {
+    analysisResult,
+    side: { label, analysisId: id, ...(revision && { revisionNumber: Number(revision) }) }
   };
-  billOfQuantities: Array<{
-    itemNumber: string;
-    description: string;
-    unit: string;
-    quantity: number;
-    unitRateKES: number;
-    wastageFactor: number;
-    totalCostKES: number;
-    category?: string;
-  }>;
-  intelligentSuggestions: Array<{
-    suggestionType: string;
-    originalItem: string;
-    suggestion: string;
-    impact: string;
-  }>;
-  projectName: string;
-  metadata: {
-    analysisDate: Date;
-    fileType: string;
-    fileName: string;
-    confidence: number;
-    userId?: string;
+};
+
+const comparisonValidators = [
+  query('base').isMongoId().withMessage('base must be an analysis ID'),
+  query('revised').isMongoId().withMessage('revised must be an analysis ID'),
+  query('baseRevision').optional().isInt({ min: 1 }).withMessage('baseRevision must be a positive integer'),
+  query('revisedRevision').optional().isInt({ min: 1 }).withMessage('revisedRevision must be a positive integer'),
+];
+
+const buildComparison = async (req: AuthenticatedRequest) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const base = await loadComparisonSide(req.user?._id, req.query.base as string, req.query.baseRevision as string | undefined);
+  const revised = await loadComparisonSide(req.user?._id, req.query.revised as string, req.query.revisedRevision as string | undefined);
+
+  // The revised BQ is compared in the base BQ's currency
+  const currency = currencyOf(base.analysisResult);
+  const revisedResult = await convertForDisplay(revised.analysisResult, currency);
+
+  return {
+    projectName: revised.analysisResult.projectName,
+    comparison: compareBillOfQuantities(base.analysisResult.billOfQuantities, revisedResult.billOfQuantities, {
+      base: base.side,
+      revised: revised.side
+    }, currency)
   };
-}
+};
 
 /**
  * POST /api/analysis/analyze
  * @summary Analyze floor plan and generate Bill of Quantities
  * @tags Analysis
- * @param {file} floorPlan.formData.required - Floor plan file (PDF, DWG, JPG, PNG)
+ * @param {file} floorPlan.formData.required - Floor plan file (PDF, DXF, DWG, JPG, PNG)
  * @param {string} projectName.formData.required - Name of the project
  * @param {string} projectType.formData - Type of project (residential/commercial)
+ * @param {string} region.formData - Pricing region for library rates (default Nairobi)
+ * @param {string} rateMode.formData - 'override' to replace AI rates with library rates, 'check' to only flag deviations
+ * @param {string} currency.formData - Base currency of the project; the BQ is priced in KES and converted (default KES)
+ * @param {string} location.formData - Town or county to adjust the region's rates to with the location factors
+ * @param {string} projectId.formData - Project whose currency and location apply when the form does not name them
+ * @param {number} wallHeight.formData - Storey height in metres for walling measured from DXF/DWG drawings (default 3.0)
+ * @param {string} cadLayers.formData - JSON of DXF/DWG layer names per role, e.g. {"walls": ["MURS"]}
+ * @param {boolean} reanalyze.formData - Call the AI again even if an identical drawing has been analysed
  * @return {object} 200 - Analysis completed successfully
  * @return {object} 400 - Bad request (invalid file or missing parameters)
+ * @return {object} 422 - DXF/DWG drawing could not be read
  * @return {object} 500 - Internal server error
  * @example request - Example request body
  * {
@@ -131,64 +411,44 @@ interface AnalysisResult {
  *   }
  * }
  */
-router.post('/analyze', optionalAuth, upload.single('floorPlan'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.post('/analyze', optionalAuth, upload.single('floorPlan'), analyzeValidators, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   if (!req.file) {
     throw new CustomError('No floor plan file uploaded', 400);
   }
 
-  const { projectName, projectType = 'residential' } = req.body;
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    fs.unlinkSync(req.file.path);
+    throw new CustomError('Validation failed', 400);
+  }
 
   try {
     logger.info(`Starting floor plan analysis for: ${req.file.originalname}`);
 
-    // Perform AI-powered analysis
-    const analysisResult = await performFloorPlanAnalysis(req.file, projectName, projectType);
-
-    logger.info(`Analysis completed successfully for: ${req.file.originalname}`);
-
-    // Save to DB
-    const db = getDatabase();
+    const options = await applyProjectSettings(req.user?._id, req.body, analysisOptions(req.body));
 
-    // Upload to S3 if configured (logic consolidated)
-    let fileUrl = req.file.path;
-    try {
-      const userId = req.user ? req.user._id : 'anonymous';
-      const uploadResult = await fileStorageService.uploadFile(
-        req.file,
-        projectName.replace(/[^a-zA-Z0-9]/g, '_'),
-        userId,
-        {},
-        'analysis'
-      );
-      if (uploadResult.success && uploadResult.url) {
-        fileUrl = uploadResult.url;
-        // if (fs.existsSync(req.file.path)) fs.unlinkSync(req.file.path);
-      }
-    } catch (uploadError: any) {
-      logger.error('Failed to upload file to storage:', uploadError);
-    }
-
-    const analysisRecord: any = {
-      fileName: req.file.originalname,
-      filePath: fileUrl,
-      projectName: analysisResult.projectName,
-      analysisResult,
-      createdAt: new Date(),
-      metadata: analysisResult.metadata
-    };
-
-    if (req.user && req.user._id) {
-      analysisRecord.userId = req.user._id;
-    }
+    const { analysisResult, analysisId } = await runAnalysisPipeline({
+      file: req.file,
+      ...options,
+      userId: req.user?._id,
+    });
 
-    const result = await db.collection('analysis_results').insertOne(analysisRecord);
+    // Earlier analyses of the same drawing, so the user can open one instead of keeping both
+    const previousAnalyses = req.user && analysisResult.metadata.fileHash
+      ? await findAnalysesOfFile(getDatabase(), req.user._id, analysisResult.metadata.fileHash, analysisId)
+      : [];
 
     res.json({
       success: true,
       data: {
         analysis: analysisResult,
-        analysisId: result.insertedId,
-        message: 'Floor plan analysis completed successfully'
+        analysisId,
+        discrepancies: analysisResult.reconciliation?.discrepancies || [],
+        cache: analysisResult.metadata.cache || null,
+        previousAnalyses,
+        message: analysisResult.metadata.cache?.hit
+          ? 'Floor plan analysis reused from an identical drawing'
+          : 'Floor plan analysis completed successfully'
       }
     });
 
@@ -197,148 +457,1726 @@ router.post('/analyze', optionalAuth, upload.single('floorPlan'), asyncHandler(a
     if (fs.existsSync(req.file.path)) {
       fs.unlinkSync(req.file.path);
     }
+    if (error instanceof CustomError) throw error;
     throw new CustomError('Failed to analyze floor plan', 500);
   }
 }));
 
 /**
- * PUT /api/analysis/:id
- * @summary Update an existing analysis (Save Draft BQ)
+ * POST /api/analysis/jobs
+ * @summary Queue a floor plan analysis and return its job at once
  * @tags Analysis
- * @param {string} id.path.required - Analysis ID
- * @param {object} body.required - Analysis update data
- * @return {object} 200 - Analysis updated successfully
+ * @security BearerAuth
+ * @param {file} floorPlan.formData.required - Floor plan file (PDF, DXF, DWG, JPG, PNG)
+ * @param {string} projectName.formData.required - Name of the project
+ * @param {string} projectType.formData - Type of project (residential/commercial)
+ * @param {string} region.formData - Pricing region for library rates (default Nairobi)
+ * @param {string} rateMode.formData - 'override' to replace AI rates with library rates, 'check' to only flag deviations
+ * @param {string} currency.formData - Base currency of the project; the BQ is priced in KES and converted (default KES)
+ * @param {string} location.formData - Town or county to adjust the region's rates to with the location factors
+ * @param {string} projectId.formData - Project whose currency and location apply when the form does not name them
+ * @param {number} wallHeight.formData - Storey height in metres for walling measured from DXF/DWG drawings (default 3.0)
+ * @param {string} cadLayers.formData - JSON of DXF/DWG layer names per role, e.g. {"walls": ["MURS"]}
+ * @param {boolean} reanalyze.formData - Call the AI again even if an identical drawing has been analysed
+ * @return {object} 202 - Job queued; follow it in the analysis-job-{jobId} Socket.IO room
+ * @return {object} 400 - Bad request (invalid file or missing parameters)
  */
-router.put('/:id', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-  const { id } = req.params;
-  const updates = req.body;
-  const db = getDatabase();
+router.post('/jobs', authenticateUser, upload.single('floorPlan'), analyzeValidators, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.file) {
+    throw new CustomError('No floor plan file uploaded', 400);
+  }
 
-  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    fs.unlinkSync(req.file.path);
+    throw new CustomError('Validation failed', 400);
+  }
 
-  const existingAnalysis = await db.collection('analysis_results').findOne({
-    _id: new ObjectId(id),
-    userId: req.user?._id
+  let options;
+  try {
+    options = await applyProjectSettings(req.user!._id, req.body, analysisOptions(req.body));
+  } catch (error) {
+    fs.unlinkSync(req.file.path);
+    throw error;
+  }
+
+  const job = await submitAnalysisJob(getDatabase(), req.user!._id, {
+    filePath: req.file.path,
+    fileName: req.file.originalname,
+    fileType: req.file.mimetype,
+    fileSize: req.file.size,
+    ...options,
   });
 
-  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  logger.info(`Queued analysis job ${job.jobId} for: ${req.file.originalname}`);
 
-  await db.collection('analysis_results').updateOne(
-    { _id: new ObjectId(id) },
-    { $set: { analysisResult: updates, updatedAt: new Date() } }
-  );
+  res.status(202).json({
+    success: true,
+    data: {
+      jobId: job.jobId,
+      job: publicJob(job),
+      message: 'Floor plan analysis queued'
+    }
+  });
+}));
+
+/**
+ * GET /api/analysis/jobs
+ * @summary List the user's analysis jobs, newest first
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} status.query - Only jobs in this status (queued, running, completed, failed, cancelled)
+ * @param {number} limit.query - Maximum number of jobs (default 20, at most 100)
+ * @return {object} 200 - Jobs with their status, stage and progress
+ */
+router.get('/jobs', authenticateUser, [
+  query('status').optional().isIn(ANALYSIS_JOB_STATUSES).withMessage(`Status must be one of: ${ANALYSIS_JOB_STATUSES.join(', ')}`),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const jobs = await listAnalysisJobs(getDatabase(), req.user!._id, {
+    status: req.query.status as AnalysisJobStatus | undefined,
+    limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+  });
 
-  res.json({ success: true, data: { message: 'Analysis draft saved successfully' } });
+  res.json({ success: true, data: { jobs: jobs.map(publicJob) } });
 }));
 
 /**
- * GET /api/analysis/history
- * @summary Get analysis history for authenticated user
+ * GET /api/analysis/jobs/{jobId}
+ * @summary Get an analysis job with the stages it has reached
  * @tags Analysis
  * @security BearerAuth
- * @return {object} 200 - Analysis history retrieved successfully
- * @return {object} 401 - Unauthorized (invalid or missing token)
- * @example response - 200 - Analysis history
- * {
- *   "success": true,
- *   "data": {
- *     "analyses": [
- *       {
- *         "fileName": "floor-plan.pdf",
- *         "filePath": "/uploads/analysis/analysis-1234567890.pdf",
- *         "projectName": "Modern Bungalow",
- *         "analysisResult": {
- *           "projectName": "Modern Bungalow",
- *           "totalArea": "150 sqm",
- *           "totalCost": "KSh 4,200,000",
- *           "costPerSqm": "KSh 28,000/sqm"
- *         },
- *         "createdAt": "2025-09-26T10:00:00.000Z",
- *         "metadata": {
- *           "fileType": "application/pdf",
- *           "fileSize": 2048576
- *         }
- *       }
- *     ]
- *   }
- * }
+ * @param {string} jobId.path.required - Job ID
+ * @return {object} 200 - The job; once completed, its analysisId and the analysis itself
+ * @return {object} 404 - Job not found
  */
-router.get('/history', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.get('/jobs/:jobId', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const db = getDatabase();
-  const analyses = await db.collection('analysis_results')
-    .find({ userId: req.user?._id })
-    .sort({ createdAt: -1 })
-    .limit(20)
-    .toArray();
+  const job = await getAnalysisJob(db, req.user!._id, req.params.jobId);
+  if (!job) throw new CustomError('Job not found', 404);
 
-  res.json({ success: true, data: { analyses } });
+  // A completed job comes with its analysis so the client can open it straight away
+  const saved = job.status === 'completed' && job.analysisId && ObjectId.isValid(job.analysisId)
+    ? await db.collection('analysis_results').findOne({ _id: new ObjectId(job.analysisId), userId: req.user?._id })
+    : null;
+
+  res.json({
+    success: true,
+    data: {
+      job: publicJob(job),
+      ...(saved && { analysis: saved.analysisResult })
+    }
+  });
 }));
 
+/**
+ * POST /api/analysis/jobs/{jobId}/cancel
+ * @summary Cancel a queued or running analysis job
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} jobId.path.required - Job ID
+ * @return {object} 200 - Job cancelled
+ * @return {object} 400 - The job has already finished
+ * @return {object} 404 - Job not found
+ */
+router.post('/jobs/:jobId/cancel', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  let job;
+  try {
+    job = await cancelAnalysisJob(getDatabase(), req.user!._id, req.params.jobId);
+  } catch (error: any) {
+    throw new CustomError(error.message, 400);
+  }
+  if (!job) throw new CustomError('Job not found', 404);
+
+  res.json({ success: true, data: { job: publicJob(job), message: 'Analysis job cancelled' } });
+}));
 
-// Helper function to perform floor plan analysis
-async function performFloorPlanAnalysis(file: Express.Multer.File, projectName: string, projectType: string): Promise<AnalysisResult> {
+/**
+ * POST /api/analysis/jobs/{jobId}/retry
+ * @summary Queue a failed or cancelled analysis job again
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} jobId.path.required - Job ID
+ * @return {object} 202 - Job queued again
+ * @return {object} 400 - The job is not failed or cancelled, or its drawing is gone
+ * @return {object} 404 - Job not found
+ */
+router.post('/jobs/:jobId/retry', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  let job;
   try {
-    const geminiApiKey = process.env.GEMINI_API_KEY;
-    if (!geminiApiKey) {
-      logger.warn('Gemini API key not configured, falling back to simulation');
-      return performSimulatedAnalysis(file, projectName, projectType);
-    }
+    job = await retryAnalysisJob(getDatabase(), req.user!._id, req.params.jobId);
+  } catch (error: any) {
+    throw new CustomError(error.message, 400);
+  }
+  if (!job) throw new CustomError('Job not found', 404);
 
-    const fileBuffer = fs.readFileSync(file.path);
-    const base64Data = fileBuffer.toString('base64');
-    const aiResponseString = await geminiAnalyzeFloorPlan(base64Data, file.mimetype);
+  res.status(202).json({ success: true, data: { job: publicJob(job), message: 'Analysis job queued again' } });
+}));
+
+/**
+ * GET /api/analysis/cache/stats
+ * @summary How many analyses were served from the cache of identical drawings, across all users (admin only)
+ * @tags Analysis
+ * @security BearerAuth
+ * @return {object} 200 - Cache entries, lookups, hits, misses and hit rate for the current prompt/pipeline version
+ */
+router.get('/cache/stats', authenticateUser, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const stats = await analysisCacheStats(getDatabase());
+
+  res.json({ success: true, data: { stats } });
+}));
+
+/**
+ * POST /api/analysis/import/preview
+ * @summary Read a priced BQ spreadsheet and suggest a column mapping
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {file} file.form.required - CSV or XLSX file
+ * @param {string} sheetName.form - Worksheet to read (XLSX only, defaults to the first with data)
+ * @param {string} mapping.form - JSON column mapping to validate instead of the suggested one
+ * @return {object} 200 - Headers, sample rows, suggested mapping and row errors under the mapping
+ * @return {object} 400 - Unsupported or unreadable file
+ */
+router.post('/import/preview', authenticateUser, importUpload.single('file'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.file) {
+    throw new CustomError('No BQ file uploaded', 400);
+  }
+
+  const sheet = await readSpreadsheet(req.file, req.body.sheetName);
+  const suggestedMapping = suggestColumnMapping(sheet.headers);
+  const mapping = req.body.mapping ? parseColumnMapping(req.body.mapping) : suggestedMapping;
+  const mappingProblems = validateColumnMapping(mapping, sheet.headers.length);
+  const { items, errors } = mappingProblems.length === 0
+    ? mapRowsToBQ(sheet, mapping)
+    : { items: [], errors: [] };
 
-    if (aiResponseString.includes('"error"')) {
-      const errorResponse = JSON.parse(aiResponseString);
-      throw new Error(errorResponse.error.message || 'AI analysis failed');
+  res.json({
+    success: true,
+    data: {
+      sheetName: sheet.sheetName,
+      sheetNames: sheet.sheetNames,
+      headerRowNumber: sheet.headerRowNumber,
+      headers: sheet.headers,
+      sampleRows: sheet.rows.slice(0, IMPORT_PREVIEW_ROWS),
+      rowCount: sheet.rows.length,
+      suggestedMapping,
+      mapping,
+      mappingProblems,
+      itemCount: items.length,
+      errors
     }
+  });
+}));
 
-    const aiResponse = JSON.parse(aiResponseString);
-    return convertAIResponseToAnalysisResult(aiResponse, projectName, file);
+/**
+ * POST /api/analysis/import
+ * @summary Import a priced BQ spreadsheet as an editable analysis
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {file} file.form.required - CSV or XLSX file
+ * @param {string} mapping.form.required - JSON object of BQ field to zero-based column index
+ * @param {string} projectName.form - Project name (defaults to the file name)
+ * @param {string} sheetName.form - Worksheet to read (XLSX only)
+ * @param {string} region.form - Pricing region recorded on the BQ
+ * @param {string} currency.form - Currency the spreadsheet is priced in (default KES)
+ * @return {object} 200 - Imported analysis with rejected rows listed in errors
+ * @return {object} 400 - Invalid mapping or no valid rows
+ */
+router.post('/import', authenticateUser, importUpload.single('file'), asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  if (!req.file) {
+    throw new CustomError('No BQ file uploaded', 400);
+  }
 
-  } catch (error: any) {
-    logger.error('AI analysis failed/fallback:', error);
-    return performSimulatedAnalysis(file, projectName, projectType);
+  if (req.body.currency && !isCurrencyCode(req.body.currency)) {
+    throw new CustomError('Unsupported currency', 400);
   }
-}
 
-function convertAIResponseToAnalysisResult(aiResponse: any, projectName: string, file: Express.Multer.File): AnalysisResult {
-  // Ensure strict number types
-  const summary = {
-    totalEstimatedCostKES: Number(aiResponse.summary?.totalEstimatedCostKES || 0),
-    totalWastageCostKES: Number(aiResponse.summary?.totalWastageCostKES || 0),
-    confidenceScore: Number(aiResponse.summary?.confidenceScore || 0.85),
-    totalArea: Number(aiResponse.summary?.totalArea || 0)
-  };
+  const mapping = parseColumnMapping(req.body.mapping);
+  const sheet = await readSpreadsheet(req.file, req.body.sheetName);
 
-  const billOfQuantities = (aiResponse.billOfQuantities || []).map((item: any) => ({
-    itemNumber: item.itemNumber || '0',
-    description: item.description || '',
-    unit: item.unit || 'LS',
-    quantity: Number(item.quantity || 0),
-    unitRateKES: Number(item.unitRateKES || 0),
-    wastageFactor: Number(item.wastageFactor || 0.05),
-    totalCostKES: Number(item.totalCostKES || 0),
-    category: item.category
-  }));
+  const mappingProblems = validateColumnMapping(mapping, sheet.headers.length);
+  if (mappingProblems.length > 0) {
+    throw new CustomError(`Invalid column mapping: ${mappingProblems.join('; ')}`, 400);
+  }
 
-  const intelligentSuggestions = aiResponse.intelligentSuggestions || [];
+  const { items, errors } = mapRowsToBQ(sheet, mapping);
+  if (items.length === 0) {
+    throw new CustomError('No valid BQ rows found in the spreadsheet', 400);
+  }
 
-  return {
-    summary,
-    billOfQuantities,
-    intelligentSuggestions,
-    projectName: projectName || `Analysis - ${new Date().toLocaleDateString()}`,
-    metadata: {
-      analysisDate: new Date(),
-      fileType: file.mimetype,
-      fileName: file.originalname,
-      confidence: summary.confidenceScore
+  const projectName = req.body.projectName || path.parse(req.file.originalname).name;
+  const analysisResult = buildImportedAnalysis(items, {
+    projectName,
+    fileName: req.file.originalname,
+    fileType: req.file.mimetype,
+    region: req.body.region || DEFAULT_RATE_REGION
+  });
+  analysisResult.metadata.userId = req.user?._id;
+  analysisResult.metadata.currency = req.body.currency || DEFAULT_CURRENCY;
+
+  const classification = await classifyBillOfQuantities(analysisResult.billOfQuantities);
+  analysisResult.billOfQuantities = classification.items;
+  analysisResult.metadata.classification = classification.summary;
+
+  // Flag lines where the consultant's amount differs from quantity × rate
+  analysisResult.reconciliation = reconcileAnalysis(analysisResult);
+  analysisResult.estimateSummary = withEstimateSummary(analysisResult).estimateSummary;
+
+  const db = getDatabase();
+  const result = await db.collection('analysis_results').insertOne({
+    fileName: req.file.originalname,
+    projectName,
+    analysisResult,
+    createdAt: new Date(),
+    metadata: analysisResult.metadata,
+    userId: req.user?._id
+  });
+
+  logger.info(`Imported ${items.length} BQ items from ${req.file.originalname} (${errors.length} rows rejected)`);
+
+  res.json({
+    success: true,
+    data: {
+      analysis: analysisResult,
+      analysisId: result.insertedId,
+      imported: items.length,
+      errors,
+      discrepancies: analysisResult.reconciliation.discrepancies,
+      message: 'BQ imported successfully'
     }
-  };
+  });
+}));
+
+/**
+ * GET /api/analysis/compare
+ * @summary Compare two analyses (or revisions) line by line
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} base.query.required - Analysis ID of the earlier BQ
+ * @param {string} revised.query.required - Analysis ID of the revised BQ
+ * @param {number} baseRevision.query - Compare this revision of the base analysis instead of its current BQ
+ * @param {number} revisedRevision.query - Compare this revision of the revised analysis instead of its current BQ
+ * @return {object} 200 - Added, removed and changed lines, cost delta per trade and overall, and a markdown change report
+ * @return {object} 404 - Analysis or revision not found
+ */
+router.get('/compare', authenticateUser, comparisonValidators, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { comparison, projectName } = await buildComparison(req);
+
+  res.json({
+    success: true,
+    data: {
+      comparison,
+      report: formatComparisonMarkdown(comparison, projectName)
+    }
+  });
+}));
+
+/**
+ * GET /api/analysis/compare/report.pdf
+ * @summary Export a BQ comparison as a branded change report
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} base.query.required - Analysis ID of the earlier BQ
+ * @param {string} revised.query.required - Analysis ID of the revised BQ
+ * @param {number} baseRevision.query - Revision of the base analysis
+ * @param {number} revisedRevision.query - Revision of the revised analysis
+ * @return {file} 200 - PDF change report
+ * @return {object} 404 - Analysis or revision not found
+ */
+router.get('/compare/report.pdf', authenticateUser, comparisonValidators, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { comparison, projectName } = await buildComparison(req);
+
+  const branding = await loadCompanyBranding(req.user!._id);
+  const pdf = await renderMarkdownPdf({
+    title: 'BQ Change Report',
+    subtitle: `${comparison.base.label} -> ${comparison.revised.label}`,
+    content: formatComparisonMarkdown(comparison, projectName)
+  }, branding);
+
+  const fileName = `${(projectName || 'BQ').replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'BQ'} - Change Report.pdf`;
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(pdf);
+}));
+
+/**
+ * PUT /api/analysis/:id
+ * @summary Update an existing analysis (Save Draft BQ)
+ * @tags Analysis
+ * @param {string} id.path.required - Analysis ID
+ * @param {object} body.required - { analysisResult, note } - a bare analysis result is also accepted
+ * @return {object} 200 - Analysis updated successfully; every save is kept as a new revision.
+ * Provenance, currency, location and escalation stay as stored whatever the body says
+ */
+router.put('/:id', authenticateUser, [
+  body('note').optional().isString().isLength({ max: 500 }).withMessage('Note must be at most 500 characters'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  // Older clients send the analysis result itself as the body
+  const updates: AnalysisResult = req.body.analysisResult || req.body;
+  if (!Array.isArray(updates.billOfQuantities)) {
+    throw new CustomError('Analysis must include a bill of quantities', 400);
+  }
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  assertNotContract(existingAnalysis);
+
+  // Measured items always take their quantity from the stored measurements
+  const stored = existingAnalysis.analysisResult as AnalysisResult | undefined;
+  const measured = withEstimateSummary(applyTakeoffQuantities({
+    ...updates,
+    summary: keepServerFields(updates.summary ?? stored?.summary, stored?.summary, SERVER_SUMMARY_FIELDS),
+    metadata: keepServerFields(updates.metadata ?? stored?.metadata, stored?.metadata, SERVER_METADATA_FIELDS),
+    takeoffs: updates.takeoffs ?? stored?.takeoffs,
+    summaryConfig: stored?.summaryConfig
+  }));
+  // The report must describe the BQ as saved, not the one before
+  measured.reconciliation = reconcileAnalysis(measured);
+
+  const revision = await saveRevision(db, existingAnalysis, measured, revisionAuthor(req.user!), {
+    note: req.body.analysisResult ? req.body.note : undefined
+  });
+
+  res.json({
+    success: true,
+    data: {
+      revision: summarizeRevision(revision),
+      estimateSummary: measured.estimateSummary,
+      message: 'Analysis draft saved successfully'
+    }
+  });
+}));
+
+/**
+ * GET /api/analysis/:id/revisions
+ * @summary List the saved revisions of an analysis, newest first
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @return {object} 200 - Revision summaries with author, note and BQ total
+ * @return {object} 404 - Analysis not found
+ */
+router.get('/:id/revisions', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+
+  const revisions = await listRevisions(db, existingAnalysis._id);
+
+  res.json({
+    success: true,
+    data: {
+      revisions,
+      currentRevision: existingAnalysis.currentRevision ?? null
+    }
+  });
+}));
+
+/**
+ * GET /api/analysis/:id/revisions/:revision
+ * @summary Get one revision of an analysis including its BQ
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {number} revision.path.required - Revision number
+ * @return {object} 200 - The revision
+ * @return {object} 404 - Analysis or revision not found
+ */
+router.get('/:id/revisions/:revision', authenticateUser, [
+  param('revision').isInt({ min: 1 }).withMessage('Revision must be a positive integer'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+
+  const revision = await getRevision(db, existingAnalysis._id, Number(req.params.revision));
+  if (!revision) throw new CustomError('Revision not found', 404);
+
+  res.json({ success: true, data: { revision } });
+}));
+
+/**
+ * POST /api/analysis/:id/revisions/:revision/restore
+ * @summary Restore an earlier revision as the current analysis
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {number} revision.path.required - Revision number to restore
+ * @param {object} body - { note: string } - optional note for the new revision
+ * @return {object} 200 - Restored analysis and the revision recording the restore
+ * @return {object} 404 - Analysis or revision not found
+ */
+router.post('/:id/revisions/:revision/restore', authenticateUser, [
+  param('revision').isInt({ min: 1 }).withMessage('Revision must be a positive integer'),
+  body('note').optional().isString().isLength({ max: 500 }).withMessage('Note must be at most 500 characters'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const revisionNumber = Number(req.params.revision);
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  assertNotContract(existingAnalysis);
+
+  const revision = await restoreRevision(db, existingAnalysis, revisionNumber, revisionAuthor(req.user!), req.body.note);
+  if (!revision) throw new CustomError('Revision not found', 404);
+
+  logger.info(`Restored revision ${revisionNumber} of analysis ${id} as revision ${revision.revisionNumber}`);
+
+  res.json({
+    success: true,
+    data: {
+      analysis: revision.analysisResult,
+      revision: summarizeRevision(revision),
+      message: `Revision ${revisionNumber} restored`
+    }
+  });
+}));
+
+/**
+ * PUT /api/analysis/:id/takeoff
+ * @summary Save the scale and on-screen measurements of one drawing
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {object} body.required - { fileName, imageWidth, imageHeight, scale: { points, lengthM }, measurements: [{ id, kind, label, points }] }
+ * @return {object} 200 - Measured takeoff and the analysis with measured quantities updated
+ * @return {object} 400 - Invalid takeoff
+ * @return {object} 404 - Analysis not found
+ */
+router.put('/:id/takeoff', authenticateUser, [
+  body('fileName').isString().trim().notEmpty().withMessage('fileName is required'),
+  body('measurements').isArray({ max: MAX_MEASUREMENTS }).withMessage(`measurements must be a list of at most ${MAX_MEASUREMENTS}`),
+  body('scale.lengthM').optional().isFloat({ gt: 0 }).withMessage('Scale length must be a positive number of metres'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  assertNotContract(existingAnalysis);
+
+  let takeoff;
+  let analysisResult: AnalysisResult;
+  try {
+    takeoff = buildTakeoff(req.body);
+    analysisResult = withEstimateSummary(saveTakeoff(existingAnalysis.analysisResult, takeoff));
+  } catch (error: any) {
+    throw new CustomError(error.message || 'Invalid takeoff', 400);
+  }
+
+  const revision = await saveRevision(db, existingAnalysis, analysisResult, revisionAuthor(req.user!), {
+    note: `Takeoff of ${takeoff.fileName} updated`
+  });
+
+  res.json({
+    success: true,
+    data: {
+      takeoff,
+      analysis: analysisResult,
+      revision: summarizeRevision(revision),
+      message: `${takeoff.measurements.length} measurements saved`
+    }
+  });
+}));
+
+/**
+ * POST /api/analysis/:id/takeoff/attach
+ * @summary Use measurements as the quantity of a BQ item, or add a measured item
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {object} body.required - { measurementIds: string[], itemIndex?: number, description?: string, category?: string, unitRateKES?: number }
+ * @return {object} 200 - Analysis with the measured item and its index
+ * @return {object} 400 - Unknown measurements or a unit mismatch
+ * @return {object} 404 - Analysis not found
+ */
+router.post('/:id/takeoff/attach', authenticateUser, [
+  body('measurementIds').isArray().withMessage('measurementIds must be a list'),
+  body('measurementIds.*').isString().withMessage('Measurement ids must be strings'),
+  body('itemIndex').optional().isInt({ min: 0 }).withMessage('itemIndex must be a BQ item index'),
+  body('description').optional().isString().isLength({ max: 500 }).withMessage('Description must be at most 500 characters'),
+  body('category').optional().isString(),
+  body('unitRateKES').optional().isFloat({ min: 0 }).withMessage('Unit rate must not be negative'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  assertNotContract(existingAnalysis);
+
+  let attached;
+  try {
+    attached = attachMeasurements(existingAnalysis.analysisResult, {
+      measurementIds: req.body.measurementIds,
+      itemIndex: req.body.itemIndex !== undefined ? Number(req.body.itemIndex) : undefined,
+      description: req.body.description,
+      category: req.body.category,
+      unitRateKES: req.body.unitRateKES !== undefined ? Number(req.body.unitRateKES) : undefined
+    });
+  } catch (error: any) {
+    throw new CustomError(error.message || 'Measurements could not be attached', 400);
+  }
+
+  attached.analysis = withEstimateSummary(attached.analysis);
+  const item = attached.analysis.billOfQuantities[attached.itemIndex];
+  const revision = await saveRevision(db, existingAnalysis, attached.analysis, revisionAuthor(req.user!), {
+    note: item.quantitySource
+      ? `Item ${item.itemNumber} measured on screen`
+      : `Item ${item.itemNumber} detached from its measurements`
+  });
+
+  res.json({
+    success: true,
+    data: {
+      analysis: attached.analysis,
+      itemIndex: attached.itemIndex,
+      revision: summarizeRevision(revision),
+      message: item.quantitySource ? 'Measurements attached' : 'Measurements detached'
+    }
+  });
+}));
+
+/**
+ * GET /api/analysis/:id/reconciliation
+ * @summary Get the arithmetic reconciliation report for an analysis
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @return {object} 200 - Reconciliation report with flagged lines
+ * @return {object} 404 - Analysis not found
+ */
+router.get('/:id/reconciliation', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+
+  const analysisResult = existingAnalysis.analysisResult as AnalysisResult;
+  const reconciliation = analysisResult.reconciliation || reconcileAnalysis(analysisResult);
+
+  res.json({ success: true, data: { reconciliation } });
+}));
+
+/**
+ * POST /api/analysis/:id/reconciliation
+ * @summary Resolve reconciliation discrepancies by keeping AI values or accepting recomputed values
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {object} request.body.required - Resolution choice
+ * @return {object} 200 - Updated analysis with the chosen values applied, saved as a new revision
+ * @return {object} 400 - Invalid resolution
+ * @return {object} 404 - Analysis not found
+ * @example request - Example request body
+ * {
+ *   "resolution": "recomputed"
+ * }
+ */
+router.post('/:id/reconciliation', authenticateUser, [
+  body('resolution').isIn(['ai', 'recomputed']).withMessage('Resolution must be either ai or recomputed'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const { resolution } = req.body;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  assertNotContract(existingAnalysis);
+
+  const analysisResult = withEstimateSummary(applyReconciliation(existingAnalysis.analysisResult as AnalysisResult, resolution));
+
+  const revision = await saveRevision(db, existingAnalysis, analysisResult, revisionAuthor(req.user!), {
+    note: `Reconciliation accepted (${resolution === 'ai' ? 'AI values' : 'recomputed'})`
+  });
+
+  logger.info(`Reconciliation resolved as '${resolution}' for analysis ${id}`);
+
+  res.json({ success: true, data: { analysis: analysisResult, revision: summarizeRevision(revision) } });
+}));
+
+/**
+ * POST /api/analysis/:id/classify
+ * @summary Re-run SMM7 / NRM1 classification for every BQ item
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {object} body - { useAI: boolean } - set useAI to false to classify with rules only
+ * @return {object} 200 - Classified analysis, saved as a new revision; manually classified items are kept
+ * @return {object} 404 - Analysis not found
+ */
+router.post('/:id/classify', authenticateUser, [
+  body('useAI').optional().isBoolean().withMessage('useAI must be a boolean'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  assertNotContract(existingAnalysis);
+
+  const current = existingAnalysis.analysisResult as AnalysisResult;
+  const classification = await classifyBillOfQuantities(current.billOfQuantities, { useAI: req.body.useAI });
+  const analysisResult: AnalysisResult = {
+    ...current,
+    billOfQuantities: classification.items,
+    metadata: { ...current.metadata, classification: classification.summary }
+  };
+
+  const revision = await saveRevision(db, existingAnalysis, analysisResult, revisionAuthor(req.user!), {
+    note: 'Reclassified'
+  });
+
+  res.json({
+    success: true,
+    data: {
+      analysis: analysisResult,
+      classification: classification.summary,
+      revision: summarizeRevision(revision),
+      message: 'BQ classified successfully'
+    }
+  });
+}));
+
+/**
+ * GET /api/analysis/:id/grouped
+ * @summary Get a BQ regrouped into trade bills or NRM1 elements
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {string} by.query - 'trade' (SMM7 work sections, default) or 'element' (NRM1)
+ * @return {object} 200 - Groups with their items and subtotals
+ * @return {object} 404 - Analysis not found
+ */
+router.get('/:id/grouped', authenticateUser, [
+  query('by').optional().isIn(['trade', 'element']).withMessage('by must be trade or element'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const by = (req.query.by as BQGrouping) || 'trade';
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+
+  const analysisResult = existingAnalysis.analysisResult as AnalysisResult;
+  const groups = Array.from(groupBillOfQuantities(analysisResult.billOfQuantities, by).entries())
+    .map(([name, items]) => ({
+      name,
+      itemCount: items.length,
+      totalCostKES: Math.round(items.reduce((sum, item) => sum + item.totalCostKES, 0) * 100) / 100,
+      items
+    }));
+
+  res.json({
+    success: true,
+    data: { groupBy: by, groups }
+  });
+}));
+
+/**
+ * GET /api/analysis/:id/convert
+ * @summary View a BQ converted to another currency (nothing is saved)
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {string} currency.query.required - Currency to convert to
+ * @param {string} asOf.query - Use the exchange rate in effect on this date (default today)
+ * @return {object} 200 - Converted analysis; metadata.conversions records the rate used
+ * @return {object} 400 - No exchange rate for the pair on that date
+ */
+router.get('/:id/convert', authenticateUser, [
+  query('currency').isIn(CURRENCY_CODES).withMessage('Unsupported currency'),
+  query('asOf').optional().isISO8601().withMessage('asOf must be a valid date'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+
+  const analysisResult = existingAnalysis.analysisResult as AnalysisResult;
+  const converted = await convertForDisplay(analysisResult, req.query.currency as string, req.query.asOf as string | undefined);
+  const isConverted = converted !== analysisResult;
+
+  res.json({
+    success: true,
+    data: {
+      analysis: isConverted ? withEstimateSummary(converted) : converted,
+      currency: currencyOf(converted),
+      originalCurrency: currencyOf(analysisResult),
+      conversion: isConverted ? converted.metadata.conversions?.slice(-1)[0] : null
+    }
+  });
+}));
+
+// Load an analysis of the user's for a location view
+const loadOwnAnalysis = async (userId: string | undefined, id: string): Promise<AnalysisResult> => {
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await getDatabase().collection('analysis_results').findOne({ _id: new ObjectId(id), userId });
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+
+  return existingAnalysis.analysisResult as AnalysisResult;
+};
+
+/**
+ * GET /api/analysis/:id/location
+ * @summary View a BQ adjusted to another town or county (nothing is saved)
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {string} location.query - Town or county to adjust the rates to
+ * @param {string} projectId.query - Adjust to this project's location instead
+ * @return {object} 200 - Adjusted analysis; metadata.location records the factors used
+ * @return {object} 400 - No location factor for the location
+ */
+router.get('/:id/location', authenticateUser, [
+  query('location').optional({ values: 'falsy' }).isString().trim(),
+  query('projectId').optional({ values: 'falsy' }).isMongoId().withMessage('projectId must be a project ID'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const analysisResult = await loadOwnAnalysis(req.user?._id, req.params.id);
+
+  let candidates = locationCandidates((req.query.location as string) || undefined);
+  if (candidates.length === 0 && req.query.projectId) {
+    const project = await getDatabase().collection('projects').findOne({
+      _id: new ObjectId(req.query.projectId as string),
+      userId: req.user?._id
+    });
+    if (!project) throw new CustomError('Project not found', 404);
+    candidates = locationCandidates(project.location);
+  }
+  if (candidates.length === 0) throw new CustomError('A location or a project with a location is required', 400);
+
+  const factors = await loadLocationFactors();
+  const target = findLocationFactor(factors, candidates);
+  if (!target) throw new CustomError(`No location factor for ${candidates.join(' or ')}; ask an admin to add one`, 400);
+
+  const from = pricingFactor(analysisResult, factors);
+  const { analysis, adjustment } = isSameLocation(target.location, from.location)
+    ? { analysis: analysisResult, adjustment: null }
+    : applyLocationFactors(analysisResult, from, toFactorRef(target));
+
+  res.json({
+    success: true,
+    data: { analysis: adjustment ? withEstimateSummary(analysis) : analysis, location: target.location, originalLocation: from.location, adjustment }
+  });
+}));
+
+/**
+ * GET /api/analysis/:id/locations
+ * @summary What a BQ would cost in other towns and counties, from the location factors
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {string} locations.query - Comma-separated locations to compare (default every location with a factor)
+ * @return {object} 200 - Cost in each location, cheapest first
+ */
+router.get('/:id/locations', authenticateUser, [
+  query('locations').optional({ values: 'falsy' }).isString(),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const analysisResult = await loadOwnAnalysis(req.user?._id, req.params.id);
+  const factors = await loadLocationFactors();
+
+  const requested = ((req.query.locations as string) || '').split(',').map(name => name.trim()).filter(Boolean);
+  const unknown = requested.filter(name => !findLocationFactor(factors, [name]));
+  if (unknown.length > 0) throw new CustomError(`No location factor for ${unknown.join(', ')}`, 400);
+
+  const compared = requested.length > 0
+    ? requested.map(name => findLocationFactor(factors, [name])!)
+    : factors;
+  const from = pricingFactor(analysisResult, factors);
+
+  res.json({
+    success: true,
+    data: {
+      location: from.location,
+      currency: currencyOf(analysisResult),
+      totalCost: analysisResult.summary.totalEstimatedCostKES,
+      comparisons: compareLocations(analysisResult, from, compared.map(toFactorRef))
+    }
+  });
+}));
+
+/**
+ * GET /api/analysis/:id/materials
+ * @summary Raw materials to order for a BQ, from the material norms
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @return {object} 200 - Material schedule, with the items no norm covers in unscheduledItems
+ */
+router.get('/:id/materials', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const analysisResult = await loadOwnAnalysis(req.user?._id, req.params.id);
+  const schedule = buildMaterialSchedule([{ analysisId: req.params.id, analysis: analysisResult }], await loadMaterialNorms());
+
+  res.json({
+    success: true,
+    data: { schedule }
+  });
+}));
+
+/**
+ * GET /api/analysis/:id/resources
+ * @summary Labour and plant for a BQ from the productivity norms: costs, man-days per trade and a crew histogram
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {number} weeks.query - Programme length for the crew histogram (default from the construction period, or sized for an average crew)
+ * @return {object} 200 - Resource estimate in the BQ's currency, with the items no norm covers in unestimatedItems
+ * @return {object} 400 - The BQ is not in KES and no exchange rate from KES is effective
+ */
+router.get('/:id/resources', authenticateUser, [
+  query('weeks').optional().isInt({ min: 1, max: 520 }).withMessage('Weeks must be a whole number from 1 to 520'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const analysisResult = await loadOwnAnalysis(req.user?._id, req.params.id);
+  const estimate = buildResourceEstimate(analysisResult, await loadProductivityNorms(), await resourceRatesFor(analysisResult), {
+    programmeWeeks: req.query.weeks ? parseInt(req.query.weeks as string, 10) : undefined
+  });
+
+  res.json({
+    success: true,
+    data: { estimate }
+  });
+}));
+
+/**
+ * POST /api/analysis/:id/escalation
+ * @summary Add an escalation allowance to a tender date or the midpoint of construction
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {object} body.required - { tenderDate } or { constructionStart, constructionMonths }, with optional baseDate, annualRate and note
+ * @return {object} 200 - Analysis with summary.escalationAllowanceKES and the indices used in metadata.escalation
+ * @return {object} 400 - No price index covers the period for a trade
+ * @example request - Example request body
+ * {
+ *   "constructionStart": "2027-03-01",
+ *   "constructionMonths": 14,
+ *   "annualRate": 0.06
+ * }
+ */
+router.post('/:id/escalation', authenticateUser, [
+  body('tenderDate').optional().isISO8601().withMessage('Tender date must be a valid date'),
+  body('constructionStart').optional().isISO8601().withMessage('Construction start must be a valid date'),
+  body('constructionMonths').optional().isInt({ min: 1, max: 120 }).withMessage('Construction period must be 1 to 120 months'),
+  body('baseDate').optional().isISO8601().withMessage('Base date must be a valid date'),
+  body('annualRate').optional().isFloat({ min: -0.5, max: 1 }).withMessage('Annual rate must be between -0.5 and 1'),
+  body('note').optional().isString().isLength({ max: 500 }).withMessage('Note must be at most 500 characters'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const { tenderDate, constructionStart, constructionMonths, baseDate, annualRate, note } = req.body;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+  if (!tenderDate && !(constructionStart && constructionMonths)) {
+    throw new CustomError('A tender date, or a construction start and duration, is required', 400);
+  }
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  assertNotContract(existingAnalysis);
+
+  const analysisResult = existingAnalysis.analysisResult as AnalysisResult;
+  let escalated: AnalysisResult;
+  try {
+    escalated = withEstimateSummary(projectEscalation(analysisResult, await loadPriceIndices(), {
+      baseDate: new Date(baseDate || analysisResult.metadata.analysisDate),
+      ...(tenderDate && { tenderDate: new Date(tenderDate) }),
+      ...(constructionStart && { constructionStart: new Date(constructionStart) }),
+      ...(constructionMonths && { constructionMonths: Number(constructionMonths) }),
+      ...(annualRate !== undefined && { annualRate: Number(annualRate) }),
+    }));
+  } catch (error: any) {
+    throw new CustomError(error.message, 400);
+  }
+
+  const revision = await saveRevision(db, existingAnalysis, escalated, revisionAuthor(req.user!), {
+    note: note || describeEscalation(escalated.metadata.escalation!)
+  });
+
+  res.json({
+    success: true,
+    data: {
+      analysis: escalated,
+      escalation: escalated.metadata.escalation,
+      revision: summarizeRevision(revision),
+      message: 'Escalation allowance added'
+    }
+  });
+}));
+
+/**
+ * DELETE /api/analysis/:id/escalation
+ * @summary Take the escalation allowance off a BQ
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @return {object} 200 - Analysis without an escalation allowance
+ */
+router.delete('/:id/escalation', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  assertNotContract(existingAnalysis);
+
+  const analysisResult = existingAnalysis.analysisResult as AnalysisResult;
+  if (!analysisResult.metadata.escalation) throw new CustomError('The BQ has no escalation allowance', 400);
+
+  const withoutEscalation = withEstimateSummary(removeEscalation(analysisResult));
+  const revision = await saveRevision(db, existingAnalysis, withoutEscalation, revisionAuthor(req.user!), {
+    note: 'Escalation allowance removed'
+  });
+
+  res.json({
+    success: true,
+    data: {
+      analysis: withoutEscalation,
+      revision: summarizeRevision(revision),
+      message: 'Escalation allowance removed'
+    }
+  });
+}));
+
+/**
+ * PUT /api/analysis/:id/summary-config
+ * @summary Change the additions and VAT rate on a BQ's estimate summary
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {object} body.required - { config: { lines: [{ key, label, kind: 'percentage'|'lumpSum', rate, basis: 'measured'|'running', amount, vatExempt }], vatRate } } or { projectId } to use that project's settings
+ * @return {object} 200 - Analysis with the rebuilt estimateSummary
+ * @return {object} 400 - Invalid summary configuration
+ * @return {object} 404 - Analysis or project not found
+ */
+router.put('/:id/summary-config', authenticateUser, [
+  body('config').optional().isObject().withMessage('config must be an object'),
+  body('projectId').optional().isMongoId().withMessage('projectId must be a project ID'),
+  body('note').optional().isString().isLength({ max: 500 }).withMessage('Note must be at most 500 characters'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const { config, projectId, note } = req.body;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+  if (!config && !projectId) throw new CustomError('A summary configuration or a projectId is required', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  assertNotContract(existingAnalysis);
+
+  let summaryConfig: EstimateSummaryConfig;
+  if (config) {
+    try {
+      summaryConfig = parseSummaryConfig(config);
+    } catch (error) {
+      throw new CustomError(error instanceof Error ? error.message : 'Invalid summary configuration', 400);
+    }
+  } else {
+    const project = await db.collection('projects').findOne({ _id: new ObjectId(projectId), userId: req.user?._id });
+    if (!project) throw new CustomError('Project not found', 404);
+    summaryConfig = await loadProjectSummaryConfig(projectId, req.user!._id) || DEFAULT_SUMMARY_CONFIG;
+  }
+
+  const analysisResult = withEstimateSummary(existingAnalysis.analysisResult as AnalysisResult, summaryConfig);
+  const revision = await saveRevision(db, existingAnalysis, analysisResult, revisionAuthor(req.user!), {
+    note: note || 'Estimate summary settings changed'
+  });
+  if (projectId) {
+    await db.collection('analysis_results').updateOne({ _id: existingAnalysis._id }, { $set: { projectId } });
+  }
+
+  res.json({
+    success: true,
+    data: {
+      analysis: analysisResult,
+      estimateSummary: analysisResult.estimateSummary,
+      revision: summarizeRevision(revision),
+      message: 'Estimate summary updated'
+    }
+  });
+}));
+
+/**
+ * POST /api/analysis/:id/contract
+ * @summary Lock a BQ as the contract baseline; it can no longer be edited and variation orders are recorded against it
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @return {object} 200 - The contract baseline with the contract sum
+ * @return {object} 400 - The BQ is not filed under a project or is already locked
+ * @return {object} 404 - Analysis not found
+ */
+router.post('/:id/contract', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  if (existingAnalysis.contract) throw new CustomError('This BQ is already locked as a contract', 400);
+  if (!existingAnalysis.projectId) throw new CustomError('File the BQ under a project before locking it as a contract', 400);
+
+  const contract = buildContractBaseline(existingAnalysis.analysisResult as AnalysisResult, req.user!._id, existingAnalysis.currentRevision);
+
+  // Only an unlocked BQ is locked, so a concurrent lock keeps the first baseline
+  const result = await db.collection('analysis_results').updateOne(
+    { _id: existingAnalysis._id, contract: { $exists: false } },
+    { $set: { contract, updatedAt: new Date() } }
+  );
+  if (result.modifiedCount === 0) throw new CustomError('This BQ is already locked as a contract', 400);
+
+  logger.info(`Analysis ${id} locked as a contract by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { contract, message: 'BQ locked as the contract' }
+  });
+}));
+
+/**
+ * DELETE /api/analysis/:id/contract
+ * @summary Unlock a contract BQ that has no variation orders or valuations yet
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @return {object} 200 - BQ unlocked
+ * @return {object} 400 - The BQ is not locked, or has variation orders or valuations
+ * @return {object} 404 - Analysis not found
+ */
+router.delete('/:id/contract', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  if (!existingAnalysis.contract) throw new CustomError('This BQ is not locked as a contract', 400);
+
+  const [variations, valuations] = await Promise.all([
+    db.collection('variations').countDocuments({ analysisId: id }, { limit: 1 }),
+    db.collection('valuations').countDocuments({ analysisId: id }, { limit: 1 })
+  ]);
+  if (variations > 0 || valuations > 0) {
+    throw new CustomError('The contract has variation orders or valuations and cannot be unlocked', 400);
+  }
+
+  await db.collection('analysis_results').updateOne(
+    { _id: existingAnalysis._id },
+    { $unset: { contract: '' }, $set: { updatedAt: new Date() } }
+  );
+
+  logger.info(`Analysis ${id} unlocked by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'BQ unlocked' }
+  });
+}));
+
+/**
+ * GET /api/analysis/:id/export.xlsx
+ * @summary Export an analysed BQ as an Excel workbook
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {number} contingency.query - Contingency rate as a fraction, instead of the BQ's summary setting
+ * @param {number} vat.query - VAT rate as a fraction, instead of the BQ's summary setting
+ * @param {string} groupBy.query - 'trade' (SMM7 work sections, default) or 'element' (NRM1)
+ * @param {string} currency.query - Export in this currency instead of the BQ's own
+ * @param {string} asOf.query - Convert with the exchange rate in effect on this date (default today)
+ * @param {boolean} rateSplit.query - Add labour, plant and material columns splitting each rate, from the productivity norms
+ * @return {file} 200 - XLSX workbook with one sheet per trade or element, collection and grand summary
+ * @return {object} 404 - Analysis not found
+ */
+router.get('/:id/export.xlsx', authenticateUser, [
+  query('contingency').optional().isFloat({ min: 0, max: 1 }).withMessage('Contingency must be between 0 and 1'),
+  query('vat').optional().isFloat({ min: 0, max: 1 }).withMessage('VAT must be between 0 and 1'),
+  query('groupBy').optional().isIn(['trade', 'element']).withMessage('groupBy must be trade or element'),
+  query('rateSplit').optional().isBoolean().withMessage('rateSplit must be true or false'),
+  ...currencyValidators,
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+
+  const analysisResult = await convertForDisplay(
+    existingAnalysis.analysisResult as AnalysisResult,
+    req.query.currency as string | undefined,
+    req.query.asOf as string | undefined
+  );
+
+  let rateSplits: BqExcelOptions['rateSplits'];
+  if (req.query.rateSplit === 'true') {
+    const norms = await loadProductivityNorms();
+    const rates = await resourceRatesFor(analysisResult);
+    rateSplits = new Map(analysisResult.billOfQuantities.map(item => [item, estimateItemResources(item, norms, rates)?.rateSplit]));
+  }
+
+  const workbook = await buildBqWorkbook(analysisResult, {
+    contingencyRate: req.query.contingency !== undefined ? parseFloat(req.query.contingency as string) : undefined,
+    vatRate: req.query.vat !== undefined ? parseFloat(req.query.vat as string) : undefined,
+    groupBy: req.query.groupBy as BQGrouping | undefined,
+    rateSplits
+  });
+
+  const fileName = `${(analysisResult.projectName || 'BQ').replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'BQ'} - BQ.xlsx`;
+
+  logger.info(`Exported analysis ${id} to Excel`);
+
+  res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(workbook);
+}));
+
+/**
+ * GET /api/analysis/:id/export.pdf
+ * @summary Export an analysed BQ as a branded PDF
+ * @tags Analysis
+ * @security BearerAuth
+ * @param {string} id.path.required - Analysis ID
+ * @param {string} groupBy.query - 'trade' (SMM7 work sections, default) or 'element' (NRM1)
+ * @param {string} currency.query - Export in this currency instead of the BQ's own
+ * @param {string} asOf.query - Convert with the exchange rate in effect on this date (default today)
+ * @return {file} 200 - PDF with cover page, trade or element tables, summary and signature block
+ * @return {object} 404 - Analysis not found
+ */
+router.get('/:id/export.pdf', authenticateUser, [
+  query('groupBy').optional().isIn(['trade', 'element']).withMessage('groupBy must be trade or element'),
+  ...currencyValidators,
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { id } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(id)) throw new CustomError('Invalid analysis ID', 400);
+
+  const existingAnalysis = await db.collection('analysis_results').findOne({
+    _id: new ObjectId(id),
+    userId: req.user?._id
+  });
+
+  if (!existingAnalysis) throw new CustomError('Analysis not found or unauthorized', 404);
+
+  const analysisResult = await convertForDisplay(
+    existingAnalysis.analysisResult as AnalysisResult,
+    req.query.currency as string | undefined,
+    req.query.asOf as string | undefined
+  );
+  const branding = await loadCompanyBranding(req.user!._id);
+  const pdf = await renderAnalysisPdf(analysisResult, branding, (req.query.groupBy as BQGrouping) || 'trade');
+
+  const fileName = `${(analysisResult.projectName || 'BQ').replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'BQ'} - BQ.pdf`;
+
+  logger.info(`Exported analysis ${id} to PDF`);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(pdf);
+}));
+
+/**
+ * GET /api/analysis/history
+ * @summary Get analysis history for authenticated user
+ * @tags Analysis
+ * @security BearerAuth
+ * @return {object} 200 - Analysis history retrieved successfully
+ * @return {object} 401 - Unauthorized (invalid or missing token)
+ * @example response - 200 - Analysis history
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "analyses": [
+ *       {
+ *         "fileName": "floor-plan.pdf",
+ *         "filePath": "/uploads/analysis/analysis-1234567890.pdf",
+ *         "projectName": "Modern Bungalow",
+ *         "analysisResult": {
+ *           "projectName": "Modern Bungalow",
+ *           "totalArea": "150 sqm",
+ *           "totalCost": "KSh 4,200,000",
+ *           "costPerSqm": "KSh 28,000/sqm"
+ *         },
+ *         "createdAt": "2025-09-26T10:00:00.000Z",
+ *         "metadata": {
+ *           "fileType": "application/pdf",
+ *           "fileSize": 2048576
+ *         }
+ *       }
+ *     ]
+ *   }
+ * }
+ */
+router.get('/history', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const db = getDatabase();
+  const analyses = await db.collection('analysis_results')
+    .find({ userId: req.user?._id })
+    .sort({ createdAt: -1 })
+    .limit(20)
+    .toArray();
+
+  res.json({ success: true, data: { analyses } });
+}));
+
+
+interface AnalysisPipelineRequest extends Omit<AnalysisJobInput, 'filePath' | 'fileName' | 'fileType' | 'fileSize'> {
+  file: Express.Multer.File;
+  userId?: string;
+}
+
+interface AnalysisPipelineHooks {
+  report?: AnalysisJobReporter;
+  signal?: AbortSignal; // Checked between stages; nothing is saved once it is aborted
+}
+
+// Helper function to analyse an uploaded drawing, check its rates and arithmetic and save it
+async function runAnalysisPipeline(
+  request: AnalysisPipelineRequest,
+  hooks: AnalysisPipelineHooks = {}
+): Promise<{ analysisResult: AnalysisResult; analysisId: ObjectId }> {
+  const { file, projectName, region, rateMode, currency } = request;
+  const report: AnalysisJobReporter = hooks.report || (() => undefined);
+  const db = getDatabase();
+  const fileHash = await hashFile(file.path);
+
+  // CAD drawings are measured from their geometry; everything else goes to the AI
+  let analysisResult = isCadFile(file.originalname)
+    ? await performCadAnalysis(file, projectName, {
+      wallHeightM: request.wallHeightM,
+      layers: request.cadLayers,
+    })
+    : await performCachedFloorPlanAnalysis(db, file, fileHash, request, hooks);
+  analysisResult.metadata.region = region;
+  analysisResult.metadata.fileHash = fileHash;
+  analysisResult.metadata.currency = DEFAULT_CURRENCY;
+  hooks.signal?.throwIfAborted();
+  report({ stage: 'parsed', message: `${analysisResult.billOfQuantities.length} BQ items read` });
+
+  // Library rates override or sanity-check the AI rates before the arithmetic is reconciled
+  try {
+    const libraryRates = await loadEffectiveRates(region);
+    analysisResult = applyRateLibrary(analysisResult, libraryRates, { mode: rateMode }).analysis;
+  } catch (rateError: any) {
+    logger.warn('Rate library matching skipped:', rateError);
+  }
+
+  const classification = await classifyBillOfQuantities(analysisResult.billOfQuantities);
+  analysisResult.billOfQuantities = classification.items;
+  analysisResult.metadata.classification = classification.summary;
+
+  // The AI and the rate library price in KES; the BQ is stored in the project's currency
+  const conversion = await resolveConversion(DEFAULT_CURRENCY, currency || DEFAULT_CURRENCY);
+  if (conversion) analysisResult = convertAnalysis(analysisResult, conversion);
+
+  // Rates priced for the region are moved to the project's location, then costed in every other location
+  try {
+    const factors = await loadLocationFactors();
+    const target = request.location ? findLocationFactor(factors, [request.location]) : null;
+    const from = pricingFactor(analysisResult, factors);
+    if (target && !isSameLocation(target.location, from.location)) {
+      analysisResult = applyLocationFactors(analysisResult, from, toFactorRef(target)).analysis;
+    }
+    if (factors.length > 0) {
+      analysisResult.summary.regionalPricingDifferences = compareLocations(
+        analysisResult,
+        pricingFactor(analysisResult, factors),
+        factors.map(toFactorRef)
+      );
+    }
+  } catch (locationError: any) {
+    logger.warn('Location factors skipped:', locationError);
+  }
+
+  // The project's preliminaries, contingency, fees and VAT, or the defaults
+  const summaryConfig = request.projectId && request.userId
+    ? await loadProjectSummaryConfig(request.projectId, request.userId)
+    : undefined;
+  analysisResult = withEstimateSummary(analysisResult, summaryConfig);
+
+  analysisResult.reconciliation = reconcileAnalysis(analysisResult);
+
+  logger.info(`Analysis completed successfully for: ${file.originalname}`);
+  if (analysisResult.reconciliation.status === 'flagged') {
+    logger.warn(`Reconciliation flagged ${analysisResult.reconciliation.discrepancies.length} discrepancies for: ${file.originalname}`);
+  }
+  hooks.signal?.throwIfAborted();
+  report({ stage: 'reconciled' });
+
+  // Upload to S3 if configured (logic consolidated)
+  let fileUrl = file.path;
+  try {
+    const uploadResult = await fileStorageService.uploadFile(
+      file,
+      projectName.replace(/[^a-zA-Z0-9]/g, '_'),
+      request.userId || 'anonymous',
+      {},
+      'analysis'
+    );
+    if (uploadResult.success && uploadResult.url) {
+      fileUrl = uploadResult.url;
+      // if (fs.existsSync(file.path)) fs.unlinkSync(file.path);
+    }
+  } catch (uploadError: any) {
+    logger.error('Failed to upload file to storage:', uploadError);
+  }
+
+  const analysisRecord: any = {
+    fileName: file.originalname,
+    filePath: fileUrl,
+    projectName: analysisResult.projectName,
+    analysisResult,
+    createdAt: new Date(),
+    metadata: analysisResult.metadata
+  };
+
+  if (request.userId) {
+    analysisRecord.userId = request.userId;
+  }
+  if (request.projectId) {
+    analysisRecord.projectId = request.projectId;
+  }
+
+  hooks.signal?.throwIfAborted();
+  const result = await db.collection('analysis_results').insertOne(analysisRecord);
+  report({ stage: 'saved' });
+
+  return { analysisResult, analysisId: result.insertedId };
+}
+
+// Queued jobs run the same pipeline as /analyze on the drawing they stored
+setAnalysisJobRunner(async (job, report, signal) => {
+  const { filePath, fileName, fileType, fileSize, ...options } = job.input;
+  const file = { path: filePath, originalname: fileName, mimetype: fileType, size: fileSize } as Express.Multer.File;
+
+  const { analysisId } = await runAnalysisPipeline({ file, ...options, userId: job.userId }, { report, signal });
+  return analysisId.toString();
+});
+
+// Helper function to reuse the AI result for an identical drawing, or analyse it and cache the result
+async function performCachedFloorPlanAnalysis(
+  db: Db,
+  file: Express.Multer.File,
+  fileHash: string,
+  request: AnalysisPipelineRequest,
+  hooks: AnalysisPipelineHooks
+): Promise<AnalysisResult> {
+  const key = analysisCacheKey(fileHash, request.projectType);
+
+  if (!request.reanalyze) {
+    try {
+      const cached = await findCachedAnalysis(db, key);
+      if (cached) {
+        logger.info(`Reusing the cached analysis of ${file.originalname} (${fileHash})`);
+        const result = reuseCachedAnalysis(cached, {
+          projectName: request.projectName,
+          fileName: file.originalname,
+          fileType: file.mimetype,
+        });
+        result.metadata.cache = cacheInfo(key, cached);
+        return result;
+      }
+    } catch (cacheError: any) {
+      logger.warn('Analysis cache lookup skipped:', cacheError);
+    }
+  }
+
+  const result = await performFloorPlanAnalysis(file, request.projectName, request.projectType, hooks);
+
+  // A simulated result is no answer for the drawing, so it must never be served again
+  if (result.metadata.source !== 'simulated') {
+    try {
+      await storeCachedAnalysis(db, key, structuredClone(result));
+    } catch (cacheError: any) {
+      logger.warn('Failed to cache the analysis:', cacheError);
+    }
+  }
+
+  result.metadata.cache = cacheInfo(key, null, request.reanalyze);
+  return result;
+}
+
+// Helper function to measure a DXF/DWG drawing; unreadable drawings are rejected rather than simulated
+async function performCadAnalysis(
+  file: Express.Multer.File,
+  projectName: string,
+  options: { wallHeightM?: number; layers?: CadLayerOverrides }
+): Promise<AnalysisResult> {
+  let takeoff;
+  try {
+    takeoff = await takeoffFromFile(fs.readFileSync(file.path), file.originalname, { layers: options.layers });
+  } catch (error: any) {
+    logger.error('CAD takeoff failed:', error);
+    throw new CustomError(error.message || 'The CAD drawing could not be read', 422);
+  }
+
+  logger.info(`Measured ${takeoff.walls.centrelineLengthM} m of wall, ${takeoff.rooms.length} rooms and ${takeoff.openings.length} opening types from ${file.originalname}`);
+
+  return buildCadAnalysis(takeoff, {
+    projectName: projectName || `Analysis - ${new Date().toLocaleDateString()}`,
+    fileName: file.originalname,
+    fileType: file.mimetype,
+  }, { wallHeightM: options.wallHeightM });
+}
+
+// Helper function to perform floor plan analysis
+async function performFloorPlanAnalysis(
+  file: Express.Multer.File,
+  projectName: string,
+  projectType: string,
+  hooks: AnalysisPipelineHooks = {}
+): Promise<AnalysisResult> {
+  const report: AnalysisJobReporter = hooks.report || (() => undefined);
+  try {
+    if (!isLLMConfigured('floorPlan')) {
+      logger.warn('No AI provider configured for floor plans, falling back to simulation');
+      return performSimulatedAnalysis(file, projectName, projectType, {
+        code: 'AI_NOT_CONFIGURED',
+        reason: 'AI analysis is not configured on the server',
+      });
+    }
+
+    const fileBuffer = fs.readFileSync(file.path);
+
+    // Drawing sets are analysed sheet by sheet and merged into one BQ
+    if (file.mimetype === 'application/pdf') {
+      try {
+        const drawingSet = await analyzeDrawingSet(fileBuffer, projectName, projectType, {
+          signal: hooks.signal,
+          onProgress: progress => report({
+            ...progress,
+            ...(progress.stage === 'pages_split'
+              ? { message: `Drawing split into ${progress.pageCount} sheet(s)` }
+              : { message: `Analysing sheet ${progress.pageNumber} of ${progress.pageCount}` }),
+          }),
+        });
+        const result = convertAIResponseToAnalysisResult(drawingSet.analysis, projectName, file);
+        result.metadata.pages = drawingSet.pages;
+        result.metadata.validation = drawingSet.validation;
+        return result;
+      } catch (pageError: any) {
+        hooks.signal?.throwIfAborted();
+        logger.warn('Page-by-page analysis failed, analysing the PDF as a whole:', pageError);
+      }
+    }
+
+    const base64Data = fileBuffer.toString('base64');
+    report({ stage: 'ai_called' });
+    const { value: aiResponse, attempts } = await analyzeFloorPlanValidated(base64Data, file.mimetype, projectName, projectType);
+
+    const result = convertAIResponseToAnalysisResult(aiResponse, projectName, file);
+    result.metadata.validation = { attempts, repaired: attempts > 1 };
+    return result;
+
+  } catch (error: any) {
+    hooks.signal?.throwIfAborted();
+    logger.error('AI analysis failed/fallback:', error);
+    return performSimulatedAnalysis(file, projectName, projectType, {
+      code: 'AI_FAILED',
+      reason: error.message || 'AI analysis failed',
+    });
+  }
 }
 
-async function performSimulatedAnalysis(file: Express.Multer.File, projectName: string, projectType: string): Promise<AnalysisResult> {
+// Placeholder BQ for when no AI answer is available; every figure is marked as simulated
+async function performSimulatedAnalysis(
+  file: Express.Multer.File,
+  projectName: string,
+  projectType: string,
+  fallback: AnalysisFallback
+): Promise<AnalysisResult> {
   const fileSize = file.size;
   const isLargeFile = fileSize > 5 * 1024 * 1024;
   const baseArea = isLargeFile ? 200 : 120;
@@ -364,7 +2202,7 @@ async function performSimulatedAnalysis(file: Express.Multer.File, projectName:
     const unitRate = Math.round(itemCost / 10); // Dummy calc
     return {
       itemNumber: (index + 1).toString(),
-      description: `${cat.name} generic implementation`,
+      description: `SIMULATED - ${cat.name} (not measured from the drawing)`,
       unit: 'Item',
       quantity: 10,
       unitRateKES: unitRate,
@@ -380,15 +2218,15 @@ async function performSimulatedAnalysis(file: Express.Multer.File, projectName:
     summary: {
       totalEstimatedCostKES,
       totalWastageCostKES,
-      confidenceScore: 0.92,
+      confidenceScore: 0,
       totalArea: baseArea
     },
     billOfQuantities,
     intelligentSuggestions: [
       {
-        suggestionType: "Cost Saving",
-        originalItem: "High-end finishing",
-        suggestion: "Use alternative local ceramic tiles",
+        suggestionType: "Warning",
+        originalItem: "Entire BQ",
+        suggestion: `This BQ is simulated and was not measured from the drawing (${fallback.reason}). Re-run the analysis before relying on any figure.`,
         impact: "High"
       }
     ],
@@ -397,7 +2235,9 @@ async function performSimulatedAnalysis(file: Express.Multer.File, projectName:
       analysisDate: new Date(),
       fileType: file.mimetype,
       fileName: file.originalname,
-      confidence: 0.92
+      confidence: 0,
+      source: 'simulated',
+      fallback
     }
   };
 }
@@ -6,7 +6,7 @@ import { CustomError, asyncHandler } from '../middleware/errorHandler';
 import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import { ChatMessage } from '../types';
-import axios from 'axios';
+import { generateProjectChatResponse } from '../services/geminiService';
 
 const router = Router();
 
@@ -138,8 +138,8 @@ router.post('/send/:projectId', authenticateUser, [
       }))
     };
 
-    // Call AI service (Gemini)
-    const aiResponse = await callGeminiAPI(message, projectContext);
+    // Call the chat model
+    const aiResponse = await generateProjectChatResponse(message, projectContext);
 
     // Save AI response
     const aiMessage: ChatMessage = {
@@ -289,66 +289,4 @@ router.get('/stats/:projectId', authenticateUser, asyncHandler(async (req: Authe
   });
 }));
 
-// Helper function to call Gemini API
-async function callGeminiAPI(message: string, context: any): Promise<any> {
-  try {
-    const geminiApiKey = process.env.GEMINI_API_KEY;
-
-    if (!geminiApiKey) {
-      throw new Error('Gemini API key not configured');
-    }
-
-    const startTime = Date.now();
-
-    // Prepare the prompt with context
-    const prompt = `
-You are an AI assistant for Metrrik, a construction management platform. You help users with construction-related questions and project management.
-
-Project Context:
-- Project: ${context.project.name} (${context.project.type})
-- Status: ${context.project.status}
-- Description: ${context.project.description}
-
-Recent Documents:
-${context.documents.map((doc: any) => `- ${doc.title} (${doc.type}): ${doc.content}`).join('\n')}
-
-Recent Files:
-${context.files.map((file: any) => `- ${file.name} (${file.type})`).join('\n')}
-
-User Question: ${message}
-
-Please provide a helpful, accurate response related to construction management and this specific project.`;
-
-    const response = await axios.post(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${geminiApiKey}`,
-      {
-        contents: [{
-          parts: [{
-            text: prompt
-          }]
-        }]
-      },
-      {
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    const responseTime = Date.now() - startTime;
-    const responseText = response.data.candidates[0].content.parts[0].text;
-
-    return {
-      text: responseText,
-      model: 'gemini-pro',
-      tokens: responseText.length, // Approximate token count
-      responseTime
-    };
-
-  } catch (error) {
-    logger.error('Gemini API error:', error);
-    throw new Error('Failed to get AI response');
-  }
-}
-
 export default router;
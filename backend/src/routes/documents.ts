@@ -6,6 +6,8 @@ import { CustomError, asyncHandler } from '../middleware/errorHandler';
 import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import { Document } from '../types';
+import { renderMarkdownPdf, loadCompanyBranding } from '../services/pdfExport';
+import { generateDocumentContent } from '../services/geminiService';
 
 const router = Router();
 
@@ -104,6 +106,29 @@ router.get('/:documentId', authenticateUser, asyncHandler(async (req: Authentica
   });
 }));
 
+// Draft a document with the AI; nothing is saved until it is created
+router.post('/generate', authenticateUser, [
+  body('prompt').isString().trim().isLength({ min: 1, max: 4000 }).withMessage('Prompt must be 1-4000 characters'),
+  body('type').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Document type is required'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  let content: string;
+  try {
+    content = await generateDocumentContent(req.body.prompt, req.body.type);
+  } catch (error: any) {
+    throw new CustomError(error.message || 'Failed to generate the document', 500);
+  }
+
+  res.json({
+    success: true,
+    data: { content }
+  });
+}));
+
 // Create new document
 router.post('/', authenticateUser, [
   body('projectId').notEmpty().withMessage('Project ID is required'),
@@ -287,6 +312,43 @@ router.get('/:documentId/versions', authenticateUser, asyncHandler(async (req: A
   });
 }));
 
+// Export document as a branded PDF
+router.get('/:documentId/export.pdf', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { documentId } = req.params;
+  const db = getDatabase();
+
+  const document = await db.collection('documents').findOne({ _id: new ObjectId(documentId) });
+
+  if (!document) {
+    throw new CustomError('Document not found', 404);
+  }
+
+  const project = await db.collection('projects').findOne({
+    _id: new ObjectId(document.projectId),
+    userId: req.user!._id
+  });
+
+  if (!project) {
+    throw new CustomError('Access denied', 403);
+  }
+
+  const branding = await loadCompanyBranding(req.user!._id);
+  const pdf = await renderMarkdownPdf({
+    title: document.title,
+    subtitle: project.name,
+    content: document.content,
+    createdAt: document.createdAt
+  }, branding);
+
+  const fileName = `${String(document.title).replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'Document'}.pdf`;
+
+  logger.info(`Document exported to PDF: ${documentId} by user ${req.user!._id}`);
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(pdf);
+}));
+
 // Search documents
 router.get('/search/:projectId', authenticateUser, [
   query('q').notEmpty().withMessage('Search query is required'),
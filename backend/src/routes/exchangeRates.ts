@@ -0,0 +1,223 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import { CustomError, asyncHandler } from '../middleware/errorHandler';
+import { authenticateUser, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { CurrencyCode, ExchangeRate } from '../types';
+import { CURRENCIES, CURRENCY_CODES, convertAmount, resolveConversion } from '../services/currency';
+
+const router = Router();
+
+/**
+ * GET /api/exchange-rates/currencies
+ * @summary List supported currencies and their rounding
+ * @tags Exchange Rates
+ * @security BearerAuth
+ * @return {object} 200 - Currency codes with names and minor units
+ */
+router.get('/currencies', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: {
+      currencies: CURRENCY_CODES.map(code => ({ code, ...CURRENCIES[code] }))
+    }
+  });
+}));
+
+/**
+ * GET /api/exchange-rates
+ * @summary List exchange rates, newest first
+ * @tags Exchange Rates
+ * @security BearerAuth
+ * @param {string} currency.query - Only rates quoted to or from this currency
+ * @param {string} asOf.query - Only rates effective on or before this date
+ * @param {boolean} includeRetired.query - Include retired rates
+ * @return {object} 200 - Rates retrieved successfully
+ */
+router.get('/', authenticateUser, [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('currency').optional().isIn(CURRENCY_CODES).withMessage('Unsupported currency'),
+  query('asOf').optional().isISO8601().withMessage('asOf must be a valid date'),
+  query('includeRetired').optional().isBoolean().withMessage('includeRetired must be true or false'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const skip = (page - 1) * limit;
+  const currency = req.query.currency as string;
+  const asOf = req.query.asOf as string;
+
+  const db = getDatabase();
+  const filter: any = {};
+
+  if (req.query.includeRetired !== 'true') filter.isActive = true;
+  if (currency) filter.$or = [{ baseCurrency: currency }, { quoteCurrency: currency }];
+  if (asOf) filter.effectiveDate = { $lte: new Date(asOf) };
+
+  const [rates, total] = await Promise.all([
+    db.collection('exchange_rates')
+      .find(filter)
+      .skip(skip)
+      .limit(limit)
+      .sort({ effectiveDate: -1, baseCurrency: 1, quoteCurrency: 1 })
+      .toArray(),
+    db.collection('exchange_rates').countDocuments(filter)
+  ]);
+
+  res.json({
+    success: true,
+    data: { rates },
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+/**
+ * GET /api/exchange-rates/convert
+ * @summary Convert an amount with the rate in effect on a date
+ * @tags Exchange Rates
+ * @security BearerAuth
+ * @param {string} from.query.required - Currency of the amount
+ * @param {string} to.query.required - Currency to convert to
+ * @param {number} amount.query.required - Amount to convert
+ * @param {string} asOf.query - Use the rate in effect on this date (default today)
+ * @return {object} 200 - Converted amount and the conversion record
+ * @return {object} 404 - No rate for the pair on that date
+ */
+router.get('/convert', authenticateUser, [
+  query('from').isIn(CURRENCY_CODES).withMessage('Unsupported from currency'),
+  query('to').isIn(CURRENCY_CODES).withMessage('Unsupported to currency'),
+  query('amount').isFloat().withMessage('Amount must be a number'),
+  query('asOf').optional().isISO8601().withMessage('asOf must be a valid date'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const from = req.query.from as CurrencyCode;
+  const to = req.query.to as CurrencyCode;
+  const amount = parseFloat(req.query.amount as string);
+  const asOf = req.query.asOf ? new Date(req.query.asOf as string) : new Date();
+
+  let conversion;
+  try {
+    conversion = await resolveConversion(from, to, asOf);
+  } catch (error: any) {
+    throw new CustomError(error.message, 404);
+  }
+
+  res.json({
+    success: true,
+    data: {
+      amount: conversion ? convertAmount(amount, conversion) : amount,
+      currency: to,
+      conversion
+    }
+  });
+}));
+
+/**
+ * POST /api/exchange-rates
+ * @summary Add an exchange rate (admin only)
+ * @tags Exchange Rates
+ * @security BearerAuth
+ * @param {object} request.body.required - Rate data; one baseCurrency buys `rate` quoteCurrency
+ * @return {object} 201 - Rate created successfully
+ * @return {object} 403 - Not an admin
+ * @example request - Example request body
+ * {
+ *   "baseCurrency": "KES",
+ *   "quoteCurrency": "UGX",
+ *   "rate": 28.45,
+ *   "effectiveDate": "2026-10-01",
+ *   "source": "Central Bank of Kenya indicative rate"
+ * }
+ */
+router.post('/', authenticateUser, requireAdmin, [
+  body('baseCurrency').isIn(CURRENCY_CODES).withMessage('Unsupported base currency'),
+  body('quoteCurrency').isIn(CURRENCY_CODES).withMessage('Unsupported quote currency'),
+  body('rate').isFloat({ gt: 0 }).withMessage('Rate must be a positive number'),
+  body('effectiveDate').isISO8601().withMessage('Effective date must be a valid date'),
+  body('source').notEmpty().withMessage('Source is required'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { baseCurrency, quoteCurrency, rate, effectiveDate, source } = req.body;
+
+  if (baseCurrency === quoteCurrency) {
+    throw new CustomError('Base and quote currencies must differ', 400);
+  }
+
+  const db = getDatabase();
+  const newRate: ExchangeRate = {
+    baseCurrency,
+    quoteCurrency,
+    rate: Number(rate),
+    effectiveDate: new Date(effectiveDate),
+    source,
+    createdBy: req.user!._id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isActive: true
+  };
+
+  const result = await db.collection('exchange_rates').insertOne(newRate);
+
+  logger.info(`Exchange rate created: 1 ${baseCurrency} = ${rate} ${quoteCurrency} from ${effectiveDate} by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: 'Exchange rate created successfully',
+      rate: { ...newRate, _id: result.insertedId }
+    }
+  });
+}));
+
+/**
+ * DELETE /api/exchange-rates/:rateId
+ * @summary Retire an exchange rate (admin only; kept for the conversions that used it)
+ * @tags Exchange Rates
+ * @security BearerAuth
+ * @param {string} rateId.path.required - Rate ID
+ * @return {object} 200 - Rate retired successfully
+ */
+router.delete('/:rateId', authenticateUser, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { rateId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(rateId)) throw new CustomError('Invalid rate ID', 400);
+
+  const result = await db.collection('exchange_rates').updateOne(
+    { _id: new ObjectId(rateId) },
+    { $set: { isActive: false, updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new CustomError('Exchange rate not found', 404);
+  }
+
+  logger.info(`Exchange rate retired: ${rateId} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Exchange rate retired successfully' }
+  });
+}));
+
+export default router;
@@ -9,6 +9,7 @@ import { CustomError, asyncHandler } from '../middleware/errorHandler';
 import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import { UploadedFile } from '../types';
+import { hashFile } from '../services/analysisCache';
 
 const router = Router();
 
@@ -180,7 +181,8 @@ router.post('/upload/:projectId', authenticateUser, upload.single('file'), async
     metadata: {
       description,
       tags: tags ? tags.split(',').map((tag: string) => tag.trim()) : [],
-      processed: false
+      processed: false,
+      fileHash: await hashFile(req.file.path)
     }
   };
 
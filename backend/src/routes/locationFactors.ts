@@ -0,0 +1,163 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import { CustomError, asyncHandler } from '../middleware/errorHandler';
+import { authenticateUser, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { LocationFactor } from '../types';
+import { BASE_LOCATION } from '../services/locationFactors';
+
+const router = Router();
+
+/**
+ * GET /api/location-factors
+ * @summary List location cost factors, relative to Nairobi
+ * @tags Location Factors
+ * @security BearerAuth
+ * @param {string} county.query - Only factors for towns in this county
+ * @param {string} search.query - Only locations whose name contains this text
+ * @param {string} asOf.query - Only factors effective on or before this date
+ * @param {boolean} includeRetired.query - Include retired factors
+ * @return {object} 200 - Factors retrieved successfully
+ */
+router.get('/', authenticateUser, [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('asOf').optional().isISO8601().withMessage('asOf must be a valid date'),
+  query('includeRetired').optional().isBoolean().withMessage('includeRetired must be true or false'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const skip = (page - 1) * limit;
+  const county = req.query.county as string;
+  const search = req.query.search as string;
+  const asOf = req.query.asOf as string;
+
+  const db = getDatabase();
+  const filter: any = {};
+
+  if (req.query.includeRetired !== 'true') filter.isActive = true;
+  if (county) filter.county = { $regex: `^${county.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, $options: 'i' };
+  if (search) filter.location = { $regex: search, $options: 'i' };
+  if (asOf) filter.effectiveDate = { $lte: new Date(asOf) };
+
+  const [factors, total] = await Promise.all([
+    db.collection('location_factors')
+      .find(filter)
+      .skip(skip)
+      .limit(limit)
+      .sort({ county: 1, location: 1, effectiveDate: -1 })
+      .toArray(),
+    db.collection('location_factors').countDocuments(filter)
+  ]);
+
+  res.json({
+    success: true,
+    data: { factors, baseLocation: BASE_LOCATION },
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+/**
+ * POST /api/location-factors
+ * @summary Add a location factor (admin only)
+ * @tags Location Factors
+ * @security BearerAuth
+ * @param {object} request.body.required - Factor data; 1.0 is the Nairobi cost of labour or materials
+ * @return {object} 201 - Factor created successfully
+ * @return {object} 403 - Not an admin
+ * @example request - Example request body
+ * {
+ *   "location": "Eldoret",
+ *   "county": "Uasin Gishu",
+ *   "labourFactor": 0.85,
+ *   "materialFactor": 1.04,
+ *   "effectiveDate": "2026-10-01",
+ *   "source": "Quarterly regional price survey"
+ * }
+ */
+router.post('/', authenticateUser, requireAdmin, [
+  body('location').trim().notEmpty().withMessage('Location is required'),
+  body('county').trim().notEmpty().withMessage('County is required'),
+  body('labourFactor').isFloat({ gt: 0, max: 10 }).withMessage('Labour factor must be a positive number'),
+  body('materialFactor').isFloat({ gt: 0, max: 10 }).withMessage('Material factor must be a positive number'),
+  body('effectiveDate').isISO8601().withMessage('Effective date must be a valid date'),
+  body('source').notEmpty().withMessage('Source is required'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { location, county, labourFactor, materialFactor, effectiveDate, source } = req.body;
+
+  const db = getDatabase();
+  const newFactor: LocationFactor = {
+    location,
+    county,
+    labourFactor: Number(labourFactor),
+    materialFactor: Number(materialFactor),
+    effectiveDate: new Date(effectiveDate),
+    source,
+    createdBy: req.user!._id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isActive: true
+  };
+
+  const result = await db.collection('location_factors').insertOne(newFactor);
+
+  logger.info(`Location factor created: ${location} (${county}) labour ${labourFactor}, materials ${materialFactor} from ${effectiveDate} by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: 'Location factor created successfully',
+      factor: { ...newFactor, _id: result.insertedId }
+    }
+  });
+}));
+
+/**
+ * DELETE /api/location-factors/:factorId
+ * @summary Retire a location factor (admin only; kept for the estimates that used it)
+ * @tags Location Factors
+ * @security BearerAuth
+ * @param {string} factorId.path.required - Factor ID
+ * @return {object} 200 - Factor retired successfully
+ */
+router.delete('/:factorId', authenticateUser, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { factorId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(factorId)) throw new CustomError('Invalid factor ID', 400);
+
+  const result = await db.collection('location_factors').updateOne(
+    { _id: new ObjectId(factorId) },
+    { $set: { isActive: false, updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new CustomError('Location factor not found', 404);
+  }
+
+  logger.info(`Location factor retired: ${factorId} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Location factor retired successfully' }
+  });
+}));
+
+export default router;
@@ -0,0 +1,137 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import { CustomError, asyncHandler } from '../middleware/errorHandler';
+import { authenticateUser, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { MaterialNorm } from '../types';
+import { loadMaterialNorms, materialsPerUnit, parseMaterialNorm } from '../services/materialSchedule';
+
+const router = Router();
+
+const KINDS = ['mix', 'blockwork', 'coverage', 'reinforcement'];
+
+/**
+ * GET /api/material-norms
+ * @summary List the material norms in use: the built-in norms with admins' entries applied
+ * @tags Material Norms
+ * @security BearerAuth
+ * @param {string} kind.query - Only norms of this kind: mix, blockwork, coverage or reinforcement
+ * @return {object} 200 - Norms, each with the raw materials in one unit of work
+ */
+router.get('/', authenticateUser, [
+  query('kind').optional().isIn(KINDS).withMessage('Kind must be mix, blockwork, coverage or reinforcement'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const norms = (await loadMaterialNorms())
+    .filter(norm => !req.query.kind || norm.kind === req.query.kind)
+    .map(norm => ({ ...norm, builtIn: !norm._id, materialsPerUnit: materialsPerUnit(norm) }));
+
+  res.json({
+    success: true,
+    data: { norms }
+  });
+}));
+
+/**
+ * POST /api/material-norms
+ * @summary Add a material norm, or replace the built-in norm with the same key (admin only)
+ * @tags Material Norms
+ * @security BearerAuth
+ * @param {object} request.body.required - Norm data; the fields for its kind are required
+ * @return {object} 201 - Norm created successfully
+ * @return {object} 400 - Invalid norm, or the key already has an active entry
+ * @return {object} 403 - Not an admin
+ * @example request - Example request body
+ * {
+ *   "key": "concrete-1-2-4",
+ *   "name": "Concrete class 20 (1:2:4)",
+ *   "kind": "mix",
+ *   "keywords": [["concrete"], ["1:2:4", "c20"]],
+ *   "units": ["m3"],
+ *   "mix": { "ratio": [1, 2, 4], "dryVolumeFactor": 1.52 },
+ *   "source": "Site trial mixes, Nakuru 2026"
+ * }
+ */
+router.post('/', authenticateUser, requireAdmin, [
+  body('source').notEmpty().withMessage('Source is required'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  let parsed;
+  try {
+    parsed = parseMaterialNorm(req.body);
+  } catch (error) {
+    throw new CustomError(error instanceof Error ? error.message : 'Invalid material norm', 400);
+  }
+
+  const db = getDatabase();
+
+  // One active entry per key, so a schedule never depends on which entry is read
+  const existing = await db.collection('material_norms').findOne({ key: parsed.key, isActive: true });
+  if (existing) {
+    throw new CustomError(`The ${parsed.key} norm already has an entry; retire it first`, 400);
+  }
+
+  const newNorm: MaterialNorm = {
+    ...parsed,
+    source: req.body.source,
+    createdBy: req.user!._id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isActive: true
+  };
+
+  const result = await db.collection('material_norms').insertOne(newNorm);
+
+  logger.info(`Material norm created: ${parsed.key} by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: 'Material norm created successfully',
+      norm: { ...newNorm, _id: result.insertedId, materialsPerUnit: materialsPerUnit(newNorm) }
+    }
+  });
+}));
+
+/**
+ * DELETE /api/material-norms/:normId
+ * @summary Retire a material norm entry (admin only); a replaced built-in norm applies again
+ * @tags Material Norms
+ * @security BearerAuth
+ * @param {string} normId.path.required - Norm entry ID
+ * @return {object} 200 - Norm retired successfully
+ */
+router.delete('/:normId', authenticateUser, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { normId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(normId)) throw new CustomError('Invalid norm ID', 400);
+
+  const result = await db.collection('material_norms').updateOne(
+    { _id: new ObjectId(normId) },
+    { $set: { isActive: false, updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new CustomError('Material norm not found', 404);
+  }
+
+  logger.info(`Material norm retired: ${normId} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Material norm retired successfully' }
+  });
+}));
+
+export default router;
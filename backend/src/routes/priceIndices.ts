@@ -0,0 +1,174 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import { CustomError, asyncHandler } from '../middleware/errorHandler';
+import { authenticateUser, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { PriceIndex } from '../types';
+import { WORK_SECTION_GROUPS } from '../services/bqClassification';
+import { ALL_TRADES, monthStart } from '../services/escalation';
+
+const router = Router();
+
+const SERIES = [ALL_TRADES, ...Object.keys(WORK_SECTION_GROUPS)];
+
+/**
+ * GET /api/price-indices
+ * @summary List construction price indices, latest month first
+ * @tags Price Indices
+ * @security BearerAuth
+ * @param {string} trade.query - Only this series: an SMM7 work section group letter, or 'All'
+ * @param {string} from.query - Only months from this date
+ * @param {string} to.query - Only months up to this date
+ * @param {boolean} includeRetired.query - Include retired entries
+ * @return {object} 200 - Indices retrieved successfully
+ */
+router.get('/', authenticateUser, [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('trade').optional().isIn(SERIES).withMessage('Trade must be an SMM7 work section group or All'),
+  query('from').optional().isISO8601().withMessage('from must be a valid date'),
+  query('to').optional().isISO8601().withMessage('to must be a valid date'),
+  query('includeRetired').optional().isBoolean().withMessage('includeRetired must be true or false'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const skip = (page - 1) * limit;
+  const { trade, from, to } = req.query as Record<string, string>;
+
+  const db = getDatabase();
+  const filter: any = {};
+
+  if (req.query.includeRetired !== 'true') filter.isActive = true;
+  if (trade) filter.trade = trade;
+  if (from || to) {
+    filter.period = {};
+    if (from) filter.period.$gte = monthStart(new Date(from));
+    if (to) filter.period.$lte = new Date(to);
+  }
+
+  const [indices, total] = await Promise.all([
+    db.collection('price_indices')
+      .find(filter)
+      .skip(skip)
+      .limit(limit)
+      .sort({ period: -1, trade: 1 })
+      .toArray(),
+    db.collection('price_indices').countDocuments(filter)
+  ]);
+
+  res.json({
+    success: true,
+    data: {
+      indices,
+      series: SERIES.map(code => ({ code, name: code === ALL_TRADES ? 'All trades' : WORK_SECTION_GROUPS[code] }))
+    },
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+/**
+ * POST /api/price-indices
+ * @summary Publish a price index for a month (admin only)
+ * @tags Price Indices
+ * @security BearerAuth
+ * @param {object} request.body.required - Index data; period is any date in the month
+ * @return {object} 201 - Index created successfully
+ * @return {object} 400 - The month already has an index for the series
+ * @return {object} 403 - Not an admin
+ * @example request - Example request body
+ * {
+ *   "trade": "E",
+ *   "period": "2026-09-01",
+ *   "value": 128.4,
+ *   "source": "KNBS Construction Input Price Index"
+ * }
+ */
+router.post('/', authenticateUser, requireAdmin, [
+  body('trade').isIn(SERIES).withMessage('Trade must be an SMM7 work section group or All'),
+  body('period').isISO8601().withMessage('Period must be a valid date'),
+  body('value').isFloat({ gt: 0 }).withMessage('Value must be a positive number'),
+  body('source').notEmpty().withMessage('Source is required'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { trade, value, source } = req.body;
+  const period = monthStart(new Date(req.body.period));
+  const db = getDatabase();
+
+  // One index per series and month, so a projection never depends on which entry is read
+  const existing = await db.collection('price_indices').findOne({ trade, period, isActive: true });
+  if (existing) {
+    throw new CustomError(`The ${trade} index for ${period.toISOString().slice(0, 7)} is already published; retire it first`, 400);
+  }
+
+  const newIndex: PriceIndex = {
+    trade,
+    period,
+    value: Number(value),
+    source,
+    createdBy: req.user!._id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isActive: true
+  };
+
+  const result = await db.collection('price_indices').insertOne(newIndex);
+
+  logger.info(`Price index created: ${trade} ${period.toISOString().slice(0, 7)} = ${value} by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: 'Price index created successfully',
+      index: { ...newIndex, _id: result.insertedId }
+    }
+  });
+}));
+
+/**
+ * DELETE /api/price-indices/:indexId
+ * @summary Retire a price index (admin only; kept for the estimates that used it)
+ * @tags Price Indices
+ * @security BearerAuth
+ * @param {string} indexId.path.required - Index ID
+ * @return {object} 200 - Index retired successfully
+ */
+router.delete('/:indexId', authenticateUser, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { indexId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(indexId)) throw new CustomError('Invalid index ID', 400);
+
+  const result = await db.collection('price_indices').updateOne(
+    { _id: new ObjectId(indexId) },
+    { $set: { isActive: false, updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new CustomError('Price index not found', 404);
+  }
+
+  logger.info(`Price index retired: ${indexId} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Price index retired successfully' }
+  });
+}));
+
+export default router;
@@ -0,0 +1,258 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import { CustomError, asyncHandler } from '../middleware/errorHandler';
+import { authenticateUser, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { ProductivityNorm, ResourceKind, ResourceRate } from '../types';
+import { loadProductivityNorms, loadResourceRates, parseProductivityNorm, LABOUR_TRADES } from '../services/resourceEstimate';
+
+const router = Router();
+
+/**
+ * GET /api/productivity-norms
+ * @summary List the productivity norms in use: the built-in norms with admins' entries applied
+ * @tags Productivity Norms
+ * @security BearerAuth
+ * @param {string} trade.query - Only norms for this labour trade
+ * @return {object} 200 - Norms, and the labour trades in programme order
+ */
+router.get('/', authenticateUser, [
+  query('trade').optional().isIn(Object.keys(LABOUR_TRADES)).withMessage('Unknown trade'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const norms = (await loadProductivityNorms())
+    .filter(norm => !req.query.trade || norm.trade === req.query.trade)
+    .map(norm => ({ ...norm, builtIn: !norm._id }));
+
+  res.json({
+    success: true,
+    data: { norms, trades: Object.keys(LABOUR_TRADES) }
+  });
+}));
+
+/**
+ * GET /api/productivity-norms/rates
+ * @summary List the hourly labour and plant rates in use (Nairobi, KES)
+ * @tags Productivity Norms
+ * @security BearerAuth
+ * @param {string} kind.query - Only labour or only plant rates
+ * @return {object} 200 - Rates, each marked builtIn or not
+ */
+router.get('/rates', authenticateUser, [
+  query('kind').optional().isIn(['labour', 'plant']).withMessage('Kind must be labour or plant'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const rates = (await loadResourceRates())
+    .filter(rate => !req.query.kind || rate.kind === req.query.kind)
+    .map(rate => ({ ...rate, builtIn: !rate._id }));
+
+  res.json({
+    success: true,
+    data: { rates }
+  });
+}));
+
+/**
+ * POST /api/productivity-norms/rates
+ * @summary Add an hourly rate for a crew role or item of plant, or replace the built-in one (admin only)
+ * @tags Productivity Norms
+ * @security BearerAuth
+ * @param {object} request.body.required - Rate data
+ * @return {object} 201 - Rate created successfully
+ * @return {object} 400 - Invalid rate, or the resource already has an active entry
+ * @example request - Example request body
+ * {
+ *   "kind": "labour",
+ *   "resource": "Mason",
+ *   "hourlyRateKES": 175,
+ *   "source": "Site wage survey, Nairobi 2026"
+ * }
+ */
+router.post('/rates', authenticateUser, requireAdmin, [
+  body('kind').isIn(['labour', 'plant']).withMessage('Kind must be labour or plant'),
+  body('resource').trim().notEmpty().withMessage('Resource is required'),
+  body('hourlyRateKES').isFloat({ gt: 0 }).withMessage('Hourly rate must be a positive number'),
+  body('source').notEmpty().withMessage('Source is required'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { kind, resource, hourlyRateKES, source } = req.body;
+  const db = getDatabase();
+
+  // One active entry per resource, matched as crews name it (any case)
+  const existing = await db.collection('resource_rates').findOne({
+    kind,
+    resource: { $regex: `^${resource.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, $options: 'i' },
+    isActive: true
+  });
+  if (existing) {
+    throw new CustomError(`${existing.resource} already has a ${kind} rate; retire it first`, 400);
+  }
+
+  const newRate: ResourceRate = {
+    kind: kind as ResourceKind,
+    resource,
+    hourlyRateKES: Number(hourlyRateKES),
+    source,
+    createdBy: req.user!._id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isActive: true
+  };
+
+  const result = await db.collection('resource_rates').insertOne(newRate);
+
+  logger.info(`Resource rate created: ${kind} ${resource} at ${hourlyRateKES}/hour by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: 'Resource rate created successfully',
+      rate: { ...newRate, _id: result.insertedId }
+    }
+  });
+}));
+
+/**
+ * DELETE /api/productivity-norms/rates/:rateId
+ * @summary Retire an hourly rate entry (admin only); a replaced built-in rate applies again
+ * @tags Productivity Norms
+ * @security BearerAuth
+ * @param {string} rateId.path.required - Rate entry ID
+ * @return {object} 200 - Rate retired successfully
+ */
+router.delete('/rates/:rateId', authenticateUser, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { rateId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(rateId)) throw new CustomError('Invalid rate ID', 400);
+
+  const result = await db.collection('resource_rates').updateOne(
+    { _id: new ObjectId(rateId) },
+    { $set: { isActive: false, updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new CustomError('Resource rate not found', 404);
+  }
+
+  logger.info(`Resource rate retired: ${rateId} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Resource rate retired successfully' }
+  });
+}));
+
+/**
+ * POST /api/productivity-norms
+ * @summary Add a productivity norm, or replace the built-in norm with the same key (admin only)
+ * @tags Productivity Norms
+ * @security BearerAuth
+ * @param {object} request.body.required - Norm data
+ * @return {object} 201 - Norm created successfully
+ * @return {object} 400 - Invalid norm, or the key already has an active entry
+ * @return {object} 403 - Not an admin
+ * @example request - Example request body
+ * {
+ *   "key": "blockwork",
+ *   "name": "Machine-cut stone walling",
+ *   "trade": "Masonry",
+ *   "keywords": [["stone", "block", "walling"]],
+ *   "units": ["m2"],
+ *   "manHoursPerUnit": 1.4,
+ *   "crew": [{ "role": "Mason", "count": 2 }, { "role": "Labourer", "count": 3 }],
+ *   "plant": [],
+ *   "source": "Work study, Kiambu sites 2026"
+ * }
+ */
+router.post('/', authenticateUser, requireAdmin, [
+  body('source').notEmpty().withMessage('Source is required'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  let parsed;
+  try {
+    parsed = parseProductivityNorm(req.body);
+  } catch (error) {
+    throw new CustomError(error instanceof Error ? error.message : 'Invalid productivity norm', 400);
+  }
+
+  const db = getDatabase();
+
+  // One active entry per key, so an estimate never depends on which entry is read
+  const existing = await db.collection('productivity_norms').findOne({ key: parsed.key, isActive: true });
+  if (existing) {
+    throw new CustomError(`The ${parsed.key} norm already has an entry; retire it first`, 400);
+  }
+
+  const newNorm: ProductivityNorm = {
+    ...parsed,
+    source: req.body.source,
+    createdBy: req.user!._id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isActive: true
+  };
+
+  const result = await db.collection('productivity_norms').insertOne(newNorm);
+
+  logger.info(`Productivity norm created: ${parsed.key} by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: 'Productivity norm created successfully',
+      norm: { ...newNorm, _id: result.insertedId }
+    }
+  });
+}));
+
+/**
+ * DELETE /api/productivity-norms/:normId
+ * @summary Retire a productivity norm entry (admin only); a replaced built-in norm applies again
+ * @tags Productivity Norms
+ * @security BearerAuth
+ * @param {string} normId.path.required - Norm entry ID
+ * @return {object} 200 - Norm retired successfully
+ */
+router.delete('/:normId', authenticateUser, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { normId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(normId)) throw new CustomError('Invalid norm ID', 400);
+
+  const result = await db.collection('productivity_norms').updateOne(
+    { _id: new ObjectId(normId) },
+    { $set: { isActive: false, updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new CustomError('Productivity norm not found', 404);
+  }
+
+  logger.info(`Productivity norm retired: ${normId} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Productivity norm retired successfully' }
+  });
+}));
+
+export default router;
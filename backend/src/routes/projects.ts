@@ -5,7 +5,13 @@ import { getDatabase } from '../config/database';
 import { CustomError, asyncHandler } from '../middleware/errorHandler';
 import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
-import { Project } from '../types';
+import { AnalysisResult, CashFlowConfig, CashFlowForecast, MaterialSchedule, Project } from '../types';
+import { CURRENCY_CODES } from '../services/currency';
+import { buildCashFlowForecast, parseCashFlowConfig, DEFAULT_CASH_FLOW_CONFIG } from '../services/cashFlow';
+import { buildCashFlowWorkbook } from '../services/cashFlowExport';
+import { DEFAULT_SUMMARY_CONFIG, parseSummaryConfig } from '../services/estimateSummary';
+import { buildMaterialSchedule, loadMaterialNorms } from '../services/materialSchedule';
+import { buildMaterialScheduleWorkbook } from '../services/materialScheduleExport';
 
 const router = Router();
 
@@ -93,6 +99,7 @@ router.post('/', authenticateUser, [
   body('location').optional().isObject().withMessage('Location must be an object'),
   body('budget').optional().isObject().withMessage('Budget must be an object'),
   body('timeline').optional().isObject().withMessage('Timeline must be an object'),
+  body('metadata.currency').optional().isIn(CURRENCY_CODES).withMessage('Unsupported currency'),
 ], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -130,7 +137,14 @@ router.post('/', authenticateUser, [
 }));
 
 // Update project
-router.patch('/:projectId', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+router.patch('/:projectId', authenticateUser, [
+  body('metadata.currency').optional().isIn(CURRENCY_CODES).withMessage('Unsupported currency'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
   const { projectId } = req.params;
   const updateData = req.body;
   const db = getDatabase();
@@ -184,7 +198,9 @@ router.delete('/:projectId', authenticateUser, asyncHandler(async (req: Authenti
     db.collection('reports').deleteMany({ projectId }),
     db.collection('vector_embeddings').deleteMany({ projectId }),
     db.collection('document_vectors').deleteMany({ projectId }),
-    db.collection('knowledge_graph').deleteMany({ projectId })
+    db.collection('knowledge_graph').deleteMany({ projectId }),
+    db.collection('valuations').deleteMany({ projectId }),
+    db.collection('variations').deleteMany({ projectId })
   ]);
 
   logger.info(`Project deleted: ${projectId} by user ${req.user!._id}`);
@@ -264,4 +280,227 @@ router.get('/:projectId/timeline', authenticateUser, asyncHandler(async (req: Au
   });
 }));
 
+// Get the estimate summary settings new BQs in the project are built with
+router.get('/:projectId/summary-config', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { projectId } = req.params;
+  const db = getDatabase();
+
+  const project = await db.collection('projects').findOne({
+    _id: new ObjectId(projectId),
+    userId: req.user!._id
+  });
+
+  if (!project) {
+    throw new CustomError('Project not found', 404);
+  }
+
+  const summaryConfig = project.metadata?.summaryConfig;
+
+  res.json({
+    success: true,
+    data: { summaryConfig: summaryConfig || DEFAULT_SUMMARY_CONFIG, isDefault: !summaryConfig }
+  });
+}));
+
+// Replace the project's estimate summary settings
+router.put('/:projectId/summary-config', authenticateUser, [
+  body('lines').isArray().withMessage('lines must be a list'),
+  body('vatRate').optional().isFloat({ min: 0, max: 1 }).withMessage('VAT rate must be between 0 and 1'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { projectId } = req.params;
+  const db = getDatabase();
+
+  let summaryConfig;
+  try {
+    summaryConfig = parseSummaryConfig(req.body);
+  } catch (error) {
+    throw new CustomError(error instanceof Error ? error.message : 'Invalid summary configuration', 400);
+  }
+
+  const result = await db.collection('projects').updateOne(
+    { _id: new ObjectId(projectId), userId: req.user!._id },
+    { $set: { 'metadata.summaryConfig': summaryConfig, updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new CustomError('Project not found', 404);
+  }
+
+  logger.info(`Estimate summary settings updated for project ${projectId} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Estimate summary settings updated', summaryConfig }
+  });
+}));
+
+// A user's project and every BQ filed under it, oldest first
+const loadProjectBqs = async (projectId: string, userId: string): Promise<{ project: any; bqs: Array<{ analysisId: string; analysis: AnalysisResult }> }> => {
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(projectId)) throw new CustomError('Invalid project ID', 400);
+
+  const project = await db.collection('projects').findOne({ _id: new ObjectId(projectId), userId });
+  if (!project) {
+    throw new CustomError('Project not found', 404);
+  }
+
+  const analyses = await db.collection('analysis_results')
+    .find({ projectId, userId }, { projection: { analysisResult: 1 } })
+    .sort({ createdAt: 1 })
+    .toArray();
+
+  return {
+    project,
+    bqs: analyses.map(analysis => ({ analysisId: analysis._id.toString(), analysis: analysis.analysisResult as AnalysisResult }))
+  };
+};
+
+// Consolidated raw materials for every BQ filed under a project
+const loadProjectMaterialSchedule = async (projectId: string, userId: string): Promise<{ project: any; schedule: MaterialSchedule }> => {
+  const { project, bqs } = await loadProjectBqs(projectId, userId);
+  const schedule = buildMaterialSchedule(bqs, await loadMaterialNorms());
+
+  return { project, schedule: { ...schedule, projectId } };
+};
+
+// Get the raw materials to order for the project's BQs
+router.get('/:projectId/material-schedule', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { schedule } = await loadProjectMaterialSchedule(req.params.projectId, req.user!._id);
+
+  res.json({
+    success: true,
+    data: { schedule }
+  });
+}));
+
+// Download the project's material schedule as an Excel workbook
+router.get('/:projectId/material-schedule/export.xlsx', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { project, schedule } = await loadProjectMaterialSchedule(req.params.projectId, req.user!._id);
+  const workbook = await buildMaterialScheduleWorkbook(schedule, project.name);
+
+  const fileName = `${(project.name || 'Project').replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'Project'} - Material Schedule.xlsx`;
+
+  logger.info(`Exported material schedule of project ${req.params.projectId}`);
+
+  res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(workbook);
+}));
+
+// Get the settings the project's cash flow is forecast with
+router.get('/:projectId/cash-flow-config', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { projectId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(projectId)) throw new CustomError('Invalid project ID', 400);
+
+  const project = await db.collection('projects').findOne({
+    _id: new ObjectId(projectId),
+    userId: req.user!._id
+  });
+
+  if (!project) {
+    throw new CustomError('Project not found', 404);
+  }
+
+  const cashFlowConfig = project.metadata?.cashFlowConfig;
+
+  res.json({
+    success: true,
+    data: { cashFlowConfig: cashFlowConfig || DEFAULT_CASH_FLOW_CONFIG, isDefault: !cashFlowConfig }
+  });
+}));
+
+// Replace the project's cash-flow settings
+router.put('/:projectId/cash-flow-config', authenticateUser, [
+  body('activities').optional().isArray().withMessage('activities must be a list'),
+  body('retentionRate').optional().isFloat({ min: 0, max: 1 }).withMessage('Retention rate must be between 0 and 1'),
+  body('retentionLimit').optional().isFloat({ min: 0, max: 1 }).withMessage('Retention limit must be between 0 and 1'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { projectId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(projectId)) throw new CustomError('Invalid project ID', 400);
+
+  let cashFlowConfig;
+  try {
+    cashFlowConfig = parseCashFlowConfig(req.body);
+  } catch (error) {
+    throw new CustomError(error instanceof Error ? error.message : 'Invalid cash-flow settings', 400);
+  }
+
+  const result = await db.collection('projects').updateOne(
+    { _id: new ObjectId(projectId), userId: req.user!._id },
+    { $set: { 'metadata.cashFlowConfig': cashFlowConfig, updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new CustomError('Project not found', 404);
+  }
+
+  logger.info(`Cash-flow settings updated for project ${projectId} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Cash-flow settings updated', cashFlowConfig }
+  });
+}));
+
+// Cash flow of every BQ filed under a project, over its programme
+const loadProjectCashFlow = async (projectId: string, userId: string): Promise<{ project: any; forecast: CashFlowForecast }> => {
+  const { project, bqs } = await loadProjectBqs(projectId, userId);
+  const config: CashFlowConfig = project.metadata?.cashFlowConfig || DEFAULT_CASH_FLOW_CONFIG;
+
+  const startDate = config.startDate || project.timeline?.startDate;
+  const endDate = config.endDate || project.timeline?.endDate;
+  if (!startDate || !endDate) {
+    throw new CustomError('Set the project timeline, or programme dates in the cash-flow settings, to forecast its cash flow', 400);
+  }
+  if (bqs.length === 0) {
+    throw new CustomError('The project has no BQs to forecast', 400);
+  }
+
+  try {
+    const forecast = buildCashFlowForecast(bqs, { startDate: new Date(startDate), endDate: new Date(endDate) }, config);
+    return { project, forecast: { ...forecast, projectId } };
+  } catch (error) {
+    throw new CustomError(error instanceof Error ? error.message : 'Failed to forecast the cash flow', 400);
+  }
+};
+
+// Get the monthly and cumulative cash flow of the project's BQs
+router.get('/:projectId/cash-flow', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { forecast } = await loadProjectCashFlow(req.params.projectId, req.user!._id);
+
+  res.json({
+    success: true,
+    data: { forecast }
+  });
+}));
+
+// Download the project's cash-flow forecast as an Excel workbook
+router.get('/:projectId/cash-flow/export.xlsx', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { project, forecast } = await loadProjectCashFlow(req.params.projectId, req.user!._id);
+  const workbook = await buildCashFlowWorkbook(forecast, project.name);
+
+  const fileName = `${(project.name || 'Project').replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'Project'} - Cash Flow.xlsx`;
+
+  logger.info(`Exported cash-flow forecast of project ${req.params.projectId}`);
+
+  res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(workbook);
+}));
+
 export default router;
@@ -0,0 +1,255 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import { CustomError, asyncHandler } from '../middleware/errorHandler';
+import { authenticateUser, requireAdmin, AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { RateLibraryEntry } from '../types';
+import { supersedeRate } from '../services/rateLibrary';
+
+const router = Router();
+
+/**
+ * GET /api/rates
+ * @summary List unit rates in the rate library
+ * @tags Rates
+ * @security BearerAuth
+ * @param {string} region.query - Filter by region (e.g. Nairobi, Mombasa, Kisumu)
+ * @param {string} itemCode.query - Filter by item code
+ * @param {string} search.query - Search in description
+ * @param {string} asOf.query - Only rates effective on or before this date
+ * @return {object} 200 - Rates retrieved successfully
+ */
+router.get('/', authenticateUser, [
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('region').optional().isString().withMessage('Region must be a string'),
+  query('itemCode').optional().isString().withMessage('Item code must be a string'),
+  query('search').optional().isString().withMessage('Search must be a string'),
+  query('asOf').optional().isISO8601().withMessage('asOf must be a valid date'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || 20;
+  const skip = (page - 1) * limit;
+  const region = req.query.region as string;
+  const itemCode = req.query.itemCode as string;
+  const search = req.query.search as string;
+  const asOf = req.query.asOf as string;
+
+  const db = getDatabase();
+  const filter: any = { isActive: true };
+
+  if (region) filter.region = { $regex: `^${region.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, $options: 'i' };
+  if (itemCode) filter.itemCode = itemCode;
+  if (search) filter.description = { $regex: search, $options: 'i' };
+  if (asOf) filter.effectiveDate = { $lte: new Date(asOf) };
+
+  const [rates, total] = await Promise.all([
+    db.collection('rate_library')
+      .find(filter)
+      .skip(skip)
+      .limit(limit)
+      .sort({ itemCode: 1, effectiveDate: -1 })
+      .toArray(),
+    db.collection('rate_library').countDocuments(filter)
+  ]);
+
+  res.json({
+    success: true,
+    data: { rates },
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+/**
+ * GET /api/rates/:rateId
+ * @summary Get a single library rate
+ * @tags Rates
+ * @security BearerAuth
+ * @param {string} rateId.path.required - Rate ID
+ * @return {object} 200 - Rate retrieved successfully
+ * @return {object} 404 - Rate not found
+ */
+router.get('/:rateId', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { rateId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(rateId)) throw new CustomError('Invalid rate ID', 400);
+
+  const rate = await db.collection('rate_library').findOne({ _id: new ObjectId(rateId) });
+
+  if (!rate) {
+    throw new CustomError('Rate not found', 404);
+  }
+
+  res.json({
+    success: true,
+    data: { rate }
+  });
+}));
+
+/**
+ * POST /api/rates
+ * @summary Add a unit rate to the library (admin only)
+ * @tags Rates
+ * @security BearerAuth
+ * @param {object} request.body.required - Rate data
+ * @return {object} 201 - Rate created successfully
+ * @example request - Example request body
+ * {
+ *   "itemCode": "SUB-CONC-124",
+ *   "description": "Foundation concrete (1:2:4)",
+ *   "unit": "m3",
+ *   "region": "Nairobi",
+ *   "rateKES": 15500,
+ *   "effectiveDate": "2025-07-01",
+ *   "source": "Contractor quotation"
+ * }
+ */
+router.post('/', authenticateUser, requireAdmin, [
+  body('itemCode').isString().trim().notEmpty().withMessage('Item code is required'),
+  body('description').isString().trim().notEmpty().withMessage('Description is required'),
+  body('unit').isString().trim().notEmpty().withMessage('Unit is required'),
+  body('region').isString().trim().notEmpty().withMessage('Region is required'),
+  body('rateKES').isFloat({ min: 0 }).withMessage('Rate must be a non-negative number'),
+  body('effectiveDate').isISO8601().withMessage('Effective date must be a valid date'),
+  body('source').isString().trim().notEmpty().withMessage('Source is required'),
+  body('metadata').optional().isObject().withMessage('Metadata must be an object'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { itemCode, description, unit, region, rateKES, effectiveDate, source, metadata } = req.body;
+  const db = getDatabase();
+
+  const newRate: RateLibraryEntry = {
+    itemCode,
+    description,
+    unit,
+    region,
+    rateKES: Number(rateKES),
+    effectiveDate: new Date(effectiveDate),
+    source,
+    createdBy: req.user!._id,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    isActive: true,
+    metadata
+  };
+
+  const result = await db.collection('rate_library').insertOne(newRate);
+
+  logger.info(`Library rate created: ${itemCode} (${region}) by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: 'Rate created successfully',
+      rate: { ...newRate, _id: result.insertedId }
+    }
+  });
+}));
+
+/**
+ * PATCH /api/rates/:rateId
+ * @summary Record a new dated rate for a library entry (admin only)
+ * @tags Rates
+ * @security BearerAuth
+ * @param {string} rateId.path.required - Rate ID
+ * @param {object} request.body.required - Fields that change; effectiveDate defaults to today. itemCode and region cannot change
+ * @return {object} 201 - New rate recorded; the previous one is kept as history
+ * @return {object} 400 - itemCode or region sent
+ */
+router.patch('/:rateId', authenticateUser, requireAdmin, [
+  body('description').optional().isString().trim().notEmpty().withMessage('Description must not be empty'),
+  body('unit').optional().isString().trim().notEmpty().withMessage('Unit must not be empty'),
+  body('rateKES').optional().isFloat({ min: 0 }).withMessage('Rate must be a non-negative number'),
+  body('effectiveDate').optional().isISO8601().withMessage('Effective date must be a valid date'),
+  body('source').optional().isString().trim().notEmpty().withMessage('Source must not be empty'),
+  body('metadata').optional().isObject().withMessage('Metadata must be an object'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  // A rate under another code or region would leave this one in force too; that is a new rate
+  if (req.body.itemCode !== undefined || req.body.region !== undefined) {
+    throw new CustomError('The item code and region of a rate cannot change; add a new rate instead', 400);
+  }
+
+  const { rateId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(rateId)) throw new CustomError('Invalid rate ID', 400);
+
+  const allowedFields = ['description', 'unit', 'rateKES', 'effectiveDate', 'source', 'metadata'];
+  if (!allowedFields.some(field => req.body[field] !== undefined)) {
+    throw new CustomError('No valid fields to update', 400);
+  }
+
+  const current = await db.collection<RateLibraryEntry>('rate_library').findOne({ _id: new ObjectId(rateId), isActive: true });
+  if (!current) {
+    throw new CustomError('Rate not found', 404);
+  }
+
+  const newRate = supersedeRate(current, req.body, req.user!._id);
+
+  const result = await db.collection('rate_library').insertOne(newRate);
+
+  logger.info(`Library rate ${rateId} superseded by ${result.insertedId} by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: 'New rate recorded',
+      rate: { ...newRate, _id: result.insertedId }
+    }
+  });
+}));
+
+/**
+ * DELETE /api/rates/:rateId
+ * @summary Retire a library rate, kept for provenance of existing BQs (admin only)
+ * @tags Rates
+ * @security BearerAuth
+ * @param {string} rateId.path.required - Rate ID
+ * @return {object} 200 - Rate retired successfully
+ */
+router.delete('/:rateId', authenticateUser, requireAdmin, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const { rateId } = req.params;
+  const db = getDatabase();
+
+  if (!ObjectId.isValid(rateId)) throw new CustomError('Invalid rate ID', 400);
+
+  const result = await db.collection('rate_library').updateOne(
+    { _id: new ObjectId(rateId) },
+    { $set: { isActive: false, updatedAt: new Date() } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new CustomError('Rate not found', 404);
+  }
+
+  logger.info(`Library rate retired: ${rateId} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Rate deleted successfully' }
+  });
+}));
+
+export default router;
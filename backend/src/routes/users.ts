@@ -1,10 +1,11 @@
 import { Router, Request, Response } from 'express';
-import { query, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { ObjectId } from 'mongodb';
 import { getDatabase } from '../config/database';
 import { CustomError, asyncHandler } from '../middleware/errorHandler';
 import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
+import { CompanyBranding } from '../types';
 
 const router = Router();
 
@@ -60,6 +61,50 @@ router.get('/', [
   });
 }));
 
+// Get company branding for the authenticated user
+router.get('/me/company', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const db = getDatabase();
+
+  const user = await db.collection('users').findOne(
+    { _id: new ObjectId(req.user!._id) },
+    { projection: { 'preferences.company': 1 } }
+  );
+
+  res.json({
+    success: true,
+    data: { company: user?.preferences?.company || null }
+  });
+}));
+
+// Update company branding used on exported documents
+router.put('/me/company', authenticateUser, [
+  body('name').notEmpty().withMessage('Company name is required'),
+  body('logo').optional({ nullable: true }).matches(/^data:image\/(png|jpe?g);base64,/).withMessage('Logo must be a PNG or JPEG data URL'),
+  body('logo').optional({ nullable: true }).isLength({ max: 2 * 1024 * 1024 }).withMessage('Logo must be smaller than 1.5MB'),
+  body('email').optional({ checkFalsy: true }).isEmail().withMessage('Email must be valid'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { name, logo, address, phone, email, registrationNumber } = req.body;
+  const company: CompanyBranding = { name, logo: logo || undefined, address, phone, email, registrationNumber };
+
+  const db = getDatabase();
+  await db.collection('users').updateOne(
+    { _id: new ObjectId(req.user!._id) },
+    { $set: { 'preferences.company': company } }
+  );
+
+  logger.info(`Company branding updated for user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: 'Company settings saved successfully', company }
+  });
+}));
+
 // Get user by ID
 router.get('/:userId', asyncHandler(async (req: Request, res: Response) => {
   const { userId } = req.params;
@@ -0,0 +1,331 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { Db, ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import { CustomError, asyncHandler } from '../middleware/errorHandler';
+import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { AnalysisResult, Document, Valuation, ValuationTerms, Variation } from '../types';
+import { buildValuation, formatPaymentCertificate, parseValuationInput, DEFAULT_VALUATION_TERMS } from '../services/valuation';
+
+const router = Router();
+
+// Tries at taking the next valuation number before giving up
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+// The contract BQ a valuation is made against, with the project it is filed under and its variation orders
+const loadContract = async (db: Db, analysisId: string, userId: string) => {
+  if (!ObjectId.isValid(analysisId)) throw new CustomError('Invalid analysis ID', 400);
+
+  const analysis = await db.collection('analysis_results').findOne({ _id: new ObjectId(analysisId), userId });
+  if (!analysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  // Items are valued by their position in the BQ, which only a locked contract keeps
+  if (!analysis.contract) {
+    throw new CustomError('Lock the BQ as the contract before valuing it', 400);
+  }
+
+  const project = await db.collection('projects').findOne({ _id: new ObjectId(analysis.projectId), userId });
+  if (!project) throw new CustomError('Project not found', 404);
+
+  const variations = await db.collection<Variation>('variations').find({ analysisId }).toArray();
+
+  return { analysis, project, variations };
+};
+
+const loadValuation = async (db: Db, valuationId: string, userId: string): Promise<Valuation> => {
+  if (!ObjectId.isValid(valuationId)) throw new CustomError('Invalid valuation ID', 400);
+
+  const valuation = await db.collection<Valuation>('valuations').findOne({ _id: new ObjectId(valuationId), userId });
+  if (!valuation) throw new CustomError('Valuation not found', 404);
+
+  return valuation;
+};
+
+// Terms run on from the last certificate; the first takes its retention from the project's cash-flow settings
+const termsFor = (project: any, previous: Valuation | null): ValuationTerms => {
+  const cashFlowConfig = project.metadata?.cashFlowConfig;
+  return previous?.terms || (cashFlowConfig
+    ? { ...DEFAULT_VALUATION_TERMS, retentionRate: cashFlowConfig.retentionRate, retentionLimit: cashFlowConfig.retentionLimit }
+    : DEFAULT_VALUATION_TERMS);
+};
+
+// Value the contract to date on top of its last certificate
+const valueContract = (analysis: any, variations: Variation[], body: any, previous: Valuation | null, fallbackTerms: ValuationTerms) => {
+  try {
+    const input = parseValuationInput(body, analysis.analysisResult as AnalysisResult, fallbackTerms, variations);
+    return { ...buildValuation(analysis.analysisResult as AnalysisResult, input, previous || undefined, variations), terms: input.terms };
+  } catch (error) {
+    throw new CustomError(error instanceof Error ? error.message : 'Invalid valuation', 400);
+  }
+};
+
+const parseValuationDate = (value: any, previous: Valuation | null): Date => {
+  const valuationDate = value ? new Date(value) : new Date();
+  if (previous && valuationDate < new Date(previous.valuationDate)) {
+    throw new CustomError(`The valuation date must not be before Valuation No. ${previous.number}`, 400);
+  }
+  return valuationDate;
+};
+
+const valuationValidators = [
+  body('valuationDate').optional().isISO8601().withMessage('Valuation date must be a date'),
+  body('items').optional().isArray().withMessage('items must be a list'),
+  body('variations').optional().isArray().withMessage('variations must be a list'),
+  body('materialsOnSite').optional().isArray().withMessage('materialsOnSite must be a list'),
+];
+
+/**
+ * GET /api/valuations
+ * @summary List interim valuations, oldest first within each contract BQ
+ * @tags Valuations
+ * @security BearerAuth
+ * @param {string} projectId.query - Only valuations for this project
+ * @param {string} analysisId.query - Only valuations of this contract BQ
+ * @return {object} 200 - Valuations without their items
+ */
+router.get('/', authenticateUser, [
+  query('projectId').optional().isMongoId().withMessage('Invalid project ID'),
+  query('analysisId').optional().isMongoId().withMessage('Invalid analysis ID'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const db = getDatabase();
+  const filter: any = { userId: req.user!._id };
+  if (req.query.projectId) filter.projectId = req.query.projectId;
+  if (req.query.analysisId) filter.analysisId = req.query.analysisId;
+
+  const valuations = await db.collection('valuations')
+    .find(filter, { projection: { items: 0, variations: 0, materialsOnSite: 0 } })
+    .sort({ analysisId: 1, number: 1 })
+    .toArray();
+
+  res.json({
+    success: true,
+    data: { valuations }
+  });
+}));
+
+/**
+ * POST /api/valuations
+ * @summary Start the next interim valuation of a contract BQ, as a draft
+ * @tags Valuations
+ * @security BearerAuth
+ * @param {object} request.body.required - { analysisId, valuationDate?, items: [{ itemIndex, percentComplete | quantityComplete }], variations?: [{ variationId, percentComplete }], materialsOnSite?: [{ description, amountKES }], terms? }
+ * @return {object} 201 - Draft valuation with its certificate figures
+ * @return {object} 400 - Invalid progress, the BQ is not locked as a contract, or the last valuation is still a draft
+ * @return {object} 404 - Analysis not found
+ */
+router.post('/', authenticateUser, [
+  body('analysisId').notEmpty().withMessage('Analysis ID is required'),
+  ...valuationValidators,
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { analysisId } = req.body;
+  const db = getDatabase();
+  const { analysis, project, variations } = await loadContract(db, analysisId, req.user!._id);
+
+  // Another request may take the next number first; the retry then finds its draft
+  let newValuation: Valuation;
+  let insertedId: ObjectId;
+  for (let attempt = 1; ; attempt++) {
+    // Valuations are cumulative, so each one builds on a certified predecessor
+    const latest = await db.collection<Valuation>('valuations').findOne({ analysisId }, { sort: { number: -1 } });
+    if (latest?.status === 'draft') {
+      throw new CustomError(`Valuation No. ${latest.number} is still a draft; certify or delete it first`, 400);
+    }
+
+    const valued = valueContract(analysis, variations, req.body, latest, termsFor(project, latest));
+    newValuation = {
+      projectId: analysis.projectId,
+      analysisId,
+      userId: req.user!._id,
+      number: (latest?.number || 0) + 1,
+      valuationDate: parseValuationDate(req.body.valuationDate, latest),
+      status: 'draft',
+      ...valued,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    try {
+      insertedId = (await db.collection('valuations').insertOne(newValuation)).insertedId;
+      break;
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+      if (attempt >= MAX_NUMBERING_ATTEMPTS) throw new CustomError('Another valuation of this contract was started at the same time; try again', 400);
+    }
+  }
+
+  logger.info(`Valuation ${newValuation.number} of analysis ${analysisId} started by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: `Valuation No. ${newValuation.number} saved as a draft`,
+      valuation: { ...newValuation, _id: insertedId }
+    }
+  });
+}));
+
+/**
+ * GET /api/valuations/:valuationId
+ * @summary Get a valuation with its items, materials on site and certificate figures
+ * @tags Valuations
+ * @security BearerAuth
+ * @param {string} valuationId.path.required - Valuation ID
+ * @return {object} 200 - Valuation
+ */
+router.get('/:valuationId', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const valuation = await loadValuation(getDatabase(), req.params.valuationId, req.user!._id);
+
+  res.json({
+    success: true,
+    data: { valuation }
+  });
+}));
+
+/**
+ * PUT /api/valuations/:valuationId
+ * @summary Replace the progress, materials on site and terms of a draft valuation
+ * @tags Valuations
+ * @security BearerAuth
+ * @param {string} valuationId.path.required - Valuation ID
+ * @param {object} request.body.required - { valuationDate?, items, variations?, materialsOnSite?, terms? }
+ * @return {object} 200 - Draft valuation with its certificate figures
+ * @return {object} 400 - Invalid progress, or the valuation is certified
+ */
+router.put('/:valuationId', authenticateUser, valuationValidators, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const db = getDatabase();
+  const valuation = await loadValuation(db, req.params.valuationId, req.user!._id);
+  if (valuation.status !== 'draft') {
+    throw new CustomError(`Valuation No. ${valuation.number} is certified and cannot be changed`, 400);
+  }
+
+  const { analysis, variations } = await loadContract(db, valuation.analysisId, req.user!._id);
+  const previous = await db.collection<Valuation>('valuations').findOne({ analysisId: valuation.analysisId, number: valuation.number - 1 });
+
+  const update = {
+    valuationDate: req.body.valuationDate ? parseValuationDate(req.body.valuationDate, previous) : valuation.valuationDate,
+    ...valueContract(analysis, variations, req.body, previous, valuation.terms),
+    updatedAt: new Date()
+  };
+
+  await db.collection('valuations').updateOne({ _id: valuation._id }, { $set: update });
+
+  logger.info(`Valuation ${valuation.number} of analysis ${valuation.analysisId} updated by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: {
+      message: `Valuation No. ${valuation.number} updated`,
+      valuation: { ...valuation, ...update }
+    }
+  });
+}));
+
+/**
+ * DELETE /api/valuations/:valuationId
+ * @summary Delete a draft valuation
+ * @tags Valuations
+ * @security BearerAuth
+ * @param {string} valuationId.path.required - Valuation ID
+ * @return {object} 200 - Valuation deleted
+ * @return {object} 400 - The valuation is certified
+ */
+router.delete('/:valuationId', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const db = getDatabase();
+  const valuation = await loadValuation(db, req.params.valuationId, req.user!._id);
+  if (valuation.status !== 'draft') {
+    throw new CustomError(`Valuation No. ${valuation.number} is certified and cannot be deleted`, 400);
+  }
+
+  await db.collection('valuations').deleteOne({ _id: valuation._id, status: 'draft' });
+
+  logger.info(`Valuation ${valuation.number} of analysis ${valuation.analysisId} deleted by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: `Valuation No. ${valuation.number} deleted` }
+  });
+}));
+
+/**
+ * POST /api/valuations/:valuationId/certify
+ * @summary Certify a draft valuation and issue its numbered payment certificate as a project document
+ * @tags Valuations
+ * @security BearerAuth
+ * @param {string} valuationId.path.required - Valuation ID
+ * @return {object} 200 - Certified valuation and the payment certificate document
+ * @return {object} 400 - The valuation is already certified
+ */
+router.post('/:valuationId/certify', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const db = getDatabase();
+  const valuation = await loadValuation(db, req.params.valuationId, req.user!._id);
+  if (valuation.status !== 'draft') {
+    throw new CustomError(`Valuation No. ${valuation.number} is already certified`, 400);
+  }
+
+  const { analysis, project } = await loadContract(db, valuation.analysisId, req.user!._id);
+
+  const certificate: Document = {
+    projectId: valuation.projectId,
+    userId: req.user!._id,
+    title: `Interim Payment Certificate No. ${valuation.number}`,
+    content: formatPaymentCertificate(valuation, {
+      projectName: project.name,
+      contractName: analysis.fileName || analysis.analysisResult?.projectName || 'Contract BQ'
+    }),
+    type: 'contract',
+    status: 'approved',
+    version: 1,
+    tags: ['payment-certificate'],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    metadata: {
+      valuationId: valuation._id!.toString(),
+      analysisId: valuation.analysisId,
+      certificateNumber: valuation.number,
+      amountDueKES: valuation.certificate.amountDueKES,
+      currency: valuation.currency
+    }
+  };
+
+  // Only a draft is certified, so a repeated request cannot issue a second certificate
+  const certifiedAt = new Date();
+  const result = await db.collection('valuations').updateOne(
+    { _id: valuation._id, status: 'draft' },
+    { $set: { status: 'certified', certifiedAt, updatedAt: certifiedAt } }
+  );
+  if (result.modifiedCount === 0) {
+    throw new CustomError(`Valuation No. ${valuation.number} is already certified`, 400);
+  }
+
+  const inserted = await db.collection('documents').insertOne(certificate);
+  const documentId = inserted.insertedId.toString();
+  await db.collection('valuations').updateOne({ _id: valuation._id }, { $set: { documentId } });
+
+  logger.info(`Payment certificate ${valuation.number} of analysis ${valuation.analysisId} issued by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: {
+      message: `Interim Payment Certificate No. ${valuation.number} issued`,
+      valuation: { ...valuation, status: 'certified', certifiedAt, updatedAt: certifiedAt, documentId },
+      document: { ...certificate, _id: inserted.insertedId }
+    }
+  });
+}));
+
+export default router;
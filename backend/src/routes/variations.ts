@@ -0,0 +1,359 @@
+import { Router, Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { Db, ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import { CustomError, asyncHandler } from '../middleware/errorHandler';
+import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { AnalysisResult, ContractBaseline, Valuation, Variation, VariationStatus } from '../types';
+import {
+  buildFinalAccount,
+  buildVariationRegister,
+  canMoveTo,
+  parseVariationItems,
+  totalVariation,
+  VARIATION_STATUSES
+} from '../services/variations';
+
+const router = Router();
+
+// Tries at taking the next variation order number before giving up
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+// A contract BQ: an analysis locked as the contract baseline
+const loadContract = async (db: Db, analysisId: string, userId: string) => {
+  if (!ObjectId.isValid(analysisId)) throw new CustomError('Invalid analysis ID', 400);
+
+  const analysis = await db.collection('analysis_results').findOne({ _id: new ObjectId(analysisId), userId });
+  if (!analysis) throw new CustomError('Analysis not found or unauthorized', 404);
+  if (!analysis.contract) throw new CustomError('Lock the BQ as the contract before recording variations', 400);
+
+  return { analysis, contract: analysis.contract as ContractBaseline };
+};
+
+const loadVariation = async (db: Db, variationId: string, userId: string): Promise<Variation> => {
+  if (!ObjectId.isValid(variationId)) throw new CustomError('Invalid variation ID', 400);
+
+  const variation = await db.collection<Variation>('variations').findOne({ _id: new ObjectId(variationId), userId });
+  if (!variation) throw new CustomError('Variation not found', 404);
+
+  return variation;
+};
+
+const priceItems = (analysis: any, items: any) => {
+  try {
+    const priced = parseVariationItems(items, analysis.analysisResult as AnalysisResult);
+    return { items: priced, ...totalVariation(priced, analysis.contract.currency) };
+  } catch (error) {
+    throw new CustomError(error instanceof Error ? error.message : 'Invalid variation items', 400);
+  }
+};
+
+// When a variation reached each status; a variation created as agreed was also instructed then
+const statusDates = (status: VariationStatus, at: Date): Partial<Pick<Variation, 'instructedAt' | 'agreedAt'>> => ({
+  ...(status !== 'proposed' && { instructedAt: at }),
+  ...(status === 'agreed' && { agreedAt: at })
+});
+
+const contractQuery = [
+  query('analysisId').isMongoId().withMessage('analysisId must be an analysis ID'),
+];
+
+/**
+ * GET /api/variations
+ * @summary List variation orders in number order
+ * @tags Variations
+ * @security BearerAuth
+ * @param {string} analysisId.query - Only variations to this contract BQ
+ * @param {string} projectId.query - Only variations in this project
+ * @param {string} status.query - proposed, instructed or agreed
+ * @return {object} 200 - Variations with their items
+ */
+router.get('/', authenticateUser, [
+  query('analysisId').optional().isMongoId().withMessage('Invalid analysis ID'),
+  query('projectId').optional().isMongoId().withMessage('Invalid project ID'),
+  query('status').optional().isIn(VARIATION_STATUSES).withMessage('Invalid status'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const db = getDatabase();
+  const filter: any = { userId: req.user!._id };
+  if (req.query.analysisId) filter.analysisId = req.query.analysisId;
+  if (req.query.projectId) filter.projectId = req.query.projectId;
+  if (req.query.status) filter.status = req.query.status;
+
+  const variations = await db.collection('variations').find(filter).sort({ analysisId: 1, number: 1 }).toArray();
+
+  res.json({
+    success: true,
+    data: { variations }
+  });
+}));
+
+/**
+ * GET /api/variations/register
+ * @summary The variation register of a contract with its running adjusted contract sum
+ * @tags Variations
+ * @security BearerAuth
+ * @param {string} analysisId.query.required - Contract BQ
+ * @return {object} 200 - Register
+ */
+router.get('/register', authenticateUser, contractQuery, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const analysisId = req.query.analysisId as string;
+  const db = getDatabase();
+  const { contract } = await loadContract(db, analysisId, req.user!._id);
+  const variations = await db.collection<Variation>('variations').find({ analysisId }).toArray();
+
+  res.json({
+    success: true,
+    data: { register: buildVariationRegister(analysisId, contract, variations) }
+  });
+}));
+
+/**
+ * GET /api/variations/final-account
+ * @summary The final account of a contract: its sum adjusted for instructed and agreed variations, against the last certificate
+ * @tags Variations
+ * @security BearerAuth
+ * @param {string} analysisId.query.required - Contract BQ
+ * @return {object} 200 - Final account
+ */
+router.get('/final-account', authenticateUser, contractQuery, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const analysisId = req.query.analysisId as string;
+  const db = getDatabase();
+  const { contract } = await loadContract(db, analysisId, req.user!._id);
+  const [variations, lastCertificate] = await Promise.all([
+    db.collection<Variation>('variations').find({ analysisId }).toArray(),
+    db.collection<Valuation>('valuations').findOne({ analysisId, status: 'certified' }, { sort: { number: -1 } })
+  ]);
+
+  res.json({
+    success: true,
+    data: { finalAccount: buildFinalAccount(analysisId, contract, variations, lastCertificate || undefined) }
+  });
+}));
+
+/**
+ * POST /api/variations
+ * @summary Record a variation order against a contract BQ
+ * @tags Variations
+ * @security BearerAuth
+ * @param {object} request.body.required - { analysisId, title, description?, status?, items: [{ kind: 'addition'|'omission', itemIndex?, description?, unit?, quantity, unitRateKES? }] }
+ * @return {object} 201 - Variation with its items priced
+ * @return {object} 400 - Invalid items, or the BQ is not locked as a contract
+ */
+router.post('/', authenticateUser, [
+  body('analysisId').notEmpty().withMessage('Analysis ID is required'),
+  body('title').isString().trim().notEmpty().isLength({ max: 200 }).withMessage('Title is required, at most 200 characters'),
+  body('description').optional().isString().isLength({ max: 2000 }).withMessage('Description must be at most 2000 characters'),
+  body('status').optional().isIn(VARIATION_STATUSES).withMessage('Invalid status'),
+  body('items').isArray().withMessage('items must be a list'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const { analysisId, title, description } = req.body;
+  const status: VariationStatus = req.body.status || 'proposed';
+  const db = getDatabase();
+  const { analysis, contract } = await loadContract(db, analysisId, req.user!._id);
+  const priced = priceItems(analysis, req.body.items);
+
+  // Another request may take the next number first; retry with the one after it
+  let newVariation: Variation;
+  let insertedId: ObjectId;
+  for (let attempt = 1; ; attempt++) {
+    const latest = await db.collection<Variation>('variations').findOne({ analysisId }, { sort: { number: -1 } });
+    const now = new Date();
+    newVariation = {
+      projectId: analysis.projectId,
+      analysisId,
+      userId: req.user!._id,
+      number: (latest?.number || 0) + 1,
+      title,
+      ...(description && { description }),
+      status,
+      currency: contract.currency,
+      ...priced,
+      ...statusDates(status, now),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    try {
+      insertedId = (await db.collection('variations').insertOne(newVariation)).insertedId;
+      break;
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+      if (attempt >= MAX_NUMBERING_ATTEMPTS) throw new CustomError('Other variations to this contract were recorded at the same time; try again', 400);
+    }
+  }
+
+  logger.info(`Variation ${newVariation.number} recorded against analysis ${analysisId} by user ${req.user!._id}`);
+
+  res.status(201).json({
+    success: true,
+    data: {
+      message: `Variation order No. ${newVariation.number} recorded`,
+      variation: { ...newVariation, _id: insertedId }
+    }
+  });
+}));
+
+/**
+ * GET /api/variations/:variationId
+ * @summary Get a variation order with its priced items
+ * @tags Variations
+ * @security BearerAuth
+ * @param {string} variationId.path.required - Variation ID
+ * @return {object} 200 - Variation
+ */
+router.get('/:variationId', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const variation = await loadVariation(getDatabase(), req.params.variationId, req.user!._id);
+
+  res.json({
+    success: true,
+    data: { variation }
+  });
+}));
+
+/**
+ * PUT /api/variations/:variationId
+ * @summary Change the title, description or items of a variation that is not yet agreed
+ * @tags Variations
+ * @security BearerAuth
+ * @param {string} variationId.path.required - Variation ID
+ * @param {object} request.body.required - { title?, description?, items? }
+ * @return {object} 200 - Variation re-priced
+ * @return {object} 400 - Invalid items, or the variation is agreed
+ */
+router.put('/:variationId', authenticateUser, [
+  body('title').optional().isString().trim().notEmpty().isLength({ max: 200 }).withMessage('Title must be at most 200 characters'),
+  body('description').optional().isString().isLength({ max: 2000 }).withMessage('Description must be at most 2000 characters'),
+  body('items').optional().isArray().withMessage('items must be a list'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const db = getDatabase();
+  const variation = await loadVariation(db, req.params.variationId, req.user!._id);
+  if (variation.status === 'agreed') {
+    throw new CustomError(`Variation order No. ${variation.number} is agreed and cannot be changed`, 400);
+  }
+
+  const { analysis } = await loadContract(db, variation.analysisId, req.user!._id);
+  const update: Partial<Variation> = {
+    ...(req.body.title !== undefined && { title: req.body.title }),
+    ...(req.body.description !== undefined && { description: req.body.description }),
+    ...(req.body.items !== undefined && priceItems(analysis, req.body.items)),
+    updatedAt: new Date()
+  };
+
+  const result = await db.collection('variations').updateOne({ _id: variation._id, status: { $ne: 'agreed' } }, { $set: update });
+  if (result.matchedCount === 0) {
+    throw new CustomError(`Variation order No. ${variation.number} was agreed before the change was saved`, 400);
+  }
+
+  logger.info(`Variation ${variation.number} of analysis ${variation.analysisId} updated by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: {
+      message: `Variation order No. ${variation.number} updated`,
+      variation: { ...variation, ...update }
+    }
+  });
+}));
+
+/**
+ * POST /api/variations/:variationId/status
+ * @summary Move a variation forward: proposed, then instructed, then agreed
+ * @tags Variations
+ * @security BearerAuth
+ * @param {string} variationId.path.required - Variation ID
+ * @param {object} request.body.required - { status: 'instructed'|'agreed' }
+ * @return {object} 200 - Variation with its new status
+ * @return {object} 400 - The status would move backwards
+ */
+router.post('/:variationId/status', authenticateUser, [
+  body('status').isIn(VARIATION_STATUSES).withMessage('Invalid status'),
+], asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomError('Validation failed', 400);
+  }
+
+  const status = req.body.status as VariationStatus;
+  const db = getDatabase();
+  const variation = await loadVariation(db, req.params.variationId, req.user!._id);
+  if (!canMoveTo(variation.status, status)) {
+    throw new CustomError(`Variation order No. ${variation.number} is ${variation.status} and cannot become ${status}`, 400);
+  }
+
+  const now = new Date();
+  const update = {
+    status,
+    ...statusDates(status, now),
+    ...(variation.instructedAt && { instructedAt: variation.instructedAt }),
+    updatedAt: now
+  };
+
+  const result = await db.collection('variations').updateOne({ _id: variation._id, status: variation.status }, { $set: update });
+  if (result.modifiedCount === 0) {
+    throw new CustomError(`Variation order No. ${variation.number} was changed by another request; try again`, 400);
+  }
+
+  logger.info(`Variation ${variation.number} of analysis ${variation.analysisId} ${status} by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: {
+      message: `Variation order No. ${variation.number} ${status}`,
+      variation: { ...variation, ...update }
+    }
+  });
+}));
+
+/**
+ * DELETE /api/variations/:variationId
+ * @summary Delete a proposed variation; instructed variations stay on the register
+ * @tags Variations
+ * @security BearerAuth
+ * @param {string} variationId.path.required - Variation ID
+ * @return {object} 200 - Variation deleted
+ * @return {object} 400 - The variation has been instructed
+ */
+router.delete('/:variationId', authenticateUser, asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+  const db = getDatabase();
+  const variation = await loadVariation(db, req.params.variationId, req.user!._id);
+  if (variation.status !== 'proposed') {
+    throw new CustomError(`Variation order No. ${variation.number} has been instructed and cannot be deleted`, 400);
+  }
+
+  await db.collection('variations').deleteOne({ _id: variation._id, status: 'proposed' });
+
+  logger.info(`Variation ${variation.number} of analysis ${variation.analysisId} deleted by user ${req.user!._id}`);
+
+  res.json({
+    success: true,
+    data: { message: `Variation order No. ${variation.number} deleted` }
+  });
+}));
+
+export default router;
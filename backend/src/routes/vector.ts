@@ -6,7 +6,7 @@ import { CustomError, asyncHandler } from '../middleware/errorHandler';
 import { authenticateUser, AuthenticatedRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import { VectorEmbedding, VectorSearchQuery, VectorSearchResult } from '../types';
-import axios from 'axios';
+import { llmEmbed } from '../services/llmProviders';
 
 const router = Router();
 
@@ -36,8 +36,8 @@ router.post('/embed', authenticateUser, [
   }
 
   try {
-    // Generate embedding using OpenAI API
-    const embedding = await generateEmbedding(content);
+    // Generate embedding with the configured embedding model
+    const { embedding, model } = await generateEmbedding(content);
 
     const newEmbedding: VectorEmbedding = {
       projectId,
@@ -45,7 +45,7 @@ router.post('/embed', authenticateUser, [
       content,
       embedding,
       embeddingType,
-      model: 'text-embedding-ada-002',
+      model,
       createdAt: new Date(),
       metadata: {
         userId: req.user!._id,
@@ -99,10 +99,10 @@ router.post('/search', authenticateUser, [
 
   try {
     // Generate embedding for the search query
-    const queryEmbedding = await generateEmbedding(query);
+    const { embedding: queryEmbedding, model } = await generateEmbedding(query);
 
-    // Build search filter
-    let searchFilter: any = { projectId };
+    // Build search filter; vectors from other embedding models are not comparable
+    let searchFilter: any = { projectId, model };
     
     // Add additional filters
     if (filters.embeddingType) {
@@ -303,33 +303,14 @@ router.get('/stats/:projectId', authenticateUser, asyncHandler(async (req: Authe
   });
 }));
 
-// Helper function to generate embedding using OpenAI API
-async function generateEmbedding(text: string): Promise<number[]> {
+// Helper function to generate an embedding with the configured embedding model
+async function generateEmbedding(text: string): Promise<{ embedding: number[]; model: string }> {
   try {
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    
-    if (!openaiApiKey) {
-      throw new Error('OpenAI API key not configured');
-    }
-
-    const response = await axios.post(
-      'https://api.openai.com/v1/embeddings',
-      {
-        input: text,
-        model: 'text-embedding-ada-002'
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    return response.data.data[0].embedding;
+    const { embeddings, model } = await llmEmbed([text]);
+    return { embedding: embeddings[0], model };
 
   } catch (error) {
-    logger.error('OpenAI embedding error:', error);
+    logger.error('Embedding error:', error);
     throw new Error('Failed to generate embedding');
   }
 }
@@ -21,6 +21,14 @@ import chatRoutes from './routes/chat';
 import vectorRoutes from './routes/vector';
 import knowledgeRoutes from './routes/knowledge';
 import analysisRoutes from './routes/analysis';
+import rateRoutes from './routes/rates';
+import exchangeRateRoutes from './routes/exchangeRates';
+import locationFactorRoutes from './routes/locationFactors';
+import priceIndexRoutes from './routes/priceIndices';
+import materialNormRoutes from './routes/materialNorms';
+import productivityNormRoutes from './routes/productivityNorms';
+import valuationRoutes from './routes/valuations';
+import variationRoutes from './routes/variations';
 
 // Import algorithm management services
 import { algorithmOrchestrator } from './services/algorithmOrchestrator';
@@ -34,7 +42,9 @@ import { algorithmAnalytics } from './services/algorithmAnalytics';
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
 import { logger } from './utils/logger';
-import { connectDatabase } from './config/database';
+import { connectDatabase, getDatabase } from './config/database';
+import { setSocketServer } from './services/realtime';
+import { jobRoom, recoverInterruptedJobs } from './services/analysisJobs';
 import { initializeSwagger, apiTags } from './config/swagger';
 
 // Import enhanced security middleware
@@ -59,6 +69,8 @@ const io = new SocketIOServer(server, {
   }
 });
 
+setSocketServer(io);
+
 const PORT = process.env.PORT || 5050;
 
 // Enhanced security middleware
@@ -180,6 +192,14 @@ app.use('/api/chat', chatRoutes);
 app.use('/api/vector', vectorRoutes);
 app.use('/api/knowledge', knowledgeRoutes);
 app.use('/api/analysis', analysisRoutes);
+app.use('/api/rates', rateRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/location-factors', locationFactorRoutes);
+app.use('/api/price-indices', priceIndexRoutes);
+app.use('/api/material-norms', materialNormRoutes);
+app.use('/api/productivity-norms', productivityNormRoutes);
+app.use('/api/valuations', valuationRoutes);
+app.use('/api/variations', variationRoutes);
 
 // Algorithm management routes
 import algorithmRoutes from './routes/algorithms';
@@ -199,6 +219,15 @@ io.on('connection', (socket) => {
     logger.info(`User ${socket.id} left project ${projectId}`);
   });
 
+  // Job IDs are random UUIDs, so only the user who queued a job knows its room
+  socket.on('join-analysis-job', (jobId: string) => {
+    socket.join(jobRoom(jobId));
+  });
+
+  socket.on('leave-analysis-job', (jobId: string) => {
+    socket.leave(jobRoom(jobId));
+  });
+
   socket.on('disconnect', () => {
     logger.info(`User disconnected: ${socket.id}`);
   });
@@ -215,6 +244,9 @@ async function startServer() {
     await connectDatabase();
     logger.info('✅ Database connected successfully');
 
+    // Jobs cannot outlive the process that ran them
+    await recoverInterruptedJobs(getDatabase());
+
     // Initialize algorithm management system
     await initializeAlgorithmSystem();
     logger.info('✅ Algorithm management system initialized');
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { LLMEmbedRequest, LLMGenerateRequest, LLMProvider, LLMProviderName } from './llmProviders';
+
+/**
+ * AI fixtures
+ * Record/replay for every outbound AI call. Each request is hashed and its
+ * response stored as a fixture file; AI_MODE=record calls the provider and
+ * stores what it returns, AI_MODE=replay serves the stored responses offline and
+ * fails on any request that was never recorded. Calls are live by default
+ */
+
+export type AIMode = 'live' | 'record' | 'replay';
+
+export const AI_MODES: AIMode[] = ['live', 'record', 'replay'];
+
+export type AIFixtureKind = 'generate' | 'embed';
+
+export interface AIFixture {
+  key: string;
+  kind: AIFixtureKind;
+  provider: LLMProviderName;
+  model: string;
+  prompt?: string; // Text of the last message, for reviewing fixture files
+  images?: Array<{ mimeType: string; sha256: string }>; // Hashes of the images sent, not the images
+  texts?: string[];
+  recordedAt: string;
+  response: string | number[][];
+}
+
+const sha256 = (value: string | Buffer): string => crypto.createHash('sha256').update(value).digest('hex');
+
+export const aiMode = (env: NodeJS.ProcessEnv = process.env): AIMode =>
+  AI_MODES.includes(env.AI_MODE as AIMode) ? env.AI_MODE as AIMode : 'live';
+
+export const aiFixturesDir = (env: NodeJS.ProcessEnv = process.env): string =>
+  path.resolve(env.AI_FIXTURES_DIR || 'src/test/fixtures/ai');
+
+// JSON with object keys sorted, so the same request always hashes the same
+const stableStringify = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Hash of everything that shapes the answer; timeouts do not
+ */
+export const fixtureKey = (
+  kind: AIFixtureKind,
+  provider: LLMProviderName,
+  request: LLMGenerateRequest | LLMEmbedRequest
+): string => {
+  const { timeoutMs, ...shape } = request;
+  return sha256(stableStringify({ kind, provider, ...shape }));
+};
+
+export const fixturePath = (dir: string, kind: AIFixtureKind, key: string): string => path.join(dir, `${kind}-${key}.json`);
+
+/**
+ * A reviewable fixture for a request and its response
+ */
+export const buildFixture = (
+  kind: AIFixtureKind,
+  provider: LLMProviderName,
+  request: LLMGenerateRequest | LLMEmbedRequest,
+  response: string | number[][],
+  recordedAt: Date = new Date()
+): AIFixture => {
+  const base = { key: fixtureKey(kind, provider, request), kind, provider, model: request.model };
+
+  if ('texts' in request) {
+    return { ...base, texts: request.texts, recordedAt: recordedAt.toISOString(), response };
+  }
+
+  const parts = request.messages.flatMap(message => message.parts);
+  const last = request.messages[request.messages.length - 1];
+  const images = parts.flatMap(part => ('inlineData' in part
+    ? [{ mimeType: part.inlineData.mimeType, sha256: sha256(Buffer.from(part.inlineData.data, 'base64')) }]
+    : []));
+
+  return {
+    ...base,
+    prompt: last?.parts.map(part => ('text' in part ? part.text.trim() : '')).filter(Boolean).join('\n'),
+    ...(images.length > 0 && { images }),
+    recordedAt: recordedAt.toISOString(),
+    response,
+  };
+};
+
+export const readFixture = (dir: string, kind: AIFixtureKind, key: string): AIFixture | null => {
+  const filePath = fixturePath(dir, kind, key);
+  return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : null;
+};
+
+export const writeFixture = (dir: string, fixture: AIFixture): void => {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(fixturePath(dir, fixture.kind, fixture.key), `${JSON.stringify(fixture, null, 2)}\n`);
+};
+
+/**
+ * Wrap a provider so its calls are recorded or replayed
+ * @param mode live passes calls straight through
+ * @param dir Where fixture files are kept
+ */
+export const withFixtures = (provider: LLMProvider, mode: AIMode, dir: string): LLMProvider => {
+  if (mode === 'live') return provider;
+
+  const call = async <T extends string | number[][]>(
+    kind: AIFixtureKind,
+    request: LLMGenerateRequest | LLMEmbedRequest,
+    live: () => Promise<T>
+  ): Promise<T> => {
+    const key = fixtureKey(kind, provider.name, request);
+
+    if (mode === 'replay') {
+      const fixture = readFixture(dir, kind, key);
+      if (!fixture) {
+        throw new Error(
+          `No recorded AI response for this ${kind} request to ${provider.name}/${request.model} (${key}). Record it with AI_MODE=record`
+        );
+      }
+      return fixture.response as T;
+    }
+
+    const response = await live();
+    writeFixture(dir, buildFixture(kind, provider.name, request, response));
+    logger.info(`Recorded AI fixture ${kind}-${key}`);
+    return response;
+  };
+
+  return {
+    name: provider.name,
+    // Replays need no credentials
+    configured: () => mode === 'replay' || provider.configured(),
+    generate: request => call('generate', request, () => provider.generate(request)),
+    embed: request => call('embed', request, () => provider.embed(request)),
+  };
+};
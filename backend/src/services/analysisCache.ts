@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { Db, ObjectId } from 'mongodb';
+import { AnalysisCacheEntry, AnalysisCacheInfo, AnalysisCacheKey, AnalysisCacheStats, AnalysisResult } from '../types';
+import { FLOOR_PLAN_PROMPT_VERSION } from './geminiService';
+import { modelFor } from './llmProviders';
+
+/**
+ * Analysis cache
+ * Drawings are identified by the SHA-256 of their contents. The AI result for a
+ * drawing is stored once per project type and model/prompt/pipeline version, so an
+ * identical upload reuses it instead of paying for a new, different answer
+ */
+
+export const ANALYSIS_CACHE_COLLECTION = 'analysis_cache';
+
+// Raise when the page splitting, merging or result conversion changes what the AI output becomes
+export const ANALYSIS_PIPELINE_VERSION = 1;
+
+const floorPlanModel = modelFor('floorPlan');
+
+export const CURRENT_ANALYSIS_VERSION = `${floorPlanModel.provider}:${floorPlanModel.model}/prompt-${FLOOR_PLAN_PROMPT_VERSION}/pipeline-${ANALYSIS_PIPELINE_VERSION}`;
+
+/**
+ * SHA-256 of a file on disk, read as a stream so large drawings are not held in memory
+ */
+export const hashFile = (filePath: string): Promise<string> => new Promise((resolve, reject) => {
+  const hash = crypto.createHash('sha256');
+  fs.createReadStream(filePath)
+    .on('data', chunk => hash.update(chunk))
+    .on('end', () => resolve(hash.digest('hex')))
+    .on('error', reject);
+});
+
+export const analysisCacheKey = (
+  fileHash: string,
+  projectType: string,
+  analysisVersion: string = CURRENT_ANALYSIS_VERSION
+): AnalysisCacheKey => ({
+  fileHash,
+  projectType: (projectType || 'residential').trim().toLowerCase(),
+  analysisVersion,
+});
+
+/**
+ * A copy of a cached result for a new upload, named after the new project and file
+ */
+export const reuseCachedAnalysis = (
+  entry: AnalysisCacheEntry,
+  upload: { projectName?: string; fileName: string; fileType: string }
+): AnalysisResult => {
+  const result: AnalysisResult = structuredClone(entry.analysisResult);
+  return {
+    ...result,
+    projectName: upload.projectName || `Analysis - ${new Date().toLocaleDateString()}`,
+    metadata: {
+      ...result.metadata,
+      analysisDate: new Date(),
+      fileName: upload.fileName,
+      fileType: upload.fileType,
+    },
+  };
+};
+
+export const cacheInfo = (key: AnalysisCacheKey, entry: AnalysisCacheEntry | null, reanalyzed = false): AnalysisCacheInfo => ({
+  ...key,
+  hit: Boolean(entry),
+  ...(entry && { cachedAt: entry.createdAt }),
+  ...(reanalyzed && { reanalyzed: true }),
+});
+
+/**
+ * Look up the result for a key, counting the hit
+ */
+export const findCachedAnalysis = async (db: Db, key: AnalysisCacheKey): Promise<AnalysisCacheEntry | null> =>
+  db.collection<AnalysisCacheEntry>(ANALYSIS_CACHE_COLLECTION).findOneAndUpdate(
+    { fileHash: key.fileHash, projectType: key.projectType, analysisVersion: key.analysisVersion },
+    { $inc: { hits: 1 }, $set: { lastHitAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+
+/**
+ * Store the AI result for a key, replacing any earlier result when the drawing was re-analysed
+ */
+export const storeCachedAnalysis = async (db: Db, key: AnalysisCacheKey, analysisResult: AnalysisResult): Promise<void> => {
+  await db.collection<AnalysisCacheEntry>(ANALYSIS_CACHE_COLLECTION).replaceOne(
+    { fileHash: key.fileHash, projectType: key.projectType, analysisVersion: key.analysisVersion },
+    { ...key, analysisResult, hits: 0, createdAt: new Date() },
+    { upsert: true }
+  );
+};
+
+export const buildCacheStats = (
+  entries: { total: number; current: number; lastHitAt?: Date },
+  usage: { lookups: number; hits: number; reanalyzed: number },
+  analysisVersion: string = CURRENT_ANALYSIS_VERSION
+): AnalysisCacheStats => ({
+  analysisVersion,
+  entries: entries.total,
+  staleEntries: entries.total - entries.current,
+  lookups: usage.lookups,
+  hits: usage.hits,
+  misses: usage.lookups - usage.hits,
+  reanalyzed: usage.reanalyzed,
+  hitRate: usage.lookups > 0 ? Math.round((usage.hits / usage.lookups) * 1000) / 1000 : 0,
+  ...(entries.lastHitAt && { lastHitAt: entries.lastHitAt }),
+});
+
+/**
+ * Cache size and how often analyses have been served from it, over all users
+ */
+export const analysisCacheStats = async (db: Db): Promise<AnalysisCacheStats> => {
+  const cache = db.collection<AnalysisCacheEntry>(ANALYSIS_CACHE_COLLECTION);
+  const [total, current, lastHit] = await Promise.all([
+    cache.countDocuments(),
+    cache.countDocuments({ analysisVersion: CURRENT_ANALYSIS_VERSION }),
+    cache.find({ lastHitAt: { $exists: true } }).sort({ lastHitAt: -1 }).limit(1).project<{ lastHitAt: Date }>({ lastHitAt: 1 }).next(),
+  ]);
+
+  const [usage] = await db.collection('analysis_results').aggregate<{ lookups: number; hits: number; reanalyzed: number }>([
+    { $match: { 'metadata.cache': { $exists: true } } },
+    {
+      $group: {
+        _id: null,
+        lookups: { $sum: { $cond: ['$metadata.cache.reanalyzed', 0, 1] } },
+        hits: { $sum: { $cond: ['$metadata.cache.hit', 1, 0] } },
+        reanalyzed: { $sum: { $cond: ['$metadata.cache.reanalyzed', 1, 0] } },
+      },
+    },
+  ]).toArray();
+
+  return buildCacheStats(
+    { total, current, lastHitAt: lastHit?.lastHitAt },
+    usage || { lookups: 0, hits: 0, reanalyzed: 0 }
+  );
+};
+
+/**
+ * The user's other analyses of the same drawing, newest first
+ */
+export const findAnalysesOfFile = async (
+  db: Db,
+  userId: string,
+  fileHash: string,
+  excludeId?: ObjectId
+): Promise<Array<{ analysisId: ObjectId; projectName: string; createdAt: Date }>> => {
+  const analyses = await db.collection('analysis_results')
+    .find({ userId, 'metadata.fileHash': fileHash, ...(excludeId && { _id: { $ne: excludeId } }) })
+    .sort({ createdAt: -1 })
+    .limit(5)
+    .project<{ _id: ObjectId; projectName: string; createdAt: Date }>({ projectName: 1, createdAt: 1 })
+    .toArray();
+
+  return analyses.map(analysis => ({ analysisId: analysis._id, projectName: analysis.projectName, createdAt: analysis.createdAt }));
+};
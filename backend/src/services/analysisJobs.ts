@@ -0,0 +1,350 @@
+import fs from 'fs';
+import { Db } from 'mongodb';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { AnalysisJob, AnalysisJobInput, AnalysisJobProgress, AnalysisJobStage, AnalysisJobStatus } from '../types';
+import { emitToRoom } from './realtime';
+
+/**
+ * Queued floor plan analysis
+ * An uploaded drawing is stored as a job in analysis_jobs and analysed by an
+ * in-process worker queue; each stage reached is saved on the job and pushed
+ * to the job's Socket.IO room so the client can follow it without waiting on
+ * one long request
+ */
+
+export const ANALYSIS_JOBS_COLLECTION = 'analysis_jobs';
+
+export const ANALYSIS_JOB_STAGES: AnalysisJobStage[] = ['uploaded', 'pages_split', 'ai_called', 'parsed', 'reconciled', 'saved'];
+
+export const ANALYSIS_JOB_STATUSES: AnalysisJobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+const ACTIVE_STATUSES: AnalysisJobStatus[] = ['queued', 'running'];
+const RETRYABLE_STATUSES: AnalysisJobStatus[] = ['failed', 'cancelled'];
+
+// Socket.IO event carrying every change to a job
+export const ANALYSIS_JOB_EVENT = 'analysis-job:update';
+
+const DEFAULT_CONCURRENCY = 2;
+
+// Percent complete on reaching each stage; AI calls on a drawing set spread across their range page by page
+const STAGE_PERCENT: Record<AnalysisJobStage, number> = {
+  uploaded: 5,
+  pages_split: 15,
+  ai_called: 25,
+  parsed: 75,
+  reconciled: 90,
+  saved: 100,
+};
+const AI_CALLS_END_PERCENT = 70;
+
+const STAGE_MESSAGES: Record<AnalysisJobStage, string> = {
+  uploaded: 'Drawing uploaded',
+  pages_split: 'Drawing split into sheets',
+  ai_called: 'Analysing the drawing',
+  parsed: 'Bill of quantities read',
+  reconciled: 'Rates and arithmetic checked',
+  saved: 'Analysis saved',
+};
+
+export interface AnalysisJobProgressEvent {
+  stage: AnalysisJobStage;
+  message?: string;
+  pageNumber?: number; // Sheet being analysed, counted from 1
+  pageCount?: number;
+}
+
+export type AnalysisJobReporter = (event: AnalysisJobProgressEvent) => void;
+
+/**
+ * Analyse the drawing of a job, reporting each stage reached
+ * The runner should stop at the next stage once the signal is aborted
+ * @returns The id of the saved analysis
+ */
+export type AnalysisJobRunner = (job: AnalysisJob, report: AnalysisJobReporter, signal: AbortSignal) => Promise<string>;
+
+export interface ListJobsOptions {
+  status?: AnalysisJobStatus;
+  limit?: number;
+}
+
+export const jobRoom = (jobId: string): string => `analysis-job-${jobId}`;
+
+export const stagePercent = (event: AnalysisJobProgressEvent): number => {
+  if (event.stage === 'ai_called' && event.pageNumber && event.pageCount && event.pageCount > 1) {
+    const span = AI_CALLS_END_PERCENT - STAGE_PERCENT.ai_called;
+    return Math.round(STAGE_PERCENT.ai_called + (span * (event.pageNumber - 1)) / event.pageCount);
+  }
+  return STAGE_PERCENT[event.stage];
+};
+
+export const buildProgress = (event: AnalysisJobProgressEvent, at: Date = new Date()): AnalysisJobProgress => ({
+  stage: event.stage,
+  message: event.message || STAGE_MESSAGES[event.stage],
+  percent: stagePercent(event),
+  at,
+});
+
+export const buildAnalysisJob = (userId: string, input: AnalysisJobInput, now: Date = new Date()): AnalysisJob => {
+  const uploaded = buildProgress({ stage: 'uploaded', message: `${input.fileName} uploaded` }, now);
+  return {
+    jobId: uuidv4(),
+    userId,
+    status: 'queued',
+    stage: uploaded.stage,
+    percent: uploaded.percent,
+    message: uploaded.message,
+    input,
+    progress: [uploaded],
+    attempts: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * The job as returned to its owner, without the server path of the drawing
+ */
+export const publicJob = (job: AnalysisJob) => {
+  const { _id, input, ...rest } = job;
+  const { filePath, ...publicInput } = input;
+  return { ...rest, input: publicInput };
+};
+
+const jobUpdate = (job: AnalysisJob) => ({
+  jobId: job.jobId,
+  status: job.status,
+  stage: job.stage,
+  percent: job.percent,
+  message: job.message,
+  attempts: job.attempts,
+  ...(job.analysisId && { analysisId: job.analysisId }),
+  ...(job.error && { error: job.error }),
+  updatedAt: job.updatedAt,
+});
+
+const notify = (job: AnalysisJob): void => {
+  emitToRoom(jobRoom(job.jobId), ANALYSIS_JOB_EVENT, jobUpdate(job));
+};
+
+/**
+ * A first-in, first-out queue running at most `concurrency` tasks at once
+ * Cancelling a waiting task drops it; cancelling a running task aborts its signal.
+ * An aborted task counts as running until it returns, even when a task with the same id is added again
+ */
+export const createJobQueue = (concurrency: number) => {
+  const waiting: Array<{ id: string; task: (signal: AbortSignal) => Promise<void> }> = [];
+  const running = new Set<{ id: string; controller: AbortController }>();
+
+  const drain = (): void => {
+    while (running.size < concurrency && waiting.length > 0) {
+      const { id, task } = waiting.shift()!;
+      const entry = { id, controller: new AbortController() };
+      running.add(entry);
+
+      task(entry.controller.signal)
+        .catch(error => logger.error(`Queued task ${id} failed:`, error))
+        .finally(() => {
+          running.delete(entry);
+          drain();
+        });
+    }
+  };
+
+  return {
+    add(id: string, task: (signal: AbortSignal) => Promise<void>): void {
+      waiting.push({ id, task });
+      drain();
+    },
+    cancel(id: string): boolean {
+      const index = waiting.findIndex(entry => entry.id === id);
+      if (index >= 0) {
+        waiting.splice(index, 1);
+        return true;
+      }
+      const entries = Array.from(running).filter(entry => entry.id === id && !entry.controller.signal.aborted);
+      entries.forEach(entry => entry.controller.abort());
+      return entries.length > 0;
+    },
+    get waiting(): number {
+      return waiting.length;
+    },
+    get running(): number {
+      return running.size;
+    },
+  };
+};
+
+const queue = createJobQueue(Number(process.env.ANALYSIS_JOB_CONCURRENCY) || DEFAULT_CONCURRENCY);
+let runner: AnalysisJobRunner | undefined;
+
+export const setAnalysisJobRunner = (jobRunner: AnalysisJobRunner): void => {
+  runner = jobRunner;
+};
+
+// Every write is scoped to one attempt, so a cancelled run still finishing cannot touch its retry
+const executeJob = async (db: Db, jobId: string, attempts: number, signal: AbortSignal): Promise<void> => {
+  if (!runner) throw new Error('No analysis job runner is registered');
+  const run = runner;
+  const jobs = db.collection<AnalysisJob>(ANALYSIS_JOBS_COLLECTION);
+  const startedAt = new Date();
+
+  // Claim the job; it may have been cancelled while it waited
+  const job = await jobs.findOneAndUpdate(
+    { jobId, attempts, status: 'queued' },
+    { $set: { status: 'running', startedAt, updatedAt: startedAt } },
+    { returnDocument: 'after' }
+  );
+  if (!job) return;
+  notify(job);
+
+  // Progress is written in the order reported without holding up the analysis
+  let writes = Promise.resolve();
+  const report: AnalysisJobReporter = event => {
+    if (signal.aborted) return;
+    const progress = buildProgress(event);
+    Object.assign(job, { stage: progress.stage, percent: progress.percent, message: progress.message, updatedAt: progress.at });
+    job.progress.push(progress);
+    notify(job);
+
+    writes = writes
+      .then(() => jobs.updateOne(
+        { jobId, attempts, status: 'running' },
+        { $set: { stage: progress.stage, percent: progress.percent, message: progress.message, updatedAt: progress.at }, $push: { progress } }
+      ))
+      .then(
+        () => undefined,
+        error => {
+          logger.warn(`Failed to record progress of analysis job ${jobId}:`, error);
+        }
+      );
+  };
+
+  let outcome: Partial<AnalysisJob>;
+  try {
+    const analysisId = await run(job, report, signal);
+    outcome = { status: 'completed', analysisId, percent: 100, message: 'Analysis completed' };
+  } catch (error: any) {
+    // A cancelled job has already been marked as such
+    if (signal.aborted) return;
+    logger.error(`Analysis job ${jobId} failed:`, error);
+    outcome = { status: 'failed', error: error.message || 'Analysis failed', message: 'Analysis failed' };
+  }
+
+  await writes;
+  const finishedAt = new Date();
+  const finished = await jobs.findOneAndUpdate(
+    { jobId, attempts, status: 'running' },
+    { $set: { ...outcome, finishedAt, updatedAt: finishedAt } },
+    { returnDocument: 'after' }
+  );
+  if (finished) notify(finished);
+};
+
+const schedule = (db: Db, jobId: string, attempts: number): void => {
+  queue.add(jobId, signal => executeJob(db, jobId, attempts, signal));
+};
+
+/**
+ * Store a job for an uploaded drawing and queue it
+ */
+export const submitAnalysisJob = async (db: Db, userId: string, input: AnalysisJobInput): Promise<AnalysisJob> => {
+  const job = buildAnalysisJob(userId, input);
+  const result = await db.collection<AnalysisJob>(ANALYSIS_JOBS_COLLECTION).insertOne(job);
+  schedule(db, job.jobId, job.attempts);
+  return { ...job, _id: result.insertedId };
+};
+
+export const getAnalysisJob = async (db: Db, userId: string, jobId: string): Promise<AnalysisJob | null> =>
+  db.collection<AnalysisJob>(ANALYSIS_JOBS_COLLECTION).findOne({ jobId, userId });
+
+/**
+ * The user's jobs, newest first
+ */
+export const listAnalysisJobs = async (db: Db, userId: string, options: ListJobsOptions = {}): Promise<AnalysisJob[]> =>
+  db.collection<AnalysisJob>(ANALYSIS_JOBS_COLLECTION)
+    .find({ userId, ...(options.status && { status: options.status }) })
+    .sort({ createdAt: -1 })
+    .limit(options.limit || 20)
+    .toArray();
+
+/**
+ * Cancel a queued or running job
+ * A running analysis stops at its next stage and nothing it produced is saved
+ * @returns null when the user has no such job
+ */
+export const cancelAnalysisJob = async (db: Db, userId: string, jobId: string): Promise<AnalysisJob | null> => {
+  const jobs = db.collection<AnalysisJob>(ANALYSIS_JOBS_COLLECTION);
+  const existing = await jobs.findOne({ jobId, userId });
+  if (!existing) return null;
+  if (!ACTIVE_STATUSES.includes(existing.status)) {
+    throw new Error(`The job is already ${existing.status}`);
+  }
+
+  const now = new Date();
+  const cancelled = await jobs.findOneAndUpdate(
+    { jobId, userId, status: { $in: ACTIVE_STATUSES } },
+    { $set: { status: 'cancelled', message: 'Analysis cancelled', finishedAt: now, updatedAt: now } },
+    { returnDocument: 'after' }
+  );
+  if (!cancelled) throw new Error('The job finished before it could be cancelled');
+
+  queue.cancel(jobId);
+  notify(cancelled);
+  return cancelled;
+};
+
+/**
+ * Queue a failed or cancelled job again with the drawing it was given
+ * @returns null when the user has no such job
+ */
+export const retryAnalysisJob = async (db: Db, userId: string, jobId: string): Promise<AnalysisJob | null> => {
+  const jobs = db.collection<AnalysisJob>(ANALYSIS_JOBS_COLLECTION);
+  const existing = await jobs.findOne({ jobId, userId });
+  if (!existing) return null;
+  if (!RETRYABLE_STATUSES.includes(existing.status)) {
+    throw new Error(`Only failed or cancelled jobs can be retried; the job is ${existing.status}`);
+  }
+  if (!fs.existsSync(existing.input.filePath)) {
+    throw new Error('The uploaded drawing is no longer available; upload it again');
+  }
+
+  const now = new Date();
+  const uploaded = buildProgress({ stage: 'uploaded', message: `Retrying ${existing.input.fileName}` }, now);
+  const retried = await jobs.findOneAndUpdate(
+    { jobId, userId, status: { $in: RETRYABLE_STATUSES } },
+    {
+      $set: {
+        status: 'queued',
+        stage: uploaded.stage,
+        percent: uploaded.percent,
+        message: uploaded.message,
+        progress: [uploaded],
+        updatedAt: now,
+      },
+      $inc: { attempts: 1 },
+      $unset: { error: '', analysisId: '', startedAt: '', finishedAt: '' },
+    },
+    { returnDocument: 'after' }
+  );
+  if (!retried) throw new Error('The job is already being retried');
+
+  schedule(db, jobId, retried.attempts);
+  notify(retried);
+  return retried;
+};
+
+/**
+ * Fail the jobs a previous server process left queued or running, so they can be retried
+ */
+export const recoverInterruptedJobs = async (db: Db): Promise<number> => {
+  const now = new Date();
+  const result = await db.collection<AnalysisJob>(ANALYSIS_JOBS_COLLECTION).updateMany(
+    { status: { $in: ACTIVE_STATUSES } },
+    { $set: { status: 'failed', error: 'Interrupted by a server restart', message: 'Analysis failed', finishedAt: now, updatedAt: now } }
+  );
+  if (result.modifiedCount > 0) {
+    logger.warn(`Marked ${result.modifiedCount} interrupted analysis job(s) as failed`);
+  }
+  return result.modifiedCount;
+};
@@ -0,0 +1,172 @@
+import { Db, ObjectId, WithId, Document } from 'mongodb';
+import { logger } from '../utils/logger';
+import { AnalysisResult, AnalysisRevision, AnalysisRevisionSummary, RevisionAuthor } from '../types';
+
+/**
+ * Analysis revision history
+ * Every save of an analysis writes an immutable snapshot to analysis_revisions
+ * so earlier versions of a BQ can be listed, inspected and restored
+ */
+
+export const REVISIONS_COLLECTION = 'analysis_revisions';
+
+// Attempts at claiming the next revision number when two saves race
+const MAX_SAVE_ATTEMPTS = 3;
+
+export interface SaveRevisionOptions {
+  note?: string;
+  restoredFrom?: number;
+}
+
+export const revisionAuthor = (user: { _id: string; email?: string; firstName?: string; lastName?: string }): RevisionAuthor => {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return {
+    userId: user._id,
+    email: user.email,
+    ...(name && { name })
+  };
+};
+
+export const buildRevision = (
+  analysisId: ObjectId,
+  revisionNumber: number,
+  analysisResult: AnalysisResult,
+  createdBy: RevisionAuthor,
+  options: SaveRevisionOptions & { createdAt?: Date } = {}
+): AnalysisRevision => {
+  const note = options.note?.trim();
+  return {
+    analysisId,
+    revisionNumber,
+    analysisResult,
+    createdBy,
+    createdAt: options.createdAt || new Date(),
+    ...(note && { note }),
+    ...(options.restoredFrom !== undefined && { restoredFrom: options.restoredFrom })
+  };
+};
+
+export const summarizeRevision = (revision: AnalysisRevision): AnalysisRevisionSummary => ({
+  revisionNumber: revision.revisionNumber,
+  note: revision.note,
+  createdBy: revision.createdBy,
+  createdAt: revision.createdAt,
+  restoredFrom: revision.restoredFrom,
+  itemCount: revision.analysisResult.billOfQuantities?.length || 0,
+  totalEstimatedCostKES: revision.analysisResult.summary?.totalEstimatedCostKES || 0
+});
+
+/**
+ * Record the analysis as first created as revision 1, so the first save
+ * of an analysis made before revisions existed does not lose it
+ */
+const ensureBaselineRevision = async (db: Db, analysis: WithId<Document>): Promise<void> => {
+  const existing = await db.collection(REVISIONS_COLLECTION).countDocuments({ analysisId: analysis._id }, { limit: 1 });
+  if (existing > 0) return;
+
+  const analysisResult = analysis.analysisResult as AnalysisResult;
+  const baseline = buildRevision(
+    analysis._id,
+    1,
+    analysisResult,
+    { userId: analysis.userId },
+    {
+      note: analysisResult.metadata?.source === 'import' ? 'Imported BQ' : 'Original analysis',
+      createdAt: analysis.createdAt
+    }
+  );
+
+  try {
+    await db.collection(REVISIONS_COLLECTION).insertOne(baseline);
+  } catch (error: any) {
+    // A concurrent save already wrote the baseline
+    if (error.code !== 11000) throw error;
+  }
+};
+
+/**
+ * Write a new revision and make it the current analysis
+ * @param analysis - The analysis_results document being saved
+ */
+export const saveRevision = async (
+  db: Db,
+  analysis: WithId<Document>,
+  analysisResult: AnalysisResult,
+  createdBy: RevisionAuthor,
+  options: SaveRevisionOptions = {}
+): Promise<AnalysisRevision> => {
+  await ensureBaselineRevision(db, analysis);
+
+  for (let attempt = 1; ; attempt++) {
+    const latest = await db.collection<AnalysisRevision>(REVISIONS_COLLECTION)
+      .find({ analysisId: analysis._id }, { projection: { revisionNumber: 1 } })
+      .sort({ revisionNumber: -1 })
+      .limit(1)
+      .next();
+
+    const revision = buildRevision(analysis._id, (latest?.revisionNumber || 0) + 1, analysisResult, createdBy, options);
+
+    try {
+      await db.collection(REVISIONS_COLLECTION).insertOne(revision);
+    } catch (error: any) {
+      if (error.code === 11000 && attempt < MAX_SAVE_ATTEMPTS) continue;
+      throw error;
+    }
+
+    await db.collection('analysis_results').updateOne(
+      { _id: analysis._id },
+      { $set: { analysisResult, currentRevision: revision.revisionNumber, updatedAt: revision.createdAt } }
+    );
+
+    logger.info(`Saved revision ${revision.revisionNumber} of analysis ${analysis._id}`);
+    return revision;
+  }
+};
+
+/**
+ * List revisions newest first, without their BQ snapshots
+ */
+export const listRevisions = async (db: Db, analysisId: ObjectId): Promise<AnalysisRevisionSummary[]> => {
+  return db.collection(REVISIONS_COLLECTION)
+    .aggregate<AnalysisRevisionSummary>([
+      { $match: { analysisId } },
+      { $sort: { revisionNumber: -1 } },
+      {
+        $project: {
+          _id: 0,
+          revisionNumber: 1,
+          note: 1,
+          createdBy: 1,
+          createdAt: 1,
+          restoredFrom: 1,
+          itemCount: { $size: { $ifNull: ['$analysisResult.billOfQuantities', []] } },
+          totalEstimatedCostKES: { $ifNull: ['$analysisResult.summary.totalEstimatedCostKES', 0] }
+        }
+      }
+    ])
+    .toArray();
+};
+
+export const getRevision = async (db: Db, analysisId: ObjectId, revisionNumber: number): Promise<AnalysisRevision | null> => {
+  return db.collection<AnalysisRevision>(REVISIONS_COLLECTION).findOne({ analysisId, revisionNumber });
+};
+
+/**
+ * Restore an earlier revision by saving a copy of it as the newest revision,
+ * so the history itself is never rewritten
+ */
+export const restoreRevision = async (
+  db: Db,
+  analysis: WithId<Document>,
+  revisionNumber: number,
+  createdBy: RevisionAuthor,
+  note?: string
+): Promise<AnalysisRevision | null> => {
+  const revision = await getRevision(db, analysis._id, revisionNumber);
+  if (!revision) return null;
+
+  return saveRevision(db, analysis, revision.analysisResult, createdBy, {
+    note: note || `Restored revision ${revisionNumber}`,
+    restoredFrom: revisionNumber
+  });
+};
@@ -0,0 +1,370 @@
+import { BQClassification, BQGrouping, BQItem, ClassificationSource, ClassificationSummary } from '../types';
+import { classifyBQItems } from './geminiService';
+import { isLLMConfigured } from './llmProviders';
+import { logger } from '../utils/logger';
+
+/**
+ * Standard measurement classification for BQ items
+ * Assigns every item an SMM7 work section and an NRM1 element from keyword rules,
+ * asks the model only about items the rules cannot place, and regroups a BQ
+ * into trade bills (work sections) or an elemental breakdown
+ */
+
+export const UNCLASSIFIED_CODE = '99';
+const UNCLASSIFIED_NAME = 'Unclassified';
+const UNCATEGORISED = 'General';
+
+const RULE_CONFIDENCE = 0.9;
+const DEFAULT_AI_CONFIDENCE = 0.7;
+
+// SMM7 work section groups used for trade bills
+export const WORK_SECTION_GROUPS: Record<string, string> = {
+  A: 'Preliminaries/General conditions',
+  C: 'Demolition/Alteration/Renovation',
+  D: 'Groundwork',
+  E: 'In situ concrete/Large precast concrete',
+  F: 'Masonry',
+  G: 'Structural/Carcassing metal/timber',
+  H: 'Cladding/Covering',
+  J: 'Waterproofing',
+  K: 'Linings/Sheathing/Dry partitioning',
+  L: 'Windows/Doors/Stairs',
+  M: 'Surface finishes',
+  N: 'Furniture/Equipment',
+  P: 'Building fabric sundries',
+  Q: 'Paving/Planting/Fencing/Site furniture',
+  R: 'Disposal systems',
+  S: 'Piped supply systems',
+  V: 'Electrical supply/power/lighting systems',
+  W: 'Communications/Security/Safety/Control systems',
+};
+
+// SMM7 work sections assigned to items
+export const WORK_SECTIONS: Record<string, string> = {
+  A: 'Preliminaries/General conditions',
+  C: 'Demolition/Alteration/Renovation',
+  D20: 'Excavating and filling',
+  E10: 'Mixing/Casting/Curing in situ concrete',
+  E20: 'Formwork for in situ concrete',
+  E30: 'Reinforcement for in situ concrete',
+  F10: 'Brick/Block walling',
+  G10: 'Structural steel framing',
+  G20: 'Carpentry/Timber framing/First fixing',
+  H31: 'Metal profiled/flat sheet cladding/covering',
+  H60: 'Plain roof tiling',
+  J40: 'Flexible sheet waterproofing/damp proofing',
+  K10: 'Plasterboard dry linings/partitions/ceilings',
+  L10: 'Windows/Rooflights/Screens/Louvres',
+  L20: 'Doors/Shutters/Hatches',
+  L30: 'Stairs/Ladders/Walkways/Handrails/Balustrades',
+  M10: 'Cement:sand/Concrete screeds/toppings',
+  M20: 'Plastered/Rendered/Roughcast coatings',
+  M40: 'Stone/Concrete/Quarry/Ceramic tiling/Mosaic',
+  M50: 'Rubber/Plastics/Cork/Lino/Carpet tiling/sheeting',
+  M60: 'Painting/Clear finishing',
+  N10: 'General fixtures/furnishings/equipment',
+  N13: 'Sanitary appliances/fittings',
+  P20: 'Unframed isolated trims/skirtings/sundry items',
+  P21: 'Door/window ironmongery',
+  Q25: 'Slab/Brick/Sett/Cobble pavings',
+  Q30: 'Seeding/Turfing',
+  Q40: 'Fencing',
+  R10: 'Rainwater drainage systems',
+  R11: 'Foul drainage above ground',
+  R12: 'Drainage below ground',
+  S12: 'Hot and cold water (small scale)',
+  V21: 'General lighting',
+  V22: 'General LV power',
+  W20: 'Communications/Security systems',
+  W50: 'Fire detection and alarm',
+  W52: 'Lightning protection',
+};
+
+// NRM1 elements
+export const NRM1_ELEMENTS: Record<string, string> = {
+  '0.2': 'Major demolition works',
+  '1.1': 'Substructure',
+  '2.1': 'Frame',
+  '2.2': 'Upper floors',
+  '2.3': 'Roof',
+  '2.4': 'Stairs and ramps',
+  '2.5': 'External walls',
+  '2.6': 'Windows and external doors',
+  '2.7': 'Internal walls and partitions',
+  '2.8': 'Internal doors',
+  '3.1': 'Wall finishes',
+  '3.2': 'Floor finishes',
+  '3.3': 'Ceiling finishes',
+  '4.1': 'Fittings, furnishings and equipment',
+  '5.1': 'Sanitary installations',
+  '5.3': 'Disposal installations',
+  '5.4': 'Water installations',
+  '5.8': 'Electrical installations',
+  '5.11': 'Fire and lightning protection',
+  '5.12': 'Communication, security and control systems',
+  '8.1': 'Site preparation works',
+  '8.2': 'Roads, paths, pavings and surfacings',
+  '8.3': 'Soft landscaping, planting and irrigation systems',
+  '8.4': 'Fencing, railings and walls',
+  '8.6': 'External drainage',
+  '9': "Main contractor's preliminaries",
+};
+
+type ClassificationRule = [RegExp, string];
+
+// Work section rules look at materials and trades; the first match wins
+const WORK_SECTION_RULES: ClassificationRule[] = [
+  [/\b(prelim\w*|insurance|site establishment|hoarding|mobili[sz]ation|supervision|watchman)\b/, 'A'],
+  [/\b(demoli\w*|break(ing)? out|strip(ping)? out|remove existing)\b/, 'C'],
+  [/\b(kerbs?|paving|cabro|driveway|road)\b/, 'Q25'],
+  [/\b(fence|fencing|gates?|chain ?link)\b/, 'Q40'],
+  [/\b(grass\w*|planting|landscap\w*|lawn|turf\w*)\b/, 'Q30'],
+  [/\b(excavat\w*|trench\w*|backfill\w*|filling|hardcore|top ?soil|cart away|site clearance|anti-?termite)\b/, 'D20'],
+  [/\b(formwork|shuttering)\b/, 'E20'],
+  [/\b(reinforcement|rebar|steel bars?|brc|fabric mesh|high yield|mild steel bars?|y\d{1,2})\b/, 'E30'],
+  [/\bscreeds?\b/, 'M10'],
+  [/\b(roof(ing)? tiles?|clay tiles?|concrete roof tiles?|decra)\b/, 'H60'],
+  [/\b(plasterboard|gypsum|dry ?wall|suspended ceilings?|ceiling boards?|partitions?)\b/, 'K10'],
+  [/\b(plaster\w*|render\w*|skim\w*)\b/, 'M20'],
+  [/\b(tiles?|tiling|terrazzo|granito|mosaic)\b/, 'M40'],
+  [/\b(vinyl|carpet\w*|lino\w*)\b/, 'M50'],
+  [/\b(paint\w*|emulsion|varnish\w*|gloss|undercoat)\b/, 'M60'],
+  [/\b(dpm|dpc|damp proof\w*|waterproof\w*|tanking|bituminous felt)\b/, 'J40'],
+  [/\b(concrete|blinding|lintels?|columns?|beams?|slabs?)\b/, 'E10'],
+  [/\b(structural steel|steel (columns?|beams?|trusses)|rhs|chs|i-?beams?)\b/, 'G10'],
+  [/\b(trusses|truss|rafters?|purlins?|wall ?plates?|timber|carpentry|fascia|noggins?|battens?)\b/, 'G20'],
+  [/\b(iron sheets?|roofing sheets?|mabati|corrugated|box profile|gauge sheets?)\b/, 'H31'],
+  [/\b(gutters?|guttering|downpipes?|rainwater)\b/, 'R10'],
+  [/\b(manholes?|inspection chambers?|septic|soak ?pits?|sewer|underground drain\w*)\b/, 'R12'],
+  [/\b(waste pipes?|soil (and vent )?pipes?|svp|floor traps?|gull(y|ies))\b/, 'R11'],
+  [/\b(wc|water closets?|basins?|sinks?|showers?|baths?|bathtubs?|urinals?|sanitary)\b/, 'N13'],
+  [/\b(water (tanks?|supply|pipes?)|cold water|hot water|ppr|gi pipes?|water heaters?|plumbing)\b/, 'S12'],
+  [/\b(ironmongery|locks?|hinges?|handles?)\b/, 'P21'],
+  [/\b(windows?|louvres?|glazing|rooflights?|burglar proof\w*)\b/, 'L10'],
+  [/\bdoors?\b/, 'L20'],
+  [/\b(stairs?|staircase|balustrades?|handrails?)\b/, 'L30'],
+  [/\b(skirtings?|architraves?|trims?)\b/, 'P20'],
+  [/\b(kitchen|wardrobes?|cupboards?|shelv\w*|worktops?|counters?)\b/, 'N10'],
+  [/\b(fire alarm|smoke detectors?|fire detection)\b/, 'W50'],
+  [/\blightning\b/, 'W52'],
+  [/\b(cctv|intercom|access control|data points?|telephone)\b/, 'W20'],
+  [/\b(lighting|light points?|luminaires?|lamps?|light fittings?)\b/, 'V21'],
+  [/\b(electric\w*|wiring|conduits?|sockets?|switch\w*|distribution boards?|consumer units?|cables?|power points?)\b/, 'V22'],
+  [/\b(walling|walls?|blocks?|bricks?|stones?|masonry)\b/, 'F10'],
+];
+
+// Element rules look at where in the building the work is; the first match wins
+const ELEMENT_RULES: ClassificationRule[] = [
+  [/\b(prelim\w*|insurance|site establishment|hoarding|mobili[sz]ation|supervision|watchman)\b/, '9'],
+  [/\b(demoli\w*|break(ing)? out|strip(ping)? out|remove existing)\b/, '0.2'],
+  [/\b(site clearance|clear(ing)? site|vegetation)\b/, '8.1'],
+  [/\b(manholes?|inspection chambers?|septic|soak ?pits?|sewer|underground drain\w*)\b/, '8.6'],
+  [/\b(kerbs?|paving|cabro|driveway|road|parking|walkway)\b/, '8.2'],
+  [/\b(fence|fencing|gates?|boundary wall|perimeter wall|chain ?link)\b/, '8.4'],
+  [/\b(grass\w*|planting|landscap\w*|lawn|turf\w*)\b/, '8.3'],
+  [/\b(foundations?|footings?|substructure|oversite|over site|hardcore|blinding|ground floor slab|ground beams?|raft|dpm|anti-?termite|excavat\w*|trench\w*|backfill\w*|plinth|top ?soil)\b/, '1.1'],
+  [/\b(roof\w*|trusses|truss|rafters?|purlins?|wall ?plates?|fascia|gutters?|guttering|ridge|eaves|iron sheets?|mabati|downpipes?|rainwater)\b/, '2.3'],
+  [/\b(ceilings?|soffits?|cornices?)\b/, '3.3'],
+  [/\b(screeds?|terrazzo|granito|skirtings?|vinyl|carpet\w*|parquet)\b|\bfloors?\b.*\b(tiles?|tiling|finish\w*)\b|\b(tiles?|tiling)\b.*\bfloors?\b/, '3.2'],
+  [/\b(plaster\w*|render\w*|skim\w*|paint\w*|emulsion|tiles?|tiling)\b/, '3.1'],
+  [/\b(stairs?|staircase|ramps?|balustrades?|handrails?)\b/, '2.4'],
+  [/\b(columns?|beams?|lintels?|(concrete|steel|structural) frame)\b/, '2.1'],
+  [/\b(suspended slab|upper floors?|first floor|slabs?)\b/, '2.2'],
+  [/\b(windows?|external doors?|glazing|louvres?|burglar proof\w*)\b/, '2.6'],
+  [/\bdoors?\b/, '2.8'],
+  [/\b(wc|water closets?|basins?|sinks?|showers?|bath\w*|urinals?|sanitary)\b/, '5.1'],
+  [/\b(waste pipes?|soil (and vent )?pipes?|svp|floor traps?|gull(y|ies))\b/, '5.3'],
+  [/\b(water (tanks?|supply|pipes?)|cold water|hot water|ppr|gi pipes?|water heaters?|plumbing)\b/, '5.4'],
+  [/\b(fire alarm|smoke detectors?|fire detection|fire extinguishers?|lightning)\b/, '5.11'],
+  [/\b(cctv|intercom|access control|data points?|telephone)\b/, '5.12'],
+  [/\b(electric\w*|wiring|conduits?|sockets?|switch\w*|lighting|light points?|luminaires?|distribution boards?|consumer units?|cables?|power points?)\b/, '5.8'],
+  [/\b(kitchen|wardrobes?|cupboards?|shelv\w*|worktops?|counters?|fittings)\b/, '4.1'],
+  [/\b(partitions?|internal walls?)\b/, '2.7'],
+  [/\b(walling|walls?|blocks?|bricks?|stones?|masonry)\b/, '2.5'],
+];
+
+const matchRule = (text: string, rules: ClassificationRule[]): string | undefined =>
+  rules.find(([pattern]) => pattern.test(text))?.[1];
+
+/**
+ * Classify an item from its description, falling back to its free-text category
+ * @returns The matched work section and element codes, either of which may be missing
+ */
+export const classifyItemByRules = (item: Pick<BQItem, 'description' | 'category'>): { workSection?: string; element?: string } => {
+  const description = item.description.toLowerCase();
+  const category = (item.category || '').toLowerCase();
+
+  return {
+    workSection: matchRule(description, WORK_SECTION_RULES) || matchRule(category, WORK_SECTION_RULES),
+    element: matchRule(description, ELEMENT_RULES) || matchRule(category, ELEMENT_RULES),
+  };
+};
+
+/**
+ * Build a classification record from codes, marking unknown codes as unclassified
+ */
+export const buildClassification = (
+  workSectionCode: string | undefined,
+  elementCode: string | undefined,
+  source: ClassificationSource,
+  confidence: number
+): BQClassification => {
+  const workSectionKnown = !!workSectionCode && workSectionCode in WORK_SECTIONS;
+  const elementKnown = !!elementCode && elementCode in NRM1_ELEMENTS;
+
+  return {
+    workSectionCode: workSectionKnown ? workSectionCode! : UNCLASSIFIED_CODE,
+    workSectionName: workSectionKnown ? WORK_SECTIONS[workSectionCode!] : UNCLASSIFIED_NAME,
+    elementCode: elementKnown ? elementCode! : UNCLASSIFIED_CODE,
+    elementName: elementKnown ? NRM1_ELEMENTS[elementCode!] : UNCLASSIFIED_NAME,
+    source: workSectionKnown || elementKnown ? source : 'unclassified',
+    confidence: workSectionKnown || elementKnown ? confidence : 0,
+  };
+};
+
+/**
+ * Ask the model to place the items the rules could not
+ * @returns Map of item index to the codes the model returned
+ */
+const classifyWithAI = async (
+  items: BQItem[],
+  indexes: number[]
+): Promise<Map<number, { workSection?: string; element?: string; confidence?: number }>> => {
+  const results = new Map<number, { workSection?: string; element?: string; confidence?: number }>();
+
+  const responseString = await classifyBQItems(
+    indexes.map(index => ({
+      index,
+      description: items[index].description,
+      unit: items[index].unit,
+      category: items[index].category,
+    })),
+    WORK_SECTIONS,
+    NRM1_ELEMENTS
+  );
+
+  const response = JSON.parse(responseString);
+  if (response.error) {
+    throw new Error(response.error.message || 'AI classification failed');
+  }
+
+  for (const entry of response.classifications || []) {
+    if (typeof entry?.index === 'number' && indexes.includes(entry.index)) {
+      results.set(entry.index, {
+        workSection: typeof entry.workSection === 'string' ? entry.workSection.toUpperCase() : undefined,
+        element: typeof entry.element === 'string' ? entry.element : undefined,
+        confidence: Number(entry.confidence) || undefined,
+      });
+    }
+  }
+
+  return results;
+};
+
+/**
+ * Classify every item of a BQ
+ * Manual classifications are kept; the model is only consulted for items the rules
+ * leave partly unplaced, and only when an API key is configured
+ * @param items The BQ items to classify
+ * @param options Set useAI to false to classify with rules only
+ * @returns Promise with the classified items and a summary of how they were classified
+ */
+export const classifyBillOfQuantities = async (
+  items: BQItem[],
+  options: { useAI?: boolean } = {}
+): Promise<{ items: BQItem[]; summary: ClassificationSummary }> => {
+  const useAI = (options.useAI ?? true) && isLLMConfigured('bqClassification');
+  const ruleMatches = items.map(item => classifyItemByRules(item));
+
+  const unresolved = items
+    .map((item, index) => index)
+    .filter(index => items[index].classification?.source !== 'manual'
+      && (!ruleMatches[index].workSection || !ruleMatches[index].element));
+
+  let aiMatches = new Map<number, { workSection?: string; element?: string; confidence?: number }>();
+  if (useAI && unresolved.length > 0) {
+    try {
+      aiMatches = await classifyWithAI(items, unresolved);
+    } catch (error: any) {
+      logger.warn('AI classification fallback failed, keeping rule results:', error);
+    }
+  }
+
+  const classified = items.map((item, index) => {
+    if (item.classification?.source === 'manual') return item;
+
+    const rules = ruleMatches[index];
+    const ai = aiMatches.get(index);
+    const workSection = rules.workSection || ai?.workSection;
+    const element = rules.element || ai?.element;
+    const usedAI = !!ai && (!rules.workSection || !rules.element);
+
+    return {
+      ...item,
+      classification: buildClassification(
+        workSection,
+        element,
+        usedAI ? 'ai' : 'rule',
+        usedAI ? Math.min(ai?.confidence ?? DEFAULT_AI_CONFIDENCE, RULE_CONFIDENCE) : RULE_CONFIDENCE
+      ),
+    };
+  });
+
+  const count = (source: ClassificationSource) => classified.filter(item => item.classification?.source === source).length;
+
+  return {
+    items: classified,
+    summary: {
+      byRule: count('rule'),
+      byAI: count('ai'),
+      manual: count('manual'),
+      unclassified: count('unclassified'),
+      classifiedAt: new Date(),
+    },
+  };
+};
+
+/**
+ * The trade bill or NRM1 element group a BQ item belongs to
+ */
+export const groupFor = (item: BQItem, by: BQGrouping): { code?: string; label: string } => {
+  const classification = item.classification;
+
+  if (by === 'element') {
+    if (!classification || classification.elementCode === UNCLASSIFIED_CODE) return { label: UNCLASSIFIED_NAME };
+    return { code: classification.elementCode, label: `${classification.elementCode} ${classification.elementName}` };
+  }
+
+  // Trade bills use the work section group; items never classified keep their free-text category
+  if (!classification || classification.workSectionCode === UNCLASSIFIED_CODE) {
+    return { label: item.category?.trim() || UNCATEGORISED };
+  }
+  const group = classification.workSectionCode.charAt(0);
+  return { code: group, label: `${group} ${WORK_SECTION_GROUPS[group] || classification.workSectionName}` };
+};
+
+const compareCodes = (a: string, b: string): number => a.localeCompare(b, 'en', { numeric: true });
+
+/**
+ * Group BQ items into trade bills or NRM1 elements
+ * Classified groups are ordered by code; other groups follow in the order they first appear
+ * @param items The BQ items
+ * @param by 'trade' for SMM7 work section groups, 'element' for NRM1 elements
+ * @returns Map of group label to items
+ */
+export const groupBillOfQuantities = (items: BQItem[], by: BQGrouping = 'trade'): Map<string, BQItem[]> => {
+  const groups = new Map<string, { code?: string; items: BQItem[] }>();
+
+  for (const item of items) {
+    const { code, label } = groupFor(item, by);
+    if (!groups.has(label)) groups.set(label, { code, items: [] });
+    groups.get(label)!.items.push(item);
+  }
+
+  const entries = Array.from(groups.entries());
+  const coded = entries.filter(([, group]) => group.code !== undefined)
+    .sort(([, a], [, b]) => compareCodes(a.code!, b.code!));
+  const uncoded = entries.filter(([, group]) => group.code === undefined);
+
+  return new Map([...coded, ...uncoded].map(([label, group]) => [label, group.items]));
+};
@@ -0,0 +1,250 @@
+import {
+  BQCategoryDelta,
+  BQChangeType,
+  BQComparedField,
+  BQComparison,
+  BQComparisonLine,
+  BQComparisonSide,
+  BQItem,
+  CurrencyCode
+} from '../types';
+import { groupBillOfQuantities, groupFor } from './bqClassification';
+import { descriptionSimilarity, normalizeUnit } from './rateLibrary';
+import { formatMoney, DEFAULT_CURRENCY } from './currency';
+
+/**
+ * Line-by-line BQ comparison
+ * Matches the items of a base and a revised BQ (e.g. before and after revised
+ * drawings) and reports what was added, removed or re-measured and re-priced
+ */
+
+// Minimum combined score for two items to be treated as the same line
+export const MIN_COMPARISON_SCORE = 0.6;
+
+// Descriptions must share at least this much, whatever the item numbers say
+export const MIN_DESCRIPTION_SIMILARITY = 0.3;
+
+// Score added when two items share an item number or a trade
+const ITEM_NUMBER_BONUS = 0.25;
+const CATEGORY_BONUS = 0.15;
+
+const QUANTITY_TOLERANCE = 0.0005;
+const RATE_TOLERANCE_KES = 0.005;
+
+export interface ComparisonSideInfo {
+  label: string;
+  analysisId?: string;
+  revisionNumber?: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const sumCost = (items: BQItem[]): number => round2(items.reduce((sum, item) => sum + (item.totalCostKES || 0), 0));
+
+const tradeOf = (item: BQItem): string => groupFor(item, 'trade').label;
+
+/**
+ * Score how likely two BQ items are the same line, or 0 if they are not
+ */
+export const matchScore = (base: BQItem, revised: BQItem): number => {
+  const similarity = descriptionSimilarity(base.description, revised.description);
+  if (similarity < MIN_DESCRIPTION_SIMILARITY) return 0;
+
+  const sameNumber = !!base.itemNumber && base.itemNumber === revised.itemNumber;
+  const sameCategory = tradeOf(base) === tradeOf(revised);
+  const score = similarity + (sameNumber ? ITEM_NUMBER_BONUS : 0) + (sameCategory ? CATEGORY_BONUS : 0);
+
+  return score >= MIN_COMPARISON_SCORE ? score : 0;
+};
+
+/**
+ * Pair base and revised items, best matches first, each item used at most once
+ * @returns Map of revised index to base index and score
+ */
+const matchItems = (base: BQItem[], revised: BQItem[]): Map<number, { baseIndex: number; score: number }> => {
+  const candidates: Array<{ baseIndex: number; revisedIndex: number; score: number }> = [];
+
+  revised.forEach((revisedItem, revisedIndex) => {
+    base.forEach((baseItem, baseIndex) => {
+      const score = matchScore(baseItem, revisedItem);
+      if (score > 0) candidates.push({ baseIndex, revisedIndex, score });
+    });
+  });
+
+  // Ties go to the pair closest in BQ order
+  candidates.sort((a, b) =>
+    b.score - a.score || Math.abs(a.baseIndex - a.revisedIndex) - Math.abs(b.baseIndex - b.revisedIndex)
+  );
+
+  const matches = new Map<number, { baseIndex: number; score: number }>();
+  const usedBase = new Set<number>();
+  for (const candidate of candidates) {
+    if (matches.has(candidate.revisedIndex) || usedBase.has(candidate.baseIndex)) continue;
+    matches.set(candidate.revisedIndex, { baseIndex: candidate.baseIndex, score: candidate.score });
+    usedBase.add(candidate.baseIndex);
+  }
+
+  return matches;
+};
+
+const changedFields = (base: BQItem, revised: BQItem): BQComparedField[] => {
+  const fields: BQComparedField[] = [];
+  if (base.description.trim() !== revised.description.trim()) fields.push('description');
+  if (normalizeUnit(base.unit) !== normalizeUnit(revised.unit)) fields.push('unit');
+  if (Math.abs(base.quantity - revised.quantity) > QUANTITY_TOLERANCE) fields.push('quantity');
+  if (Math.abs(base.unitRateKES - revised.unitRateKES) > RATE_TOLERANCE_KES) fields.push('unitRateKES');
+  if (Math.abs((base.wastageFactor || 0) - (revised.wastageFactor || 0)) > QUANTITY_TOLERANCE) fields.push('wastageFactor');
+  // A total can also change on its own, e.g. an AI total later reconciled
+  const repriced = fields.some(field => field === 'quantity' || field === 'unitRateKES' || field === 'wastageFactor');
+  if (!repriced && Math.abs((base.totalCostKES || 0) - (revised.totalCostKES || 0)) > RATE_TOLERANCE_KES) fields.push('totalCostKES');
+  return fields;
+};
+
+const buildLine = (base: BQItem | undefined, revised: BQItem | undefined, score?: number): BQComparisonLine => {
+  const fields = base && revised ? changedFields(base, revised) : [];
+  const change: BQChangeType = !base ? 'added' : !revised ? 'removed' : fields.length > 0 ? 'changed' : 'unchanged';
+
+  return {
+    change,
+    category: tradeOf((revised || base)!),
+    ...(base && { base }),
+    ...(revised && { revised }),
+    ...(score !== undefined && { matchScore: round2(score) }),
+    changedFields: fields,
+    quantityDelta: base && revised ? Math.round((revised.quantity - base.quantity) * 1000) / 1000 : 0,
+    rateDelta: base && revised ? round2(revised.unitRateKES - base.unitRateKES) : 0,
+    costDelta: round2((revised?.totalCostKES || 0) - (base?.totalCostKES || 0))
+  };
+};
+
+const categoryDeltas = (base: BQItem[], revised: BQItem[]): BQCategoryDelta[] => {
+  const baseGroups = groupBillOfQuantities(base, 'trade');
+  const revisedGroups = groupBillOfQuantities(revised, 'trade');
+  const categories = Array.from(new Set([...revisedGroups.keys(), ...baseGroups.keys()]));
+
+  return categories.map(category => {
+    const baseTotalKES = sumCost(baseGroups.get(category) || []);
+    const revisedTotalKES = sumCost(revisedGroups.get(category) || []);
+    return { category, baseTotalKES, revisedTotalKES, deltaKES: round2(revisedTotalKES - baseTotalKES) };
+  });
+};
+
+const describeSide = (info: ComparisonSideInfo, items: BQItem[]): BQComparisonSide => ({
+  ...info,
+  itemCount: items.length,
+  totalKES: sumCost(items)
+});
+
+/**
+ * Compare two bills of quantities line by line
+ * Revised lines keep their order; removed base lines follow at the end
+ * @param currency Currency both BQs are priced in
+ */
+export const compareBillOfQuantities = (
+  base: BQItem[],
+  revised: BQItem[],
+  sides: { base: ComparisonSideInfo; revised: ComparisonSideInfo } = { base: { label: 'Base' }, revised: { label: 'Revised' } },
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): BQComparison => {
+  const matches = matchItems(base, revised);
+  const matchedBase = new Set(Array.from(matches.values()).map(match => match.baseIndex));
+
+  const lines = [
+    ...revised.map((item, index) => {
+      const match = matches.get(index);
+      return match ? buildLine(base[match.baseIndex], item, match.score) : buildLine(undefined, item);
+    }),
+    ...base.filter((_, index) => !matchedBase.has(index)).map(item => buildLine(item, undefined))
+  ];
+
+  const counts: Record<BQChangeType, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  lines.forEach(line => counts[line.change]++);
+
+  const baseTotalKES = sumCost(base);
+  const revisedTotalKES = sumCost(revised);
+  const deltaKES = round2(revisedTotalKES - baseTotalKES);
+
+  return {
+    currency,
+    base: describeSide(sides.base, base),
+    revised: describeSide(sides.revised, revised),
+    lines,
+    categories: categoryDeltas(base, revised),
+    totals: {
+      baseTotalKES,
+      revisedTotalKES,
+      deltaKES,
+      deltaPercent: baseTotalKES !== 0 ? round2((deltaKES / baseTotalKES) * 100) : null
+    },
+    counts,
+    comparedAt: new Date()
+  };
+};
+
+const formatQuantity = (quantity: number): string => quantity.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+const escapeCell = (text: string): string => (text || '').replace(/\|/g, '/').replace(/\s+/g, ' ').trim();
+
+const FIELD_LABELS: Record<BQComparedField, string> = {
+  description: 'description',
+  unit: 'unit',
+  quantity: 'quantity',
+  unitRateKES: 'rate',
+  wastageFactor: 'wastage',
+  totalCostKES: 'total'
+};
+
+/**
+ * Format a comparison as a markdown change report
+ */
+export const formatComparisonMarkdown = (comparison: BQComparison, projectName?: string): string => {
+  const { base, revised, totals, counts } = comparison;
+  const currency = comparison.currency || DEFAULT_CURRENCY;
+  const formatAmount = (amount: number): string => formatMoney(amount, currency, false);
+  const formatDelta = (amount: number): string => `${amount > 0 ? '+' : ''}${formatAmount(amount)}`;
+
+  const sections: string[] = [
+    `# BQ Change Report${projectName ? ` — ${projectName}` : ''}`,
+    '',
+    `**Base:** ${base.label} (${base.itemCount} items, ${currency} ${formatAmount(base.totalKES)})`,
+    `**Revised:** ${revised.label} (${revised.itemCount} items, ${currency} ${formatAmount(revised.totalKES)})`,
+    `**Net change:** ${currency} ${formatDelta(totals.deltaKES)}${totals.deltaPercent !== null ? ` (${totals.deltaPercent > 0 ? '+' : ''}${totals.deltaPercent}%)` : ''}`,
+    '',
+    `${counts.added} items added, ${counts.removed} removed, ${counts.changed} changed and ${counts.unchanged} unchanged.`,
+    '',
+    '## Cost Change by Trade',
+    '',
+    `| Trade | Base (${currency}) | Revised (${currency}) | Change (${currency}) |`,
+    '|---|---|---|---|',
+    ...comparison.categories.map(category =>
+      `| ${escapeCell(category.category)} | ${formatAmount(category.baseTotalKES)} | ${formatAmount(category.revisedTotalKES)} | ${formatDelta(category.deltaKES)} |`
+    ),
+    `| **Total** | **${formatAmount(totals.baseTotalKES)}** | **${formatAmount(totals.revisedTotalKES)}** | **${formatDelta(totals.deltaKES)}** |`
+  ];
+
+  const added = comparison.lines.filter(line => line.change === 'added');
+  if (added.length > 0) {
+    sections.push('', '## Added Items', '', `| Item | Description | Qty | Unit | Rate (${currency}) | Amount (${currency}) |`, '|---|---|---|---|---|---|');
+    added.forEach(({ revised: item }) => sections.push(
+      `| ${escapeCell(item!.itemNumber)} | ${escapeCell(item!.description)} | ${formatQuantity(item!.quantity)} | ${escapeCell(item!.unit)} | ${formatAmount(item!.unitRateKES)} | ${formatAmount(item!.totalCostKES)} |`
+    ));
+  }
+
+  const removed = comparison.lines.filter(line => line.change === 'removed');
+  if (removed.length > 0) {
+    sections.push('', '## Omitted Items', '', `| Item | Description | Qty | Unit | Rate (${currency}) | Amount (${currency}) |`, '|---|---|---|---|---|---|');
+    removed.forEach(({ base: item }) => sections.push(
+      `| ${escapeCell(item!.itemNumber)} | ${escapeCell(item!.description)} | ${formatQuantity(item!.quantity)} | ${escapeCell(item!.unit)} | ${formatAmount(item!.unitRateKES)} | ${formatAmount(-item!.totalCostKES)} |`
+    ));
+  }
+
+  const changed = comparison.lines.filter(line => line.change === 'changed');
+  if (changed.length > 0) {
+    sections.push('', '## Changed Items', '', `| Item | Description | Qty (was -> now) | Rate (was -> now) | Changed | Change (${currency}) |`, '|---|---|---|---|---|---|');
+    changed.forEach(line => sections.push(
+      `| ${escapeCell(line.revised!.itemNumber)} | ${escapeCell(line.revised!.description)} | ${formatQuantity(line.base!.quantity)} -> ${formatQuantity(line.revised!.quantity)} | ${formatAmount(line.base!.unitRateKES)} -> ${formatAmount(line.revised!.unitRateKES)} | ${line.changedFields.map(field => FIELD_LABELS[field]).join(', ')} | ${formatDelta(line.costDelta)} |`
+    ));
+  }
+
+  return sections.join('\n');
+};
@@ -0,0 +1,257 @@
+import ExcelJS from 'exceljs';
+import { AnalysisResult, BQGrouping, BQItem, CurrencyCode, RateSplit } from '../types';
+import { groupBillOfQuantities } from './bqClassification';
+import { CURRENCIES, currencyOf, describeConversion, roundMoney } from './currency';
+import { describeEscalation } from './escalation';
+import { buildEstimateSummary, withRateOverrides, DEFAULT_SUMMARY_CONFIG } from './estimateSummary';
+
+/**
+ * Excel export for analysed Bills of Quantities
+ * Produces one sheet per trade (or NRM1 element) with live quantity × rate formulas,
+ * a collection page summing every sheet, and a grand summary laid out from the BQ's
+ * estimate summary: measured works, each addition in order, then VAT
+ */
+
+export interface BqExcelOptions {
+  contingencyRate?: number; // Overrides the contingency rate of the BQ's summary configuration
+  vatRate?: number; // Overrides its VAT rate
+  companyName?: string;
+  groupBy?: BQGrouping;
+  rateSplits?: Map<BQItem, RateSplit | undefined>; // Adds labour, plant and material columns to the trade sheets
+}
+
+const QUANTITY_FORMAT = '#,##0.000';
+const PERCENT_FORMAT = '0.0%';
+const UNCATEGORISED = 'General';
+
+const GROUP_HEADERS: Record<BQGrouping, string> = { trade: 'Trade', element: 'Element' };
+
+// Excel sheet names: max 31 characters, none of []:*?/\ and unique within the workbook
+const toSheetName = (name: string, used: Set<string>): string => {
+  const base = name.replace(/[\[\]:*?/\\]/g, ' ').trim().substring(0, 28) || UNCATEGORISED;
+  let candidate = base;
+  let counter = 2;
+  while (used.has(candidate.toLowerCase())) {
+    candidate = `${base} ${counter++}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Money cells show as many decimals as the currency has minor units
+const moneyFormat = (currency: CurrencyCode): string => {
+  const digits = CURRENCIES[currency].minorUnits;
+  return digits > 0 ? `#,##0.${'0'.repeat(digits)}` : '#,##0';
+};
+
+const quoteSheet = (sheetName: string): string => `'${sheetName.replace(/'/g, "''")}'`;
+
+const styleHeaderRow = (row: ExcelJS.Row) => {
+  row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  row.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF0D47A1' } };
+    cell.border = { bottom: { style: 'thin' } };
+  });
+};
+
+const addTitle = (sheet: ExcelJS.Worksheet, title: string, subtitle: string) => {
+  sheet.addRow([title]).font = { bold: true, size: 14 };
+  sheet.addRow([subtitle]).font = { italic: true, color: { argb: 'FF616161' } };
+  sheet.addRow([]);
+};
+
+/**
+ * Add a trade sheet and return the cell address holding its collection total
+ */
+const addTradeSheet = (
+  workbook: ExcelJS.Workbook,
+  sheetName: string,
+  trade: string,
+  items: BQItem[],
+  projectName: string,
+  currency: CurrencyCode,
+  rateSplits?: Map<BQItem, RateSplit | undefined>
+): { amountCell: string; wastageCell: string } => {
+  const moneyCellFormat = moneyFormat(currency);
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.columns = [
+    { key: 'itemNumber', width: 10 },
+    { key: 'description', width: 50 },
+    { key: 'unit', width: 8 },
+    { key: 'quantity', width: 12 },
+    { key: 'rate', width: 14 },
+    { key: 'wastage', width: 10 },
+    { key: 'amount', width: 18 },
+    ...(rateSplits ? [{ key: 'labour', width: 14 }, { key: 'plant', width: 14 }, { key: 'material', width: 14 }] : []),
+  ];
+
+  addTitle(sheet, trade.toUpperCase(), projectName);
+  styleHeaderRow(sheet.addRow([
+    'Item', 'Description', 'Unit', 'Qty', `Rate (${currency})`, 'Wastage', `Amount (${currency})`,
+    ...(rateSplits ? ['Labour', 'Plant', 'Material'] : []),
+  ]));
+
+  const firstItemRow = sheet.rowCount + 1;
+  for (const item of items) {
+    const row = sheet.addRow([item.itemNumber, item.description, item.unit, item.quantity, item.unitRateKES, item.wastageFactor]);
+    const r = row.number;
+    row.getCell(7).value = { formula: `D${r}*E${r}*(1+F${r})`, result: item.totalCostKES };
+    row.getCell(2).alignment = { wrapText: true };
+    row.getCell(4).numFmt = QUANTITY_FORMAT;
+    row.getCell(5).numFmt = moneyCellFormat;
+    row.getCell(6).numFmt = PERCENT_FORMAT;
+    row.getCell(7).numFmt = moneyCellFormat;
+
+    // Materials take whatever labour and plant leave of the rate, so the split always adds up to it
+    const split = rateSplits?.get(item);
+    if (split) {
+      row.getCell(8).value = split.labourKES;
+      row.getCell(9).value = split.plantKES;
+      row.getCell(10).value = { formula: `E${r}-H${r}-I${r}`, result: roundMoney(item.unitRateKES - split.labourKES - split.plantKES, currency) };
+      [8, 9, 10].forEach(column => { row.getCell(column).numFmt = moneyCellFormat; });
+    }
+  }
+  const lastItemRow = Math.max(sheet.rowCount, firstItemRow);
+
+  sheet.addRow([]);
+  const wastageRow = sheet.addRow(['', 'Of which wastage allowance']);
+  wastageRow.getCell(7).value = {
+    formula: `SUMPRODUCT(D${firstItemRow}:D${lastItemRow},E${firstItemRow}:E${lastItemRow},F${firstItemRow}:F${lastItemRow})`
+  };
+  wastageRow.getCell(7).numFmt = moneyCellFormat;
+  wastageRow.font = { italic: true };
+
+  const totalRow = sheet.addRow(['', 'CARRIED TO COLLECTION']);
+  totalRow.getCell(7).value = { formula: `SUM(G${firstItemRow}:G${lastItemRow})` };
+  totalRow.getCell(7).numFmt = moneyCellFormat;
+  totalRow.font = { bold: true };
+  totalRow.getCell(7).border = { top: { style: 'thin' }, bottom: { style: 'double' } };
+
+  sheet.views = [{ state: 'frozen', ySplit: 4 }];
+  sheet.pageSetup = { orientation: 'portrait', fitToPage: true, fitToWidth: 1, fitToHeight: 0, printTitlesRow: '4:4' };
+
+  return {
+    amountCell: `${quoteSheet(sheetName)}!G${totalRow.number}`,
+    wastageCell: `${quoteSheet(sheetName)}!G${wastageRow.number}`,
+  };
+};
+
+/**
+ * Build an XLSX workbook for an analysed BQ
+ * @param analysis The analysis result to export
+ * @param options Contingency and VAT rate overrides for the grand summary, and whether to group by trade or element
+ * @returns Promise<Buffer> The workbook file contents
+ */
+export const buildBqWorkbook = async (analysis: AnalysisResult, options: BqExcelOptions = {}): Promise<Buffer> => {
+  const estimate = buildEstimateSummary(analysis, withRateOverrides(analysis.summaryConfig || DEFAULT_SUMMARY_CONFIG, options));
+  const groupBy = options.groupBy ?? 'trade';
+  const currency = currencyOf(analysis);
+  const moneyCellFormat = moneyFormat(currency);
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = options.companyName || 'Metrrik';
+  workbook.created = new Date();
+
+  // Summary and collection come first in the workbook but are filled once the trade sheets exist
+  const summarySheet = workbook.addWorksheet('Grand Summary');
+  const collectionSheet = workbook.addWorksheet('Collection');
+
+  const usedNames = new Set<string>(['grand summary', 'collection']);
+  const tradeTotals: Array<{ trade: string; amountCell: string; wastageCell: string }> = [];
+
+  groupBillOfQuantities(analysis.billOfQuantities, groupBy).forEach((items, trade) => {
+    const sheetName = toSheetName(trade, usedNames);
+    tradeTotals.push({ trade, ...addTradeSheet(workbook, sheetName, trade, items, analysis.projectName, currency, options.rateSplits) });
+  });
+
+  // Collection page
+  collectionSheet.columns = [{ width: 8 }, { width: 50 }, { width: 20 }, { width: 20 }];
+  addTitle(collectionSheet, 'COLLECTION', analysis.projectName);
+  styleHeaderRow(collectionSheet.addRow(['No.', GROUP_HEADERS[groupBy], `Wastage (${currency})`, `Amount (${currency})`]));
+
+  const firstCollectionRow = collectionSheet.rowCount + 1;
+  tradeTotals.forEach((total, index) => {
+    const row = collectionSheet.addRow([index + 1, total.trade]);
+    row.getCell(3).value = { formula: total.wastageCell };
+    row.getCell(4).value = { formula: total.amountCell };
+    row.getCell(3).numFmt = moneyCellFormat;
+    row.getCell(4).numFmt = moneyCellFormat;
+  });
+  const lastCollectionRow = Math.max(collectionSheet.rowCount, firstCollectionRow);
+
+  const collectionTotal = collectionSheet.addRow(['', 'TOTAL CARRIED TO SUMMARY']);
+  collectionTotal.getCell(3).value = { formula: `SUM(C${firstCollectionRow}:C${lastCollectionRow})` };
+  collectionTotal.getCell(4).value = { formula: `SUM(D${firstCollectionRow}:D${lastCollectionRow})` };
+  collectionTotal.getCell(3).numFmt = moneyCellFormat;
+  collectionTotal.getCell(4).numFmt = moneyCellFormat;
+  collectionTotal.font = { bold: true };
+
+  // Grand summary
+  summarySheet.columns = [{ width: 50 }, { width: 12 }, { width: 20 }];
+  addTitle(summarySheet, 'GRAND SUMMARY', `${analysis.projectName} — ${new Date().toLocaleDateString('en-GB')}`);
+  styleHeaderRow(summarySheet.addRow(['Description', 'Rate', `Amount (${currency})`]));
+
+  const measuredRow = summarySheet.addRow(['Measured works (from collection)']);
+  measuredRow.getCell(3).value = { formula: `Collection!D${collectionTotal.number}` };
+
+  const wastageRow = summarySheet.addRow(['Included wastage allowance']);
+  wastageRow.getCell(3).value = { formula: `Collection!C${collectionTotal.number}` };
+  wastageRow.font = { italic: true };
+
+  // Percentages are live formulas on the measured works or the running total; lump sums are values
+  const additionRows: ExcelJS.Row[] = [];
+  estimate.lines.forEach(line => {
+    const row = summarySheet.addRow([line.label, line.kind === 'percentage' ? line.rate : null]);
+    if (line.kind === 'percentage') {
+      const base = line.basis === 'measured' ? [measuredRow] : [measuredRow, ...additionRows];
+      const baseCells = base.map(baseRow => `C${baseRow.number}`).join('+');
+      row.getCell(3).value = { formula: `${base.length > 1 ? `(${baseCells})` : baseCells}*B${row.number}`, result: line.amount };
+      row.getCell(2).numFmt = PERCENT_FORMAT;
+    } else {
+      row.getCell(3).value = line.amount;
+    }
+    additionRows.push(row);
+  });
+
+  const subtotalRow = summarySheet.addRow(['Sub-total']);
+  subtotalRow.getCell(3).value = { formula: [measuredRow, ...additionRows].map(row => `C${row.number}`).join('+') };
+  subtotalRow.font = { bold: true };
+
+  const exemptAmount = roundMoney(estimate.subtotal - estimate.vatableAmount, currency);
+  const exemptRow = exemptAmount !== 0 ? summarySheet.addRow(['Of which VAT-exempt', null, exemptAmount]) : null;
+  if (exemptRow) exemptRow.font = { italic: true };
+
+  const vatRow = summarySheet.addRow(['VAT', estimate.vatRate]);
+  vatRow.getCell(3).value = {
+    formula: exemptRow
+      ? `(C${subtotalRow.number}-C${exemptRow.number})*B${vatRow.number}`
+      : `C${subtotalRow.number}*B${vatRow.number}`
+  };
+  vatRow.getCell(2).numFmt = PERCENT_FORMAT;
+
+  const grandTotalRow = summarySheet.addRow(['GRAND TOTAL']);
+  grandTotalRow.getCell(3).value = { formula: `C${subtotalRow.number}+C${vatRow.number}` };
+  grandTotalRow.font = { bold: true, size: 12 };
+  grandTotalRow.getCell(3).border = { top: { style: 'thin' }, bottom: { style: 'double' } };
+
+  [measuredRow, wastageRow, ...additionRows, subtotalRow, ...(exemptRow ? [exemptRow] : []), vatRow, grandTotalRow].forEach(row => {
+    row.getCell(3).numFmt = moneyCellFormat;
+  });
+
+  // Record the exchange rates and price indices behind the figures
+  const escalation = analysis.metadata?.escalation;
+  const notes = [
+    ...(analysis.metadata?.conversions || []).map(describeConversion),
+    ...(escalation ? [describeEscalation(escalation)] : []),
+  ];
+  if (notes.length > 0) summarySheet.addRow([]);
+  notes.forEach(note => {
+    summarySheet.addRow([note]).font = { italic: true, color: { argb: 'FF616161' } };
+  });
+
+  // Ask Excel to recalculate every formula when the workbook is opened
+  workbook.calcProperties.fullCalcOnLoad = true;
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+};
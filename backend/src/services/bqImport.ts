@@ -0,0 +1,389 @@
+import ExcelJS from 'exceljs';
+import path from 'path';
+import { AnalysisResult, BQItem, BqColumnMapping, BqImportField, BqImportRowError } from '../types';
+import { computeLineTotal } from './bqReconciliation';
+
+/**
+ * Import of priced Bills of Quantities from CSV or XLSX spreadsheets
+ * Reads the sheet into rows, suggests which column holds each BQ field, and
+ * maps the rows into BQ items with a validation error for every rejected row
+ */
+
+export interface ParsedRow {
+  rowNumber: number; // Spreadsheet row number (1-based)
+  cells: string[];
+}
+
+export interface ParsedSheet {
+  sheetName?: string;
+  sheetNames: string[];
+  headerRowNumber: number;
+  headers: string[];
+  rows: ParsedRow[];
+}
+
+export interface BqImportMeta {
+  projectName: string;
+  fileName: string;
+  fileType: string;
+  region?: string;
+}
+
+export const BQ_IMPORT_FIELDS: BqImportField[] = ['itemNumber', 'description', 'unit', 'quantity', 'rate', 'amount', 'category'];
+
+export const SUPPORTED_IMPORT_EXTENSIONS = ['.csv', '.xlsx'];
+
+const FIELD_LABELS: Record<BqImportField, string> = {
+  itemNumber: 'Item number',
+  description: 'Description',
+  unit: 'Unit',
+  quantity: 'Quantity',
+  rate: 'Rate',
+  amount: 'Amount',
+  category: 'Trade',
+};
+
+const HEADER_SCAN_ROWS = 20;
+const DEFAULT_UNIT = 'Item';
+
+// Checked in order; each field claims the first unclaimed header that matches
+const HEADER_PATTERNS: Array<[BqImportField, RegExp]> = [
+  ['description', /^(description|desc|item description|particulars|details)$/],
+  ['itemNumber', /^(item|item no|item number|no|nr|ref|reference|item ref|code|item code)$/],
+  ['quantity', /^(qty|quantity|quantities|quant)$/],
+  ['rate', /^(rate|unit rate|unit price|price|rate kes|rate ksh)$/],
+  ['amount', /^(amount|total|amount kes|amount ksh|total cost|cost|extension|sum)$/],
+  ['unit', /^(unit|units|uom|unit of measure)$/],
+  ['category', /^(trade|category|section|element|bill|work section)$/],
+];
+
+// Rows carrying page or bill totals rather than measured items
+const TOTAL_ROW_PATTERN = /^(total|sub-?total|grand total|carried (to|forward)|brought forward|to collection|page total|collection)\b/i;
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[()[\].:#]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const isBlankRow = (cells: string[]): boolean => cells.every(cell => cell.trim() === '');
+
+/**
+ * Parse a CSV document, honouring quoted fields and detecting comma, semicolon or tab delimiters
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const cellToString = (cell: ExcelJS.Cell): string => {
+  const value = cell.value;
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'object' && 'result' in value) {
+    const result = (value as ExcelJS.CellFormulaValue).result;
+    return result === undefined || result === null ? '' : String(result);
+  }
+  return cell.text ?? '';
+};
+
+/**
+ * Read a worksheet from an XLSX workbook into rows of strings
+ */
+const parseXlsx = async (buffer: Buffer, sheetName?: string): Promise<{ rows: string[][]; sheetName?: string; sheetNames: string[] }> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const sheetNames = workbook.worksheets.map(sheet => sheet.name);
+  const worksheet = sheetName
+    ? workbook.getWorksheet(sheetName)
+    : workbook.worksheets.find(sheet => sheet.actualRowCount > 0);
+
+  if (!worksheet) {
+    return { rows: [], sheetName, sheetNames };
+  }
+
+  const rows: string[][] = [];
+  for (let r = 1; r <= worksheet.rowCount; r++) {
+    const row = worksheet.getRow(r);
+    const cells: string[] = [];
+    for (let c = 1; c <= worksheet.columnCount; c++) {
+      cells.push(cellToString(row.getCell(c)).trim());
+    }
+    rows.push(cells);
+  }
+
+  return { rows, sheetName: worksheet.name, sheetNames };
+};
+
+/**
+ * Pick the header row: the first of the opening rows naming at least two BQ fields,
+ * falling back to the first non-empty row
+ */
+const findHeaderRow = (rows: string[][]): number => {
+  for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+    const mapping = suggestColumnMapping(rows[i]);
+    if (Object.keys(mapping).length >= 2) return i;
+  }
+  return Math.max(0, rows.findIndex(row => !isBlankRow(row)));
+};
+
+/**
+ * Parse an uploaded CSV or XLSX file into a header row and data rows
+ * @param buffer The file contents
+ * @param fileName The original file name, used to choose the parser
+ * @param sheetName Optional worksheet to read from an XLSX workbook
+ * @returns Promise<ParsedSheet> Headers and data rows with their spreadsheet row numbers
+ */
+export const parseSpreadsheet = async (buffer: Buffer, fileName: string, sheetName?: string): Promise<ParsedSheet> => {
+  const extension = path.extname(fileName).toLowerCase();
+  if (!SUPPORTED_IMPORT_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported file type ${extension || '(none)'}. Please upload a CSV or XLSX file.`);
+  }
+
+  const parsed = extension === '.csv'
+    ? { rows: parseCsv(buffer.toString('utf8')).map(row => row.map(cell => cell.trim())), sheetName: undefined, sheetNames: [] }
+    : await parseXlsx(buffer, sheetName);
+
+  const headerIndex = findHeaderRow(parsed.rows);
+  const headers = parsed.rows[headerIndex] || [];
+
+  return {
+    sheetName: parsed.sheetName,
+    sheetNames: parsed.sheetNames,
+    headerRowNumber: headerIndex + 1,
+    headers,
+    rows: parsed.rows
+      .map((cells, index) => ({ rowNumber: index + 1, cells }))
+      .slice(headerIndex + 1)
+      .filter(row => !isBlankRow(row.cells)),
+  };
+};
+
+/**
+ * Suggest a column for each BQ field from the spreadsheet headers
+ */
+export const suggestColumnMapping = (headers: string[]): BqColumnMapping => {
+  const mapping: BqColumnMapping = {};
+  const claimed = new Set<number>();
+
+  for (const [field, pattern] of HEADER_PATTERNS) {
+    const index = headers.findIndex((header, i) => !claimed.has(i) && pattern.test(normalizeHeader(header || '')));
+    if (index >= 0) {
+      mapping[field] = index;
+      claimed.add(index);
+    }
+  }
+
+  return mapping;
+};
+
+/**
+ * Check that a mapping names the columns an import cannot do without
+ * @returns string[] Problems with the mapping; empty when it is usable
+ */
+export const validateColumnMapping = (mapping: BqColumnMapping, columnCount: number): string[] => {
+  const problems: string[] = [];
+
+  if (mapping.description === undefined) problems.push('A description column is required');
+  if (mapping.quantity === undefined && mapping.amount === undefined) problems.push('A quantity or amount column is required');
+  if (mapping.rate === undefined && mapping.amount === undefined) problems.push('A rate or amount column is required');
+
+  const used = new Map<number, BqImportField>();
+  for (const field of BQ_IMPORT_FIELDS) {
+    const column = mapping[field];
+    if (column === undefined) continue;
+    if (!Number.isInteger(column) || column < 0 || column >= columnCount) {
+      problems.push(`Column for ${FIELD_LABELS[field]} is out of range`);
+    } else if (used.has(column)) {
+      problems.push(`Column ${column + 1} is mapped to both ${FIELD_LABELS[used.get(column)!]} and ${FIELD_LABELS[field]}`);
+    } else {
+      used.set(column, field);
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Parse a money or quantity cell such as "1,250.50", "KES 12,000" or "(500)"
+ * @returns number | null | undefined The value, null for an empty cell, undefined when unreadable
+ */
+export const parseNumericCell = (value: string | undefined): number | null | undefined => {
+  const raw = (value || '').trim();
+  if (raw === '' || raw === '-') return null;
+
+  const negative = /^\(.*\)$/.test(raw);
+  const cleaned = raw.replace(/^\(|\)$/g, '').replace(/\b(kes|ksh|kshs)\b\.?/gi, '').replace(/[,\s]/g, '');
+  if (!/^-?\d*\.?\d+$/.test(cleaned)) return undefined;
+
+  const parsed = parseFloat(cleaned);
+  return negative ? -parsed : parsed;
+};
+
+/**
+ * Map spreadsheet rows into BQ items
+ * Rows with only a description are treated as trade headings for the items below them,
+ * total rows are skipped, and a row priced with an amount but no quantity is taken as a lump sum
+ * @param sheet The parsed spreadsheet
+ * @param mapping The column holding each BQ field
+ * @returns The imported items and an error for every rejected row
+ */
+export const mapRowsToBQ = (sheet: ParsedSheet, mapping: BqColumnMapping): { items: BQItem[]; errors: BqImportRowError[] } => {
+  const items: BQItem[] = [];
+  const errors: BqImportRowError[] = [];
+  let currentTrade: string | undefined;
+
+  const cellFor = (row: ParsedRow, field: BqImportField): string => {
+    const column = mapping[field];
+    return column === undefined ? '' : (row.cells[column] || '').trim();
+  };
+
+  for (const row of sheet.rows) {
+    const description = cellFor(row, 'description');
+    const rawQuantity = cellFor(row, 'quantity');
+    const rawRate = cellFor(row, 'rate');
+    const rawAmount = cellFor(row, 'amount');
+    const hasFigures = [rawQuantity, rawRate, rawAmount].some(value => value !== '' && value !== '-');
+
+    if (!hasFigures) {
+      // A bare description is a trade or section heading
+      if (description && !TOTAL_ROW_PATTERN.test(description)) currentTrade = description;
+      continue;
+    }
+
+    if (TOTAL_ROW_PATTERN.test(description)) continue;
+
+    if (!description) {
+      errors.push({ row: row.rowNumber, field: 'description', message: 'Description is missing' });
+      continue;
+    }
+
+    const numbers: Partial<Record<'quantity' | 'rate' | 'amount', number | null>> = {};
+    let rowValid = true;
+    for (const [field, value] of [['quantity', rawQuantity], ['rate', rawRate], ['amount', rawAmount]] as const) {
+      const parsed = parseNumericCell(value);
+      if (parsed === undefined) {
+        errors.push({ row: row.rowNumber, field, value, message: `${FIELD_LABELS[field]} is not a number` });
+        rowValid = false;
+      } else if (parsed !== null && parsed < 0) {
+        errors.push({ row: row.rowNumber, field, value, message: `${FIELD_LABELS[field]} cannot be negative` });
+        rowValid = false;
+      } else {
+        numbers[field] = parsed;
+      }
+    }
+    if (!rowValid) continue;
+
+    let quantity = numbers.quantity ?? null;
+    let rate = numbers.rate ?? null;
+    const amount = numbers.amount ?? null;
+    let unit = cellFor(row, 'unit');
+
+    if (quantity === null && rate === null && amount !== null) {
+      // Lump sum item such as a preliminaries or provisional sum
+      quantity = 1;
+      rate = amount;
+      unit = unit || DEFAULT_UNIT;
+    }
+
+    if (quantity === null) {
+      errors.push({ row: row.rowNumber, field: 'quantity', message: 'Quantity is missing' });
+      continue;
+    }
+
+    if (rate === null) {
+      if (amount === null) {
+        errors.push({ row: row.rowNumber, field: 'rate', message: 'Rate or amount is required' });
+        continue;
+      }
+      if (quantity === 0) {
+        errors.push({ row: row.rowNumber, field: 'quantity', message: 'Rate cannot be derived from the amount when quantity is zero' });
+        continue;
+      }
+      rate = Math.round((amount / quantity) * 100) / 100;
+    }
+
+    const item: BQItem = {
+      itemNumber: cellFor(row, 'itemNumber') || String(items.length + 1),
+      description,
+      unit: unit || DEFAULT_UNIT,
+      quantity,
+      unitRateKES: rate,
+      // Priced BQs carry wastage in the rates
+      wastageFactor: 0,
+      totalCostKES: 0,
+    };
+    // Keep the consultant's extension so reconciliation can flag arithmetic slips
+    item.totalCostKES = amount ?? computeLineTotal(item);
+
+    const trade = cellFor(row, 'category') || currentTrade;
+    if (trade) item.category = trade;
+
+    items.push(item);
+  }
+
+  return { items, errors };
+};
+
+/**
+ * Wrap imported items in an analysis result so they can be stored and edited like an AI-generated BQ
+ */
+export const buildImportedAnalysis = (items: BQItem[], meta: BqImportMeta): AnalysisResult => ({
+  summary: {
+    totalEstimatedCostKES: Math.round(items.reduce((sum, item) => sum + item.totalCostKES, 0) * 100) / 100,
+    totalWastageCostKES: 0,
+    confidenceScore: 1,
+  },
+  billOfQuantities: items,
+  intelligentSuggestions: [],
+  projectName: meta.projectName,
+  metadata: {
+    analysisDate: new Date(),
+    fileType: meta.fileType,
+    fileName: meta.fileName,
+    confidence: 1,
+    region: meta.region,
+    source: 'import',
+  },
+});
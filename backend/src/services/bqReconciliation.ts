@@ -0,0 +1,170 @@
+import {
+  AnalysisResult,
+  BQDiscrepancy,
+  BQItem,
+  DiscrepancySeverity,
+  ReconciliationReport,
+  ReconciliationResolution
+} from '../types';
+
+/**
+ * Deterministic BQ arithmetic reconciliation
+ * Recomputes every line (quantity × rate × (1 + wastage)) and the summary totals,
+ * and flags any difference from the values returned by the AI model
+ */
+
+// Differences at or below this amount (KES) are treated as rounding noise
+export const RECONCILIATION_TOLERANCE_KES = 1;
+
+// Relative difference thresholds used to grade each discrepancy
+const SEVERITY_THRESHOLDS: Array<{ maxRelative: number; severity: DiscrepancySeverity }> = [
+  { maxRelative: 0.01, severity: 'low' },
+  { maxRelative: 0.05, severity: 'medium' },
+  { maxRelative: 0.25, severity: 'high' },
+];
+
+const roundKES = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Recompute the total cost of a single BQ line
+ */
+export const computeLineTotal = (item: Pick<BQItem, 'quantity' | 'unitRateKES' | 'wastageFactor'>): number => {
+  return roundKES(item.quantity * item.unitRateKES * (1 + item.wastageFactor));
+};
+
+/**
+ * Recompute the wastage component of a single BQ line
+ */
+export const computeLineWastage = (item: Pick<BQItem, 'quantity' | 'unitRateKES' | 'wastageFactor'>): number => {
+  return roundKES(item.quantity * item.unitRateKES * item.wastageFactor);
+};
+
+/**
+ * Recompute summary totals from a list of BQ lines
+ */
+export const computeSummaryTotals = (items: BQItem[]): { totalEstimatedCostKES: number; totalWastageCostKES: number } => {
+  return {
+    totalEstimatedCostKES: roundKES(items.reduce((sum, item) => sum + computeLineTotal(item), 0)),
+    totalWastageCostKES: roundKES(items.reduce((sum, item) => sum + computeLineWastage(item), 0)),
+  };
+};
+
+const gradeSeverity = (aiValue: number, recomputedValue: number): DiscrepancySeverity => {
+  // A missing AI value against a non-zero recomputed value is always critical
+  if (aiValue === 0 || recomputedValue === 0) {
+    return 'critical';
+  }
+
+  const relative = Math.abs(aiValue - recomputedValue) / Math.abs(recomputedValue);
+  const match = SEVERITY_THRESHOLDS.find(threshold => relative <= threshold.maxRelative);
+  return match ? match.severity : 'critical';
+};
+
+const buildDiscrepancy = (
+  base: Pick<BQDiscrepancy, 'scope' | 'field' | 'itemNumber' | 'lineIndex'>,
+  aiValue: number,
+  recomputedValue: number,
+  label: string
+): BQDiscrepancy | null => {
+  const difference = roundKES(aiValue - recomputedValue);
+  if (Math.abs(difference) <= RECONCILIATION_TOLERANCE_KES) {
+    return null;
+  }
+
+  const relativeDifference = recomputedValue !== 0 ? Math.abs(difference) / Math.abs(recomputedValue) : 1;
+
+  return {
+    ...base,
+    aiValue,
+    recomputedValue,
+    difference,
+    relativeDifference: Math.round(relativeDifference * 10000) / 10000,
+    severity: gradeSeverity(aiValue, recomputedValue),
+    message: `${label}: AI value ${aiValue.toLocaleString('en-US')} differs from recomputed ${recomputedValue.toLocaleString('en-US')}`,
+  };
+};
+
+/**
+ * Check every line and summary figure of an analysis result
+ * @param result Analysis result as returned by the AI model
+ * @returns ReconciliationReport listing each discrepancy with its severity
+ */
+export const reconcileAnalysis = (result: AnalysisResult): ReconciliationReport => {
+  const discrepancies: BQDiscrepancy[] = [];
+
+  result.billOfQuantities.forEach((item, index) => {
+    const discrepancy = buildDiscrepancy(
+      { scope: 'line', field: 'totalCostKES', itemNumber: item.itemNumber, lineIndex: index },
+      item.totalCostKES,
+      computeLineTotal(item),
+      `Item ${item.itemNumber} total`
+    );
+    if (discrepancy) discrepancies.push(discrepancy);
+  });
+
+  const totals = computeSummaryTotals(result.billOfQuantities);
+
+  const totalDiscrepancy = buildDiscrepancy(
+    { scope: 'summary', field: 'totalEstimatedCostKES' },
+    result.summary.totalEstimatedCostKES,
+    totals.totalEstimatedCostKES,
+    'Total estimated cost'
+  );
+  if (totalDiscrepancy) discrepancies.push(totalDiscrepancy);
+
+  const wastageDiscrepancy = buildDiscrepancy(
+    { scope: 'summary', field: 'totalWastageCostKES' },
+    result.summary.totalWastageCostKES,
+    totals.totalWastageCostKES,
+    'Total wastage cost'
+  );
+  if (wastageDiscrepancy) discrepancies.push(wastageDiscrepancy);
+
+  return {
+    status: discrepancies.length > 0 ? 'flagged' : 'clean',
+    resolution: 'pending',
+    discrepancies,
+    checkedAt: new Date(),
+  };
+};
+
+/**
+ * Apply the user's choice between the AI values and the recomputed values
+ * Discrepancies keep both figures so the choice can be reversed later
+ * @param result Analysis result carrying a reconciliation report
+ * @param resolution 'ai' to keep the model's figures, 'recomputed' to accept the engine's
+ * @returns A new AnalysisResult with the chosen figures applied
+ */
+export const applyReconciliation = (
+  result: AnalysisResult,
+  resolution: Exclude<ReconciliationResolution, 'pending'>
+): AnalysisResult => {
+  const report = result.reconciliation || reconcileAnalysis(result);
+  const pick = (discrepancy: BQDiscrepancy) =>
+    resolution === 'recomputed' ? discrepancy.recomputedValue : discrepancy.aiValue;
+
+  const billOfQuantities = result.billOfQuantities.map(item => ({ ...item }));
+  const summary = { ...result.summary };
+
+  for (const discrepancy of report.discrepancies) {
+    if (discrepancy.scope === 'line') {
+      const item = discrepancy.lineIndex !== undefined
+        ? billOfQuantities[discrepancy.lineIndex]
+        : billOfQuantities.find(line => line.itemNumber === discrepancy.itemNumber);
+      if (item) item.totalCostKES = pick(discrepancy);
+    } else if (discrepancy.field === 'totalEstimatedCostKES' || discrepancy.field === 'totalWastageCostKES') {
+      summary[discrepancy.field] = pick(discrepancy);
+    }
+  }
+
+  return {
+    ...result,
+    summary,
+    billOfQuantities,
+    reconciliation: {
+      ...report,
+      resolution,
+      resolvedAt: new Date(),
+    },
+  };
+};
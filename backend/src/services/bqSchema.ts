@@ -0,0 +1,247 @@
+import { AnalysisResult } from '../types';
+
+/**
+ * BQ response schema
+ * The formal shape of the BQ the AI must return for a drawing. It mirrors the
+ * summary, billOfQuantities and intelligentSuggestions of AnalyzedBQ, is sent to
+ * Gemini as the response schema, and is checked again here because the model
+ * does not always honour it
+ */
+
+// Corrective prompts allowed after the first answer before the response is rejected
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export type SchemaType = 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN';
+
+// The subset of OpenAPI schema understood by the Gemini responseSchema
+export interface ResponseSchema {
+  type: SchemaType;
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+  minItems?: number;
+  minimum?: number;
+  maximum?: number;
+  enum?: string[];
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export const BQ_RESPONSE_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    summary: {
+      type: 'OBJECT',
+      properties: {
+        totalEstimatedCostKES: { type: 'NUMBER', minimum: 0 },
+        totalWastageCostKES: { type: 'NUMBER', minimum: 0 },
+        confidenceScore: { type: 'NUMBER', minimum: 0, maximum: 1, description: 'Confidence in the estimate, from 0.0 to 1.0' },
+        totalArea: { type: 'NUMBER', minimum: 0, description: 'Gross floor area in square metres' },
+      },
+      required: ['totalEstimatedCostKES', 'totalWastageCostKES', 'confidenceScore'],
+    },
+    billOfQuantities: {
+      type: 'ARRAY',
+      minItems: 1,
+      items: {
+        type: 'OBJECT',
+        properties: {
+          itemNumber: { type: 'STRING' },
+          category: { type: 'STRING' },
+          description: { type: 'STRING' },
+          unit: { type: 'STRING' },
+          quantity: { type: 'NUMBER', minimum: 0 },
+          unitRateKES: { type: 'NUMBER', minimum: 0 },
+          totalCostKES: { type: 'NUMBER', minimum: 0 },
+          wastageFactor: { type: 'NUMBER', minimum: 0, maximum: 1, description: 'e.g. 0.05 for 5% wastage' },
+        },
+        required: ['description', 'unit', 'quantity', 'unitRateKES', 'totalCostKES'],
+      },
+    },
+    intelligentSuggestions: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          suggestionType: { type: 'STRING' },
+          originalItem: { type: 'STRING' },
+          suggestion: { type: 'STRING' },
+          impact: { type: 'STRING' },
+        },
+        required: ['suggestion'],
+      },
+    },
+  },
+  required: ['summary', 'billOfQuantities'],
+};
+
+const typeName = (value: any): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+};
+
+/**
+ * Check a value against a response schema
+ * @returns One issue per offending field, with a JSONPath-like location
+ */
+export const validateAgainstSchema = (value: any, schema: ResponseSchema, path = '$'): SchemaIssue[] => {
+  const issue = (message: string): SchemaIssue[] => [{ path, message }];
+
+  switch (schema.type) {
+    case 'OBJECT': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return issue(`must be an object, got ${typeName(value)}`);
+      }
+      const missing = (schema.required || [])
+        .filter(key => value[key] === undefined || value[key] === null)
+        .map(key => ({ path: `${path}.${key}`, message: 'is required' }));
+      const invalid = Object.entries(schema.properties || {})
+        .filter(([key]) => value[key] !== undefined && value[key] !== null)
+        .flatMap(([key, property]) => validateAgainstSchema(value[key], property, `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+    case 'ARRAY': {
+      if (!Array.isArray(value)) return issue(`must be an array, got ${typeName(value)}`);
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return issue(`must have at least ${schema.minItems} item(s)`);
+      }
+      return schema.items
+        ? value.flatMap((item, index) => validateAgainstSchema(item, schema.items!, `${path}[${index}]`))
+        : [];
+    }
+    case 'NUMBER':
+    case 'INTEGER': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return issue(`must be a number, got ${typeName(value)}`);
+      if (schema.type === 'INTEGER' && !Number.isInteger(value)) return issue('must be a whole number');
+      if (schema.minimum !== undefined && value < schema.minimum) return issue(`must be at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) return issue(`must be at most ${schema.maximum}`);
+      return [];
+    }
+    case 'STRING': {
+      if (typeof value !== 'string') return issue(`must be a string, got ${typeName(value)}`);
+      if (schema.enum && !schema.enum.includes(value)) return issue(`must be one of ${schema.enum.join(', ')}`);
+      return [];
+    }
+    case 'BOOLEAN':
+      return typeof value === 'boolean' ? [] : issue(`must be a boolean, got ${typeName(value)}`);
+    default:
+      return [];
+  }
+};
+
+export const validateBQResponse = (value: any): SchemaIssue[] => validateAgainstSchema(value, BQ_RESPONSE_SCHEMA);
+
+/**
+ * Parse a model response, tolerating a markdown code fence around the JSON
+ */
+export const parseModelJson = (text: string): { value?: any; issues: SchemaIssue[] } => {
+  const trimmed = (text || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return { value: JSON.parse(trimmed), issues: [] };
+  } catch (error: any) {
+    return { issues: [{ path: '$', message: `is not valid JSON (${error.message})` }] };
+  }
+};
+
+/**
+ * The follow-up prompt asking the model to correct its previous answer
+ */
+export const repairInstructions = (issues: SchemaIssue[]): string => [
+  'Your previous response did not match the required JSON schema:',
+  ...issues.slice(0, 20).map(issue => `- ${issue.path} ${issue.message}`),
+  ...(issues.length > 20 ? [`- and ${issues.length - 20} more problem(s)`] : []),
+  'Return the complete corrected JSON object only, with every required field and numbers as plain JSON numbers.',
+].join('\n');
+
+export interface RepairRequest {
+  previousResponse: string;
+  instructions: string;
+}
+
+export interface ValidatedResponse<T> {
+  value: T;
+  attempts: number; // Model calls made, including the first
+}
+
+/**
+ * Ask the model for a response until it passes validation, feeding the
+ * problems back for at most maxRepairs corrective attempts
+ * @param request Calls the model, with the previous answer and its problems on a repair attempt
+ * @throws When the model reports an error or never returns a valid response
+ */
+export const requestValidatedJson = async <T>(
+  request: (repair?: RepairRequest) => Promise<string>,
+  validate: (value: any) => SchemaIssue[],
+  maxRepairs: number = MAX_REPAIR_ATTEMPTS
+): Promise<ValidatedResponse<T>> => {
+  let repair: RepairRequest | undefined;
+  let issues: SchemaIssue[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const text = await request(repair);
+    const parsed = parseModelJson(text);
+
+    // A failed call is reported as { error }, which no corrective prompt can fix
+    if (parsed.value?.error && !parsed.value.summary) {
+      throw new Error(parsed.value.error.message || 'AI analysis failed');
+    }
+
+    issues = parsed.issues.length > 0 ? parsed.issues : validate(parsed.value);
+    if (issues.length === 0) return { value: parsed.value as T, attempts: attempt };
+
+    repair = { previousResponse: text, instructions: repairInstructions(issues) };
+  }
+
+  throw new Error(
+    `The AI response did not match the BQ schema after ${maxRepairs + 1} attempt(s): ` +
+    issues.slice(0, 3).map(issue => `${issue.path} ${issue.message}`).join('; ')
+  );
+};
+
+/**
+ * Turn a validated AI response into an analysis result with strict number types
+ * @param file The analysed drawing, for the metadata
+ */
+export const convertAIResponseToAnalysisResult = (
+  aiResponse: any,
+  projectName: string,
+  file: { mimetype: string; originalname: string }
+): AnalysisResult => {
+  const summary = {
+    totalEstimatedCostKES: Number(aiResponse.summary?.totalEstimatedCostKES || 0),
+    totalWastageCostKES: Number(aiResponse.summary?.totalWastageCostKES || 0),
+    confidenceScore: Number(aiResponse.summary?.confidenceScore || 0.85),
+    totalArea: Number(aiResponse.summary?.totalArea || 0),
+  };
+
+  const billOfQuantities = (aiResponse.billOfQuantities || []).map((item: any) => ({
+    itemNumber: item.itemNumber || '0',
+    description: item.description || '',
+    unit: item.unit || 'LS',
+    quantity: Number(item.quantity || 0),
+    unitRateKES: Number(item.unitRateKES || 0),
+    wastageFactor: Number(item.wastageFactor || 0.05),
+    totalCostKES: Number(item.totalCostKES || 0),
+    category: item.category,
+    ...(Array.isArray(item.sourcePages) && { sourcePages: item.sourcePages }),
+  }));
+
+  return {
+    summary,
+    billOfQuantities,
+    intelligentSuggestions: aiResponse.intelligentSuggestions || [],
+    projectName: projectName || `Analysis - ${new Date().toLocaleDateString()}`,
+    metadata: {
+      analysisDate: new Date(),
+      fileType: file.mimetype,
+      fileName: file.originalname,
+      confidence: summary.confidenceScore,
+      source: 'ai',
+    },
+  };
+};
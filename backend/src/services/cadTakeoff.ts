@@ -0,0 +1,837 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import DxfParser, { IDxf, IEntity, IPoint } from 'dxf-parser';
+import { logger } from '../utils/logger';
+import {
+  AnalysisResult,
+  BQItem,
+  CadDimension,
+  CadLayerRole,
+  CadOpening,
+  CadRoom,
+  CadTakeoff
+} from '../types';
+import { computeLineTotal, computeSummaryTotals } from './bqReconciliation';
+
+/**
+ * CAD geometry takeoff
+ * Reads the layers, polylines, blocks and dimensions of a DXF drawing (DWG is
+ * converted to DXF first) and measures wall lengths, room areas and door and
+ * window counts directly from the geometry, so the BQ quantities are exact
+ */
+
+const execFileAsync = promisify(execFile);
+
+export const CAD_EXTENSIONS = ['.dxf', '.dwg'];
+
+export const DEFAULT_WALL_HEIGHT_M = 3.0;
+
+// Gap between two parallel lines that makes them the faces of one wall
+export const MIN_WALL_THICKNESS_M = 0.075;
+export const MAX_WALL_THICKNESS_M = 0.45;
+
+// Share of the wall lines that must pair up before the plan is read as double-line
+const DOUBLE_LINE_SHARE = 0.5;
+
+// Pairing compares every wall line with every other, so very large drawings skip it
+const MAX_PAIRED_SEGMENTS = 5000;
+
+const PARALLEL_TOLERANCE = Math.sin(Math.PI / 180);
+
+// Closed outlines smaller than this are symbols or columns, not rooms
+const MIN_ROOM_AREA_M2 = 0.5;
+
+// Nested blocks deeper than this are ignored
+const MAX_BLOCK_DEPTH = 8;
+
+const MAX_REPORTED_DIMENSIONS = 200;
+
+const DWG_CONVERT_TIMEOUT_MS = 120 * 1000;
+
+// Standard opening sizes deducted from the walling, in metres
+const STANDARD_OPENINGS = {
+  door: { width: 0.9, height: 2.1 },
+  window: { width: 1.2, height: 1.2 },
+};
+
+// Indicative rates for the measured items; library rates replace them when they match
+const INDICATIVE_RATES_KES = {
+  walling: 2400,
+  plaster: 650,
+  floorFinish: 3200,
+  ceiling: 1400,
+  skirting: 450,
+  door: 35000,
+  window: 22000,
+};
+
+// $INSUNITS codes the takeoff understands, with the size of one drawing unit in metres
+const INSUNITS: Record<number, { units: string; metres: number }> = {
+  1: { units: 'in', metres: 0.0254 },
+  2: { units: 'ft', metres: 0.3048 },
+  4: { units: 'mm', metres: 0.001 },
+  5: { units: 'cm', metres: 0.01 },
+  6: { units: 'm', metres: 1 },
+};
+
+// Checked in this order, so 'A-DOOR-WALL' style layers count as doors rather than walls
+const LAYER_ROLE_PATTERNS: Array<[CadLayerRole, RegExp]> = [
+  ['doors', /door|^a-?dr\b/i],
+  ['windows', /window|glaz|^a-?win\b|^a-?wdw\b/i],
+  ['rooms', /room|space|zone|area|^a-?flor\b/i],
+  ['walls', /wall|^a-?wal\b/i],
+];
+
+const OPENING_BLOCK_PATTERNS: Array<[CadOpening['kind'], RegExp]> = [
+  ['door', /door|^dr[-_ ]?\d|^d\d{2,}/i],
+  ['window', /window|glaz|casement|^win|^wdw|^w\d{2,}/i],
+];
+
+export type CadLayerOverrides = Partial<Record<CadLayerRole, string[]>>;
+
+export interface CadTakeoffOptions {
+  layers?: CadLayerOverrides; // Exact layer names per role, replacing the name patterns for that role
+}
+
+export interface CadQuantityOptions {
+  wallHeightM?: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Affine transform from block coordinates to drawing coordinates
+interface Transform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+interface Segment {
+  layer: string;
+  start: Point;
+  end: Point;
+  length: number; // Arc length for curved segments
+  straight: boolean;
+}
+
+interface Outline {
+  layer: string;
+  vertices: Array<Point & { bulge: number }>;
+}
+
+interface Label {
+  layer: string;
+  text: string;
+  at: Point;
+}
+
+interface BlockReference {
+  layer: string;
+  blockName: string;
+}
+
+interface DrawingPrimitives {
+  segments: Segment[];
+  outlines: Outline[];
+  labels: Label[];
+  blockReferences: BlockReference[];
+  dimensions: Array<{ layer: string; value: number; text?: string }>;
+  entityCounts: Map<string, number>;
+}
+
+const IDENTITY: Transform = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const apply = (t: Transform, p: { x: number; y: number }): Point => ({
+  x: t.a * p.x + t.c * p.y + t.e,
+  y: t.b * p.x + t.d * p.y + t.f,
+});
+
+// Transform of an INSERT: move the block base point to the origin, scale, rotate, then place
+const compose = (parent: Transform, insert: any, basePoint: IPoint | undefined): Transform => {
+  const sx = insert.xScale ?? 1;
+  const sy = insert.yScale ?? 1;
+  const angle = ((insert.rotation || 0) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const bx = basePoint?.x || 0;
+  const by = basePoint?.y || 0;
+  const px = insert.position?.x || 0;
+  const py = insert.position?.y || 0;
+
+  const local: Transform = {
+    a: cos * sx,
+    b: sin * sx,
+    c: -sin * sy,
+    d: cos * sy,
+    e: px - (cos * sx * bx - sin * sy * by),
+    f: py - (sin * sx * bx + cos * sy * by),
+  };
+
+  return {
+    a: parent.a * local.a + parent.c * local.b,
+    b: parent.b * local.a + parent.d * local.b,
+    c: parent.a * local.c + parent.c * local.d,
+    d: parent.b * local.c + parent.d * local.d,
+    e: parent.a * local.e + parent.c * local.f + parent.e,
+    f: parent.b * local.e + parent.d * local.f + parent.f,
+  };
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(b.x - a.x, b.y - a.y);
+
+// Length of a polyline segment; a bulge is the tangent of a quarter of the arc angle
+const segmentLength = (start: Point, end: Point, bulge: number): number => {
+  const chord = distance(start, end);
+  if (!bulge || chord === 0) return chord;
+  const angle = 4 * Math.atan(Math.abs(bulge));
+  return (chord / (2 * Math.sin(angle / 2))) * angle;
+};
+
+// Area between an arc segment and its chord, signed so it adds to an anticlockwise outline
+const bulgeArea = (start: Point, end: Point, bulge: number): number => {
+  const chord = distance(start, end);
+  if (!bulge || chord === 0) return 0;
+  const angle = 4 * Math.atan(Math.abs(bulge));
+  const radius = chord / (2 * Math.sin(angle / 2));
+  return Math.sign(bulge) * (radius * radius / 2) * (angle - Math.sin(angle));
+};
+
+// MTEXT carries inline formatting codes such as \P (new paragraph) and {\fArial;...}
+const cleanText = (text: string): string =>
+  (text || '')
+    .replace(/\\P/g, ' ')
+    .replace(/\\[A-Za-z][^;\\{}]*;/g, '')
+    .replace(/\\[A-Za-z]/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/%%[cdp]/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Detect whether an uploaded file is a CAD drawing from its name
+ */
+export const isCadFile = (fileName: string): boolean =>
+  CAD_EXTENSIONS.includes(path.extname(fileName || '').toLowerCase());
+
+/**
+ * Work out the role of a layer from its name, or from the overrides when given
+ */
+export const layerRole = (layerName: string, overrides: CadLayerOverrides = {}): CadLayerRole | undefined => {
+  const name = layerName.trim().toLowerCase();
+  for (const [role] of LAYER_ROLE_PATTERNS) {
+    if (overrides[role]?.some(layer => layer.trim().toLowerCase() === name)) return role;
+  }
+  return LAYER_ROLE_PATTERNS.find(([role, pattern]) => !overrides[role]?.length && pattern.test(layerName))?.[0];
+};
+
+const openingKind = (blockName: string, role: CadLayerRole | undefined): CadOpening['kind'] | undefined => {
+  const byName = OPENING_BLOCK_PATTERNS.find(([, pattern]) => pattern.test(blockName))?.[0];
+  if (byName) return byName;
+  if (role === 'doors') return 'door';
+  if (role === 'windows') return 'window';
+  return undefined;
+};
+
+/**
+ * Parse the text of an ASCII DXF file
+ */
+export const parseDxf = (text: string): IDxf => {
+  if (text.startsWith('AutoCAD Binary DXF')) {
+    throw new Error('Binary DXF files are not supported; save the drawing as ASCII DXF');
+  }
+
+  const dxf = new DxfParser().parseSync(text);
+  if (!dxf || !Array.isArray(dxf.entities)) {
+    throw new Error('The file does not contain any DXF drawing entities');
+  }
+  return dxf;
+};
+
+/**
+ * Flatten the drawing into the primitives the takeoff measures
+ * Block references are expanded in place, except doors and windows which are counted
+ */
+const collectPrimitives = (dxf: IDxf, overrides: CadLayerOverrides): DrawingPrimitives => {
+  const primitives: DrawingPrimitives = {
+    segments: [],
+    outlines: [],
+    labels: [],
+    blockReferences: [],
+    dimensions: [],
+    entityCounts: new Map(),
+  };
+
+  const visit = (entities: IEntity[], transform: Transform, parentLayer: string | undefined, depth: number) => {
+    for (const entity of entities || []) {
+      const e = entity as any;
+      // Entities drawn on layer 0 inside a block take the layer of the block reference
+      const layer = (!e.layer || e.layer === '0') && parentLayer ? parentLayer : (e.layer || '0');
+      primitives.entityCounts.set(layer, (primitives.entityCounts.get(layer) || 0) + 1);
+
+      switch (e.type) {
+        case 'LINE': {
+          if (!e.vertices || e.vertices.length < 2) break;
+          const start = apply(transform, e.vertices[0]);
+          const end = apply(transform, e.vertices[1]);
+          primitives.segments.push({ layer, start, end, length: distance(start, end), straight: true });
+          break;
+        }
+        case 'LWPOLYLINE':
+        case 'POLYLINE': {
+          const vertices = (e.vertices || []).map((vertex: any) => ({ ...apply(transform, vertex), bulge: vertex.bulge || 0 }));
+          if (vertices.length < 2) break;
+          const first = vertices[0];
+          const last = vertices[vertices.length - 1];
+          const closed = !!e.shape || (vertices.length > 2 && distance(first, last) < 1e-9);
+
+          const count = closed ? vertices.length : vertices.length - 1;
+          for (let index = 0; index < count; index++) {
+            const start = vertices[index];
+            const end = vertices[(index + 1) % vertices.length];
+            if (distance(start, end) === 0) continue;
+            primitives.segments.push({
+              layer,
+              start,
+              end,
+              length: segmentLength(start, end, start.bulge),
+              straight: !start.bulge,
+            });
+          }
+          if (closed) primitives.outlines.push({ layer, vertices });
+          break;
+        }
+        case 'ARC': {
+          const sweep = ((((e.endAngle - e.startAngle) % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)) || 2 * Math.PI;
+          const pointAt = (angle: number) => apply(transform, {
+            x: e.center.x + e.radius * Math.cos(angle),
+            y: e.center.y + e.radius * Math.sin(angle),
+          });
+          const scale = Math.sqrt(Math.abs(transform.a * transform.d - transform.b * transform.c));
+          primitives.segments.push({
+            layer,
+            start: pointAt(e.startAngle),
+            end: pointAt(e.endAngle),
+            length: e.radius * sweep * scale,
+            straight: false,
+          });
+          break;
+        }
+        case 'TEXT':
+        case 'MTEXT': {
+          const text = cleanText(e.text);
+          const at = e.type === 'TEXT' ? e.startPoint : e.position;
+          if (text && at) primitives.labels.push({ layer, text, at: apply(transform, at) });
+          break;
+        }
+        case 'DIMENSION': {
+          const measured = typeof e.actualMeasurement === 'number'
+            ? e.actualMeasurement
+            : e.linearOrAngularPoint1 && e.linearOrAngularPoint2
+              ? distance(apply(transform, e.linearOrAngularPoint1), apply(transform, e.linearOrAngularPoint2))
+              : undefined;
+          // Angular, radial and ordinate dimensions do not measure a length
+          if (measured === undefined || ((e.dimensionType ?? 0) & 7) > 1) break;
+          const text = cleanText(e.text || '');
+          primitives.dimensions.push({ layer, value: measured, ...(text && text !== '<>' && { text }) });
+          break;
+        }
+        case 'INSERT': {
+          const blockName = e.name || '';
+          const kind = openingKind(blockName, layerRole(layer, overrides));
+          if (kind) {
+            primitives.blockReferences.push({ layer, blockName });
+            break;
+          }
+
+          const block = dxf.blocks?.[blockName];
+          if (!block || depth >= MAX_BLOCK_DEPTH) break;
+          visit(block.entities, compose(transform, e, block.position), layer, depth + 1);
+          break;
+        }
+        default:
+          break;
+      }
+    }
+  };
+
+  visit(dxf.entities, IDENTITY, undefined, 0);
+  return primitives;
+};
+
+const resolveUnits = (
+  dxf: IDxf,
+  primitives: DrawingPrimitives,
+  warnings: string[]
+): { units: string; metres: number; inferred: boolean } => {
+  const declared = INSUNITS[Number((dxf.header as any)?.$INSUNITS)];
+  if (declared) return { ...declared, inferred: false };
+
+  // Undeclared units are read from the drawing size: a building drawn in metres is
+  // tens of units across, in millimetres it is thousands
+  const points = primitives.segments.flatMap(segment => [segment.start, segment.end]);
+  const span = points.length > 0
+    ? Math.max(
+      Math.max(...points.map(p => p.x)) - Math.min(...points.map(p => p.x)),
+      Math.max(...points.map(p => p.y)) - Math.min(...points.map(p => p.y))
+    )
+    : 0;
+
+  const assumed = span >= 1000 ? INSUNITS[4] : INSUNITS[6];
+  warnings.push(`The drawing does not declare its units; ${assumed.units} assumed from its size`);
+  return { ...assumed, inferred: true };
+};
+
+// Merge intervals and return their total length
+const unionLength = (intervals: Array<[number, number]>): number => {
+  const sorted = intervals.filter(([from, to]) => to > from).sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let current: [number, number] | null = null;
+  for (const interval of sorted) {
+    if (current && interval[0] <= current[1]) {
+      current[1] = Math.max(current[1], interval[1]);
+    } else {
+      if (current) total += current[1] - current[0];
+      current = [interval[0], interval[1]];
+    }
+  }
+  if (current) total += current[1] - current[0];
+  return total;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Measure the wall centreline length from the wall lines, in metres
+ * Walls drawn as two face lines are detected by pairing parallel lines a wall
+ * thickness apart. A face line counts for half its length, so the inner and outer
+ * faces of a wall average to its centreline; a line only partly faced counts half
+ * of the shared length and all of the rest
+ */
+const measureWalls = (segments: Segment[], metresPerUnit: number) => {
+  const drawnLength = segments.reduce((sum, segment) => sum + segment.length, 0) * metresPerUnit;
+  const straight = segments.filter(segment => segment.straight && segment.length > 0);
+
+  if (straight.length > MAX_PAIRED_SEGMENTS) {
+    return { drawnLengthM: drawnLength, centrelineLengthM: drawnLength, doubleLine: false, paired: false };
+  }
+
+  const covered: Array<Array<[number, number]>> = straight.map(() => []);
+  const offsets: number[] = [];
+
+  for (let i = 0; i < straight.length; i++) {
+    const base = straight[i];
+    const ux = (base.end.x - base.start.x) / base.length;
+    const uy = (base.end.y - base.start.y) / base.length;
+
+    for (let j = 0; j < straight.length; j++) {
+      if (i === j) continue;
+      const other = straight[j];
+      const vx = (other.end.x - other.start.x) / other.length;
+      const vy = (other.end.y - other.start.y) / other.length;
+      if (Math.abs(ux * vy - uy * vx) > PARALLEL_TOLERANCE) continue;
+
+      const offset = Math.abs((other.start.x - base.start.x) * uy - (other.start.y - base.start.y) * ux) * metresPerUnit;
+      if (offset < MIN_WALL_THICKNESS_M || offset > MAX_WALL_THICKNESS_M) continue;
+
+      // Where the other line lies along this one
+      const from = (other.start.x - base.start.x) * ux + (other.start.y - base.start.y) * uy;
+      const to = (other.end.x - base.start.x) * ux + (other.end.y - base.start.y) * uy;
+      const overlapFrom = Math.max(0, Math.min(from, to));
+      const overlapTo = Math.min(base.length, Math.max(from, to));
+      if (overlapTo - overlapFrom <= 0) continue;
+
+      covered[i].push([overlapFrom, overlapTo]);
+      if (j > i) offsets.push(offset);
+    }
+  }
+
+  const pairedLength = straight.reduce((sum, _, index) => sum + unionLength(covered[index]), 0) * metresPerUnit;
+  const straightLength = straight.reduce((sum, segment) => sum + segment.length, 0) * metresPerUnit;
+  const doubleLine = straightLength > 0 && pairedLength / straightLength >= DOUBLE_LINE_SHARE;
+
+  if (!doubleLine) {
+    return { drawnLengthM: drawnLength, centrelineLengthM: drawnLength, doubleLine: false, paired: offsets.length > 0 };
+  }
+
+  const thickness = median(offsets);
+  const curvedLength = segments.filter(segment => !segment.straight).reduce((sum, segment) => sum + segment.length, 0) * metresPerUnit;
+  const centreline = straight.reduce((sum, segment, index) => {
+    const length = segment.length * metresPerUnit;
+    const shared = unionLength(covered[index]) * metresPerUnit;
+    // Short unpaired lines across a double-line wall are its ends and the jambs of openings
+    if (shared === 0 && length <= thickness * 1.5) return sum;
+    return sum + (shared >= length / 2 ? length / 2 : length - shared / 2);
+  }, 0);
+
+  return {
+    drawnLengthM: drawnLength,
+    centrelineLengthM: centreline + curvedLength / 2,
+    doubleLine: true,
+    thicknessMm: Math.round((thickness * 1000) / 5) * 5,
+    paired: true,
+  };
+};
+
+// Signed area of an outline including its arc segments, in drawing units
+const outlineArea = (outline: Outline): number => {
+  const { vertices } = outline;
+  let area = 0;
+  for (let index = 0; index < vertices.length; index++) {
+    const start = vertices[index];
+    const end = vertices[(index + 1) % vertices.length];
+    area += (start.x * end.y - end.x * start.y) / 2 + bulgeArea(start, end, start.bulge);
+  }
+  return area;
+};
+
+const outlinePerimeter = (outline: Outline): number =>
+  outline.vertices.reduce((sum, start, index) => {
+    const end = outline.vertices[(index + 1) % outline.vertices.length];
+    return sum + segmentLength(start, end, start.bulge);
+  }, 0);
+
+const contains = (outline: Outline, point: Point): boolean => {
+  let inside = false;
+  const { vertices } = outline;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Area tags ('12.5 m2') and room numbers are not names
+const isRoomName = (text: string): boolean => /[a-z]{2,}/i.test(text) && !/^\s*[\d.,]+\s*(m2|m²|sq\.?\s*m|sqm)\s*$/i.test(text);
+
+/**
+ * Measure the rooms from the closed outlines on the room layers
+ * An outline that encloses other room outlines is a floor boundary: it gives the
+ * gross floor area and is not counted as a room
+ */
+const measureRooms = (outlines: Outline[], labels: Label[], metresPerUnit: number, roomLayers: Set<string>) => {
+  const candidates = outlines.filter(outline =>
+    roomLayers.has(outline.layer) && Math.abs(outlineArea(outline)) * metresPerUnit * metresPerUnit >= MIN_ROOM_AREA_M2
+  );
+
+  const isBoundary = (outline: Outline) => candidates.some(other =>
+    other !== outline && other.vertices.every(vertex => contains(outline, vertex))
+  );
+  const boundaries = candidates.filter(isBoundary);
+  const roomOutlines = candidates.filter(outline => !boundaries.includes(outline));
+
+  const rooms: CadRoom[] = roomOutlines.map((outline, index) => {
+    const inside = labels.filter(label => isRoomName(label.text) && contains(outline, label.at));
+    const label = inside.find(candidate => roomLayers.has(candidate.layer)) || inside[0];
+    return {
+      name: label?.text || `Room ${index + 1}`,
+      layer: outline.layer,
+      areaM2: round2(Math.abs(outlineArea(outline)) * metresPerUnit * metresPerUnit),
+      perimeterM: round2(outlinePerimeter(outline) * metresPerUnit),
+    };
+  });
+
+  const roomArea = rooms.reduce((sum, room) => sum + room.areaM2, 0);
+  const boundaryArea = boundaries.reduce((largest, outline) =>
+    Math.max(largest, Math.abs(outlineArea(outline)) * metresPerUnit * metresPerUnit), 0);
+
+  return { rooms, grossFloorAreaM2: round2(Math.max(boundaryArea, roomArea)) };
+};
+
+const countOpenings = (blockReferences: BlockReference[], overrides: CadLayerOverrides): CadOpening[] => {
+  const openings = new Map<string, CadOpening>();
+  for (const reference of blockReferences) {
+    const kind = openingKind(reference.blockName, layerRole(reference.layer, overrides))!;
+    // Anonymous blocks (dynamic block instances) are named after their layer instead
+    const blockName = reference.blockName.startsWith('*') ? reference.layer : reference.blockName;
+    const key = `${kind}|${blockName}`;
+    const opening = openings.get(key);
+    if (opening) {
+      opening.count++;
+    } else {
+      openings.set(key, { kind, blockName, layer: reference.layer, count: 1 });
+    }
+  }
+  return Array.from(openings.values()).sort((a, b) => a.kind.localeCompare(b.kind) || a.blockName.localeCompare(b.blockName));
+};
+
+const measureDimensions = (
+  dimensions: DrawingPrimitives['dimensions'],
+  metresPerUnit: number,
+  warnings: string[]
+): CadDimension[] => {
+  // Text typed over a dimension hides the drawn length, so the drawing may not be to scale
+  const overridden = dimensions.filter(dimension => {
+    const typed = parseFloat((dimension.text || '').replace(/,/g, ''));
+    if (!dimension.text || !Number.isFinite(typed) || dimension.value === 0) return false;
+    const metres = dimension.value * metresPerUnit;
+    return [dimension.value, metres, metres * 1000].every(value => Math.abs(typed - value) / value > 0.01);
+  });
+  if (overridden.length > 0) {
+    warnings.push(`${overridden.length} dimension(s) show text that does not match the drawn length; check the drawing is to scale`);
+  }
+
+  return dimensions.slice(0, MAX_REPORTED_DIMENSIONS).map(dimension => ({
+    layer: dimension.layer,
+    valueM: Math.round(dimension.value * metresPerUnit * 1000) / 1000,
+    ...(dimension.text && { text: dimension.text }),
+  }));
+};
+
+/**
+ * Measure a parsed DXF drawing
+ * @param dxf The parsed drawing
+ * @param options Layer names to use for each role when the drawing does not follow the usual names
+ */
+export const takeoffFromDxf = (dxf: IDxf, options: CadTakeoffOptions = {}): CadTakeoff => {
+  const overrides = options.layers || {};
+  const warnings: string[] = [];
+  const primitives = collectPrimitives(dxf, overrides);
+  const { units, metres, inferred } = resolveUnits(dxf, primitives, warnings);
+
+  const layerNames = new Set<string>([
+    ...Object.keys(dxf.tables?.layer?.layers || {}),
+    ...primitives.entityCounts.keys(),
+  ]);
+  const layers = Array.from(layerNames).sort().map(name => ({
+    name,
+    ...(layerRole(name, overrides) && { role: layerRole(name, overrides) }),
+    entityCount: primitives.entityCounts.get(name) || 0,
+  }));
+  const layersWithRole = (role: CadLayerRole) => new Set(layers.filter(layer => layer.role === role).map(layer => layer.name));
+
+  const wallLayers = layersWithRole('walls');
+  const walls = measureWalls(primitives.segments.filter(segment => wallLayers.has(segment.layer)), metres);
+  if (wallLayers.size === 0) warnings.push('No wall layer found; name the wall layers to measure the walling');
+
+  const { rooms, grossFloorAreaM2 } = measureRooms(primitives.outlines, primitives.labels, metres, layersWithRole('rooms'));
+  if (rooms.length === 0) warnings.push('No closed room outlines found; floor and ceiling finishes were not measured');
+
+  const openings = countOpenings(primitives.blockReferences, overrides);
+  const openingLayers = [...layersWithRole('doors'), ...layersWithRole('windows')];
+  if (openings.length === 0 && openingLayers.some(layer => (primitives.entityCounts.get(layer) || 0) > 0)) {
+    warnings.push('Doors and windows are drawn as loose lines rather than blocks, so they could not be counted');
+  }
+
+  return {
+    units,
+    unitsInferred: inferred,
+    layers,
+    walls: {
+      layers: Array.from(wallLayers).sort(),
+      drawnLengthM: round2(walls.drawnLengthM),
+      centrelineLengthM: round2(walls.centrelineLengthM),
+      doubleLine: walls.doubleLine,
+      ...(walls.thicknessMm && { thicknessMm: walls.thicknessMm }),
+    },
+    rooms,
+    grossFloorAreaM2,
+    openings,
+    dimensions: measureDimensions(primitives.dimensions, metres, warnings),
+    warnings,
+  };
+};
+
+/**
+ * Convert a DWG drawing to DXF text with the converter configured in DWG2DXF_PATH
+ * (LibreDWG's dwg2dxf by default)
+ */
+export const convertDwgToDxf = async (data: Buffer): Promise<string> => {
+  const converter = process.env.DWG2DXF_PATH || 'dwg2dxf';
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'metrrik-dwg-'));
+  const input = path.join(workDir, 'drawing.dwg');
+  const output = path.join(workDir, 'drawing.dxf');
+
+  try {
+    await fs.promises.writeFile(input, data);
+    await execFileAsync(converter, ['-y', '-o', output, input], { timeout: DWG_CONVERT_TIMEOUT_MS });
+    return await fs.promises.readFile(output, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT' && !fs.existsSync(output)) {
+      throw new Error('DWG conversion is not available on this server; export the drawing as DXF and upload that instead');
+    }
+    logger.error('DWG to DXF conversion failed:', error);
+    throw new Error('The DWG file could not be converted; export the drawing as DXF and upload that instead');
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Read a DXF or DWG file and measure it
+ */
+export const takeoffFromFile = async (data: Buffer, fileName: string, options: CadTakeoffOptions = {}): Promise<CadTakeoff> => {
+  const text = path.extname(fileName).toLowerCase() === '.dwg'
+    ? await convertDwgToDxf(data)
+    : data.toString('utf8');
+  return takeoffFromDxf(parseDxf(text), options);
+};
+
+const measuredItem = (
+  description: string,
+  unit: string,
+  quantity: number,
+  unitRateKES: number,
+  wastageFactor: number,
+  category: string,
+  quantityBasis: string
+): Omit<BQItem, 'itemNumber'> => {
+  const item = { description, unit, quantity: round2(quantity), unitRateKES, wastageFactor, category, quantityBasis };
+  return { ...item, totalCostKES: computeLineTotal(item) };
+};
+
+/**
+ * Build the BQ lines for the measured quantities
+ * Walling is the wall centreline by the storey height less standard door and
+ * window openings, plastered on both faces; floor and ceiling finishes follow
+ * the room areas and skirtings the room perimeters
+ */
+export const buildCadBillOfQuantities = (takeoff: CadTakeoff, options: CadQuantityOptions = {}): BQItem[] => {
+  const wallHeight = options.wallHeightM ?? DEFAULT_WALL_HEIGHT_M;
+  const items: Array<Omit<BQItem, 'itemNumber'>> = [];
+
+  const doors = takeoff.openings.filter(opening => opening.kind === 'door').reduce((sum, opening) => sum + opening.count, 0);
+  const windows = takeoff.openings.filter(opening => opening.kind === 'window').reduce((sum, opening) => sum + opening.count, 0);
+  const openingArea = doors * STANDARD_OPENINGS.door.width * STANDARD_OPENINGS.door.height
+    + windows * STANDARD_OPENINGS.window.width * STANDARD_OPENINGS.window.height;
+
+  const { centrelineLengthM, thicknessMm } = takeoff.walls;
+  const grossWalling = centrelineLengthM * wallHeight;
+  const walling = grossWalling > openingArea ? grossWalling - openingArea : grossWalling;
+  if (walling > 0) {
+    const deduction = walling < grossWalling
+      ? ` less ${doors} door(s) and ${windows} window(s) (${round2(openingArea)} m2)`
+      : '';
+    const basis = `${centrelineLengthM.toFixed(2)} m of wall centreline x ${wallHeight.toFixed(2)} m height${deduction}`;
+
+    items.push(measuredItem(
+      `${thicknessMm || 200}mm thick machine cut natural stone walling in cement and sand (1:4) mortar`,
+      'm2', walling, INDICATIVE_RATES_KES.walling, 0.05, 'Masonry', basis
+    ));
+    items.push(measuredItem(
+      '12mm thick cement and sand (1:4) plaster to walls',
+      'm2', walling * 2, INDICATIVE_RATES_KES.plaster, 0.05, 'Surface finishes', `Both faces of ${round2(walling)} m2 of walling`
+    ));
+  }
+
+  const roomArea = takeoff.rooms.reduce((sum, room) => sum + room.areaM2, 0);
+  if (roomArea > 0) {
+    const basis = `${takeoff.rooms.length} room(s) measured from the room outlines`;
+    items.push(measuredItem(
+      '40mm cement and sand (1:3) screed with ceramic floor tiles',
+      'm2', roomArea, INDICATIVE_RATES_KES.floorFinish, 0.05, 'Surface finishes', basis
+    ));
+    items.push(measuredItem(
+      'Gypsum board ceiling on timber brandering including skim coat and paint',
+      'm2', roomArea, INDICATIVE_RATES_KES.ceiling, 0.05, 'Linings/Sheathing/Dry partitioning', basis
+    ));
+
+    const perimeter = takeoff.rooms.reduce((sum, room) => sum + room.perimeterM, 0);
+    const skirting = perimeter - doors * STANDARD_OPENINGS.door.width * 2;
+    if (skirting > 0) {
+      items.push(measuredItem(
+        '100mm high ceramic tile skirting',
+        'm', skirting, INDICATIVE_RATES_KES.skirting, 0.05, 'Surface finishes',
+        `Room perimeters (${round2(perimeter)} m) less both sides of ${doors} door opening(s)`
+      ));
+    }
+  }
+
+  for (const opening of takeoff.openings) {
+    const isDoor = opening.kind === 'door';
+    items.push(measuredItem(
+      `${isDoor ? 'Door' : 'Window'} complete with frame and ironmongery, type ${opening.blockName}`,
+      'nr', opening.count, isDoor ? INDICATIVE_RATES_KES.door : INDICATIVE_RATES_KES.window, 0, 'Windows/Doors/Stairs',
+      `${opening.count} block reference(s) on layer ${opening.layer}`
+    ));
+  }
+
+  return items.map((item, index) => ({ itemNumber: String(index + 1), ...item }));
+};
+
+export interface CadAnalysisMeta {
+  projectName: string;
+  fileName: string;
+  fileType: string;
+}
+
+// Confidence lost for each thing the takeoff had to guess or could not measure
+const CONFIDENCE_PENALTIES = {
+  unitsInferred: 0.4, // Every quantity scales with the units
+  noWallLayer: 0.25,
+  noRooms: 0.15,
+  looseOpenings: 0.1,
+};
+
+/**
+ * How far the quantities of a takeoff can be relied on, from 0 to 1
+ * A drawing with declared units, wall layers, closed rooms and opening blocks is measured exactly;
+ * each guess or gap lowers the confidence, and a takeoff that measured nothing has none
+ */
+export const cadTakeoffConfidence = (takeoff: CadTakeoff, itemCount: number): number => {
+  if (itemCount === 0) return 0;
+
+  const looseOpenings = takeoff.openings.length === 0 &&
+    takeoff.layers.some(layer => (layer.role === 'doors' || layer.role === 'windows') && layer.entityCount > 0);
+  const penalty =
+    (takeoff.unitsInferred ? CONFIDENCE_PENALTIES.unitsInferred : 0) +
+    (takeoff.walls.layers.length === 0 ? CONFIDENCE_PENALTIES.noWallLayer : 0) +
+    (takeoff.rooms.length === 0 ? CONFIDENCE_PENALTIES.noRooms : 0) +
+    (looseOpenings ? CONFIDENCE_PENALTIES.looseOpenings : 0);
+
+  return round2(Math.max(0, 1 - penalty));
+};
+
+/**
+ * Build an analysis result from a CAD takeoff
+ * Quantities are measured, not estimated; the confidence only drops for what the takeoff had to guess
+ */
+export const buildCadAnalysis = (
+  takeoff: CadTakeoff,
+  meta: CadAnalysisMeta,
+  options: CadQuantityOptions = {}
+): AnalysisResult => {
+  const billOfQuantities = buildCadBillOfQuantities(takeoff, options);
+  const confidence = cadTakeoffConfidence(takeoff, billOfQuantities.length);
+
+  return {
+    summary: {
+      ...computeSummaryTotals(billOfQuantities),
+      confidenceScore: confidence,
+      totalArea: takeoff.grossFloorAreaM2,
+    },
+    billOfQuantities,
+    intelligentSuggestions: takeoff.warnings.map(warning => ({
+      suggestionType: 'Drawing Check',
+      originalItem: meta.fileName,
+      suggestion: warning,
+      impact: 'Medium',
+    })),
+    projectName: meta.projectName,
+    metadata: {
+      analysisDate: new Date(),
+      fileType: meta.fileType,
+      fileName: meta.fileName,
+      confidence,
+      source: 'cad',
+      cadTakeoff: takeoff,
+    },
+  };
+};
@@ -0,0 +1,298 @@
+import {
+  AnalysisResult,
+  CashFlowActivity,
+  CashFlowConfig,
+  CashFlowForecast,
+  CashFlowMonth,
+  CashFlowProfile,
+  CashFlowTrade,
+  CurrencyCode
+} from '../types';
+import { groupFor } from './bqClassification';
+import { currencyOf, roundMoney } from './currency';
+import { buildEstimateSummary } from './estimateSummary';
+
+/**
+ * Cash-flow forecast
+ * Spreads the cost of a project's BQs over its programme: each trade bill over
+ * its explicit activity dates or its standard share of the programme, along an
+ * S-curve or evenly. Preliminaries run evenly over the whole programme and the
+ * other summary additions follow the measured work. Monthly valuations then
+ * have VAT added and retention held (up to its limit), half released at
+ * completion and half at the end of the defects liability period, and are paid
+ * after the payment lag
+ */
+
+export const DEFAULT_CASH_FLOW_CONFIG: CashFlowConfig = {
+  activities: [],
+  retentionRate: 0.1,
+  retentionLimit: 0.05,
+  defectsLiabilityMonths: 6,
+  paymentLagMonths: 1,
+};
+
+export const MAX_ACTIVITIES = 50;
+
+// Standard share of the programme each SMM7 work section group works in
+export const STANDARD_TRADE_WINDOWS: Record<string, [number, number]> = {
+  A: [0, 1],
+  C: [0, 0.1],
+  D: [0, 0.2],
+  E: [0.05, 0.6],
+  F: [0.15, 0.6],
+  G: [0.3, 0.7],
+  H: [0.45, 0.75],
+  J: [0.4, 0.7],
+  K: [0.6, 0.9],
+  L: [0.55, 0.9],
+  M: [0.65, 1],
+  N: [0.85, 1],
+  P: [0.75, 1],
+  Q: [0.7, 1],
+  R: [0.1, 0.9],
+  S: [0.3, 0.95],
+  V: [0.3, 0.95],
+  W: [0.6, 1],
+};
+
+// Summary additions spread evenly over the programme rather than with the work
+const TIME_RELATED_ADDITIONS = new Set(['preliminaries']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const monthStart = (date: Date, offset: number = 0): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1));
+
+const monthLabel = (date: Date): string => date.toISOString().slice(0, 7);
+
+/**
+ * Share of a trade's work done by a point in its window (0-1)
+ * The S-curve starts and finishes slowly and peaks mid-window
+ */
+export const cumulativeShare = (profile: CashFlowProfile, progress: number): number => {
+  const t = Math.min(1, Math.max(0, progress));
+  return profile === 'linear' ? t : t * t * (3 - 2 * t);
+};
+
+// Share of a window's work falling in each month
+const spread = (monthStarts: Date[], start: Date, end: Date, profile: CashFlowProfile): number[] => {
+  const length = Math.max(end.getTime() - start.getTime(), DAY_MS);
+  const at = (date: Date) => cumulativeShare(profile, (date.getTime() - start.getTime()) / length);
+  return monthStarts.map((from, index) => {
+    const to = monthStarts[index + 1] || monthStart(from, 1);
+    return at(to) - at(from);
+  });
+};
+
+// Round a series so its running total is rounded, keeping the total exact
+const roundSeries = (values: number[], currency: CurrencyCode): number[] => {
+  let cumulative = 0;
+  let rounded = 0;
+  return values.map(value => {
+    cumulative += value;
+    const next = roundMoney(cumulative, currency);
+    const share = roundMoney(next - rounded, currency);
+    rounded = next;
+    return share;
+  });
+};
+
+const findActivity = (activities: CashFlowActivity[], code: string | undefined, label: string): CashFlowActivity | undefined =>
+  activities.find(activity => {
+    const trade = activity.trade.trim().toLowerCase();
+    return trade === label.toLowerCase() || (code !== undefined && trade === code.toLowerCase());
+  });
+
+/**
+ * Forecast the monthly and cumulative cash flow of one or more BQs
+ * @param programme Start and end of construction; activity dates outside it extend the forecast
+ * @throws Error when the programme ends before it starts or the BQs are in different currencies
+ */
+export const buildCashFlowForecast = (
+  bqs: Array<{ analysisId?: string; analysis: AnalysisResult }>,
+  programme: { startDate: Date; endDate: Date },
+  config: CashFlowConfig = DEFAULT_CASH_FLOW_CONFIG,
+  builtAt: Date = new Date()
+): CashFlowForecast => {
+  const programmeStart = new Date(programme.startDate);
+  const programmeEnd = new Date(programme.endDate);
+  if (!(programmeEnd.getTime() > programmeStart.getTime())) throw new Error('The programme must end after it starts');
+
+  const currencies = Array.from(new Set(bqs.map(bq => currencyOf(bq.analysis))));
+  if (currencies.length > 1) throw new Error(`The BQs are in different currencies (${currencies.join(', ')}); convert them to one first`);
+  const currency = currencies[0] || 'KES';
+
+  // Trade bills across every BQ, and the summary additions split by how they are spread
+  const tradeAmounts = new Map<string, { code?: string; amount: number }>();
+  let timeRelated = 0;
+  let workRelated = 0;
+  let subtotal = 0;
+  let vat = 0;
+  for (const { analysis } of bqs) {
+    for (const item of analysis.billOfQuantities) {
+      const { code, label } = groupFor(item, 'trade');
+      const trade = tradeAmounts.get(label) || { code, amount: 0 };
+      trade.amount += item.totalCostKES;
+      tradeAmounts.set(label, trade);
+    }
+    const summary = buildEstimateSummary(analysis);
+    for (const line of summary.lines) {
+      if (TIME_RELATED_ADDITIONS.has(line.key)) timeRelated += line.amount;
+      else workRelated += line.amount;
+    }
+    subtotal += summary.subtotal;
+    vat += summary.vat;
+  }
+
+  const duration = programmeEnd.getTime() - programmeStart.getTime();
+  const trades: CashFlowTrade[] = Array.from(tradeAmounts.entries()).map(([label, trade]) => {
+    const activity = findActivity(config.activities, trade.code, label);
+    if (activity) {
+      return { trade: label, ...(trade.code && { code: trade.code }), amount: roundMoney(trade.amount, currency), startDate: new Date(activity.startDate), endDate: new Date(activity.endDate), profile: activity.profile, source: 'activity' };
+    }
+    const [from, to] = (trade.code && STANDARD_TRADE_WINDOWS[trade.code]) || [0, 1];
+    return {
+      trade: label,
+      ...(trade.code && { code: trade.code }),
+      amount: roundMoney(trade.amount, currency),
+      startDate: new Date(programmeStart.getTime() + from * duration),
+      endDate: new Date(programmeStart.getTime() + to * duration),
+      profile: 's-curve',
+      source: 'standard',
+    };
+  });
+
+  const startDate = new Date(Math.min(programmeStart.getTime(), ...trades.map(trade => trade.startDate.getTime())));
+  const endDate = new Date(Math.max(programmeEnd.getTime(), ...trades.map(trade => trade.endDate.getTime())));
+
+  // Valuation months run to completion; retention and the payment lag run on past it
+  const completionIndex = (endDate.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + endDate.getUTCMonth() - startDate.getUTCMonth();
+  const finalReleaseIndex = completionIndex + (config.retentionRate > 0 ? config.defectsLiabilityMonths : 0);
+  const monthCount = finalReleaseIndex + config.paymentLagMonths + 1;
+  const monthStarts = Array.from({ length: monthCount }, (_, index) => monthStart(startDate, index));
+  const valuationMonths = monthStarts.slice(0, completionIndex + 1);
+
+  const measured = new Array(monthCount).fill(0);
+  for (const trade of trades) {
+    spread(valuationMonths, trade.startDate, trade.endDate, trade.profile).forEach((share, index) => { measured[index] += share * trade.amount; });
+  }
+  const measuredTotal = measured.reduce((sum, value) => sum + value, 0);
+  const even = spread(valuationMonths, programmeStart, programmeEnd, 'linear');
+  const rawValues = measured.map((value, index) =>
+    value + (even[index] || 0) * timeRelated + (measuredTotal > 0 ? (value / measuredTotal) * workRelated : (even[index] || 0) * workRelated)
+  );
+
+  const values = roundSeries(rawValues, currency);
+  const totalValue = roundMoney(values.reduce((sum, value) => sum + value, 0), currency);
+  const vatShare = subtotal > 0 ? vat / subtotal : 0;
+  const vats = roundSeries(values.map(value => value * vatShare), currency);
+
+  const retentionLimit = roundMoney(config.retentionLimit * totalValue, currency);
+  let retentionHeld = 0;
+  const retentions = values.map(value => {
+    const retention = roundMoney(Math.min(value * config.retentionRate, retentionLimit - retentionHeld), currency);
+    retentionHeld = roundMoney(retentionHeld + retention, currency);
+    return retention;
+  });
+  const releases = new Array(monthCount).fill(0);
+  const firstHalf = roundMoney(retentionHeld / 2, currency);
+  releases[completionIndex] += firstHalf;
+  releases[finalReleaseIndex] = roundMoney(releases[finalReleaseIndex] + retentionHeld - firstHalf, currency);
+
+  const certified = values.map((value, index) => roundMoney(value - retentions[index] + vats[index] + releases[index], currency));
+
+  let cumulativeValue = 0;
+  let cumulativePayment = 0;
+  const months: CashFlowMonth[] = monthStarts.map((date, index) => {
+    cumulativeValue = roundMoney(cumulativeValue + values[index], currency);
+    const payment = index >= config.paymentLagMonths ? certified[index - config.paymentLagMonths] : 0;
+    cumulativePayment = roundMoney(cumulativePayment + payment, currency);
+    return {
+      month: monthLabel(date),
+      value: values[index],
+      cumulativeValue,
+      cumulativePercent: totalValue > 0 ? Math.round((cumulativeValue / totalValue) * 10000) / 100 : 0,
+      vat: vats[index],
+      retention: retentions[index],
+      retentionReleased: releases[index],
+      certified: certified[index],
+      payment,
+      cumulativePayment,
+    };
+  });
+
+  return {
+    analysisIds: bqs.map(bq => bq.analysisId).filter((id): id is string => Boolean(id)),
+    currency,
+    startDate,
+    endDate,
+    config,
+    trades,
+    months,
+    totals: {
+      value: totalValue,
+      vat: roundMoney(vats.reduce((sum, value) => sum + value, 0), currency),
+      retentionHeld,
+      payments: cumulativePayment,
+    },
+    builtAt,
+  };
+};
+
+const parseDate = (value: any, label: string): Date => {
+  const date = new Date(value);
+  if (value === undefined || value === null || value === '' || isNaN(date.getTime())) throw new Error(`${label} must be a valid date`);
+  return date;
+};
+
+const fraction = (value: any, fallback: number, label: string): number => {
+  const number = value === undefined ? fallback : Number(value);
+  if (!Number.isFinite(number) || number < 0 || number > 1) throw new Error(`${label} must be between 0 and 1`);
+  return number;
+};
+
+const wholeMonths = (value: any, fallback: number, max: number, label: string): number => {
+  const number = value === undefined ? fallback : Number(value);
+  if (!Number.isInteger(number) || number < 0 || number > max) throw new Error(`${label} must be a whole number of months from 0 to ${max}`);
+  return number;
+};
+
+/**
+ * Check and tidy cash-flow settings sent by a client
+ * @throws Error describing the first problem found
+ */
+export const parseCashFlowConfig = (input: any): CashFlowConfig => {
+  if (!input || typeof input !== 'object') throw new Error('Cash-flow settings must be an object');
+
+  const startDate = input.startDate !== undefined ? parseDate(input.startDate, 'Start date') : undefined;
+  const endDate = input.endDate !== undefined ? parseDate(input.endDate, 'End date') : undefined;
+  if ((startDate === undefined) !== (endDate === undefined)) throw new Error('Give both programme dates or neither');
+  if (startDate && endDate && endDate <= startDate) throw new Error('The programme must end after it starts');
+
+  const activities = input.activities ?? [];
+  if (!Array.isArray(activities)) throw new Error('Activities must be a list');
+  if (activities.length > MAX_ACTIVITIES) throw new Error(`At most ${MAX_ACTIVITIES} activities are allowed`);
+
+  const parsed: CashFlowActivity[] = activities.map((activity: any, index: number) => {
+    const trade = typeof activity?.trade === 'string' ? activity.trade.trim() : '';
+    if (!trade) throw new Error(`Activity ${index + 1} needs a trade`);
+    const activityStart = parseDate(activity.startDate, `Activity ${index + 1} (${trade}) start date`);
+    const activityEnd = parseDate(activity.endDate, `Activity ${index + 1} (${trade}) end date`);
+    if (activityEnd <= activityStart) throw new Error(`Activity ${index + 1} (${trade}) must end after it starts`);
+    const profile = activity.profile ?? 's-curve';
+    if (profile !== 's-curve' && profile !== 'linear') throw new Error(`Activity ${index + 1} (${trade}) profile must be s-curve or linear`);
+    return { trade, startDate: activityStart, endDate: activityEnd, profile };
+  });
+  const trades = parsed.map(activity => activity.trade.toLowerCase());
+  const repeated = trades.find((trade, index) => trades.indexOf(trade) !== index);
+  if (repeated) throw new Error(`More than one activity is given for ${repeated}`);
+
+  return {
+    ...(startDate && endDate && { startDate, endDate }),
+    activities: parsed,
+    retentionRate: fraction(input.retentionRate, DEFAULT_CASH_FLOW_CONFIG.retentionRate, 'Retention rate'),
+    retentionLimit: fraction(input.retentionLimit, DEFAULT_CASH_FLOW_CONFIG.retentionLimit, 'Retention limit'),
+    defectsLiabilityMonths: wholeMonths(input.defectsLiabilityMonths, DEFAULT_CASH_FLOW_CONFIG.defectsLiabilityMonths, 24, 'The defects liability period'),
+    paymentLagMonths: wholeMonths(input.paymentLagMonths, DEFAULT_CASH_FLOW_CONFIG.paymentLagMonths, 6, 'The payment lag'),
+  };
+};
@@ -0,0 +1,91 @@
+import ExcelJS from 'exceljs';
+import { CashFlowForecast } from '../types';
+import { CURRENCIES } from './currency';
+
+/**
+ * Excel export for cash-flow forecasts
+ * Produces the monthly cash flow with live cumulative and certificate formulas,
+ * ready to chart as an S-curve, and the trade bills with the dates they were spread over
+ */
+
+const PERCENT_FORMAT = '0.0%';
+
+const styleHeaderRow = (row: ExcelJS.Row) => {
+  row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  row.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF0D47A1' } };
+    cell.border = { bottom: { style: 'thin' } };
+  });
+};
+
+const addTitle = (sheet: ExcelJS.Worksheet, title: string, subtitle: string) => {
+  sheet.addRow([title]).font = { bold: true, size: 14 };
+  sheet.addRow([subtitle]).font = { italic: true, color: { argb: 'FF616161' } };
+  sheet.addRow([]);
+};
+
+const formatDate = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Build an XLSX workbook for a cash-flow forecast
+ * @param forecast The forecast
+ * @param projectName Shown under each sheet title
+ * @returns Promise<Buffer> The workbook file contents
+ */
+export const buildCashFlowWorkbook = async (forecast: CashFlowForecast, projectName: string): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Metrrik';
+  workbook.created = new Date();
+  const digits = CURRENCIES[forecast.currency].minorUnits;
+  const moneyFormat = digits > 0 ? `#,##0.${'0'.repeat(digits)}` : '#,##0';
+  const { config } = forecast;
+  const subtitle = `${projectName} — ${formatDate(forecast.startDate)} to ${formatDate(forecast.endDate)}, ` +
+    `retention ${config.retentionRate * 100}% to ${config.retentionLimit * 100}%, paid ${config.paymentLagMonths} month(s) after valuation`;
+
+  const sheet = workbook.addWorksheet('Cash Flow');
+  sheet.columns = [{ width: 10 }, ...new Array(9).fill({ width: 16 })];
+  addTitle(sheet, 'CASH-FLOW FORECAST', subtitle);
+  styleHeaderRow(sheet.addRow([
+    'Month', `Value (${forecast.currency})`, 'Cumulative', 'Cumulative %', 'VAT', 'Retention', 'Released', 'Certified', 'Payment', 'Cumulative payment',
+  ]));
+
+  const firstRow = sheet.rowCount + 1;
+  const lastRow = firstRow + forecast.months.length - 1;
+  forecast.months.forEach(month => {
+    const row = sheet.addRow([month.month, month.value]);
+    const r = row.number;
+    row.getCell(3).value = { formula: r === firstRow ? `B${r}` : `C${r - 1}+B${r}`, result: month.cumulativeValue };
+    row.getCell(4).value = { formula: `IF(SUM($B$${firstRow}:$B$${lastRow})=0,0,C${r}/SUM($B$${firstRow}:$B$${lastRow}))`, result: month.cumulativePercent / 100 };
+    row.getCell(5).value = month.vat;
+    row.getCell(6).value = month.retention;
+    row.getCell(7).value = month.retentionReleased;
+    row.getCell(8).value = { formula: `B${r}-F${r}+E${r}+G${r}`, result: month.certified };
+    row.getCell(9).value = r - config.paymentLagMonths < firstRow
+      ? 0
+      : { formula: `H${r - config.paymentLagMonths}`, result: month.payment };
+    row.getCell(10).value = { formula: r === firstRow ? `I${r}` : `J${r - 1}+I${r}`, result: month.cumulativePayment };
+    [2, 3, 5, 6, 7, 8, 9, 10].forEach(column => { row.getCell(column).numFmt = moneyFormat; });
+    row.getCell(4).numFmt = PERCENT_FORMAT;
+  });
+
+  const totalRow = sheet.addRow(['TOTAL']);
+  [2, 5, 6, 7, 8, 9].forEach(column => {
+    const letter = String.fromCharCode(64 + column);
+    totalRow.getCell(column).value = { formula: `SUM(${letter}${firstRow}:${letter}${lastRow})` };
+    totalRow.getCell(column).numFmt = moneyFormat;
+  });
+  totalRow.font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 4 }];
+
+  const tradesSheet = workbook.addWorksheet('Trades');
+  tradesSheet.columns = [{ width: 40 }, { width: 18 }, { width: 12 }, { width: 12 }, { width: 10 }, { width: 12 }];
+  addTitle(tradesSheet, 'TRADES', subtitle);
+  styleHeaderRow(tradesSheet.addRow(['Trade', `Amount (${forecast.currency})`, 'Start', 'End', 'Profile', 'Dates from']));
+  forecast.trades.forEach(trade => {
+    const row = tradesSheet.addRow([trade.trade, trade.amount, formatDate(trade.startDate), formatDate(trade.endDate), trade.profile, trade.source]);
+    row.getCell(2).numFmt = moneyFormat;
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+};
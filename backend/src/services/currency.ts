@@ -0,0 +1,223 @@
+import { getDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { AnalysisResult, CurrencyCode, CurrencyConversion, ExchangeRate } from '../types';
+import { computeLineWastage } from './bqReconciliation';
+
+/**
+ * Currencies and exchange rates
+ * BQs are stored in their project's base currency and converted for display and
+ * export with the dated exchange rates admins keep in the exchange_rates table.
+ * Every conversion records the rate it used, and amounts are rounded to the
+ * minor units of the currency they end up in
+ */
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'KES';
+
+export interface CurrencyInfo {
+  name: string;
+  minorUnits: number; // Decimal places amounts are rounded to (ISO 4217)
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  KES: { name: 'Kenyan Shilling', minorUnits: 2 },
+  UGX: { name: 'Ugandan Shilling', minorUnits: 0 },
+  TZS: { name: 'Tanzanian Shilling', minorUnits: 2 },
+  RWF: { name: 'Rwandan Franc', minorUnits: 0 },
+  USD: { name: 'US Dollar', minorUnits: 2 },
+  EUR: { name: 'Euro', minorUnits: 2 },
+  GBP: { name: 'Pound Sterling', minorUnits: 2 },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === 'string' && CURRENCY_CODES.includes(value as CurrencyCode);
+
+export const currencyOf = (analysis: Pick<AnalysisResult, 'metadata'>): CurrencyCode =>
+  analysis.metadata?.currency || DEFAULT_CURRENCY;
+
+/**
+ * Round an amount to the minor units of a currency, halves away from zero
+ */
+export const roundMoney = (amount: number, currency: CurrencyCode): number => {
+  const factor = 10 ** CURRENCIES[currency].minorUnits;
+  return (Math.sign(amount) * Math.round(Math.abs(amount) * factor + 1e-9)) / factor;
+};
+
+/**
+ * Format an amount with its currency's decimal places, e.g. "UGX 1,250,000"
+ */
+export const formatMoney = (amount: number, currency: CurrencyCode, withCode: boolean = true): string => {
+  const digits = CURRENCIES[currency].minorUnits;
+  const formatted = roundMoney(amount, currency).toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  return withCode ? `${currency} ${formatted}` : formatted;
+};
+
+/**
+ * Pick the rate for a currency pair in effect on a date
+ * The latest rate quoted either way round wins; an inverted rate is used as 1 / rate
+ */
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  asOf: Date = new Date()
+): { rate: ExchangeRate; inverted: boolean } | null => {
+  let best: { rate: ExchangeRate; inverted: boolean } | null = null;
+
+  for (const rate of rates) {
+    if (!rate.isActive || rate.rate <= 0 || new Date(rate.effectiveDate) > asOf) continue;
+
+    const direct = rate.baseCurrency === from && rate.quoteCurrency === to;
+    const inverted = rate.baseCurrency === to && rate.quoteCurrency === from;
+    if (!direct && !inverted) continue;
+
+    if (!best || new Date(rate.effectiveDate) > new Date(best.rate.effectiveDate)) {
+      best = { rate, inverted };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * The audit record for converting with a table rate
+ */
+export const buildConversion = (
+  from: CurrencyCode,
+  to: CurrencyCode,
+  match: { rate: ExchangeRate; inverted: boolean },
+  convertedAt: Date = new Date()
+): CurrencyConversion => ({
+  from,
+  to,
+  rate: match.inverted ? 1 / match.rate.rate : match.rate.rate,
+  ...(match.rate._id && { exchangeRateId: match.rate._id.toString() }),
+  effectiveDate: match.rate.effectiveDate,
+  source: match.rate.source,
+  inverted: match.inverted,
+  convertedAt,
+});
+
+export const convertAmount = (amount: number, conversion: CurrencyConversion): number =>
+  roundMoney(amount * conversion.rate, conversion.to);
+
+/**
+ * Convert every amount in a BQ
+ * Unit rates are converted and rounded, then line and summary totals are rebuilt
+ * from them so the converted BQ still adds up in the new currency. Lump sums in
+ * the summary configuration are converted too. The reconciliation report and the
+ * estimate summary are dropped because their amounts are in the old currency
+ */
+export const convertAnalysis = (analysis: AnalysisResult, conversion: CurrencyConversion): AnalysisResult => {
+  const from = currencyOf(analysis);
+  if (from !== conversion.from) {
+    throw new Error(`The BQ is in ${from}, not ${conversion.from}`);
+  }
+
+  const to = conversion.to;
+  const billOfQuantities = analysis.billOfQuantities.map(item => {
+    const unitRateKES = convertAmount(item.unitRateKES, conversion);
+    const totalCostKES = roundMoney(item.quantity * unitRateKES * (1 + item.wastageFactor), to);
+    return { ...item, unitRateKES, totalCostKES };
+  });
+
+  // The escalation allowance keeps its percentage of each trade
+  const escalation = analysis.metadata.escalation && {
+    ...analysis.metadata.escalation,
+    trades: analysis.metadata.escalation.trades.map(trade => ({
+      ...trade,
+      measuredCost: convertAmount(trade.measuredCost, conversion),
+      allowance: convertAmount(trade.allowance, conversion),
+    })),
+  };
+  if (escalation) {
+    escalation.measuredCost = roundMoney(escalation.trades.reduce((sum, trade) => sum + trade.measuredCost, 0), to);
+    escalation.allowance = roundMoney(escalation.trades.reduce((sum, trade) => sum + trade.allowance, 0), to);
+  }
+
+  const summaryConfig = analysis.summaryConfig && {
+    ...analysis.summaryConfig,
+    lines: analysis.summaryConfig.lines.map(line =>
+      line.kind === 'lumpSum' ? { ...line, amount: convertAmount(line.amount || 0, conversion) } : line
+    ),
+  };
+
+  const { reconciliation, estimateSummary, ...rest } = analysis;
+  return {
+    ...rest,
+    summary: {
+      ...analysis.summary,
+      totalEstimatedCostKES: roundMoney(billOfQuantities.reduce((sum, item) => sum + item.totalCostKES, 0), to),
+      totalWastageCostKES: roundMoney(billOfQuantities.reduce((sum, item) => sum + computeLineWastage(item), 0), to),
+      ...(escalation && { escalationAllowanceKES: escalation.allowance }),
+    },
+    billOfQuantities,
+    ...(summaryConfig && { summaryConfig }),
+    metadata: {
+      ...analysis.metadata,
+      currency: to,
+      conversions: [...(analysis.metadata.conversions || []), conversion],
+      ...(escalation && { escalation }),
+    },
+  };
+};
+
+/**
+ * Load the exchange rates quoted between two currencies, either way round
+ */
+export const loadExchangeRates = async (from: CurrencyCode, to: CurrencyCode): Promise<ExchangeRate[]> => {
+  const db = getDatabase();
+  return db.collection<ExchangeRate>('exchange_rates')
+    .find({
+      isActive: true,
+      $or: [
+        { baseCurrency: from, quoteCurrency: to },
+        { baseCurrency: to, quoteCurrency: from },
+      ],
+    })
+    .sort({ effectiveDate: -1 })
+    .toArray();
+};
+
+/**
+ * Look up the conversion between two currencies on a date
+ * @returns null when no conversion is needed
+ * @throws Error when the table has no rate for the pair on that date
+ */
+export const resolveConversion = async (
+  from: CurrencyCode,
+  to: CurrencyCode,
+  asOf: Date = new Date()
+): Promise<CurrencyConversion | null> => {
+  if (from === to) return null;
+
+  const match = findExchangeRate(await loadExchangeRates(from, to), from, to, asOf);
+  if (!match) {
+    throw new Error(`No ${from} to ${to} exchange rate is effective on ${asOf.toISOString().slice(0, 10)}`);
+  }
+
+  const conversion = buildConversion(from, to, match);
+  logger.info(`Converting ${from} to ${to} at ${conversion.rate} (rate of ${new Date(conversion.effectiveDate).toISOString().slice(0, 10)})`);
+  return conversion;
+};
+
+/**
+ * Convert a BQ to another currency with the rate in effect on a date
+ * A BQ already in that currency is returned unchanged
+ */
+export const convertAnalysisTo = async (
+  analysis: AnalysisResult,
+  to: CurrencyCode,
+  asOf: Date = new Date()
+): Promise<AnalysisResult> => {
+  const conversion = await resolveConversion(currencyOf(analysis), to, asOf);
+  return conversion ? convertAnalysis(analysis, conversion) : analysis;
+};
+
+/**
+ * One-line description of a conversion for exported documents
+ */
+export const describeConversion = (conversion: CurrencyConversion): string =>
+  `Converted from ${conversion.from} to ${conversion.to} at 1 ${conversion.from} = ${Number(conversion.rate.toPrecision(6))} ${conversion.to} ` +
+  `(rate effective ${new Date(conversion.effectiveDate).toISOString().slice(0, 10)}, ${conversion.source})`;
@@ -0,0 +1,266 @@
+import { logger } from '../utils/logger';
+import { AIResponseValidation, BQItem, DrawingPageSummary, DrawingPageType } from '../types';
+import { analyzeFloorPlanValidated, classifyDrawingPage } from './geminiService';
+import { isLLMConfigured } from './llmProviders';
+import { renderPdfPages, RenderedPdfPage } from './pdfPages';
+import { descriptionSimilarity, normalizeUnit } from './rateLibrary';
+import { computeSummaryTotals } from './bqReconciliation';
+
+/**
+ * Multi-page drawing set analysis
+ * Renders a PDF drawing set page by page, classifies each sheet, analyses the
+ * measurable sheets separately and merges the results into one BQ
+ */
+
+export const DRAWING_PAGE_TYPES: DrawingPageType[] = ['plan', 'elevation', 'section', 'schedule', 'title', 'other'];
+
+// Title sheets and drawing registers carry nothing to measure
+const SKIPPED_PAGE_TYPES: DrawingPageType[] = ['title'];
+
+// Description similarity above which items from different sheets are the same work
+export const DUPLICATE_SIMILARITY = 0.75;
+
+const TITLE_SHEET_PATTERN = /\b(drawing (list|register|index|schedule)|list of drawings|index of drawings|cover sheet|title sheet)\b/i;
+
+// Checked in this order, so plans win a tie with the sections or elevations referenced on them
+const PAGE_TYPE_PATTERNS: Array<[DrawingPageType, RegExp]> = [
+  ['plan', /\b((ground|first|second|third|upper|lower|basement|mezzanine|typical|roof|site|foundation|floor|location|block)\s+(floor\s+)?)?plan\b/gi],
+  ['section', /\b((cross|longitudinal)[\s-]+)?section(\s+[a-z0-9]{1,2}\s*[-–]\s*[a-z0-9]{1,2})?\b/gi],
+  ['elevation', /\b((front|rear|back|side|north|south|east|west|left|right|street)\s+)?elevations?\b/gi],
+  ['schedule', /\b((door|window|ironmongery|finish(es|ings)?|room|lintel|sanitary|bar bending)\s+schedule|schedule of [a-z]+)\b/gi],
+];
+
+const PAGE_CONTEXT: Record<DrawingPageType, string> = {
+  plan: 'Measure the floor areas, walls, openings and finishes shown on this plan.',
+  elevation: 'Measure the external walling, cladding, openings and roof coverings seen in elevation. Do not re-measure floor areas.',
+  section: 'Measure the foundations, floor and roof construction and storey heights shown in section.',
+  schedule: 'Quantify the doors, windows, finishes or other items listed in the schedule.',
+  title: '',
+  other: 'Measure any work detailed on this sheet.',
+};
+
+export interface PageClassification {
+  pageType: DrawingPageType;
+  title?: string;
+  classifiedBy: DrawingPageSummary['classifiedBy'];
+}
+
+export interface DrawingSetProgress {
+  stage: 'pages_split' | 'ai_called';
+  pageNumber?: number;
+  pageCount: number;
+}
+
+export interface DrawingSetOptions {
+  onProgress?: (progress: DrawingSetProgress) => void;
+  signal?: AbortSignal; // Stops before the next sheet is analysed
+}
+
+export interface PageAnalysis {
+  pageNumber: number;
+  pageType: DrawingPageType;
+  analysis: any; // Parsed AI response for the page
+}
+
+/**
+ * Classify a sheet from its text layer (title block and drawing labels)
+ * @returns null when the text does not say what the sheet is, e.g. a scanned page
+ */
+export const classifyPageByText = (text: string): PageClassification | null => {
+  const titleMatch = text.match(TITLE_SHEET_PATTERN);
+  if (titleMatch) return { pageType: 'title', title: titleMatch[0].trim(), classifiedBy: 'text' };
+
+  let best: { pageType: DrawingPageType; count: number; title: string } | null = null;
+  for (const [pageType, pattern] of PAGE_TYPE_PATTERNS) {
+    const matches = text.match(pattern) || [];
+    if (matches.length > 0 && (!best || matches.length > best.count)) {
+      // The most specific label, e.g. 'GROUND FLOOR PLAN' rather than 'PLAN'
+      const title = matches.reduce((longest, match) => (match.length > longest.length ? match : longest), '');
+      best = { pageType, count: matches.length, title: title.trim() };
+    }
+  }
+
+  return best ? { pageType: best.pageType, title: best.title, classifiedBy: 'text' } : null;
+};
+
+const classifyPage = async (page: RenderedPdfPage): Promise<PageClassification> => {
+  const byText = classifyPageByText(page.text);
+  if (byText) return byText;
+
+  if (isLLMConfigured('pageClassification')) {
+    try {
+      const response = JSON.parse(await classifyDrawingPage(page.image.toString('base64'), 'image/png'));
+      if (!response.error && DRAWING_PAGE_TYPES.includes(response.pageType)) {
+        return { pageType: response.pageType, title: response.title || undefined, classifiedBy: 'ai' };
+      }
+    } catch (error: any) {
+      logger.warn(`AI classification of page ${page.pageNumber} failed:`, error);
+    }
+  }
+
+  return { pageType: 'other', classifiedBy: 'default' };
+};
+
+const pageContext = (page: RenderedPdfPage, classification: PageClassification, pageCount: number): string =>
+  [
+    `This is page ${page.pageNumber} of ${pageCount} in a drawing set and is a ${classification.pageType} sheet${classification.title ? ` ("${classification.title}")` : ''}.`,
+    'Only measure work shown on this sheet; the other sheets are analysed separately.',
+    PAGE_CONTEXT[classification.pageType],
+  ].filter(Boolean).join(' ');
+
+const toNumber = (value: any): number => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+interface MergeCluster {
+  items: Array<{ item: any; pageNumber: number; pageType: DrawingPageType }>;
+}
+
+/**
+ * Merge per-page BQs into one BQ without duplicate items
+ * An item measured on several sheets is kept once. Plans cover different floors or
+ * areas, so their quantities are added; other sheets show the same work from another
+ * view, so the largest of their quantities is used if it exceeds the plan total.
+ * @returns A response in the shape returned by the AI for a single drawing
+ */
+export const mergePageAnalyses = (pages: PageAnalysis[]) => {
+  const clusters: MergeCluster[] = [];
+
+  for (const page of pages) {
+    for (const item of page.analysis.billOfQuantities || []) {
+      const cluster = clusters.find(candidate =>
+        !candidate.items.some(entry => entry.pageNumber === page.pageNumber) &&
+        normalizeUnit(candidate.items[0].item.unit) === normalizeUnit(item.unit) &&
+        descriptionSimilarity(candidate.items[0].item.description, item.description) >= DUPLICATE_SIMILARITY
+      );
+
+      if (cluster) {
+        cluster.items.push({ item, pageNumber: page.pageNumber, pageType: page.pageType });
+      } else {
+        clusters.push({ items: [{ item, pageNumber: page.pageNumber, pageType: page.pageType }] });
+      }
+    }
+  }
+
+  const billOfQuantities: BQItem[] = clusters.map((cluster, index) => {
+    const planEntries = cluster.items.filter(entry => entry.pageType === 'plan');
+    const planQuantity = planEntries.reduce((sum, entry) => sum + toNumber(entry.item.quantity), 0);
+    const largestOther = cluster.items
+      .filter(entry => entry.pageType !== 'plan')
+      .reduce<typeof cluster.items[number] | null>((largest, entry) =>
+        !largest || toNumber(entry.item.quantity) > toNumber(largest.item.quantity) ? entry : largest, null);
+
+    const usePlans = planEntries.length > 0 && (!largestOther || planQuantity >= toNumber(largestOther.item.quantity));
+    const measured = usePlans ? planEntries : [largestOther!];
+    const first = measured[0].item;
+
+    return {
+      itemNumber: String(index + 1),
+      description: first.description || '',
+      unit: first.unit || 'LS',
+      quantity: usePlans ? planQuantity : toNumber(first.quantity),
+      unitRateKES: toNumber(first.unitRateKES),
+      wastageFactor: toNumber(first.wastageFactor ?? 0.05),
+      totalCostKES: measured.reduce((sum, entry) => sum + toNumber(entry.item.totalCostKES), 0),
+      category: first.category,
+      sourcePages: Array.from(new Set(cluster.items.map(entry => entry.pageNumber))).sort((a, b) => a - b),
+    };
+  });
+
+  const totals = computeSummaryTotals(billOfQuantities);
+  const confidences = pages.map(page => toNumber(page.analysis.summary?.confidenceScore)).filter(score => score > 0);
+  const totalArea = pages
+    .filter(page => page.pageType === 'plan')
+    .reduce((sum, page) => sum + toNumber(page.analysis.summary?.totalArea), 0);
+
+  const seenSuggestions = new Set<string>();
+  const intelligentSuggestions = pages
+    .flatMap(page => page.analysis.intelligentSuggestions || [])
+    .filter((suggestion: any) => {
+      const key = (suggestion.suggestion || '').trim().toLowerCase();
+      if (!key || seenSuggestions.has(key)) return false;
+      seenSuggestions.add(key);
+      return true;
+    });
+
+  return {
+    summary: {
+      ...totals,
+      confidenceScore: confidences.length > 0
+        ? Math.round((confidences.reduce((sum, score) => sum + score, 0) / confidences.length) * 100) / 100
+        : 0.85,
+      totalArea,
+    },
+    billOfQuantities,
+    intelligentSuggestions,
+  };
+};
+
+/**
+ * Analyse a PDF drawing set page by page
+ * @param data The PDF file contents
+ * @returns The merged AI response, what was found on each page and the model calls it took
+ */
+export const analyzeDrawingSet = async (
+  data: Buffer,
+  projectName?: string,
+  projectType?: string,
+  options: DrawingSetOptions = {}
+): Promise<{ analysis: ReturnType<typeof mergePageAnalyses>; pages: DrawingPageSummary[]; validation: AIResponseValidation }> => {
+  const rendered = await renderPdfPages(data);
+  logger.info(`Rendered ${rendered.length} drawing pages for ${projectName || 'unnamed project'}`);
+  options.onProgress?.({ stage: 'pages_split', pageCount: rendered.length });
+
+  const analyses: PageAnalysis[] = [];
+  const pages: DrawingPageSummary[] = [];
+
+  for (const page of rendered) {
+    options.signal?.throwIfAborted();
+    const classification = await classifyPage(page);
+    const summary: DrawingPageSummary = {
+      pageNumber: page.pageNumber,
+      pageType: classification.pageType,
+      ...(classification.title && { title: classification.title }),
+      classifiedBy: classification.classifiedBy,
+      analyzed: false,
+      itemCount: 0,
+    };
+    pages.push(summary);
+
+    if (SKIPPED_PAGE_TYPES.includes(classification.pageType)) continue;
+
+    options.onProgress?.({ stage: 'ai_called', pageNumber: page.pageNumber, pageCount: rendered.length });
+    try {
+      const { value: response, attempts } = await analyzeFloorPlanValidated(
+        page.image.toString('base64'),
+        'image/png',
+        projectName,
+        projectType,
+        pageContext(page, classification, rendered.length)
+      );
+
+      analyses.push({ pageNumber: page.pageNumber, pageType: classification.pageType, analysis: response });
+      summary.analyzed = true;
+      summary.itemCount = response.billOfQuantities.length;
+      summary.aiAttempts = attempts;
+    } catch (error: any) {
+      logger.warn(`Analysis of drawing page ${page.pageNumber} failed:`, error);
+      summary.error = error.message || 'Analysis failed';
+    }
+  }
+
+  if (analyses.length === 0) {
+    throw new Error('No page of the drawing set could be analysed');
+  }
+
+  const analysedPages = pages.filter(page => page.aiAttempts);
+  return {
+    analysis: mergePageAnalyses(analyses),
+    pages,
+    validation: {
+      attempts: analysedPages.reduce((sum, page) => sum + (page.aiAttempts || 0), 0),
+      repaired: analysedPages.some(page => (page.aiAttempts || 0) > 1),
+    },
+  };
+};
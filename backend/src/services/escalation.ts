@@ -0,0 +1,216 @@
+import { getDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { AnalysisResult, BQItem, EscalationAllowance, EscalationBasis, EscalationTrade, PriceIndex } from '../types';
+import { groupFor } from './bqClassification';
+import { currencyOf, roundMoney } from './currency';
+
+/**
+ * Cost escalation
+ * Projects a BQ priced at one date forward to a tender date or the midpoint of
+ * construction with the construction price indices admins keep in the
+ * price_indices table. Each trade is escalated on its own index, or on the
+ * all-trades index when it has none. Past the latest published index, a series
+ * is projected at its trailing annual rate unless a rate is stated. The
+ * allowance is a separate summary line; item rates are left as priced
+ */
+
+// Series name of the all-trades index
+export const ALL_TRADES = 'All';
+
+const MONTH_MS = (365.25 / 12) * 24 * 60 * 60 * 1000;
+
+export interface EscalationTarget {
+  baseDate: Date;
+  tenderDate?: Date;
+  constructionStart?: Date;
+  constructionMonths?: number;
+  annualRate?: number;
+}
+
+export const monthStart = (date: Date): Date => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const wholeMonthsBetween = (from: Date, to: Date): number =>
+  (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+
+/**
+ * Midpoint of a construction period, when half the work is taken to be priced
+ */
+export const constructionMidpoint = (start: Date, months: number): Date =>
+  new Date(start.getTime() + (months / 2) * MONTH_MS);
+
+/**
+ * The date a BQ is escalated to and on what basis: the tender date, or the midpoint of construction
+ */
+export const escalationTargetDate = (target: EscalationTarget): { basis: EscalationBasis; targetDate: Date } => {
+  if (target.constructionStart && target.constructionMonths) {
+    return { basis: 'midpoint', targetDate: constructionMidpoint(target.constructionStart, target.constructionMonths) };
+  }
+  if (target.tenderDate) return { basis: 'tender', targetDate: target.tenderDate };
+  throw new Error('A tender date, or a construction start and duration, is required');
+};
+
+// Active entries of one series, oldest first
+const seriesOf = (indices: PriceIndex[], series: string): PriceIndex[] =>
+  indices
+    .filter(index => index.isActive && index.trade === series)
+    .sort((a, b) => new Date(a.period).getTime() - new Date(b.period).getTime());
+
+/**
+ * Annual rate a series has moved at over its last twelve months or more
+ * @returns null when the series has less than a year of history
+ */
+export const trailingAnnualRate = (series: PriceIndex[]): number | null => {
+  if (series.length < 2) return null;
+  const latest = series[series.length - 1];
+
+  const earlier = [...series].reverse().find(index => wholeMonthsBetween(new Date(index.period), new Date(latest.period)) >= 12);
+  if (!earlier || earlier.value <= 0) return null;
+
+  const months = wholeMonthsBetween(new Date(earlier.period), new Date(latest.period));
+  return (latest.value / earlier.value) ** (12 / months) - 1;
+};
+
+/**
+ * Index of a series for the month of a date
+ * Past the latest published month the index is projected at the stated rate,
+ * or the series' trailing annual rate
+ * @returns null when the series does not reach back to the date or cannot be projected
+ */
+export const indexAt = (
+  series: PriceIndex[],
+  date: Date,
+  statedAnnualRate?: number
+): { value: number; projected: boolean; annualRate?: number } | null => {
+  const month = monthStart(date);
+  const published = [...series].reverse().find(index => new Date(index.period) <= month);
+  if (!published) return null;
+
+  const latest = series[series.length - 1];
+  if (published !== latest || wholeMonthsBetween(new Date(latest.period), month) === 0) {
+    return { value: published.value, projected: false };
+  }
+
+  const annualRate = statedAnnualRate ?? trailingAnnualRate(series);
+  if (annualRate === null) return null;
+
+  const months = wholeMonthsBetween(new Date(latest.period), month);
+  return { value: latest.value * (1 + annualRate) ** (months / 12), projected: true, annualRate };
+};
+
+const tradeOf = (item: BQItem): string => groupFor(item, 'trade').code ?? ALL_TRADES;
+
+const formatPeriod = (date: Date): string => monthStart(date).toISOString().slice(0, 7);
+
+/**
+ * Work out the escalation allowance for a BQ and record it with the estimate
+ * @throws Error when the target is before the base date, or no index covers a trade
+ */
+export const projectEscalation = (
+  analysis: AnalysisResult,
+  indices: PriceIndex[],
+  target: EscalationTarget,
+  projectedAt: Date = new Date()
+): AnalysisResult => {
+  const currency = currencyOf(analysis);
+  const { basis, targetDate } = escalationTargetDate(target);
+  if (targetDate < target.baseDate) {
+    throw new Error(`The ${basis === 'tender' ? 'tender date' : 'construction midpoint'} is before the BQ's base date`);
+  }
+
+  const measuredByTrade = new Map<string, number>();
+  for (const item of analysis.billOfQuantities) {
+    const trade = tradeOf(item);
+    measuredByTrade.set(trade, (measuredByTrade.get(trade) || 0) + item.totalCostKES);
+  }
+
+  const trades: EscalationTrade[] = Array.from(measuredByTrade.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([trade, measured]) => {
+      // A trade without its own index over the whole period is escalated on the all-trades index
+      for (const series of trade === ALL_TRADES ? [ALL_TRADES] : [trade, ALL_TRADES]) {
+        const entries = seriesOf(indices, series);
+        const base = indexAt(entries, target.baseDate, target.annualRate);
+        const projected = indexAt(entries, targetDate, target.annualRate);
+        if (!base || !projected || base.value <= 0) continue;
+
+        const measuredCost = roundMoney(measured, currency);
+        return {
+          trade,
+          series,
+          baseIndex: Math.round(base.value * 100) / 100,
+          targetIndex: Math.round(projected.value * 100) / 100,
+          projected: projected.projected,
+          ...(projected.annualRate !== undefined && { annualRate: Math.round(projected.annualRate * 10000) / 10000 }),
+          measuredCost,
+          allowance: roundMoney(measured * (projected.value / base.value - 1), currency),
+        };
+      }
+      throw new Error(`No price index covers ${formatPeriod(target.baseDate)} to ${formatPeriod(targetDate)} for trade ${trade}`);
+    });
+
+  const measuredCost = roundMoney(trades.reduce((sum, trade) => sum + trade.measuredCost, 0), currency);
+  const allowance = roundMoney(trades.reduce((sum, trade) => sum + trade.allowance, 0), currency);
+  const escalation: EscalationAllowance = {
+    basis,
+    baseDate: target.baseDate,
+    targetDate,
+    ...(target.tenderDate && { tenderDate: target.tenderDate }),
+    ...(basis === 'midpoint' && { constructionStart: target.constructionStart, constructionMonths: target.constructionMonths }),
+    ...(target.annualRate !== undefined && { statedAnnualRate: target.annualRate }),
+    trades,
+    measuredCost,
+    allowance,
+    percentage: measuredCost !== 0 ? Math.round((allowance / measuredCost) * 10000) / 10000 : 0,
+    projectedAt,
+  };
+
+  return {
+    ...analysis,
+    summary: { ...analysis.summary, escalationAllowanceKES: allowance },
+    metadata: { ...analysis.metadata, escalation },
+  };
+};
+
+/**
+ * Take the escalation allowance off a BQ
+ */
+export const removeEscalation = (analysis: AnalysisResult): AnalysisResult => {
+  const { escalationAllowanceKES, ...summary } = analysis.summary;
+  const { escalation, ...metadata } = analysis.metadata;
+  return { ...analysis, summary, metadata };
+};
+
+/**
+ * Summary line label, e.g. "Escalation allowance to tender (2027-06)"
+ */
+export const escalationLabel = (escalation: EscalationAllowance): string =>
+  `Escalation allowance to ${escalation.basis === 'tender' ? 'tender' : 'construction midpoint'} (${formatPeriod(new Date(escalation.targetDate))})`;
+
+/**
+ * One-line description of an escalation allowance for exported documents
+ */
+export const describeEscalation = (escalation: EscalationAllowance): string => {
+  const target = escalation.basis === 'tender'
+    ? `tender date ${formatPeriod(new Date(escalation.targetDate))}`
+    : `construction midpoint ${formatPeriod(new Date(escalation.targetDate))} (${escalation.constructionMonths} months from ${formatPeriod(new Date(escalation.constructionStart!))})`;
+  const projection = escalation.trades.some(trade => trade.projected)
+    ? escalation.statedAnnualRate !== undefined
+      ? `, projected at ${(escalation.statedAnnualRate * 100).toFixed(1)}% a year past the latest index`
+      : ', projected at each index\'s trailing annual rate past the latest index'
+    : '';
+  return `Escalated from ${formatPeriod(new Date(escalation.baseDate))} to ${target}: ${(escalation.percentage * 100).toFixed(1)}% on price indices${projection}`;
+};
+
+/**
+ * Load every active price index
+ */
+export const loadPriceIndices = async (): Promise<PriceIndex[]> => {
+  const db = getDatabase();
+  const indices = await db.collection<PriceIndex>('price_indices')
+    .find({ isActive: true })
+    .sort({ period: 1 })
+    .toArray();
+
+  logger.info(`Loaded ${indices.length} price index entries`);
+  return indices;
+};
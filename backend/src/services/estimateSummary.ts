@@ -0,0 +1,182 @@
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import {
+  AnalysisResult,
+  EstimateSummary,
+  EstimateSummaryConfig,
+  EstimateSummaryLine,
+  SummaryLineConfig
+} from '../types';
+import { currencyOf, roundMoney } from './currency';
+import { escalationLabel } from './escalation';
+
+/**
+ * Estimate summary
+ * Builds the summary page of a BQ: the measured works, any escalation allowance,
+ * then the additions in the summary configuration (preliminaries, provisional
+ * sums, contingency, professional fees...) in order, then VAT on everything not
+ * exempt. A percentage is of the measured works or of the running total so far.
+ * Every export prints the summary built here
+ */
+
+export const DEFAULT_VAT_RATE = 0.16;
+export const MAX_SUMMARY_LINES = 20;
+
+// Used for BQs whose project has no summary configuration
+export const DEFAULT_SUMMARY_CONFIG: EstimateSummaryConfig = {
+  lines: [
+    { key: 'preliminaries', label: 'Preliminaries', kind: 'percentage', rate: 0.1, basis: 'measured' },
+    { key: 'contingency', label: 'Contingency', kind: 'percentage', rate: 0.05, basis: 'running' },
+  ],
+  vatRate: DEFAULT_VAT_RATE,
+};
+
+// Key of the line the escalation allowance is carried on
+const ESCALATION_KEY = 'escalation';
+
+const toKey = (text: string): string =>
+  text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * Check and tidy a summary configuration sent by a client
+ * @throws Error describing the first problem found
+ */
+export const parseSummaryConfig = (input: any): EstimateSummaryConfig => {
+  if (!input || typeof input !== 'object') throw new Error('Summary configuration must be an object');
+
+  const vatRate = input.vatRate === undefined ? DEFAULT_VAT_RATE : Number(input.vatRate);
+  if (!Number.isFinite(vatRate) || vatRate < 0 || vatRate > 1) throw new Error('VAT rate must be between 0 and 1');
+
+  if (!Array.isArray(input.lines)) throw new Error('Summary lines must be a list');
+  if (input.lines.length > MAX_SUMMARY_LINES) throw new Error(`A summary has at most ${MAX_SUMMARY_LINES} lines`);
+
+  const keys = new Set<string>();
+  const lines = input.lines.map((line: any, index: number): SummaryLineConfig => {
+    const label = typeof line?.label === 'string' ? line.label.trim() : '';
+    if (!label) throw new Error(`Summary line ${index + 1} needs a label`);
+
+    const key = toKey(typeof line.key === 'string' && line.key.trim() ? line.key : label);
+    if (!key || key === ESCALATION_KEY) throw new Error(`Summary line ${index + 1} (${label}) needs another key`);
+    if (keys.has(key)) throw new Error(`Summary line ${index + 1} (${label}) repeats the key ${key}`);
+    keys.add(key);
+
+    const vatExempt = line.vatExempt === true ? { vatExempt: true } : {};
+
+    if (line.kind === 'percentage') {
+      const rate = Number(line.rate);
+      if (!Number.isFinite(rate) || rate < 0 || rate > 1) throw new Error(`Summary line ${index + 1} (${label}) needs a rate between 0 and 1`);
+      const basis = line.basis ?? 'running';
+      if (basis !== 'measured' && basis !== 'running') throw new Error(`Summary line ${index + 1} (${label}) must be a percentage of measured or running`);
+      return { key, label, kind: 'percentage', rate, basis, ...vatExempt };
+    }
+
+    if (line.kind === 'lumpSum') {
+      const amount = Number(line.amount);
+      if (!Number.isFinite(amount) || amount < 0) throw new Error(`Summary line ${index + 1} (${label}) needs an amount of 0 or more`);
+      return { key, label, kind: 'lumpSum', amount, ...vatExempt };
+    }
+
+    throw new Error(`Summary line ${index + 1} (${label}) must be a percentage or a lumpSum`);
+  });
+
+  return { lines, vatRate };
+};
+
+/**
+ * Replace the contingency rate and VAT rate of a configuration, for one export
+ */
+export const withRateOverrides = (
+  config: EstimateSummaryConfig,
+  overrides: { contingencyRate?: number; vatRate?: number }
+): EstimateSummaryConfig => {
+  const { contingencyRate } = overrides;
+  let lines = config.lines;
+  if (contingencyRate !== undefined) {
+    lines = lines.some(line => line.key === 'contingency')
+      ? lines.map(line => line.key === 'contingency' ? { ...line, kind: 'percentage', rate: contingencyRate, basis: line.basis ?? 'running' } : line)
+      : [...lines, { key: 'contingency', label: 'Contingency', kind: 'percentage', rate: contingencyRate, basis: 'running' }];
+  }
+  return { lines, vatRate: overrides.vatRate ?? config.vatRate };
+};
+
+/**
+ * Build the summary of a BQ from its items
+ * @param config Additions and VAT rate (the BQ's own configuration, or the default)
+ */
+export const buildEstimateSummary = (
+  analysis: AnalysisResult,
+  config: EstimateSummaryConfig = analysis.summaryConfig || DEFAULT_SUMMARY_CONFIG,
+  builtAt: Date = new Date()
+): EstimateSummary => {
+  const currency = currencyOf(analysis);
+  const items = analysis.billOfQuantities;
+  const measuredWorks = roundMoney(items.reduce((sum, item) => sum + item.totalCostKES, 0), currency);
+  const vatExemptMeasuredWorks = roundMoney(
+    items.filter(item => item.vatExempt).reduce((sum, item) => sum + item.totalCostKES, 0),
+    currency
+  );
+
+  const lines: EstimateSummaryLine[] = [];
+  let runningTotal = measuredWorks;
+  const addLine = (line: Omit<EstimateSummaryLine, 'runningTotal'>) => {
+    runningTotal = roundMoney(runningTotal + line.amount, currency);
+    lines.push({ ...line, runningTotal });
+  };
+
+  const escalation = analysis.metadata?.escalation;
+  if (escalation) {
+    addLine({ key: ESCALATION_KEY, label: escalationLabel(escalation), kind: 'lumpSum', amount: roundMoney(escalation.allowance, currency), vatExempt: false });
+  }
+
+  for (const line of config.lines) {
+    if (line.kind === 'percentage') {
+      const basis = line.basis ?? 'running';
+      const base = basis === 'measured' ? measuredWorks : runningTotal;
+      addLine({ key: line.key, label: line.label, kind: line.kind, rate: line.rate || 0, basis, amount: roundMoney((line.rate || 0) * base, currency), vatExempt: line.vatExempt === true });
+    } else {
+      addLine({ key: line.key, label: line.label, kind: line.kind, amount: roundMoney(line.amount || 0, currency), vatExempt: line.vatExempt === true });
+    }
+  }
+
+  const subtotal = runningTotal;
+  const exemptAdditions = lines.filter(line => line.vatExempt).reduce((sum, line) => sum + line.amount, 0);
+  const vatableAmount = roundMoney(subtotal - vatExemptMeasuredWorks - exemptAdditions, currency);
+  const vat = roundMoney(vatableAmount * config.vatRate, currency);
+
+  return {
+    currency,
+    measuredWorks,
+    vatExemptMeasuredWorks,
+    lines,
+    subtotal,
+    vatableAmount,
+    vatRate: config.vatRate,
+    vat,
+    grandTotal: roundMoney(subtotal + vat, currency),
+    builtAt,
+  };
+};
+
+/**
+ * Rebuild a BQ's summary, optionally with a new configuration to keep with it
+ */
+export const withEstimateSummary = (analysis: AnalysisResult, config?: EstimateSummaryConfig): AnalysisResult => {
+  const summaryConfig = config || analysis.summaryConfig;
+  return {
+    ...analysis,
+    ...(summaryConfig && { summaryConfig }),
+    estimateSummary: buildEstimateSummary(analysis, summaryConfig || DEFAULT_SUMMARY_CONFIG),
+  };
+};
+
+/**
+ * The summary configuration of a user's project, if it has one
+ */
+export const loadProjectSummaryConfig = async (projectId: string, userId: string): Promise<EstimateSummaryConfig | undefined> => {
+  const db = getDatabase();
+  const project = await db.collection('projects').findOne(
+    { _id: new ObjectId(projectId), userId },
+    { projection: { 'metadata.summaryConfig': 1 } }
+  );
+  return project?.metadata?.summaryConfig;
+};
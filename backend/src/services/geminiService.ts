@@ -1,9 +1,11 @@
-import axios from 'axios';
 import { logger } from '../utils/logger';
+import { BQ_RESPONSE_SCHEMA, RepairRequest, requestValidatedJson, ResponseSchema, ValidatedResponse, validateBQResponse } from './bqSchema';
+import { LLMMessage, llmGenerate, modelFor, userMessage } from './llmProviders';
 
 /**
- * Backend Gemini AI service for floor plan analysis
- * This service handles AI-powered analysis of architectural drawings
+ * Backend AI service for floor plan analysis
+ * This service handles AI-powered analysis of architectural drawings. Calls go
+ * through the LLM provider configured for each use case (Gemini by default)
  */
 
 export interface AnalysisResult {
@@ -11,46 +13,48 @@ export interface AnalysisResult {
     totalEstimatedCostKES: number;
     totalWastageCostKES: number;
     confidenceScore: number;
-    totalArea: string;
+    totalArea?: number;
   };
   billOfQuantities: Array<{
-    category: string;
+    itemNumber?: string;
+    category?: string;
     description: string;
     quantity: number;
     unit: string;
     unitRateKES: number;
     totalCostKES: number;
-    wastageFactor: number;
+    wastageFactor?: number;
   }>;
   intelligentSuggestions?: Array<{
-    suggestionType: string;
-    originalItem: string;
+    suggestionType?: string;
+    originalItem?: string;
     suggestion: string;
-    impact: string;
+    impact?: string;
   }>;
 }
 
+// Raise when the floor plan prompt or its response format changes, so cached analyses are not reused
+export const FLOOR_PLAN_PROMPT_VERSION = 2;
+
 /**
- * Analyze a floor plan using Gemini AI
+ * Analyze a floor plan using the floor plan model
  * @param imageData Base64 encoded image data
  * @param mimeType MIME type of the image
  * @param projectName Name of the project
  * @param projectType Type of project (residential/commercial)
+ * @param pageContext Where the sheet sits in a drawing set, when analysing one page at a time
+ * @param repair The previous answer and what was wrong with it, when asking for a corrected response
  * @returns Promise<string> JSON string response from AI
  */
 export const analyzeFloorPlan = async (
   imageData: string,
   mimeType: string,
   projectName?: string,
-  projectType?: string
+  projectType?: string,
+  pageContext?: string,
+  repair?: RepairRequest
 ): Promise<string> => {
   try {
-    const geminiApiKey = process.env.GEMINI_API_KEY;
-
-    if (!geminiApiKey) {
-      throw new Error('GEMINI_API_KEY environment variable not set');
-    }
-
     const imagePart = {
       inlineData: {
         data: imageData,
@@ -71,17 +75,22 @@ export const analyzeFloorPlan = async (
       Project Details:
       - Project Name: ${projectName || 'Unnamed Project'}
       - Project Type: ${projectType || 'residential'}
+      ${pageContext ? `
+      Drawing Set Context:
+      ${pageContext}
+` : ''}
       
       The final output MUST be a single, valid JSON object with this structure:
       {
         "summary": {
           "totalEstimatedCostKES": number,
           "totalWastageCostKES": number,
-          "confidenceScore": number,
-          "totalArea": string
+          "confidenceScore": number between 0 and 1,
+          "totalArea": number (square metres)
         },
         "billOfQuantities": [
           {
+            "itemNumber": string,
             "category": string,
             "description": string,
             "quantity": number,
@@ -103,39 +112,34 @@ export const analyzeFloorPlan = async (
       `
     };
 
-    logger.info(`Calling Gemini AI for analysis of ${projectName || 'unnamed project'}`);
+    // A repair continues the conversation, so the model sees the drawing, its answer and the problems
+    const messages: LLMMessage[] = [
+      userMessage(imagePart, textPart),
+      ...(repair ? [
+        { role: 'assistant' as const, parts: [{ text: repair.previousResponse }] },
+        userMessage({ text: repair.instructions }),
+      ] : []),
+    ];
 
-    const response = await axios.post(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`,
-      {
-        contents: [{
-          parts: [imagePart, textPart]
-        }],
-        generationConfig: {
-          responseMimeType: "application/json"
-        }
-      },
-      {
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        timeout: 60000 // 60 second timeout for AI analysis
-      }
-    );
+    const { provider, model } = modelFor('floorPlan');
+    logger.info(`Calling ${provider}/${model} for ${repair ? 'a corrected ' : ''}analysis of ${projectName || 'unnamed project'}`);
 
-    const responseText = response.data.candidates[0].content.parts[0].text;
-    logger.info(`Gemini AI analysis completed for ${projectName || 'unnamed project'}`);
+    const responseText = await llmGenerate('floorPlan', messages, {
+      responseSchema: BQ_RESPONSE_SCHEMA,
+      timeoutMs: 60000 // 60 second timeout for AI analysis
+    });
+    logger.info(`AI analysis completed for ${projectName || 'unnamed project'}`);
 
     return responseText;
 
   } catch (error: any) {
-    logger.error('Error analyzing floor plan with Gemini AI:', error);
+    logger.error('Error analyzing floor plan with the AI provider:', error);
 
     // Handle specific API errors
-    if (error.message && error.message.includes('API key not valid')) {
+    if (error.message && (error.message.includes('API key not valid') || error.message.includes('environment variable not set'))) {
       return JSON.stringify({
         error: {
-          message: "Invalid API key. Please check your Gemini API configuration in your environment variables.",
+          message: "Invalid API key. Please check your AI provider configuration in your environment variables.",
           code: "INVALID_API_KEY"
         }
       });
@@ -144,7 +148,7 @@ export const analyzeFloorPlan = async (
     if (error.message && error.message.includes('quota')) {
       return JSON.stringify({
         error: {
-          message: "API quota exceeded. Please check your Gemini API usage limits.",
+          message: "API quota exceeded. Please check your AI provider usage limits.",
           code: "QUOTA_EXCEEDED"
         }
       });
@@ -170,43 +174,242 @@ export const analyzeFloorPlan = async (
 };
 
 /**
- * Generate a chat response using Gemini AI
- * @param prompt The user's prompt
- * @returns Promise<string> AI response
+ * Analyze a floor plan and validate the BQ against the response schema,
+ * asking the model to correct an invalid answer a bounded number of times
+ * @returns The validated AI response and the number of calls it took
+ * @throws When the call fails or no valid BQ is returned
  */
-export const generateChatResponse = async (prompt: string): Promise<string> => {
+export const analyzeFloorPlanValidated = (
+  imageData: string,
+  mimeType: string,
+  projectName?: string,
+  projectType?: string,
+  pageContext?: string
+): Promise<ValidatedResponse<AnalysisResult>> => requestValidatedJson<AnalysisResult>(
+  repair => analyzeFloorPlan(imageData, mimeType, projectName, projectType, pageContext, repair),
+  validateBQResponse
+);
+
+const PAGE_CLASSIFICATION_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    pageType: { type: 'STRING', enum: ['plan', 'elevation', 'section', 'schedule', 'title', 'other'] },
+    title: { type: 'STRING' },
+    confidence: { type: 'NUMBER', minimum: 0, maximum: 1 },
+  },
+  required: ['pageType'],
+};
+
+const BQ_CLASSIFICATION_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    classifications: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          index: { type: 'INTEGER', minimum: 0 },
+          workSection: { type: 'STRING' },
+          element: { type: 'STRING' },
+          confidence: { type: 'NUMBER', minimum: 0, maximum: 1 },
+        },
+        required: ['index', 'workSection', 'element'],
+      },
+    },
+  },
+  required: ['classifications'],
+};
+
+/**
+ * Classify a drawing sheet (plan, elevation, section, schedule or title sheet) using the page classification model
+ * @param imageData Base64 encoded image of the sheet
+ * @param mimeType MIME type of the image
+ * @returns Promise<string> JSON string response from AI
+ */
+export const classifyDrawingPage = async (imageData: string, mimeType: string): Promise<string> => {
   try {
-    const geminiApiKey = process.env.GEMINI_API_KEY;
+    const prompt = `
+      You are an expert Quantity Surveyor. Identify what kind of sheet this page of an architectural drawing set is.
 
-    if (!geminiApiKey) {
-      throw new Error('GEMINI_API_KEY environment variable not set');
-    }
+      Use exactly one of these page types:
+      - plan: floor, roof, site or foundation plan
+      - elevation: external or internal elevations
+      - section: sections through the building
+      - schedule: door, window, finishes or other schedules and tables
+      - title: cover, title sheet or drawing register
+      - other: details or anything else
 
-    const response = await axios.post(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`,
-      {
-        contents: [{
-          parts: [{
-            text: `You are Metrrik, an expert AI assistant for Quantity Surveyors in Kenya. Your role is to be an intelligent co-pilot, helping with tasks like creating cost estimates, drafting Bills of Quantities (BQs), and generating professional construction documents.
+      The output MUST be a single, valid JSON object with this structure:
+      { "pageType": string, "title": string, "confidence": number }
+      `;
 
-User Question: ${prompt}
+    return await llmGenerate('pageClassification', [userMessage({ inlineData: { data: imageData, mimeType } }, { text: prompt })], {
+      responseSchema: PAGE_CLASSIFICATION_SCHEMA,
+      timeoutMs: 30000 // 30 second timeout for page classification
+    });
 
-Please provide a helpful, accurate response related to construction management. Use realistic, localized costs for Kenya where possible.`
-          }]
-        }]
-      },
+  } catch (error: any) {
+    logger.error('Error classifying drawing page with the AI provider:', error);
+    return JSON.stringify({
+      error: {
+        message: "Failed to classify the drawing page.",
+        code: "PAGE_CLASSIFICATION_FAILED"
+      }
+    });
+  }
+};
+
+/**
+ * Classify BQ items against SMM7 work sections and NRM1 elements using the BQ classification model
+ * @param items Items the rule-based classifier could not place
+ * @param workSections Allowed SMM7 work section codes and names
+ * @param elements Allowed NRM1 element codes and names
+ * @returns Promise<string> JSON string response from AI
+ */
+export const classifyBQItems = async (
+  items: Array<{ index: number; description: string; unit: string; category?: string }>,
+  workSections: Record<string, string>,
+  elements: Record<string, string>
+): Promise<string> => {
+  try {
+    const prompt = `
+      You are an expert Quantity Surveyor in Kenya. Classify each Bill of Quantities item below into exactly one SMM7 work section and exactly one NRM1 element, using only the codes listed.
+
+      SMM7 work sections:
+      ${Object.entries(workSections).map(([code, name]) => `${code}: ${name}`).join('\n      ')}
+
+      NRM1 elements:
+      ${Object.entries(elements).map(([code, name]) => `${code}: ${name}`).join('\n      ')}
+
+      Items:
+      ${JSON.stringify(items)}
+
+      The output MUST be a single, valid JSON object with this structure:
       {
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000 // 30 second timeout for chat
+        "classifications": [
+          { "index": number, "workSection": string, "element": string, "confidence": number }
+        ]
       }
-    );
+      `;
+
+    return await llmGenerate('bqClassification', [userMessage({ text: prompt })], {
+      responseSchema: BQ_CLASSIFICATION_SCHEMA,
+      timeoutMs: 30000 // 30 second timeout for classification
+    });
+
+  } catch (error: any) {
+    logger.error('Error classifying BQ items with the AI provider:', error);
+    return JSON.stringify({
+      error: {
+        message: "Failed to classify BQ items.",
+        code: "CLASSIFICATION_FAILED"
+      }
+    });
+  }
+};
+
+/**
+ * Generate a chat response using the chat model
+ * @param prompt The user's prompt
+ * @returns Promise<string> AI response
+ */
+export const generateChatResponse = async (prompt: string): Promise<string> => {
+  try {
+    return await llmGenerate('chat', [userMessage({
+      text: `You are Metrrik, an expert AI assistant for Quantity Surveyors in Kenya. Your role is to be an intelligent co-pilot, helping with tasks like creating cost estimates, drafting Bills of Quantities (BQs), and generating professional construction documents.
 
-    return response.data.candidates[0].content.parts[0].text;
+User Question: ${prompt}
+
+Please provide a helpful, accurate response related to construction management. Use realistic, localized costs for Kenya where possible.`
+    })], {
+      timeoutMs: 30000 // 30 second timeout for chat
+    });
 
   } catch (error: any) {
     logger.error('Error generating chat response:', error);
     return "Sorry, I encountered an error while processing your request. Please try again.";
   }
 };
+
+export interface ProjectChatContext {
+  project: { name: string; type: string; status: string; description?: string };
+  documents: Array<{ title: string; type: string; content: string }>;
+  files: Array<{ name: string; type: string }>;
+}
+
+/**
+ * Answer a chat message about a project using the chat model
+ * @param message The user's message
+ * @param context The project and its recent documents and files
+ * @returns The answer with the model that gave it
+ * @throws When the model cannot be reached
+ */
+export const generateProjectChatResponse = async (
+  message: string,
+  context: ProjectChatContext
+): Promise<{ text: string; model: string; tokens: number; responseTime: number }> => {
+  try {
+    const startTime = Date.now();
+
+    // Prepare the prompt with context
+    const prompt = `
+You are an AI assistant for Metrrik, a construction management platform. You help users with construction-related questions and project management.
+
+Project Context:
+- Project: ${context.project.name} (${context.project.type})
+- Status: ${context.project.status}
+- Description: ${context.project.description}
+
+Recent Documents:
+${context.documents.map(doc => `- ${doc.title} (${doc.type}): ${doc.content}`).join('\n')}
+
+Recent Files:
+${context.files.map(file => `- ${file.name} (${file.type})`).join('\n')}
+
+User Question: ${message}
+
+Please provide a helpful, accurate response related to construction management and this specific project.`;
+
+    const responseText = await llmGenerate('chat', [userMessage({ text: prompt })]);
+    const responseTime = Date.now() - startTime;
+
+    return {
+      text: responseText,
+      model: modelFor('chat').model,
+      tokens: responseText.length, // Approximate token count
+      responseTime
+    };
+
+  } catch (error) {
+    logger.error('Chat model error:', error);
+    throw new Error('Failed to get AI response');
+  }
+};
+
+/**
+ * Generate a construction document using the document model
+ * @param prompt What the user asked for
+ * @param type The kind of document, e.g. "Tender Document"
+ * @returns Promise<string> The document as markdown
+ * @throws When the model cannot be reached
+ */
+export const generateDocumentContent = async (prompt: string, type: string): Promise<string> => {
+  try {
+    return await llmGenerate('document', [userMessage({
+      text: `You are Metrrik, an expert AI assistant for Quantity Surveyors in Kenya. Your task is to generate high-quality construction documents. Your tone is professional and authoritative.
+
+Based on the user's request, generate a professional '${type}' document.
+User's request: "${prompt}"
+
+Structure the document logically with clear headings, lists, and tables where appropriate.
+The content should be well-written, accurate, and ready for client presentation.
+Format the entire output using markdown.`
+    })], {
+      timeoutMs: 60000 // 60 second timeout for document generation
+    });
+
+  } catch (error) {
+    logger.error('Error generating document:', error);
+    throw new Error('Failed to generate the document');
+  }
+};
@@ -0,0 +1,330 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { aiFixturesDir, aiMode, withFixtures } from './aiFixtures';
+import { ResponseSchema } from './bqSchema';
+
+/**
+ * LLM providers
+ * One interface for every AI call the backend makes: text generation, drawings
+ * with structured output, and embeddings. Gemini, any OpenAI-compatible endpoint
+ * (OpenAI, Ollama, llama.cpp) and a deterministic fixture provider implement it,
+ * and the provider and model are chosen per use case from the environment.
+ * Every call can be recorded or replayed through AI_MODE (see aiFixtures)
+ */
+
+export type LLMProviderName = 'gemini' | 'openai' | 'fixture';
+
+export type LLMUseCase = 'floorPlan' | 'pageClassification' | 'bqClassification' | 'chat' | 'document' | 'embedding';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['gemini', 'openai', 'fixture'];
+
+export type LLMPart = { text: string } | { inlineData: { data: string; mimeType: string } };
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  parts: LLMPart[];
+}
+
+export interface LLMGenerateRequest {
+  model: string;
+  messages: LLMMessage[];
+  responseSchema?: ResponseSchema; // Answer with JSON matching this schema
+  json?: boolean; // Answer with JSON of any shape
+  timeoutMs?: number;
+}
+
+export interface LLMEmbedRequest {
+  model: string;
+  texts: string[];
+  timeoutMs?: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  configured: () => boolean;
+  generate: (request: LLMGenerateRequest) => Promise<string>;
+  embed: (request: LLMEmbedRequest) => Promise<number[][]>;
+}
+
+export interface LLMModelChoice {
+  provider: LLMProviderName;
+  model: string;
+}
+
+// Environment variable naming the model for each use case, as "model" or "provider:model"
+export const LLM_MODEL_ENV: Record<LLMUseCase, string> = {
+  floorPlan: 'LLM_MODEL_FLOOR_PLAN',
+  pageClassification: 'LLM_MODEL_PAGE_CLASSIFICATION',
+  bqClassification: 'LLM_MODEL_BQ_CLASSIFICATION',
+  chat: 'LLM_MODEL_CHAT',
+  document: 'LLM_MODEL_DOCUMENT',
+  embedding: 'LLM_MODEL_EMBEDDING',
+};
+
+const PROVIDER_MODELS: Record<LLMProviderName, { generate: string; embed: string }> = {
+  gemini: { generate: 'gemini-1.5-flash', embed: 'text-embedding-004' },
+  openai: { generate: 'gpt-4o-mini', embed: 'text-embedding-3-small' },
+  fixture: { generate: 'fixture', embed: 'fixture' },
+};
+
+// Without LLM_PROVIDER, drawings and chat go to Gemini and embeddings to OpenAI, as stored vectors expect
+const DEFAULT_MODELS: Record<LLMUseCase, LLMModelChoice> = {
+  floorPlan: { provider: 'gemini', model: PROVIDER_MODELS.gemini.generate },
+  pageClassification: { provider: 'gemini', model: PROVIDER_MODELS.gemini.generate },
+  bqClassification: { provider: 'gemini', model: PROVIDER_MODELS.gemini.generate },
+  chat: { provider: 'gemini', model: PROVIDER_MODELS.gemini.generate },
+  document: { provider: 'gemini', model: PROVIDER_MODELS.gemini.generate },
+  embedding: { provider: 'openai', model: 'text-embedding-ada-002' },
+};
+
+const isProvider = (value: string): value is LLMProviderName => (LLM_PROVIDERS as string[]).includes(value);
+
+/**
+ * Read a model setting such as "gemini-1.5-flash", "openai:llama3.1:8b" or "fixture"
+ */
+export const parseModelChoice = (spec: string, defaultProvider: LLMProviderName, useCase: LLMUseCase): LLMModelChoice => {
+  const value = spec.trim();
+  const kind = useCase === 'embedding' ? 'embed' : 'generate';
+  if (isProvider(value)) return { provider: value, model: PROVIDER_MODELS[value][kind] };
+
+  const separator = value.indexOf(':');
+  const prefix = separator > 0 ? value.slice(0, separator) : '';
+  return isProvider(prefix)
+    ? { provider: prefix, model: value.slice(separator + 1) }
+    : { provider: defaultProvider, model: value };
+};
+
+/**
+ * The provider and model configured for a use case
+ */
+export const modelFor = (useCase: LLMUseCase, env: NodeJS.ProcessEnv = process.env): LLMModelChoice => {
+  const defaultProvider = env.LLM_PROVIDER && isProvider(env.LLM_PROVIDER) ? env.LLM_PROVIDER : undefined;
+  const spec = env[LLM_MODEL_ENV[useCase]];
+
+  if (spec) return parseModelChoice(spec, defaultProvider || 'gemini', useCase);
+  if (defaultProvider) return parseModelChoice(defaultProvider, defaultProvider, useCase);
+  return DEFAULT_MODELS[useCase];
+};
+
+const textOf = (message: LLMMessage): string =>
+  message.parts.map(part => ('text' in part ? part.text : '')).join('\n');
+
+// Gemini
+
+export const toGeminiContents = (messages: LLMMessage[]) => messages.map(message => ({
+  role: message.role === 'assistant' ? 'model' : 'user',
+  parts: message.parts,
+}));
+
+const geminiProvider: LLMProvider = {
+  name: 'gemini',
+  configured: () => Boolean(process.env.GEMINI_API_KEY),
+
+  generate: async request => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new Error('GEMINI_API_KEY environment variable not set');
+
+    const structured = Boolean(request.responseSchema || request.json);
+    const response = await axios.post(
+      `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:generateContent?key=${apiKey}`,
+      {
+        contents: toGeminiContents(request.messages),
+        ...(structured && {
+          generationConfig: {
+            responseMimeType: 'application/json',
+            ...(request.responseSchema && { responseSchema: request.responseSchema }),
+          },
+        }),
+      },
+      { headers: { 'Content-Type': 'application/json' }, timeout: request.timeoutMs }
+    );
+
+    const text = response.data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (typeof text !== 'string') throw new Error('Gemini returned no content');
+    return text;
+  },
+
+  embed: async request => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) throw new Error('GEMINI_API_KEY environment variable not set');
+
+    const response = await axios.post(
+      `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:batchEmbedContents?key=${apiKey}`,
+      { requests: request.texts.map(text => ({ model: `models/${request.model}`, content: { parts: [{ text }] } })) },
+      { headers: { 'Content-Type': 'application/json' }, timeout: request.timeoutMs }
+    );
+
+    return response.data.embeddings.map((embedding: { values: number[] }) => embedding.values);
+  },
+};
+
+// OpenAI-compatible endpoints
+
+/**
+ * The JSON Schema equivalent of a Gemini response schema, for response_format
+ */
+export const toJsonSchema = (schema: ResponseSchema): Record<string, any> => ({
+  type: schema.type.toLowerCase(),
+  ...(schema.description && { description: schema.description }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, property]) => [key, toJsonSchema(property)])),
+  }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toJsonSchema(schema.items) }),
+  ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+  ...(schema.minimum !== undefined && { minimum: schema.minimum }),
+  ...(schema.maximum !== undefined && { maximum: schema.maximum }),
+  ...(schema.enum && { enum: schema.enum }),
+});
+
+export const toOpenAIMessages = (messages: LLMMessage[]) => messages.map(message => {
+  const textOnly = message.parts.every(part => 'text' in part);
+  return {
+    role: message.role,
+    content: textOnly
+      ? textOf(message)
+      : message.parts.map(part => ('text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } })),
+  };
+});
+
+// OPENAI_BASE_URL points at OpenAI or a local server such as Ollama (http://localhost:11434/v1)
+const openAIBaseUrl = (): string => (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+const openAIHeaders = (): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(process.env.OPENAI_API_KEY && { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` }),
+});
+
+const openAIProvider: LLMProvider = {
+  name: 'openai',
+  // Local servers need no key
+  configured: () => Boolean(process.env.OPENAI_API_KEY || process.env.OPENAI_BASE_URL),
+
+  generate: async request => {
+    const response = await axios.post(
+      `${openAIBaseUrl()}/chat/completions`,
+      {
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        ...(request.responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) } } }
+          : request.json && { response_format: { type: 'json_object' } }),
+      },
+      { headers: openAIHeaders(), timeout: request.timeoutMs }
+    );
+
+    const text = response.data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') throw new Error(`${request.model} returned no content`);
+    return text;
+  },
+
+  embed: async request => {
+    const response = await axios.post(
+      `${openAIBaseUrl()}/embeddings`,
+      { model: request.model, input: request.texts },
+      { headers: openAIHeaders(), timeout: request.timeoutMs }
+    );
+
+    return [...response.data.data]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((entry: { embedding: number[] }) => entry.embedding);
+  },
+};
+
+// Deterministic fixtures
+
+export const FIXTURE_EMBEDDING_DIMENSIONS = 32;
+
+const digest = (value: string): Buffer => crypto.createHash('sha256').update(value).digest();
+
+/**
+ * A value matching a schema, derived from a seed so the same request always gets the same answer
+ */
+export const fixtureFromSchema = (schema: ResponseSchema, seed: string, path = '$'): any => {
+  const byte = digest(`${seed}${path}`)[0];
+
+  switch (schema.type) {
+    case 'OBJECT':
+      return Object.fromEntries(Object.entries(schema.properties || {})
+        .map(([key, property]) => [key, fixtureFromSchema(property, seed, `${path}.${key}`)]));
+    case 'ARRAY':
+      return schema.items
+        ? Array.from({ length: Math.max(schema.minItems || 0, 1) }, (_, index) => fixtureFromSchema(schema.items!, seed, `${path}[${index}]`))
+        : [];
+    case 'NUMBER':
+    case 'INTEGER': {
+      const minimum = schema.minimum ?? 0;
+      const maximum = schema.maximum ?? minimum + 100;
+      const value = minimum + ((maximum - minimum) * byte) / 255;
+      return schema.type === 'INTEGER' ? Math.round(value) : Math.round(value * 100) / 100;
+    }
+    case 'BOOLEAN':
+      return byte % 2 === 0;
+    case 'STRING':
+      return schema.enum ? schema.enum[byte % schema.enum.length] : `fixture ${path.split('.').pop()}`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * A unit vector derived from the text, so identical texts embed identically
+ */
+export const fixtureEmbedding = (text: string): number[] => {
+  const values = Array.from(digest(text).subarray(0, FIXTURE_EMBEDDING_DIMENSIONS), byte => byte - 127.5);
+  const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return values.map(value => value / norm);
+};
+
+const fixtureProvider: LLMProvider = {
+  name: 'fixture',
+  configured: () => true,
+
+  generate: async request => {
+    const seed = digest(request.messages.map(textOf).join('\n')).toString('hex');
+    if (request.responseSchema) return JSON.stringify(fixtureFromSchema(request.responseSchema, seed));
+    if (request.json) return '{}';
+    return `Fixture response ${seed.slice(0, 8)}`;
+  },
+
+  embed: async request => request.texts.map(fixtureEmbedding),
+};
+
+const providers: Record<LLMProviderName, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  fixture: fixtureProvider,
+};
+
+export const getLLMProvider = (name: LLMProviderName): LLMProvider => withFixtures(providers[name], aiMode(), aiFixturesDir());
+
+/**
+ * Whether the provider chosen for a use case has what it needs to be called
+ */
+export const isLLMConfigured = (useCase: LLMUseCase): boolean => getLLMProvider(modelFor(useCase).provider).configured();
+
+export const userMessage = (...parts: LLMPart[]): LLMMessage => ({ role: 'user', parts });
+
+/**
+ * Generate a response with the provider and model configured for the use case
+ */
+export const llmGenerate = (
+  useCase: LLMUseCase,
+  messages: LLMMessage[],
+  options: Omit<LLMGenerateRequest, 'model' | 'messages'> = {}
+): Promise<string> => {
+  const { provider, model } = modelFor(useCase);
+  return getLLMProvider(provider).generate({ ...options, model, messages });
+};
+
+/**
+ * Embed texts with the configured embedding model
+ * @returns One vector per text and the model that produced them
+ */
+export const llmEmbed = async (texts: string[], timeoutMs?: number): Promise<{ embeddings: number[][]; model: string }> => {
+  const { provider, model } = modelFor('embedding');
+  const embeddings = await getLLMProvider(provider).embed({ model, texts, timeoutMs });
+  return { embeddings, model };
+};
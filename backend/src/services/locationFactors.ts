@@ -0,0 +1,213 @@
+import { getDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+import {
+  AnalysisResult,
+  BQItem,
+  LocationAdjustment,
+  LocationFactor,
+  LocationFactorRef,
+  Project,
+  RegionalPricingDifference
+} from '../types';
+import { groupFor } from './bqClassification';
+import { computeLineWastage } from './bqReconciliation';
+import { currencyOf, roundMoney } from './currency';
+
+/**
+ * Location cost factors
+ * Moves BQ rates priced for one town or county to another with the maintained
+ * location_factors table. Each rate is split into labour and materials by the
+ * item's SMM7 work section, and each part is scaled by its own factor. The same
+ * factors give the computed cost of the BQ in every other location
+ */
+
+// Factors are relative to this location, and a BQ with no region is priced here
+export const BASE_LOCATION = 'Nairobi';
+
+// Share of a rate that is labour when the item's work section is not known
+export const DEFAULT_LABOUR_SHARE = 0.35;
+
+// Indicative labour share of a rate per SMM7 work section group
+export const LABOUR_SHARES: Record<string, number> = {
+  A: 0.5,
+  C: 0.7,
+  D: 0.6,
+  E: 0.3,
+  F: 0.35,
+  G: 0.3,
+  H: 0.25,
+  J: 0.3,
+  K: 0.35,
+  L: 0.15,
+  M: 0.45,
+  N: 0.1,
+  P: 0.3,
+  Q: 0.4,
+  R: 0.35,
+  S: 0.35,
+  V: 0.35,
+  W: 0.3,
+};
+
+const BASE_FACTOR: LocationFactorRef = { location: BASE_LOCATION, county: BASE_LOCATION, labourFactor: 1, materialFactor: 1 };
+
+const normalizeName = (name: string): string => (name || '').trim().toLowerCase().replace(/\s+county$/, '');
+
+export const isSameLocation = (a: string, b: string): boolean => normalizeName(a) === normalizeName(b);
+
+export const labourShareFor = (item: BQItem): number => {
+  const group = groupFor(item, 'trade').code;
+  return group !== undefined ? LABOUR_SHARES[group] ?? DEFAULT_LABOUR_SHARE : DEFAULT_LABOUR_SHARE;
+};
+
+/**
+ * Names to look a project's location up by: the town first, then the county
+ */
+export const locationCandidates = (location: Project['location'] | string | undefined): string[] => {
+  if (!location) return [];
+  if (typeof location === 'string') return [location];
+  return [location.city, location.state].filter((name): name is string => Boolean(name && name.trim()));
+};
+
+/**
+ * Find the factor in effect for the first candidate name that has one
+ * A town matches its own entry; a county matches its county-wide entry
+ */
+export const findLocationFactor = (
+  factors: LocationFactor[],
+  candidates: string[],
+  asOf: Date = new Date()
+): LocationFactor | null => {
+  const effective = factors
+    .filter(factor => factor.isActive && new Date(factor.effectiveDate) <= asOf)
+    .sort((a, b) => new Date(b.effectiveDate).getTime() - new Date(a.effectiveDate).getTime());
+
+  for (const candidate of candidates) {
+    const match = effective.find(factor => isSameLocation(factor.location, candidate));
+    if (match) return match;
+  }
+
+  return null;
+};
+
+export const toFactorRef = (factor: LocationFactor): LocationFactorRef => ({
+  location: factor.location,
+  county: factor.county,
+  labourFactor: factor.labourFactor,
+  materialFactor: factor.materialFactor,
+  ...(factor._id && { factorId: factor._id.toString() }),
+  effectiveDate: factor.effectiveDate,
+  source: factor.source,
+});
+
+/**
+ * Multiplier that moves an item's rate from one location to another
+ */
+export const locationMultiplier = (item: BQItem, from: LocationFactorRef, to: LocationFactorRef): number => {
+  const labourShare = labourShareFor(item);
+  return labourShare * (to.labourFactor / from.labourFactor) + (1 - labourShare) * (to.materialFactor / from.materialFactor);
+};
+
+const adjustItems = (analysis: AnalysisResult, from: LocationFactorRef, to: LocationFactorRef): BQItem[] => {
+  const currency = currencyOf(analysis);
+  return analysis.billOfQuantities.map(item => {
+    const unitRateKES = roundMoney(item.unitRateKES * locationMultiplier(item, from, to), currency);
+    return { ...item, unitRateKES, totalCostKES: roundMoney(item.quantity * unitRateKES * (1 + item.wastageFactor), currency) };
+  });
+};
+
+const sumTotal = (items: BQItem[], analysis: AnalysisResult): number =>
+  roundMoney(items.reduce((sum, item) => sum + item.totalCostKES, 0), currencyOf(analysis));
+
+/**
+ * Move a BQ's rates to another location and rebuild its totals
+ * @param from Factor of the location the rates were priced for
+ * @param to Factor of the project's location
+ */
+export const applyLocationFactors = (
+  analysis: AnalysisResult,
+  from: LocationFactorRef,
+  to: LocationFactorRef,
+  adjustedAt: Date = new Date()
+): { analysis: AnalysisResult; adjustment: LocationAdjustment } => {
+  const currency = currencyOf(analysis);
+  const billOfQuantities = adjustItems(analysis, from, to);
+  const adjustment: LocationAdjustment = {
+    from,
+    to,
+    baseTotal: sumTotal(analysis.billOfQuantities, analysis),
+    adjustedTotal: sumTotal(billOfQuantities, analysis),
+    adjustedAt,
+  };
+
+  return {
+    analysis: {
+      ...analysis,
+      summary: {
+        ...analysis.summary,
+        totalEstimatedCostKES: adjustment.adjustedTotal,
+        totalWastageCostKES: roundMoney(billOfQuantities.reduce((sum, item) => sum + computeLineWastage(item), 0), currency),
+      },
+      billOfQuantities,
+      metadata: { ...analysis.metadata, region: to.location, location: adjustment },
+    },
+    adjustment,
+  };
+};
+
+/**
+ * What the BQ would cost in each of the given locations
+ * Computed from the factor table, relative to the location the BQ is priced for
+ */
+export const compareLocations = (
+  analysis: AnalysisResult,
+  from: LocationFactorRef,
+  locations: LocationFactorRef[]
+): RegionalPricingDifference[] => {
+  const ownTotal = sumTotal(analysis.billOfQuantities, analysis);
+
+  return locations
+    .filter(location => !isSameLocation(location.location, from.location))
+    .map(location => {
+      const totalCost = sumTotal(adjustItems(analysis, from, location), analysis);
+      return {
+        region: location.location,
+        county: location.county,
+        totalCost,
+        percentageDifference: ownTotal !== 0 ? Math.round(((totalCost - ownTotal) / ownTotal) * 10000) / 10000 : 0,
+      };
+    })
+    .sort((a, b) => a.totalCost - b.totalCost);
+};
+
+/**
+ * Factor of the location a BQ is priced for
+ * A region missing from the table is treated as the Nairobi base
+ */
+export const pricingFactor = (analysis: AnalysisResult, factors: LocationFactor[]): LocationFactorRef => {
+  if (analysis.metadata.location) return analysis.metadata.location.to;
+
+  const region = analysis.metadata.region || BASE_LOCATION;
+  const factor = findLocationFactor(factors, [region]);
+  return factor ? toFactorRef(factor) : { ...BASE_FACTOR, location: region, county: region };
+};
+
+/**
+ * Load the factors in effect on a date, the latest entry per location
+ */
+export const loadLocationFactors = async (asOf: Date = new Date()): Promise<LocationFactor[]> => {
+  const db = getDatabase();
+  const factors = await db.collection<LocationFactor>('location_factors')
+    .find({ isActive: true, effectiveDate: { $lte: asOf } })
+    .sort({ effectiveDate: -1 })
+    .toArray();
+
+  const latest = new Map<string, LocationFactor>();
+  for (const factor of factors) {
+    const key = normalizeName(factor.location);
+    if (!latest.has(key)) latest.set(key, factor);
+  }
+
+  logger.info(`Loaded ${latest.size} effective location factors`);
+  return Array.from(latest.values());
+};
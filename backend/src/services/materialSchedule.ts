@@ -0,0 +1,321 @@
+import { getDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { AnalysisResult, BQItem, MaterialNorm, MaterialSchedule, MaterialScheduleLine, MaterialScheduleSource } from '../types';
+
+/**
+ * Material schedule
+ * Expands BQ items into the raw materials to order (bags of cement, tonnes of
+ * sand and ballast, blocks, kg of steel, litres of paint) with a library of
+ * consumption norms: mix ratios, block yields, coverage rates and lap allowances.
+ * Built-in norms can be replaced or added to by admins in the material_norms
+ * table. Each item's wastage factor is applied to its materials, and the
+ * materials of every item and BQ are consolidated into one schedule
+ */
+
+export const CEMENT_BAG_KG = 50;
+export const CONCRETE_DRY_VOLUME_FACTOR = 1.54;
+export const MORTAR_DRY_VOLUME_FACTOR = 1.27;
+
+// Loose bulk densities, tonnes per m3
+const DENSITY = { cement: 1.44, sand: 1.6, ballast: 1.5 };
+
+export const CEMENT = 'Cement (50 kg bags)';
+export const SAND = 'Sand';
+export const BALLAST = 'Ballast';
+export const BINDING_WIRE = 'Binding wire';
+
+// Materials bought by the piece are ordered in whole units
+const WHOLE_UNITS = new Set(['bag', 'No']);
+
+const BUILT_IN = 'Built-in norm';
+const WALLING = ['block', 'stone', 'walling', 'masonry'];
+
+type NormInput = Pick<MaterialNorm, 'key' | 'name' | 'kind' | 'keywords' | 'units' | 'mix' | 'blockwork' | 'coverage' | 'reinforcement'>;
+
+const builtIn = (norm: NormInput): MaterialNorm => ({ ...norm, source: BUILT_IN, isActive: true });
+
+// Indicative norms for East African practice, in the order ties are broken
+export const DEFAULT_MATERIAL_NORMS: MaterialNorm[] = [
+  builtIn({ key: 'concrete-1-1.5-3', name: 'Concrete class 25 (1:1.5:3)', kind: 'mix', units: ['m3'], keywords: [['concrete', 'c25'], ['1:1.5:3', 'c25', 'class 25', 'grade 25']], mix: { ratio: [1, 1.5, 3], dryVolumeFactor: CONCRETE_DRY_VOLUME_FACTOR } }),
+  builtIn({ key: 'concrete-1-2-4', name: 'Concrete class 20 (1:2:4)', kind: 'mix', units: ['m3'], keywords: [['concrete', 'c20'], ['1:2:4', 'c20', 'class 20', 'grade 20']], mix: { ratio: [1, 2, 4], dryVolumeFactor: CONCRETE_DRY_VOLUME_FACTOR } }),
+  builtIn({ key: 'concrete-1-3-6', name: 'Concrete class 15 (1:3:6)', kind: 'mix', units: ['m3'], keywords: [['concrete', 'blinding'], ['1:3:6', 'c15', 'class 15', 'blinding']], mix: { ratio: [1, 3, 6], dryVolumeFactor: CONCRETE_DRY_VOLUME_FACTOR } }),
+  builtIn({ key: 'concrete', name: 'Concrete, mix not stated (taken as 1:2:4)', kind: 'mix', units: ['m3'], keywords: [['concrete']], mix: { ratio: [1, 2, 4], dryVolumeFactor: CONCRETE_DRY_VOLUME_FACTOR } }),
+  builtIn({ key: 'mortar-1-4', name: 'Cement:sand mortar (1:4)', kind: 'mix', units: ['m3'], keywords: [['mortar']], mix: { ratio: [1, 4], dryVolumeFactor: MORTAR_DRY_VOLUME_FACTOR } }),
+  builtIn({ key: 'screed-1-3', name: 'Cement:sand screed (1:3), 40mm', kind: 'mix', units: ['m2'], keywords: [['screed']], mix: { ratio: [1, 3], dryVolumeFactor: MORTAR_DRY_VOLUME_FACTOR, thicknessM: 0.04 } }),
+  builtIn({ key: 'plaster-1-4', name: 'Cement:sand plaster (1:4), 12mm', kind: 'mix', units: ['m2'], keywords: [['plaster', 'render']], mix: { ratio: [1, 4], dryVolumeFactor: MORTAR_DRY_VOLUME_FACTOR, thicknessM: 0.012 } }),
+  builtIn({ key: 'blockwork-200', name: '200mm blockwork in (1:4) mortar', kind: 'blockwork', units: ['m2'], keywords: [WALLING], blockwork: { block: '200mm blocks (400 × 200 face)', blocksPerM2: 11.6, mortarM3PerM2: 0.015, mortarRatio: [1, 4] } }),
+  builtIn({ key: 'blockwork-150', name: '150mm blockwork in (1:4) mortar', kind: 'blockwork', units: ['m2'], keywords: [WALLING, ['150mm', '150 mm', '6 inch', '6"']], blockwork: { block: '150mm blocks (400 × 200 face)', blocksPerM2: 11.6, mortarM3PerM2: 0.011, mortarRatio: [1, 4] } }),
+  builtIn({ key: 'blockwork-100', name: '100mm blockwork in (1:4) mortar', kind: 'blockwork', units: ['m2'], keywords: [WALLING, ['100mm', '100 mm', '4 inch', '4"']], blockwork: { block: '100mm blocks (400 × 200 face)', blocksPerM2: 11.6, mortarM3PerM2: 0.0075, mortarRatio: [1, 4] } }),
+  builtIn({ key: 'reinforcement', name: 'Bar reinforcement with 10% laps', kind: 'reinforcement', units: ['kg'], keywords: [['reinforcement', 'rebar', 'steel bar', 'bars', 'y8', 'y10', 'y12', 'y16', 'y20', 'r8', 'r10']], reinforcement: { steel: 'Reinforcement steel bars', lapAllowance: 0.1, bindingWireKgPerTonne: 10 } }),
+  builtIn({ key: 'paint-emulsion', name: 'Emulsion paint, three coats', kind: 'coverage', units: ['m2'], keywords: [['paint', 'emulsion']], coverage: { material: 'Emulsion paint', unit: 'litre', coveragePerUnit: 10, coats: 3 } }),
+  builtIn({ key: 'paint-gloss', name: 'Gloss paint, three coats', kind: 'coverage', units: ['m2'], keywords: [['paint', 'gloss', 'enamel'], ['gloss', 'enamel']], coverage: { material: 'Gloss paint', unit: 'litre', coveragePerUnit: 12, coats: 3 } }),
+  builtIn({ key: 'tiling', name: 'Ceramic tiling', kind: 'coverage', units: ['m2'], keywords: [['tile', 'tiling']], coverage: { material: 'Ceramic tiles', unit: 'm2', coveragePerUnit: 1, coats: 1 } }),
+];
+
+const UNIT_ALIASES: Record<string, { unit: string; scale: number }> = {
+  'm3': { unit: 'm3', scale: 1 },
+  'm³': { unit: 'm3', scale: 1 },
+  'cu.m': { unit: 'm3', scale: 1 },
+  'cum': { unit: 'm3', scale: 1 },
+  'm2': { unit: 'm2', scale: 1 },
+  'm²': { unit: 'm2', scale: 1 },
+  'sq.m': { unit: 'm2', scale: 1 },
+  'sqm': { unit: 'm2', scale: 1 },
+  'sm': { unit: 'm2', scale: 1 },
+  'kg': { unit: 'kg', scale: 1 },
+  'kgs': { unit: 'kg', scale: 1 },
+  't': { unit: 'kg', scale: 1000 },
+  'tn': { unit: 'kg', scale: 1000 },
+  'ton': { unit: 'kg', scale: 1000 },
+  'tons': { unit: 'kg', scale: 1000 },
+  'tonne': { unit: 'kg', scale: 1000 },
+  'tonnes': { unit: 'kg', scale: 1000 },
+  'm': { unit: 'm', scale: 1 },
+  'lm': { unit: 'm', scale: 1 },
+  'rm': { unit: 'm', scale: 1 },
+  'no': { unit: 'No', scale: 1 },
+  'nr': { unit: 'No', scale: 1 },
+  'nos': { unit: 'No', scale: 1 },
+  'each': { unit: 'No', scale: 1 },
+  'pcs': { unit: 'No', scale: 1 },
+};
+
+/**
+ * The unit a norm is written for, and what one BQ unit is in it (a tonne is 1000 kg)
+ */
+export const normalizeUnit = (unit: string): { unit: string; scale: number } => {
+  const key = (unit || '').trim().toLowerCase().replace(/\s+/g, '').replace(/\.$/, '');
+  return UNIT_ALIASES[key] || { unit: key, scale: 1 };
+};
+
+export const normalizeDescription = (description: string): string =>
+  (description || '').toLowerCase().replace(/\s*:\s*/g, ':').replace(/\s+/g, ' ');
+
+const round3 = (value: number): number => Math.round(value * 1000) / 1000;
+
+// What a norm library needs for its entries to be merged and matched to BQ items
+export type KeywordNorm = Pick<MaterialNorm, 'key' | 'keywords' | 'units' | 'isActive'>;
+
+/**
+ * Replace built-in norms with the table's entries of the same key, and add the rest
+ */
+export const mergeNorms = <T extends KeywordNorm>(defaults: T[], entries: T[]): T[] => {
+  const active = entries.filter(entry => entry.isActive);
+  const byKey = new Map(active.map(entry => [entry.key, entry]));
+  return [
+    ...defaults.map(norm => byKey.get(norm.key) || norm),
+    ...active.filter(entry => !defaults.some(norm => norm.key === entry.key)),
+  ];
+};
+
+export const mergeMaterialNorms = (defaults: MaterialNorm[], entries: MaterialNorm[]): MaterialNorm[] =>
+  mergeNorms(defaults, entries);
+
+/**
+ * The norm for a BQ item: among norms for its unit whose every keyword group
+ * matches the description, the one with the most groups; the first on a tie
+ */
+export const findNorm = <T extends KeywordNorm>(norms: T[], item: BQItem): T | null => {
+  const { unit } = normalizeUnit(item.unit);
+  const description = normalizeDescription(item.description);
+
+  let best: T | null = null;
+  for (const norm of norms) {
+    if (!norm.isActive || !norm.units.includes(unit)) continue;
+    const matches = norm.keywords.every(group => group.some(keyword => description.includes(keyword.toLowerCase())));
+    if (matches && (!best || norm.keywords.length > best.keywords.length)) best = norm;
+  }
+  return best;
+};
+
+export const findMaterialNorm = (norms: MaterialNorm[], item: BQItem): MaterialNorm | null => findNorm(norms, item);
+
+// Cement, sand and (for concrete) ballast in a volume of wet mix
+const mixMaterials = (ratio: number[], dryVolumeFactor: number, volume: number) => {
+  const parts = ratio.reduce((sum, part) => sum + part, 0);
+  const dryVolume = (part: number) => (volume * dryVolumeFactor * part) / parts;
+  return [
+    { material: CEMENT, unit: 'bag', quantity: (dryVolume(ratio[0]) * DENSITY.cement * 1000) / CEMENT_BAG_KG },
+    { material: SAND, unit: 't', quantity: dryVolume(ratio[1]) * DENSITY.sand },
+    ...(ratio.length > 2 ? [{ material: BALLAST, unit: 't', quantity: dryVolume(ratio[2]) * DENSITY.ballast }] : []),
+  ];
+};
+
+/**
+ * Raw materials in one unit of work under a norm (per m3, m2 or kg)
+ */
+export const materialsPerUnit = (norm: MaterialNorm): Array<{ material: string; unit: string; quantity: number }> => {
+  switch (norm.kind) {
+    case 'mix':
+      return mixMaterials(norm.mix!.ratio, norm.mix!.dryVolumeFactor, norm.mix!.thicknessM ?? 1);
+    case 'blockwork':
+      return [
+        { material: norm.blockwork!.block, unit: 'No', quantity: norm.blockwork!.blocksPerM2 },
+        ...mixMaterials(norm.blockwork!.mortarRatio, MORTAR_DRY_VOLUME_FACTOR, norm.blockwork!.mortarM3PerM2),
+      ];
+    case 'coverage':
+      return [{ material: norm.coverage!.material, unit: norm.coverage!.unit, quantity: norm.coverage!.coats / norm.coverage!.coveragePerUnit }];
+    case 'reinforcement':
+      return [
+        { material: norm.reinforcement!.steel, unit: 'kg', quantity: 1 + norm.reinforcement!.lapAllowance },
+        { material: BINDING_WIRE, unit: 'kg', quantity: norm.reinforcement!.bindingWireKgPerTonne / 1000 },
+      ];
+  }
+};
+
+const orderQuantity = (quantity: number, unit: string): number =>
+  WHOLE_UNITS.has(unit) ? Math.ceil(quantity - 1e-9) : Math.ceil(quantity * 100 - 1e-9) / 100;
+
+/**
+ * Expand the items of one or more BQs into a consolidated schedule of raw materials
+ * Items no norm applies to are listed in unscheduledItems
+ */
+export const buildMaterialSchedule = (
+  bqs: Array<{ analysisId?: string; analysis: AnalysisResult }>,
+  norms: MaterialNorm[],
+  builtAt: Date = new Date()
+): MaterialSchedule => {
+  const totals = new Map<string, { material: string; unit: string; net: number; wastage: number; sources: MaterialScheduleSource[] }>();
+  const unscheduledItems: MaterialSchedule['unscheduledItems'] = [];
+
+  for (const { analysisId, analysis } of bqs) {
+    for (const item of analysis.billOfQuantities) {
+      const norm = findMaterialNorm(norms, item);
+      if (!norm || !(item.quantity > 0)) {
+        if (!norm) unscheduledItems.push({ ...(analysisId && { analysisId }), itemNumber: item.itemNumber, description: item.description, unit: item.unit });
+        continue;
+      }
+
+      const quantity = item.quantity * normalizeUnit(item.unit).scale;
+      for (const material of materialsPerUnit(norm)) {
+        const net = material.quantity * quantity;
+        const key = `${material.material}|${material.unit}`;
+        const total = totals.get(key) || { material: material.material, unit: material.unit, net: 0, wastage: 0, sources: [] };
+        total.net += net;
+        total.wastage += net * (item.wastageFactor || 0);
+        total.sources.push({ ...(analysisId && { analysisId }), itemNumber: item.itemNumber, description: item.description, normKey: norm.key, quantity: round3(net) });
+        totals.set(key, total);
+      }
+    }
+  }
+
+  const lines: MaterialScheduleLine[] = Array.from(totals.values()).map(total => {
+    const quantity = round3(total.net + total.wastage);
+    return {
+      material: total.material,
+      unit: total.unit,
+      netQuantity: round3(total.net),
+      wastage: round3(total.wastage),
+      quantity,
+      orderQuantity: orderQuantity(quantity, total.unit),
+      sources: total.sources,
+    };
+  });
+
+  return {
+    analysisIds: bqs.map(bq => bq.analysisId).filter((id): id is string => Boolean(id)),
+    lines,
+    unscheduledItems,
+    builtAt,
+  };
+};
+
+const positiveNumbers = (value: any, length: number[]): number[] | null => {
+  if (!Array.isArray(value) || !length.includes(value.length)) return null;
+  const numbers = value.map(Number);
+  return numbers.every(number => Number.isFinite(number) && number > 0) ? numbers : null;
+};
+
+const positive = (value: any): number | null => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+/**
+ * Check and tidy the key, name, keywords and units of a norm sent by an admin
+ * @throws Error describing the first problem found
+ */
+export const parseNormBase = (input: any): Pick<MaterialNorm, 'key' | 'name' | 'keywords' | 'units'> => {
+  const key = typeof input?.key === 'string' ? input.key.trim().toLowerCase() : '';
+  if (!/^[a-z0-9][a-z0-9.-]*$/.test(key)) throw new Error('Key must be lower-case letters, digits, dots and hyphens');
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) throw new Error('Name is required');
+
+  if (!Array.isArray(input.keywords) || input.keywords.length === 0) throw new Error('Keywords must be a list of keyword groups');
+  const keywords: string[][] = input.keywords.map((group: any, index: number) => {
+    const alternatives: string[] = Array.from(new Set((Array.isArray(group) ? group : [group])
+      .filter((keyword: any) => typeof keyword === 'string' && keyword.trim())
+      .map((keyword: string) => normalizeDescription(keyword.trim()))));
+    if (alternatives.length === 0) throw new Error(`Keyword group ${index + 1} is empty`);
+    return alternatives;
+  });
+
+  if (!Array.isArray(input.units) || input.units.length === 0) throw new Error('Units must be a list of BQ units');
+  const units: string[] = Array.from(new Set(input.units.map((unit: any) => normalizeUnit(String(unit)).unit)));
+
+  return { key, name, keywords, units };
+};
+
+/**
+ * Check and tidy a material norm sent by an admin
+ * @throws Error describing the first problem found
+ */
+export const parseMaterialNorm = (input: any): NormInput => {
+  const base = parseNormBase(input);
+  switch (input.kind) {
+    case 'mix': {
+      const ratio = positiveNumbers(input.mix?.ratio, [2, 3]);
+      if (!ratio) throw new Error('A mix needs a ratio of cement:sand or cement:sand:aggregate');
+      const dryVolumeFactor = input.mix.dryVolumeFactor === undefined
+        ? ratio.length > 2 ? CONCRETE_DRY_VOLUME_FACTOR : MORTAR_DRY_VOLUME_FACTOR
+        : positive(input.mix.dryVolumeFactor);
+      if (!dryVolumeFactor) throw new Error('The dry volume factor must be a positive number');
+      const thicknessM = input.mix.thicknessM === undefined ? undefined : positive(input.mix.thicknessM);
+      if (thicknessM === null) throw new Error('The thickness must be a positive number of metres');
+      return { ...base, kind: 'mix', mix: { ratio, dryVolumeFactor, ...(thicknessM && { thicknessM }) } };
+    }
+    case 'blockwork': {
+      const block = typeof input.blockwork?.block === 'string' ? input.blockwork.block.trim() : '';
+      const blocksPerM2 = positive(input.blockwork?.blocksPerM2);
+      const mortarM3PerM2 = Number(input.blockwork?.mortarM3PerM2 ?? 0);
+      const mortarRatio = positiveNumbers(input.blockwork?.mortarRatio ?? [1, 4], [2]);
+      if (!block || !blocksPerM2) throw new Error('Blockwork needs a block and the number of blocks per m2');
+      if (!Number.isFinite(mortarM3PerM2) || mortarM3PerM2 < 0 || !mortarRatio) throw new Error('Blockwork needs mortar per m2 and a cement:sand mortar ratio');
+      return { ...base, kind: 'blockwork', blockwork: { block, blocksPerM2, mortarM3PerM2, mortarRatio } };
+    }
+    case 'coverage': {
+      const material = typeof input.coverage?.material === 'string' ? input.coverage.material.trim() : '';
+      const unit = typeof input.coverage?.unit === 'string' ? input.coverage.unit.trim() : '';
+      const coveragePerUnit = positive(input.coverage?.coveragePerUnit);
+      const coats = Number(input.coverage?.coats ?? 1);
+      if (!material || !unit || !coveragePerUnit) throw new Error('A coverage norm needs a material, its unit and the m2 covered per unit');
+      if (!Number.isInteger(coats) || coats < 1) throw new Error('Coats must be a whole number of at least 1');
+      return { ...base, kind: 'coverage', coverage: { material, unit, coveragePerUnit, coats } };
+    }
+    case 'reinforcement': {
+      const steel = typeof input.reinforcement?.steel === 'string' && input.reinforcement.steel.trim() ? input.reinforcement.steel.trim() : 'Reinforcement steel bars';
+      const lapAllowance = Number(input.reinforcement?.lapAllowance ?? 0);
+      const bindingWireKgPerTonne = Number(input.reinforcement?.bindingWireKgPerTonne ?? 0);
+      if (!Number.isFinite(lapAllowance) || lapAllowance < 0 || lapAllowance > 1) throw new Error('The lap allowance must be between 0 and 1');
+      if (!Number.isFinite(bindingWireKgPerTonne) || bindingWireKgPerTonne < 0) throw new Error('Binding wire per tonne must be 0 or more');
+      return { ...base, kind: 'reinforcement', reinforcement: { steel, lapAllowance, bindingWireKgPerTonne } };
+    }
+    default:
+      throw new Error('Kind must be mix, blockwork, coverage or reinforcement');
+  }
+};
+
+/**
+ * Load the norm library: the built-in norms with the table's active entries applied
+ */
+export const loadMaterialNorms = async (): Promise<MaterialNorm[]> => {
+  const db = getDatabase();
+  const entries = await db.collection<MaterialNorm>('material_norms')
+    .find({ isActive: true })
+    .sort({ createdAt: 1 })
+    .toArray();
+
+  logger.info(`Loaded ${entries.length} material norm entries`);
+  return mergeMaterialNorms(DEFAULT_MATERIAL_NORMS, entries);
+};
@@ -0,0 +1,76 @@
+import ExcelJS from 'exceljs';
+import { MaterialSchedule } from '../types';
+
+/**
+ * Excel export for material schedules
+ * Produces the consolidated schedule to order from, the BQ items behind each
+ * material, and the items no norm covered so they can be scheduled by hand
+ */
+
+const QUANTITY_FORMAT = '#,##0.000';
+
+const styleHeaderRow = (row: ExcelJS.Row) => {
+  row.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  row.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF0D47A1' } };
+    cell.border = { bottom: { style: 'thin' } };
+  });
+};
+
+const addTitle = (sheet: ExcelJS.Worksheet, title: string, subtitle: string) => {
+  sheet.addRow([title]).font = { bold: true, size: 14 };
+  sheet.addRow([subtitle]).font = { italic: true, color: { argb: 'FF616161' } };
+  sheet.addRow([]);
+};
+
+/**
+ * Build an XLSX workbook for a material schedule
+ * @param schedule The consolidated schedule
+ * @param projectName Shown under each sheet title
+ * @returns Promise<Buffer> The workbook file contents
+ */
+export const buildMaterialScheduleWorkbook = async (schedule: MaterialSchedule, projectName: string): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Metrrik';
+  workbook.created = new Date();
+  const subtitle = `${projectName} — ${new Date(schedule.builtAt).toLocaleDateString('en-GB')}`;
+
+  const scheduleSheet = workbook.addWorksheet('Material Schedule');
+  scheduleSheet.columns = [{ width: 6 }, { width: 40 }, { width: 8 }, { width: 14 }, { width: 14 }, { width: 14 }, { width: 14 }];
+  addTitle(scheduleSheet, 'MATERIAL SCHEDULE', subtitle);
+  styleHeaderRow(scheduleSheet.addRow(['No.', 'Material', 'Unit', 'Net qty', 'Wastage', 'Total', 'To order']));
+
+  schedule.lines.forEach((line, index) => {
+    const row = scheduleSheet.addRow([index + 1, line.material, line.unit, line.netQuantity, line.wastage]);
+    row.getCell(6).value = { formula: `D${row.number}+E${row.number}`, result: line.quantity };
+    row.getCell(7).value = line.orderQuantity;
+    [4, 5, 6].forEach(column => { row.getCell(column).numFmt = QUANTITY_FORMAT; });
+  });
+  scheduleSheet.views = [{ state: 'frozen', ySplit: 4 }];
+
+  const sourcesSheet = workbook.addWorksheet('Derivation');
+  sourcesSheet.columns = [{ width: 36 }, { width: 10 }, { width: 50 }, { width: 20 }, { width: 14 }];
+  addTitle(sourcesSheet, 'DERIVATION', subtitle);
+  styleHeaderRow(sourcesSheet.addRow(['Material', 'Item', 'Description', 'Norm', 'Net qty']));
+
+  for (const line of schedule.lines) {
+    for (const source of line.sources) {
+      const row = sourcesSheet.addRow([`${line.material} (${line.unit})`, source.itemNumber, source.description, source.normKey, source.quantity]);
+      row.getCell(3).alignment = { wrapText: true };
+      row.getCell(5).numFmt = QUANTITY_FORMAT;
+    }
+  }
+
+  if (schedule.unscheduledItems.length > 0) {
+    const unscheduledSheet = workbook.addWorksheet('Not Scheduled');
+    unscheduledSheet.columns = [{ width: 10 }, { width: 60 }, { width: 8 }];
+    addTitle(unscheduledSheet, 'ITEMS NOT SCHEDULED', 'No material norm covers these items; schedule their materials by hand');
+    styleHeaderRow(unscheduledSheet.addRow(['Item', 'Description', 'Unit']));
+    schedule.unscheduledItems.forEach(item => {
+      unscheduledSheet.addRow([item.itemNumber, item.description, item.unit]).getCell(2).alignment = { wrapText: true };
+    });
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+};
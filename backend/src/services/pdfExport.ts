@@ -0,0 +1,408 @@
+import PDFDocument from 'pdfkit';
+import { ObjectId } from 'mongodb';
+import { getDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { AnalysisResult, BQGrouping, CompanyBranding } from '../types';
+import { groupBillOfQuantities } from './bqClassification';
+import { currencyOf, describeConversion, formatMoney } from './currency';
+import { describeEscalation } from './escalation';
+import { buildEstimateSummary } from './estimateSummary';
+
+/**
+ * Branded PDF rendering for BQs, estimates and proposals
+ * Every PDF gets a cover page, running headers and footers with page numbers,
+ * tables that repeat their header row across page breaks, and a signature block
+ */
+
+type PDFDoc = PDFKit.PDFDocument;
+
+export interface PdfDocumentInput {
+  title: string;
+  subtitle?: string;
+  content: string; // Markdown
+  createdAt?: Date;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+const DEFAULT_BRANDING: CompanyBranding = { name: 'Metrrik' };
+const PRIMARY_COLOR = '#0D47A1';
+const MUTED_COLOR = '#616161';
+const PAGE_MARGINS = { top: 72, bottom: 72, left: 50, right: 50 };
+const CELL_PADDING = 4;
+
+const decodeLogo = (logo?: string): Buffer | null => {
+  const match = logo?.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  return match ? Buffer.from(match[2], 'base64') : null;
+};
+
+const contentWidth = (doc: PDFDoc): number => doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+const bottomLimit = (doc: PDFDoc): number => doc.page.height - doc.page.margins.bottom;
+
+const ensureSpace = (doc: PDFDoc, height: number): boolean => {
+  if (doc.y + height > bottomLimit(doc)) {
+    doc.addPage();
+    return true;
+  }
+  return false;
+};
+
+const renderToBuffer = (build: (doc: PDFDoc) => void, title: string, branding: CompanyBranding): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margins: PAGE_MARGINS,
+      bufferPages: true,
+      info: { Title: title, Author: branding.name, Creator: 'Metrrik' },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      build(doc);
+      addHeadersAndFooters(doc, title, branding);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
+
+const addCoverPage = (doc: PDFDoc, branding: CompanyBranding, title: string, subtitle: string, date: Date) => {
+  const logo = decodeLogo(branding.logo);
+  const width = contentWidth(doc);
+
+  doc.y = 140;
+  if (logo) {
+    try {
+      doc.image(logo, doc.page.margins.left + (width - 120) / 2, doc.y, { fit: [120, 120], align: 'center' });
+      doc.y += 140;
+    } catch (error) {
+      logger.warn('Company logo could not be embedded in PDF:', error);
+    }
+  }
+
+  doc.font('Helvetica-Bold').fontSize(16).fillColor(PRIMARY_COLOR).text(branding.name, { align: 'center' });
+  doc.moveDown(4);
+  doc.font('Helvetica-Bold').fontSize(26).fillColor('black').text(title, { align: 'center' });
+  doc.moveDown(0.5);
+  doc.font('Helvetica').fontSize(14).fillColor(MUTED_COLOR).text(subtitle, { align: 'center' });
+  doc.moveDown(2);
+  doc.fontSize(11).text(date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }), { align: 'center' });
+
+  const contactLines = [branding.address, branding.phone, branding.email, branding.registrationNumber]
+    .filter((line): line is string => Boolean(line));
+  if (contactLines.length > 0) {
+    doc.fontSize(9).fillColor(MUTED_COLOR);
+    doc.text(contactLines.join('  |  '), doc.page.margins.left, bottomLimit(doc) - 30, { width, align: 'center' });
+  }
+
+  doc.fillColor('black');
+  doc.addPage();
+};
+
+// Headers and footers are drawn last so the page count is known; the cover page has neither
+const addHeadersAndFooters = (doc: PDFDoc, title: string, branding: CompanyBranding) => {
+  const range = doc.bufferedPageRange();
+  const totalPages = range.count;
+
+  for (let i = range.start + 1; i < range.start + totalPages; i++) {
+    doc.switchToPage(i);
+    const width = contentWidth(doc);
+    const left = doc.page.margins.left;
+    const originalBottom = doc.page.margins.bottom;
+
+    // Writing inside the bottom margin must not trigger an automatic page break
+    doc.page.margins.bottom = 0;
+
+    doc.font('Helvetica-Bold').fontSize(9).fillColor(PRIMARY_COLOR)
+      .text(branding.name, left, 30, { width: width / 2, lineBreak: false });
+    doc.font('Helvetica').fillColor(MUTED_COLOR)
+      .text(title, left + width / 2, 30, { width: width / 2, align: 'right', lineBreak: false });
+    doc.moveTo(left, 46).lineTo(left + width, 46).lineWidth(0.5).strokeColor('#BDBDBD').stroke();
+
+    const footerY = doc.page.height - 45;
+    doc.moveTo(left, footerY - 6).lineTo(left + width, footerY - 6).stroke();
+    doc.fontSize(8).fillColor(MUTED_COLOR)
+      .text(`Page ${i - range.start} of ${totalPages - 1}`, left, footerY, { width, align: 'center', lineBreak: false });
+
+    doc.page.margins.bottom = originalBottom;
+  }
+
+  doc.fillColor('black').strokeColor('black');
+};
+
+const drawTableRow = (doc: PDFDoc, columns: TableColumn[], values: string[], options: { bold?: boolean; fill?: string } = {}) => {
+  doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+
+  const rowHeight = Math.max(
+    ...values.map((value, index) => doc.heightOfString(value, { width: columns[index].width - CELL_PADDING * 2 }))
+  ) + CELL_PADDING * 2;
+
+  const top = doc.y;
+  const left = doc.page.margins.left;
+  const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+
+  if (options.fill) {
+    doc.rect(left, top, totalWidth, rowHeight).fill(options.fill);
+  }
+
+  doc.fillColor(options.fill === PRIMARY_COLOR ? 'white' : 'black');
+  let x = left;
+  values.forEach((value, index) => {
+    doc.text(value, x + CELL_PADDING, top + CELL_PADDING, {
+      width: columns[index].width - CELL_PADDING * 2,
+      align: columns[index].align || 'left',
+    });
+    x += columns[index].width;
+  });
+
+  doc.moveTo(left, top + rowHeight).lineTo(left + totalWidth, top + rowHeight).lineWidth(0.3).strokeColor('#E0E0E0').stroke();
+  doc.fillColor('black').strokeColor('black');
+  doc.x = left;
+  doc.y = top + rowHeight;
+};
+
+const measureRow = (doc: PDFDoc, columns: TableColumn[], values: string[]): number => {
+  doc.font('Helvetica').fontSize(9);
+  return Math.max(
+    ...values.map((value, index) => doc.heightOfString(value, { width: columns[index].width - CELL_PADDING * 2 }))
+  ) + CELL_PADDING * 2;
+};
+
+/**
+ * Draw a table whose header row is repeated whenever a row would cross the bottom margin
+ */
+const drawTable = (doc: PDFDoc, columns: TableColumn[], rows: string[][], footerRows: string[][] = []) => {
+  const header = columns.map(column => column.header);
+  drawTableRow(doc, columns, header, { bold: true, fill: PRIMARY_COLOR });
+
+  for (const row of rows) {
+    if (ensureSpace(doc, measureRow(doc, columns, row))) {
+      drawTableRow(doc, columns, header, { bold: true, fill: PRIMARY_COLOR });
+    }
+    drawTableRow(doc, columns, row);
+  }
+
+  for (const row of footerRows) {
+    ensureSpace(doc, measureRow(doc, columns, row));
+    drawTableRow(doc, columns, row, { bold: true, fill: '#F5F5F5' });
+  }
+};
+
+const addHeading = (doc: PDFDoc, text: string, size: number = 14) => {
+  ensureSpace(doc, size * 3);
+  doc.moveDown(0.5);
+  doc.font('Helvetica-Bold').fontSize(size).fillColor(PRIMARY_COLOR).text(text);
+  doc.fillColor('black').moveDown(0.3);
+};
+
+const addSignatureBlock = (doc: PDFDoc, branding: CompanyBranding) => {
+  const blockHeight = 130;
+  ensureSpace(doc, blockHeight);
+  doc.moveDown(2);
+
+  const left = doc.page.margins.left;
+  const columnWidth = contentWidth(doc) / 3;
+  const roles = ['Prepared by', 'Checked by', 'Approved by'];
+  const top = doc.y;
+
+  roles.forEach((role, index) => {
+    const x = left + index * columnWidth;
+    doc.font('Helvetica-Bold').fontSize(9).text(role, x, top, { width: columnWidth - 20 });
+    doc.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR);
+    doc.moveTo(x, top + 45).lineTo(x + columnWidth - 20, top + 45).lineWidth(0.5).stroke();
+    doc.text('Signature', x, top + 48, { width: columnWidth - 20 });
+    doc.moveTo(x, top + 80).lineTo(x + columnWidth - 20, top + 80).stroke();
+    doc.text('Name & Date', x, top + 83, { width: columnWidth - 20 });
+    doc.fillColor('black');
+  });
+
+  doc.x = left;
+  doc.y = top + 100;
+  doc.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR).text(`For and on behalf of ${branding.name}`);
+  doc.fillColor('black');
+};
+
+const stripInlineMarkdown = (text: string): string =>
+  text
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\[(.+?)\]\((.+?)\)/g, '$1 ($2)')
+    .replace(/(^|\s)[*_](\S.*?\S|\S)[*_](?=\s|$)/g, '$1$2');
+
+const parseTableRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => stripInlineMarkdown(cell.trim()));
+
+/**
+ * Render markdown content: headings, paragraphs, bullet and numbered lists, tables and rules
+ */
+const renderMarkdown = (doc: PDFDoc, markdown: string) => {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('|')) {
+      const tableLines: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      const rows = tableLines.filter(row => !/^\|?\s*:?-{2,}/.test(row.trim())).map(parseTableRow);
+      if (rows.length > 0) {
+        const columnCount = Math.max(...rows.map(row => row.length));
+        const width = contentWidth(doc) / columnCount;
+        const columns = rows[0].map(header => ({ header, width }));
+        drawTable(doc, columns, rows.slice(1).map(row => Array.from({ length: columnCount }, (_, index) => row[index] || '')));
+        doc.moveDown(0.5);
+      }
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      addHeading(doc, stripInlineMarkdown(heading[2]), Math.max(18 - heading[1].length * 2, 10));
+    } else if (/^[-*+]\s+/.test(trimmed)) {
+      ensureSpace(doc, 14);
+      doc.font('Helvetica').fontSize(10).text(`•  ${stripInlineMarkdown(trimmed.replace(/^[-*+]\s+/, ''))}`, { indent: 10 });
+    } else if (/^\d+\.\s+/.test(trimmed)) {
+      ensureSpace(doc, 14);
+      doc.font('Helvetica').fontSize(10).text(stripInlineMarkdown(trimmed), { indent: 10 });
+    } else if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      const y = doc.y + 4;
+      doc.moveTo(doc.page.margins.left, y).lineTo(doc.page.margins.left + contentWidth(doc), y).lineWidth(0.5).strokeColor('#BDBDBD').stroke();
+      doc.strokeColor('black');
+      doc.y = y + 8;
+    } else if (trimmed === '') {
+      doc.moveDown(0.4);
+    } else {
+      ensureSpace(doc, 14);
+      doc.font('Helvetica').fontSize(10).text(stripInlineMarkdown(trimmed), { align: 'justify' });
+    }
+    i++;
+  }
+};
+
+/**
+ * Render an analysed BQ as a branded PDF
+ * @param analysis The analysis result to render
+ * @param branding Company details for the cover page and running header
+ * @param groupBy Whether to break the BQ down by trade or by NRM1 element
+ * @returns Promise<Buffer> The PDF file contents
+ */
+export const renderAnalysisPdf = (
+  analysis: AnalysisResult,
+  branding: CompanyBranding = DEFAULT_BRANDING,
+  groupBy: BQGrouping = 'trade'
+): Promise<Buffer> => {
+  const title = 'Bill of Quantities';
+  const currency = currencyOf(analysis);
+  const formatAmount = (amount: number): string => formatMoney(amount, currency, false);
+
+  return renderToBuffer(doc => {
+    addCoverPage(doc, branding, title, analysis.projectName, new Date(analysis.metadata?.analysisDate || Date.now()));
+
+    const width = contentWidth(doc);
+    const columns: TableColumn[] = [
+      { header: 'Item', width: width * 0.08 },
+      { header: 'Description', width: width * 0.4 },
+      { header: 'Unit', width: width * 0.08, align: 'center' },
+      { header: 'Qty', width: width * 0.1, align: 'right' },
+      { header: `Rate (${currency})`, width: width * 0.16, align: 'right' },
+      { header: `Amount (${currency})`, width: width * 0.18, align: 'right' },
+    ];
+
+    const collection: string[][] = [];
+    groupBillOfQuantities(analysis.billOfQuantities, groupBy).forEach((items, trade) => {
+      addHeading(doc, trade.toUpperCase(), 12);
+      const tradeTotal = items.reduce((sum, item) => sum + item.totalCostKES, 0);
+      drawTable(
+        doc,
+        columns,
+        items.map(item => [
+          item.itemNumber,
+          item.description,
+          item.unit,
+          item.quantity.toLocaleString('en-US', { maximumFractionDigits: 3 }),
+          formatAmount(item.unitRateKES),
+          formatAmount(item.totalCostKES),
+        ]),
+        [['', 'Carried to collection', '', '', '', formatAmount(tradeTotal)]]
+      );
+      collection.push([trade, formatAmount(tradeTotal)]);
+    });
+
+    const escalation = analysis.metadata?.escalation;
+    const estimate = buildEstimateSummary(analysis);
+    const percent = (rate: number): string => `${Math.round(rate * 1000) / 10}%`;
+    addHeading(doc, 'SUMMARY');
+    drawTable(
+      doc,
+      [{ header: groupBy === 'element' ? 'Element' : 'Trade', width: width * 0.7 }, { header: `Amount (${currency})`, width: width * 0.3, align: 'right' }],
+      collection,
+      [
+        ['Included wastage allowance', formatAmount(analysis.summary.totalWastageCostKES)],
+        ['MEASURED WORKS', formatAmount(estimate.measuredWorks)],
+        ...estimate.lines.map(line => [
+          line.kind === 'percentage' ? `${line.label} (${percent(line.rate || 0)})` : line.label,
+          formatAmount(line.amount),
+        ]),
+        ['SUB-TOTAL', formatAmount(estimate.subtotal)],
+        ...(estimate.vatableAmount !== estimate.subtotal ? [['Of which VAT-exempt', formatAmount(estimate.subtotal - estimate.vatableAmount)]] : []),
+        [`VAT (${percent(estimate.vatRate)})`, formatAmount(estimate.vat)],
+        ['GRAND TOTAL', formatAmount(estimate.grandTotal)],
+      ]
+    );
+
+    // Record the exchange rates and price indices behind the figures
+    [
+      ...(analysis.metadata?.conversions || []).map(describeConversion),
+      ...(escalation ? [describeEscalation(escalation)] : []),
+    ].forEach(note => {
+      ensureSpace(doc, 14);
+      doc.font('Helvetica-Oblique').fontSize(8).fillColor(MUTED_COLOR).text(note);
+    });
+    doc.fillColor('black');
+
+    addSignatureBlock(doc, branding);
+  }, `${title} — ${analysis.projectName}`, branding);
+};
+
+/**
+ * Render a markdown document (estimate, proposal, report) as a branded PDF
+ * @param input Document title, subtitle and markdown content
+ * @param branding Company details for the cover page and running header
+ * @returns Promise<Buffer> The PDF file contents
+ */
+export const renderMarkdownPdf = (input: PdfDocumentInput, branding: CompanyBranding = DEFAULT_BRANDING): Promise<Buffer> => {
+  return renderToBuffer(doc => {
+    addCoverPage(doc, branding, input.title, input.subtitle || '', input.createdAt || new Date());
+    renderMarkdown(doc, input.content);
+    addSignatureBlock(doc, branding);
+  }, input.title, branding);
+};
+
+/**
+ * Load the company branding saved in a user's preferences
+ */
+export const loadCompanyBranding = async (userId: string): Promise<CompanyBranding> => {
+  if (!ObjectId.isValid(userId)) return DEFAULT_BRANDING;
+
+  const db = getDatabase();
+  const user = await db.collection('users').findOne({ _id: new ObjectId(userId) }, { projection: { preferences: 1 } });
+  const company = user?.preferences?.company as CompanyBranding | undefined;
+
+  return company?.name ? company : DEFAULT_BRANDING;
+};
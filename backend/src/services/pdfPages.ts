@@ -0,0 +1,131 @@
+import path from 'path';
+import type * as PdfJs from 'pdfjs-dist';
+import { logger } from '../utils/logger';
+
+/**
+ * PDF page rendering
+ * Splits an uploaded PDF drawing set into pages and renders each page to PNG
+ * locally, so every sheet can be classified and analysed on its own
+ */
+
+// Longest side of a rendered page in pixels; enough to read dimensions on an A1 sheet
+export const RENDER_LONG_EDGE_PX = 2048;
+
+// Upper bound on the render scale so small (A4) pages are not blown up needlessly
+const MAX_RENDER_SCALE = 3;
+
+export const MAX_PDF_PAGES = 40;
+
+export interface RenderedPdfPage {
+  pageNumber: number;
+  text: string; // Text layer, empty for scanned sheets
+  width: number;
+  height: number;
+  image: Buffer; // PNG
+}
+
+export interface RenderPdfOptions {
+  maxPages?: number;
+  longEdgePx?: number;
+}
+
+let pdfjs: typeof PdfJs | null = null;
+
+// pdf.js draws through the DOM canvas API, so the Node canvas classes are installed before it loads
+const loadPdfJs = async (): Promise<typeof PdfJs> => {
+  if (pdfjs) return pdfjs;
+
+  const canvas = await import('@napi-rs/canvas');
+  const globals = globalThis as any;
+  globals.DOMMatrix = globals.DOMMatrix || canvas.DOMMatrix;
+  globals.Path2D = globals.Path2D || canvas.Path2D;
+  globals.ImageData = globals.ImageData || canvas.ImageData;
+
+  pdfjs = await import('pdfjs-dist/legacy/build/pdf.js');
+  return pdfjs;
+};
+
+const standardFontDataUrl = (): string =>
+  path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+const canvasFactory = (createCanvas: (width: number, height: number) => any) => ({
+  create: (width: number, height: number) => {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset: (target: { canvas: any }, width: number, height: number) => {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  },
+  destroy: (target: { canvas: any; context: any }) => {
+    target.canvas.width = 0;
+    target.canvas.height = 0;
+    target.canvas = null;
+    target.context = null;
+  },
+});
+
+/**
+ * Render the pages of a PDF to PNG images, one page at a time
+ * @param data The PDF file contents
+ * @param options Page limit and target image size
+ * @returns The rendered pages with their text layer
+ */
+export const renderPdfPages = async (data: Buffer, options: RenderPdfOptions = {}): Promise<RenderedPdfPage[]> => {
+  const pdf = await loadPdfJs();
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const maxPages = options.maxPages ?? MAX_PDF_PAGES;
+  const longEdgePx = options.longEdgePx ?? RENDER_LONG_EDGE_PX;
+
+  const document = await pdf.getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+    standardFontDataUrl: standardFontDataUrl(),
+    verbosity: 0,
+  }).promise;
+
+  if (document.numPages > maxPages) {
+    logger.warn(`PDF has ${document.numPages} pages; only the first ${maxPages} will be rendered`);
+  }
+
+  const pages: RenderedPdfPage[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= Math.min(document.numPages, maxPages); pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const scale = Math.min(longEdgePx / Math.max(unscaled.width, unscaled.height), MAX_RENDER_SCALE);
+      const viewport = page.getViewport({ scale });
+
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext('2d');
+      context.fillStyle = '#FFFFFF';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({
+        canvasContext: context as any,
+        viewport,
+        canvasFactory: canvasFactory(createCanvas),
+      } as any).promise;
+
+      const textContent = await page.getTextContent();
+      const text = textContent.items
+        .map(item => ('str' in item ? item.str : ''))
+        .filter(Boolean)
+        .join(' ');
+
+      pages.push({
+        pageNumber,
+        text,
+        width: canvas.width,
+        height: canvas.height,
+        image: canvas.toBuffer('image/png'),
+      });
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return pages;
+};
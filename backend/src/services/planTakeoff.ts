@@ -0,0 +1,263 @@
+import {
+  AnalysisResult,
+  BQItem,
+  MeasurementKind,
+  PlanMeasurement,
+  PlanPoint,
+  PlanScale,
+  PlanTakeoff
+} from '../types';
+import { computeLineTotal, computeSummaryTotals } from './bqReconciliation';
+import { normalizeUnit } from './rateLibrary';
+
+/**
+ * On-screen plan takeoff
+ * Measurements taken on a drawing image are stored as points and turned into
+ * quantities with the drawing scale, so they can be re-measured at any time and
+ * used as the quantity of a BQ item alongside the AI's items
+ */
+
+export const MEASUREMENT_KINDS: MeasurementKind[] = ['linear', 'area', 'count'];
+
+export const MEASUREMENT_UNITS: Record<MeasurementKind, PlanMeasurement['unit']> = {
+  linear: 'm',
+  area: 'm2',
+  count: 'nr',
+};
+
+const MIN_POINTS: Record<MeasurementKind, number> = {
+  linear: 2,
+  area: 3,
+  count: 1,
+};
+
+export const MAX_MEASUREMENTS = 500;
+const MAX_POINTS_PER_MEASUREMENT = 1000;
+
+export interface TakeoffInput {
+  fileName: string;
+  imageWidth: number;
+  imageHeight: number;
+  scale?: { points: PlanPoint[]; lengthM: number } | null;
+  measurements: Array<{ id: string; kind: MeasurementKind; label?: string; points: PlanPoint[]; color?: string }>;
+}
+
+export interface AttachOptions {
+  measurementIds: string[];
+  itemIndex?: number; // Existing item to measure; a new item is added when omitted
+  description?: string;
+  category?: string;
+  unitRateKES?: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const toPoint = (raw: any): PlanPoint => {
+  const x = Number(raw?.x);
+  const y = Number(raw?.y);
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    throw new Error('Measurement points must have numeric x and y coordinates');
+  }
+  return { x, y };
+};
+
+const pixelDistance = (a: PlanPoint, b: PlanPoint): number => Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * Work out the drawing scale from two points a known distance apart
+ */
+export const scaleFromPoints = (points: PlanPoint[], lengthM: number): PlanScale => {
+  if (!Array.isArray(points) || points.length !== 2) {
+    throw new Error('The scale needs exactly two points');
+  }
+  if (!Number.isFinite(lengthM) || lengthM <= 0) {
+    throw new Error('The scale length must be a positive number of metres');
+  }
+
+  const [start, end] = points.map(toPoint);
+  const pixels = pixelDistance(start, end);
+  if (pixels === 0) throw new Error('The two scale points must be apart');
+
+  return { points: [start, end], lengthM, metresPerPixel: lengthM / pixels };
+};
+
+/**
+ * Measure a run, area or count from its points
+ * @param metresPerPixel The drawing scale; counts do not need one
+ */
+export const measure = (kind: MeasurementKind, points: PlanPoint[], metresPerPixel?: number): number => {
+  if (kind === 'count') return points.length;
+  if (!metresPerPixel) throw new Error('Set the drawing scale before measuring lengths or areas');
+
+  if (kind === 'linear') {
+    const pixels = points.slice(1).reduce((sum, point, index) => sum + pixelDistance(points[index], point), 0);
+    return round2(pixels * metresPerPixel);
+  }
+
+  // Shoelace formula over the closed outline
+  const twiceArea = points.reduce((sum, point, index) => {
+    const next = points[(index + 1) % points.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0);
+  return round2((Math.abs(twiceArea) / 2) * metresPerPixel * metresPerPixel);
+};
+
+/**
+ * Validate a takeoff sent by the client and measure it
+ * Values are always recomputed from the points, never taken from the client
+ */
+export const buildTakeoff = (input: TakeoffInput): PlanTakeoff => {
+  const fileName = String(input.fileName || '').trim();
+  if (!fileName) throw new Error('The takeoff must name its drawing');
+
+  const measurements = Array.isArray(input.measurements) ? input.measurements : [];
+  if (measurements.length > MAX_MEASUREMENTS) {
+    throw new Error(`A drawing can have at most ${MAX_MEASUREMENTS} measurements`);
+  }
+
+  const scale = input.scale ? scaleFromPoints(input.scale.points, Number(input.scale.lengthM)) : undefined;
+  const ids = new Set<string>();
+
+  return {
+    fileName,
+    imageWidth: Number(input.imageWidth) || 0,
+    imageHeight: Number(input.imageHeight) || 0,
+    ...(scale && { scale }),
+    measurements: measurements.map((raw, index) => {
+      const id = String(raw.id || '').trim();
+      if (!id) throw new Error(`Measurement ${index + 1} has no id`);
+      if (ids.has(id)) throw new Error(`Measurement id ${id} is used more than once`);
+      ids.add(id);
+
+      if (!MEASUREMENT_KINDS.includes(raw.kind)) {
+        throw new Error(`Measurement ${index + 1} must be one of: ${MEASUREMENT_KINDS.join(', ')}`);
+      }
+      const points = (Array.isArray(raw.points) ? raw.points : []).map(toPoint);
+      if (points.length < MIN_POINTS[raw.kind] || points.length > MAX_POINTS_PER_MEASUREMENT) {
+        throw new Error(`A ${raw.kind} measurement needs at least ${MIN_POINTS[raw.kind]} point(s)`);
+      }
+
+      return {
+        id,
+        kind: raw.kind,
+        label: String(raw.label || '').trim() || `${raw.kind[0].toUpperCase()}${raw.kind.slice(1)} ${index + 1}`,
+        points,
+        value: measure(raw.kind, points, scale?.metresPerPixel),
+        unit: MEASUREMENT_UNITS[raw.kind],
+        ...(raw.color && { color: String(raw.color) }),
+      };
+    }),
+    updatedAt: new Date(),
+  };
+};
+
+const measurementsById = (result: AnalysisResult): Map<string, PlanMeasurement> =>
+  new Map((result.takeoffs || []).flatMap(takeoff => takeoff.measurements.map(measurement => [measurement.id, measurement] as const)));
+
+/**
+ * Set the quantity of every measured BQ item from its measurements
+ * Items whose measurements have all been deleted keep their last quantity
+ */
+export const applyTakeoffQuantities = (result: AnalysisResult): AnalysisResult => {
+  const measurements = measurementsById(result);
+  let changed = false;
+
+  const billOfQuantities = result.billOfQuantities.map(item => {
+    if (!item.quantitySource) return item;
+    changed = true;
+
+    const measurementIds = item.quantitySource.measurementIds.filter(id => measurements.has(id));
+    if (measurementIds.length === 0) {
+      const { quantitySource, ...unmeasured } = item;
+      return unmeasured;
+    }
+
+    const quantity = round2(measurementIds.reduce((sum, id) => sum + measurements.get(id)!.value, 0));
+    const updated: BQItem = { ...item, quantity, quantitySource: { type: 'takeoff', measurementIds } };
+    updated.totalCostKES = computeLineTotal(updated);
+    return updated;
+  });
+
+  if (!changed) return result;
+
+  return {
+    ...result,
+    billOfQuantities,
+    summary: { ...result.summary, ...computeSummaryTotals(billOfQuantities) },
+  };
+};
+
+/**
+ * Store the takeoff of one drawing, replacing its previous takeoff, and re-measure the BQ
+ */
+export const saveTakeoff = (result: AnalysisResult, takeoff: PlanTakeoff): AnalysisResult => {
+  const others = (result.takeoffs || []).filter(existing => existing.fileName !== takeoff.fileName);
+
+  const usedIds = new Set(others.flatMap(existing => existing.measurements.map(measurement => measurement.id)));
+  const clash = takeoff.measurements.find(measurement => usedIds.has(measurement.id));
+  if (clash) throw new Error(`Measurement id ${clash.id} is already used on another drawing`);
+
+  return applyTakeoffQuantities({ ...result, takeoffs: [...others, takeoff] });
+};
+
+const nextItemNumber = (items: BQItem[]): string => {
+  const numbers = items.map(item => parseInt(item.itemNumber, 10)).filter(Number.isFinite);
+  return String(numbers.length > 0 ? Math.max(...numbers) + 1 : items.length + 1);
+};
+
+/**
+ * Make measurements the quantity source of a BQ item, or of a new item
+ * An empty list of measurements detaches an existing item, keeping its quantity
+ * @returns The updated analysis and the index of the measured item
+ */
+export const attachMeasurements = (
+  result: AnalysisResult,
+  options: AttachOptions
+): { analysis: AnalysisResult; itemIndex: number } => {
+  const measurements = measurementsById(result);
+  const ids = Array.from(new Set(options.measurementIds));
+
+  const missing = ids.find(id => !measurements.has(id));
+  if (missing) throw new Error(`Measurement ${missing} not found`);
+
+  const units = new Set(ids.map(id => measurements.get(id)!.unit));
+  if (units.size > 1) throw new Error('Measurements of different kinds cannot make up one quantity');
+  const unit = Array.from(units)[0];
+
+  const items = [...result.billOfQuantities];
+  let itemIndex = options.itemIndex;
+
+  if (itemIndex === undefined) {
+    if (ids.length === 0) throw new Error('Choose the measurements for the new item');
+    const description = (options.description || '').trim();
+    if (!description) throw new Error('The new item needs a description');
+
+    items.push({
+      itemNumber: nextItemNumber(items),
+      description,
+      unit,
+      quantity: 0,
+      unitRateKES: options.unitRateKES || 0,
+      wastageFactor: 0,
+      totalCostKES: 0,
+      ...(options.category && { category: options.category }),
+      quantitySource: { type: 'takeoff', measurementIds: ids },
+    });
+    itemIndex = items.length - 1;
+  } else {
+    const item = items[itemIndex];
+    if (!item) throw new Error(`BQ item ${itemIndex} not found`);
+
+    if (ids.length === 0) {
+      const { quantitySource, ...unmeasured } = item;
+      items[itemIndex] = unmeasured;
+    } else {
+      if (normalizeUnit(item.unit) !== unit) {
+        throw new Error(`Item ${item.itemNumber} is measured in ${item.unit}, but the measurements are in ${unit}`);
+      }
+      items[itemIndex] = { ...item, quantitySource: { type: 'takeoff', measurementIds: ids } };
+    }
+  }
+
+  return { analysis: applyTakeoffQuantities({ ...result, billOfQuantities: items }), itemIndex };
+};
@@ -0,0 +1,219 @@
+import { getDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { AnalysisResult, BQItem, RateLibraryEntry, RateMatchMode, RateMatchSummary, RateProvenance } from '../types';
+import { computeLineTotal, computeSummaryTotals } from './bqReconciliation';
+
+/**
+ * Unit-rate library matching
+ * Matches BQ items against the maintained rate library so that library rates
+ * override or sanity-check the rates invented by the AI model
+ */
+
+export const DEFAULT_RATE_REGION = 'Nairobi';
+
+// Minimum description similarity (0-1) for a library entry to count as a match
+export const MIN_MATCH_SCORE = 0.6;
+
+// Allowed deviation of an AI rate from the library rate in 'check' mode
+export const DEFAULT_RATE_TOLERANCE = 0.2;
+
+export interface RateMatchOptions {
+  mode: RateMatchMode;
+  tolerance?: number;
+  minScore?: number;
+}
+
+const UNIT_ALIASES: Record<string, string> = {
+  'm3': 'm3', 'm³': 'm3', 'cum': 'm3', 'cu.m': 'm3', 'cubic metres': 'm3',
+  'm2': 'm2', 'm²': 'm2', 'sqm': 'm2', 'sq.m': 'm2', 'square metres': 'm2',
+  'm': 'm', 'lm': 'm', 'rm': 'm', 'metres': 'm',
+  'nr': 'nr', 'no': 'nr', 'no.': 'nr', 'pcs': 'nr', 'each': 'nr',
+  'kg': 'kg', 'kgs': 'kg',
+  't': 't', 'tonne': 't', 'tonnes': 't',
+  'ls': 'item', 'sum': 'item', 'item': 'item', 'lump sum': 'item',
+};
+
+const STOP_WORDS = new Set(['the', 'and', 'of', 'in', 'to', 'for', 'with', 'a', 'an', 'mm', 'thick']);
+
+export const normalizeUnit = (unit: string): string => {
+  const key = (unit || '').trim().toLowerCase();
+  return UNIT_ALIASES[key] || key;
+};
+
+const tokenize = (text: string): Set<string> => {
+  const tokens = (text || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9:.]+/g, ' ')
+    .split(' ')
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+  return new Set(tokens);
+};
+
+/**
+ * Dice coefficient between the token sets of two descriptions
+ */
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+
+  return (2 * shared) / (tokensA.size + tokensB.size);
+};
+
+/**
+ * Find the library entry that best matches a BQ item
+ * The unit must agree and the description must be similar enough; among those, an entry whose item code
+ * is the BQ item number wins. Item numbers such as "1" or "1.1" are reused across BQs, so a code alone is no match
+ */
+export const findBestRateMatch = (
+  item: BQItem,
+  entries: RateLibraryEntry[],
+  minScore: number = MIN_MATCH_SCORE
+): { entry: RateLibraryEntry; score: number } | null => {
+  const unit = normalizeUnit(item.unit);
+  let best: { entry: RateLibraryEntry; score: number } | null = null;
+
+  for (const entry of entries) {
+    if (normalizeUnit(entry.unit) !== unit) continue;
+
+    const similarity = descriptionSimilarity(item.description, entry.description);
+    if (similarity < minScore) continue;
+
+    const byCode = entry.itemCode === item.itemNumber;
+    const score = byCode ? 1 : similarity;
+    if (!best || score > best.score || (byCode && best.entry.itemCode !== item.itemNumber)) {
+      best = { entry, score };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Match every BQ line against the library and record the provenance of its rate
+ * @param result Analysis result with AI-generated rates
+ * @param entries Effective library entries for the project's region
+ * @param options 'override' replaces AI rates, 'check' only records the deviation
+ */
+export const applyRateLibrary = (
+  result: AnalysisResult,
+  entries: RateLibraryEntry[],
+  options: RateMatchOptions
+): { analysis: AnalysisResult; summary: RateMatchSummary } => {
+  const tolerance = options.tolerance ?? DEFAULT_RATE_TOLERANCE;
+  const summary: RateMatchSummary = { mode: options.mode, matched: 0, overridden: 0, outOfTolerance: 0 };
+
+  const billOfQuantities = result.billOfQuantities.map(item => {
+    // Rates entered by hand are never replaced
+    if (item.rateProvenance?.source === 'manual') return item;
+
+    const aiRateKES = item.rateProvenance?.aiRateKES ?? item.unitRateKES;
+    const match = findBestRateMatch(item, entries, options.minScore);
+
+    if (!match) {
+      const rateProvenance: RateProvenance = { source: 'ai', aiRateKES };
+      return { ...item, rateProvenance };
+    }
+
+    const { entry, score } = match;
+    const deviation = entry.rateKES !== 0 ? (aiRateKES - entry.rateKES) / entry.rateKES : 0;
+    const withinTolerance = Math.abs(deviation) <= tolerance;
+
+    summary.matched++;
+    if (!withinTolerance) summary.outOfTolerance++;
+
+    const rateProvenance: RateProvenance = {
+      source: options.mode === 'override' ? 'library' : 'ai',
+      aiRateKES,
+      libraryRateId: entry._id?.toString(),
+      itemCode: entry.itemCode,
+      region: entry.region,
+      libraryRateKES: entry.rateKES,
+      effectiveDate: entry.effectiveDate,
+      librarySource: entry.source,
+      matchScore: Math.round(score * 100) / 100,
+      deviation: Math.round(deviation * 10000) / 10000,
+      withinTolerance,
+    };
+
+    if (options.mode !== 'override') {
+      return { ...item, rateProvenance };
+    }
+
+    summary.overridden++;
+    const updated = { ...item, unitRateKES: entry.rateKES, rateProvenance };
+    updated.totalCostKES = computeLineTotal(updated);
+    return updated;
+  });
+
+  const analysis: AnalysisResult = {
+    ...result,
+    billOfQuantities,
+    metadata: { ...result.metadata, rateLibrary: summary }
+  };
+
+  // Overridden rates invalidate the AI's summary, so rebuild it from the lines
+  if (summary.overridden > 0) {
+    analysis.summary = { ...result.summary, ...computeSummaryTotals(billOfQuantities) };
+  }
+
+  return { analysis, summary };
+};
+
+/**
+ * A new dated entry superseding a library rate for the same item code and region
+ * The entry in force until now is left as it was, so the rate history stays on record
+ */
+export const supersedeRate = (
+  current: RateLibraryEntry,
+  changes: Partial<Pick<RateLibraryEntry, 'description' | 'unit' | 'source' | 'metadata'>> & { rateKES?: number | string; effectiveDate?: string | Date },
+  createdBy: string,
+  now: Date = new Date()
+): RateLibraryEntry => ({
+  itemCode: current.itemCode,
+  description: changes.description ?? current.description,
+  unit: changes.unit ?? current.unit,
+  region: current.region,
+  rateKES: changes.rateKES !== undefined ? Number(changes.rateKES) : current.rateKES,
+  effectiveDate: changes.effectiveDate ? new Date(changes.effectiveDate) : now,
+  source: changes.source ?? current.source,
+  createdBy,
+  createdAt: now,
+  updatedAt: now,
+  isActive: true,
+  ...((changes.metadata ?? current.metadata) && { metadata: changes.metadata ?? current.metadata })
+});
+
+/**
+ * Load the library entries in effect for a region on a given date
+ * Only the latest effective entry per item code is returned
+ */
+export const loadEffectiveRates = async (
+  region: string = DEFAULT_RATE_REGION,
+  asOf: Date = new Date()
+): Promise<RateLibraryEntry[]> => {
+  const db = getDatabase();
+  const escapedRegion = region.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  const entries = await db.collection<RateLibraryEntry>('rate_library')
+    .find({
+      isActive: true,
+      region: { $regex: `^${escapedRegion}$`, $options: 'i' },
+      effectiveDate: { $lte: asOf }
+    })
+    .sort({ effectiveDate: -1 })
+    .toArray();
+
+  const latest = new Map<string, RateLibraryEntry>();
+  for (const entry of entries) {
+    if (!latest.has(entry.itemCode)) latest.set(entry.itemCode, entry);
+  }
+
+  logger.info(`Loaded ${latest.size} effective library rates for ${region}`);
+  return Array.from(latest.values());
+};
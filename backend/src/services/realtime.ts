@@ -0,0 +1,20 @@
+import { Server as SocketIOServer } from 'socket.io';
+
+/**
+ * Realtime event delivery
+ * Holds the Socket.IO server created in server.ts so services can push events
+ * to rooms without importing the server module
+ */
+
+let socketServer: SocketIOServer | undefined;
+
+export const setSocketServer = (server: SocketIOServer): void => {
+  socketServer = server;
+};
+
+/**
+ * Emit an event to everyone in a room; does nothing before the server is set, e.g. in tests
+ */
+export const emitToRoom = (room: string, event: string, payload: unknown): void => {
+  socketServer?.to(room).emit(event, payload);
+};
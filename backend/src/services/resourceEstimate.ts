@@ -0,0 +1,391 @@
+import { getDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+import {
+  AnalysisResult,
+  BQItem,
+  CrewHistogramWeek,
+  CurrencyCode,
+  CurrencyConversion,
+  ProductivityNorm,
+  ResourceEstimate,
+  ResourceItem,
+  ResourceKind,
+  ResourceRate,
+  TradeResources
+} from '../types';
+import { currencyOf, resolveConversion, roundMoney } from './currency';
+import { loadLocationFactors, pricingFactor } from './locationFactors';
+import { findNorm, mergeNorms, normalizeUnit, parseNormBase } from './materialSchedule';
+
+/**
+ * Labour and plant resource estimation
+ * Applies a productivity library (man-hours per unit, crew make-up and plant
+ * hours) to each BQ item to cost its labour and plant at hourly rates and split
+ * its unit rate into labour, plant and materials. Work is totalled by trade in
+ * man-days and spread over the programme in a standard trade sequence to give a
+ * weekly crew histogram. Built-in norms and Nairobi rates can be replaced or
+ * added to by admins in the productivity_norms and resource_rates tables
+ */
+
+export const HOURS_PER_DAY = 8;
+export const DAYS_PER_WEEK = 5.5; // Kenyan sites work a half day on Saturday
+
+// Crew assumed when sizing a programme for a BQ with no construction period
+const DEFAULT_AVERAGE_CREW = 20;
+const MIN_PROGRAMME_WEEKS = 4;
+
+// Labour trades in construction order, with the share of the programme each works in
+export const LABOUR_TRADES: Record<string, [number, number]> = {
+  Groundwork: [0, 0.2],
+  Formwork: [0.05, 0.6],
+  Reinforcement: [0.05, 0.6],
+  Concrete: [0.05, 0.6],
+  Masonry: [0.15, 0.6],
+  Carpentry: [0.45, 0.85],
+  Roofing: [0.5, 0.75],
+  Plastering: [0.55, 0.85],
+  Tiling: [0.7, 0.95],
+  Painting: [0.8, 1],
+};
+
+const BUILT_IN_NORM = 'Built-in norm';
+const BUILT_IN_RATE = 'Built-in rate (Nairobi, 2026)';
+const WALLING = ['block', 'stone', 'walling', 'masonry'];
+
+type NormInput = Pick<ProductivityNorm, 'key' | 'name' | 'trade' | 'keywords' | 'units' | 'manHoursPerUnit' | 'crew' | 'plant'>;
+
+const builtIn = (norm: NormInput): ProductivityNorm => ({ ...norm, source: BUILT_IN_NORM, isActive: true });
+
+const MASON_GANG = [{ role: 'Mason', count: 1 }, { role: 'Labourer', count: 1 }];
+
+// Indicative outputs for East African sites, in the order ties are broken
+export const DEFAULT_PRODUCTIVITY_NORMS: ProductivityNorm[] = [
+  builtIn({ key: 'excavation', name: 'Excavation by hand', trade: 'Groundwork', units: ['m3'], keywords: [['excavat']], manHoursPerUnit: 2.5, crew: [{ role: 'Labourer', count: 1 }], plant: [] }),
+  builtIn({ key: 'hardcore', name: 'Hardcore filling, compacted', trade: 'Groundwork', units: ['m3'], keywords: [['hardcore']], manHoursPerUnit: 1.5, crew: [{ role: 'Labourer', count: 1 }], plant: [{ plant: 'Plate compactor', hoursPerUnit: 0.1 }] }),
+  builtIn({ key: 'backfill', name: 'Backfilling, compacted', trade: 'Groundwork', units: ['m3'], keywords: [['backfill', 'filling']], manHoursPerUnit: 1.2, crew: [{ role: 'Labourer', count: 1 }], plant: [{ plant: 'Plate compactor', hoursPerUnit: 0.05 }] }),
+  builtIn({ key: 'formwork', name: 'Formwork, fix and strike', trade: 'Formwork', units: ['m2'], keywords: [['formwork', 'shuttering']], manHoursPerUnit: 1.5, crew: [{ role: 'Carpenter', count: 1 }, { role: 'Labourer', count: 1 }], plant: [] }),
+  builtIn({ key: 'reinforcement', name: 'Bar reinforcement, cut, bend and fix', trade: 'Reinforcement', units: ['kg'], keywords: [['reinforcement', 'rebar', 'steel bar', 'bars', 'y8', 'y10', 'y12', 'y16', 'y20', 'r8', 'r10']], manHoursPerUnit: 0.04, crew: [{ role: 'Steel fixer', count: 1 }, { role: 'Labourer', count: 1 }], plant: [] }),
+  builtIn({ key: 'concrete', name: 'Concrete, site mixed and placed', trade: 'Concrete', units: ['m3'], keywords: [['concrete']], manHoursPerUnit: 6, crew: [{ role: 'Mason', count: 1 }, { role: 'Labourer', count: 4 }], plant: [{ plant: 'Concrete mixer', hoursPerUnit: 0.4 }, { plant: 'Poker vibrator', hoursPerUnit: 0.4 }] }),
+  builtIn({ key: 'blockwork', name: 'Block or stone walling', trade: 'Masonry', units: ['m2'], keywords: [WALLING], manHoursPerUnit: 1.2, crew: MASON_GANG, plant: [] }),
+  builtIn({ key: 'roof-timber', name: 'Roof timbers and carcassing', trade: 'Carpentry', units: ['m', 'm2'], keywords: [['timber', 'truss', 'rafter', 'purlin', 'wall plate']], manHoursPerUnit: 0.4, crew: [{ role: 'Carpenter', count: 1 }, { role: 'Labourer', count: 1 }], plant: [] }),
+  builtIn({ key: 'doors-windows', name: 'Doors and windows, hang or fix', trade: 'Carpentry', units: ['No'], keywords: [['door', 'window']], manHoursPerUnit: 4, crew: [{ role: 'Carpenter', count: 1 }], plant: [] }),
+  builtIn({ key: 'roof-covering', name: 'Roof sheeting or tiling', trade: 'Roofing', units: ['m2'], keywords: [['roof'], ['sheet', 'tile', 'tiling', 'covering', 'mabati']], manHoursPerUnit: 0.6, crew: [{ role: 'Roofer', count: 1 }, { role: 'Labourer', count: 1 }], plant: [] }),
+  builtIn({ key: 'plaster', name: 'Plaster or render', trade: 'Plastering', units: ['m2'], keywords: [['plaster', 'render']], manHoursPerUnit: 0.5, crew: [{ role: 'Plasterer', count: 1 }, { role: 'Labourer', count: 1 }], plant: [] }),
+  builtIn({ key: 'screed', name: 'Floor screed', trade: 'Plastering', units: ['m2'], keywords: [['screed']], manHoursPerUnit: 0.35, crew: MASON_GANG, plant: [] }),
+  builtIn({ key: 'tiling', name: 'Floor and wall tiling', trade: 'Tiling', units: ['m2'], keywords: [['tile', 'tiling']], manHoursPerUnit: 1, crew: [{ role: 'Tiler', count: 1 }, { role: 'Labourer', count: 1 }], plant: [] }),
+  builtIn({ key: 'painting', name: 'Painting, three coats', trade: 'Painting', units: ['m2'], keywords: [['paint', 'emulsion', 'gloss']], manHoursPerUnit: 0.2, crew: [{ role: 'Painter', count: 1 }], plant: [] }),
+];
+
+const rate = (kind: ResourceKind, resource: string, hourlyRateKES: number): ResourceRate =>
+  ({ kind, resource, hourlyRateKES, source: BUILT_IN_RATE, isActive: true });
+
+export const DEFAULT_RESOURCE_RATES: ResourceRate[] = [
+  rate('labour', 'Labourer', 90),
+  rate('labour', 'Mason', 160),
+  rate('labour', 'Carpenter', 160),
+  rate('labour', 'Steel fixer', 160),
+  rate('labour', 'Plasterer', 160),
+  rate('labour', 'Roofer', 160),
+  rate('labour', 'Tiler', 170),
+  rate('labour', 'Painter', 150),
+  rate('plant', 'Concrete mixer', 600),
+  rate('plant', 'Poker vibrator', 250),
+  rate('plant', 'Plate compactor', 350),
+];
+
+const rateKey = (kind: ResourceKind, resource: string): string => `${kind}|${resource.trim().toLowerCase()}`;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+export const mergeProductivityNorms = (defaults: ProductivityNorm[], entries: ProductivityNorm[]): ProductivityNorm[] =>
+  mergeNorms(defaults, entries);
+
+export const findProductivityNorm = (norms: ProductivityNorm[], item: BQItem): ProductivityNorm | null => findNorm(norms, item);
+
+/**
+ * Replace built-in rates with the table's entries for the same resource, and add the rest
+ */
+export const mergeResourceRates = (defaults: ResourceRate[], entries: ResourceRate[]): ResourceRate[] => {
+  const active = entries.filter(entry => entry.isActive);
+  const byKey = new Map(active.map(entry => [rateKey(entry.kind, entry.resource), entry]));
+  return [
+    ...defaults.map(entry => byKey.get(rateKey(entry.kind, entry.resource)) || entry),
+    ...active.filter(entry => !defaults.some(other => rateKey(other.kind, other.resource) === rateKey(entry.kind, entry.resource))),
+  ];
+};
+
+// Hourly rates in the BQ's currency, labour moved from Nairobi to the BQ's location
+export interface ResourceRateTable {
+  currency: CurrencyCode;
+  labourFactor: number;
+  rates: Map<string, number>;
+}
+
+/**
+ * Price the Nairobi KES rates for a BQ's location and currency
+ * @param conversion KES to the BQ's currency, or null for a BQ in KES
+ */
+export const buildResourceRateTable = (
+  rates: ResourceRate[],
+  pricing: { currency: CurrencyCode; labourFactor: number; conversion?: CurrencyConversion | null }
+): ResourceRateTable => {
+  const exchange = pricing.conversion?.rate ?? 1;
+  return {
+    currency: pricing.currency,
+    labourFactor: pricing.labourFactor,
+    rates: new Map(rates.filter(entry => entry.isActive).map(entry => [
+      rateKey(entry.kind, entry.resource),
+      entry.hourlyRateKES * exchange * (entry.kind === 'labour' ? pricing.labourFactor : 1),
+    ])),
+  };
+};
+
+interface ItemResources {
+  resources: ResourceItem;
+  roleHours: Array<{ role: string; hours: number }>;
+  plantUse: Array<{ plant: string; hours: number; cost: number }>;
+  missingRates: string[];
+}
+
+const resourcesFor = (item: BQItem, norm: ProductivityNorm, table: ResourceRateTable): ItemResources => {
+  const quantity = Math.max(0, item.quantity) * normalizeUnit(item.unit).scale;
+  const missingRates: string[] = [];
+  const hourlyRate = (kind: ResourceKind, resource: string): number => {
+    const value = table.rates.get(rateKey(kind, resource));
+    if (value === undefined) missingRates.push(resource);
+    return value ?? 0;
+  };
+
+  const manHours = norm.manHoursPerUnit * quantity;
+  const crewSize = norm.crew.reduce((sum, member) => sum + member.count, 0);
+  const roleHours = norm.crew.map(member => ({ role: member.role, hours: (manHours * member.count) / crewSize }));
+  const plantUse = norm.plant.map(use => {
+    const hours = use.hoursPerUnit * quantity;
+    return { plant: use.plant, hours, cost: hours * hourlyRate('plant', use.plant) };
+  });
+
+  const labourCost = roleHours.reduce((sum, role) => sum + role.hours * hourlyRate('labour', role.role), 0);
+  const plantCost = plantUse.reduce((sum, use) => sum + use.cost, 0);
+
+  // The split is per BQ unit; whatever labour and plant leave of the rate is materials
+  const perUnit = (amount: number) => item.quantity > 0 ? roundMoney(amount / item.quantity, table.currency) : 0;
+  const labourRate = perUnit(labourCost);
+  const plantRate = perUnit(plantCost);
+  const materialRate = roundMoney(item.unitRateKES - labourRate - plantRate, table.currency);
+
+  return {
+    resources: {
+      itemNumber: item.itemNumber,
+      description: item.description,
+      normKey: norm.key,
+      trade: norm.trade,
+      manHours: round2(manHours),
+      labourCostKES: roundMoney(labourCost, table.currency),
+      plantCostKES: roundMoney(plantCost, table.currency),
+      materialCostKES: roundMoney(Math.max(0, item.totalCostKES - labourCost - plantCost), table.currency),
+      rateSplit: { labourKES: labourRate, plantKES: plantRate, materialKES: Math.max(0, materialRate) },
+      ...(materialRate < 0 && { exceedsRate: true }),
+    },
+    roleHours,
+    plantUse,
+    missingRates,
+  };
+};
+
+/**
+ * Labour and plant for one BQ item, or null when no productivity norm applies
+ */
+export const estimateItemResources = (item: BQItem, norms: ProductivityNorm[], table: ResourceRateTable): ResourceItem | null => {
+  const norm = findProductivityNorm(norms, item);
+  return norm ? resourcesFor(item, norm, table).resources : null;
+};
+
+/**
+ * Programme length: as asked, else the BQ's construction period, else sized for an average crew
+ */
+const programmeLength = (analysis: AnalysisResult, manDays: number, weeks?: number): number => {
+  if (weeks) return weeks;
+  const months = analysis.metadata.escalation?.constructionMonths;
+  if (months) return Math.max(1, Math.round((months * 52) / 12));
+  return Math.max(MIN_PROGRAMME_WEEKS, Math.ceil(manDays / (DAYS_PER_WEEK * DEFAULT_AVERAGE_CREW)));
+};
+
+// Weeks a trade works in, numbered from 1
+const tradeWindow = (trade: string, weeks: number): { startWeek: number; endWeek: number } => {
+  const [start, end] = LABOUR_TRADES[trade] || [0, 1];
+  const startWeek = Math.min(weeks, Math.floor(start * weeks) + 1);
+  return { startWeek, endWeek: Math.max(startWeek, Math.ceil(end * weeks)) };
+};
+
+/**
+ * Estimate the labour and plant for a BQ
+ * Items no norm applies to are listed in unestimatedItems
+ * @param options.programmeWeeks Spread the crew histogram over this many weeks
+ */
+export const buildResourceEstimate = (
+  analysis: AnalysisResult,
+  norms: ProductivityNorm[],
+  table: ResourceRateTable,
+  options: { programmeWeeks?: number; builtAt?: Date } = {}
+): ResourceEstimate => {
+  const items: ResourceItem[] = [];
+  const unestimatedItems: ResourceEstimate['unestimatedItems'] = [];
+  const missingRates = new Set<string>();
+  const trades = new Map<string, { manHours: number; labourCost: number; plantCost: number; roles: Map<string, number> }>();
+  const plant = new Map<string, { hours: number; cost: number }>();
+
+  for (const item of analysis.billOfQuantities) {
+    const norm = findProductivityNorm(norms, item);
+    if (!norm) {
+      unestimatedItems.push({ itemNumber: item.itemNumber, description: item.description, unit: item.unit });
+      continue;
+    }
+
+    const { resources, roleHours, plantUse, missingRates: missing } = resourcesFor(item, norm, table);
+    items.push(resources);
+    missing.forEach(resource => missingRates.add(resource));
+
+    const trade = trades.get(norm.trade) || { manHours: 0, labourCost: 0, plantCost: 0, roles: new Map<string, number>() };
+    trade.manHours += roleHours.reduce((sum, role) => sum + role.hours, 0);
+    trade.labourCost += resources.labourCostKES;
+    trade.plantCost += resources.plantCostKES;
+    roleHours.forEach(role => trade.roles.set(role.role, (trade.roles.get(role.role) || 0) + role.hours));
+    trades.set(norm.trade, trade);
+
+    for (const use of plantUse) {
+      const total = plant.get(use.plant) || { hours: 0, cost: 0 };
+      total.hours += use.hours;
+      total.cost += use.cost;
+      plant.set(use.plant, total);
+    }
+  }
+
+  const totalManHours = Array.from(trades.values()).reduce((sum, trade) => sum + trade.manHours, 0);
+  const programmeWeeks = programmeLength(analysis, totalManHours / HOURS_PER_DAY, options.programmeWeeks);
+
+  const tradeOrder = Object.keys(LABOUR_TRADES);
+  const tradeResources: TradeResources[] = Array.from(trades.entries())
+    .sort(([a], [b]) => (tradeOrder.indexOf(a) + 1 || tradeOrder.length + 1) - (tradeOrder.indexOf(b) + 1 || tradeOrder.length + 1))
+    .map(([name, trade]) => ({
+      trade: name,
+      manHours: round2(trade.manHours),
+      manDays: round2(trade.manHours / HOURS_PER_DAY),
+      labourCostKES: roundMoney(trade.labourCost, table.currency),
+      plantCostKES: roundMoney(trade.plantCost, table.currency),
+      crew: Array.from(trade.roles.entries()).map(([role, hours]) => ({ role, manDays: round2(hours / HOURS_PER_DAY) })),
+      ...tradeWindow(name, programmeWeeks),
+    }));
+
+  // Each trade's man-days spread evenly over its weeks, in whole workers
+  const histogram: CrewHistogramWeek[] = Array.from({ length: programmeWeeks }, (_, index) => {
+    const week = index + 1;
+    const byTrade: Record<string, number> = {};
+    for (const trade of tradeResources) {
+      if (week < trade.startWeek || week > trade.endWeek || trade.manDays === 0) continue;
+      byTrade[trade.trade] = Math.ceil(trade.manDays / ((trade.endWeek - trade.startWeek + 1) * DAYS_PER_WEEK) - 1e-9);
+    }
+    return { week, workers: Object.values(byTrade).reduce((sum, workers) => sum + workers, 0), byTrade };
+  });
+
+  return {
+    currency: table.currency,
+    labourFactor: table.labourFactor,
+    programmeWeeks,
+    items,
+    trades: tradeResources,
+    plant: Array.from(plant.entries()).map(([name, total]) => ({ plant: name, hours: round2(total.hours), costKES: roundMoney(total.cost, table.currency) })),
+    histogram,
+    totals: {
+      manHours: round2(totalManHours),
+      manDays: round2(totalManHours / HOURS_PER_DAY),
+      labourCostKES: roundMoney(items.reduce((sum, item) => sum + item.labourCostKES, 0), table.currency),
+      plantCostKES: roundMoney(items.reduce((sum, item) => sum + item.plantCostKES, 0), table.currency),
+      materialCostKES: roundMoney(items.reduce((sum, item) => sum + item.materialCostKES, 0), table.currency),
+    },
+    unestimatedItems,
+    missingRates: Array.from(missingRates),
+    builtAt: options.builtAt ?? new Date(),
+  };
+};
+
+const positive = (value: any): number | null => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+const text = (value: any): string => typeof value === 'string' ? value.trim() : '';
+
+/**
+ * Check and tidy a productivity norm sent by an admin
+ * @throws Error describing the first problem found
+ */
+export const parseProductivityNorm = (input: any): NormInput => {
+  const base = parseNormBase(input);
+
+  const trade = Object.keys(LABOUR_TRADES).find(name => name.toLowerCase() === text(input.trade).toLowerCase());
+  if (!trade) throw new Error(`Trade must be one of ${Object.keys(LABOUR_TRADES).join(', ')}`);
+
+  const manHoursPerUnit = positive(input.manHoursPerUnit);
+  if (!manHoursPerUnit) throw new Error('Man-hours per unit must be a positive number');
+
+  if (!Array.isArray(input.crew) || input.crew.length === 0) throw new Error('The crew needs at least one role');
+  const crew = input.crew.map((member: any, index: number) => {
+    const role = text(member?.role);
+    const count = Number(member?.count ?? 1);
+    if (!role) throw new Error(`Crew member ${index + 1} needs a role`);
+    if (!Number.isInteger(count) || count < 1) throw new Error(`The ${role} count must be a whole number of at least 1`);
+    return { role, count };
+  });
+  const roles = crew.map((member: { role: string }) => member.role.toLowerCase());
+  const repeated = roles.find((role: string, index: number) => roles.indexOf(role) !== index);
+  if (repeated) throw new Error(`The crew repeats the role ${repeated}`);
+
+  if (input.plant !== undefined && !Array.isArray(input.plant)) throw new Error('Plant must be a list');
+  const plant = (input.plant || []).map((use: any, index: number) => {
+    const name = text(use?.plant);
+    const hoursPerUnit = positive(use?.hoursPerUnit);
+    if (!name || !hoursPerUnit) throw new Error(`Plant ${index + 1} needs a name and positive hours per unit`);
+    return { plant: name, hoursPerUnit };
+  });
+
+  return { ...base, trade, manHoursPerUnit, crew, plant };
+};
+
+/**
+ * Load the productivity library: the built-in norms with the table's active entries applied
+ */
+export const loadProductivityNorms = async (): Promise<ProductivityNorm[]> => {
+  const db = getDatabase();
+  const entries = await db.collection<ProductivityNorm>('productivity_norms')
+    .find({ isActive: true })
+    .sort({ createdAt: 1 })
+    .toArray();
+
+  logger.info(`Loaded ${entries.length} productivity norm entries`);
+  return mergeProductivityNorms(DEFAULT_PRODUCTIVITY_NORMS, entries);
+};
+
+/**
+ * Load the hourly rates: the built-in Nairobi rates with the table's active entries applied
+ */
+export const loadResourceRates = async (): Promise<ResourceRate[]> => {
+  const db = getDatabase();
+  const entries = await db.collection<ResourceRate>('resource_rates')
+    .find({ isActive: true })
+    .sort({ createdAt: 1 })
+    .toArray();
+
+  logger.info(`Loaded ${entries.length} resource rate entries`);
+  return mergeResourceRates(DEFAULT_RESOURCE_RATES, entries);
+};
+
+/**
+ * Load the hourly rates priced for a BQ's location and currency
+ * @throws Error when the BQ is not in KES and no exchange rate from KES is effective
+ */
+export const loadResourceRateTable = async (analysis: AnalysisResult, asOf: Date = new Date()): Promise<ResourceRateTable> => {
+  const currency = currencyOf(analysis);
+  const conversion = await resolveConversion('KES', currency, asOf);
+  const { labourFactor } = pricingFactor(analysis, await loadLocationFactors(asOf));
+  return buildResourceRateTable(await loadResourceRates(), { currency, labourFactor, conversion });
+};
@@ -0,0 +1,290 @@
+import {
+  AnalysisResult,
+  CurrencyCode,
+  MaterialOnSite,
+  Valuation,
+  ValuationCertificate,
+  ValuationItem,
+  ValuationTerms,
+  ValuationVariation,
+  Variation
+} from '../types';
+import { currencyOf, formatMoney, roundMoney } from './currency';
+import { contractRate, isInstructed } from './variations';
+
+/**
+ * Interim valuations
+ * Values work done against a contract BQ, item by item from the percentage or
+ * quantity complete, adds instructed variations and materials on site and works out the payment
+ * certificate: retention up to its limit, recovery of the advance payment and
+ * the amount due after previous certificates. Everything is to date, so each
+ * valuation carries forward the progress of the one before it
+ */
+
+export const DEFAULT_VALUATION_TERMS: ValuationTerms = {
+  retentionRate: 0.1,
+  retentionLimit: 0.05,
+  advancePaymentKES: 0,
+  advanceRecoveryRate: 0,
+};
+
+export const MAX_MATERIALS_ON_SITE = 100;
+
+// Progress entered for one item: a percentage of the contract quantity or a quantity
+export interface ValuationProgress {
+  itemIndex: number;
+  percentComplete?: number;
+  quantityComplete?: number;
+}
+
+export interface ValuationInput {
+  progress: ValuationProgress[];
+  variations: Array<{ variationId: string; percentComplete: number }>;
+  materialsOnSite: MaterialOnSite[];
+  terms: ValuationTerms;
+}
+
+const fraction = (value: any, fallback: number, label: string): number => {
+  const number = value === undefined ? fallback : Number(value);
+  if (!Number.isFinite(number) || number < 0 || number > 1) throw new Error(`${label} must be between 0 and 1`);
+  return number;
+};
+
+/**
+ * Check valuation terms sent by a client; terms not sent keep their fallback
+ * @throws Error describing the first problem found
+ */
+export const parseValuationTerms = (input: any, fallback: ValuationTerms = DEFAULT_VALUATION_TERMS): ValuationTerms => {
+  if (input === undefined) return fallback;
+  if (!input || typeof input !== 'object') throw new Error('Terms must be an object');
+
+  const advancePaymentKES = input.advancePaymentKES === undefined ? fallback.advancePaymentKES : Number(input.advancePaymentKES);
+  if (!Number.isFinite(advancePaymentKES) || advancePaymentKES < 0) throw new Error('The advance payment must not be negative');
+
+  return {
+    retentionRate: fraction(input.retentionRate, fallback.retentionRate, 'Retention rate'),
+    retentionLimit: fraction(input.retentionLimit, fallback.retentionLimit, 'Retention limit'),
+    advancePaymentKES,
+    advanceRecoveryRate: fraction(input.advanceRecoveryRate, fallback.advanceRecoveryRate, 'Advance recovery rate'),
+  };
+};
+
+/**
+ * Check the progress and materials on site sent by a client against the contract BQ
+ * @param variations The contract's variation orders, which progress on variations is checked against
+ * @throws Error describing the first problem found
+ */
+export const parseValuationInput = (
+  input: any,
+  analysis: AnalysisResult,
+  fallbackTerms?: ValuationTerms,
+  variations: Variation[] = []
+): ValuationInput => {
+  if (!input || typeof input !== 'object') throw new Error('Valuation must be an object');
+
+  const entries = input.items ?? [];
+  if (!Array.isArray(entries)) throw new Error('Items must be a list');
+  const items = analysis.billOfQuantities;
+  const seen = new Set<number>();
+  const progress: ValuationProgress[] = entries.map((entry: any, index: number) => {
+    const itemIndex = Number(entry?.itemIndex);
+    if (!Number.isInteger(itemIndex) || itemIndex < 0 || itemIndex >= items.length) throw new Error(`Entry ${index + 1} must name a BQ item by its index`);
+    if (seen.has(itemIndex)) throw new Error(`Item ${items[itemIndex].itemNumber} is entered more than once`);
+    seen.add(itemIndex);
+
+    const label = `Item ${items[itemIndex].itemNumber}`;
+    if ((entry.percentComplete === undefined) === (entry.quantityComplete === undefined)) {
+      throw new Error(`${label} needs either a percentage or a quantity complete`);
+    }
+    if (entry.percentComplete !== undefined) {
+      const percentComplete = Number(entry.percentComplete);
+      if (!Number.isFinite(percentComplete) || percentComplete < 0 || percentComplete > 100) throw new Error(`${label} percentage complete must be between 0 and 100`);
+      if (!(items[itemIndex].quantity > 0)) throw new Error(`${label} has no contract quantity; give the quantity complete`);
+      return { itemIndex, percentComplete };
+    }
+    const quantityComplete = Number(entry.quantityComplete);
+    if (!Number.isFinite(quantityComplete) || quantityComplete < 0) throw new Error(`${label} quantity complete must not be negative`);
+    return { itemIndex, quantityComplete };
+  });
+
+  const variationEntries = input.variations ?? [];
+  if (!Array.isArray(variationEntries)) throw new Error('Variations must be a list');
+  const seenVariations = new Set<string>();
+  const variationProgress = variationEntries.map((entry: any, index: number) => {
+    const variation = variations.find(candidate => candidate._id?.toString() === String(entry?.variationId));
+    if (!variation) throw new Error(`Variation entry ${index + 1} must name a variation order of this contract`);
+    const label = `Variation order No. ${variation.number}`;
+    if (!isInstructed(variation.status)) throw new Error(`${label} is only proposed; instruct it before valuing it`);
+    if (seenVariations.has(String(entry.variationId))) throw new Error(`${label} is entered more than once`);
+    seenVariations.add(String(entry.variationId));
+    const percentComplete = Number(entry.percentComplete);
+    if (!Number.isFinite(percentComplete) || percentComplete < 0 || percentComplete > 100) throw new Error(`${label} percentage complete must be between 0 and 100`);
+    return { variationId: String(entry.variationId), percentComplete };
+  });
+
+  const materials = input.materialsOnSite ?? [];
+  if (!Array.isArray(materials)) throw new Error('Materials on site must be a list');
+  if (materials.length > MAX_MATERIALS_ON_SITE) throw new Error(`At most ${MAX_MATERIALS_ON_SITE} materials on site are allowed`);
+  const materialsOnSite: MaterialOnSite[] = materials.map((material: any, index: number) => {
+    const description = typeof material?.description === 'string' ? material.description.trim() : '';
+    const amountKES = Number(material?.amountKES);
+    if (!description || !Number.isFinite(amountKES) || amountKES <= 0) throw new Error(`Material on site ${index + 1} needs a description and a positive amount`);
+    return { description, amountKES };
+  });
+
+  return { progress, variations: variationProgress, materialsOnSite, terms: parseValuationTerms(input.terms, fallbackTerms) };
+};
+
+/**
+ * Value a contract BQ to date
+ * Items and variations not entered keep the progress of the previous valuation; one entered at nil drops out.
+ * Variations are valued at their current net amount, so a variation re-priced on agreement is revalued
+ * @param previous The last certified valuation of the contract, if any
+ * @param variations The contract's variation orders
+ */
+export const buildValuation = (
+  analysis: AnalysisResult,
+  input: ValuationInput,
+  previous?: Pick<Valuation, 'items' | 'certificate'> & Partial<Pick<Valuation, 'variations'>>,
+  variations: Variation[] = []
+): { currency: CurrencyCode; items: ValuationItem[]; variations: ValuationVariation[]; materialsOnSite: MaterialOnSite[]; certificate: ValuationCertificate } => {
+  const currency = currencyOf(analysis);
+  const valued = new Map<number, ValuationItem>((previous?.items || []).map(item => [item.itemIndex, item]));
+
+  for (const entry of input.progress) {
+    const item = analysis.billOfQuantities[entry.itemIndex];
+    const contractAmountKES = roundMoney(item.totalCostKES, currency);
+    const quantityComplete = entry.quantityComplete ?? (item.quantity * entry.percentComplete!) / 100;
+    const percentComplete = entry.percentComplete ?? (item.quantity > 0 ? Math.round((quantityComplete / item.quantity) * 10000) / 100 : 0);
+    valued.set(entry.itemIndex, {
+      itemIndex: entry.itemIndex,
+      itemNumber: item.itemNumber,
+      description: item.description,
+      unit: item.unit,
+      contractQuantity: item.quantity,
+      unitRateKES: item.unitRateKES,
+      contractAmountKES,
+      quantityComplete: Math.round(quantityComplete * 1000) / 1000,
+      percentComplete,
+      valueKES: entry.percentComplete !== undefined
+        ? roundMoney((contractAmountKES * entry.percentComplete) / 100, currency)
+        : roundMoney(quantityComplete * contractRate(item), currency),
+    });
+  }
+
+  const items = Array.from(valued.values())
+    .filter(item => item.quantityComplete > 0 || item.valueKES > 0)
+    .sort((a, b) => a.itemIndex - b.itemIndex);
+  const variationPercents = new Map<string, number>((previous?.variations || []).map(valued => [valued.variationId, valued.percentComplete]));
+  input.variations.forEach(entry => variationPercents.set(entry.variationId, entry.percentComplete));
+  const valuedVariations: ValuationVariation[] = variations
+    .filter(variation => (variationPercents.get(variation._id!.toString()) || 0) > 0)
+    .sort((a, b) => a.number - b.number)
+    .map(variation => {
+      const percentComplete = variationPercents.get(variation._id!.toString())!;
+      return {
+        variationId: variation._id!.toString(),
+        number: variation.number,
+        title: variation.title,
+        netKES: variation.netKES,
+        percentComplete,
+        valueKES: roundMoney((variation.netKES * percentComplete) / 100, currency),
+      };
+    });
+
+  const materialsOnSite = input.materialsOnSite.map(material => ({ ...material, amountKES: roundMoney(material.amountKES, currency) }));
+
+  const { terms } = input;
+  const contractSumKES = roundMoney(analysis.billOfQuantities.reduce((sum, item) => sum + item.totalCostKES, 0), currency);
+  const workDoneKES = roundMoney(items.reduce((sum, item) => sum + item.valueKES, 0), currency);
+  const variationsKES = roundMoney(valuedVariations.reduce((sum, valued) => sum + valued.valueKES, 0), currency);
+  const materialsOnSiteKES = roundMoney(materialsOnSite.reduce((sum, material) => sum + material.amountKES, 0), currency);
+  const grossValuationKES = roundMoney(workDoneKES + variationsKES + materialsOnSiteKES, currency);
+  const retentionKES = Math.max(0, Math.min(roundMoney(grossValuationKES * terms.retentionRate, currency), roundMoney(contractSumKES * terms.retentionLimit, currency)));
+  const advanceRecoveredKES = Math.max(0, Math.min(roundMoney((workDoneKES + variationsKES) * terms.advanceRecoveryRate, currency), roundMoney(terms.advancePaymentKES, currency)));
+  const netValuationKES = roundMoney(grossValuationKES - retentionKES - advanceRecoveredKES, currency);
+  const previousCertificatesKES = previous?.certificate.netValuationKES || 0;
+
+  return {
+    currency,
+    items,
+    variations: valuedVariations,
+    materialsOnSite,
+    certificate: {
+      contractSumKES,
+      workDoneKES,
+      variationsKES,
+      materialsOnSiteKES,
+      grossValuationKES,
+      retentionKES,
+      advanceRecoveredKES,
+      netValuationKES,
+      previousCertificatesKES,
+      amountDueKES: roundMoney(netValuationKES - previousCertificatesKES, currency),
+    },
+  };
+};
+
+const escapeCell = (text: string): string => (text || '').replace(/\|/g, '/').replace(/\s+/g, ' ').trim();
+
+const formatPercent = (rate: number): string => `${Math.round(rate * 10000) / 100}%`;
+
+/**
+ * Format a valuation as a markdown payment certificate
+ */
+export const formatPaymentCertificate = (
+  valuation: Pick<Valuation, 'number' | 'valuationDate' | 'currency' | 'terms' | 'items' | 'variations' | 'materialsOnSite' | 'certificate'>,
+  names: { projectName: string; contractName: string }
+): string => {
+  const { currency, terms, certificate } = valuation;
+  const formatAmount = (amount: number): string => formatMoney(amount, currency, false);
+  const valuationDate = new Date(valuation.valuationDate).toISOString().slice(0, 10);
+
+  const sections: string[] = [
+    `# Interim Payment Certificate No. ${valuation.number}`,
+    '',
+    `**Project:** ${names.projectName}`,
+    `**Contract BQ:** ${names.contractName}`,
+    `**Valuation No. ${valuation.number} dated:** ${valuationDate}`,
+    `**Contract sum (measured works):** ${currency} ${formatAmount(certificate.contractSumKES)}`,
+    '',
+    `| | Amount (${currency}) |`,
+    '|---|---|',
+    `| Work done to date | ${formatAmount(certificate.workDoneKES)} |`,
+    ...(valuation.variations.length > 0 ? [`| Variations to date | ${formatAmount(certificate.variationsKES)} |`] : []),
+    `| Materials on site | ${formatAmount(certificate.materialsOnSiteKES)} |`,
+    `| **Gross valuation** | **${formatAmount(certificate.grossValuationKES)}** |`,
+    `| Less retention (${formatPercent(terms.retentionRate)}, limited to ${formatPercent(terms.retentionLimit)} of the contract sum) | -${formatAmount(certificate.retentionKES)} |`,
+  ];
+  if (terms.advancePaymentKES > 0) {
+    sections.push(`| Less advance payment recovered (${formatPercent(terms.advanceRecoveryRate)} of work done, up to ${formatAmount(terms.advancePaymentKES)}) | -${formatAmount(certificate.advanceRecoveredKES)} |`);
+  }
+  sections.push(
+    `| **Net valuation** | **${formatAmount(certificate.netValuationKES)}** |`,
+    `| Less previous certificates | -${formatAmount(certificate.previousCertificatesKES)} |`,
+    `| **Amount due** | **${formatAmount(certificate.amountDueKES)}** |`,
+    '',
+    `We certify that ${currency} ${formatAmount(certificate.amountDueKES)} is due to the contractor under this certificate, excluding VAT.`,
+  );
+
+  if (valuation.items.length > 0) {
+    sections.push('', '## Work Done', '', `| Item | Description | Unit | Contract qty | Qty to date | % | Value (${currency}) |`, '|---|---|---|---|---|---|---|');
+    valuation.items.forEach(item => sections.push(
+      `| ${escapeCell(item.itemNumber)} | ${escapeCell(item.description)} | ${escapeCell(item.unit)} | ${item.contractQuantity.toLocaleString('en-US', { maximumFractionDigits: 3 })} | ${item.quantityComplete.toLocaleString('en-US', { maximumFractionDigits: 3 })} | ${item.percentComplete} | ${formatAmount(item.valueKES)} |`
+    ));
+  }
+
+  if (valuation.variations.length > 0) {
+    sections.push('', '## Variations', '', `| VO | Title | Net amount (${currency}) | % | Value (${currency}) |`, '|---|---|---|---|---|');
+    valuation.variations.forEach(valued => sections.push(
+      `| ${valued.number} | ${escapeCell(valued.title)} | ${formatAmount(valued.netKES)} | ${valued.percentComplete} | ${formatAmount(valued.valueKES)} |`
+    ));
+  }
+
+  if (valuation.materialsOnSite.length > 0) {
+    sections.push('', '## Materials on Site', '', `| Material | Amount (${currency}) |`, '|---|---|');
+    valuation.materialsOnSite.forEach(material => sections.push(`| ${escapeCell(material.description)} | ${formatAmount(material.amountKES)} |`));
+  }
+
+  return sections.join('\n');
+};
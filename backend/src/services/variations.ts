@@ -0,0 +1,205 @@
+import {
+  AnalysisResult,
+  BQItem,
+  ContractBaseline,
+  CurrencyCode,
+  FinalAccount,
+  Valuation,
+  Variation,
+  VariationItem,
+  VariationRegister,
+  VariationStatus
+} from '../types';
+import { currencyOf, roundMoney } from './currency';
+
+/**
+ * Contract baseline and variation orders
+ * Locks a BQ as the contract sum and prices additions and omissions against it,
+ * at the contract BQ's rates or new star rates. Variations move from proposed to
+ * instructed to agreed; the register keeps a running adjusted contract sum and
+ * the final account settles once every variation is agreed
+ */
+
+export const VARIATION_STATUSES: VariationStatus[] = ['proposed', 'instructed', 'agreed'];
+
+export const MAX_VARIATION_ITEMS = 200;
+
+// Instructed work is carried out, so it is valued and counts in the adjusted contract sum
+export const isInstructed = (status: VariationStatus): boolean => status === 'instructed' || status === 'agreed';
+
+// Contract amount per unit of a BQ item, wastage included
+export const contractRate = (item: BQItem): number =>
+  item.quantity > 0 ? item.totalCostKES / item.quantity : item.unitRateKES * (1 + (item.wastageFactor || 0));
+
+/**
+ * Whether a variation may move from one status to another; a status only moves forward
+ */
+export const canMoveTo = (from: VariationStatus, to: VariationStatus): boolean =>
+  VARIATION_STATUSES.indexOf(to) > VARIATION_STATUSES.indexOf(from);
+
+/**
+ * Lock a BQ as the contract baseline
+ */
+export const buildContractBaseline = (
+  analysis: AnalysisResult,
+  lockedBy: string,
+  revisionNumber?: number,
+  lockedAt: Date = new Date()
+): ContractBaseline => {
+  const currency = currencyOf(analysis);
+  return {
+    lockedAt,
+    lockedBy,
+    ...(revisionNumber !== undefined && { revisionNumber }),
+    contractSumKES: roundMoney(analysis.billOfQuantities.reduce((sum, item) => sum + item.totalCostKES, 0), currency),
+    currency,
+    itemCount: analysis.billOfQuantities.length,
+  };
+};
+
+/**
+ * Check and price the items of a variation sent by a client
+ * An item naming a contract BQ item by its index takes that item's rate (with wastage), unit and description;
+ * any other item is a star rate and needs its own description, unit and rate
+ * @throws Error describing the first problem found
+ */
+export const parseVariationItems = (input: any, analysis: AnalysisResult): VariationItem[] => {
+  if (!Array.isArray(input) || input.length === 0) throw new Error('A variation needs at least one item');
+  if (input.length > MAX_VARIATION_ITEMS) throw new Error(`A variation has at most ${MAX_VARIATION_ITEMS} items`);
+
+  const currency = currencyOf(analysis);
+  const bq = analysis.billOfQuantities;
+  return input.map((entry: any, index: number) => {
+    const label = `Item ${index + 1}`;
+    if (entry?.kind !== 'addition' && entry?.kind !== 'omission') throw new Error(`${label} must be an addition or an omission`);
+    const quantity = Number(entry.quantity);
+    if (!Number.isFinite(quantity) || quantity <= 0) throw new Error(`${label} needs a positive quantity`);
+    const sign = entry.kind === 'omission' ? -1 : 1;
+
+    if (entry.itemIndex !== undefined) {
+      const itemIndex = Number(entry.itemIndex);
+      if (!Number.isInteger(itemIndex) || itemIndex < 0 || itemIndex >= bq.length) throw new Error(`${label} must name a contract BQ item by its index`);
+      const item = bq[itemIndex];
+      if (entry.kind === 'omission' && quantity > item.quantity) {
+        throw new Error(`${label} omits more than the ${item.quantity} ${item.unit} of contract item ${item.itemNumber}`);
+      }
+      const rate = contractRate(item);
+      return {
+        kind: entry.kind,
+        itemIndex,
+        itemNumber: item.itemNumber,
+        description: typeof entry.description === 'string' && entry.description.trim() ? entry.description.trim() : item.description,
+        unit: item.unit,
+        quantity,
+        unitRateKES: roundMoney(rate, currency),
+        rateSource: 'bq',
+        amountKES: roundMoney(sign * quantity * rate, currency),
+      };
+    }
+
+    const description = typeof entry.description === 'string' ? entry.description.trim() : '';
+    const unit = typeof entry.unit === 'string' ? entry.unit.trim() : '';
+    const unitRateKES = Number(entry.unitRateKES);
+    if (!description || !unit) throw new Error(`${label} needs a description and unit, or a contract BQ item`);
+    if (!Number.isFinite(unitRateKES) || unitRateKES < 0) throw new Error(`${label} needs a star rate that is not negative`);
+    return {
+      kind: entry.kind,
+      description,
+      unit,
+      quantity,
+      unitRateKES: roundMoney(unitRateKES, currency),
+      rateSource: 'star',
+      amountKES: roundMoney(sign * quantity * unitRateKES, currency),
+    };
+  });
+};
+
+/**
+ * Total the additions and omissions of a variation
+ */
+export const totalVariation = (items: VariationItem[], currency: CurrencyCode): Pick<Variation, 'additionsKES' | 'omissionsKES' | 'netKES'> => {
+  const additionsKES = roundMoney(items.filter(item => item.amountKES > 0).reduce((sum, item) => sum + item.amountKES, 0), currency);
+  const omissionsKES = roundMoney(items.filter(item => item.amountKES < 0).reduce((sum, item) => sum + item.amountKES, 0), currency);
+  return { additionsKES, omissionsKES, netKES: roundMoney(additionsKES + omissionsKES, currency) };
+};
+
+/**
+ * Build the variation register of a contract, in variation order number order
+ */
+export const buildVariationRegister = (analysisId: string, contract: ContractBaseline, variations: Variation[]): VariationRegister => {
+  const { currency, contractSumKES } = contract;
+  const byStatus: Record<VariationStatus, number> = { proposed: 0, instructed: 0, agreed: 0 };
+  let adjustedContractSumKES = contractSumKES;
+
+  const lines = [...variations].sort((a, b) => a.number - b.number).map(variation => {
+    byStatus[variation.status] = roundMoney(byStatus[variation.status] + variation.netKES, currency);
+    if (isInstructed(variation.status)) adjustedContractSumKES = roundMoney(adjustedContractSumKES + variation.netKES, currency);
+    return {
+      variationId: variation._id!.toString(),
+      number: variation.number,
+      title: variation.title,
+      status: variation.status,
+      additionsKES: variation.additionsKES,
+      omissionsKES: variation.omissionsKES,
+      netKES: variation.netKES,
+      adjustedContractSumKES,
+    };
+  });
+
+  return {
+    analysisId,
+    currency,
+    contractSumKES,
+    lines,
+    totals: { proposedKES: byStatus.proposed, instructedKES: byStatus.instructed, agreedKES: byStatus.agreed },
+    adjustedContractSumKES,
+    anticipatedContractSumKES: roundMoney(adjustedContractSumKES + byStatus.proposed, currency),
+  };
+};
+
+/**
+ * Build the final account of a contract: the contract sum adjusted for instructed and agreed variations,
+ * against the total certified by the last payment certificate
+ * Proposed variations were never instructed, so they are left out
+ */
+export const buildFinalAccount = (
+  analysisId: string,
+  contract: ContractBaseline,
+  variations: Variation[],
+  lastCertificate?: Pick<Valuation, 'number' | 'valuationDate' | 'certificate'>,
+  builtAt: Date = new Date()
+): FinalAccount => {
+  const { currency, contractSumKES } = contract;
+  const instructed = variations.filter(variation => isInstructed(variation.status));
+  const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + value, 0), currency);
+
+  const agreedVariationsKES = sum(instructed.filter(variation => variation.status === 'agreed').map(variation => variation.netKES));
+  const unagreedVariationsKES = sum(instructed.filter(variation => variation.status !== 'agreed').map(variation => variation.netKES));
+  const finalAccountKES = roundMoney(contractSumKES + agreedVariationsKES + unagreedVariationsKES, currency);
+  // The advance was paid up front, so what it recovered counts as paid; retention still held does not
+  const certifiedKES = lastCertificate ? lastCertificate.certificate.netValuationKES + lastCertificate.certificate.advanceRecoveredKES : 0;
+
+  return {
+    analysisId,
+    currency,
+    contractSumKES,
+    additionsKES: sum(instructed.map(variation => variation.additionsKES)),
+    omissionsKES: sum(instructed.map(variation => variation.omissionsKES)),
+    agreedVariationsKES,
+    unagreedVariationsKES,
+    finalAccountKES,
+    isSettled: variations.every(variation => variation.status === 'agreed'),
+    ...(lastCertificate && {
+      lastCertificate: {
+        number: lastCertificate.number,
+        valuationDate: lastCertificate.valuationDate,
+        grossValuationKES: lastCertificate.certificate.grossValuationKES,
+        retentionKES: lastCertificate.certificate.retentionKES,
+        advanceRecoveredKES: lastCertificate.certificate.advanceRecoveredKES,
+        netValuationKES: lastCertificate.certificate.netValuationKES,
+      },
+    }),
+    balanceKES: roundMoney(finalAccountKES - certifiedKES, currency),
+    builtAt,
+  };
+};
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { aiMode, buildFixture, fixtureKey, withFixtures } from '../services/aiFixtures';
+import { convertAIResponseToAnalysisResult } from '../services/bqSchema';
+import { analyzeFloorPlanValidated, generateDocumentContent, generateProjectChatResponse } from '../services/geminiService';
+import { LLMGenerateRequest, LLMProvider } from '../services/llmProviders';
+
+const request: LLMGenerateRequest = {
+  model: 'gemini-1.5-flash',
+  messages: [{ role: 'user', parts: [{ inlineData: { data: 'aGVsbG8=', mimeType: 'image/png' } }, { text: 'Measure this plan' }] }],
+  json: true
+};
+
+const stubProvider = (answer: string): LLMProvider & { calls: number } => {
+  const provider = {
+    name: 'gemini' as const,
+    calls: 0,
+    configured: () => false,
+    generate: async () => {
+      provider.calls++;
+      return answer;
+    },
+    embed: async () => [[0.6, 0.8]]
+  };
+  return provider;
+};
+
+// A 1x1 PNG, as recorded in the floor plan fixture
+const testImage = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+describe('AI Fixtures', () => {
+  it('should key requests by content only', () => {
+    const key = fixtureKey('generate', 'gemini', request);
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(fixtureKey('generate', 'gemini', { timeoutMs: 5000, json: true, messages: request.messages, model: request.model })).toBe(key);
+    expect(fixtureKey('generate', 'openai', request)).not.toBe(key);
+    expect(fixtureKey('generate', 'gemini', { ...request, model: 'gemini-2.5-flash' })).not.toBe(key);
+  });
+
+  it('should keep images out of fixture files', () => {
+    const fixture = buildFixture('generate', 'gemini', request, '{}', new Date('2026-03-02T08:00:00Z'));
+
+    expect(fixture).toMatchObject({ kind: 'generate', provider: 'gemini', model: 'gemini-1.5-flash', prompt: 'Measure this plan', response: '{}' });
+    expect(fixture.images).toEqual([{ mimeType: 'image/png', sha256: '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824' }]);
+    expect(JSON.stringify(fixture)).not.toContain('aGVsbG8=');
+  });
+
+  it('should record responses and replay them without calling the provider', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metrrik-fixtures-'));
+    try {
+      const live = stubProvider('{"pageType": "plan"}');
+      await expect(withFixtures(live, 'record', dir).generate(request)).resolves.toBe('{"pageType": "plan"}');
+      await withFixtures(live, 'record', dir).embed({ model: 'text-embedding-004', texts: ['stone walling'] });
+      expect(fs.readdirSync(dir)).toHaveLength(2);
+
+      const offline = stubProvider('not called');
+      const replay = withFixtures(offline, 'replay', dir);
+      await expect(replay.generate({ ...request, timeoutMs: 1000 })).resolves.toBe('{"pageType": "plan"}');
+      await expect(replay.embed({ model: 'text-embedding-004', texts: ['stone walling'] })).resolves.toEqual([[0.6, 0.8]]);
+      expect(offline.calls).toBe(0);
+      expect(replay.configured()).toBe(true);
+
+      await expect(replay.generate({ ...request, json: false })).rejects.toThrow('Record it with AI_MODE=record');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should call providers live unless a mode is set', () => {
+    const live = stubProvider('{}');
+
+    expect(aiMode({})).toBe('live');
+    expect(aiMode({ AI_MODE: 'replay' })).toBe('replay');
+    expect(aiMode({ AI_MODE: 'offline' })).toBe('live');
+    expect(withFixtures(live, 'live', '/nowhere')).toBe(live);
+  });
+
+  describe('recorded responses', () => {
+    const originalEnv = { ...process.env };
+
+    beforeAll(() => {
+      // AI_MODE=record re-records these fixtures from the live provider
+      process.env.AI_MODE = originalEnv.AI_MODE === 'record' ? 'record' : 'replay';
+      process.env.AI_FIXTURES_DIR = path.join(__dirname, 'fixtures', 'ai');
+      Object.keys(process.env).filter(key => key.startsWith('LLM_')).forEach(key => delete process.env[key]);
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should repair and convert a recorded floor plan analysis', async () => {
+      const { value, attempts } = await analyzeFloorPlanValidated(testImage, 'image/png', 'Kitengela Bungalow', 'residential');
+      const result = convertAIResponseToAnalysisResult(value, 'Kitengela Bungalow', { mimetype: 'image/png', originalname: 'ground-floor.png' });
+
+      expect(attempts).toBe(2);
+      expect(result.summary).toEqual({ totalEstimatedCostKES: 506885, totalWastageCostKES: 33960, confidenceScore: 0.78, totalArea: 110 });
+      expect(result.billOfQuantities.map(item => [item.itemNumber, item.unit, item.quantity, item.unitRateKES, item.totalCostKES])).toEqual([
+        ['1', 'm3', 18.5, 850, 15725],
+        ['2', 'm2', 96, 2450, 246960],
+        ['3', 'm2', 120, 1850, 244200]
+      ]);
+      // A zero wastage factor falls back to the 5% default
+      expect(result.billOfQuantities[0].wastageFactor).toBe(0.05);
+      expect(result.intelligentSuggestions).toHaveLength(1);
+      expect(result.metadata).toMatchObject({ source: 'ai', confidence: 0.78, fileName: 'ground-floor.png' });
+    });
+
+    it('should answer a recorded project chat', async () => {
+      const response = await generateProjectChatResponse('What should I budget for this bungalow?', {
+        project: { name: 'Kitengela Bungalow', type: 'residential', status: 'active', description: 'Three-bedroom bungalow on a 50x100 plot' },
+        documents: [{ title: 'Client Brief', type: 'report', content: 'Three bedrooms, one en-suite, open-plan kitchen and a covered verandah.' }],
+        files: [{ name: 'ground-floor-plan.pdf', type: 'application/pdf' }]
+      });
+
+      expect(response.model).toBe('gemini-1.5-flash');
+      expect(response.text).toContain('KES 45,000-55,000 per m²');
+      expect(response.tokens).toBe(response.text.length);
+    });
+
+    it('should generate a recorded document', async () => {
+      const content = await generateDocumentContent('Preliminary cost estimate for a three-bedroom bungalow in Kitengela', 'Cost Estimate');
+
+      expect(content).toMatch(/^# Preliminary Cost Estimate/);
+      expect(content).toContain('| **Total** | **4,660,000** |');
+    });
+  });
+});
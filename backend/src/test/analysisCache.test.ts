@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  analysisCacheKey,
+  buildCacheStats,
+  cacheInfo,
+  CURRENT_ANALYSIS_VERSION,
+  hashFile,
+  reuseCachedAnalysis
+} from '../services/analysisCache';
+import { AnalysisCacheEntry, AnalysisResult } from '../types';
+
+const analysis = {
+  summary: { totalEstimatedCostKES: 84000, totalWastageCostKES: 0, confidenceScore: 0.9 },
+  billOfQuantities: [
+    { itemNumber: '1', description: 'Stone walling', unit: 'm2', quantity: 35, unitRateKES: 2400, wastageFactor: 0, totalCostKES: 84000 }
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Kilimani Villa',
+  metadata: { analysisDate: new Date('2026-01-10'), fileType: 'application/pdf', fileName: 'plan.pdf', confidence: 0.9, pages: [] }
+} as AnalysisResult;
+
+const entry: AnalysisCacheEntry = {
+  ...analysisCacheKey('ab12', 'residential'),
+  analysisResult: analysis,
+  hits: 3,
+  createdAt: new Date('2026-01-10T08:00:00Z')
+};
+
+describe('Analysis Cache', () => {
+  it('should hash the file contents', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metrrik-hash-'));
+    const filePath = path.join(dir, 'plan.pdf');
+    fs.writeFileSync(filePath, 'abc');
+    try {
+      await expect(hashFile(filePath)).resolves.toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should key the cache by file, project type and analysis version', () => {
+    expect(analysisCacheKey('ab12', ' Commercial ')).toEqual({
+      fileHash: 'ab12',
+      projectType: 'commercial',
+      analysisVersion: CURRENT_ANALYSIS_VERSION
+    });
+    expect(analysisCacheKey('ab12', '').projectType).toBe('residential');
+    expect(CURRENT_ANALYSIS_VERSION).toMatch(/\/prompt-\d+\/pipeline-\d+$/);
+  });
+
+  it('should reuse a cached result under the new project and file name', () => {
+    const reused = reuseCachedAnalysis(entry, { projectName: 'Runda Villa', fileName: 'copy of plan.pdf', fileType: 'application/pdf' });
+
+    expect(reused.projectName).toBe('Runda Villa');
+    expect(reused.metadata).toMatchObject({ fileName: 'copy of plan.pdf', pages: [] });
+    expect(reused.metadata.analysisDate.getTime()).toBeGreaterThan(analysis.metadata.analysisDate.getTime());
+    expect(reused.billOfQuantities).toEqual(analysis.billOfQuantities);
+
+    // Edits to the copy must not reach the cache
+    reused.billOfQuantities[0].quantity = 50;
+    expect(entry.analysisResult.billOfQuantities[0].quantity).toBe(35);
+  });
+
+  it('should record whether the cache was used', () => {
+    const key = analysisCacheKey('ab12', 'residential');
+
+    expect(cacheInfo(key, entry)).toEqual({ ...key, hit: true, cachedAt: entry.createdAt });
+    expect(cacheInfo(key, null)).toEqual({ ...key, hit: false });
+    expect(cacheInfo(key, null, true)).toEqual({ ...key, hit: false, reanalyzed: true });
+  });
+
+  it('should summarise hits and stale entries', () => {
+    const stats = buildCacheStats({ total: 12, current: 9 }, { lookups: 40, hits: 30, reanalyzed: 2 }, 'v2');
+
+    expect(stats).toEqual({
+      analysisVersion: 'v2',
+      entries: 12,
+      staleEntries: 3,
+      lookups: 40,
+      hits: 30,
+      misses: 10,
+      reanalyzed: 2,
+      hitRate: 0.75
+    });
+    expect(buildCacheStats({ total: 0, current: 0 }, { lookups: 0, hits: 0, reanalyzed: 0 }).hitRate).toBe(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { buildAnalysisJob, buildProgress, createJobQueue, publicJob, stagePercent } from '../services/analysisJobs';
+
+const input = {
+  filePath: '/srv/uploads/analysis/analysis-1.pdf',
+  fileName: 'Kilimani Villa.pdf',
+  fileType: 'application/pdf',
+  fileSize: 2048576,
+  projectName: 'Kilimani Villa',
+  projectType: 'residential',
+  region: 'Nairobi',
+  rateMode: 'override' as const
+};
+
+// A task that runs until it is released or its signal is aborted
+const deferredTask = () => {
+  let release!: () => void;
+  let aborted = false;
+  const task = (signal: AbortSignal) => new Promise<void>(resolve => {
+    release = resolve;
+    signal.addEventListener('abort', () => {
+      aborted = true;
+      resolve();
+    });
+  });
+  return { task, release: () => release(), wasAborted: () => aborted };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Analysis Jobs', () => {
+  it('should start a job queued at the uploaded stage', () => {
+    const now = new Date('2026-03-02T08:00:00Z');
+    const job = buildAnalysisJob('u1', input, now);
+
+    expect(job.jobId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(job).toMatchObject({
+      userId: 'u1',
+      status: 'queued',
+      stage: 'uploaded',
+      percent: 5,
+      message: 'Kilimani Villa.pdf uploaded',
+      attempts: 1,
+      createdAt: now
+    });
+    expect(job.progress).toEqual([{ stage: 'uploaded', message: 'Kilimani Villa.pdf uploaded', percent: 5, at: now }]);
+    expect(buildAnalysisJob('u1', input).jobId).not.toBe(job.jobId);
+  });
+
+  it('should spread the AI calls of a drawing set across their share of the progress', () => {
+    expect(stagePercent({ stage: 'pages_split', pageCount: 4 })).toBe(15);
+    expect(stagePercent({ stage: 'ai_called' })).toBe(25);
+    expect(stagePercent({ stage: 'ai_called', pageNumber: 1, pageCount: 4 })).toBe(25);
+    expect(stagePercent({ stage: 'ai_called', pageNumber: 3, pageCount: 4 })).toBe(48);
+    expect(stagePercent({ stage: 'saved' })).toBe(100);
+    expect(buildProgress({ stage: 'reconciled' }).message).toBe('Rates and arithmetic checked');
+  });
+
+  it('should not expose where the drawing is stored', () => {
+    const job = publicJob(buildAnalysisJob('u1', input));
+
+    expect(job.input).not.toHaveProperty('filePath');
+    expect(job.input).toMatchObject({ fileName: 'Kilimani Villa.pdf', region: 'Nairobi' });
+  });
+
+  it('should run tasks in order up to the concurrency limit', async () => {
+    const queue = createJobQueue(2);
+    const tasks = [deferredTask(), deferredTask(), deferredTask()];
+    tasks.forEach((entry, index) => queue.add(`job-${index}`, entry.task));
+
+    expect(queue.running).toBe(2);
+    expect(queue.waiting).toBe(1);
+
+    tasks[0].release();
+    await flush();
+    expect(queue.running).toBe(2);
+    expect(queue.waiting).toBe(0);
+
+    tasks[1].release();
+    tasks[2].release();
+    await flush();
+    expect(queue.running).toBe(0);
+  });
+
+  it('should drop cancelled waiting tasks and abort running ones', async () => {
+    const queue = createJobQueue(1);
+    const first = deferredTask();
+    const second = deferredTask();
+    queue.add('first', first.task);
+    queue.add('second', second.task);
+
+    expect(queue.cancel('second')).toBe(true);
+    expect(queue.waiting).toBe(0);
+
+    expect(queue.cancel('first')).toBe(true);
+    await flush();
+    expect(first.wasAborted()).toBe(true);
+    expect(queue.running).toBe(0);
+    expect(queue.cancel('unknown')).toBe(false);
+  });
+
+  it('should keep a cancelled task apart from its retry', async () => {
+    const queue = createJobQueue(2);
+    // The first run is cancelled but only returns later, when it is released
+    let releaseStale!: () => void;
+    const stale = (_signal: AbortSignal) => new Promise<void>(resolve => { releaseStale = resolve; });
+    const retry = deferredTask();
+    const other = deferredTask();
+
+    queue.add('job', stale);
+    queue.cancel('job');
+    queue.add('job', retry.task);
+    expect(queue.running).toBe(2);
+
+    queue.add('other', other.task);
+    expect(queue.waiting).toBe(1);
+
+    releaseStale();
+    await flush();
+    expect(queue.running).toBe(2);
+    expect(queue.waiting).toBe(0);
+
+    expect(queue.cancel('job')).toBe(true);
+    await flush();
+    expect(retry.wasAborted()).toBe(true);
+    expect(queue.running).toBe(1);
+    other.release();
+  });
+});
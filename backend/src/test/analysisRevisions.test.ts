@@ -0,0 +1,46 @@
+import { ObjectId } from 'mongodb';
+import { buildRevision, revisionAuthor, summarizeRevision } from '../services/analysisRevisions';
+import { AnalysisResult } from '../types';
+
+const analysis = {
+  summary: { totalEstimatedCostKES: 210000, totalWastageCostKES: 10000, confidenceScore: 0.9 },
+  billOfQuantities: [
+    { itemNumber: '1', description: 'Concrete in foundations', unit: 'm3', quantity: 10, unitRateKES: 12000, wastageFactor: 0.05, totalCostKES: 126000 },
+    { itemNumber: '2', description: 'Stone walling', unit: 'm2', quantity: 35, unitRateKES: 2400, wastageFactor: 0, totalCostKES: 84000 }
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Kilimani Villa',
+  metadata: { analysisDate: new Date('2026-01-10'), fileType: 'application/pdf', fileName: 'plan.pdf', confidence: 0.9 }
+} as AnalysisResult;
+
+describe('Analysis Revisions', () => {
+  it('should record the author by name when one is known', () => {
+    expect(revisionAuthor({ _id: 'u1', email: 'qs@example.com', firstName: 'Achieng', lastName: 'Otieno' }))
+      .toEqual({ userId: 'u1', email: 'qs@example.com', name: 'Achieng Otieno' });
+    expect(revisionAuthor({ _id: 'u2', email: 'qs@example.com' })).toEqual({ userId: 'u2', email: 'qs@example.com' });
+  });
+
+  it('should build a revision with a trimmed note and restore source', () => {
+    const analysisId = new ObjectId();
+    const revision = buildRevision(analysisId, 3, analysis, { userId: 'u1' }, { note: '  Issued to client ', restoredFrom: 1 });
+
+    expect(revision).toMatchObject({ analysisId, revisionNumber: 3, note: 'Issued to client', restoredFrom: 1 });
+    expect(revision.createdAt).toBeInstanceOf(Date);
+    expect(buildRevision(analysisId, 4, analysis, { userId: 'u1' }, { note: '  ' })).not.toHaveProperty('note');
+  });
+
+  it('should summarise a revision without its BQ', () => {
+    const createdAt = new Date('2026-01-12T09:30:00Z');
+    const summary = summarizeRevision(buildRevision(new ObjectId(), 2, analysis, { userId: 'u1' }, { createdAt }));
+
+    expect(summary).toEqual({
+      revisionNumber: 2,
+      note: undefined,
+      createdBy: { userId: 'u1' },
+      createdAt,
+      restoredFrom: undefined,
+      itemCount: 2,
+      totalEstimatedCostKES: 210000
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { classifyBillOfQuantities, classifyItemByRules, groupBillOfQuantities, buildClassification } from '../services/bqClassification';
+import { BQItem } from '../types';
+
+const item = (description: string, overrides: Partial<BQItem> = {}): BQItem => ({
+  itemNumber: '1',
+  description,
+  unit: 'm2',
+  quantity: 1,
+  unitRateKES: 1000,
+  wastageFactor: 0,
+  totalCostKES: 1000,
+  ...overrides,
+});
+
+describe('BQ Classification', () => {
+  const originalKey = process.env.GEMINI_API_KEY;
+
+  beforeAll(() => {
+    delete process.env.GEMINI_API_KEY;
+  });
+
+  afterAll(() => {
+    if (originalKey !== undefined) process.env.GEMINI_API_KEY = originalKey;
+  });
+
+  it.each([
+    ['Concrete (1:2:4) in foundations', 'E10', '1.1'],
+    ['Excavate oversite average 150mm deep', 'D20', '1.1'],
+    ['200mm machine cut stone walling', 'F10', '2.5'],
+    ['Supply and fix roof trusses', 'G20', '2.3'],
+    ['Two coats plaster to concrete ceilings', 'M20', '3.3'],
+    ['Ceramic tiles to bathroom walls', 'M40', '3.1'],
+    ['Ceramic floor tiles', 'M40', '3.2'],
+    ['Y12 high yield bars in suspended slab', 'E30', '2.2'],
+    ['Flush door complete with frame', 'L20', '2.8'],
+    ['Wash hand basin', 'N13', '5.1'],
+    ['Precast concrete kerbs', 'Q25', '8.2'],
+  ])('should classify "%s" as %s / %s', (description, workSection, element) => {
+    expect(classifyItemByRules({ description })).toEqual({ workSection, element });
+  });
+
+  it('should fall back to the free-text category when the description is vague', () => {
+    expect(classifyItemByRules({ description: 'Generic implementation', category: 'Superstructure (Walls)' }))
+      .toEqual({ workSection: 'F10', element: '2.5' });
+  });
+
+  it('should mark codes outside the taxonomy as unclassified', () => {
+    expect(buildClassification('Z99', undefined, 'ai', 0.8)).toMatchObject({
+      workSectionCode: '99', elementCode: '99', source: 'unclassified', confidence: 0
+    });
+  });
+
+  it('should classify a BQ with rules, keeping manual classifications', async () => {
+    const manual = buildClassification('M60', '3.1', 'manual', 1);
+    const { items, summary } = await classifyBillOfQuantities([
+      item('Concrete (1:2:4) in foundations'),
+      item('Emulsion paint', { classification: manual }),
+      item('Sundry items'),
+    ]);
+
+    expect(items[0].classification).toMatchObject({ workSectionCode: 'E10', elementCode: '1.1', source: 'rule' });
+    expect(items[1].classification).toBe(manual);
+    expect(items[2].classification).toMatchObject({ source: 'unclassified' });
+    expect(summary).toMatchObject({ byRule: 1, byAI: 0, manual: 1, unclassified: 1 });
+  });
+
+  it('should group by trade in order of first appearance when items are unclassified', () => {
+    const groups = groupBillOfQuantities([
+      item('Foundation concrete', { category: 'Substructure' }),
+      item('Roof trusses', { category: 'Roofing' }),
+      item('Hardcore', { category: 'Substructure' }),
+    ]);
+
+    expect(Array.from(groups.keys())).toEqual(['Substructure', 'Roofing']);
+    expect(groups.get('Substructure')).toHaveLength(2);
+  });
+
+  it('should regroup classified items by work section or element in code order', async () => {
+    const { items } = await classifyBillOfQuantities([
+      item('Plaster to walls'),
+      item('Block walling'),
+      item('Concrete in foundations'),
+      item('Concrete lintels'),
+    ], { useAI: false });
+
+    expect(Array.from(groupBillOfQuantities(items, 'trade').keys())).toEqual([
+      'E In situ concrete/Large precast concrete', 'F Masonry', 'M Surface finishes'
+    ]);
+    expect(Array.from(groupBillOfQuantities(items, 'element').keys())).toEqual([
+      '1.1 Substructure', '2.1 Frame', '2.5 External walls', '3.1 Wall finishes'
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { compareBillOfQuantities, formatComparisonMarkdown, matchScore } from '../services/bqComparison';
+import { BQItem } from '../types';
+
+const item = (itemNumber: string, description: string, quantity: number, unitRateKES: number, category: string, unit = 'm3'): BQItem => ({
+  itemNumber,
+  description,
+  unit,
+  quantity,
+  unitRateKES,
+  wastageFactor: 0,
+  totalCostKES: quantity * unitRateKES,
+  category
+});
+
+const BASE: BQItem[] = [
+  item('1', 'Excavate foundation trench not exceeding 1.5m deep', 40, 650, 'Substructure'),
+  item('2', 'Concrete class 20 in strip foundations', 12, 14000, 'Substructure'),
+  item('3', '200mm machine cut stone walling', 120, 2400, 'Walling', 'm2'),
+  item('4', 'Timber casement window 1200 x 1200mm', 6, 18000, 'Windows', 'nr')
+];
+
+const REVISED: BQItem[] = [
+  item('1', 'Excavate foundation trench not exceeding 1.5m deep', 40, 650, 'Substructure'),
+  item('2', 'Concrete class 25 in strip foundations', 15, 14000, 'Substructure'),
+  item('3', '200mm machine cut stone walling', 120, 2600, 'Walling', 'm2'),
+  item('6', 'Steel roller shutter door 3000 x 2400mm', 6, 32000, 'Doors', 'nr'),
+  item('5', 'Ceramic floor tiles 300 x 300mm', 85, 2200, 'Finishes', 'm2')
+];
+
+describe('BQ Comparison', () => {
+  it('should match renumbered items by description and trade', () => {
+    const moved = item('7', 'Concrete class 20 in strip foundations', 12, 14000, 'Substructure');
+
+    expect(matchScore(BASE[1], moved)).toBeGreaterThan(1);
+    expect(matchScore(BASE[1], BASE[3])).toBe(0);
+  });
+
+  it('should report added, removed, changed and unchanged lines', () => {
+    const comparison = compareBillOfQuantities(BASE, REVISED);
+
+    expect(comparison.counts).toEqual({ added: 2, removed: 1, changed: 2, unchanged: 1 });
+    expect(comparison.lines.map(line => line.change)).toEqual(['unchanged', 'changed', 'changed', 'added', 'added', 'removed']);
+
+    const concrete = comparison.lines[1];
+    expect(concrete.changedFields).toEqual(['description', 'quantity']);
+    expect(concrete).toMatchObject({ quantityDelta: 3, rateDelta: 0, costDelta: 42000 });
+    expect(comparison.lines[2]).toMatchObject({ changedFields: ['unitRateKES'], rateDelta: 200, costDelta: 24000 });
+    expect(comparison.lines[5].base?.description).toBe('Timber casement window 1200 x 1200mm');
+  });
+
+  it('should report a line whose total changed on its own', () => {
+    const reconciled = { ...BASE[0], totalCostKES: 27000 };
+    const comparison = compareBillOfQuantities([BASE[0]], [reconciled]);
+
+    expect(comparison.lines[0]).toMatchObject({ change: 'changed', changedFields: ['totalCostKES'], costDelta: 1000 });
+    expect(comparison.counts).toEqual({ added: 0, removed: 0, changed: 1, unchanged: 0 });
+  });
+
+  it('should total the cost change per trade and overall', () => {
+    const comparison = compareBillOfQuantities(BASE, REVISED);
+
+    expect(comparison.categories).toEqual([
+      { category: 'Substructure', baseTotalKES: 194000, revisedTotalKES: 236000, deltaKES: 42000 },
+      { category: 'Walling', baseTotalKES: 288000, revisedTotalKES: 312000, deltaKES: 24000 },
+      { category: 'Doors', baseTotalKES: 0, revisedTotalKES: 192000, deltaKES: 192000 },
+      { category: 'Finishes', baseTotalKES: 0, revisedTotalKES: 187000, deltaKES: 187000 },
+      { category: 'Windows', baseTotalKES: 108000, revisedTotalKES: 0, deltaKES: -108000 }
+    ]);
+    expect(comparison.totals).toEqual({ baseTotalKES: 590000, revisedTotalKES: 927000, deltaKES: 337000, deltaPercent: 57.12 });
+  });
+
+  it('should format a markdown change report', () => {
+    const report = formatComparisonMarkdown(compareBillOfQuantities(BASE, REVISED), 'Kilimani Villa');
+
+    expect(report).toContain('# BQ Change Report — Kilimani Villa');
+    expect(report).toContain('| Windows | 108,000.00 | 0.00 | -108,000.00 |');
+    expect(report).toContain('## Omitted Items');
+    expect(report).toContain('| 2 | Concrete class 25 in strip foundations | 12 -> 15 | 14,000.00 -> 14,000.00 | description, quantity | +42,000.00 |');
+  });
+});
@@ -0,0 +1,114 @@
+import ExcelJS from 'exceljs';
+import { buildBqWorkbook } from '../services/bqExcelExport';
+import { AnalysisResult } from '../types';
+
+const analysis: AnalysisResult = {
+  summary: { totalEstimatedCostKES: 136500, totalWastageCostKES: 6500, confidenceScore: 0.9 },
+  billOfQuantities: [
+    { itemNumber: '1', description: 'Foundation concrete (1:2:4)', unit: 'm3', quantity: 10, unitRateKES: 12000, wastageFactor: 0.05, totalCostKES: 126000, category: 'Substructure' },
+    { itemNumber: '2', description: 'Roof trusses', unit: 'Item', quantity: 1, unitRateKES: 10000, wastageFactor: 0.05, totalCostKES: 10500, category: 'Roofing' },
+    { itemNumber: '3', description: 'Hardcore filling', unit: 'm3', quantity: 5, unitRateKES: 2000, wastageFactor: 0, totalCostKES: 10000, category: 'Substructure' },
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Test Bungalow',
+  metadata: { analysisDate: new Date(), fileType: 'application/pdf', fileName: 'plan.pdf', confidence: 0.9 },
+};
+
+describe('BQ Excel Export', () => {
+  it('should build a workbook with trade sheets, collection and grand summary', async () => {
+    const buffer = await buildBqWorkbook(analysis, { contingencyRate: 0.1 });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Grand Summary', 'Collection', 'Substructure', 'Roofing']);
+
+    const substructure = workbook.getWorksheet('Substructure')!;
+    expect(substructure.getCell('G5').value).toMatchObject({ formula: 'D5*E5*(1+F5)' });
+    expect(substructure.getCell('G9').value).toMatchObject({ formula: 'SUM(G5:G6)' });
+
+    const collection = workbook.getWorksheet('Collection')!;
+    expect(collection.getCell('D5').value).toMatchObject({ formula: "'Substructure'!G9" });
+
+    const summary = workbook.getWorksheet('Grand Summary')!;
+    const labels = summary.getColumn(1).values.filter(Boolean);
+    expect(labels).toEqual(expect.arrayContaining(['Contingency', 'VAT', 'GRAND TOTAL']));
+    expect(summary.getCell('B7').value).toBe(0.1);
+  });
+
+  it('should add an escalation allowance line to the grand summary', async () => {
+    const escalated: AnalysisResult = {
+      ...analysis,
+      summary: { ...analysis.summary, escalationAllowanceKES: 5460 },
+      metadata: {
+        ...analysis.metadata,
+        escalation: {
+          basis: 'tender',
+          baseDate: new Date('2026-10-01'),
+          targetDate: new Date('2027-04-15'),
+          tenderDate: new Date('2027-04-15'),
+          trades: [{ trade: 'All', series: 'All', baseIndex: 106, targetIndex: 110.24, projected: true, annualRate: 0.08, measuredCost: 136500, allowance: 5460 }],
+          measuredCost: 136500,
+          allowance: 5460,
+          percentage: 0.04,
+          projectedAt: new Date('2026-10-19'),
+        },
+      },
+    };
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await buildBqWorkbook(escalated) as any);
+
+    const summary = workbook.getWorksheet('Grand Summary')!;
+    expect(summary.getCell('A7').value).toBe('Escalation allowance to tender (2027-04)');
+    expect(summary.getCell('C7').value).toBe(5460);
+    expect(summary.getCell('C8').value).toMatchObject({ formula: 'C5*B8' });
+    expect(summary.getCell('C9').value).toMatchObject({ formula: '(C5+C7+C8)*B9' });
+    expect(summary.getCell('C10').value).toMatchObject({ formula: 'C5+C7+C8+C9' });
+  });
+
+  it('should lay the grand summary out from the BQ summary configuration', async () => {
+    const configured: AnalysisResult = {
+      ...analysis,
+      billOfQuantities: analysis.billOfQuantities.map(item => item.itemNumber === '3' ? { ...item, vatExempt: true } : item),
+      summaryConfig: {
+        lines: [
+          { key: 'provisional-sums', label: 'Provisional sums', kind: 'lumpSum', amount: 20000 },
+          { key: 'fees', label: 'Professional fees', kind: 'percentage', rate: 0.1, basis: 'running', vatExempt: true },
+        ],
+        vatRate: 0.16,
+      },
+    };
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await buildBqWorkbook(configured) as any);
+
+    const summary = workbook.getWorksheet('Grand Summary')!;
+    expect(summary.getCell('A7').value).toBe('Provisional sums');
+    expect(summary.getCell('C7').value).toBe(20000);
+    expect(summary.getCell('C8').value).toMatchObject({ formula: '(C5+C7)*B8' });
+    expect(summary.getCell('C9').value).toMatchObject({ formula: 'C5+C7+C8' });
+    // 10,000 of exempt hardcore plus 16,650 of fees
+    expect(summary.getCell('C10').value).toBe(26650);
+    expect(summary.getCell('C11').value).toMatchObject({ formula: '(C9-C10)*B11' });
+    expect(summary.getCell('A12').value).toBe('GRAND TOTAL');
+  });
+
+  it('should build element sheets when grouping by NRM1 element', async () => {
+    const classified: AnalysisResult = {
+      ...analysis,
+      billOfQuantities: analysis.billOfQuantities.map(item => ({
+        ...item,
+        classification: item.category === 'Roofing'
+          ? { workSectionCode: 'G20', workSectionName: 'Carpentry/Timber framing/First fixing', elementCode: '2.3', elementName: 'Roof', source: 'rule', confidence: 0.9 }
+          : { workSectionCode: 'E10', workSectionName: 'Mixing/Casting/Curing in situ concrete', elementCode: '1.1', elementName: 'Substructure', source: 'rule', confidence: 0.9 }
+      })),
+    };
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await buildBqWorkbook(classified, { groupBy: 'element' }) as any);
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Grand Summary', 'Collection', '1.1 Substructure', '2.3 Roof']);
+    expect(workbook.getWorksheet('Collection')!.getCell('B4').value).toBe('Element');
+  });
+});
@@ -0,0 +1,100 @@
+import ExcelJS from 'exceljs';
+import {
+  buildImportedAnalysis,
+  mapRowsToBQ,
+  parseCsv,
+  parseNumericCell,
+  parseSpreadsheet,
+  suggestColumnMapping,
+  validateColumnMapping
+} from '../services/bqImport';
+import { reconcileAnalysis } from '../services/bqReconciliation';
+
+const CSV = [
+  'PW Surveyors - Bill No. 2',
+  '',
+  'Item No.,Description,Unit,Qty,Rate (KES),Amount (KES)',
+  ',SUBSTRUCTURE,,,,',
+  'A,"Excavate oversite, average 150mm deep",m2,120,85,"10,200"',
+  'B,Concrete (1:2:4) in foundations,m3,14.5,"12,000","172,000"',
+  'C,Hardcore filling,m3,abc,2000,',
+  ',WALLING,,,,',
+  'D,200mm machine cut stone walling,m2,85,2400,',
+  'E,Provisional sum for damp proofing,,,,"50,000"',
+  ',Carried to collection,,,,"436,200"',
+].join('\n');
+
+describe('BQ Import', () => {
+  it('should parse quoted CSV fields and detect the delimiter', () => {
+    expect(parseCsv('a;"b;c";d\n1;2;3')).toEqual([['a', 'b;c', 'd'], ['1', '2', '3']]);
+    expect(parseCsv('"say ""hi""",2\r\n')).toEqual([['say "hi"', '2']]);
+  });
+
+  it('should parse money and quantity cells', () => {
+    expect(parseNumericCell('KES 12,000.50')).toBe(12000.5);
+    expect(parseNumericCell('(500)')).toBe(-500);
+    expect(parseNumericCell('')).toBeNull();
+    expect(parseNumericCell('abc')).toBeUndefined();
+  });
+
+  it('should find the header row and suggest a column mapping', async () => {
+    const sheet = await parseSpreadsheet(Buffer.from(CSV), 'bill-2.csv');
+
+    expect(sheet.headerRowNumber).toBe(3);
+    expect(suggestColumnMapping(sheet.headers)).toEqual({
+      itemNumber: 0, description: 1, unit: 2, quantity: 3, rate: 4, amount: 5
+    });
+  });
+
+  it('should reject incomplete or conflicting mappings', () => {
+    expect(validateColumnMapping({ description: 1, quantity: 3, rate: 4 }, 6)).toEqual([]);
+    expect(validateColumnMapping({ quantity: 3 }, 6)).toEqual([
+      'A description column is required',
+      'A rate or amount column is required'
+    ]);
+    expect(validateColumnMapping({ description: 1, quantity: 1, rate: 9 }, 6)).toEqual([
+      'Column 2 is mapped to both Description and Quantity',
+      'Column for Rate is out of range'
+    ]);
+  });
+
+  it('should map rows to BQ items with headings, lump sums and per-row errors', async () => {
+    const sheet = await parseSpreadsheet(Buffer.from(CSV), 'bill-2.csv');
+    const { items, errors } = mapRowsToBQ(sheet, suggestColumnMapping(sheet.headers));
+
+    expect(items.map(item => item.itemNumber)).toEqual(['A', 'B', 'D', 'E']);
+    expect(items[0]).toMatchObject({ quantity: 120, unitRateKES: 85, totalCostKES: 10200, category: 'SUBSTRUCTURE', wastageFactor: 0 });
+    expect(items[2]).toMatchObject({ totalCostKES: 204000, category: 'WALLING' });
+    expect(items[3]).toMatchObject({ unit: 'Item', quantity: 1, unitRateKES: 50000, totalCostKES: 50000 });
+    expect(errors).toEqual([{ row: 7, field: 'quantity', value: 'abc', message: 'Quantity is not a number' }]);
+  });
+
+  it('should keep the consultant amounts so reconciliation flags arithmetic slips', async () => {
+    const sheet = await parseSpreadsheet(Buffer.from(CSV), 'bill-2.csv');
+    const { items } = mapRowsToBQ(sheet, suggestColumnMapping(sheet.headers));
+    const analysis = buildImportedAnalysis(items, { projectName: 'Bill 2', fileName: 'bill-2.csv', fileType: 'text/csv' });
+
+    expect(analysis.summary.totalEstimatedCostKES).toBe(436200);
+    expect(analysis.metadata.source).toBe('import');
+
+    const report = reconcileAnalysis(analysis);
+    expect(report.discrepancies.find(d => d.scope === 'line')).toMatchObject({ itemNumber: 'B', aiValue: 172000, recomputedValue: 174000 });
+  });
+
+  it('should read XLSX worksheets including formula results', async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet('Notes');
+    const sheet = workbook.addWorksheet('Bill 1');
+    sheet.addRow(['Item', 'Description', 'Unit', 'Quantity', 'Rate', 'Amount']);
+    sheet.addRow(['1', 'Roof trusses', 'Item', 1, 10000, { formula: 'D2*E2', result: 10000 }]);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer() as ArrayBuffer);
+
+    const parsed = await parseSpreadsheet(buffer, 'bq.xlsx');
+    expect(parsed.sheetNames).toEqual(['Notes', 'Bill 1']);
+    expect(parsed.sheetName).toBe('Bill 1');
+
+    const { items, errors } = mapRowsToBQ(parsed, suggestColumnMapping(parsed.headers));
+    expect(errors).toEqual([]);
+    expect(items).toEqual([expect.objectContaining({ description: 'Roof trusses', quantity: 1, unitRateKES: 10000, totalCostKES: 10000 })]);
+  });
+});
@@ -0,0 +1,91 @@
+import { reconcileAnalysis, applyReconciliation, computeLineTotal } from '../services/bqReconciliation';
+import { AnalysisResult } from '../types';
+
+const buildResult = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  summary: {
+    totalEstimatedCostKES: 115500,
+    totalWastageCostKES: 5500,
+    confidenceScore: 0.9,
+  },
+  billOfQuantities: [
+    {
+      itemNumber: '1',
+      description: 'Foundation concrete (1:2:4)',
+      unit: 'm3',
+      quantity: 10,
+      unitRateKES: 10000,
+      wastageFactor: 0.05,
+      totalCostKES: 105000,
+    },
+    {
+      itemNumber: '2',
+      description: 'Hardcore filling',
+      unit: 'm3',
+      quantity: 5,
+      unitRateKES: 2000,
+      wastageFactor: 0.05,
+      totalCostKES: 10500,
+    },
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Test Bungalow',
+  metadata: {
+    analysisDate: new Date(),
+    fileType: 'application/pdf',
+    fileName: 'plan.pdf',
+    confidence: 0.9,
+  },
+  ...overrides,
+});
+
+describe('BQ Reconciliation', () => {
+  it('should recompute a line as quantity × rate × (1 + wastage)', () => {
+    expect(computeLineTotal({ quantity: 12.8, unitRateKES: 15000, wastageFactor: 0.05 })).toBe(201600);
+  });
+
+  it('should report a clean BQ when the arithmetic adds up', () => {
+    const report = reconcileAnalysis(buildResult());
+
+    expect(report.status).toBe('clean');
+    expect(report.resolution).toBe('pending');
+    expect(report.discrepancies).toEqual([]);
+  });
+
+  it('should flag line and summary discrepancies with a severity', () => {
+    const result = buildResult();
+    result.billOfQuantities[0].totalCostKES = 100000;
+
+    const report = reconcileAnalysis(result);
+
+    expect(report.status).toBe('flagged');
+    const line = report.discrepancies.find(d => d.scope === 'line');
+    expect(line).toMatchObject({ itemNumber: '1', aiValue: 100000, recomputedValue: 105000, severity: 'medium' });
+    expect(report.discrepancies.some(d => d.field === 'totalEstimatedCostKES')).toBe(false);
+  });
+
+  it('should grade a missing AI total as critical', () => {
+    const result = buildResult();
+    result.billOfQuantities[1].totalCostKES = 0;
+
+    const report = reconcileAnalysis(result);
+
+    expect(report.discrepancies[0]).toMatchObject({ itemNumber: '2', severity: 'critical' });
+  });
+
+  it('should apply recomputed values and allow switching back to AI values', () => {
+    const result = buildResult({
+      summary: { totalEstimatedCostKES: 90000, totalWastageCostKES: 5500, confidenceScore: 0.9 },
+    });
+    result.billOfQuantities[0].totalCostKES = 80000;
+    result.reconciliation = reconcileAnalysis(result);
+
+    const recomputed = applyReconciliation(result, 'recomputed');
+    expect(recomputed.billOfQuantities[0].totalCostKES).toBe(105000);
+    expect(recomputed.summary.totalEstimatedCostKES).toBe(115500);
+    expect(recomputed.reconciliation?.resolution).toBe('recomputed');
+
+    const restored = applyReconciliation(recomputed, 'ai');
+    expect(restored.billOfQuantities[0].totalCostKES).toBe(80000);
+    expect(restored.summary.totalEstimatedCostKES).toBe(90000);
+  });
+});
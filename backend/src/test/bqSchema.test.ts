@@ -0,0 +1,93 @@
+import {
+  MAX_REPAIR_ATTEMPTS,
+  parseModelJson,
+  repairInstructions,
+  requestValidatedJson,
+  RepairRequest,
+  validateBQResponse
+} from '../services/bqSchema';
+
+const validResponse = {
+  summary: { totalEstimatedCostKES: 84000, totalWastageCostKES: 4200, confidenceScore: 0.8, totalArea: 120 },
+  billOfQuantities: [
+    { category: 'Walling', description: '200mm stone walling', unit: 'm2', quantity: 35, unitRateKES: 2400, totalCostKES: 84000, wastageFactor: 0.05 }
+  ],
+  intelligentSuggestions: [{ suggestion: 'Use machine cut stone', impact: 'Medium' }]
+};
+
+describe('BQ Schema', () => {
+  it('should accept a complete BQ', () => {
+    expect(validateBQResponse(validResponse)).toEqual([]);
+  });
+
+  it('should report each offending field by path', () => {
+    const issues = validateBQResponse({
+      summary: { totalEstimatedCostKES: '84,000', totalWastageCostKES: 0, confidenceScore: 1.4 },
+      billOfQuantities: [{ description: 'Stone walling', unit: 'm2', quantity: -2, unitRateKES: 2400 }]
+    });
+
+    expect(issues).toEqual([
+      { path: '$.summary.totalEstimatedCostKES', message: 'must be a number, got a string' },
+      { path: '$.summary.confidenceScore', message: 'must be at most 1' },
+      { path: '$.billOfQuantities[0].totalCostKES', message: 'is required' },
+      { path: '$.billOfQuantities[0].quantity', message: 'must be at least 0' }
+    ]);
+  });
+
+  it('should reject a missing or empty bill', () => {
+    expect(validateBQResponse({ summary: validResponse.summary })).toEqual([{ path: '$.billOfQuantities', message: 'is required' }]);
+    expect(validateBQResponse({ ...validResponse, billOfQuantities: [] })).toEqual([
+      { path: '$.billOfQuantities', message: 'must have at least 1 item(s)' }
+    ]);
+    expect(validateBQResponse([])).toEqual([{ path: '$', message: 'must be an object, got an array' }]);
+  });
+
+  it('should parse fenced JSON and report malformed JSON', () => {
+    expect(parseModelJson('```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 }, issues: [] });
+
+    const parsed = parseModelJson('{"summary": {');
+    expect(parsed.value).toBeUndefined();
+    expect(parsed.issues[0].message).toMatch(/^is not valid JSON/);
+  });
+
+  it('should feed the problems back and accept a repaired response', async () => {
+    const repairs: Array<RepairRequest | undefined> = [];
+    const answers = ['{"summary": {', JSON.stringify(validResponse)];
+    const request = async (repair?: RepairRequest) => {
+      repairs.push(repair);
+      return answers[repairs.length - 1];
+    };
+
+    const result = await requestValidatedJson(request, validateBQResponse);
+
+    expect(result).toEqual({ value: validResponse, attempts: 2 });
+    expect(repairs[0]).toBeUndefined();
+    expect(repairs[1]?.previousResponse).toBe('{"summary": {');
+    expect(repairs[1]?.instructions).toContain('- $ is not valid JSON');
+  });
+
+  it('should give up after the bounded number of repairs', async () => {
+    const request = jest.fn(async () => JSON.stringify({ summary: validResponse.summary, billOfQuantities: [] }));
+
+    await expect(requestValidatedJson(request, validateBQResponse)).rejects.toThrow(
+      `did not match the BQ schema after ${MAX_REPAIR_ATTEMPTS + 1} attempt(s): $.billOfQuantities must have at least 1 item(s)`
+    );
+    expect(request).toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS + 1);
+  });
+
+  it('should not retry a failed AI call', async () => {
+    const request = jest.fn(async () => JSON.stringify({ error: { message: 'API quota exceeded', code: 'QUOTA_EXCEEDED' } }));
+
+    await expect(requestValidatedJson(request, validateBQResponse)).rejects.toThrow('API quota exceeded');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cap the problems listed in a repair prompt', () => {
+    const issues = Array.from({ length: 25 }, (_, index) => ({ path: `$.billOfQuantities[${index}].unit`, message: 'is required' }));
+    const instructions = repairInstructions(issues);
+
+    expect(instructions).toContain('- $.billOfQuantities[19].unit is required');
+    expect(instructions).not.toContain('[20]');
+    expect(instructions).toContain('- and 5 more problem(s)');
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  buildCadAnalysis,
+  buildCadBillOfQuantities,
+  convertDwgToDxf,
+  isCadFile,
+  layerRole,
+  parseDxf,
+  takeoffFromDxf
+} from '../services/cadTakeoff';
+
+type GroupCode = [number, string | number];
+
+const dxfText = (sections: GroupCode[][]): string =>
+  [...sections.flat(), [0, 'EOF'] as GroupCode].map(([code, value]) => `${code}\n${value}`).join('\n');
+
+const section = (name: string, codes: GroupCode[]): GroupCode[] => [[0, 'SECTION'], [2, name], ...codes, [0, 'ENDSEC']];
+
+const polyline = (layer: string, points: Array<[number, number, number?]>, closed = true): GroupCode[] => [
+  [0, 'LWPOLYLINE'], [8, layer], [90, points.length], [70, closed ? 1 : 0],
+  ...points.flatMap(([x, y, bulge]): GroupCode[] => [[10, x], [20, y], ...(bulge ? [[42, bulge] as GroupCode] : [])])
+];
+
+const line = (layer: string, x1: number, y1: number, x2: number, y2: number): GroupCode[] => [
+  [0, 'LINE'], [8, layer], [10, x1], [20, y1], [30, 0], [11, x2], [21, y2], [31, 0]
+];
+
+const insert = (layer: string, block: string, x: number, y: number, extra: GroupCode[] = []): GroupCode[] => [
+  [0, 'INSERT'], [8, layer], [2, block], [10, x], [20, y], [30, 0], ...extra
+];
+
+const text = (layer: string, value: string, x: number, y: number, type = 'TEXT'): GroupCode[] => [
+  [0, type], [8, layer], [10, x], [20, y], [30, 0], [40, 200], [1, value]
+];
+
+const block = (name: string, entities: GroupCode[]): GroupCode[] => [
+  [0, 'BLOCK'], [8, '0'], [2, name], [70, 0], [10, 0], [20, 0], [30, 0], [3, name], ...entities, [0, 'ENDBLK'], [8, '0']
+];
+
+const dimension = (length: number, override = ''): GroupCode[] => [
+  [0, 'DIMENSION'], [8, 'A-DIMS'], [2, '*D1'], [10, 0], [20, -1000], [30, 0],
+  [13, 0], [23, 0], [33, 0], [14, length], [24, 0], [34, 0], [70, 1], [42, length], [1, override]
+];
+
+// A 10 x 8 m two-room bungalow in millimetres: 200mm external walls drawn as two faces,
+// a 100mm cross wall, a round store outside, and a 2 m wall drawn as a scaled, rotated block
+const plan = dxfText([
+  section('HEADER', [[9, '$INSUNITS'], [70, 4]]),
+  section('BLOCKS', [
+    ...block('DOOR-900', [...line('0', 0, 0, 900, 0), ...line('0', 0, 0, 0, 900)]),
+    ...block('W1200', line('0', 0, 0, 1200, 0)),
+    ...block('WALL-STUB', line('0', 0, 0, 1000, 0))
+  ]),
+  section('ENTITIES', [
+    ...polyline('A-WALL', [[0, 0], [10000, 0], [10000, 8000], [0, 8000]]),
+    ...polyline('A-WALL', [[200, 200], [9800, 200], [9800, 7800], [200, 7800]]),
+    ...line('A-WALL', 4950, 200, 4950, 7800),
+    ...line('A-WALL', 5050, 200, 5050, 7800),
+    ...insert('A-WALL', 'WALL-STUB', 20000, 20000, [[41, 2], [50, 90]]),
+    ...polyline('A-AREA', [[0, 0], [10000, 0], [10000, 8000], [0, 8000]]),
+    ...polyline('A-ROOM', [[200, 200], [4950, 200], [4950, 7800], [200, 7800]]),
+    ...polyline('A-ROOM', [[5050, 200], [9800, 200], [9800, 7800], [5050, 7800]]),
+    ...polyline('A-ROOM', [[19000, 0, 1], [21000, 0, 1]]),
+    ...text('A-ROOM-IDEN', 'BEDROOM 1', 2000, 4000),
+    ...text('A-ROOM-IDEN', '36.10 m2', 2000, 3500),
+    ...text('A-ROOM-IDEN', '{\\fArial|b0;LIVING}\\PROOM', 7000, 4000, 'MTEXT'),
+    ...insert('A-DOOR', 'DOOR-900', 2000, 200),
+    ...insert('A-DOOR', 'DOOR-900', 5000, 3000, [[50, 90]]),
+    ...insert('A-GLAZ', 'W1200', 1000, 8000),
+    ...insert('A-GLAZ', 'W1200', 6000, 8000),
+    ...insert('A-GLAZ', 'W1200', 8000, 8000),
+    ...dimension(10000),
+    ...dimension(8000, '7500')
+  ])
+]);
+
+describe('CAD Takeoff', () => {
+  it('should recognise CAD files and layer roles', () => {
+    expect(isCadFile('Ground Floor.DXF')).toBe(true);
+    expect(isCadFile('plan.dwg')).toBe(true);
+    expect(isCadFile('plan.pdf')).toBe(false);
+
+    expect(layerRole('A-WALL')).toBe('walls');
+    expect(layerRole('A-DOOR')).toBe('doors');
+    expect(layerRole('A-GLAZ')).toBe('windows');
+    expect(layerRole('A-ROOM-IDEN')).toBe('rooms');
+    expect(layerRole('A-FURN')).toBeUndefined();
+    expect(layerRole('MURS', { walls: ['murs'] })).toBe('walls');
+    expect(layerRole('A-WALL', { walls: ['MURS'] })).toBeUndefined();
+  });
+
+  it('should measure double-line walls along their centreline', () => {
+    const takeoff = takeoffFromDxf(parseDxf(plan));
+
+    expect(takeoff.units).toBe('mm');
+    expect(takeoff.unitsInferred).toBe(false);
+    expect(takeoff.walls).toMatchObject({ layers: ['A-WALL'], doubleLine: true, thicknessMm: 200 });
+    // 35.2 m external centreline + 7.6 m cross wall + the 2 m block
+    expect(takeoff.walls.centrelineLengthM).toBeCloseTo(44.8, 2);
+    expect(takeoff.walls.drawnLengthM).toBeCloseTo(36 + 34.4 + 15.2 + 2, 2);
+  });
+
+  it('should measure rooms, skipping the floor boundary and naming them from their labels', () => {
+    const takeoff = takeoffFromDxf(parseDxf(plan));
+
+    expect(takeoff.rooms).toEqual([
+      { name: 'BEDROOM 1', layer: 'A-ROOM', areaM2: 36.1, perimeterM: 24.7 },
+      { name: 'LIVING ROOM', layer: 'A-ROOM', areaM2: 36.1, perimeterM: 24.7 },
+      { name: 'Room 3', layer: 'A-ROOM', areaM2: 3.14, perimeterM: 6.28 }
+    ]);
+    expect(takeoff.grossFloorAreaM2).toBe(80);
+  });
+
+  it('should count door and window blocks and check the dimensions', () => {
+    const takeoff = takeoffFromDxf(parseDxf(plan));
+
+    expect(takeoff.openings).toEqual([
+      { kind: 'door', blockName: 'DOOR-900', layer: 'A-DOOR', count: 2 },
+      { kind: 'window', blockName: 'W1200', layer: 'A-GLAZ', count: 3 }
+    ]);
+    expect(takeoff.dimensions).toEqual([
+      { layer: 'A-DIMS', valueM: 10 },
+      { layer: 'A-DIMS', valueM: 8, text: '7500' }
+    ]);
+    expect(takeoff.warnings).toEqual([expect.stringContaining('1 dimension(s) show text that does not match')]);
+  });
+
+  it('should assume units from the drawing size when they are not declared', () => {
+    const takeoff = takeoffFromDxf(parseDxf(dxfText([
+      section('ENTITIES', line('WALLS', 0, 0, 12.5, 0))
+    ])));
+
+    expect(takeoff).toMatchObject({ units: 'm', unitsInferred: true, walls: { centrelineLengthM: 12.5, doubleLine: false } });
+    expect(takeoff.warnings[0]).toContain('does not declare its units');
+  });
+
+  it('should build the BQ from the measured quantities', () => {
+    const items = buildCadBillOfQuantities(takeoffFromDxf(parseDxf(plan)), { wallHeightM: 3 });
+
+    // 44.8 m x 3 m less 2 doors (0.9 x 2.1) and 3 windows (1.2 x 1.2)
+    expect(items[0]).toMatchObject({
+      itemNumber: '1',
+      description: expect.stringContaining('200mm thick'),
+      unit: 'm2',
+      quantity: 126.3,
+      unitRateKES: 2400,
+      totalCostKES: 318276,
+      quantityBasis: '44.80 m of wall centreline x 3.00 m height less 2 door(s) and 3 window(s) (8.1 m2)'
+    });
+    expect(items.map(item => [item.unit, item.quantity])).toEqual([
+      ['m2', 126.3],
+      ['m2', 252.6],
+      ['m2', 75.34],
+      ['m2', 75.34],
+      ['m', 52.08],
+      ['nr', 2],
+      ['nr', 3]
+    ]);
+  });
+
+  it('should report a fully measured drawing with full confidence', () => {
+    const takeoff = takeoffFromDxf(parseDxf(plan));
+    const analysis = buildCadAnalysis(takeoff, { projectName: 'Runda Bungalow', fileName: 'plan.dxf', fileType: 'application/dxf' });
+
+    expect(analysis.summary.confidenceScore).toBe(1);
+    expect(analysis.summary.totalArea).toBe(80);
+    expect(analysis.metadata).toMatchObject({ source: 'cad', confidence: 1, cadTakeoff: takeoff });
+    expect(analysis.intelligentSuggestions).toHaveLength(1);
+  });
+
+  it('should lower the confidence when the takeoff had to guess', () => {
+    // Walls in undeclared units, with no room outlines
+    const takeoff = takeoffFromDxf(parseDxf(dxfText([
+      section('ENTITIES', [...line('A-WALL', 0, 0, 12.5, 0), ...line('A-WALL', 12.5, 0, 12.5, 8)])
+    ])));
+    const analysis = buildCadAnalysis(takeoff, { projectName: 'Runda Bungalow', fileName: 'plan.dxf', fileType: 'application/dxf' });
+
+    expect(takeoff.unitsInferred).toBe(true);
+    expect(analysis.summary.confidenceScore).toBe(0.45);
+    expect(analysis.metadata.confidence).toBe(0.45);
+
+    const empty = takeoffFromDxf(parseDxf(dxfText([section('ENTITIES', line('NOTES', 0, 0, 5, 0))])));
+    expect(buildCadAnalysis(empty, { projectName: 'Blank', fileName: 'blank.dxf', fileType: 'application/dxf' }).summary.confidenceScore).toBe(0);
+  });
+
+  it('should explain when DWG conversion is not available', async () => {
+    const converter = process.env.DWG2DXF_PATH;
+    process.env.DWG2DXF_PATH = '/nonexistent/dwg2dxf';
+    try {
+      await expect(convertDwgToDxf(Buffer.from('AC1032'))).rejects.toThrow('export the drawing as DXF');
+    } finally {
+      if (converter === undefined) delete process.env.DWG2DXF_PATH;
+      else process.env.DWG2DXF_PATH = converter;
+    }
+  });
+});
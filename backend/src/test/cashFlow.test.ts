@@ -0,0 +1,163 @@
+import ExcelJS from 'exceljs';
+import {
+  buildCashFlowForecast,
+  cumulativeShare,
+  parseCashFlowConfig,
+  DEFAULT_CASH_FLOW_CONFIG
+} from '../services/cashFlow';
+import { buildCashFlowWorkbook } from '../services/cashFlowExport';
+import { AnalysisResult, BQItem, CashFlowConfig } from '../types';
+
+const item = (overrides: Partial<BQItem>): BQItem => ({
+  itemNumber: '1',
+  description: 'Item',
+  unit: 'm3',
+  quantity: 1,
+  unitRateKES: 0,
+  wastageFactor: 0,
+  totalCostKES: 0,
+  ...overrides,
+});
+
+const concrete = (totalCostKES: number): BQItem => item({
+  description: 'Reinforced concrete in columns',
+  totalCostKES,
+  classification: { workSectionCode: 'E10', workSectionName: 'In situ concrete', elementCode: '2.1', elementName: 'Frame', source: 'rule', confidence: 0.9 },
+});
+
+// Measured work only unless a test asks for additions and VAT
+const buildResult = (billOfQuantities: BQItem[], overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  summary: { totalEstimatedCostKES: 0, totalWastageCostKES: 0, confidenceScore: 0.8 },
+  billOfQuantities,
+  intelligentSuggestions: [],
+  projectName: 'Eldoret Offices',
+  metadata: { analysisDate: new Date('2026-10-01'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.8, currency: 'KES' },
+  summaryConfig: { lines: [], vatRate: 0 },
+  ...overrides,
+});
+
+const plain: CashFlowConfig = { activities: [], retentionRate: 0, retentionLimit: 0, defectsLiabilityMonths: 0, paymentLagMonths: 0 };
+const programme = { startDate: new Date('2027-01-01'), endDate: new Date('2027-06-30') };
+
+describe('Cash Flow', () => {
+  it('should spread the work along an S-curve over the programme', () => {
+    expect(cumulativeShare('s-curve', 0.25)).toBeCloseTo(0.15625);
+    expect(cumulativeShare('s-curve', 0.5)).toBe(0.5);
+    expect(cumulativeShare('linear', 0.25)).toBe(0.25);
+
+    const forecast = buildCashFlowForecast([{ analysisId: 'a1', analysis: buildResult([item({ category: 'General', totalCostKES: 6000000 })]) }], programme, plain);
+    const values = forecast.months.map(month => month.value);
+
+    expect(forecast.months.map(month => month.month)).toEqual(['2027-01', '2027-02', '2027-03', '2027-04', '2027-05', '2027-06']);
+    expect(values.reduce((sum, value) => sum + value, 0)).toBeCloseTo(6000000, 2);
+    expect(values[0]).toBeLessThan(values[2]);
+    expect(values[5]).toBeLessThan(values[3]);
+    expect(forecast.months[5]).toMatchObject({ cumulativeValue: 6000000, cumulativePercent: 100 });
+    expect(forecast.trades).toEqual([expect.objectContaining({ trade: 'General', amount: 6000000, profile: 's-curve', source: 'standard' })]);
+    expect(forecast.analysisIds).toEqual(['a1']);
+  });
+
+  it('should follow activity dates given by trade code or name', () => {
+    const config: CashFlowConfig = {
+      ...plain,
+      activities: [
+        { trade: 'e', startDate: new Date('2027-02-01'), endDate: new Date('2027-03-01'), profile: 'linear' },
+        { trade: 'Finishes', startDate: new Date('2027-07-01'), endDate: new Date('2027-08-01'), profile: 'linear' },
+      ],
+    };
+    const forecast = buildCashFlowForecast([{ analysis: buildResult([concrete(900000), item({ itemNumber: '2', category: 'Finishes', totalCostKES: 300000 })]) }], programme, config);
+
+    expect(forecast.trades.map(trade => [trade.trade, trade.source])).toEqual([
+      ['E In situ concrete/Large precast concrete', 'activity'],
+      ['Finishes', 'activity'],
+    ]);
+    expect(forecast.endDate).toEqual(new Date('2027-08-01'));
+    expect(forecast.months.filter(month => month.value > 0).map(month => [month.month, month.value])).toEqual([
+      ['2027-02', 900000],
+      ['2027-07', 300000],
+    ]);
+  });
+
+  it('should run preliminaries evenly, other additions with the work, and add VAT', () => {
+    const analysis = buildResult([concrete(1000000)], { summaryConfig: undefined });
+    const forecast = buildCashFlowForecast([{ analysis }], { startDate: new Date('2027-01-01'), endDate: new Date('2027-03-01') }, {
+      ...plain,
+      activities: [{ trade: 'E', startDate: new Date('2027-01-01'), endDate: new Date('2027-02-01'), profile: 'linear' }],
+    });
+
+    // Preliminaries of 100,000 by the day over January and February; contingency of 55,000 with the concrete in January
+    expect(forecast.months.map(month => month.value)).toEqual([1107542.37, 47457.63, 0]);
+    expect(forecast.totals).toMatchObject({ value: 1155000, vat: 184800 });
+    expect(forecast.months.map(month => month.vat)).toEqual([177206.78, 7593.22, 0]);
+
+    expect(() => buildCashFlowForecast([{ analysis }, { analysis: buildResult([], { metadata: { ...analysis.metadata, currency: 'USD' } }) }], programme, plain))
+      .toThrow('different currencies (KES, USD)');
+    expect(() => buildCashFlowForecast([{ analysis }], { startDate: programme.endDate, endDate: programme.startDate }, plain))
+      .toThrow('The programme must end after it starts');
+  });
+
+  it('should hold retention up to its limit, release it in halves and pay after the lag', () => {
+    const forecast = buildCashFlowForecast([{ analysis: buildResult([concrete(1000000)]) }], { startDate: new Date('2027-01-01'), endDate: new Date('2027-03-01') }, {
+      ...DEFAULT_CASH_FLOW_CONFIG,
+      activities: [{ trade: 'E', startDate: new Date('2027-01-01'), endDate: new Date('2027-03-01'), profile: 'linear' }],
+      defectsLiabilityMonths: 2,
+    });
+    const months = forecast.months.map(month => [month.month, month.value, month.retention, month.retentionReleased, month.certified, month.payment]);
+
+    // 10% retention stops at 5% of the contract value; completion is in March, the defects period ends in May
+    expect(months).toEqual([
+      ['2027-01', 525423.73, 50000, 0, 475423.73, 0],
+      ['2027-02', 474576.27, 0, 0, 474576.27, 475423.73],
+      ['2027-03', 0, 0, 25000, 25000, 474576.27],
+      ['2027-04', 0, 0, 0, 0, 25000],
+      ['2027-05', 0, 0, 25000, 25000, 0],
+      ['2027-06', 0, 0, 0, 0, 25000],
+    ]);
+    expect(forecast.totals).toEqual({ value: 1000000, vat: 0, retentionHeld: 50000, payments: 1000000 });
+  });
+
+  it('should check cash-flow settings sent by a client', () => {
+    expect(parseCashFlowConfig({
+      startDate: '2027-01-01',
+      endDate: '2027-12-31',
+      activities: [{ trade: ' F ', startDate: '2027-03-01', endDate: '2027-06-30' }],
+      retentionRate: '0.05',
+    })).toEqual({
+      startDate: new Date('2027-01-01'),
+      endDate: new Date('2027-12-31'),
+      activities: [{ trade: 'F', startDate: new Date('2027-03-01'), endDate: new Date('2027-06-30'), profile: 's-curve' }],
+      retentionRate: 0.05,
+      retentionLimit: 0.05,
+      defectsLiabilityMonths: 6,
+      paymentLagMonths: 1,
+    });
+    expect(parseCashFlowConfig({})).toEqual(DEFAULT_CASH_FLOW_CONFIG);
+
+    const activity = { trade: 'F', startDate: '2027-03-01', endDate: '2027-06-30' };
+    expect(() => parseCashFlowConfig({ startDate: '2027-01-01' })).toThrow('Give both programme dates or neither');
+    expect(() => parseCashFlowConfig({ activities: [{ ...activity, endDate: '2027-02-01' }] })).toThrow('Activity 1 (F) must end after it starts');
+    expect(() => parseCashFlowConfig({ activities: [{ ...activity, profile: 'bell' }] })).toThrow('profile must be s-curve or linear');
+    expect(() => parseCashFlowConfig({ activities: [activity, { ...activity, trade: 'f' }] })).toThrow('More than one activity is given for f');
+    expect(() => parseCashFlowConfig({ paymentLagMonths: 1.5 })).toThrow('The payment lag must be a whole number of months from 0 to 6');
+  });
+
+  it('should export the cash flow with live cumulative and payment formulas', async () => {
+    const forecast = buildCashFlowForecast([{ analysis: buildResult([concrete(1000000)]) }], { startDate: new Date('2027-01-01'), endDate: new Date('2027-03-01') }, {
+      ...DEFAULT_CASH_FLOW_CONFIG,
+      defectsLiabilityMonths: 0,
+    });
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await buildCashFlowWorkbook(forecast, 'Eldoret Offices') as any);
+
+    const sheet = workbook.getWorksheet('Cash Flow')!;
+    expect(sheet.getRow(4).getCell(2).value).toBe('Value (KES)');
+    expect(sheet.getCell('A5').value).toBe('2027-01');
+    expect(sheet.getCell('C6').value).toMatchObject({ formula: 'C5+B6' });
+    expect(sheet.getCell('H5').value).toMatchObject({ formula: 'B5-F5+E5+G5' });
+    expect(sheet.getCell('I5').value).toBe(0);
+    expect(sheet.getCell('I6').value).toMatchObject({ formula: 'H5' });
+    expect(sheet.getCell('A9').value).toBe('TOTAL');
+    expect(workbook.getWorksheet('Trades')!.getCell('A5').value).toBe('E In situ concrete/Large precast concrete');
+  });
+});
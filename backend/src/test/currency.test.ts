@@ -0,0 +1,99 @@
+import {
+  buildConversion,
+  convertAnalysis,
+  describeConversion,
+  findExchangeRate,
+  formatMoney,
+  roundMoney
+} from '../services/currency';
+import { AnalysisResult, ExchangeRate } from '../types';
+
+const exchangeRate = (overrides: Partial<ExchangeRate>): ExchangeRate => ({
+  baseCurrency: 'KES',
+  quoteCurrency: 'UGX',
+  rate: 28.45,
+  effectiveDate: new Date('2026-09-01'),
+  source: 'Central Bank of Kenya indicative rate',
+  createdBy: 'admin',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: true,
+  ...overrides,
+});
+
+const buildResult = (): AnalysisResult => ({
+  summary: { totalEstimatedCostKES: 160650, totalWastageCostKES: 7650, confidenceScore: 0.8 },
+  billOfQuantities: [
+    { itemNumber: '1', description: 'Concrete (1:2:4) in foundation', unit: 'm3', quantity: 10, unitRateKES: 15000, wastageFactor: 0.05, totalCostKES: 157500 },
+    { itemNumber: '2', description: 'DPC', unit: 'm', quantity: 30, unitRateKES: 100.33, wastageFactor: 0.05, totalCostKES: 3160.4 },
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Kampala Duplex',
+  metadata: { analysisDate: new Date('2026-10-01'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.8, currency: 'KES' },
+});
+
+describe('Currency', () => {
+  it('should round to the minor units of each currency', () => {
+    expect(roundMoney(1234.565, 'KES')).toBe(1234.57);
+    expect(roundMoney(-1234.565, 'KES')).toBe(-1234.57);
+    expect(roundMoney(1234.5, 'UGX')).toBe(1235);
+    expect(roundMoney(0.1 + 0.2, 'USD')).toBe(0.3);
+
+    expect(formatMoney(1250000.4, 'UGX')).toBe('UGX 1,250,000');
+    expect(formatMoney(1250000.4, 'TZS', false)).toBe('1,250,000.40');
+  });
+
+  it('should use the latest rate effective on the date, either way round', () => {
+    const rates = [
+      exchangeRate({ rate: 28.45 }),
+      exchangeRate({ rate: 29.1, effectiveDate: new Date('2026-10-01') }),
+      exchangeRate({ baseCurrency: 'UGX', quoteCurrency: 'KES', rate: 0.0345, effectiveDate: new Date('2026-10-10') }),
+      exchangeRate({ rate: 30, effectiveDate: new Date('2026-10-15'), isActive: false }),
+    ];
+
+    expect(findExchangeRate(rates, 'KES', 'UGX', new Date('2026-09-15'))?.rate.rate).toBe(28.45);
+    expect(findExchangeRate(rates, 'KES', 'UGX', new Date('2026-10-05'))?.rate.rate).toBe(29.1);
+    expect(findExchangeRate(rates, 'KES', 'UGX', new Date('2026-10-20'))).toMatchObject({ inverted: true, rate: { rate: 0.0345 } });
+    expect(findExchangeRate(rates, 'KES', 'UGX', new Date('2026-08-01'))).toBeNull();
+    expect(findExchangeRate(rates, 'KES', 'TZS', new Date('2026-10-20'))).toBeNull();
+  });
+
+  it('should record the rate behind a conversion', () => {
+    const conversion = buildConversion('UGX', 'KES', { rate: exchangeRate({ rate: 25 }), inverted: true }, new Date('2026-10-19'));
+
+    expect(conversion).toEqual({
+      from: 'UGX',
+      to: 'KES',
+      rate: 0.04,
+      effectiveDate: new Date('2026-09-01'),
+      source: 'Central Bank of Kenya indicative rate',
+      inverted: true,
+      convertedAt: new Date('2026-10-19'),
+    });
+    expect(describeConversion(conversion)).toBe(
+      'Converted from UGX to KES at 1 UGX = 0.04 KES (rate effective 2026-09-01, Central Bank of Kenya indicative rate)'
+    );
+  });
+
+  it('should convert a BQ so it still adds up in whole shillings', () => {
+    const result = buildResult();
+    const conversion = buildConversion('KES', 'UGX', { rate: exchangeRate({}), inverted: false });
+    const converted = convertAnalysis(result, conversion);
+
+    expect(converted.billOfQuantities.map(item => [item.unitRateKES, item.totalCostKES])).toEqual([
+      [426750, 4480875],
+      [2854, 89901],
+    ]);
+    expect(converted.summary.totalEstimatedCostKES).toBe(4480875 + 89901);
+    expect(converted.summary.totalWastageCostKES).toBe(217656);
+    expect(converted.metadata.currency).toBe('UGX');
+    expect(converted.metadata.conversions).toEqual([conversion]);
+    expect(result.metadata.currency).toBe('KES');
+  });
+
+  it('should refuse a conversion from the wrong currency', () => {
+    const conversion = buildConversion('USD', 'UGX', { rate: exchangeRate({ baseCurrency: 'USD', rate: 3700 }), inverted: false });
+
+    expect(() => convertAnalysis(buildResult(), conversion)).toThrow('The BQ is in KES, not USD');
+  });
+});
@@ -0,0 +1,79 @@
+import PDFDocument from 'pdfkit';
+import { classifyPageByText, mergePageAnalyses, PageAnalysis } from '../services/drawingSetAnalysis';
+import { renderPdfPages } from '../services/pdfPages';
+
+const buildDrawingSet = (titles: string[]): Promise<Buffer> =>
+  new Promise(resolve => {
+    const doc = new PDFDocument({ size: 'A3', layout: 'landscape' });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    titles.forEach((title, index) => {
+      if (index > 0) doc.addPage();
+      doc.rect(100, 100, 600, 400).stroke();
+      doc.fontSize(18).text(title, 100, 520);
+    });
+    doc.end();
+  });
+
+const page = (pageNumber: number, pageType: PageAnalysis['pageType'], items: any[], confidenceScore = 0.8): PageAnalysis => ({
+  pageNumber,
+  pageType,
+  analysis: { summary: { confidenceScore, totalArea: pageType === 'plan' ? '120' : 0 }, billOfQuantities: items, intelligentSuggestions: [] }
+});
+
+const walling = (quantity: number) => ({
+  category: 'Walling', description: '200mm machine cut stone walling', unit: 'm2', quantity, unitRateKES: 2400, wastageFactor: 0, totalCostKES: quantity * 2400
+});
+
+describe('Drawing Set Analysis', () => {
+  it.each([
+    ['PROPOSED RESIDENCE GROUND FLOOR PLAN SCALE 1:100', 'plan', 'GROUND FLOOR PLAN'],
+    ['FRONT ELEVATION REAR ELEVATION', 'elevation', 'FRONT ELEVATION'],
+    ['SECTION A-A SECTION B-B', 'section', 'SECTION A-A'],
+    ['DOOR SCHEDULE WINDOW SCHEDULE', 'schedule', 'WINDOW SCHEDULE'],
+    ['DRAWING REGISTER GROUND FLOOR PLAN FIRST FLOOR PLAN SECTION A-A', 'title', 'DRAWING REGISTER'],
+  ])('should classify "%s" as %s', (text, pageType, title) => {
+    expect(classifyPageByText(text)).toEqual({ pageType, title, classifiedBy: 'text' });
+  });
+
+  it('should leave sheets without a text layer for the AI to classify', () => {
+    expect(classifyPageByText('')).toBeNull();
+    expect(classifyPageByText('ARCHITECT: J. MWANGI  DATE 12/03/2026')).toBeNull();
+  });
+
+  it('should add plan quantities and record the source pages', () => {
+    const merged = mergePageAnalyses([
+      page(2, 'plan', [walling(80)]),
+      page(3, 'plan', [walling(60)]),
+      page(4, 'elevation', [walling(120)])
+    ]);
+
+    expect(merged.billOfQuantities).toEqual([
+      expect.objectContaining({ itemNumber: '1', quantity: 140, totalCostKES: 336000, sourcePages: [2, 3, 4] })
+    ]);
+    expect(merged.summary).toMatchObject({ totalEstimatedCostKES: 336000, totalArea: 240, confidenceScore: 0.8 });
+  });
+
+  it('should take the largest view of work not measured on a plan', () => {
+    const roof = (quantity: number) => ({ category: 'Roofing', description: 'Pre-painted iron roof sheets gauge 28', unit: 'm2', quantity, unitRateKES: 1200, wastageFactor: 0.05, totalCostKES: quantity * 1260 });
+    const merged = mergePageAnalyses([
+      page(4, 'elevation', [roof(150), walling(30)]),
+      page(5, 'section', [roof(165)])
+    ]);
+
+    expect(merged.billOfQuantities).toEqual([
+      expect.objectContaining({ description: 'Pre-painted iron roof sheets gauge 28', quantity: 165, sourcePages: [4, 5] }),
+      expect.objectContaining({ description: '200mm machine cut stone walling', quantity: 30, sourcePages: [4] })
+    ]);
+  });
+
+  it('should render each PDF page with its text layer', async () => {
+    const pages = await renderPdfPages(await buildDrawingSet(['GROUND FLOOR PLAN', 'FRONT ELEVATION']), { longEdgePx: 800 });
+
+    expect(pages).toHaveLength(2);
+    expect(pages.map(rendered => classifyPageByText(rendered.text)?.pageType)).toEqual(['plan', 'elevation']);
+    expect(pages[0]).toMatchObject({ pageNumber: 1, width: 800 });
+    expect(pages[0].image.subarray(1, 4).toString()).toBe('PNG');
+  });
+});
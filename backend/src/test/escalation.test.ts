@@ -0,0 +1,108 @@
+import { convertAnalysis } from '../services/currency';
+import { describeEscalation, indexAt, projectEscalation, trailingAnnualRate } from '../services/escalation';
+import { AnalysisResult, PriceIndex } from '../types';
+
+const priceIndex = (trade: string, period: string, value: number, overrides: Partial<PriceIndex> = {}): PriceIndex => ({
+  trade,
+  period: new Date(`${period}-01`),
+  value,
+  source: 'KNBS Construction Input Price Index',
+  createdBy: 'admin',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: true,
+  ...overrides,
+});
+
+const allTrades = [priceIndex('All', '2025-10', 100), priceIndex('All', '2026-04', 103), priceIndex('All', '2026-10', 106)];
+const concrete = [priceIndex('E', '2025-10', 120), priceIndex('E', '2026-10', 129.6)];
+const indices = [...allTrades, ...concrete];
+
+const buildResult = (): AnalysisResult => ({
+  summary: { totalEstimatedCostKES: 187500, totalWastageCostKES: 7500, confidenceScore: 0.8 },
+  billOfQuantities: [
+    {
+      itemNumber: '1', description: 'Concrete (1:2:4) in foundation', unit: 'm3', quantity: 10, unitRateKES: 15000, wastageFactor: 0.05, totalCostKES: 157500,
+      classification: { workSectionCode: 'E10', workSectionName: 'In situ concrete', elementCode: '1.1', elementName: 'Substructure', source: 'rule', confidence: 0.9 }
+    },
+    { itemNumber: '2', description: 'Sundries', unit: 'item', quantity: 20, unitRateKES: 1000, wastageFactor: 0, totalCostKES: 20000 },
+    {
+      itemNumber: '3', description: '200mm blockwork', unit: 'm2', quantity: 10, unitRateKES: 1000, wastageFactor: 0, totalCostKES: 10000,
+      classification: { workSectionCode: 'F10', workSectionName: 'Brick/Block walling', elementCode: '2.5', elementName: 'External walls', source: 'rule', confidence: 0.9 }
+    },
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Nakuru Offices',
+  metadata: { analysisDate: new Date('2026-10-05'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.8, currency: 'KES' },
+});
+
+describe('Escalation', () => {
+  it('should read published indices and project past the latest one', () => {
+    expect(indexAt(allTrades, new Date('2026-06-20'))).toEqual({ value: 103, projected: false });
+    expect(indexAt(allTrades, new Date('2026-10-31'))).toEqual({ value: 106, projected: false });
+    expect(indexAt(allTrades, new Date('2025-09-30'))).toBeNull();
+
+    expect(trailingAnnualRate(allTrades)).toBeCloseTo(0.06, 10);
+    expect(indexAt(allTrades, new Date('2027-10-01'))).toMatchObject({ projected: true, annualRate: expect.closeTo(0.06, 10) });
+    expect(indexAt(allTrades, new Date('2027-10-01'))!.value).toBeCloseTo(112.36, 6);
+    expect(indexAt(allTrades, new Date('2027-10-01'), 0.1)!.value).toBeCloseTo(116.6, 6);
+  });
+
+  it('should not project a series with less than a year of history', () => {
+    const short = [priceIndex('F', '2026-04', 100), priceIndex('F', '2026-10', 104)];
+
+    expect(trailingAnnualRate(short)).toBeNull();
+    expect(indexAt(short, new Date('2027-04-01'))).toBeNull();
+    expect(indexAt(short, new Date('2027-04-01'), 0.05)?.projected).toBe(true);
+  });
+
+  it('should escalate each trade on its own index, or the all-trades index, to the tender date', () => {
+    const result = buildResult();
+    const escalated = projectEscalation(result, indices, { baseDate: new Date('2026-10-05'), tenderDate: new Date('2027-04-15') }, new Date('2026-10-19'));
+    const escalation = escalated.metadata.escalation!;
+
+    expect(escalation.trades.map(trade => [trade.trade, trade.series, trade.baseIndex, trade.targetIndex, trade.allowance])).toEqual([
+      ['All', 'All', 106, 109.13, 591.26],
+      ['E', 'E', 129.6, 134.68, 6178.8],
+      ['F', 'All', 106, 109.13, 295.63],
+    ]);
+    expect(escalation).toMatchObject({ basis: 'tender', measuredCost: 187500, allowance: 7065.69, percentage: 0.0377 });
+    expect(escalated.summary.escalationAllowanceKES).toBe(7065.69);
+    expect(escalated.summary.totalEstimatedCostKES).toBe(187500);
+    expect(escalated.billOfQuantities).toEqual(result.billOfQuantities);
+    expect(describeEscalation(escalation)).toBe(
+      'Escalated from 2026-10 to tender date 2027-04: 3.8% on price indices, projected at each index\'s trailing annual rate past the latest index'
+    );
+  });
+
+  it('should escalate to the midpoint of construction at a stated rate', () => {
+    const escalated = projectEscalation(buildResult(), indices, {
+      baseDate: new Date('2026-10-05'),
+      constructionStart: new Date('2027-01-01'),
+      constructionMonths: 18,
+      annualRate: 0.1,
+    }, new Date('2026-10-19'));
+    const escalation = escalated.metadata.escalation!;
+
+    expect(escalation).toMatchObject({ basis: 'midpoint', constructionMonths: 18, statedAnnualRate: 0.1 });
+    expect(escalation.targetDate.toISOString().slice(0, 7)).toBe('2027-10');
+    expect(escalation.trades[1]).toMatchObject({ trade: 'E', series: 'E', allowance: 15750, annualRate: 0.1 });
+  });
+
+  it('should refuse a trade no index covers, or a target before the base date', () => {
+    expect(() => projectEscalation(buildResult(), concrete, { baseDate: new Date('2026-10-05'), tenderDate: new Date('2027-04-15') }))
+      .toThrow('No price index covers 2026-10 to 2027-04 for trade All');
+    expect(() => projectEscalation(buildResult(), indices, { baseDate: new Date('2026-10-05'), tenderDate: new Date('2026-06-01') }))
+      .toThrow("The tender date is before the BQ's base date");
+  });
+
+  it('should carry the allowance through a currency conversion', () => {
+    const escalated = projectEscalation(buildResult(), indices, { baseDate: new Date('2026-10-05'), tenderDate: new Date('2027-04-15') });
+    const converted = convertAnalysis(escalated, {
+      from: 'KES', to: 'UGX', rate: 28.45, effectiveDate: new Date('2026-09-01'), source: 'CBK', inverted: false, convertedAt: new Date()
+    });
+
+    expect(converted.metadata.escalation!.trades.map(trade => trade.allowance)).toEqual([16821, 175787, 8411]);
+    expect(converted.summary.escalationAllowanceKES).toBe(16821 + 175787 + 8411);
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  buildEstimateSummary,
+  parseSummaryConfig,
+  withEstimateSummary,
+  withRateOverrides,
+  DEFAULT_SUMMARY_CONFIG
+} from '../services/estimateSummary';
+import { convertAnalysis, buildConversion } from '../services/currency';
+import { AnalysisResult, EstimateSummaryConfig } from '../types';
+
+const buildResult = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  summary: { totalEstimatedCostKES: 1000000, totalWastageCostKES: 0, confidenceScore: 0.8 },
+  billOfQuantities: [
+    { itemNumber: '1', description: 'Reinforced concrete frame', unit: 'm3', quantity: 40, unitRateKES: 20000, wastageFactor: 0, totalCostKES: 800000 },
+    { itemNumber: '2', description: 'Water storage tanks (zero-rated)', unit: 'No', quantity: 4, unitRateKES: 50000, wastageFactor: 0, totalCostKES: 200000, vatExempt: true },
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Nakuru Clinic',
+  metadata: { analysisDate: new Date('2026-10-01'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.8, currency: 'KES' },
+  ...overrides,
+});
+
+const config: EstimateSummaryConfig = {
+  lines: [
+    { key: 'preliminaries', label: 'Preliminaries', kind: 'percentage', rate: 0.1, basis: 'measured' },
+    { key: 'provisional-sums', label: 'Provisional sums', kind: 'lumpSum', amount: 50000 },
+    { key: 'contingency', label: 'Contingency', kind: 'percentage', rate: 0.05, basis: 'running' },
+    { key: 'fees', label: 'Professional fees', kind: 'percentage', rate: 0.08, basis: 'running', vatExempt: true },
+  ],
+  vatRate: 0.16,
+};
+
+describe('Estimate Summary', () => {
+  it('should apply additions in order on the measured works or the running total', () => {
+    const summary = buildEstimateSummary(buildResult(), config, new Date('2026-10-19'));
+
+    expect(summary.measuredWorks).toBe(1000000);
+    expect(summary.lines.map(line => [line.key, line.amount, line.runningTotal])).toEqual([
+      ['preliminaries', 100000, 1100000],
+      ['provisional-sums', 50000, 1150000],
+      ['contingency', 57500, 1207500],
+      ['fees', 96600, 1304100],
+    ]);
+    expect(summary.subtotal).toBe(1304100);
+  });
+
+  it('should leave VAT-exempt items and additions out of the VAT', () => {
+    const summary = buildEstimateSummary(buildResult(), config);
+
+    expect(summary.vatExemptMeasuredWorks).toBe(200000);
+    expect(summary.vatableAmount).toBe(1304100 - 200000 - 96600);
+    expect(summary.vat).toBe(161200);
+    expect(summary.grandTotal).toBe(1304100 + 161200);
+  });
+
+  it('should carry the escalation allowance as the first addition', () => {
+    const analysis = buildResult({
+      metadata: {
+        ...buildResult().metadata,
+        escalation: {
+          basis: 'tender',
+          baseDate: new Date('2026-10-01'),
+          targetDate: new Date('2027-04-15'),
+          tenderDate: new Date('2027-04-15'),
+          trades: [],
+          measuredCost: 1000000,
+          allowance: 40000,
+          percentage: 0.04,
+          projectedAt: new Date('2026-10-19'),
+        },
+      },
+    });
+
+    const summary = buildEstimateSummary(analysis, config);
+    expect(summary.lines[0]).toMatchObject({ key: 'escalation', label: 'Escalation allowance to tender (2027-04)', amount: 40000 });
+    expect(summary.lines.find(line => line.key === 'preliminaries')?.amount).toBe(100000);
+    expect(summary.lines.find(line => line.key === 'contingency')?.amount).toBe(59500);
+  });
+
+  it('should use the default settings when the BQ has none', () => {
+    const analysis = withEstimateSummary(buildResult());
+
+    expect(analysis.summaryConfig).toBeUndefined();
+    expect(analysis.estimateSummary?.lines.map(line => line.label)).toEqual(['Preliminaries', 'Contingency']);
+    expect(analysis.estimateSummary?.vatRate).toBe(DEFAULT_SUMMARY_CONFIG.vatRate);
+
+    const overridden = withRateOverrides(config, { contingencyRate: 0.1, vatRate: 0 });
+    expect(overridden.lines.find(line => line.key === 'contingency')?.rate).toBe(0.1);
+    expect(buildEstimateSummary(buildResult(), overridden).vat).toBe(0);
+  });
+
+  it('should check a summary configuration sent by a client', () => {
+    expect(parseSummaryConfig({
+      lines: [{ label: ' Site Supervision ', kind: 'lumpSum', amount: '120000' }],
+    })).toEqual({ lines: [{ key: 'site-supervision', label: 'Site Supervision', kind: 'lumpSum', amount: 120000 }], vatRate: 0.16 });
+
+    expect(() => parseSummaryConfig({ lines: [{ label: 'Fees', kind: 'percentage', rate: 8 }] })).toThrow('Summary line 1 (Fees) needs a rate between 0 and 1');
+    expect(() => parseSummaryConfig({ lines: [{ label: 'Escalation', kind: 'lumpSum', amount: 1 }] })).toThrow('needs another key');
+    expect(() => parseSummaryConfig({
+      lines: [{ label: 'Fees', kind: 'lumpSum', amount: 1 }, { label: 'fees', kind: 'lumpSum', amount: 2 }],
+    })).toThrow('repeats the key fees');
+    expect(() => parseSummaryConfig({ lines: [], vatRate: 16 })).toThrow('VAT rate must be between 0 and 1');
+  });
+
+  it('should convert lump sums with the rest of the BQ', () => {
+    const analysis = withEstimateSummary(buildResult(), config);
+    const conversion = buildConversion('KES', 'USD', {
+      rate: {
+        baseCurrency: 'KES', quoteCurrency: 'USD', rate: 0.0077, effectiveDate: new Date('2026-09-01'), source: 'CBK',
+        createdBy: 'admin', createdAt: new Date(), updatedAt: new Date(), isActive: true,
+      },
+      inverted: false,
+    });
+
+    const converted = withEstimateSummary(convertAnalysis(analysis, conversion));
+    expect(converted.summaryConfig?.lines.find(line => line.key === 'provisional-sums')?.amount).toBe(385);
+    expect(converted.estimateSummary?.currency).toBe('USD');
+    expect(converted.estimateSummary?.measuredWorks).toBe(7700);
+  });
+});
@@ -0,0 +1,79 @@
+import { BQ_RESPONSE_SCHEMA, validateBQResponse } from '../services/bqSchema';
+import {
+  FIXTURE_EMBEDDING_DIMENSIONS,
+  fixtureEmbedding,
+  getLLMProvider,
+  LLMMessage,
+  modelFor,
+  parseModelChoice,
+  toGeminiContents,
+  toJsonSchema,
+  toOpenAIMessages
+} from '../services/llmProviders';
+
+const messages: LLMMessage[] = [
+  { role: 'user', parts: [{ inlineData: { data: 'aGVsbG8=', mimeType: 'image/png' } }, { text: 'Measure this plan' }] },
+  { role: 'assistant', parts: [{ text: '{"summary": {' }] },
+  { role: 'user', parts: [{ text: 'Return valid JSON' }] }
+];
+
+describe('LLM Providers', () => {
+  it('should read a provider prefix from a model setting', () => {
+    expect(parseModelChoice('gemini-2.5-flash', 'gemini', 'chat')).toEqual({ provider: 'gemini', model: 'gemini-2.5-flash' });
+    expect(parseModelChoice('openai:llama3.1:8b', 'gemini', 'chat')).toEqual({ provider: 'openai', model: 'llama3.1:8b' });
+    expect(parseModelChoice('qwen2.5vl:7b', 'openai', 'floorPlan')).toEqual({ provider: 'openai', model: 'qwen2.5vl:7b' });
+    expect(parseModelChoice('fixture', 'gemini', 'embedding')).toEqual({ provider: 'fixture', model: 'fixture' });
+  });
+
+  it('should choose the model per use case', () => {
+    expect(modelFor('floorPlan', {})).toEqual({ provider: 'gemini', model: 'gemini-1.5-flash' });
+    expect(modelFor('embedding', {})).toEqual({ provider: 'openai', model: 'text-embedding-ada-002' });
+
+    const env = { LLM_PROVIDER: 'openai', LLM_MODEL_FLOOR_PLAN: 'gemini:gemini-2.5-pro', LLM_MODEL_CHAT: 'llama3.1' };
+    expect(modelFor('floorPlan', env)).toEqual({ provider: 'gemini', model: 'gemini-2.5-pro' });
+    expect(modelFor('chat', env)).toEqual({ provider: 'openai', model: 'llama3.1' });
+    expect(modelFor('bqClassification', env)).toEqual({ provider: 'openai', model: 'gpt-4o-mini' });
+    expect(modelFor('embedding', env)).toEqual({ provider: 'openai', model: 'text-embedding-3-small' });
+  });
+
+  it('should map messages to Gemini and OpenAI-compatible requests', () => {
+    expect(toGeminiContents(messages).map(content => content.role)).toEqual(['user', 'model', 'user']);
+
+    const openAI = toOpenAIMessages(messages);
+    expect(openAI[0].content).toEqual([
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } },
+      { type: 'text', text: 'Measure this plan' }
+    ]);
+    expect(openAI[1]).toEqual({ role: 'assistant', content: '{"summary": {' });
+  });
+
+  it('should convert a response schema to JSON Schema', () => {
+    const schema = toJsonSchema(BQ_RESPONSE_SCHEMA);
+
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(['summary', 'billOfQuantities']);
+    expect(schema.properties.billOfQuantities).toMatchObject({ type: 'array', minItems: 1 });
+    expect(schema.properties.summary.properties.confidenceScore).toMatchObject({ type: 'number', minimum: 0, maximum: 1 });
+  });
+
+  it('should answer the same request the same way with a valid BQ', async () => {
+    const fixture = getLLMProvider('fixture');
+    const request = { model: 'fixture', messages, responseSchema: BQ_RESPONSE_SCHEMA };
+
+    const first = await fixture.generate(request);
+    expect(await fixture.generate(request)).toBe(first);
+    expect(validateBQResponse(JSON.parse(first))).toEqual([]);
+    expect(await fixture.generate({ ...request, messages: messages.slice(0, 1) })).not.toBe(first);
+  });
+
+  it('should embed identical texts identically as unit vectors', async () => {
+    const [first, second, other] = await getLLMProvider('fixture').embed({ model: 'fixture', texts: ['stone walling', 'stone walling', 'roof tiles'] });
+    const length = Math.sqrt(first.reduce((sum, value) => sum + value * value, 0));
+
+    expect(first).toHaveLength(FIXTURE_EMBEDDING_DIMENSIONS);
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+    expect(length).toBeCloseTo(1);
+    expect(fixtureEmbedding('stone walling')).toEqual(first);
+  });
+});
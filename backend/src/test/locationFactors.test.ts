@@ -0,0 +1,103 @@
+import {
+  applyLocationFactors,
+  compareLocations,
+  findLocationFactor,
+  locationCandidates,
+  pricingFactor,
+  toFactorRef
+} from '../services/locationFactors';
+import { AnalysisResult, LocationFactor } from '../types';
+
+const locationFactor = (overrides: Partial<LocationFactor>): LocationFactor => ({
+  location: 'Nairobi',
+  county: 'Nairobi',
+  labourFactor: 1,
+  materialFactor: 1,
+  effectiveDate: new Date('2026-07-01'),
+  source: 'Quarterly regional price survey',
+  createdBy: 'admin',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: true,
+  ...overrides,
+});
+
+const nairobi = locationFactor({});
+const eldoret = locationFactor({ location: 'Eldoret', county: 'Uasin Gishu', labourFactor: 0.8, materialFactor: 1.1 });
+const mombasa = locationFactor({ location: 'Mombasa', county: 'Mombasa', labourFactor: 1.1, materialFactor: 1.05 });
+
+const buildResult = (): AnalysisResult => ({
+  summary: { totalEstimatedCostKES: 177500, totalWastageCostKES: 7500, confidenceScore: 0.8 },
+  billOfQuantities: [
+    {
+      itemNumber: '1', description: 'Concrete (1:2:4) in foundation', unit: 'm3', quantity: 10, unitRateKES: 15000, wastageFactor: 0.05, totalCostKES: 157500,
+      classification: { workSectionCode: 'E10', workSectionName: 'In situ concrete', elementCode: '1.1', elementName: 'Substructure', source: 'rule', confidence: 0.9 }
+    },
+    { itemNumber: '2', description: 'Sundries', unit: 'item', quantity: 20, unitRateKES: 1000, wastageFactor: 0, totalCostKES: 20000 },
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Eldoret Bungalow',
+  metadata: { analysisDate: new Date('2026-10-01'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.8, region: 'Nairobi', currency: 'KES' },
+});
+
+describe('Location Factors', () => {
+  it('should look a project up by its town, then its county', () => {
+    const project = { address: 'Plot 12', city: 'Kapsabet', state: 'Nandi County', zipCode: '', country: 'Kenya' };
+    const nandi = locationFactor({ location: 'Nandi', county: 'Nandi', labourFactor: 0.75 });
+
+    expect(locationCandidates(project)).toEqual(['Kapsabet', 'Nandi County']);
+    expect(findLocationFactor([eldoret, nandi], locationCandidates(project))?.location).toBe('Nandi');
+    expect(findLocationFactor([eldoret, nandi], ['eldoret'])?.location).toBe('Eldoret');
+    expect(findLocationFactor([eldoret, nandi], ['Kisumu'])).toBeNull();
+  });
+
+  it('should use the latest factor effective on the date', () => {
+    const factors = [
+      eldoret,
+      locationFactor({ location: 'Eldoret', labourFactor: 0.82, effectiveDate: new Date('2026-10-01') }),
+      locationFactor({ location: 'Eldoret', labourFactor: 0.9, effectiveDate: new Date('2026-10-10'), isActive: false }),
+    ];
+
+    expect(findLocationFactor(factors, ['Eldoret'], new Date('2026-09-01'))?.labourFactor).toBe(0.8);
+    expect(findLocationFactor(factors, ['Eldoret'], new Date('2026-10-15'))?.labourFactor).toBe(0.82);
+    expect(findLocationFactor(factors, ['Eldoret'], new Date('2026-06-01'))).toBeNull();
+  });
+
+  it('should scale labour and materials separately by work section', () => {
+    const result = buildResult();
+    const { analysis, adjustment } = applyLocationFactors(result, toFactorRef(nairobi), toFactorRef(eldoret), new Date('2026-10-19'));
+
+    // Concrete is 30% labour: 0.3 × 0.8 + 0.7 × 1.1; sundries use the default 35%
+    expect(analysis.billOfQuantities.map(item => [item.unitRateKES, item.totalCostKES])).toEqual([
+      [15150, 159075],
+      [995, 19900],
+    ]);
+    expect(analysis.summary.totalEstimatedCostKES).toBe(178975);
+    expect(analysis.summary.totalWastageCostKES).toBe(7575);
+    expect(adjustment).toMatchObject({ baseTotal: 177500, adjustedTotal: 178975 });
+    expect(analysis.metadata.region).toBe('Eldoret');
+    expect(result.billOfQuantities[0].unitRateKES).toBe(15000);
+  });
+
+  it('should cost the BQ in every other location, cheapest first', () => {
+    const result = buildResult();
+    const comparisons = compareLocations(result, toFactorRef(nairobi), [mombasa, nairobi, eldoret].map(toFactorRef));
+
+    expect(comparisons).toEqual([
+      { region: 'Eldoret', county: 'Uasin Gishu', totalCost: 178975, percentageDifference: 0.0083 },
+      { region: 'Mombasa', county: 'Mombasa', totalCost: 189087.5, percentageDifference: 0.0653 },
+    ]);
+  });
+
+  it('should price a BQ from the location it was last adjusted to', () => {
+    const result = buildResult();
+    const adjusted = applyLocationFactors(result, toFactorRef(nairobi), toFactorRef(eldoret)).analysis;
+
+    expect(pricingFactor(result, [eldoret]).labourFactor).toBe(1);
+    expect(pricingFactor(result, [nairobi, eldoret]).location).toBe('Nairobi');
+    expect(pricingFactor(adjusted, []).location).toBe('Eldoret');
+    expect(pricingFactor({ ...result, metadata: { ...result.metadata, region: 'Kisumu' } }, [eldoret])).toMatchObject({
+      location: 'Kisumu', labourFactor: 1, materialFactor: 1
+    });
+  });
+});
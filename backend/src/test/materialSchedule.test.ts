@@ -0,0 +1,152 @@
+import ExcelJS from 'exceljs';
+import {
+  buildMaterialSchedule,
+  findMaterialNorm,
+  mergeMaterialNorms,
+  normalizeUnit,
+  parseMaterialNorm,
+  BALLAST,
+  BINDING_WIRE,
+  CEMENT,
+  DEFAULT_MATERIAL_NORMS,
+  SAND
+} from '../services/materialSchedule';
+import { buildMaterialScheduleWorkbook } from '../services/materialScheduleExport';
+import { AnalysisResult, BQItem, MaterialNorm } from '../types';
+
+const item = (overrides: Partial<BQItem>): BQItem => ({
+  itemNumber: '1',
+  description: 'Item',
+  unit: 'm3',
+  quantity: 1,
+  unitRateKES: 0,
+  wastageFactor: 0,
+  totalCostKES: 0,
+  ...overrides,
+});
+
+const buildResult = (billOfQuantities: BQItem[]): AnalysisResult => ({
+  summary: { totalEstimatedCostKES: 0, totalWastageCostKES: 0, confidenceScore: 0.8 },
+  billOfQuantities,
+  intelligentSuggestions: [],
+  projectName: 'Runda Residence',
+  metadata: { analysisDate: new Date('2026-10-01'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.8 },
+});
+
+const lineFor = (schedule: ReturnType<typeof buildMaterialSchedule>, material: string) =>
+  schedule.lines.find(line => line.material === material);
+
+describe('Material Schedule', () => {
+  it('should turn concrete into bags of cement and tonnes of sand and ballast, with wastage', () => {
+    const bq = buildResult([item({ description: 'Foundation concrete (1 : 2 : 4)', quantity: 12.8, wastageFactor: 0.05 })]);
+    const schedule = buildMaterialSchedule([{ analysisId: 'a1', analysis: bq }], DEFAULT_MATERIAL_NORMS);
+
+    expect(lineFor(schedule, CEMENT)).toMatchObject({ unit: 'bag', netQuantity: 81.101, wastage: 4.055, quantity: 85.156, orderQuantity: 86 });
+    expect(lineFor(schedule, SAND)).toMatchObject({ unit: 't', netQuantity: 9.011, quantity: 9.462, orderQuantity: 9.47 });
+    expect(lineFor(schedule, BALLAST)).toMatchObject({ unit: 't', netQuantity: 16.896 });
+    expect(lineFor(schedule, CEMENT)!.sources).toEqual([
+      { analysisId: 'a1', itemNumber: '1', description: 'Foundation concrete (1 : 2 : 4)', normKey: 'concrete-1-2-4', quantity: 81.101 },
+    ]);
+  });
+
+  it('should pick the most specific norm for an item', () => {
+    const norm = (description: string, unit: string) => findMaterialNorm(DEFAULT_MATERIAL_NORMS, item({ description, unit }))?.key;
+
+    expect(norm('Blinding concrete 50mm thick', 'm3')).toBe('concrete-1-3-6');
+    expect(norm('Mass concrete in strip footings', 'm3')).toBe('concrete');
+    expect(norm('Blockwork (6 inch)', 'm²')).toBe('blockwork-150');
+    expect(norm('Machine-cut stone walling', 'sq.m')).toBe('blockwork-200');
+    expect(norm('Gloss paint to joinery', 'm2')).toBe('paint-gloss');
+    expect(norm('Excavation for foundations', 'm3')).toBeUndefined();
+    expect(normalizeUnit('Tonnes')).toEqual({ unit: 'kg', scale: 1000 });
+  });
+
+  it('should consolidate materials across items and BQs', () => {
+    const first = buildResult([
+      item({ itemNumber: '1.2', description: 'Reinforced concrete class 25 in columns', quantity: 4 }),
+      item({ itemNumber: '1.3', description: 'Y12 reinforcement bars', unit: 't', quantity: 1.2 }),
+    ]);
+    const second = buildResult([
+      item({ itemNumber: '2.1', description: '200mm blockwork in walls', unit: 'm2', quantity: 100 }),
+      item({ itemNumber: '2.2', description: 'Excavation for foundations', quantity: 45.5 }),
+    ]);
+
+    const schedule = buildMaterialSchedule([{ analysisId: 'a1', analysis: first }, { analysisId: 'a2', analysis: second }], DEFAULT_MATERIAL_NORMS);
+
+    expect(schedule.analysisIds).toEqual(['a1', 'a2']);
+    expect(lineFor(schedule, CEMENT)!.sources.map(source => source.itemNumber)).toEqual(['1.2', '2.1']);
+    expect(lineFor(schedule, 'Reinforcement steel bars')).toMatchObject({ unit: 'kg', quantity: 1320 });
+    expect(lineFor(schedule, BINDING_WIRE)).toMatchObject({ quantity: 12 });
+    expect(lineFor(schedule, '200mm blocks (400 × 200 face)')).toMatchObject({ unit: 'No', quantity: 1160, orderQuantity: 1160 });
+    expect(schedule.unscheduledItems).toEqual([{ analysisId: 'a2', itemNumber: '2.2', description: 'Excavation for foundations', unit: 'm3' }]);
+  });
+
+  it('should let admin entries replace and add to the built-in norms', () => {
+    const entry = (overrides: Partial<MaterialNorm>): MaterialNorm => ({
+      ...DEFAULT_MATERIAL_NORMS.find(norm => norm.key === 'paint-emulsion')!,
+      source: 'Manufacturer data sheet',
+      isActive: true,
+      ...overrides,
+    });
+
+    const norms = mergeMaterialNorms(DEFAULT_MATERIAL_NORMS, [
+      entry({ coverage: { material: 'Emulsion paint', unit: 'litre', coveragePerUnit: 12, coats: 2 } }),
+      entry({ key: 'paint-bitumen', keywords: [['paint'], ['bitumen']], coverage: { material: 'Bitumen paint', unit: 'litre', coveragePerUnit: 4, coats: 2 } }),
+      entry({ key: 'tiling', isActive: false }),
+    ]);
+
+    expect(norms).toHaveLength(DEFAULT_MATERIAL_NORMS.length + 1);
+    const schedule = buildMaterialSchedule([{
+      analysis: buildResult([
+        item({ description: 'Emulsion paint to walls', unit: 'm2', quantity: 120 }),
+        item({ itemNumber: '2', description: 'Bitumen paint to tanks', unit: 'm2', quantity: 20 }),
+      ])
+    }], norms);
+
+    expect(lineFor(schedule, 'Emulsion paint')).toMatchObject({ unit: 'litre', quantity: 20 });
+    expect(lineFor(schedule, 'Bitumen paint')).toMatchObject({ quantity: 10 });
+    expect(norms.find(norm => norm.key === 'tiling')?.source).toBe('Built-in norm');
+  });
+
+  it('should check a norm sent by an admin', () => {
+    expect(parseMaterialNorm({
+      key: 'screed-1-4',
+      name: 'Screed (1:4), 50mm',
+      kind: 'mix',
+      keywords: ['screed', ['1:4', '1 : 4']],
+      units: ['Sq.m'],
+      mix: { ratio: [1, 4], thicknessM: 0.05 },
+    })).toEqual({
+      key: 'screed-1-4',
+      name: 'Screed (1:4), 50mm',
+      kind: 'mix',
+      keywords: [['screed'], ['1:4']],
+      units: ['m2'],
+      mix: { ratio: [1, 4], dryVolumeFactor: 1.27, thicknessM: 0.05 },
+    });
+
+    expect(() => parseMaterialNorm({ key: 'Bad Key', name: 'x' })).toThrow('Key must be');
+    expect(() => parseMaterialNorm({ key: 'mix', name: 'Mix', kind: 'mix', keywords: ['x'], units: ['m3'], mix: { ratio: [1] } })).toThrow('needs a ratio');
+    expect(() => parseMaterialNorm({ key: 'steel', name: 'Steel', kind: 'reinforcement', keywords: ['y'], units: ['kg'], reinforcement: { lapAllowance: 2 } })).toThrow('lap allowance');
+    expect(() => parseMaterialNorm({ key: 'x', name: 'X', kind: 'formwork', keywords: ['x'], units: ['m2'] })).toThrow('Kind must be');
+  });
+
+  it('should export the schedule with its derivation and the items not scheduled', async () => {
+    const schedule = buildMaterialSchedule([{
+      analysis: buildResult([
+        item({ description: 'Concrete (1:2:4) in slab', quantity: 10, wastageFactor: 0.05 }),
+        item({ itemNumber: '2', description: 'Hardcore filling', quantity: 5 }),
+      ])
+    }], DEFAULT_MATERIAL_NORMS, new Date('2026-10-19'));
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await buildMaterialScheduleWorkbook(schedule, 'Runda Residence') as any);
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Material Schedule', 'Derivation', 'Not Scheduled']);
+    const sheet = workbook.getWorksheet('Material Schedule')!;
+    expect(sheet.getCell('B5').value).toBe(CEMENT);
+    expect(sheet.getCell('F5').value).toMatchObject({ formula: 'D5+E5' });
+    expect(sheet.getCell('G5').value).toBe(67);
+    expect(workbook.getWorksheet('Not Scheduled')!.getCell('B5').value).toBe('Hardcore filling');
+  });
+});
@@ -0,0 +1,44 @@
+import { renderAnalysisPdf, renderMarkdownPdf } from '../services/pdfExport';
+import { AnalysisResult } from '../types';
+
+// A 1x1 transparent PNG
+const LOGO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const countPages = (pdf: Buffer): number => (pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length;
+
+describe('PDF Export', () => {
+  it('should render a multi-page BQ with a cover page', async () => {
+    const analysis: AnalysisResult = {
+      summary: { totalEstimatedCostKES: 0, totalWastageCostKES: 0, confidenceScore: 0.9 },
+      billOfQuantities: Array.from({ length: 120 }, (_, index) => ({
+        itemNumber: `${index + 1}`,
+        description: `Item ${index + 1} with a reasonably long description that wraps onto a second line in the table`,
+        unit: 'm2',
+        quantity: 10,
+        unitRateKES: 1000,
+        wastageFactor: 0.05,
+        totalCostKES: 10500,
+        category: index < 60 ? 'Walling' : 'Finishes',
+      })),
+      intelligentSuggestions: [],
+      projectName: 'Test Bungalow',
+      metadata: { analysisDate: new Date(), fileType: 'application/pdf', fileName: 'plan.pdf', confidence: 0.9 },
+    };
+
+    const pdf = await renderAnalysisPdf(analysis, { name: 'PW Surveyors', logo: LOGO, email: 'info@pw.co.ke' });
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(countPages(pdf)).toBeGreaterThan(3);
+  });
+
+  it('should render markdown documents including tables', async () => {
+    const pdf = await renderMarkdownPdf({
+      title: 'Preliminary Estimate',
+      subtitle: 'Test Project',
+      content: '# Estimate\n\nSome **bold** text.\n\n- First point\n- Second point\n\n| Item | Amount |\n|---|---|\n| Substructure | 420,000 |\n',
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(countPages(pdf)).toBe(2);
+  });
+});
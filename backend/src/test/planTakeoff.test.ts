@@ -0,0 +1,101 @@
+import {
+  applyTakeoffQuantities,
+  attachMeasurements,
+  buildTakeoff,
+  measure,
+  saveTakeoff,
+  scaleFromPoints
+} from '../services/planTakeoff';
+import { AnalysisResult } from '../types';
+
+const analysis = {
+  summary: { totalEstimatedCostKES: 84000, totalWastageCostKES: 0, confidenceScore: 0.9 },
+  billOfQuantities: [
+    { itemNumber: '1', description: 'Stone walling', unit: 'm2', quantity: 35, unitRateKES: 2400, wastageFactor: 0, totalCostKES: 84000 },
+    { itemNumber: '2', description: 'Ceramic tile skirting', unit: 'Lm', quantity: 20, unitRateKES: 450, wastageFactor: 0, totalCostKES: 9000 }
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Kilimani Villa',
+  metadata: { analysisDate: new Date('2026-01-10'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.9 }
+} as AnalysisResult;
+
+// 100 px on the drawing is 5 m
+const takeoffInput = {
+  fileName: 'plan.png',
+  imageWidth: 2000,
+  imageHeight: 1400,
+  scale: { points: [{ x: 0, y: 0 }, { x: 100, y: 0 }], lengthM: 5 },
+  measurements: [
+    { id: 'wall', kind: 'linear' as const, label: 'External wall', points: [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 100 }] },
+    { id: 'room', kind: 'area' as const, label: '', points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 80 }, { x: 0, y: 80 }] },
+    { id: 'sockets', kind: 'count' as const, label: 'Sockets', points: [{ x: 10, y: 10 }, { x: 50, y: 10 }, { x: 90, y: 10 }] }
+  ]
+};
+
+describe('Plan Takeoff', () => {
+  it('should calibrate the scale from two points', () => {
+    expect(scaleFromPoints([{ x: 10, y: 10 }, { x: 40, y: 50 }], 2.5).metresPerPixel).toBe(0.05);
+    expect(() => scaleFromPoints([{ x: 10, y: 10 }, { x: 10, y: 10 }], 2.5)).toThrow('must be apart');
+    expect(() => scaleFromPoints([{ x: 10, y: 10 }], 2.5)).toThrow('exactly two points');
+  });
+
+  it('should measure runs, areas and counts', () => {
+    expect(measure('linear', [{ x: 0, y: 0 }, { x: 30, y: 40 }, { x: 30, y: 0 }], 0.1)).toBe(9);
+    expect(measure('area', [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 0, y: 100 }], 0.1)).toBe(50);
+    expect(measure('count', [{ x: 0, y: 0 }, { x: 1, y: 1 }])).toBe(2);
+    expect(() => measure('area', [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }])).toThrow('Set the drawing scale');
+  });
+
+  it('should recompute measurement values and default their labels', () => {
+    const takeoff = buildTakeoff(takeoffInput);
+
+    expect(takeoff.scale?.metresPerPixel).toBe(0.05);
+    expect(takeoff.measurements.map(({ id, label, value, unit }) => ({ id, label, value, unit }))).toEqual([
+      { id: 'wall', label: 'External wall', value: 15, unit: 'm' },
+      { id: 'room', label: 'Area 2', value: 20, unit: 'm2' },
+      { id: 'sockets', label: 'Sockets', value: 3, unit: 'nr' }
+    ]);
+    expect(() => buildTakeoff({ ...takeoffInput, measurements: [takeoffInput.measurements[0], takeoffInput.measurements[0]] }))
+      .toThrow('used more than once');
+  });
+
+  it('should attach measurements to an item with a matching unit', () => {
+    const measured = saveTakeoff(analysis, buildTakeoff(takeoffInput));
+    const { analysis: attached, itemIndex } = attachMeasurements(measured, { itemIndex: 1, measurementIds: ['wall'] });
+
+    expect(itemIndex).toBe(1);
+    expect(attached.billOfQuantities[1]).toMatchObject({
+      quantity: 15,
+      totalCostKES: 6750,
+      quantitySource: { type: 'takeoff', measurementIds: ['wall'] }
+    });
+    expect(attached.summary.totalEstimatedCostKES).toBe(90750);
+    expect(() => attachMeasurements(measured, { itemIndex: 0, measurementIds: ['wall'] })).toThrow('measured in m2');
+  });
+
+  it('should add a measured item and detach it again', () => {
+    const measured = saveTakeoff(analysis, buildTakeoff(takeoffInput));
+    const added = attachMeasurements(measured, { measurementIds: ['sockets'], description: '13A switched socket outlet', unitRateKES: 1500 });
+
+    expect(added.itemIndex).toBe(2);
+    expect(added.analysis.billOfQuantities[2]).toMatchObject({ itemNumber: '3', unit: 'nr', quantity: 3, totalCostKES: 4500 });
+
+    const detached = attachMeasurements(added.analysis, { itemIndex: 2, measurementIds: [] });
+    expect(detached.analysis.billOfQuantities[2]).not.toHaveProperty('quantitySource');
+    expect(detached.analysis.billOfQuantities[2].quantity).toBe(3);
+  });
+
+  it('should re-measure attached items when the drawing is re-measured', () => {
+    const measured = attachMeasurements(saveTakeoff(analysis, buildTakeoff(takeoffInput)), { itemIndex: 0, measurementIds: ['room'] }).analysis;
+    const recalibrated = saveTakeoff(measured, buildTakeoff({ ...takeoffInput, scale: { ...takeoffInput.scale, lengthM: 10 } }));
+
+    expect(recalibrated.billOfQuantities[0].quantity).toBe(80);
+    expect(recalibrated.takeoffs).toHaveLength(1);
+
+    // Deleting the measurement keeps the last quantity but drops the link
+    const removed = saveTakeoff(recalibrated, buildTakeoff({ ...takeoffInput, measurements: [] }));
+    expect(removed.billOfQuantities[0]).toMatchObject({ quantity: 80 });
+    expect(removed.billOfQuantities[0]).not.toHaveProperty('quantitySource');
+    expect(applyTakeoffQuantities(analysis)).toBe(analysis);
+  });
+});
@@ -0,0 +1,118 @@
+import { applyRateLibrary, descriptionSimilarity, findBestRateMatch, normalizeUnit, supersedeRate } from '../services/rateLibrary';
+import { AnalysisResult, RateLibraryEntry } from '../types';
+
+const libraryEntry = (overrides: Partial<RateLibraryEntry>): RateLibraryEntry => ({
+  itemCode: 'SUB-CONC-124',
+  description: 'Foundation concrete (1:2:4)',
+  unit: 'm3',
+  region: 'Nairobi',
+  rateKES: 15000,
+  effectiveDate: new Date('2025-07-01'),
+  source: 'Contractor quotation',
+  createdBy: 'test-user',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: true,
+  ...overrides,
+});
+
+const buildResult = (): AnalysisResult => ({
+  summary: { totalEstimatedCostKES: 136500, totalWastageCostKES: 6500, confidenceScore: 0.9 },
+  billOfQuantities: [
+    {
+      itemNumber: '1',
+      description: 'Concrete (1:2:4) in foundation',
+      unit: 'm³',
+      quantity: 10,
+      unitRateKES: 12000,
+      wastageFactor: 0.05,
+      totalCostKES: 126000,
+    },
+    {
+      itemNumber: '2',
+      description: 'Supply and fix roof trusses',
+      unit: 'Item',
+      quantity: 1,
+      unitRateKES: 10000,
+      wastageFactor: 0.05,
+      totalCostKES: 10500,
+    },
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Test Bungalow',
+  metadata: { analysisDate: new Date(), fileType: 'application/pdf', fileName: 'plan.pdf', confidence: 0.9 },
+});
+
+describe('Rate Library', () => {
+  const entries = [
+    libraryEntry({}),
+    libraryEntry({ itemCode: 'WAL-BLK-200', description: '200mm machine cut stone walling', unit: 'm2', rateKES: 2400 }),
+  ];
+
+  it('should normalise unit aliases', () => {
+    expect(normalizeUnit('m³')).toBe('m3');
+    expect(normalizeUnit('SqM')).toBe('m2');
+    expect(normalizeUnit('No.')).toBe('nr');
+  });
+
+  it('should score similar descriptions higher than unrelated ones', () => {
+    const similar = descriptionSimilarity('Concrete (1:2:4) in foundation', 'Foundation concrete (1:2:4)');
+    const unrelated = descriptionSimilarity('Concrete (1:2:4) in foundation', 'Supply and fix roof trusses');
+
+    expect(similar).toBeGreaterThan(0.6);
+    expect(unrelated).toBeLessThan(0.2);
+  });
+
+  it('should only match entries with the same unit', () => {
+    const item = { ...buildResult().billOfQuantities[0], unit: 'm2' };
+    expect(findBestRateMatch(item, entries)).toBeNull();
+  });
+
+  it('should not match an item by its number alone', () => {
+    const [concrete, trusses] = buildResult().billOfQuantities;
+    const numbered = [...entries, libraryEntry({ itemCode: '1', description: 'Excavate oversite to reduce levels', rateKES: 450 })];
+
+    expect(findBestRateMatch({ ...trusses, itemNumber: '1', unit: 'm3' }, numbered)).toBeNull();
+    expect(findBestRateMatch(concrete, numbered)).toMatchObject({ entry: { itemCode: 'SUB-CONC-124' } });
+    expect(findBestRateMatch(concrete, [...numbered, libraryEntry({ itemCode: '1', rateKES: 16000 })])).toMatchObject({ entry: { rateKES: 16000 }, score: 1 });
+  });
+
+  it('should override AI rates and record provenance', () => {
+    const { analysis, summary } = applyRateLibrary(buildResult(), entries, { mode: 'override' });
+    const [concrete, trusses] = analysis.billOfQuantities;
+
+    expect(summary).toMatchObject({ mode: 'override', matched: 1, overridden: 1 });
+    expect(concrete.unitRateKES).toBe(15000);
+    expect(concrete.totalCostKES).toBe(157500);
+    expect(concrete.rateProvenance).toMatchObject({ source: 'library', aiRateKES: 12000, itemCode: 'SUB-CONC-124', region: 'Nairobi' });
+    expect(trusses.rateProvenance).toEqual({ source: 'ai', aiRateKES: 10000 });
+    expect(analysis.summary.totalEstimatedCostKES).toBe(168000);
+  });
+
+  it('should keep AI rates in check mode and flag deviations beyond tolerance', () => {
+    const { analysis, summary } = applyRateLibrary(buildResult(), entries, { mode: 'check', tolerance: 0.1 });
+    const [concrete] = analysis.billOfQuantities;
+
+    expect(summary).toMatchObject({ mode: 'check', matched: 1, overridden: 0, outOfTolerance: 1 });
+    expect(concrete.unitRateKES).toBe(12000);
+    expect(concrete.rateProvenance).toMatchObject({ source: 'ai', deviation: -0.2, withinTolerance: false });
+  });
+
+  it('should supersede a rate with a new dated entry for the same code and region', () => {
+    const current = libraryEntry({});
+    const now = new Date('2026-10-19');
+    const next = supersedeRate(current, { rateKES: '16500', source: 'Revised quotation', itemCode: 'OTHER', region: 'Mombasa' } as any, 'admin', now);
+
+    expect(next).toMatchObject({
+      itemCode: 'SUB-CONC-124',
+      region: 'Nairobi',
+      description: 'Foundation concrete (1:2:4)',
+      rateKES: 16500,
+      source: 'Revised quotation',
+      effectiveDate: now,
+      createdBy: 'admin',
+      isActive: true
+    });
+    expect(current.rateKES).toBe(15000);
+  });
+});
@@ -0,0 +1,165 @@
+import ExcelJS from 'exceljs';
+import {
+  buildResourceEstimate,
+  buildResourceRateTable,
+  estimateItemResources,
+  mergeProductivityNorms,
+  mergeResourceRates,
+  parseProductivityNorm,
+  DEFAULT_PRODUCTIVITY_NORMS,
+  DEFAULT_RESOURCE_RATES
+} from '../services/resourceEstimate';
+import { buildConversion } from '../services/currency';
+import { buildBqWorkbook } from '../services/bqExcelExport';
+import { AnalysisResult, BQItem, ProductivityNorm, RateSplit } from '../types';
+
+const item = (overrides: Partial<BQItem>): BQItem => ({
+  itemNumber: '1',
+  description: 'Item',
+  unit: 'm3',
+  quantity: 1,
+  unitRateKES: 0,
+  wastageFactor: 0,
+  totalCostKES: 0,
+  ...overrides,
+});
+
+const buildResult = (billOfQuantities: BQItem[], overrides: Partial<AnalysisResult['metadata']> = {}): AnalysisResult => ({
+  summary: { totalEstimatedCostKES: 0, totalWastageCostKES: 0, confidenceScore: 0.8 },
+  billOfQuantities,
+  intelligentSuggestions: [],
+  projectName: 'Kisumu Clinic',
+  metadata: { analysisDate: new Date('2026-10-01'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.8, currency: 'KES', ...overrides },
+});
+
+const concrete = item({ description: 'Concrete (1:2:4) in foundation', quantity: 10, unitRateKES: 15000, wastageFactor: 0.05, totalCostKES: 157500 });
+const nairobiRates = buildResourceRateTable(DEFAULT_RESOURCE_RATES, { currency: 'KES', labourFactor: 1 });
+
+describe('Resource Estimate', () => {
+  it('should cost the labour and plant of an item and split its rate', () => {
+    expect(estimateItemResources(concrete, DEFAULT_PRODUCTIVITY_NORMS, nairobiRates)).toEqual({
+      itemNumber: '1',
+      description: 'Concrete (1:2:4) in foundation',
+      normKey: 'concrete',
+      trade: 'Concrete',
+      manHours: 60,
+      labourCostKES: 6240,
+      plantCostKES: 3400,
+      materialCostKES: 147860,
+      rateSplit: { labourKES: 624, plantKES: 340, materialKES: 14036 },
+    });
+
+    const cheap = estimateItemResources({ ...concrete, unitRateKES: 500, totalCostKES: 5250 }, DEFAULT_PRODUCTIVITY_NORMS, nairobiRates);
+    expect(cheap).toMatchObject({ exceedsRate: true, materialCostKES: 0, rateSplit: { materialKES: 0 } });
+  });
+
+  it('should price labour for the BQ location and currency', () => {
+    const conversion = buildConversion('KES', 'USD', {
+      rate: {
+        baseCurrency: 'KES', quoteCurrency: 'USD', rate: 0.0077, effectiveDate: new Date('2026-09-01'), source: 'CBK',
+        createdBy: 'admin', createdAt: new Date(), updatedAt: new Date(), isActive: true,
+      },
+      inverted: false,
+    });
+    const rates = buildResourceRateTable(DEFAULT_RESOURCE_RATES, { currency: 'USD', labourFactor: 0.8, conversion });
+    const usdConcrete = { ...concrete, unitRateKES: 115.5, totalCostKES: 1212.75 };
+
+    const estimate = buildResourceEstimate(buildResult([usdConcrete], { currency: 'USD' }), DEFAULT_PRODUCTIVITY_NORMS, rates);
+    expect(estimate).toMatchObject({ currency: 'USD', labourFactor: 0.8 });
+    expect(estimate.items[0]).toMatchObject({
+      labourCostKES: 38.44,
+      plantCostKES: 26.18,
+      materialCostKES: 1148.13,
+      rateSplit: { labourKES: 3.84, plantKES: 2.62, materialKES: 109.04 },
+    });
+  });
+
+  it('should total man-days by trade and spread the crews over the programme', () => {
+    const estimate = buildResourceEstimate(buildResult([
+      item({ description: 'Excavation for foundations', quantity: 40 }),
+      item({ itemNumber: '2', description: '200mm blockwork in walls', unit: 'm²', quantity: 100 }),
+    ]), DEFAULT_PRODUCTIVITY_NORMS, nairobiRates, { programmeWeeks: 10 });
+
+    expect(estimate.trades.map(trade => [trade.trade, trade.manDays, trade.startWeek, trade.endWeek])).toEqual([
+      ['Groundwork', 12.5, 1, 2],
+      ['Masonry', 15, 2, 6],
+    ]);
+    expect(estimate.trades[1].crew).toEqual([{ role: 'Mason', manDays: 7.5 }, { role: 'Labourer', manDays: 7.5 }]);
+    expect(estimate.histogram.map(week => week.workers)).toEqual([2, 3, 1, 1, 1, 1, 0, 0, 0, 0]);
+    expect(estimate.histogram[1].byTrade).toEqual({ Groundwork: 2, Masonry: 1 });
+    expect(estimate.totals).toMatchObject({ manHours: 220, manDays: 27.5, labourCostKES: 9000 + 15000 });
+  });
+
+  it('should apply admin norms and rates, and report what it could not price', () => {
+    const doors = DEFAULT_PRODUCTIVITY_NORMS.find(norm => norm.key === 'doors-windows')!;
+    const entry: ProductivityNorm = { ...doors, manHoursPerUnit: 6, crew: [{ role: 'Welder', count: 1 }], source: 'Fabricator quote', isActive: true };
+    const norms = mergeProductivityNorms(DEFAULT_PRODUCTIVITY_NORMS, [entry]);
+    const analysis = buildResult([
+      item({ description: 'Steel door D1', unit: 'Nr', quantity: 2, unitRateKES: 30000, totalCostKES: 60000 }),
+      item({ itemNumber: '2', description: 'Sundries', unit: 'item', quantity: 1 }),
+    ]);
+
+    const unpriced = buildResourceEstimate(analysis, norms, nairobiRates);
+    expect(unpriced.items[0]).toMatchObject({ manHours: 12, labourCostKES: 0 });
+    expect(unpriced.missingRates).toEqual(['Welder']);
+    expect(unpriced.unestimatedItems).toEqual([{ itemNumber: '2', description: 'Sundries', unit: 'item' }]);
+    expect(unpriced.programmeWeeks).toBe(4);
+
+    const rates = mergeResourceRates(DEFAULT_RESOURCE_RATES, [
+      { kind: 'labour', resource: 'welder', hourlyRateKES: 200, source: 'Site wage survey', isActive: true },
+    ]);
+    const priced = buildResourceEstimate(analysis, norms, buildResourceRateTable(rates, { currency: 'KES', labourFactor: 1 }));
+    expect(priced.items[0].labourCostKES).toBe(2400);
+    expect(priced.missingRates).toEqual([]);
+
+    const withPeriod = buildResult(analysis.billOfQuantities, {
+      escalation: {
+        basis: 'midpoint', baseDate: new Date('2026-10-01'), targetDate: new Date('2027-04-01'), constructionStart: new Date('2027-01-01'),
+        constructionMonths: 6, trades: [], measuredCost: 0, allowance: 0, percentage: 0, projectedAt: new Date('2026-10-19'),
+      },
+    });
+    expect(buildResourceEstimate(withPeriod, norms, nairobiRates).programmeWeeks).toBe(26);
+  });
+
+  it('should check a productivity norm sent by an admin', () => {
+    expect(parseProductivityNorm({
+      key: 'Kerbs',
+      name: 'Precast concrete kerbs',
+      trade: 'groundwork',
+      keywords: [['kerb']],
+      units: ['lm'],
+      manHoursPerUnit: '0.8',
+      crew: [{ role: 'Mason', count: 1 }, { role: 'Labourer', count: 2 }],
+    })).toEqual({
+      key: 'kerbs',
+      name: 'Precast concrete kerbs',
+      trade: 'Groundwork',
+      keywords: [['kerb']],
+      units: ['m'],
+      manHoursPerUnit: 0.8,
+      crew: [{ role: 'Mason', count: 1 }, { role: 'Labourer', count: 2 }],
+      plant: [],
+    });
+
+    const base = { key: 'x', name: 'X', trade: 'Masonry', keywords: ['x'], units: ['m2'], manHoursPerUnit: 1, crew: [{ role: 'Mason' }] };
+    expect(() => parseProductivityNorm({ ...base, trade: 'Welding' })).toThrow('Trade must be one of');
+    expect(() => parseProductivityNorm({ ...base, manHoursPerUnit: 0 })).toThrow('Man-hours per unit must be a positive number');
+    expect(() => parseProductivityNorm({ ...base, crew: [{ role: 'Mason', count: 1.5 }] })).toThrow('The Mason count must be a whole number');
+    expect(() => parseProductivityNorm({ ...base, crew: [{ role: 'Mason' }, { role: 'mason' }] })).toThrow('repeats the role mason');
+    expect(() => parseProductivityNorm({ ...base, plant: [{ plant: 'Mixer' }] })).toThrow('Plant 1 needs a name and positive hours per unit');
+  });
+
+  it('should add the rate split to the Excel trade sheets', async () => {
+    const analysis = buildResult([concrete]);
+    const rateSplits = new Map<BQItem, RateSplit | undefined>([[concrete, estimateItemResources(concrete, DEFAULT_PRODUCTIVITY_NORMS, nairobiRates)?.rateSplit]]);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await buildBqWorkbook(analysis, { rateSplits }) as any);
+
+    const sheet = workbook.getWorksheet('General')!;
+    expect([8, 9, 10].map(column => sheet.getRow(4).getCell(column).value)).toEqual(['Labour', 'Plant', 'Material']);
+    expect(sheet.getCell('H5').value).toBe(624);
+    expect(sheet.getCell('I5').value).toBe(340);
+    expect(sheet.getCell('J5').value).toMatchObject({ formula: 'E5-H5-I5' });
+  });
+});
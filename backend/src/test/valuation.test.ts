@@ -0,0 +1,179 @@
+import {
+  buildValuation,
+  formatPaymentCertificate,
+  parseValuationInput,
+  parseValuationTerms,
+  DEFAULT_VALUATION_TERMS
+} from '../services/valuation';
+import { ObjectId } from 'mongodb';
+import { AnalysisResult, BQItem, ValuationTerms, Variation } from '../types';
+
+const item = (overrides: Partial<BQItem>): BQItem => ({
+  itemNumber: '1',
+  description: 'Item',
+  unit: 'm3',
+  quantity: 1,
+  unitRateKES: 0,
+  wastageFactor: 0,
+  totalCostKES: 0,
+  ...overrides,
+});
+
+// A contract sum of 2,000,000
+const contract: AnalysisResult = {
+  summary: { totalEstimatedCostKES: 2000000, totalWastageCostKES: 0, confidenceScore: 0.8 },
+  billOfQuantities: [
+    item({ itemNumber: 'A1', description: 'Excavation to foundations', quantity: 200, unitRateKES: 1000, totalCostKES: 200000 }),
+    item({ itemNumber: 'B1', description: 'Concrete in foundations', quantity: 40, unitRateKES: 20000, wastageFactor: 0.05, totalCostKES: 840000 }),
+    item({ itemNumber: 'C1', description: '200mm blockwork', unit: 'm2', quantity: 800, unitRateKES: 1200, totalCostKES: 960000 }),
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Thika Warehouse',
+  metadata: { analysisDate: new Date('2026-10-01'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.8, currency: 'KES' },
+};
+
+const noRetention: ValuationTerms = { ...DEFAULT_VALUATION_TERMS, retentionRate: 0 };
+
+describe('Valuation', () => {
+  it('should value items from the percentage or quantity complete', () => {
+    const input = parseValuationInput({
+      items: [
+        { itemIndex: 1, quantityComplete: 10 },
+        { itemIndex: 0, percentComplete: 100 },
+        { itemIndex: 2, percentComplete: 0 },
+      ],
+      materialsOnSite: [{ description: 'Cement, 200 bags', amountKES: 180000 }],
+    }, contract, noRetention);
+    const { items, certificate } = buildValuation(contract, input);
+
+    expect(items.map(valued => [valued.itemNumber, valued.quantityComplete, valued.percentComplete, valued.valueKES])).toEqual([
+      ['A1', 200, 100, 200000],
+      ['B1', 10, 25, 210000],
+    ]);
+    expect(certificate).toEqual({
+      contractSumKES: 2000000,
+      workDoneKES: 410000,
+      variationsKES: 0,
+      materialsOnSiteKES: 180000,
+      grossValuationKES: 590000,
+      retentionKES: 0,
+      advanceRecoveredKES: 0,
+      netValuationKES: 590000,
+      previousCertificatesKES: 0,
+      amountDueKES: 590000,
+    });
+  });
+
+  it('should carry progress forward and deduct previous certificates', () => {
+    const first = buildValuation(contract, parseValuationInput({
+      items: [{ itemIndex: 0, percentComplete: 50 }],
+      materialsOnSite: [{ description: 'Blocks', amountKES: 50000 }],
+    }, contract, noRetention));
+
+    // Blocks built into the walls leave the materials on site
+    const second = buildValuation(contract, parseValuationInput({ items: [{ itemIndex: 2, quantityComplete: 100 }] }, contract, noRetention), first);
+
+    expect(second.items.map(valued => [valued.itemNumber, valued.valueKES])).toEqual([['A1', 100000], ['C1', 120000]]);
+    expect(second.certificate).toMatchObject({
+      grossValuationKES: 220000,
+      previousCertificatesKES: 150000,
+      amountDueKES: 70000,
+    });
+  });
+
+  it('should hold retention up to its limit and recover the advance payment', () => {
+    const terms: ValuationTerms = { retentionRate: 0.1, retentionLimit: 0.05, advancePaymentKES: 200000, advanceRecoveryRate: 0.2 };
+
+    const early = buildValuation(contract, parseValuationInput({ items: [{ itemIndex: 2, percentComplete: 50 }] }, contract, terms));
+    expect(early.certificate).toMatchObject({ grossValuationKES: 480000, retentionKES: 48000, advanceRecoveredKES: 96000, netValuationKES: 336000 });
+
+    const late = buildValuation(contract, parseValuationInput({ items: [{ itemIndex: 1, percentComplete: 100 }] }, contract, terms), early);
+    expect(late.certificate).toMatchObject({
+      workDoneKES: 1320000,
+      retentionKES: 100000,
+      advanceRecoveredKES: 200000,
+      netValuationKES: 1020000,
+      previousCertificatesKES: 336000,
+      amountDueKES: 684000,
+    });
+  });
+
+  it('should value instructed variations by their percentage complete', () => {
+    const variation = (number: number, status: Variation['status'], netKES: number): Variation => ({
+      _id: new ObjectId(),
+      projectId: 'project',
+      analysisId: 'analysis',
+      userId: 'user',
+      number,
+      title: `Variation ${number}`,
+      status,
+      currency: 'KES',
+      items: [],
+      additionsKES: Math.max(netKES, 0),
+      omissionsKES: Math.min(netKES, 0),
+      netKES,
+      createdAt: new Date('2026-11-01'),
+      updatedAt: new Date('2026-11-01'),
+    });
+    const variations = [variation(1, 'agreed', 300000), variation(2, 'instructed', -100000), variation(3, 'proposed', 50000)];
+    const [extraWing, omittedWall, proposed] = variations.map(vo => vo._id!.toString());
+
+    const first = buildValuation(contract, parseValuationInput({
+      items: [{ itemIndex: 0, percentComplete: 100 }],
+      variations: [{ variationId: extraWing, percentComplete: 50 }, { variationId: omittedWall, percentComplete: 100 }],
+    }, contract, noRetention, variations), undefined, variations);
+
+    expect(first.variations.map(valued => [valued.number, valued.percentComplete, valued.valueKES])).toEqual([[1, 50, 150000], [2, 100, -100000]]);
+    expect(first.certificate).toMatchObject({ workDoneKES: 200000, variationsKES: 50000, grossValuationKES: 250000 });
+
+    // The agreed variation is carried forward and revalued at its current amount
+    const revalued = variations.map(vo => (vo.number === 1 ? { ...vo, netKES: 400000 } : vo));
+    const second = buildValuation(contract, parseValuationInput({}, contract, noRetention, revalued), first, revalued);
+    expect(second.certificate).toMatchObject({ variationsKES: 100000, previousCertificatesKES: 250000 });
+
+    expect(() => parseValuationInput({ variations: [{ variationId: proposed, percentComplete: 10 }] }, contract, noRetention, variations))
+      .toThrow('is only proposed; instruct it before valuing it');
+    expect(() => parseValuationInput({ variations: [{ variationId: new ObjectId().toString(), percentComplete: 10 }] }, contract, noRetention, variations))
+      .toThrow('Variation entry 1 must name a variation order of this contract');
+  });
+
+  it('should check progress and materials on site against the contract BQ', () => {
+    const parse = (input: any) => () => parseValuationInput(input, contract);
+
+    expect(parse({ items: [{ itemIndex: 3, percentComplete: 10 }] })).toThrow('Entry 1 must name a BQ item by its index');
+    expect(parse({ items: [{ itemIndex: 0, percentComplete: 10 }, { itemIndex: 0, quantityComplete: 5 }] })).toThrow('Item A1 is entered more than once');
+    expect(parse({ items: [{ itemIndex: 0 }] })).toThrow('Item A1 needs either a percentage or a quantity complete');
+    expect(parse({ items: [{ itemIndex: 0, percentComplete: 120 }] })).toThrow('Item A1 percentage complete must be between 0 and 100');
+    expect(parse({ items: [{ itemIndex: 1, quantityComplete: -1 }] })).toThrow('Item B1 quantity complete must not be negative');
+    expect(parse({ materialsOnSite: [{ description: 'Steel', amountKES: 0 }] })).toThrow('Material on site 1 needs a description and a positive amount');
+
+    const provisional = { ...contract, billOfQuantities: [item({ itemNumber: 'P1', description: 'Dayworks', unit: 'item', quantity: 0, unitRateKES: 50000 })] };
+    expect(() => parseValuationInput({ items: [{ itemIndex: 0, percentComplete: 50 }] }, provisional)).toThrow('Item P1 has no contract quantity');
+  });
+
+  it('should keep the terms of the previous valuation unless new ones are sent', () => {
+    const previous: ValuationTerms = { retentionRate: 0.05, retentionLimit: 0.025, advancePaymentKES: 100000, advanceRecoveryRate: 0.1 };
+
+    expect(parseValuationTerms(undefined, previous)).toBe(previous);
+    expect(parseValuationTerms({ retentionRate: '0.1' }, previous)).toEqual({ ...previous, retentionRate: 0.1 });
+    expect(() => parseValuationTerms({ retentionLimit: 2 })).toThrow('Retention limit must be between 0 and 1');
+    expect(() => parseValuationTerms({ advancePaymentKES: -5 })).toThrow('The advance payment must not be negative');
+  });
+
+  it('should format a numbered payment certificate', () => {
+    const terms: ValuationTerms = { retentionRate: 0.1, retentionLimit: 0.05, advancePaymentKES: 200000, advanceRecoveryRate: 0.2 };
+    const valued = buildValuation(contract, parseValuationInput({ items: [{ itemIndex: 0, percentComplete: 100 }] }, contract, terms));
+    const markdown = formatPaymentCertificate({ ...valued, number: 2, valuationDate: new Date('2027-03-31'), terms }, {
+      projectName: 'Thika Warehouse',
+      contractName: 'Main contract BQ',
+    });
+
+    expect(markdown).toContain('# Interim Payment Certificate No. 2');
+    expect(markdown).toContain('**Valuation No. 2 dated:** 2027-03-31');
+    expect(markdown).toContain('| Less retention (10%, limited to 5% of the contract sum) | -20,000.00 |');
+    expect(markdown).toContain('| Less advance payment recovered (20% of work done, up to 200,000.00) | -40,000.00 |');
+    expect(markdown).toContain('| **Amount due** | **140,000.00** |');
+    expect(markdown).toContain('| A1 | Excavation to foundations | m3 | 200 | 200 | 100 | 200,000.00 |');
+    expect(markdown).not.toContain('## Materials on Site');
+  });
+});
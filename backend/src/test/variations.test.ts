@@ -0,0 +1,141 @@
+import { ObjectId } from 'mongodb';
+import {
+  buildContractBaseline,
+  buildFinalAccount,
+  buildVariationRegister,
+  canMoveTo,
+  parseVariationItems,
+  totalVariation
+} from '../services/variations';
+import { AnalysisResult, BQItem, Valuation, Variation, VariationStatus } from '../types';
+
+const item = (overrides: Partial<BQItem>): BQItem => ({
+  itemNumber: '1',
+  description: 'Item',
+  unit: 'm3',
+  quantity: 1,
+  unitRateKES: 0,
+  wastageFactor: 0,
+  totalCostKES: 0,
+  ...overrides,
+});
+
+// A contract sum of 2,000,000
+const contract: AnalysisResult = {
+  summary: { totalEstimatedCostKES: 2000000, totalWastageCostKES: 0, confidenceScore: 0.8 },
+  billOfQuantities: [
+    item({ itemNumber: 'A1', description: 'Excavation to foundations', quantity: 200, unitRateKES: 1000, totalCostKES: 200000 }),
+    item({ itemNumber: 'B1', description: 'Concrete in foundations', quantity: 40, unitRateKES: 20000, wastageFactor: 0.05, totalCostKES: 840000 }),
+    item({ itemNumber: 'C1', description: '200mm blockwork', unit: 'm2', quantity: 800, unitRateKES: 1200, totalCostKES: 960000 }),
+  ],
+  intelligentSuggestions: [],
+  projectName: 'Thika Warehouse',
+  metadata: { analysisDate: new Date('2026-10-01'), fileType: 'image/png', fileName: 'plan.png', confidence: 0.8, currency: 'KES' },
+};
+
+const baseline = buildContractBaseline(contract, 'user', 3, new Date('2026-10-15'));
+
+const variation = (number: number, status: VariationStatus, additionsKES: number, omissionsKES = 0): Variation => ({
+  _id: new ObjectId(),
+  projectId: 'project',
+  analysisId: 'analysis',
+  userId: 'user',
+  number,
+  title: `Variation ${number}`,
+  status,
+  currency: 'KES',
+  items: [],
+  additionsKES,
+  omissionsKES,
+  netKES: additionsKES + omissionsKES,
+  createdAt: new Date('2026-11-01'),
+  updatedAt: new Date('2026-11-01'),
+});
+
+describe('Variations', () => {
+  it('should lock the measured works as the contract sum', () => {
+    expect(baseline).toEqual({
+      lockedAt: new Date('2026-10-15'),
+      lockedBy: 'user',
+      revisionNumber: 3,
+      contractSumKES: 2000000,
+      currency: 'KES',
+      itemCount: 3,
+    });
+  });
+
+  it('should price additions and omissions at contract rates or star rates', () => {
+    const items = parseVariationItems([
+      { kind: 'addition', itemIndex: 1, quantity: 5 },
+      { kind: 'omission', itemIndex: 2, quantity: 100, description: 'Omit blockwork to store' },
+      { kind: 'addition', description: 'Steel roller shutter door', unit: 'nr', quantity: 2, unitRateKES: 85000 },
+    ], contract);
+
+    expect(items.map(priced => [priced.itemNumber, priced.description, priced.unit, priced.unitRateKES, priced.rateSource, priced.amountKES])).toEqual([
+      ['B1', 'Concrete in foundations', 'm3', 21000, 'bq', 105000],
+      ['C1', 'Omit blockwork to store', 'm2', 1200, 'bq', -120000],
+      [undefined, 'Steel roller shutter door', 'nr', 85000, 'star', 170000],
+    ]);
+    expect(totalVariation(items, 'KES')).toEqual({ additionsKES: 275000, omissionsKES: -120000, netKES: 155000 });
+  });
+
+  it('should check variation items against the contract BQ', () => {
+    const parse = (input: any) => () => parseVariationItems(input, contract);
+
+    expect(parse([])).toThrow('A variation needs at least one item');
+    expect(parse([{ kind: 'extra', itemIndex: 0, quantity: 1 }])).toThrow('Item 1 must be an addition or an omission');
+    expect(parse([{ kind: 'addition', itemIndex: 0, quantity: 0 }])).toThrow('Item 1 needs a positive quantity');
+    expect(parse([{ kind: 'addition', itemIndex: 3, quantity: 1 }])).toThrow('Item 1 must name a contract BQ item by its index');
+    expect(parse([{ kind: 'omission', itemIndex: 1, quantity: 50 }])).toThrow('Item 1 omits more than the 40 m3 of contract item B1');
+    expect(parse([{ kind: 'addition', description: 'Gate', quantity: 1, unitRateKES: 10 }])).toThrow('Item 1 needs a description and unit, or a contract BQ item');
+    expect(parse([{ kind: 'addition', description: 'Gate', unit: 'nr', quantity: 1, unitRateKES: -10 }])).toThrow('Item 1 needs a star rate that is not negative');
+  });
+
+  it('should only move a variation forward', () => {
+    expect(canMoveTo('proposed', 'instructed')).toBe(true);
+    expect(canMoveTo('proposed', 'agreed')).toBe(true);
+    expect(canMoveTo('agreed', 'instructed')).toBe(false);
+    expect(canMoveTo('instructed', 'instructed')).toBe(false);
+  });
+
+  it('should keep a running adjusted contract sum of instructed variations', () => {
+    const register = buildVariationRegister('analysis', baseline, [
+      variation(3, 'proposed', 50000),
+      variation(1, 'agreed', 300000, -50000),
+      variation(2, 'instructed', 0, -100000),
+    ]);
+
+    expect(register.lines.map(line => [line.number, line.netKES, line.adjustedContractSumKES])).toEqual([
+      [1, 250000, 2250000],
+      [2, -100000, 2150000],
+      [3, 50000, 2150000],
+    ]);
+    expect(register.totals).toEqual({ proposedKES: 50000, instructedKES: -100000, agreedKES: 250000 });
+    expect(register.adjustedContractSumKES).toBe(2150000);
+    expect(register.anticipatedContractSumKES).toBe(2200000);
+  });
+
+  it('should settle the final account against the last certificate', () => {
+    const lastCertificate = {
+      number: 6,
+      valuationDate: new Date('2027-06-30'),
+      certificate: { grossValuationKES: 2000000, retentionKES: 100000, advanceRecoveredKES: 200000, netValuationKES: 1700000 },
+    } as Pick<Valuation, 'number' | 'valuationDate' | 'certificate'>;
+    const builtAt = new Date('2027-07-01');
+
+    const open = buildFinalAccount('analysis', baseline, [variation(1, 'agreed', 300000, -50000), variation(2, 'instructed', 0, -100000), variation(3, 'proposed', 50000)], lastCertificate, builtAt);
+    expect(open).toMatchObject({
+      additionsKES: 300000,
+      omissionsKES: -150000,
+      agreedVariationsKES: 250000,
+      unagreedVariationsKES: -100000,
+      finalAccountKES: 2150000,
+      isSettled: false,
+      balanceKES: 250000,
+    });
+
+    const settled = buildFinalAccount('analysis', baseline, [variation(1, 'agreed', 300000, -50000)], undefined, builtAt);
+    expect(settled).toMatchObject({ finalAccountKES: 2250000, isSettled: true, balanceKES: 2250000 });
+    expect(settled.lastCertificate).toBeUndefined();
+  });
+});
@@ -14,9 +14,20 @@ export interface User {
     theme?: 'light' | 'dark';
     notifications?: boolean;
     defaultProjectType?: string;
+    company?: CompanyBranding;
   };
 }
 
+// Company details used to brand exported documents
+export interface CompanyBranding {
+  name: string;
+  logo?: string; // PNG or JPEG data URL
+  address?: string;
+  phone?: string;
+  email?: string;
+  registrationNumber?: string;
+}
+
 // Session types
 export interface Session {
   _id?: ObjectId;
@@ -61,7 +72,11 @@ export interface Project {
   };
   createdAt: Date;
   updatedAt: Date;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, any> & {
+    currency?: CurrencyCode; // Base currency of the project's BQs (KES when unset)
+    summaryConfig?: EstimateSummaryConfig; // Additions to the measured works in the project's BQ summaries
+    cashFlowConfig?: CashFlowConfig; // How the project's BQs are spread over its programme
+  };
 }
 
 // Document types
@@ -113,6 +128,7 @@ export interface UploadedFile {
     tags?: string[];
     processed?: boolean;
     extractedText?: string;
+    fileHash?: string; // SHA-256 of the file contents
   };
 }
 
@@ -252,3 +268,981 @@ export interface KnowledgeGraphResult {
     strength: number;
   }>;
 }
+
+// Bill of Quantities analysis types
+// Money fields are named for KES but hold amounts in the BQ's metadata.currency
+export interface BQItem {
+  itemNumber: string;
+  description: string;
+  unit: string;
+  quantity: number;
+  unitRateKES: number;
+  wastageFactor: number;
+  totalCostKES: number;
+  category?: string;
+  rateProvenance?: RateProvenance;
+  classification?: BQClassification;
+  sourcePages?: number[]; // Drawing set pages the item was measured from
+  quantityBasis?: string; // How a quantity measured from CAD geometry was derived
+  quantitySource?: QuantitySource;
+  vatExempt?: boolean; // Zero-rated or exempt supply, left out of the VAT base
+}
+
+export interface AnalysisResult {
+  summary: {
+    totalEstimatedCostKES: number;
+    totalWastageCostKES: number;
+    confidenceScore: number;
+    totalArea?: number; // Kept for backend reference
+    regionalPricingDifferences?: RegionalPricingDifference[]; // Computed from the location factor table
+    escalationAllowanceKES?: number; // Separate from the measured total; see metadata.escalation
+  };
+  billOfQuantities: BQItem[];
+  intelligentSuggestions: Array<{
+    suggestionType: string;
+    originalItem: string;
+    suggestion: string;
+    impact: string;
+  }>;
+  projectName: string;
+  metadata: {
+    analysisDate: Date;
+    fileType: string;
+    fileName: string;
+    confidence: number;
+    userId?: string;
+    region?: string;
+    rateLibrary?: RateMatchSummary;
+    source?: 'ai' | 'import' | 'cad' | 'simulated';
+    classification?: ClassificationSummary;
+    pages?: DrawingPageSummary[];
+    cadTakeoff?: CadTakeoff;
+    fileHash?: string; // SHA-256 of the analysed drawing
+    cache?: AnalysisCacheInfo;
+    validation?: AIResponseValidation;
+    fallback?: AnalysisFallback; // Set on every simulated result
+    currency?: CurrencyCode; // Currency of every amount in the BQ (KES when unset)
+    conversions?: CurrencyConversion[]; // Every conversion applied to the BQ, oldest first
+    location?: LocationAdjustment; // Set once rates are adjusted to the project's location
+    escalation?: EscalationAllowance; // Indices and assumptions behind summary.escalationAllowanceKES
+  };
+  reconciliation?: ReconciliationReport;
+  takeoffs?: PlanTakeoff[]; // On-screen measurements, one entry per drawing
+  summaryConfig?: EstimateSummaryConfig; // Additions used for estimateSummary (the default when unset)
+  estimateSummary?: EstimateSummary; // Rebuilt whenever the BQ's amounts change
+}
+
+// How many model calls it took to get a BQ that matched the response schema
+export interface AIResponseValidation {
+  attempts: number;
+  repaired: boolean; // A corrective prompt was needed
+}
+
+// Why an analysis is simulated rather than measured from the drawing
+export interface AnalysisFallback {
+  code: 'AI_NOT_CONFIGURED' | 'AI_FAILED';
+  reason: string;
+}
+
+// Analysis cache types
+// Identical drawings analysed with the same prompt and pipeline reuse the AI result
+export interface AnalysisCacheKey {
+  fileHash: string;
+  projectType: string;
+  analysisVersion: string;
+}
+
+// Pristine AI result stored once per key, before rates, classification and user edits
+export interface AnalysisCacheEntry extends AnalysisCacheKey {
+  _id?: ObjectId;
+  analysisResult: AnalysisResult;
+  hits: number;
+  createdAt: Date;
+  lastHitAt?: Date;
+}
+
+// How an analysis used the cache
+export interface AnalysisCacheInfo extends AnalysisCacheKey {
+  hit: boolean;
+  cachedAt?: Date; // When the reused result was produced
+  reanalyzed?: boolean; // The cache was bypassed on request
+}
+
+export interface AnalysisCacheStats {
+  analysisVersion: string;
+  entries: number;
+  staleEntries: number; // Produced by an earlier prompt or pipeline version
+  lookups: number;
+  hits: number;
+  misses: number;
+  reanalyzed: number;
+  hitRate: number;
+  lastHitAt?: Date;
+}
+
+// Multi-page drawing set types
+export type DrawingPageType = 'plan' | 'elevation' | 'section' | 'schedule' | 'title' | 'other';
+
+export interface DrawingPageSummary {
+  pageNumber: number;
+  pageType: DrawingPageType;
+  title?: string;
+  classifiedBy: 'text' | 'ai' | 'default';
+  analyzed: boolean;
+  itemCount: number;
+  aiAttempts?: number; // Model calls made for the sheet, including schema repairs
+  error?: string;
+}
+
+// CAD takeoff types
+export type CadLayerRole = 'walls' | 'doors' | 'windows' | 'rooms';
+
+export interface CadLayerSummary {
+  name: string;
+  role?: CadLayerRole;
+  entityCount: number;
+}
+
+export interface CadRoom {
+  name: string;
+  layer: string;
+  areaM2: number;
+  perimeterM: number;
+}
+
+export interface CadOpening {
+  kind: 'door' | 'window';
+  blockName: string;
+  layer: string;
+  count: number;
+}
+
+export interface CadDimension {
+  layer: string;
+  valueM: number;
+  text?: string; // Only set when the drawn text overrides the measurement
+}
+
+// Quantities measured from the geometry of a DXF/DWG drawing
+export interface CadTakeoff {
+  units: string;
+  unitsInferred: boolean; // The drawing did not declare its units
+  layers: CadLayerSummary[];
+  walls: {
+    layers: string[];
+    drawnLengthM: number; // Every wall line added up
+    centrelineLengthM: number;
+    doubleLine: boolean; // Walls drawn as two face lines
+    thicknessMm?: number;
+  };
+  rooms: CadRoom[];
+  grossFloorAreaM2: number;
+  openings: CadOpening[];
+  dimensions: CadDimension[];
+  warnings: string[];
+}
+
+// On-screen takeoff types
+export type MeasurementKind = 'linear' | 'area' | 'count';
+
+// Position on the drawing image in pixels
+export interface PlanPoint {
+  x: number;
+  y: number;
+}
+
+export interface PlanScale {
+  points: [PlanPoint, PlanPoint];
+  lengthM: number; // Real distance between the two points
+  metresPerPixel: number;
+}
+
+export interface PlanMeasurement {
+  id: string;
+  kind: MeasurementKind;
+  label: string;
+  points: PlanPoint[];
+  value: number; // Metres, square metres or a count
+  unit: 'm' | 'm2' | 'nr';
+  color?: string;
+}
+
+export interface PlanTakeoff {
+  fileName: string;
+  imageWidth: number;
+  imageHeight: number;
+  scale?: PlanScale;
+  measurements: PlanMeasurement[];
+  updatedAt: Date;
+}
+
+// BQ item quantity taken from on-screen measurements instead of the AI
+export interface QuantitySource {
+  type: 'takeoff';
+  measurementIds: string[];
+}
+
+// Analysis revision history types
+export interface RevisionAuthor {
+  userId: string;
+  email?: string;
+  name?: string;
+}
+
+// Immutable snapshot of an analysis written on every save or restore
+export interface AnalysisRevision {
+  _id?: ObjectId;
+  analysisId: ObjectId;
+  revisionNumber: number;
+  analysisResult: AnalysisResult;
+  note?: string;
+  createdBy: RevisionAuthor;
+  createdAt: Date;
+  restoredFrom?: number; // Revision number this one restores
+}
+
+// Revision listing entry without the BQ snapshot
+export interface AnalysisRevisionSummary {
+  revisionNumber: number;
+  note?: string;
+  createdBy: RevisionAuthor;
+  createdAt: Date;
+  restoredFrom?: number;
+  itemCount: number;
+  totalEstimatedCostKES: number;
+}
+
+// Queued analysis job types
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type AnalysisJobStage = 'uploaded' | 'pages_split' | 'ai_called' | 'parsed' | 'reconciled' | 'saved';
+
+export interface AnalysisJobProgress {
+  stage: AnalysisJobStage;
+  message: string;
+  percent: number;
+  at: Date;
+}
+
+// The uploaded drawing and the analysis options, kept so a failed job can be retried
+export interface AnalysisJobInput {
+  filePath: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  projectName: string;
+  projectType: string;
+  region: string;
+  rateMode: RateMatchMode;
+  currency?: CurrencyCode; // The BQ is priced in KES and converted to this currency (default KES)
+  location?: string; // Location factor entry to adjust the region's rates to
+  projectId?: string; // Project the BQ is for; its summary configuration applies
+  wallHeightM?: number;
+  cadLayers?: Partial<Record<CadLayerRole, string[]>>;
+  reanalyze?: boolean;
+}
+
+export interface AnalysisJob {
+  _id?: ObjectId;
+  jobId: string;
+  userId: string;
+  status: AnalysisJobStatus;
+  stage: AnalysisJobStage;
+  percent: number;
+  message: string;
+  input: AnalysisJobInput;
+  progress: AnalysisJobProgress[]; // Stages reached by the current attempt
+  attempts: number;
+  analysisId?: string;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+// BQ comparison types
+export type BQChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type BQComparedField = 'description' | 'unit' | 'quantity' | 'unitRateKES' | 'wastageFactor' | 'totalCostKES';
+
+export interface BQComparisonLine {
+  change: BQChangeType;
+  category: string; // Trade of the revised item, or of the base item when removed
+  base?: BQItem;
+  revised?: BQItem;
+  matchScore?: number;
+  changedFields: BQComparedField[];
+  quantityDelta: number;
+  rateDelta: number;
+  costDelta: number;
+}
+
+export interface BQCategoryDelta {
+  category: string;
+  baseTotalKES: number;
+  revisedTotalKES: number;
+  deltaKES: number;
+}
+
+export interface BQComparisonSide {
+  label: string;
+  analysisId?: string;
+  revisionNumber?: number;
+  itemCount: number;
+  totalKES: number;
+}
+
+export interface BQComparison {
+  currency: CurrencyCode; // Both sides are compared in this currency
+  base: BQComparisonSide;
+  revised: BQComparisonSide;
+  lines: BQComparisonLine[];
+  categories: BQCategoryDelta[];
+  totals: {
+    baseTotalKES: number;
+    revisedTotalKES: number;
+    deltaKES: number;
+    deltaPercent: number | null; // null when the base BQ is empty
+  };
+  counts: Record<BQChangeType, number>;
+  comparedAt: Date;
+}
+
+// Standard measurement classification types
+export type ClassificationSource = 'rule' | 'ai' | 'manual' | 'unclassified';
+
+// 'trade' groups by SMM7 work section, 'element' by NRM1 element
+export type BQGrouping = 'trade' | 'element';
+
+export interface BQClassification {
+  workSectionCode: string; // SMM7 work section, e.g. 'F10'
+  workSectionName: string;
+  elementCode: string; // NRM1 element, e.g. '2.5'
+  elementName: string;
+  source: ClassificationSource;
+  confidence: number;
+}
+
+export interface ClassificationSummary {
+  byRule: number;
+  byAI: number;
+  manual: number;
+  unclassified: number;
+  classifiedAt: Date;
+}
+
+// BQ spreadsheet import types
+export type BqImportField = 'itemNumber' | 'description' | 'unit' | 'quantity' | 'rate' | 'amount' | 'category';
+
+// Zero-based column index for each BQ field
+export type BqColumnMapping = Partial<Record<BqImportField, number>>;
+
+export interface BqImportRowError {
+  row: number; // Spreadsheet row number (1-based)
+  field?: BqImportField;
+  value?: string;
+  message: string;
+}
+
+// BQ arithmetic reconciliation types
+export type DiscrepancySeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type ReconciliationResolution = 'pending' | 'ai' | 'recomputed';
+
+export interface BQDiscrepancy {
+  scope: 'line' | 'summary';
+  field: 'totalCostKES' | 'totalEstimatedCostKES' | 'totalWastageCostKES';
+  itemNumber?: string;
+  lineIndex?: number;
+  aiValue: number;
+  recomputedValue: number;
+  difference: number;
+  relativeDifference: number;
+  severity: DiscrepancySeverity;
+  message: string;
+}
+
+export interface ReconciliationReport {
+  status: 'clean' | 'flagged';
+  resolution: ReconciliationResolution;
+  discrepancies: BQDiscrepancy[];
+  checkedAt: Date;
+  resolvedAt?: Date;
+}
+
+// Unit-rate library types
+export interface RateLibraryEntry {
+  _id?: ObjectId;
+  itemCode: string;
+  description: string;
+  unit: string;
+  region: string;
+  rateKES: number;
+  effectiveDate: Date;
+  source: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive: boolean;
+  metadata?: Record<string, any>;
+}
+
+export type RateMatchMode = 'override' | 'check';
+
+export interface RateMatchSummary {
+  mode: RateMatchMode;
+  matched: number;
+  overridden: number;
+  outOfTolerance: number;
+}
+
+export interface RateProvenance {
+  source: 'ai' | 'library' | 'manual';
+  aiRateKES: number;
+  libraryRateId?: string;
+  itemCode?: string;
+  region?: string;
+  libraryRateKES?: number;
+  effectiveDate?: Date;
+  librarySource?: string;
+  matchScore?: number;
+  deviation?: number; // (AI rate - library rate) / library rate
+  withinTolerance?: boolean;
+}
+
+// Currency types
+export type CurrencyCode = 'KES' | 'UGX' | 'TZS' | 'RWF' | 'USD' | 'EUR' | 'GBP';
+
+// One unit of the base currency buys `rate` units of the quote currency
+// Rates are never edited; a newer effective date supersedes an older rate
+export interface ExchangeRate {
+  _id?: ObjectId;
+  baseCurrency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  rate: number;
+  effectiveDate: Date;
+  source: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive: boolean;
+}
+
+// Audit record of a currency conversion and the rate it used
+export interface CurrencyConversion {
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number; // Multiplier applied to amounts in the from currency
+  exchangeRateId?: string;
+  effectiveDate: Date;
+  source: string;
+  inverted: boolean; // The table holds the rate the other way round
+  convertedAt: Date;
+}
+
+// Location factor types
+// Cost of labour and materials in a town or county relative to Nairobi (1.00)
+export interface LocationFactor {
+  _id?: ObjectId;
+  location: string; // Town, or the county itself for a county-wide factor
+  county: string;
+  labourFactor: number;
+  materialFactor: number;
+  effectiveDate: Date;
+  source: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive: boolean;
+}
+
+export interface LocationFactorRef {
+  location: string;
+  county: string;
+  labourFactor: number;
+  materialFactor: number;
+  factorId?: string;
+  effectiveDate?: Date;
+  source?: string;
+}
+
+// How a BQ priced for one location was moved to another
+export interface LocationAdjustment {
+  from: LocationFactorRef;
+  to: LocationFactorRef;
+  baseTotal: number; // Total before the adjustment
+  adjustedTotal: number;
+  adjustedAt: Date;
+}
+
+export interface RegionalPricingDifference {
+  region: string;
+  county: string;
+  totalCost: number; // In the BQ's currency
+  percentageDifference: number; // e.g. 0.05 for 5% dearer than the BQ's own location
+}
+
+// Price index types
+// Construction price index for a month, overall or for one SMM7 work section group
+export interface PriceIndex {
+  _id?: ObjectId;
+  trade: string; // SMM7 work section group letter, e.g. 'E', or 'All' for the all-trades index
+  period: Date; // First day of the month the index is for
+  value: number;
+  source: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  isActive: boolean;
+}
+
+export type EscalationBasis = 'tender' | 'midpoint';
+
+export interface EscalationTrade {
+  trade: string; // SMM7 work section group of the items, or 'All' for unclassified items
+  series: string; // Index used: the trade's own, or 'All' when the trade has none
+  baseIndex: number;
+  targetIndex: number;
+  projected: boolean; // The target index lies past the latest published index
+  annualRate?: number; // Rate the target index was projected at
+  measuredCost: number;
+  allowance: number;
+}
+
+// Escalation of a BQ priced at one date to a tender date or the midpoint of construction
+export interface EscalationAllowance {
+  basis: EscalationBasis;
+  baseDate: Date; // Date the rates are priced at
+  targetDate: Date;
+  tenderDate?: Date;
+  constructionStart?: Date;
+  constructionMonths?: number;
+  statedAnnualRate?: number; // Used past the latest published index instead of each series' trend
+  trades: EscalationTrade[];
+  measuredCost: number;
+  allowance: number;
+  percentage: number; // e.g. 0.042 for 4.2% of the measured cost
+  projectedAt: Date;
+}
+
+// Estimate summary types
+export type SummaryLineKind = 'percentage' | 'lumpSum';
+export type SummaryLineBasis = 'measured' | 'running';
+
+export interface SummaryLineConfig {
+  key: string; // e.g. 'preliminaries'
+  label: string;
+  kind: SummaryLineKind;
+  rate?: number; // Percentage lines, e.g. 0.1 for 10%
+  basis?: SummaryLineBasis; // A percentage of the measured works, or of the running total so far (default)
+  amount?: number; // Lump sums, in the BQ's currency
+  vatExempt?: boolean;
+}
+
+// Additions to the measured works, applied in order, then VAT
+export interface EstimateSummaryConfig {
+  lines: SummaryLineConfig[];
+  vatRate: number;
+}
+
+export interface EstimateSummaryLine {
+  key: string;
+  label: string;
+  kind: SummaryLineKind;
+  rate?: number;
+  basis?: SummaryLineBasis;
+  amount: number;
+  vatExempt: boolean;
+  runningTotal: number;
+}
+
+export interface EstimateSummary {
+  currency: CurrencyCode;
+  measuredWorks: number;
+  vatExemptMeasuredWorks: number; // Part of the measured works on VAT-exempt items
+  lines: EstimateSummaryLine[]; // Escalation allowance first, then the configured additions in order
+  subtotal: number;
+  vatableAmount: number;
+  vatRate: number;
+  vat: number;
+  grandTotal: number;
+  builtAt: Date;
+}
+
+// Material norm types
+export type MaterialNormKind = 'mix' | 'blockwork' | 'coverage' | 'reinforcement';
+
+// Consumption norm turning one unit of a BQ item into raw materials
+export interface MaterialNorm {
+  _id?: ObjectId;
+  key: string; // e.g. 'concrete-1-2-4'; an entry replaces the built-in norm with the same key
+  name: string;
+  kind: MaterialNormKind;
+  keywords: string[][]; // Every group must match the item description; each group lists alternatives
+  units: string[]; // BQ units the norm applies to, e.g. ['m3']
+  mix?: {
+    ratio: number[]; // Cement : sand [: aggregate] by volume
+    dryVolumeFactor: number; // Dry volume of materials per m3 of wet mix, e.g. 1.54 for concrete
+    thicknessM?: number; // For items measured in m2, such as plaster and screeds
+  };
+  blockwork?: {
+    block: string; // e.g. '200mm machine-cut stone'
+    blocksPerM2: number;
+    mortarM3PerM2: number;
+    mortarRatio: number[];
+  };
+  coverage?: {
+    material: string; // e.g. 'Emulsion paint'
+    unit: string; // Unit the material is bought in, e.g. 'litre'
+    coveragePerUnit: number; // m2 covered per unit per coat
+    coats: number;
+  };
+  reinforcement?: {
+    steel: string;
+    lapAllowance: number; // e.g. 0.1 for 10% extra for laps
+    bindingWireKgPerTonne: number;
+  };
+  source: string;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  isActive: boolean;
+}
+
+export interface MaterialScheduleSource {
+  analysisId?: string;
+  itemNumber: string;
+  description: string;
+  normKey: string;
+  quantity: number; // Of the material, before wastage
+}
+
+export interface MaterialScheduleLine {
+  material: string;
+  unit: string;
+  netQuantity: number;
+  wastage: number; // At each item's wastage factor
+  quantity: number;
+  orderQuantity: number; // Rounded up to whole bags, blocks and pieces
+  sources: MaterialScheduleSource[];
+}
+
+// Raw materials for one or more BQs, consolidated by material
+export interface MaterialSchedule {
+  projectId?: string;
+  analysisIds: string[];
+  lines: MaterialScheduleLine[];
+  unscheduledItems: Array<{ analysisId?: string; itemNumber: string; description: string; unit: string }>; // No norm applies
+  builtAt: Date;
+}
+
+// Labour and plant productivity types
+export type ResourceKind = 'labour' | 'plant';
+
+export interface CrewMember {
+  role: string; // e.g. 'Mason'; priced at the labour rate of the same name
+  count: number;
+}
+
+export interface PlantUsage {
+  plant: string; // e.g. 'Concrete mixer'; priced at the plant rate of the same name
+  hoursPerUnit: number;
+}
+
+// Output of labour and plant in one unit of a BQ item; matched to items like material norms
+export interface ProductivityNorm {
+  _id?: ObjectId;
+  key: string; // e.g. 'blockwork'; an entry replaces the built-in norm with the same key
+  name: string;
+  trade: string; // One of the labour trades, which set where the work falls in the programme
+  keywords: string[][];
+  units: string[];
+  manHoursPerUnit: number; // Shared across the crew in proportion to its members
+  crew: CrewMember[];
+  plant: PlantUsage[];
+  source: string;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  isActive: boolean;
+}
+
+// Hourly cost of a crew role or an item of plant in Nairobi, in KES
+export interface ResourceRate {
+  _id?: ObjectId;
+  kind: ResourceKind;
+  resource: string;
+  hourlyRateKES: number;
+  source: string;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  isActive: boolean;
+}
+
+// A unit rate split into its labour, plant and material content
+export interface RateSplit {
+  labourKES: number;
+  plantKES: number;
+  materialKES: number; // The rest of the rate
+}
+
+export interface ResourceItem {
+  itemNumber: string;
+  description: string;
+  normKey: string;
+  trade: string;
+  manHours: number;
+  labourCostKES: number;
+  plantCostKES: number;
+  materialCostKES: number; // The rest of the item total, wastage included
+  rateSplit: RateSplit;
+  exceedsRate?: boolean; // Labour and plant alone cost more than the unit rate
+}
+
+export interface TradeResources {
+  trade: string;
+  manHours: number;
+  manDays: number;
+  labourCostKES: number;
+  plantCostKES: number;
+  crew: Array<{ role: string; manDays: number }>;
+  startWeek: number; // Weeks of the programme the trade works in, from 1
+  endWeek: number;
+}
+
+export interface CrewHistogramWeek {
+  week: number;
+  workers: number;
+  byTrade: Record<string, number>;
+}
+
+// Money fields are named for KES but hold amounts in the BQ's currency
+export interface ResourceEstimate {
+  currency: CurrencyCode;
+  labourFactor: number; // Location factor applied to the Nairobi labour rates
+  programmeWeeks: number;
+  items: ResourceItem[];
+  trades: TradeResources[];
+  plant: Array<{ plant: string; hours: number; costKES: number }>;
+  histogram: CrewHistogramWeek[];
+  totals: { manHours: number; manDays: number; labourCostKES: number; plantCostKES: number; materialCostKES: number };
+  unestimatedItems: Array<{ itemNumber: string; description: string; unit: string }>; // No norm applies
+  missingRates: string[]; // Crew roles and plant priced at nothing for want of a rate
+  builtAt: Date;
+}
+
+// Cash-flow forecast types
+export type CashFlowProfile = 's-curve' | 'linear';
+
+// Explicit dates for a trade bill, instead of its standard share of the programme
+export interface CashFlowActivity {
+  trade: string; // SMM7 work section group code (e.g. 'F') or trade bill label
+  startDate: Date;
+  endDate: Date;
+  profile: CashFlowProfile;
+}
+
+export interface CashFlowConfig {
+  startDate?: Date; // Programme dates; the project timeline when unset
+  endDate?: Date;
+  activities: CashFlowActivity[];
+  retentionRate: number; // Held from each certificate, e.g. 0.1
+  retentionLimit: number; // Retention stops once this share of the contract value is held
+  defectsLiabilityMonths: number; // The second half of retention is released this long after completion
+  paymentLagMonths: number; // Months from valuation to payment
+}
+
+export interface CashFlowTrade {
+  trade: string;
+  code?: string;
+  amount: number;
+  startDate: Date;
+  endDate: Date;
+  profile: CashFlowProfile;
+  source: 'standard' | 'activity';
+}
+
+export interface CashFlowMonth {
+  month: string; // 'YYYY-MM'
+  value: number; // Work done in the month, before VAT
+  cumulativeValue: number;
+  cumulativePercent: number; // Of the total value: the S-curve
+  vat: number;
+  retention: number;
+  retentionReleased: number;
+  certified: number; // Value less retention, plus VAT
+  payment: number; // Certificates paid after the lag, and retention released
+  cumulativePayment: number;
+}
+
+// Money fields hold amounts in the project's BQ currency
+export interface CashFlowForecast {
+  projectId?: string;
+  analysisIds: string[];
+  currency: CurrencyCode;
+  startDate: Date;
+  endDate: Date;
+  config: CashFlowConfig;
+  trades: CashFlowTrade[];
+  months: CashFlowMonth[];
+  totals: { value: number; vat: number; retentionHeld: number; payments: number };
+  builtAt: Date;
+}
+
+// Interim valuation types
+export type ValuationStatus = 'draft' | 'certified';
+
+export interface ValuationTerms {
+  retentionRate: number; // Held from the gross valuation, e.g. 0.1
+  retentionLimit: number; // Retention stops once this share of the contract sum is held
+  advancePaymentKES: number; // Paid to the contractor up front, in the BQ currency
+  advanceRecoveryRate: number; // Share of the work done recovered against the advance
+}
+
+// Progress to date on one BQ item; cumulative, like the certificate
+export interface ValuationItem {
+  itemIndex: number; // Position in the contract BQ
+  itemNumber: string;
+  description: string;
+  unit: string;
+  contractQuantity: number;
+  unitRateKES: number;
+  contractAmountKES: number;
+  quantityComplete: number;
+  percentComplete: number;
+  valueKES: number;
+}
+
+// Progress to date on a variation order, valued at its current net amount
+export interface ValuationVariation {
+  variationId: string;
+  number: number;
+  title: string;
+  netKES: number;
+  percentComplete: number;
+  valueKES: number;
+}
+
+export interface MaterialOnSite {
+  description: string;
+  amountKES: number;
+}
+
+export interface ValuationCertificate {
+  contractSumKES: number;
+  workDoneKES: number; // Contract BQ items only
+  materialsOnSiteKES: number;
+  grossValuationKES: number;
+  retentionKES: number;
+  advanceRecoveredKES: number;
+  variationsKES: number; // Instructed and agreed variations valued to date
+  netValuationKES: number; // Gross less retention and advance recovered: the total certified to date
+  previousCertificatesKES: number;
+  amountDueKES: number;
+}
+
+// Money fields hold amounts in the contract BQ's currency
+export interface Valuation {
+  _id?: ObjectId;
+  projectId: string;
+  analysisId: string; // The contract BQ
+  userId: string;
+  number: number; // Valuation and payment certificate number, from 1 per contract BQ
+  valuationDate: Date;
+  status: ValuationStatus;
+  currency: CurrencyCode;
+  terms: ValuationTerms;
+  items: ValuationItem[]; // Items with work done to date
+  variations: ValuationVariation[];
+  materialsOnSite: MaterialOnSite[];
+  certificate: ValuationCertificate;
+  documentId?: string; // The payment certificate, once certified
+  certifiedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Contract baseline and variation order types
+export interface ContractBaseline {
+  lockedAt: Date;
+  lockedBy: string;
+  revisionNumber?: number; // The revision locked as the contract
+  contractSumKES: number; // Measured works, in the BQ currency
+  currency: CurrencyCode;
+  itemCount: number;
+}
+
+export type VariationStatus = 'proposed' | 'instructed' | 'agreed';
+
+export type VariationKind = 'addition' | 'omission';
+
+export interface VariationItem {
+  kind: VariationKind;
+  itemIndex?: number; // Contract BQ item whose rate is used; absent for a star rate
+  itemNumber?: string;
+  description: string;
+  unit: string;
+  quantity: number;
+  unitRateKES: number;
+  rateSource: 'bq' | 'star';
+  amountKES: number; // Negative for an omission
+}
+
+// Money fields hold amounts in the contract BQ's currency
+export interface Variation {
+  _id?: ObjectId;
+  projectId: string;
+  analysisId: string; // The contract BQ
+  userId: string;
+  number: number; // Variation order number, from 1 per contract BQ
+  title: string;
+  description?: string;
+  status: VariationStatus;
+  currency: CurrencyCode;
+  items: VariationItem[];
+  additionsKES: number;
+  omissionsKES: number; // Negative
+  netKES: number;
+  instructedAt?: Date;
+  agreedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface VariationRegisterLine {
+  variationId: string;
+  number: number;
+  title: string;
+  status: VariationStatus;
+  additionsKES: number;
+  omissionsKES: number;
+  netKES: number;
+  adjustedContractSumKES: number; // Running: the contract sum with this and every earlier instructed or agreed variation
+}
+
+export interface VariationRegister {
+  analysisId: string;
+  currency: CurrencyCode;
+  contractSumKES: number;
+  lines: VariationRegisterLine[];
+  totals: { proposedKES: number; instructedKES: number; agreedKES: number };
+  adjustedContractSumKES: number; // Contract sum with instructed and agreed variations
+  anticipatedContractSumKES: number; // Also with proposed variations
+}
+
+export interface FinalAccount {
+  analysisId: string;
+  currency: CurrencyCode;
+  contractSumKES: number;
+  additionsKES: number; // Instructed and agreed variations
+  omissionsKES: number;
+  agreedVariationsKES: number;
+  unagreedVariationsKES: number; // Instructed but not yet agreed
+  finalAccountKES: number;
+  isSettled: boolean; // Every variation is agreed
+  lastCertificate?: { number: number; valuationDate: Date; grossValuationKES: number; retentionKES: number; advanceRecoveredKES: number; netValuationKES: number };
+  balanceKES: number; // Still to be paid: the final account less the last certificate's net valuation and advance recovered
+  builtAt: Date;
+}
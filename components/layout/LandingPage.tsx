@@ -152,7 +152,7 @@ const LandingPage: React.FC<LandingPageProps> = ({ onLogin }) => {
                     <div className="flex-1">
                       <input
                         type="file"
-                        accept=".pdf,.dwg,.jpg,.png"
+                        accept=".pdf,.dxf,.dwg,.jpg,.png"
                         className="hidden"
                         id="floor-plan-upload"
                         onChange={handleFileUpload}
@@ -170,7 +170,7 @@ const LandingPage: React.FC<LandingPageProps> = ({ onLogin }) => {
                           </span>
                         </div>
                         <p className="text-sm text-white/70 mt-2">
-                          {uploadedFile ? 'File ready for analysis' : 'PDF, DWG, JPG, PNG supported'}
+                          {uploadedFile ? 'File ready for analysis' : 'PDF, DXF, DWG, JPG, PNG supported'}
                         </p>
                       </label>
                     </div>
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { Project, Document, Template, DocumentVersion } from '../../services/shared/types';
-import { generateDocumentContent } from '../../services/client/geminiService';
+import type { Project, Document, Template, DocumentVersion, MaterialSchedule } from '../../services/shared/types';
+import { documentsApi, projectsApi } from '../../services/client/apiService';
+import { DOCUMENT_TEMPLATES, MATERIAL_REQUISITION_TEMPLATE_ID, fillMaterialRequisition } from '../../services/server/documentService';
 import Icon from '../ui/Icon';
 import ConfirmationDialog from '../ui/ConfirmationDialog';
 import NewDocumentModal from './NewDocumentModal';
@@ -260,7 +261,11 @@ const DocumentsView: React.FC<DocumentsViewProps> = ({ project, documents, setDo
         }
         setIsGenerating(true);
         try {
-            const content = await generateDocumentContent(aiDocPrompt, aiDocType);
+            const response = await documentsApi.generateDocument(aiDocPrompt, aiDocType);
+            if (!response.success || !response.data) {
+                throw new Error(response.error?.message || "Failed to generate document");
+            }
+            const content: string = (response.data as any).data.content;
             const newDoc: Document = {
                 id: `doc-${Date.now()}`,
                 name: `AI Generated ${aiDocType}`,
@@ -278,7 +283,23 @@ const DocumentsView: React.FC<DocumentsViewProps> = ({ project, documents, setDo
         }
     };
 
-    const createFromTemplate = (template: Template) => {
+    // The requisition form starts from the project's material schedule; the blank form is kept if it can't be built
+    const prepareTemplate = async (template: Template): Promise<Template> => {
+        if (template.id !== MATERIAL_REQUISITION_TEMPLATE_ID) return template;
+        const blank = DOCUMENT_TEMPLATES.find(t => t.id === template.id) || template;
+        try {
+            const response = await projectsApi.getMaterialSchedule(project.id);
+            if (!response.success || !response.data) return blank;
+            const schedule: MaterialSchedule = (response.data as any).data.schedule;
+            return fillMaterialRequisition(blank, schedule, project.name);
+        } catch (error) {
+            console.error("Failed to load the material schedule:", error);
+            return blank;
+        }
+    };
+
+    const createFromTemplate = async (selected: Template) => {
+        const template = await prepareTemplate(selected);
         const newDoc: Document = {
             id: `doc-${Date.now()}`,
             name: `${template.name}`,
@@ -468,6 +489,7 @@ const DocumentsView: React.FC<DocumentsViewProps> = ({ project, documents, setDo
                 isOpen={showNewDocumentModal}
                 onClose={() => setShowNewDocumentModal(false)}
                 onCreateDocument={handleCreateNewDocument}
+                prepareTemplate={prepareTemplate}
             />
         </div>
     );
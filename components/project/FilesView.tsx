@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import type { UploadedFile, Document } from '../../services/shared/types';
+import type { UploadedFile, Document, AnalyzedBQ, BqImportRowError } from '../../services/shared/types';
 import UnifiedAnalysisModal from '../ui/UnifiedAnalysisModal';
+import BqImportModal from '../ui/BqImportModal';
+import BqComparisonModal from '../ui/BqComparisonModal';
 import Icon from '../ui/Icon';
 import VisualPlanEditor from './VisualPlanEditor';
 
@@ -17,6 +19,12 @@ const fileToBas64 = (file: File): Promise<string> => {
     });
 };
 
+// Priced BQ spreadsheets are imported rather than analysed
+const isBqSpreadsheet = (file: UploadedFile): boolean => /\.(csv|xlsx)$/i.test(file.name);
+
+// On-screen measurement works on drawing images
+const isPlanImage = (file: UploadedFile): boolean => (file.type || '').startsWith('image/');
+
 interface FilesViewProps {
     files: UploadedFile[];
     setFiles: React.Dispatch<React.SetStateAction<UploadedFile[]>>;
@@ -27,6 +35,10 @@ const FilesView: React.FC<FilesViewProps> = ({ files, setFiles, setDocuments })
     const [isAnalyzing, setIsAnalyzing] = useState<string | null>(null);
     const [analyzedFile, setAnalyzedFile] = useState<UploadedFile | null>(null);
     const [showAnalysisModal, setShowAnalysisModal] = useState(false);
+    const [importFile, setImportFile] = useState<UploadedFile | null>(null);
+    const [importedBq, setImportedBq] = useState<{ analysis: AnalyzedBQ; analysisId: string } | null>(null);
+    const [showComparison, setShowComparison] = useState(false);
+    const [measuredFile, setMeasuredFile] = useState<UploadedFile | null>(null);
 
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFiles = event.target.files;
@@ -59,6 +71,24 @@ const FilesView: React.FC<FilesViewProps> = ({ files, setFiles, setDocuments })
         setShowAnalysisModal(true);
     };
 
+    const handleImport = (file: UploadedFile) => {
+        if (!file.base64) {
+            alert("File is still processing. Please wait.");
+            return;
+        }
+        setImportFile(file);
+    };
+
+    const handleImported = (analysis: AnalyzedBQ, analysisId: string, errors: BqImportRowError[]) => {
+        if (errors.length > 0) {
+            alert(`${errors.length} rows could not be imported and were skipped.`);
+        }
+        setImportedBq({ analysis, analysisId });
+        setAnalyzedFile(importFile);
+        setImportFile(null);
+        setShowAnalysisModal(true);
+    };
+
     const handleSaveAnalysis = (content: string) => {
         if (!analyzedFile) return;
 
@@ -78,9 +108,28 @@ const FilesView: React.FC<FilesViewProps> = ({ files, setFiles, setDocuments })
         setDocuments(prev => [...prev, newDocument]);
         setShowAnalysisModal(false);
         setAnalyzedFile(null);
+        setImportedBq(null);
         setIsAnalyzing(null);
     };
 
+    const handleSaveChangeReport = (title: string, content: string) => {
+        const newDocument: Document = {
+            id: Date.now().toString(),
+            name: title,
+            type: 'Documentation',
+            createdAt: new Date().toISOString(),
+            content: content,
+            versions: [{
+                version: 1,
+                createdAt: new Date().toISOString(),
+                content: content
+            }]
+        };
+
+        setDocuments(prev => [...prev, newDocument]);
+        setShowComparison(false);
+    };
+
     const handleRemoveFile = (fileId: string) => {
         setFiles(prev => prev.filter(f => f.id !== fileId));
     };
@@ -94,13 +143,19 @@ const FilesView: React.FC<FilesViewProps> = ({ files, setFiles, setDocuments })
                     <p className="text-gray-600 mt-1">Upload floor plans and generate Bills of Quantities with AI</p>
                 </div>
                 <div className="flex items-center space-x-3">
+                    <button
+                        onClick={() => setShowComparison(true)}
+                        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                    >
+                        Compare BQs
+                    </button>
                     <label className="px-4 py-2 bg-[#29B6F6] text-white rounded-lg hover:bg-[#039BE5] cursor-pointer transition-colors duration-200 shadow-lg hover:shadow-xl">
                         <Icon name="upload" className="w-4 h-4 inline mr-2" />
                         Upload Files
                         <input
                             type="file"
                             multiple
-                            accept=".pdf,.dwg,.jpg,.png,.jpeg"
+                            accept=".pdf,.dxf,.dwg,.jpg,.png,.jpeg,.csv,.xlsx"
                             onChange={handleFileChange}
                             className="hidden"
                         />
@@ -117,7 +172,7 @@ const FilesView: React.FC<FilesViewProps> = ({ files, setFiles, setDocuments })
                         </div>
                         <h3 className="text-xl font-semibold text-gray-900 mb-2">No files uploaded yet</h3>
                         <p className="text-gray-600 mb-6 max-w-md">
-                            Upload your floor plans, architectural drawings, or PDFs to get started with AI-powered analysis.
+                            Upload your floor plans, architectural drawings, or PDFs to get started with AI-powered analysis, or a priced BQ spreadsheet (CSV/XLSX) to import.
                         </p>
                         <label className="px-6 py-3 bg-[#29B6F6] text-white rounded-lg hover:bg-[#039BE5] cursor-pointer transition-colors duration-200 shadow-lg hover:shadow-xl">
                             <Icon name="upload" className="w-5 h-5 inline mr-2" />
@@ -125,7 +180,7 @@ const FilesView: React.FC<FilesViewProps> = ({ files, setFiles, setDocuments })
                             <input
                                 type="file"
                                 multiple
-                                accept=".pdf,.dwg,.jpg,.png,.jpeg"
+                                accept=".pdf,.dxf,.dwg,.jpg,.png,.jpeg,.csv,.xlsx"
                                 onChange={handleFileChange}
                                 className="hidden"
                             />
@@ -157,35 +212,45 @@ const FilesView: React.FC<FilesViewProps> = ({ files, setFiles, setDocuments })
                                     </div>
 
                                     <div className="space-y-2">
-                                        <button
-                                            onClick={() => handleAnalyze(file)}
-                                            disabled={isAnalyzing === file.id}
-                                            className="w-full px-3 py-2 bg-[#29B6F6] text-white text-sm font-medium rounded-lg hover:bg-[#039BE5] disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center space-x-2"
-                                        >
-                                            {isAnalyzing === file.id ? (
-                                                <>
-                                                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                                                    <span>Analyzing...</span>
-                                                </>
-                                            ) : (
-                                                <>
-                                                    <Icon name="file" className="w-4 h-4" />
-                                                    <span>Analyze with AI</span>
-                                                </>
-                                            )}
-                                        </button>
-                                        
-                                        <button
-                                            onClick={() => {
-                                                // Open VisualPlanEditor for this file
-                                                // This would be implemented based on your VisualPlanEditor component
-                                                console.log('Open visual editor for:', file.name);
-                                            }}
-                                            className="w-full px-3 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 transition-colors duration-200 flex items-center justify-center space-x-2"
-                                        >
-                                            <Icon name="file" className="w-4 h-4" />
-                                            <span>Edit Plan</span>
-                                    </button>
+                                        {isBqSpreadsheet(file) ? (
+                                            <button
+                                                onClick={() => handleImport(file)}
+                                                className="w-full px-3 py-2 bg-[#29B6F6] text-white text-sm font-medium rounded-lg hover:bg-[#039BE5] transition-colors duration-200 flex items-center justify-center space-x-2"
+                                            >
+                                                <Icon name="upload" className="w-4 h-4" />
+                                                <span>Import BQ</span>
+                                            </button>
+                                        ) : (
+                                            <>
+                                                <button
+                                                    onClick={() => handleAnalyze(file)}
+                                                    disabled={isAnalyzing === file.id}
+                                                    className="w-full px-3 py-2 bg-[#29B6F6] text-white text-sm font-medium rounded-lg hover:bg-[#039BE5] disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center space-x-2"
+                                                >
+                                                    {isAnalyzing === file.id ? (
+                                                        <>
+                                                            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                                                            <span>Analyzing...</span>
+                                                        </>
+                                                    ) : (
+                                                        <>
+                                                            <Icon name="file" className="w-4 h-4" />
+                                                            <span>Analyze with AI</span>
+                                                        </>
+                                                    )}
+                                                </button>
+
+                                                {isPlanImage(file) && (
+                                                    <button
+                                                        onClick={() => setMeasuredFile(file)}
+                                                        className="w-full px-3 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 transition-colors duration-200 flex items-center justify-center space-x-2"
+                                                    >
+                                                        <Icon name="file" className="w-4 h-4" />
+                                                        <span>Measure Plan</span>
+                                                    </button>
+                                                )}
+                                            </>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -201,13 +266,41 @@ const FilesView: React.FC<FilesViewProps> = ({ files, setFiles, setDocuments })
                     onClose={() => {
                         setShowAnalysisModal(false);
                         setAnalyzedFile(null);
+                        setImportedBq(null);
                         setIsAnalyzing(null);
                     }}
                     onSave={handleSaveAnalysis}
                     file={analyzedFile}
-                    showDocumentPreview={true}
+                    showDocumentPreview={!importedBq}
                     showEditableBreakdown={true}
-                    title="AI Analysis Results"
+                    title={importedBq ? "Imported BQ" : "AI Analysis Results"}
+                    initialAnalysis={importedBq?.analysis}
+                    initialAnalysisId={importedBq?.analysisId}
+                />
+            )}
+
+            {/* BQ Comparison */}
+            <BqComparisonModal
+                isOpen={showComparison}
+                onClose={() => setShowComparison(false)}
+                onSaveReport={handleSaveChangeReport}
+            />
+
+            {/* On-screen takeoff */}
+            {measuredFile && (
+                <VisualPlanEditor
+                    file={measuredFile}
+                    onClose={() => setMeasuredFile(null)}
+                />
+            )}
+
+            {/* BQ Spreadsheet Import */}
+            {importFile && (
+                <BqImportModal
+                    isOpen={true}
+                    onClose={() => setImportFile(null)}
+                    onImported={handleImported}
+                    file={importFile}
                 />
             )}
         </div>
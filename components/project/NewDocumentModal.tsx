@@ -16,12 +16,15 @@ interface NewDocumentModalProps {
   isOpen: boolean;
   onClose: () => void;
   onCreateDocument: (document: Document) => void;
+  // Fills a chosen template with project data before the document is created
+  prepareTemplate?: (template: Template) => Promise<Template>;
 }
 
 const NewDocumentModal: React.FC<NewDocumentModalProps> = ({
   isOpen,
   onClose,
-  onCreateDocument
+  onCreateDocument,
+  prepareTemplate
 }) => {
   const [formData, setFormData] = useState<NewDocumentData>({
     name: '',
@@ -105,7 +108,7 @@ const NewDocumentModal: React.FC<NewDocumentModalProps> = ({
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!validateForm()) {
@@ -114,7 +117,7 @@ const NewDocumentModal: React.FC<NewDocumentModalProps> = ({
 
     const documentData: NewDocumentData = {
       ...formData,
-      template: selectedTemplate || undefined
+      template: selectedTemplate && prepareTemplate ? await prepareTemplate(selectedTemplate) : selectedTemplate || undefined
     };
 
     const newDocument = createNewDocument(documentData);
@@ -1,71 +1,329 @@
-
-import React, { useRef, useEffect, useState } from 'react';
-import type { UploadedFile } from '../../services/shared/types';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import type { AnalyzedBQ, MeasurementKind, PlanMeasurement, PlanPoint, PlanScale, UploadedFile } from '../../services/shared/types';
+import { analysisApi } from '../../services/client/apiService';
 import Icon from '../ui/Icon';
 
 interface VisualPlanEditorProps {
     file: UploadedFile;
     onClose: () => void;
-    onSave: (dataUrl: string) => void;
 }
 
-type Tool = 'rect' | 'text';
+type Tool = 'calibrate' | MeasurementKind;
+
+interface AnalysisOption {
+    _id: string;
+    projectName?: string;
+    fileName?: string;
+    createdAt: string;
+    analysisResult: AnalyzedBQ;
+}
+
+const TOOLS: Array<{ tool: Tool; label: string; hint: string }> = [
+    { tool: 'calibrate', label: 'Set Scale', hint: 'Click both ends of a known dimension' },
+    { tool: 'linear', label: 'Length', hint: 'Click along the run, then Finish' },
+    { tool: 'area', label: 'Area', hint: 'Click the corners of the area, then Finish' },
+    { tool: 'count', label: 'Count', hint: 'Click each item, then Finish' },
+];
+
+const UNITS: Record<MeasurementKind, PlanMeasurement['unit']> = { linear: 'm', area: 'm2', count: 'nr' };
+
+const MIN_POINTS: Record<MeasurementKind, number> = { linear: 2, area: 3, count: 1 };
 
-const VisualPlanEditor: React.FC<VisualPlanEditorProps> = ({ file, onClose, onSave }) => {
+// Same aliases the server accepts when matching a measurement to an item's unit
+const UNIT_ALIASES: Record<string, string> = {
+    'm2': 'm2', 'm²': 'm2', 'sqm': 'm2', 'sq.m': 'm2',
+    'm': 'm', 'lm': 'm', 'rm': 'm',
+    'nr': 'nr', 'no': 'nr', 'no.': 'nr', 'pcs': 'nr', 'each': 'nr',
+};
+
+const normalizeUnit = (unit: string) => UNIT_ALIASES[(unit || '').trim().toLowerCase()] || (unit || '').trim().toLowerCase();
+
+const distance = (a: PlanPoint, b: PlanPoint) => Math.hypot(b.x - a.x, b.y - a.y);
+
+// Mirrors the server's measurement so values show before the takeoff is saved
+const measureValue = (kind: MeasurementKind, points: PlanPoint[], scale: PlanScale | null): number => {
+    if (kind === 'count') return points.length;
+    if (!scale) return 0;
+    if (kind === 'linear') {
+        const pixels = points.slice(1).reduce((sum, point, index) => sum + distance(points[index], point), 0);
+        return Math.round(pixels * scale.metresPerPixel * 100) / 100;
+    }
+    const twiceArea = points.reduce((sum, point, index) => {
+        const next = points[(index + 1) % points.length];
+        return sum + point.x * next.y - next.x * point.y;
+    }, 0);
+    return Math.round((Math.abs(twiceArea) / 2) * scale.metresPerPixel * scale.metresPerPixel * 100) / 100;
+};
+
+const newMeasurementId = () => `m-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const VisualPlanEditor: React.FC<VisualPlanEditorProps> = ({ file, onClose }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [context, setContext] = useState<CanvasRenderingContext2D | null>(null);
-    const [tool, setTool] = useState<Tool>('rect');
+    const imageRef = useRef<HTMLImageElement | null>(null);
+    const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+    const [tool, setTool] = useState<Tool>('calibrate');
     const [color, setColor] = useState('#EF5350'); // A reddish color
+    const [scale, setScale] = useState<PlanScale | null>(null);
+    const [measurements, setMeasurements] = useState<PlanMeasurement[]>([]);
+    const [draft, setDraft] = useState<PlanPoint[]>([]);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [analyses, setAnalyses] = useState<AnalysisOption[]>([]);
+    const [analysisId, setAnalysisId] = useState('');
+    const [analysis, setAnalysis] = useState<AnalyzedBQ | null>(null);
+    const [attachTarget, setAttachTarget] = useState('new');
+    const [newDescription, setNewDescription] = useState('');
     const [isDirty, setIsDirty] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const isImage = (file.type || '').startsWith('image/');
 
     useEffect(() => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        
-        const ctx = canvas.getContext('2d');
-        setContext(ctx);
+        if (!isImage) return;
 
         const image = new Image();
         image.src = `data:${file.type};base64,${file.base64}`;
         image.onload = () => {
-            canvas.width = image.width;
-            canvas.height = image.height;
-            ctx?.drawImage(image, 0, 0);
+            imageRef.current = image;
+            setImageSize({ width: image.width, height: image.height });
         };
+    }, [file, isImage]);
+
+    useEffect(() => {
+        analysisApi.getAnalysisHistory().then(response => {
+            if (!response.success) {
+                setError(response.error?.message || 'Failed to load saved analyses');
+                return;
+            }
+            const saved: AnalysisOption[] = (response.data as any).data.analyses;
+            setAnalyses(saved);
+            const forThisFile = saved.find(option => option.fileName === file.name);
+            if (forThisFile) selectAnalysis(forThisFile);
+        });
     }, [file]);
 
-    const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
-        if (!context) return;
-        const rect = canvasRef.current?.getBoundingClientRect();
-        if (!rect) return;
-        
-        const scaleX = canvasRef.current!.width / rect.width;
-        const scaleY = canvasRef.current!.height / rect.height;
-
-        const x = (event.clientX - rect.left) * scaleX;
-        const y = (event.clientY - rect.top) * scaleY;
-        
-        if (tool === 'rect') {
-            context.strokeStyle = color;
-            context.lineWidth = 4;
-            context.strokeRect(x - 50, y - 25, 100, 50);
-        } else if (tool === 'text') {
-            const text = prompt('Enter text to add:');
-            if (text) {
-                context.fillStyle = color;
-                context.font = '24px Arial';
-                context.fillText(text, x, y);
+    const selectAnalysis = (option: AnalysisOption | undefined) => {
+        setAnalysisId(option?._id || '');
+        setAnalysis(option?.analysisResult || null);
+        setSelectedIds([]);
+
+        const takeoff = option?.analysisResult.takeoffs?.find(existing => existing.fileName === file.name);
+        setScale(takeoff?.scale || null);
+        setMeasurements(takeoff?.measurements || []);
+        setIsDirty(false);
+    };
+
+    const redraw = useCallback(() => {
+        const canvas = canvasRef.current;
+        const image = imageRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !image || !context) return;
+
+        canvas.width = image.width;
+        canvas.height = image.height;
+        context.drawImage(image, 0, 0);
+
+        const lineWidth = Math.max(2, image.width / 600);
+        const drawPath = (points: PlanPoint[], stroke: string, closed: boolean, fill?: string) => {
+            if (points.length === 0) return;
+            context.beginPath();
+            context.moveTo(points[0].x, points[0].y);
+            points.slice(1).forEach(point => context.lineTo(point.x, point.y));
+            if (closed) context.closePath();
+            if (fill) {
+                context.fillStyle = fill;
+                context.fill();
+            }
+            context.strokeStyle = stroke;
+            context.lineWidth = lineWidth;
+            context.stroke();
+        };
+        const drawMarkers = (points: PlanPoint[], fill: string) => {
+            context.fillStyle = fill;
+            points.forEach(point => {
+                context.beginPath();
+                context.arc(point.x, point.y, lineWidth * 3, 0, Math.PI * 2);
+                context.fill();
+            });
+        };
+
+        if (scale) {
+            drawPath(scale.points, '#1E88E5', false);
+            drawMarkers(scale.points, '#1E88E5');
+        }
+
+        measurements.forEach(measurement => {
+            const stroke = measurement.color || color;
+            const selected = selectedIds.includes(measurement.id);
+            if (measurement.kind === 'count') {
+                drawMarkers(measurement.points, stroke);
+            } else {
+                drawPath(measurement.points, stroke, measurement.kind === 'area', measurement.kind === 'area' ? `${stroke}33` : undefined);
             }
+            if (selected) drawMarkers(measurement.points, '#FFD600');
+        });
+
+        if (draft.length > 0) {
+            const kind = tool === 'calibrate' ? 'linear' : tool;
+            if (kind === 'count') {
+                drawMarkers(draft, color);
+            } else {
+                drawPath(draft, tool === 'calibrate' ? '#1E88E5' : color, false);
+                drawMarkers(draft, tool === 'calibrate' ? '#1E88E5' : color);
+            }
+        }
+    }, [scale, measurements, draft, selectedIds, color, tool]);
+
+    useEffect(() => {
+        redraw();
+    }, [redraw, imageSize]);
+
+    const toImagePoint = (event: React.MouseEvent<HTMLCanvasElement>): PlanPoint | null => {
+        const canvas = canvasRef.current;
+        const rect = canvas?.getBoundingClientRect();
+        if (!canvas || !rect) return null;
+
+        const scaleX = canvas.width / rect.width;
+        const scaleY = canvas.height / rect.height;
+        return { x: (event.clientX - rect.left) * scaleX, y: (event.clientY - rect.top) * scaleY };
+    };
+
+    const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+        const point = toImagePoint(event);
+        if (!point) return;
+
+        if (tool !== 'calibrate') {
+            setDraft(prev => [...prev, point]);
+            return;
+        }
+
+        if (draft.length === 0) {
+            setDraft([point]);
+            return;
+        }
+
+        const points: [PlanPoint, PlanPoint] = [draft[0], point];
+        setDraft([]);
+        const answer = prompt('Real length between the two points, in metres:');
+        const lengthM = parseFloat(answer || '');
+        const pixels = distance(points[0], points[1]);
+        if (!Number.isFinite(lengthM) || lengthM <= 0 || pixels === 0) {
+            setError('Enter the real length as a positive number of metres.');
+            return;
         }
+
+        const calibrated: PlanScale = { points, lengthM, metresPerPixel: lengthM / pixels };
+        setScale(calibrated);
+        setMeasurements(prev => prev.map(measurement => ({ ...measurement, value: measureValue(measurement.kind, measurement.points, calibrated) })));
+        setError(null);
         setIsDirty(true);
+        setTool('linear');
     };
-    
-    const handleSave = () => {
-        const canvas = canvasRef.current;
-        if (canvas) {
-            setIsDirty(false);
-            onSave(canvas.toDataURL(file.type));
+
+    const handleFinish = () => {
+        if (tool === 'calibrate') return;
+        if (draft.length < MIN_POINTS[tool]) {
+            setError(`A ${tool} measurement needs at least ${MIN_POINTS[tool]} points.`);
+            return;
         }
+        if (tool !== 'count' && !scale) {
+            setError('Set the scale before measuring lengths or areas.');
+            return;
+        }
+
+        const label = prompt('Name this measurement:', '') || '';
+        const measurement: PlanMeasurement = {
+            id: newMeasurementId(),
+            kind: tool,
+            label: label.trim() || `${TOOLS.find(option => option.tool === tool)!.label} ${measurements.length + 1}`,
+            points: draft,
+            value: measureValue(tool, draft, scale),
+            unit: UNITS[tool],
+            color,
+        };
+
+        setMeasurements(prev => [...prev, measurement]);
+        setDraft([]);
+        setError(null);
+        setIsDirty(true);
+    };
+
+    const handleDelete = (id: string) => {
+        setMeasurements(prev => prev.filter(measurement => measurement.id !== id));
+        setSelectedIds(prev => prev.filter(selected => selected !== id));
+        setIsDirty(true);
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
+    };
+
+    const saveTakeoff = async (): Promise<boolean> => {
+        if (!analysisId || !imageSize) {
+            setError('Choose the analysis to save the measurements to.');
+            return false;
+        }
+
+        setIsSaving(true);
+        const response = await analysisApi.saveTakeoff(analysisId, {
+            fileName: file.name,
+            imageWidth: imageSize.width,
+            imageHeight: imageSize.height,
+            scale: scale ? { points: scale.points, lengthM: scale.lengthM } : null,
+            measurements: measurements.map(({ id, kind, label, points, color: stroke }) => ({ id, kind, label, points, color: stroke })),
+        });
+        setIsSaving(false);
+
+        if (!response.success) {
+            setError(response.error?.message || 'Failed to save the measurements');
+            return false;
+        }
+
+        const data = (response.data as any).data;
+        setMeasurements(data.takeoff.measurements);
+        setAnalysis(data.analysis);
+        setAnalyses(prev => prev.map(option => (option._id === analysisId ? { ...option, analysisResult: data.analysis } : option)));
+        setIsDirty(false);
+        setError(null);
+        setMessage(data.message);
+        return true;
+    };
+
+    const handleAttach = async () => {
+        if (selectedIds.length === 0) return;
+        if (target === 'new' && !newDescription.trim()) {
+            setError('Describe the new BQ item.');
+            return;
+        }
+        if (isDirty && !(await saveTakeoff())) return;
+
+        setIsSaving(true);
+        const response = await analysisApi.attachMeasurements(analysisId, {
+            measurementIds: selectedIds,
+            ...(target === 'new'
+                ? { description: newDescription.trim() }
+                : { itemIndex: Number(target) }),
+        });
+        setIsSaving(false);
+
+        if (!response.success) {
+            setError(response.error?.message || 'Failed to attach the measurements');
+            return;
+        }
+
+        const data = (response.data as any).data;
+        setAnalysis(data.analysis);
+        setAnalyses(prev => prev.map(option => (option._id === analysisId ? { ...option, analysisResult: data.analysis } : option)));
+        setSelectedIds([]);
+        setNewDescription('');
+        setError(null);
+        setMessage(`Item ${data.analysis.billOfQuantities[data.itemIndex].itemNumber} now takes its quantity from the measurements`);
+    };
+
+    const handleAnalysisChange = (id: string) => {
+        if (isDirty && !window.confirm('You have unsaved measurements. Discard them?')) return;
+        selectAnalysis(analyses.find(option => option._id === id));
     };
 
     const handleClose = () => {
@@ -78,25 +336,127 @@ const VisualPlanEditor: React.FC<VisualPlanEditorProps> = ({ file, onClose, onSa
         }
     };
 
+    const selectedUnits = Array.from(new Set(measurements.filter(m => selectedIds.includes(m.id)).map(m => m.unit)));
+    const attachableItems = (analysis?.billOfQuantities || [])
+        .map((item, index) => ({ item, index }))
+        .filter(({ item }) => selectedUnits.length === 1 && normalizeUnit(item.unit) === selectedUnits[0]);
+    // The chosen item may no longer match the units of the selection
+    const target = attachableItems.some(({ index }) => String(index) === attachTarget) ? attachTarget : 'new';
+    const usedBy = (id: string) => (analysis?.billOfQuantities || [])
+        .filter(item => item.quantitySource?.measurementIds.includes(id))
+        .map(item => item.itemNumber);
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-70 flex flex-col items-center justify-center z-50 p-4">
-            <div className="w-full max-w-5xl bg-gray-800 p-3 rounded-t-xl flex items-center justify-between">
+            <div className="w-full max-w-6xl bg-gray-800 p-3 rounded-t-xl flex items-center justify-between">
                 <div className="flex items-center space-x-2">
-                    <button onClick={() => setTool('rect')} className={`px-3 py-2 rounded-md text-sm font-medium flex items-center space-x-2 ${tool === 'rect' ? 'bg-blue-500 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
-                        <span>Rectangle</span>
-                    </button>
-                    <button onClick={() => setTool('text')} className={`px-3 py-2 rounded-md text-sm font-medium flex items-center space-x-2 ${tool === 'text' ? 'bg-blue-500 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
-                        <span>Text</span>
-                    </button>
+                    {TOOLS.map(option => (
+                        <button
+                            key={option.tool}
+                            onClick={() => { setTool(option.tool); setDraft([]); }}
+                            title={option.hint}
+                            className={`px-3 py-2 rounded-md text-sm font-medium flex items-center space-x-2 ${tool === option.tool ? 'bg-blue-500 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            <span>{option.label}</span>
+                        </button>
+                    ))}
                     <input type="color" value={color} onChange={e => setColor(e.target.value)} className="w-8 h-8 rounded border-none bg-gray-700 cursor-pointer" />
+                    {tool !== 'calibrate' && draft.length > 0 && (
+                        <>
+                            <button onClick={handleFinish} className="px-3 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-500">
+                                Finish ({measureValue(tool, draft, scale).toLocaleString()} {UNITS[tool]})
+                            </button>
+                            <button onClick={() => setDraft([])} className="px-3 py-2 text-gray-300 rounded-md text-sm hover:bg-gray-700">Discard</button>
+                        </>
+                    )}
+                    <span className="text-xs text-gray-400 pl-2">
+                        {scale ? `Scale: 1 px = ${(scale.metresPerPixel * 1000).toFixed(1)} mm` : 'Scale not set'}
+                    </span>
                 </div>
                 <div className="flex items-center space-x-3">
-                    <button onClick={handleClose} className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-500">Cancel</button>
-                    <button onClick={handleSave} className="px-4 py-2 bg-[#29B6F6] text-white rounded-lg hover:bg-[#039BE5]">Save Annotations</button>
+                    <button onClick={handleClose} className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-500">Close</button>
+                    <button
+                        onClick={saveTakeoff}
+                        disabled={!isDirty || isSaving || !analysisId}
+                        className="px-4 py-2 bg-[#29B6F6] text-white rounded-lg hover:bg-[#039BE5] disabled:bg-gray-500 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? 'Saving...' : 'Save Measurements'}
+                    </button>
                 </div>
             </div>
-            <div className="w-full max-w-5xl flex-1 bg-gray-900 overflow-auto flex items-center justify-center rounded-b-xl">
-                 <canvas ref={canvasRef} onClick={handleCanvasClick} className="max-w-full max-h-full" style={{cursor: 'crosshair'}} />
+            <div className="w-full max-w-6xl flex-1 flex min-h-0 rounded-b-xl overflow-hidden">
+                <div className="flex-1 bg-gray-900 overflow-auto flex items-center justify-center">
+                    {isImage ? (
+                        <canvas ref={canvasRef} onClick={handleCanvasClick} className="max-w-full max-h-full" style={{ cursor: 'crosshair' }} />
+                    ) : (
+                        <p className="text-gray-300 text-sm">On-screen measurement needs an image of the drawing (JPG or PNG).</p>
+                    )}
+                </div>
+                <div className="w-80 bg-white flex flex-col text-sm">
+                    <div className="p-3 border-b">
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Analysis</label>
+                        <select value={analysisId} onChange={e => handleAnalysisChange(e.target.value)} className="w-full p-1 border rounded">
+                            <option value="">Choose an analysis...</option>
+                            {analyses.map(option => (
+                                <option key={option._id} value={option._id}>
+                                    {option.projectName || option.fileName} ({new Date(option.createdAt).toLocaleDateString()})
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex-1 overflow-y-auto p-3 space-y-2">
+                        {measurements.length === 0 && <p className="text-gray-500 text-xs">No measurements yet. Set the scale, then measure.</p>}
+                        {measurements.map(measurement => (
+                            <div key={measurement.id} className="flex items-start space-x-2">
+                                <input type="checkbox" checked={selectedIds.includes(measurement.id)} onChange={() => toggleSelected(measurement.id)} className="mt-1" />
+                                <span className="w-3 h-3 mt-1 rounded-sm flex-shrink-0" style={{ backgroundColor: measurement.color || color }} />
+                                <div className="flex-1 min-w-0">
+                                    <div className="truncate font-medium text-gray-900">{measurement.label}</div>
+                                    <div className="text-xs text-gray-500">
+                                        {measurement.value.toLocaleString()} {measurement.unit}
+                                        {usedBy(measurement.id).length > 0 && ` · item ${usedBy(measurement.id).join(', ')}`}
+                                    </div>
+                                </div>
+                                <button onClick={() => handleDelete(measurement.id)} className="text-gray-400 hover:text-red-500">
+                                    <Icon name="close" className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="p-3 border-t space-y-2">
+                        <label className="block text-xs font-medium text-gray-600">Use selected measurements as the quantity of</label>
+                        <select
+                            value={target}
+                            onChange={e => setAttachTarget(e.target.value)}
+                            disabled={selectedUnits.length !== 1}
+                            className="w-full p-1 border rounded"
+                        >
+                            <option value="new">A new BQ item</option>
+                            {attachableItems.map(({ item, index }) => (
+                                <option key={index} value={index}>{item.itemNumber}. {item.description}</option>
+                            ))}
+                        </select>
+                        {target === 'new' && (
+                            <input
+                                type="text"
+                                value={newDescription}
+                                onChange={e => setNewDescription(e.target.value)}
+                                placeholder="Description of the new item"
+                                className="w-full p-1 border rounded"
+                            />
+                        )}
+                        {selectedUnits.length > 1 && <p className="text-xs text-red-600">Select measurements of one kind only.</p>}
+                        <button
+                            onClick={handleAttach}
+                            disabled={selectedUnits.length !== 1 || !analysisId || isSaving}
+                            className="w-full px-3 py-2 bg-[#29B6F6] text-white rounded-lg hover:bg-[#039BE5] disabled:bg-gray-300 disabled:cursor-not-allowed"
+                        >
+                            Attach to BQ
+                        </button>
+                        {error && <p className="text-xs text-red-600">{error}</p>}
+                        {!error && message && <p className="text-xs text-green-700">{message}</p>}
+                    </div>
+                </div>
             </div>
         </div>
     );
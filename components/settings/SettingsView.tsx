@@ -1,12 +1,66 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import Icon from '../ui/Icon';
 import { UserProfile } from '@clerk/clerk-react';
+import { usersApi } from '../../services/client/apiService';
+import type { CompanyBranding } from '../../services/shared/types';
 
 type SettingTab = 'profile' | 'company' | 'preferences' | 'billing';
 
 const SettingsView: React.FC = () => {
     const [activeTab, setActiveTab] = useState<SettingTab>('profile');
+    const [company, setCompany] = useState<CompanyBranding>({ name: '' });
+    const [isSaving, setIsSaving] = useState(false);
+    const logoInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        usersApi.getCompany().then(response => {
+            // ApiService wraps the backend response, so the company is under response.data.data
+            const company = (response.data as any)?.data?.company;
+            if (response.success && company) {
+                setCompany(company);
+            }
+        });
+    }, []);
+
+    const updateCompany = (field: keyof CompanyBranding, value: string) => {
+        setCompany(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        if (!['image/png', 'image/jpeg'].includes(file.type)) {
+            alert('Please choose a PNG or JPEG image.');
+            return;
+        }
+
+        const reader = new FileReader();
+        reader.onload = () => updateCompany('logo', reader.result as string);
+        reader.readAsDataURL(file);
+    };
+
+    const handleSave = async () => {
+        if (activeTab !== 'company') return;
+        if (!company.name.trim()) {
+            alert('Company name is required.');
+            return;
+        }
+
+        setIsSaving(true);
+        const response = await usersApi.updateCompany({
+            ...company,
+            logo: company.logo || undefined,
+            email: company.email || undefined,
+        });
+        setIsSaving(false);
+
+        if (response.success) {
+            setCompany((response.data as any).data.company);
+        } else {
+            alert(response.error?.message || 'Failed to save company settings.');
+        }
+    };
 
     const renderTabContent = () => {
         switch (activeTab) {
@@ -42,15 +96,43 @@ const SettingsView: React.FC = () => {
                         <div className="mt-6 space-y-4">
                             <div>
                                 <label className="font-medium text-sm text-gray-700">Company Name</label>
-                                <input type="text" defaultValue="PW Surveyors" className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-[#29B6F6]" />
+                                <input type="text" value={company.name} onChange={(e) => updateCompany('name', e.target.value)} placeholder="PW Surveyors" className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-[#29B6F6]" />
                             </div>
                              <div>
                                 <label className="font-medium text-sm text-gray-700">Company Logo</label>
                                 <div className="mt-1 flex items-center space-x-4 p-4 border-2 border-dashed rounded-md">
-                                    <div className="w-16 h-16 bg-gray-200 rounded-md flex items-center justify-center font-bold text-[#0D47A1]">PW</div>
-                                    <button className="bg-white border border-gray-300 px-3 py-1.5 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50">Change</button>
+                                    {company.logo ? (
+                                        <img src={company.logo} alt="Company logo" className="w-16 h-16 object-contain rounded-md" />
+                                    ) : (
+                                        <div className="w-16 h-16 bg-gray-200 rounded-md flex items-center justify-center font-bold text-[#0D47A1]">
+                                            {company.name.trim().split(/\s+/).map(word => word[0]).join('').substring(0, 2).toUpperCase() || 'PW'}
+                                        </div>
+                                    )}
+                                    <input ref={logoInputRef} type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleLogoChange} />
+                                    <button onClick={() => logoInputRef.current?.click()} className="bg-white border border-gray-300 px-3 py-1.5 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50">Change</button>
+                                    {company.logo && (
+                                        <button onClick={() => updateCompany('logo', '')} className="text-sm font-medium text-gray-500 hover:text-gray-700">Remove</button>
+                                    )}
+                                </div>
+                            </div>
+                            <div>
+                                <label className="font-medium text-sm text-gray-700">Address</label>
+                                <input type="text" value={company.address || ''} onChange={(e) => updateCompany('address', e.target.value)} className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-[#29B6F6]" />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="font-medium text-sm text-gray-700">Phone</label>
+                                    <input type="tel" value={company.phone || ''} onChange={(e) => updateCompany('phone', e.target.value)} className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-[#29B6F6]" />
+                                </div>
+                                <div>
+                                    <label className="font-medium text-sm text-gray-700">Email</label>
+                                    <input type="email" value={company.email || ''} onChange={(e) => updateCompany('email', e.target.value)} className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-[#29B6F6]" />
                                 </div>
                             </div>
+                            <div>
+                                <label className="font-medium text-sm text-gray-700">Registration Number</label>
+                                <input type="text" value={company.registrationNumber || ''} onChange={(e) => updateCompany('registrationNumber', e.target.value)} className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-[#29B6F6]" />
+                            </div>
                         </div>
                     </div>
                 );
@@ -122,7 +204,7 @@ const SettingsView: React.FC = () => {
             </div>
              {/* Save Button Footer */}
             <div className="p-4 bg-gray-50 border-t border-gray-200 flex justify-end rounded-b-xl">
-                 <button className="bg-[#29B6F6] text-white font-semibold py-2.5 px-6 rounded-lg hover:bg-[#039BE5] transition-colors">Save Changes</button>
+                 <button onClick={handleSave} disabled={isSaving} className="bg-[#29B6F6] text-white font-semibold py-2.5 px-6 rounded-lg hover:bg-[#039BE5] transition-colors disabled:opacity-50">{isSaving ? 'Saving...' : 'Save Changes'}</button>
             </div>
         </div>
     );
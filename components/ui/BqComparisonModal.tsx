@@ -0,0 +1,317 @@
+import React, { useState, useEffect } from 'react';
+import { analysisApi, BqComparisonParams } from '../../services/client/apiService';
+import type { AnalysisRevisionSummary, BQChangeType, BQComparison } from '../../services/shared/types';
+
+interface BqComparisonModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaveReport?: (title: string, content: string) => void;
+}
+
+interface AnalysisOption {
+  _id: string;
+  projectName?: string;
+  fileName?: string;
+  createdAt: string;
+}
+
+const changeStyles: Record<BQChangeType, string> = {
+  added: 'bg-green-50',
+  removed: 'bg-red-50 text-gray-500',
+  changed: 'bg-yellow-50',
+  unchanged: ''
+};
+
+const formatKES = (amount: number) => amount.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatDelta = (amount: number) => `${amount > 0 ? '+' : ''}${formatKES(amount)}`;
+
+const deltaColor = (amount: number) => (amount > 0 ? 'text-red-700' : amount < 0 ? 'text-green-700' : 'text-gray-500');
+
+const BqComparisonModal: React.FC<BqComparisonModalProps> = ({ isOpen, onClose, onSaveReport }) => {
+  const [analyses, setAnalyses] = useState<AnalysisOption[]>([]);
+  const [base, setBase] = useState('');
+  const [revised, setRevised] = useState('');
+  const [baseRevisions, setBaseRevisions] = useState<AnalysisRevisionSummary[]>([]);
+  const [revisedRevisions, setRevisedRevisions] = useState<AnalysisRevisionSummary[]>([]);
+  const [baseRevision, setBaseRevision] = useState<number | undefined>(undefined);
+  const [revisedRevision, setRevisedRevision] = useState<number | undefined>(undefined);
+  const [comparison, setComparison] = useState<BQComparison | null>(null);
+  const [report, setReport] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    analysisApi.getAnalysisHistory().then(response => {
+      if (response.success) {
+        setAnalyses((response.data as any).data.analyses);
+      } else {
+        setError(response.error?.message || 'Failed to load saved analyses');
+      }
+    });
+  }, [isOpen]);
+
+  const loadRevisions = async (id: string, setRevisions: (revisions: AnalysisRevisionSummary[]) => void) => {
+    setRevisions([]);
+    if (!id) return;
+
+    const response = await analysisApi.getRevisions(id);
+    if (response.success) {
+      setRevisions((response.data as any).data.revisions);
+    }
+  };
+
+  useEffect(() => {
+    setBaseRevision(undefined);
+    loadRevisions(base, setBaseRevisions);
+  }, [base]);
+
+  useEffect(() => {
+    setRevisedRevision(undefined);
+    loadRevisions(revised, setRevisedRevisions);
+  }, [revised]);
+
+  const params: BqComparisonParams = { base, revised, baseRevision, revisedRevision };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    setError(null);
+
+    const response = await analysisApi.compareAnalyses(params);
+    setIsComparing(false);
+
+    if (response.success) {
+      const data = (response.data as any).data;
+      setComparison(data.comparison);
+      setReport(data.report);
+    } else {
+      setComparison(null);
+      setError(response.error?.message || 'Failed to compare the BQs');
+    }
+  };
+
+  const handleExportPdf = async () => {
+    const response = await analysisApi.exportComparisonPdf(params);
+    if (!response.success) {
+      alert('Failed to export the change report. Please try again.');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const analysisLabel = (analysis: AnalysisOption) =>
+    `${analysis.projectName || analysis.fileName || 'Analysis'} — ${new Date(analysis.createdAt).toLocaleDateString()}`;
+
+  const renderSidePicker = (
+    label: string,
+    value: string,
+    onChange: (id: string) => void,
+    revisions: AnalysisRevisionSummary[],
+    revision: number | undefined,
+    onRevisionChange: (revision: number | undefined) => void
+  ) => (
+    <div>
+      <label className="font-medium text-sm text-gray-700">{label}</label>
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="w-full mt-1 p-2 border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-[#29B6F6]"
+      >
+        <option value="">Select an analysis</option>
+        {analyses.map(analysis => <option key={analysis._id} value={analysis._id}>{analysisLabel(analysis)}</option>)}
+      </select>
+      {revisions.length > 0 && (
+        <select
+          value={revision ?? ''}
+          onChange={e => onRevisionChange(e.target.value ? Number(e.target.value) : undefined)}
+          className="w-full mt-2 p-2 text-sm border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-[#29B6F6]"
+        >
+          <option value="">Current version</option>
+          {revisions.map(rev => (
+            <option key={rev.revisionNumber} value={rev.revisionNumber}>
+              Rev {rev.revisionNumber} · {new Date(rev.createdAt).toLocaleString()}{rev.note ? ` · ${rev.note}` : ''}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+
+  const lines = comparison?.lines.filter(line => showUnchanged || line.change !== 'unchanged') || [];
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-6xl bg-white rounded-2xl shadow-2xl max-h-[95vh] flex flex-col">
+          {/* Header */}
+          <div className="p-4 border-b flex justify-between items-center flex-shrink-0">
+            <div>
+              <h3 className="text-xl font-semibold text-[#424242]">Compare BQs</h3>
+              <p className="text-sm text-gray-500">See what changed between two analyses or revisions</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">&times;</button>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 p-4 overflow-y-auto space-y-4">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderSidePicker('Base (earlier) BQ', base, setBase, baseRevisions, baseRevision, setBaseRevision)}
+              {renderSidePicker('Revised BQ', revised, setRevised, revisedRevisions, revisedRevision, setRevisedRevision)}
+            </div>
+
+            {comparison && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                  <div className="bg-gray-50 p-3 rounded-lg">
+                    <p className="text-sm text-gray-600">Base Total (KES)</p>
+                    <p className="font-bold text-lg text-[#0D47A1]">{formatKES(comparison.totals.baseTotalKES)}</p>
+                  </div>
+                  <div className="bg-gray-50 p-3 rounded-lg">
+                    <p className="text-sm text-gray-600">Revised Total (KES)</p>
+                    <p className="font-bold text-lg text-[#0D47A1]">{formatKES(comparison.totals.revisedTotalKES)}</p>
+                  </div>
+                  <div className="bg-gray-50 p-3 rounded-lg">
+                    <p className="text-sm text-gray-600">Net Change (KES)</p>
+                    <p className={`font-bold text-lg ${deltaColor(comparison.totals.deltaKES)}`}>
+                      {formatDelta(comparison.totals.deltaKES)}
+                      {comparison.totals.deltaPercent !== null && (
+                        <span className="ml-1 text-sm font-normal">({formatDelta(comparison.totals.deltaPercent)}%)</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="bg-gray-50 p-3 rounded-lg">
+                    <p className="text-sm text-gray-600">Lines</p>
+                    <p className="text-sm font-medium text-gray-800">
+                      {comparison.counts.added} added · {comparison.counts.removed} omitted · {comparison.counts.changed} changed
+                    </p>
+                  </div>
+                </div>
+
+                {/* Cost change by trade */}
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">Cost Change by Trade</h4>
+                  <div className="border rounded-lg overflow-hidden">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr className="text-left">
+                          <th className="p-2 font-semibold">Trade</th>
+                          <th className="p-2 font-semibold text-right">Base</th>
+                          <th className="p-2 font-semibold text-right">Revised</th>
+                          <th className="p-2 font-semibold text-right">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {comparison.categories.map(category => (
+                          <tr key={category.category} className="border-t">
+                            <td className="p-2">{category.category}</td>
+                            <td className="p-2 text-right">{formatKES(category.baseTotalKES)}</td>
+                            <td className="p-2 text-right">{formatKES(category.revisedTotalKES)}</td>
+                            <td className={`p-2 text-right font-medium ${deltaColor(category.deltaKES)}`}>{formatDelta(category.deltaKES)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                {/* Line changes */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-semibold text-gray-900">Line Changes</h4>
+                    <label className="flex items-center space-x-2 text-sm text-gray-600">
+                      <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+                      <span>Show unchanged lines</span>
+                    </label>
+                  </div>
+                  <div className="border rounded-lg overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50">
+                        <tr className="text-left">
+                          <th className="p-2 font-semibold">Change</th>
+                          <th className="p-2 font-semibold">Item</th>
+                          <th className="p-2 font-semibold">Description</th>
+                          <th className="p-2 font-semibold text-right">Qty</th>
+                          <th className="p-2 font-semibold text-right">Rate</th>
+                          <th className="p-2 font-semibold text-right">Cost Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {lines.map((line, index) => {
+                          const current = line.revised || line.base!;
+                          return (
+                            <tr key={index} className={`border-t ${changeStyles[line.change]}`}>
+                              <td className="p-2 capitalize">{line.change === 'removed' ? 'omitted' : line.change}</td>
+                              <td className="p-2">{current.itemNumber}</td>
+                              <td className="p-2">
+                                {current.description}
+                                {line.changedFields.includes('description') && (
+                                  <span className="block text-xs text-gray-500 line-through">{line.base!.description}</span>
+                                )}
+                              </td>
+                              <td className="p-2 text-right whitespace-nowrap">
+                                {line.changedFields.includes('quantity') && <span className="text-gray-500">{line.base!.quantity} → </span>}
+                                {current.quantity} {current.unit}
+                              </td>
+                              <td className="p-2 text-right whitespace-nowrap">
+                                {line.changedFields.includes('unitRateKES') && <span className="text-gray-500">{formatKES(line.base!.unitRateKES)} → </span>}
+                                {formatKES(current.unitRateKES)}
+                              </td>
+                              <td className={`p-2 text-right font-medium ${deltaColor(line.costDelta)}`}>{formatDelta(line.costDelta)}</td>
+                            </tr>
+                          );
+                        })}
+                        {lines.length === 0 && (
+                          <tr><td colSpan={6} className="p-4 text-center text-gray-500">No line changes.</td></tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="p-4 bg-gray-100 border-t rounded-b-xl flex justify-end space-x-3 flex-shrink-0">
+            <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-[#424242] rounded-lg hover:bg-gray-300">
+              Close
+            </button>
+            {comparison && onSaveReport && (
+              <button
+                onClick={() => onSaveReport(`BQ Change Report - ${comparison.revised.label}`, report)}
+                className="px-4 py-2 bg-white border border-gray-300 text-[#424242] rounded-lg hover:bg-gray-50"
+              >
+                Save as Document
+              </button>
+            )}
+            {comparison && (
+              <button
+                onClick={handleExportPdf}
+                className="px-4 py-2 bg-white border border-gray-300 text-[#424242] rounded-lg hover:bg-gray-50"
+              >
+                Export Change Report
+              </button>
+            )}
+            <button
+              onClick={handleCompare}
+              disabled={!base || !revised || isComparing}
+              className="px-4 py-2 bg-[#29B6F6] text-white rounded-lg hover:bg-[#039BE5] disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {isComparing ? 'Comparing...' : 'Compare'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BqComparisonModal;
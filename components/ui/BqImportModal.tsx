@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { analysisApi } from '../../services/client/apiService';
+import type { AnalyzedBQ, BqColumnMapping, BqImportField, BqImportPreview, BqImportRowError, UploadedFile } from '../../services/shared/types';
+
+interface BqImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (analysis: AnalyzedBQ, analysisId: string, errors: BqImportRowError[]) => void;
+  file: UploadedFile;
+}
+
+const FIELDS: Array<{ field: BqImportField; label: string; required?: boolean }> = [
+  { field: 'itemNumber', label: 'Item No.' },
+  { field: 'description', label: 'Description', required: true },
+  { field: 'unit', label: 'Unit' },
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'rate', label: 'Rate (KES)' },
+  { field: 'amount', label: 'Amount (KES)' },
+  { field: 'category', label: 'Trade / Section' }
+];
+
+// Helper to convert base64 to File
+const base64ToFile = (base64: string, filename: string, mimeType: string): File => {
+  const byteString = atob(base64);
+  const ia = new Uint8Array(byteString.length);
+  for (let i = 0; i < byteString.length; i++) {
+    ia[i] = byteString.charCodeAt(i);
+  }
+  return new File([ia], filename, { type: mimeType });
+};
+
+const BqImportModal: React.FC<BqImportModalProps> = ({ isOpen, onClose, onImported, file }) => {
+  const [preview, setPreview] = useState<BqImportPreview | null>(null);
+  const [mapping, setMapping] = useState<BqColumnMapping>({});
+  const [sheetName, setSheetName] = useState<string | undefined>(undefined);
+  const [projectName, setProjectName] = useState(file.name.replace(/\.[^.]+$/, ''));
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getFile = (): File => base64ToFile(file.base64 || '', file.name, file.type || 'text/csv');
+
+  const loadPreview = async (options: { sheetName?: string; mapping?: BqColumnMapping } = {}) => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await analysisApi.previewBqImport(getFile(), options);
+    if (response.success) {
+      // ApiService wraps the backend response, so the preview is under response.data.data
+      const data: BqImportPreview = (response.data as any).data;
+      setPreview(data);
+      setMapping(data.mapping);
+      setSheetName(data.sheetName);
+    } else {
+      setError(response.error?.message || 'Failed to read the spreadsheet');
+    }
+
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (isOpen && file.base64) {
+      loadPreview();
+    }
+  }, [isOpen, file]);
+
+  const handleMappingChange = (field: BqImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+    loadPreview({ sheetName, mapping: next });
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+
+    const response = await analysisApi.importBq(getFile(), mapping, projectName || file.name, sheetName);
+    setIsImporting(false);
+
+    if (response.success) {
+      const data = (response.data as any).data;
+      onImported(data.analysis, data.analysisId, data.errors || []);
+    } else {
+      setError(response.error?.message || 'Failed to import the BQ');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const canImport = !!preview && preview.mappingProblems.length === 0 && preview.itemCount > 0 && !isImporting;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-5xl bg-white rounded-2xl shadow-2xl max-h-[95vh] flex flex-col">
+          {/* Header */}
+          <div className="p-4 border-b flex justify-between items-center flex-shrink-0">
+            <div>
+              <h3 className="text-xl font-semibold text-[#424242]">Import BQ</h3>
+              <p className="text-sm text-gray-500">{file.name}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">&times;</button>
+          </div>
+
+          {/* Content */}
+          <div className="flex-1 p-4 overflow-y-auto space-y-4">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+            )}
+
+            {!preview && isLoading && (
+              <div className="flex items-center justify-center p-12">
+                <div className="w-10 h-10 border-4 border-[#29B6F6] border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            )}
+
+            {preview && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="font-medium text-sm text-gray-700">Project Name</label>
+                    <input
+                      type="text"
+                      value={projectName}
+                      onChange={(e) => setProjectName(e.target.value)}
+                      className="w-full mt-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-[#29B6F6]"
+                    />
+                  </div>
+                  {preview.sheetNames.length > 1 && (
+                    <div>
+                      <label className="font-medium text-sm text-gray-700">Worksheet</label>
+                      <select
+                        value={sheetName}
+                        onChange={(e) => loadPreview({ sheetName: e.target.value })}
+                        className="w-full mt-1 p-2 border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-[#29B6F6]"
+                      >
+                        {preview.sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                      </select>
+                    </div>
+                  )}
+                </div>
+
+                {/* Column mapping */}
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">Column Mapping</h4>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Headers read from row {preview.headerRowNumber}. Rows with only a description are treated as trade headings.
+                  </p>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {FIELDS.map(({ field, label, required }) => (
+                      <div key={field}>
+                        <label className="text-xs font-medium text-gray-700">{label}{required && ' *'}</label>
+                        <select
+                          value={mapping[field] ?? ''}
+                          onChange={(e) => handleMappingChange(field, e.target.value)}
+                          className="w-full mt-1 p-1.5 text-sm border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-[#29B6F6]"
+                        >
+                          <option value="">— Not mapped —</option>
+                          {preview.headers.map((header, index) => (
+                            <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  {preview.mappingProblems.length > 0 && (
+                    <ul className="mt-3 text-sm text-red-700 list-disc list-inside">
+                      {preview.mappingProblems.map(problem => <li key={problem}>{problem}</li>)}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Sample rows */}
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">
+                    Preview <span className="text-sm font-normal text-gray-500">({preview.sampleRows.length} of {preview.rowCount} rows)</span>
+                  </h4>
+                  <div className="overflow-x-auto border rounded-lg">
+                    <table className="w-full text-xs">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="p-2 text-left text-gray-500">Row</th>
+                          {preview.headers.map((header, index) => (
+                            <th key={index} className="p-2 text-left text-gray-700">{header || `Column ${index + 1}`}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.sampleRows.map(row => (
+                          <tr key={row.rowNumber} className={`border-t ${preview.errors.some(e => e.row === row.rowNumber) ? 'bg-red-50' : ''}`}>
+                            <td className="p-2 text-gray-400">{row.rowNumber}</td>
+                            {preview.headers.map((_, index) => (
+                              <td key={index} className="p-2 text-gray-700">{row.cells[index]}</td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                {/* Row validation errors */}
+                {preview.mappingProblems.length === 0 && (
+                  <div>
+                    <h4 className="font-semibold text-gray-900 mb-2">
+                      Validation <span className="text-sm font-normal text-gray-500">({preview.itemCount} items ready, {preview.errors.length} rows rejected)</span>
+                    </h4>
+                    {preview.errors.length > 0 ? (
+                      <div className="max-h-40 overflow-y-auto border border-red-200 rounded-lg divide-y">
+                        {preview.errors.map((rowError, index) => (
+                          <div key={index} className="p-2 text-sm flex space-x-3">
+                            <span className="font-medium text-red-700">Row {rowError.row}</span>
+                            <span className="text-gray-700">{rowError.message}{rowError.value ? ` ("${rowError.value}")` : ''}</span>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-green-700">All rows are valid.</p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="p-4 bg-gray-100 border-t rounded-b-xl flex justify-end space-x-3 flex-shrink-0">
+            <button onClick={onClose} className="px-4 py-2 bg-gray-200 text-[#424242] rounded-lg hover:bg-gray-300">
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={!canImport}
+              className="px-4 py-2 bg-[#29B6F6] text-white rounded-lg hover:bg-[#039BE5] disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importing...' : `Import ${preview?.itemCount ?? 0} Items`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BqImportModal;
@@ -29,6 +29,7 @@ interface CostingModalProps {
   onStartNewProject: () => void;
   isAuthenticated: boolean;
   analysisData?: AnalysisData;
+  progress?: { message: string; percent: number }; // Stage reached by a queued analysis
 }
 
 const CostingModal: React.FC<CostingModalProps> = ({
@@ -37,7 +38,8 @@ const CostingModal: React.FC<CostingModalProps> = ({
   onSaveDocument,
   onStartNewProject,
   isAuthenticated,
-  analysisData
+  analysisData,
+  progress
 }) => {
   if (!isOpen) return null;
 
@@ -52,7 +54,12 @@ const CostingModal: React.FC<CostingModalProps> = ({
               <div className="text-center">
                 <div className="w-16 h-16 border-4 border-[#29B6F6] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">Processing Analysis...</h3>
-                <p className="text-gray-600">Please wait while we analyze your floor plan</p>
+                <p className="text-gray-600">{progress ? progress.message : 'Please wait while we analyze your floor plan'}</p>
+                {progress && (
+                  <div className="w-64 h-2 mx-auto mt-4 bg-gray-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-[#29B6F6] transition-all duration-500" style={{ width: `${progress.percent}%` }}></div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
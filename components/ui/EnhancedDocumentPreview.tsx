@@ -4,6 +4,7 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import remarkGfm from 'remark-gfm';
 import type { Document } from '../../services/shared/types';
+import { documentsApi } from '../../services/client/apiService';
 
 interface EnhancedDocumentPreviewProps {
   doc: Document;
@@ -262,6 +263,14 @@ const EnhancedDocumentPreview: React.FC<EnhancedDocumentPreviewProps> = ({
   const [editedContent, setEditedContent] = useState(doc.content);
   const [editedType, setEditedType] = useState(doc.type);
 
+  const handleExportPdf = async () => {
+    const response = await documentsApi.exportToPdf(doc.id, `${doc.name}.pdf`);
+    if (!response.success) {
+      console.error('Failed to export document:', response.error);
+      alert('Failed to export the document to PDF. Please try again.');
+    }
+  };
+
   const handleSave = () => {
     if (onSave) {
       onSave(doc.id, editedContent, editedType);
@@ -377,12 +386,20 @@ const EnhancedDocumentPreview: React.FC<EnhancedDocumentPreviewProps> = ({
               </button>
             </>
           ) : (
-            <button 
-              onClick={onClose}
-              className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
-            >
-              Close
-            </button>
+            <>
+              <button 
+                onClick={handleExportPdf}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Export PDF
+              </button>
+              <button 
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Close
+              </button>
+            </>
           )}
         </div>
       </div>
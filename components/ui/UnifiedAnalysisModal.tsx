@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useUser, useClerk } from '@clerk/clerk-react';
 import { analysisApi } from '../../services/client/apiService';
-import type { AnalyzedBQ, BQItem, UploadedFile } from '../../services/shared/types';
+import { followAnalysisJob } from '../../services/client/socketService';
+import type { AnalysisJobStage, AnalysisJobUpdate, AnalysisRevisionSummary, AnalyzedBQ, BQDiscrepancy, BQGrouping, BQItem, UploadedFile } from '../../services/shared/types';
 
 interface UnifiedAnalysisModalProps {
   isOpen: boolean;
@@ -11,27 +12,69 @@ interface UnifiedAnalysisModalProps {
   showDocumentPreview?: boolean;
   showEditableBreakdown?: boolean;
   title?: string;
+  initialAnalysis?: AnalyzedBQ; // Already-stored BQ (e.g. imported from a spreadsheet) to edit without re-analysing
+  initialAnalysisId?: string;
 }
 
-const formatCurrency = (amount: number): string => {
-  return `KES ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+// Amounts are shown with their currency's own decimals, e.g. none for UGX
+const formatCurrency = (amount: number, currency: string = 'KES'): string => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay: 'code' }).format(amount).replace(/\u00a0/g, ' ');
 };
 
+const isSimulated = (analysis: AnalyzedBQ): boolean => analysis.metadata?.source === 'simulated';
+
 const formatBqToMarkdown = (analysis: AnalyzedBQ): string => {
   let md = `# Draft | Bill of Quantities\n\n`;
+  if (isSimulated(analysis)) {
+    md += `> **SIMULATED BQ - not measured from the drawing.** ${analysis.metadata?.fallback?.reason || ''}\n\n`;
+  }
+  const currency = analysis.metadata?.currency || 'KES';
   md += `## Summary\n`;
-  md += `- **Total Estimated Cost:** ${formatCurrency(analysis.summary.totalEstimatedCostKES)}\n`;
-  md += `- **Total Wastage Cost:** ${formatCurrency(analysis.summary.totalWastageCostKES)}\n`;
+  md += `- **Total Estimated Cost:** ${formatCurrency(analysis.summary.totalEstimatedCostKES, currency)}\n`;
+  md += `- **Total Wastage Cost:** ${formatCurrency(analysis.summary.totalWastageCostKES, currency)}\n`;
+  const escalation = analysis.metadata?.escalation;
+  if (escalation && !analysis.estimateSummary) {
+    md += `- **Escalation Allowance** (to ${escalation.basis === 'tender' ? 'tender' : 'construction midpoint'} ${escalation.targetDate.slice(0, 7)}, ${(escalation.percentage * 100).toFixed(1)}%): ${formatCurrency(escalation.allowance, currency)}\n`;
+  }
   md += `- **AI Confidence Score:** ${(analysis.summary.confidenceScore * 100).toFixed(1)}%\n\n`;
 
   md += `## Bill of Quantities\n`;
-  md += `| Item No. | Description | Unit | Qty | Rate (KES) | Wastage | Total (KES) |\n`;
+  md += `| Item No. | Description | Unit | Qty | Rate (${currency}) | Wastage | Total (${currency}) |\n`;
   md += `|---|---|---|---|---|---|---|\n`;
   analysis.billOfQuantities.forEach(item => {
     md += `| ${item.itemNumber} | ${item.description} | ${item.unit} | ${item.quantity.toFixed(2)} | ${item.unitRateKES.toLocaleString()} | ${(item.wastageFactor * 100).toFixed(1)}% | ${item.totalCostKES.toLocaleString()} |\n`;
   });
   md += `\n`;
 
+  const estimate = analysis.estimateSummary;
+  if (estimate) {
+    md += `## Estimate Summary\n`;
+    md += `| Description | Amount (${currency}) |\n`;
+    md += `|---|---|\n`;
+    md += `| Measured works | ${estimate.measuredWorks.toLocaleString()} |\n`;
+    estimate.lines.forEach(line => {
+      const rate = line.kind === 'percentage' ? ` (${((line.rate || 0) * 100).toFixed(1)}%)` : '';
+      md += `| ${line.label}${rate}${line.vatExempt ? ' (VAT exempt)' : ''} | ${line.amount.toLocaleString()} |\n`;
+    });
+    md += `| **Sub-total** | **${estimate.subtotal.toLocaleString()}** |\n`;
+    md += `| VAT (${(estimate.vatRate * 100).toFixed(1)}%) | ${estimate.vat.toLocaleString()} |\n`;
+    md += `| **Grand total** | **${estimate.grandTotal.toLocaleString()}** |\n\n`;
+  }
+  (analysis.metadata?.conversions || []).forEach(conversion => {
+    md += `_Converted from ${conversion.from} at 1 ${conversion.from} = ${conversion.rate} ${conversion.to} (rate effective ${conversion.effectiveDate.slice(0, 10)}, ${conversion.source})_\n\n`;
+  });
+
+  const differences = analysis.summary.regionalPricingDifferences || [];
+  if (differences.length > 0) {
+    md += `## Cost in Other Locations\n`;
+    md += `| Location | County | Total (${currency}) | Difference |\n`;
+    md += `|---|---|---|---|\n`;
+    differences.forEach(difference => {
+      md += `| ${difference.region} | ${difference.county} | ${difference.totalCost.toLocaleString()} | ${(difference.percentageDifference * 100).toFixed(1)}% |\n`;
+    });
+    md += `\n`;
+  }
+
   md += `## Intelligent Suggestions\n`;
   analysis.intelligentSuggestions.forEach(sugg => {
     md += `### ${sugg.suggestionType}: ${sugg.originalItem}\n`;
@@ -42,6 +85,53 @@ const formatBqToMarkdown = (analysis: AnalyzedBQ): string => {
   return md;
 };
 
+const severityStyles: Record<BQDiscrepancy['severity'], string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-amber-100 text-amber-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800'
+};
+
+// Group BQ rows by work section or element, keeping each row's index for editing
+const groupBqRows = (items: BQItem[], groupBy: BQGrouping) => {
+  const groups = new Map<string, { code: string; rows: Array<{ item: BQItem; index: number }> }>();
+
+  items.forEach((item, index) => {
+    const classification = item.classification;
+    const code = classification ? (groupBy === 'trade' ? classification.workSectionCode : classification.elementCode) : '99';
+    const label = classification && code !== '99'
+      ? `${code} ${groupBy === 'trade' ? classification.workSectionName : classification.elementName}`
+      : 'Unclassified';
+
+    if (!groups.has(label)) groups.set(label, { code, rows: [] });
+    groups.get(label)!.rows.push({ item, index });
+  });
+
+  return Array.from(groups.entries())
+    .map(([label, group]) => ({ label, ...group }))
+    .sort((a, b) => (a.code === '99' ? 1 : 0) - (b.code === '99' ? 1 : 0) || a.code.localeCompare(b.code, 'en', { numeric: true }));
+};
+
+const jobStages: Array<[AnalysisJobStage, string]> = [
+  ['uploaded', 'Uploaded'],
+  ['pages_split', 'Sheets split'],
+  ['ai_called', 'AI analysis'],
+  ['parsed', 'BQ read'],
+  ['reconciled', 'Rates checked'],
+  ['saved', 'Saved']
+];
+
+const failedAnalysis = (message: string): AnalyzedBQ => ({
+  error: message,
+  summary: {
+    totalEstimatedCostKES: 0,
+    totalWastageCostKES: 0,
+    confidenceScore: 0
+  },
+  billOfQuantities: [],
+  intelligentSuggestions: []
+} as AnalyzedBQ);
+
 // Helper to convert base64 to File
 const base64ToFile = (base64: string, filename: string, mimeType: string): File => {
   const byteString = atob(base64);
@@ -60,7 +150,9 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
   file,
   showDocumentPreview = true,
   showEditableBreakdown = true,
-  title = "Metrrik Analysis Results"
+  title = "Metrrik Analysis Results",
+  initialAnalysis,
+  initialAnalysisId
 }) => {
   const { user } = useUser();
   const clerk = useClerk();
@@ -69,7 +161,14 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
   const [analysisResult, setAnalysisResult] = useState<AnalyzedBQ | null>(null);
   const [editableAnalysis, setEditableAnalysis] = useState<AnalyzedBQ | null>(null);
   const [analysisId, setAnalysisId] = useState<string | null>(null);
+  const [job, setJob] = useState<AnalysisJobUpdate | null>(null);
   const [hoveredItem, setHoveredItem] = useState<string | null>(null);
+  const [groupBy, setGroupBy] = useState<BQGrouping | 'none'>('none');
+  const [splitRates, setSplitRates] = useState(false);
+  const [isClassifying, setIsClassifying] = useState(false);
+  const [revisions, setRevisions] = useState<AnalysisRevisionSummary[]>([]);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [revisionNote, setRevisionNote] = useState('');
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   // Convert File to base64 for analysis
@@ -170,6 +269,16 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
     const item = { ...newBq[index] };
     (item[field] as any) = value;
 
+    // A hand-edited rate is no longer the AI's or the library's
+    if (field === 'unitRateKES') {
+      item.rateProvenance = { ...item.rateProvenance, source: 'manual', aiRateKES: item.rateProvenance?.aiRateKES ?? value };
+    }
+
+    // A hand-edited quantity no longer follows the on-screen measurements
+    if (field === 'quantity') {
+      delete item.quantitySource;
+    }
+
     // Recalculate total if quantity or rate changes
     if (field === 'quantity' || field === 'unitRateKES' || field === 'wastageFactor') {
       item.totalCostKES = (item.quantity * item.unitRateKES) * (1 + item.wastageFactor);
@@ -213,6 +322,93 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
     setEditableAnalysis(prev => ({ ...prev!, billOfQuantities: newBq }));
   };
 
+  const handleResolveReconciliation = async (resolution: 'ai' | 'recomputed') => {
+    if (!analysisId) return;
+
+    try {
+      const response = await analysisApi.resolveReconciliation(analysisId, resolution);
+      const backendData = response.data as any;
+
+      if (!response.success || !backendData?.data?.analysis) {
+        throw new Error(response.error?.message || 'Failed to resolve discrepancies');
+      }
+
+      setEditableAnalysis(backendData.data.analysis);
+    } catch (error) {
+      console.error('Failed to resolve reconciliation:', error);
+      alert('Failed to apply your choice. Please try again.');
+    }
+  };
+
+  const loadRevisions = async (id: string) => {
+    const response = await analysisApi.getRevisions(id);
+    if (response.success) {
+      setRevisions((response.data as any).data.revisions);
+    }
+  };
+
+  const handleRestoreRevision = async () => {
+    if (!analysisId || selectedRevision === null) return;
+    if (!confirm(`Restore revision ${selectedRevision}? Your current BQ is kept in the revision history.`)) return;
+
+    try {
+      const response = await analysisApi.restoreRevision(analysisId, selectedRevision);
+      const backendData = response.data as any;
+
+      if (!response.success || !backendData?.data?.analysis) {
+        throw new Error(response.error?.message || 'Failed to restore revision');
+      }
+
+      setEditableAnalysis(backendData.data.analysis);
+      setSelectedRevision(null);
+      await loadRevisions(analysisId);
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      alert('Failed to restore the revision. Please try again.');
+    }
+  };
+
+  const handleClassify = async () => {
+    if (!analysisId) return;
+
+    setIsClassifying(true);
+    try {
+      const response = await analysisApi.classifyAnalysis(analysisId);
+      const backendData = response.data as any;
+
+      if (!response.success || !backendData?.data?.analysis) {
+        throw new Error(response.error?.message || 'Failed to classify BQ');
+      }
+
+      setEditableAnalysis(backendData.data.analysis);
+    } catch (error) {
+      console.error('Failed to classify BQ:', error);
+      alert('Failed to classify the BQ. Please save and try again.');
+    } finally {
+      setIsClassifying(false);
+    }
+  };
+
+  const handleExportExcel = async () => {
+    if (!analysisId) return;
+
+    const response = await analysisApi.exportToExcel(analysisId, `${title.replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'BQ'}.xlsx`, groupBy === 'none' ? 'trade' : groupBy, undefined, splitRates);
+    if (!response.success) {
+      console.error('Failed to export BQ:', response.error);
+      alert('Failed to export the BQ to Excel. Please save and try again.');
+    }
+  };
+
+  const handleExportPdf = async () => {
+    if (!analysisId) return;
+
+    const response = await analysisApi.exportToPdf(analysisId, `${title.replace(/[^a-zA-Z0-9-_ ]/g, '').trim() || 'BQ'}.pdf`, groupBy === 'none' ? 'trade' : groupBy);
+    if (!response.success) {
+      console.error('Failed to export BQ:', response.error);
+      alert('Failed to export the BQ to PDF. Please save and try again.');
+    }
+  };
+
   const handleSave = async () => {
     if (!editableAnalysis) return;
 
@@ -233,7 +429,17 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
     // Save to backend if we have an ID (Draft BQ)
     if (analysisId) {
       try {
-        await analysisApi.updateAnalysis(analysisId, editableAnalysis);
+        const response = await analysisApi.updateAnalysis(analysisId, editableAnalysis, revisionNote.trim());
+        if (!response.success) {
+          throw new Error(response.error?.message || 'Failed to save draft');
+        }
+        // The server rebuilds the estimate summary from the saved items
+        const estimateSummary = (response.data as any)?.data?.estimateSummary;
+        if (estimateSummary) {
+          setEditableAnalysis(prev => ({ ...prev!, estimateSummary }));
+        }
+        setRevisionNote('');
+        await loadRevisions(analysisId);
         alert('Draft BQ saved successfully!');
       } catch (error) {
         console.error('Failed to save draft:', error);
@@ -248,68 +454,150 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
     onSave(markdownContent);
   };
 
+  // Analyse the file, bypassing the cache of identical drawings when re-analysing
+  const performAnalysis = async (reanalyze: boolean = false) => {
+    setIsAnalyzing(true);
+    let queued = false;
+    try {
+      let fileObj: File;
+
+      if ('base64' in file && file.base64) {
+        fileObj = base64ToFile(file.base64, file.name || 'document', file.type || 'application/pdf');
+      } else if (file instanceof File) {
+        fileObj = file;
+      } else {
+        throw new Error("Invalid file format");
+      }
+
+      // Signed-in users get a queued job with live progress instead of one long request
+      if (user) {
+        const response = await analysisApi.submitAnalysisJob(fileObj, file.name || "Draft Project", 'residential', { reanalyze });
+        if (!response.success || !response.data) {
+          throw new Error(response.error?.message || "Failed to queue the analysis");
+        }
+        setJob((response.data as any).data.job);
+        queued = true;
+        return;
+      }
+
+      // Call Backend API
+      console.log("UnifiedAnalysisModal: Calling analyzeFloorPlan...");
+      const response = await analysisApi.analyzeFloorPlan(fileObj, file.name || "Draft Project", 'residential', { reanalyze });
+      console.log("UnifiedAnalysisModal: API Response:", response);
+
+      if (response.success && response.data) {
+        // ApiService wraps the backend response, so we need response.data.data
+        const backendData = response.data as any;
+
+        if (!backendData.data || !backendData.data.analysis) {
+          console.error("UnifiedAnalysisModal: Missing analysis object in nested data", backendData);
+          throw new Error("Invalid server response structure");
+        }
+
+        console.log("UnifiedAnalysisModal: Setting analysis result", backendData.data.analysis);
+        setAnalysisResult(backendData.data.analysis);
+        setEditableAnalysis(backendData.data.analysis);
+
+        if (backendData.data.analysisId) {
+          setAnalysisId(backendData.data.analysisId);
+        }
+      } else {
+        console.error("UnifiedAnalysisModal: Analysis failed success=false", response.error);
+        throw new Error(response.error?.message || "Analysis failed");
+      }
+
+    } catch (error: any) {
+      console.error("Analysis failed", error);
+      setAnalysisResult(failedAnalysis(error.message || "Failed to analyze the document. Please try again."));
+    } finally {
+      if (!queued) setIsAnalyzing(false);
+    }
+  };
+
   // Perform analysis when modal opens
   useEffect(() => {
-    if (isOpen && file && !analysisResult) {
-      const performAnalysis = async () => {
-        setIsAnalyzing(true);
-        try {
-          let fileObj: File;
-
-          if ('base64' in file && file.base64) {
-            fileObj = base64ToFile(file.base64, file.name || 'document', file.type || 'application/pdf');
-          } else if (file instanceof File) {
-            fileObj = file;
-          } else {
-            throw new Error("Invalid file format");
-          }
-
-          // Call Backend API
-          console.log("UnifiedAnalysisModal: Calling analyzeFloorPlan...");
-          const response = await analysisApi.analyzeFloorPlan(fileObj, file.name || "Draft Project");
-          console.log("UnifiedAnalysisModal: API Response:", response);
-
-          if (response.success && response.data) {
-            // ApiService wraps the backend response, so we need response.data.data
-            const backendData = response.data as any;
-
-            if (!backendData.data || !backendData.data.analysis) {
-              console.error("UnifiedAnalysisModal: Missing analysis object in nested data", backendData);
-              throw new Error("Invalid server response structure");
-            }
+    if (isOpen && initialAnalysis && !analysisResult) {
+      setAnalysisResult(initialAnalysis);
+      setEditableAnalysis(initialAnalysis);
+      setAnalysisId(initialAnalysisId || null);
+      return;
+    }
 
-            console.log("UnifiedAnalysisModal: Setting analysis result", backendData.data.analysis);
-            setAnalysisResult(backendData.data.analysis);
-            setEditableAnalysis(backendData.data.analysis);
+    if (isOpen && file && !analysisResult && !job) {
+      performAnalysis();
+    }
+  }, [isOpen, file, analysisResult, initialAnalysis, initialAnalysisId, job, user]);
 
-            if (backendData.data.analysisId) {
-              setAnalysisId(backendData.data.analysisId);
-            }
-          } else {
-            console.error("UnifiedAnalysisModal: Analysis failed success=false", response.error);
-            throw new Error(response.error?.message || "Analysis failed");
-          }
-
-        } catch (error: any) {
-          console.error("Analysis failed", error);
-          setAnalysisResult({
-            error: error.message || "Failed to analyze the document. Please try again.",
-            summary: {
-              totalEstimatedCostKES: 0,
-              totalWastageCostKES: 0,
-              confidenceScore: 0
-            },
-            billOfQuantities: [],
-            intelligentSuggestions: []
-          } as AnalyzedBQ);
-        } finally {
-          setIsAnalyzing(false);
+  // Follow the queued job; fetch it once as well, since it may have moved on before the room was joined
+  useEffect(() => {
+    if (!job?.jobId) return;
+    const jobId = job.jobId;
+
+    const stopFollowing = followAnalysisJob(jobId, update => setJob(update));
+    analysisApi.getAnalysisJob(jobId).then(response => {
+      if (response.success && response.data) {
+        const current = (response.data as any).data.job;
+        setJob(previous => (previous && previous.updatedAt > current.updatedAt ? previous : current));
+      }
+    });
+
+    return stopFollowing;
+  }, [job?.jobId]);
+
+  // Open the analysis once the job has saved it
+  useEffect(() => {
+    if (!job) return;
+
+    if (job.status === 'completed') {
+      analysisApi.getAnalysisJob(job.jobId).then(response => {
+        const data = response.success && response.data ? (response.data as any).data : null;
+        if (data?.analysis) {
+          setAnalysisResult(data.analysis);
+          setEditableAnalysis(data.analysis);
+          setAnalysisId(data.job.analysisId);
+        } else {
+          setAnalysisResult(failedAnalysis(response.error?.message || "The analysis finished but could not be loaded"));
         }
-      };
+        setIsAnalyzing(false);
+      });
+    } else if (job.status === 'failed' || job.status === 'cancelled') {
+      setAnalysisResult(failedAnalysis(job.status === 'cancelled'
+        ? 'The analysis was cancelled.'
+        : job.error || "Failed to analyze the document. Please try again."));
+      setIsAnalyzing(false);
+    }
+  }, [job?.jobId, job?.status]);
 
-      performAnalysis();
+  const handleCancelJob = async () => {
+    if (job) {
+      const response = await analysisApi.cancelAnalysisJob(job.jobId);
+      if (!response.success) {
+        alert(response.error?.message || 'The analysis could not be cancelled');
+        return;
+      }
+      setJob((response.data as any).data.job);
+    }
+    onClose();
+  };
+
+  const handleRetryJob = async () => {
+    if (!job) return;
+    const response = await analysisApi.retryAnalysisJob(job.jobId);
+    if (!response.success) {
+      alert(response.error?.message || 'The analysis could not be retried');
+      return;
+    }
+    setJob((response.data as any).data.job);
+    setAnalysisResult(null);
+    setIsAnalyzing(true);
+  };
+
+  // Load the saved revisions once the analysis has been stored
+  useEffect(() => {
+    if (isOpen && analysisId && user) {
+      loadRevisions(analysisId);
     }
-  }, [isOpen, file, analysisResult]);
+  }, [isOpen, analysisId, user]);
 
   // Draw document preview when analysis changes
   useEffect(() => {
@@ -331,7 +619,32 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
               <div className="text-center">
                 <div className="w-16 h-16 border-4 border-[#29B6F6] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">Analyzing Document...</h3>
-                <p className="text-gray-600">Please wait while we analyze your floor plan</p>
+                {job ? (
+                  <div className="w-80 mx-auto">
+                    <p className="text-gray-600 mb-3">{job.status === 'queued' ? 'Waiting for a free analyser' : job.message}</p>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-4">
+                      <div className="h-full bg-[#29B6F6] transition-all duration-500" style={{ width: `${job.percent}%` }}></div>
+                    </div>
+                    <ul className="text-sm text-left space-y-1 mb-6">
+                      {jobStages.map(([stage, label], index) => {
+                        const reached = index <= jobStages.findIndex(([current]) => current === job.stage);
+                        return (
+                          <li key={stage} className={reached ? 'text-gray-900' : 'text-gray-400'}>
+                            {reached ? '✓' : '○'} {label}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    <button
+                      onClick={handleCancelJob}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-lg hover:bg-gray-200"
+                    >
+                      Cancel Analysis
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-gray-600">Please wait while we analyze your floor plan</p>
+                )}
               </div>
             </div>
           </div>
@@ -366,6 +679,14 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
                 >
                   Close
                 </button>
+                {(job?.status === 'failed' || job?.status === 'cancelled') && (
+                  <button
+                    onClick={handleRetryJob}
+                    className="px-4 py-2 text-sm font-medium text-white bg-[#29B6F6] rounded-lg hover:bg-[#039BE5] focus:outline-none focus:ring-2 focus:ring-[#29B6F6]"
+                  >
+                    Retry
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -377,6 +698,106 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
   // Success state with analysis results
   if (!editableAnalysis) return null;
 
+  const reconciliation = editableAnalysis.reconciliation;
+  const flaggedLines = new Map(
+    (reconciliation?.discrepancies || [])
+      .filter(d => d.scope === 'line' && d.lineIndex !== undefined)
+      .map(d => [d.lineIndex as number, d])
+  );
+
+  const renderBqRow = (item: BQItem, index: number) => (
+    <tr
+      key={index}
+      onMouseEnter={() => setHoveredItem(item.itemNumber)}
+      onMouseLeave={() => setHoveredItem(null)}
+      className={`border-t hover:bg-yellow-50 ${flaggedLines.has(index) ? 'bg-red-50' : ''}`}
+      title={flaggedLines.get(index)?.message}
+    >
+      <td className="p-1">
+        <input
+          type="text"
+          value={item.description}
+          onChange={e => handleBqChange(index, 'description', e.target.value)}
+          className="w-full p-1 border rounded"
+        />
+        {item.classification && item.classification.source !== 'unclassified' && (
+          <span
+            title={`${item.classification.workSectionName} · ${item.classification.elementName}`}
+            className="block text-[10px] text-gray-500"
+          >
+            {item.classification.workSectionCode} · NRM {item.classification.elementCode}
+            {item.classification.source === 'ai' && ' (AI)'}
+          </span>
+        )}
+        {item.sourcePages && item.sourcePages.length > 0 && (
+          <span className="block text-[10px] text-gray-500">
+            {item.sourcePages.length === 1 ? 'Page' : 'Pages'} {item.sourcePages.join(', ')}
+          </span>
+        )}
+        {item.quantityBasis && (
+          <span className="block text-[10px] text-gray-500" title="Measured from the CAD drawing">
+            {item.quantityBasis}
+          </span>
+        )}
+        {item.quantitySource && (
+          <span className="block text-[10px] text-gray-500" title="Editing the quantity detaches the measurements">
+            Measured on screen ({item.quantitySource.measurementIds.length} {item.quantitySource.measurementIds.length === 1 ? 'measurement' : 'measurements'})
+          </span>
+        )}
+      </td>
+      <td className="p-1">
+        <input
+          type="number"
+          value={item.quantity}
+          onChange={e => handleBqChange(index, 'quantity', parseFloat(e.target.value))}
+          className="w-20 p-1 border rounded"
+        />
+      </td>
+      <td className="p-1">
+        <input
+          type="text"
+          value={item.unit}
+          onChange={e => handleBqChange(index, 'unit', e.target.value)}
+          className="w-12 p-1 border rounded"
+        />
+      </td>
+      <td className="p-1">
+        <input
+          type="number"
+          value={item.unitRateKES}
+          onChange={e => handleBqChange(index, 'unitRateKES', parseFloat(e.target.value))}
+          className="w-24 p-1 border rounded"
+        />
+        {item.rateProvenance && (
+          <span
+            title={item.rateProvenance.librarySource ? `${item.rateProvenance.librarySource} (${item.rateProvenance.region})` : undefined}
+            className={`block text-[10px] ${item.rateProvenance.withinTolerance === false ? 'text-red-600' : 'text-gray-500'}`}
+          >
+            {item.rateProvenance.source === 'library' ? 'Library rate' : item.rateProvenance.source === 'manual' ? 'Manual rate' : 'AI rate'}
+            {item.rateProvenance.withinTolerance === false && ' · outside library range'}
+          </span>
+        )}
+      </td>
+      <td className="p-1 font-semibold">{item.totalCostKES.toLocaleString()}</td>
+      <td className="p-1 text-center">
+        <input
+          type="checkbox"
+          checked={item.vatExempt === true}
+          onChange={e => handleBqChange(index, 'vatExempt', e.target.checked || undefined)}
+          title="VAT exempt"
+        />
+      </td>
+      <td className="p-1">
+        <button
+          onClick={() => handleRemoveItem(index)}
+          className="text-red-500 hover:text-red-700"
+        >
+          &times;
+        </button>
+      </td>
+    </tr>
+  );
+
   return (
     <div className="fixed inset-0 z-50 overflow-y-auto">
       <div className="fixed inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose}></div>
@@ -384,7 +805,12 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
         <div className="relative w-full max-w-7xl bg-white rounded-2xl shadow-2xl h-[95vh] flex flex-col">
           {/* Header */}
           <div className="p-4 border-b flex justify-between items-center flex-shrink-0">
-            <h3 className="text-xl font-semibold text-[#424242]">{title}</h3>
+            <h3 className="text-xl font-semibold text-[#424242]">
+              {title}
+              {isSimulated(editableAnalysis) && (
+                <span className="ml-3 px-2 py-0.5 text-xs font-bold uppercase tracking-wide text-white bg-red-600 rounded">Simulated</span>
+              )}
+            </h3>
             <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">&times;</button>
           </div>
 
@@ -408,19 +834,205 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
               <div className="grid grid-cols-3 gap-2">
                 <div className="bg-white p-3 rounded-lg border">
                   <p className="text-xs text-gray-500">Total Cost</p>
-                  <p className="font-bold text-[#0D47A1]">{formatCurrency(editableAnalysis.summary.totalEstimatedCostKES)}</p>
+                  <p className="font-bold text-[#0D47A1]">{formatCurrency(editableAnalysis.summary.totalEstimatedCostKES, editableAnalysis.metadata?.currency)}</p>
                 </div>
                 <div className="bg-white p-3 rounded-lg border">
                   <p className="text-xs text-gray-500">Wastage Cost</p>
-                  <p className="font-bold text-amber-600">{formatCurrency(editableAnalysis.summary.totalWastageCostKES)}</p>
+                  <p className="font-bold text-amber-600">{formatCurrency(editableAnalysis.summary.totalWastageCostKES, editableAnalysis.metadata?.currency)}</p>
                 </div>
                 <div className="bg-white p-3 rounded-lg border">
                   <p className="text-xs text-gray-500">AI Confidence</p>
-                  <p className="font-bold text-green-600">{(editableAnalysis.summary.confidenceScore * 100).toFixed(1)}%</p>
+                  {isSimulated(editableAnalysis) ? (
+                    <p className="font-bold text-red-600">None (simulated)</p>
+                  ) : (
+                    <p className="font-bold text-green-600">{(editableAnalysis.summary.confidenceScore * 100).toFixed(1)}%</p>
+                  )}
                 </div>
               </div>
 
+              {/* Simulated result warning */}
+              {isSimulated(editableAnalysis) && (
+                <div className="flex items-start justify-between gap-3 bg-red-50 border-2 border-red-400 rounded-lg p-3">
+                  <div>
+                    <p className="text-sm font-bold text-red-800">Simulated BQ - these figures were not measured from your drawing</p>
+                    <p className="text-xs text-red-700 mt-1">
+                      {editableAnalysis.metadata?.fallback?.reason || 'No AI analysis was available.'} Do not use this BQ for pricing or tendering.
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => performAnalysis(true)}
+                    className="px-3 py-1 text-xs font-medium text-red-700 bg-white border border-red-300 rounded-lg hover:bg-red-100 flex-shrink-0"
+                  >
+                    Retry analysis
+                  </button>
+                </div>
+              )}
+
+              {/* Schema repair notice */}
+              {editableAnalysis.metadata?.validation?.repaired && (
+                <p className="text-xs text-gray-500">
+                  The AI response needed {editableAnalysis.metadata.validation.attempts - 1} correction(s) to match the BQ format; check the quantities before use.
+                </p>
+              )}
+
+              {/* Cached result notice */}
+              {editableAnalysis.metadata?.cache?.hit && (
+                <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg p-3">
+                  <p className="text-sm text-blue-800">
+                    Reused the analysis of an identical drawing
+                    {editableAnalysis.metadata.cache.cachedAt && ` from ${new Date(editableAnalysis.metadata.cache.cachedAt).toLocaleDateString()}`}
+                  </p>
+                  <button
+                    onClick={() => performAnalysis(true)}
+                    className="px-3 py-1 text-xs font-medium text-blue-700 bg-white border border-blue-300 rounded-lg hover:bg-blue-100"
+                  >
+                    Re-analyze
+                  </button>
+                </div>
+              )}
+
+              {/* Estimate summary: additions in order, then VAT; rebuilt by the server when the BQ is saved */}
+              {editableAnalysis.estimateSummary && (
+                <div className="bg-white border rounded-lg p-3 max-h-48 overflow-y-auto">
+                  <p className="text-sm font-semibold text-gray-800 mb-1">Estimate summary</p>
+                  <ul className="text-xs text-gray-700 space-y-1">
+                    <li className="flex justify-between gap-2">
+                      <span>Measured works</span>
+                      <span>{formatCurrency(editableAnalysis.estimateSummary.measuredWorks, editableAnalysis.estimateSummary.currency)}</span>
+                    </li>
+                    {editableAnalysis.estimateSummary.lines.map(line => (
+                      <li key={line.key} className="flex justify-between gap-2">
+                        <span>
+                          {line.label}
+                          {line.kind === 'percentage' && ` (${((line.rate || 0) * 100).toFixed(1)}%${line.basis === 'measured' ? ' of measured works' : ''})`}
+                          {line.vatExempt && <span className="text-gray-500"> · no VAT</span>}
+                        </span>
+                        <span>{formatCurrency(line.amount, editableAnalysis.estimateSummary!.currency)}</span>
+                      </li>
+                    ))}
+                    <li className="flex justify-between gap-2 border-t pt-1 font-semibold">
+                      <span>Sub-total</span>
+                      <span>{formatCurrency(editableAnalysis.estimateSummary.subtotal, editableAnalysis.estimateSummary.currency)}</span>
+                    </li>
+                    <li className="flex justify-between gap-2">
+                      <span>
+                        VAT ({(editableAnalysis.estimateSummary.vatRate * 100).toFixed(1)}%)
+                        {editableAnalysis.estimateSummary.vatableAmount !== editableAnalysis.estimateSummary.subtotal &&
+                          ` on ${formatCurrency(editableAnalysis.estimateSummary.vatableAmount, editableAnalysis.estimateSummary.currency)}`}
+                      </span>
+                      <span>{formatCurrency(editableAnalysis.estimateSummary.vat, editableAnalysis.estimateSummary.currency)}</span>
+                    </li>
+                    <li className="flex justify-between gap-2 font-bold text-[#0D47A1]">
+                      <span>Grand total</span>
+                      <span>{formatCurrency(editableAnalysis.estimateSummary.grandTotal, editableAnalysis.estimateSummary.currency)}</span>
+                    </li>
+                  </ul>
+                  {editableAnalysis.metadata?.escalation && (
+                    <p className="text-[10px] text-gray-500 mt-1">
+                      Escalation {(editableAnalysis.metadata.escalation.percentage * 100).toFixed(1)}% on price indices
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Location adjustment and cost in other locations */}
+              {(editableAnalysis.metadata?.location || (editableAnalysis.summary.regionalPricingDifferences || []).length > 0) && (
+                <div className="bg-white border rounded-lg p-3 max-h-40 overflow-y-auto">
+                  {editableAnalysis.metadata?.location && (
+                    <p className="text-xs text-gray-600 mb-2">
+                      Rates adjusted from {editableAnalysis.metadata.location.from.location} to {editableAnalysis.metadata.location.to.location} (labour ×{editableAnalysis.metadata.location.to.labourFactor}, materials ×{editableAnalysis.metadata.location.to.materialFactor})
+                    </p>
+                  )}
+                  {(editableAnalysis.summary.regionalPricingDifferences || []).length > 0 && (
+                    <>
+                      <p className="text-sm font-semibold text-gray-800 mb-1">Cost in other locations</p>
+                      <ul className="text-xs text-gray-700 space-y-1">
+                        {editableAnalysis.summary.regionalPricingDifferences!.map(difference => (
+                          <li key={difference.region} className="flex justify-between gap-2">
+                            <span>{difference.region}{difference.county !== difference.region && `, ${difference.county}`}</span>
+                            <span>
+                              {formatCurrency(difference.totalCost, editableAnalysis.metadata?.currency)}
+                              <span className={difference.percentageDifference > 0 ? 'text-red-600 ml-1' : 'text-green-600 ml-1'}>
+                                ({difference.percentageDifference > 0 ? '+' : ''}{(difference.percentageDifference * 100).toFixed(1)}%)
+                              </span>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Reconciliation Discrepancies */}
+              {reconciliation?.status === 'flagged' && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 max-h-48 overflow-y-auto">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-semibold text-red-800">
+                      {reconciliation.discrepancies.length} arithmetic discrepancies found
+                      {reconciliation.resolution !== 'pending' && (
+                        <span className="ml-2 font-normal text-gray-600">
+                          (using {reconciliation.resolution === 'ai' ? 'AI values' : 'recomputed values'})
+                        </span>
+                      )}
+                    </p>
+                    {analysisId && (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleResolveReconciliation('ai')}
+                          className="px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-50"
+                        >
+                          Keep AI Values
+                        </button>
+                        <button
+                          onClick={() => handleResolveReconciliation('recomputed')}
+                          className="px-2 py-1 text-xs bg-[#29B6F6] text-white rounded hover:bg-[#039BE5]"
+                        >
+                          Accept Recomputed
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <ul className="space-y-1 text-xs">
+                    {reconciliation.discrepancies.map((discrepancy, index) => (
+                      <li key={index} className="flex items-center justify-between">
+                        <span className="text-gray-700">{discrepancy.message}</span>
+                        <span className={`ml-2 px-2 py-0.5 rounded-full font-medium ${severityStyles[discrepancy.severity]}`}>
+                          {discrepancy.severity}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Editable BQ Table */}
+              {showEditableBreakdown && (
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 text-sm">
+                    <label className="text-gray-600">Group by</label>
+                    <select
+                      value={groupBy}
+                      onChange={e => setGroupBy(e.target.value as BQGrouping | 'none')}
+                      className="p-1 border border-gray-300 rounded bg-white"
+                    >
+                      <option value="none">None</option>
+                      <option value="trade">Trade (SMM7)</option>
+                      <option value="element">Element (NRM1)</option>
+                    </select>
+                  </div>
+                  {analysisId && (
+                    <button
+                      onClick={handleClassify}
+                      disabled={isClassifying}
+                      className="px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {isClassifying ? 'Classifying...' : 'Reclassify'}
+                    </button>
+                  )}
+                </div>
+              )}
+
               {showEditableBreakdown ? (
                 <div className="flex-1 overflow-y-auto border rounded-lg">
                   <table className="w-full text-sm">
@@ -431,60 +1043,24 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
                         <th className="p-2 font-semibold">Unit</th>
                         <th className="p-2 font-semibold">Rate</th>
                         <th className="p-2 font-semibold">Total</th>
+                        <th className="p-2 font-semibold" title="VAT exempt">No VAT</th>
                         <th className="p-2"></th>
                       </tr>
                     </thead>
                     <tbody>
-                      {editableAnalysis.billOfQuantities.map((item, index) => (
-                        <tr
-                          key={index}
-                          onMouseEnter={() => setHoveredItem(item.itemNumber)}
-                          onMouseLeave={() => setHoveredItem(null)}
-                          className="border-t hover:bg-yellow-50"
-                        >
-                          <td className="p-1">
-                            <input
-                              type="text"
-                              value={item.description}
-                              onChange={e => handleBqChange(index, 'description', e.target.value)}
-                              className="w-full p-1 border rounded"
-                            />
-                          </td>
-                          <td className="p-1">
-                            <input
-                              type="number"
-                              value={item.quantity}
-                              onChange={e => handleBqChange(index, 'quantity', parseFloat(e.target.value))}
-                              className="w-20 p-1 border rounded"
-                            />
-                          </td>
-                          <td className="p-1">
-                            <input
-                              type="text"
-                              value={item.unit}
-                              onChange={e => handleBqChange(index, 'unit', e.target.value)}
-                              className="w-12 p-1 border rounded"
-                            />
-                          </td>
-                          <td className="p-1">
-                            <input
-                              type="number"
-                              value={item.unitRateKES}
-                              onChange={e => handleBqChange(index, 'unitRateKES', parseFloat(e.target.value))}
-                              className="w-24 p-1 border rounded"
-                            />
-                          </td>
-                          <td className="p-1 font-semibold">{item.totalCostKES.toLocaleString()}</td>
-                          <td className="p-1">
-                            <button
-                              onClick={() => handleRemoveItem(index)}
-                              className="text-red-500 hover:text-red-700"
-                            >
-                              &times;
-                            </button>
-                          </td>
-                        </tr>
-                      ))}
+                      {groupBy === 'none'
+                        ? editableAnalysis.billOfQuantities.map((item, index) => renderBqRow(item, index))
+                        : groupBqRows(editableAnalysis.billOfQuantities, groupBy).map(group => (
+                          <React.Fragment key={group.label}>
+                            <tr className="bg-gray-100 border-t">
+                              <td colSpan={4} className="p-2 text-xs font-semibold text-[#0D47A1] uppercase">{group.label}</td>
+                              <td colSpan={3} className="p-2 text-xs font-semibold text-[#0D47A1]">
+                                {group.rows.reduce((sum, row) => sum + row.item.totalCostKES, 0).toLocaleString()}
+                              </td>
+                            </tr>
+                            {group.rows.map(row => renderBqRow(row.item, row.index))}
+                          </React.Fragment>
+                        ))}
                     </tbody>
                   </table>
                   <button
@@ -505,8 +1081,8 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
                           <div className="text-sm text-gray-600">Qty: {item.quantity} {item.unit}</div>
                         </div>
                         <div className="text-right">
-                          <div className="font-semibold text-gray-900">{formatCurrency(item.totalCostKES)}</div>
-                          <div className="text-sm text-gray-600">Rate: {formatCurrency(item.unitRateKES)}</div>
+                          <div className="font-semibold text-gray-900">{formatCurrency(item.totalCostKES, editableAnalysis.metadata?.currency)}</div>
+                          <div className="text-sm text-gray-600">Rate: {formatCurrency(item.unitRateKES, editableAnalysis.metadata?.currency)}</div>
                         </div>
                       </div>
                     ))}
@@ -517,19 +1093,82 @@ const UnifiedAnalysisModal: React.FC<UnifiedAnalysisModalProps> = ({
           </div>
 
           {/* Footer Actions */}
-          <div className="p-4 bg-gray-100 border-t rounded-b-xl flex justify-end space-x-3 flex-shrink-0">
-            <button
-              onClick={onClose}
-              className="px-4 py-2 bg-gray-200 text-[#424242] rounded-lg hover:bg-gray-300"
-            >
-              Close
-            </button>
-            <button
-              onClick={handleSave}
-              className="px-4 py-2 bg-[#29B6F6] text-white rounded-lg hover:bg-[#039BE5]"
-            >
-              Save Analysis
-            </button>
+          <div className="p-4 bg-gray-100 border-t rounded-b-xl flex justify-between items-center flex-shrink-0">
+            <div className="flex items-center space-x-2">
+              {analysisId && user && (
+                <>
+                  <input
+                    type="text"
+                    value={revisionNote}
+                    onChange={e => setRevisionNote(e.target.value)}
+                    placeholder="Revision note (optional)"
+                    maxLength={500}
+                    className="w-56 p-2 text-sm border border-gray-300 rounded-lg"
+                  />
+                  {revisions.length > 0 && (
+                    <>
+                      <select
+                        value={selectedRevision ?? ''}
+                        onChange={e => setSelectedRevision(e.target.value ? Number(e.target.value) : null)}
+                        className="p-2 text-sm border border-gray-300 rounded-lg bg-white"
+                      >
+                        <option value="">Revisions ({revisions.length})</option>
+                        {revisions.map(revision => (
+                          <option key={revision.revisionNumber} value={revision.revisionNumber}>
+                            Rev {revision.revisionNumber} · {new Date(revision.createdAt).toLocaleString()}
+                            {revision.createdBy.name ? ` · ${revision.createdBy.name}` : ''}
+                            {revision.note ? ` · ${revision.note}` : ''}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleRestoreRevision}
+                        disabled={selectedRevision === null}
+                        className="px-3 py-2 text-sm bg-white border border-gray-300 text-[#424242] rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Restore
+                      </button>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-200 text-[#424242] rounded-lg hover:bg-gray-300"
+              >
+                Close
+              </button>
+              {analysisId && user && (
+                <label className="flex items-center space-x-2 text-sm text-[#424242]" title="Add labour, plant and material columns to the Excel rates">
+                  <input type="checkbox" checked={splitRates} onChange={e => setSplitRates(e.target.checked)} />
+                  <span>Split L/P/M rates</span>
+                </label>
+              )}
+              {analysisId && user && (
+                <button
+                  onClick={handleExportExcel}
+                  className="px-4 py-2 bg-white border border-gray-300 text-[#424242] rounded-lg hover:bg-gray-50"
+                >
+                  Export to Excel
+                </button>
+              )}
+              {analysisId && user && (
+                <button
+                  onClick={handleExportPdf}
+                  className="px-4 py-2 bg-white border border-gray-300 text-[#424242] rounded-lg hover:bg-gray-50"
+                >
+                  Export to PDF
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-[#29B6F6] text-white rounded-lg hover:bg-[#039BE5]"
+              >
+                Save Analysis
+              </button>
+            </div>
           </div>
         </div>
       </div>
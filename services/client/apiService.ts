@@ -1,6 +1,8 @@
+import type { AnalysisJobStatus, BqColumnMapping, BQGrouping, CashFlowConfig, CurrencyCode, EstimateSummaryConfig, MaterialNorm, MaterialNormKind, MeasurementKind, PlanPoint, ProductivityNorm, ResourceRate, ValuationProgress, ValuationTerms, VariationItemInput, VariationStatus } from '../shared/types';
+
 // API Service utility for making HTTP requests
 // Use relative URLs to leverage Vite's proxy in development
-const API_BASE_URL = (import.meta as any).env?.MODE === 'development' ? '' : 'http://localhost:5050';
+export const API_BASE_URL = (import.meta as any).env?.MODE === 'development' ? '' : 'http://localhost:5050';
 
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -133,6 +135,39 @@ export class ApiService {
     });
   }
 
+  // Fetch a binary file (e.g. an export) and hand it to the browser as a download
+  static async download(endpoint: string, fileName: string): Promise<ApiResponse<void>> {
+    try {
+      const headers: Record<string, string> = {};
+      if (this.tokenGetter) {
+        const authToken = await this.tokenGetter();
+        if (authToken) headers['Authorization'] = `Bearer ${authToken}`;
+      }
+
+      const response = await fetch(`${this.baseURL}${endpoint}`, { headers });
+      if (!response.ok) {
+        return { success: false, error: { message: `HTTP ${response.status}: ${response.statusText}` } };
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+        },
+      };
+    }
+  }
+
   static async delete<T = any>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: 'DELETE' });
   }
@@ -146,43 +181,504 @@ export class ApiService {
   }
 }
 
+// Two analyses, or revisions of them, to compare line by line
+export interface BqComparisonParams {
+  base: string;
+  revised: string;
+  baseRevision?: number;
+  revisedRevision?: number;
+}
+
+// One drawing's scale and measurements; the server measures the points itself
+export interface TakeoffPayload {
+  fileName: string;
+  imageWidth: number;
+  imageHeight: number;
+  scale: { points: PlanPoint[]; lengthM: number } | null;
+  measurements: Array<{ id: string; kind: MeasurementKind; label: string; points: PlanPoint[]; color?: string }>;
+}
+
+export interface AnalyzeOptions {
+  reanalyze?: boolean; // Skip the cached result for an identical drawing and call the AI again
+  currency?: CurrencyCode; // The project's base currency; the BQ is priced in KES and converted
+  location?: string; // Town or county to adjust the region's rates to
+  projectId?: string; // The project's currency and location apply unless given above
+}
+
+const comparisonQuery = (params: BqComparisonParams): string =>
+  new URLSearchParams(
+    Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+  ).toString();
+
 // Specific API methods for analysis
 export const analysisApi = {
-  async analyzeFloorPlan(file: File, projectName: string, projectType: string = 'residential') {
+  async analyzeFloorPlan(file: File, projectName: string, projectType: string = 'residential', options: AnalyzeOptions = {}) {
     const formData = new FormData();
     formData.append('floorPlan', file);
     formData.append('projectName', projectName);
     formData.append('projectType', projectType);
+    if (options.reanalyze) formData.append('reanalyze', 'true');
+    if (options.currency) formData.append('currency', options.currency);
+    if (options.location) formData.append('location', options.location);
+    if (options.projectId) formData.append('projectId', options.projectId);
 
     return ApiService.post('/api/analysis/analyze', formData);
   },
 
+  // Queue the analysis and follow it with followAnalysisJob instead of waiting on the request
+  async submitAnalysisJob(file: File, projectName: string, projectType: string = 'residential', options: AnalyzeOptions = {}) {
+    const formData = new FormData();
+    formData.append('floorPlan', file);
+    formData.append('projectName', projectName);
+    formData.append('projectType', projectType);
+    if (options.reanalyze) formData.append('reanalyze', 'true');
+    if (options.currency) formData.append('currency', options.currency);
+    if (options.location) formData.append('location', options.location);
+    if (options.projectId) formData.append('projectId', options.projectId);
+
+    return ApiService.post('/api/analysis/jobs', formData);
+  },
+
+  async getCacheStats() {
+    return ApiService.get('/api/analysis/cache/stats');
+  },
+
+  async getAnalysisJobs(status?: AnalysisJobStatus) {
+    return ApiService.get(`/api/analysis/jobs${status ? `?status=${status}` : ''}`);
+  },
+
+  async getAnalysisJob(jobId: string) {
+    return ApiService.get(`/api/analysis/jobs/${jobId}`);
+  },
+
+  async cancelAnalysisJob(jobId: string) {
+    return ApiService.post(`/api/analysis/jobs/${jobId}/cancel`);
+  },
+
+  async retryAnalysisJob(jobId: string) {
+    return ApiService.post(`/api/analysis/jobs/${jobId}/retry`);
+  },
+
+  async previewBqImport(file: File, options: { sheetName?: string; mapping?: BqColumnMapping } = {}) {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (options.sheetName) formData.append('sheetName', options.sheetName);
+    if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping));
+
+    return ApiService.post('/api/analysis/import/preview', formData);
+  },
+
+  async importBq(file: File, mapping: BqColumnMapping, projectName: string, sheetName?: string) {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('mapping', JSON.stringify(mapping));
+    formData.append('projectName', projectName);
+    if (sheetName) formData.append('sheetName', sheetName);
+
+    return ApiService.post('/api/analysis/import', formData);
+  },
+
   async getAnalysisHistory() {
     return ApiService.get('/api/analysis/history');
   },
 
-  async updateAnalysis(id: string, data: any) {
-    return ApiService.put(`/api/analysis/${id}`, data);
+  async updateAnalysis(id: string, data: any, note?: string) {
+    return ApiService.put(`/api/analysis/${id}`, { analysisResult: data, note: note || undefined });
+  },
+
+  async getRevisions(id: string) {
+    return ApiService.get(`/api/analysis/${id}/revisions`);
+  },
+
+  async getRevision(id: string, revisionNumber: number) {
+    return ApiService.get(`/api/analysis/${id}/revisions/${revisionNumber}`);
+  },
+
+  async restoreRevision(id: string, revisionNumber: number, note?: string) {
+    return ApiService.post(`/api/analysis/${id}/revisions/${revisionNumber}/restore`, { note });
+  },
+
+  async saveTakeoff(id: string, takeoff: TakeoffPayload) {
+    return ApiService.put(`/api/analysis/${id}/takeoff`, takeoff);
+  },
+
+  async attachMeasurements(id: string, data: { measurementIds: string[]; itemIndex?: number; description?: string; unitRateKES?: number }) {
+    return ApiService.post(`/api/analysis/${id}/takeoff/attach`, data);
+  },
+
+  async compareAnalyses(params: BqComparisonParams) {
+    return ApiService.get(`/api/analysis/compare?${comparisonQuery(params)}`);
+  },
+
+  async exportComparisonPdf(params: BqComparisonParams, fileName: string = 'Change Report.pdf') {
+    return ApiService.download(`/api/analysis/compare/report.pdf?${comparisonQuery(params)}`, fileName);
+  },
+
+  async getReconciliation(id: string) {
+    return ApiService.get(`/api/analysis/${id}/reconciliation`);
+  },
+
+  async resolveReconciliation(id: string, resolution: 'ai' | 'recomputed') {
+    return ApiService.post(`/api/analysis/${id}/reconciliation`, { resolution });
+  },
+
+  async classifyAnalysis(id: string, useAI: boolean = true) {
+    return ApiService.post(`/api/analysis/${id}/classify`, { useAI });
+  },
+
+  async getGroupedAnalysis(id: string, by: BQGrouping = 'trade') {
+    return ApiService.get(`/api/analysis/${id}/grouped?by=${by}`);
+  },
+
+  // View a saved BQ in another currency; nothing is saved
+  async convertAnalysis(id: string, currency: CurrencyCode, asOf?: string) {
+    return ApiService.get(`/api/analysis/${id}/convert?currency=${currency}${asOf ? `&asOf=${asOf}` : ''}`);
+  },
+
+  // View a saved BQ adjusted to another town or county; nothing is saved
+  async adjustToLocation(id: string, location: { location?: string; projectId?: string }) {
+    const query = new URLSearchParams(
+      Object.entries(location)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    return ApiService.get(`/api/analysis/${id}/location?${query}`);
+  },
+
+  // What a saved BQ would cost in other locations (every location with a factor by default)
+  async compareLocations(id: string, locations: string[] = []) {
+    return ApiService.get(`/api/analysis/${id}/locations${locations.length ? `?locations=${encodeURIComponent(locations.join(','))}` : ''}`);
+  },
+
+  // Escalate to a tender date, or to the midpoint of construction; annualRate applies past the latest index
+  async addEscalation(id: string, data: { tenderDate?: string; constructionStart?: string; constructionMonths?: number; baseDate?: string; annualRate?: number; note?: string }) {
+    return ApiService.post(`/api/analysis/${id}/escalation`, data);
+  },
+
+  async removeEscalation(id: string) {
+    return ApiService.delete(`/api/analysis/${id}/escalation`);
+  },
+
+  // Lock a BQ with a project as the contract; it can then only change through variations
+  async lockContract(id: string) {
+    return ApiService.post(`/api/analysis/${id}/contract`);
+  },
+
+  // Only while the contract has no variations or valuations
+  async unlockContract(id: string) {
+    return ApiService.delete(`/api/analysis/${id}/contract`);
+  },
+
+  // Raw materials to order for a saved BQ
+  async getMaterials(id: string) {
+    return ApiService.get(`/api/analysis/${id}/materials`);
+  },
+
+  // Labour and plant from the productivity norms; weeks sets the crew histogram's programme
+  async getResources(id: string, weeks?: number) {
+    return ApiService.get(`/api/analysis/${id}/resources${weeks ? `?weeks=${weeks}` : ''}`);
+  },
+
+  // Rebuild the estimate summary with new settings, or with a project's settings
+  async updateSummaryConfig(id: string, data: { config?: EstimateSummaryConfig; projectId?: string; note?: string }) {
+    return ApiService.put(`/api/analysis/${id}/summary-config`, data);
+  },
+
+  async exportToExcel(id: string, fileName: string = 'BQ.xlsx', groupBy: BQGrouping = 'trade', currency?: CurrencyCode, rateSplit: boolean = false) {
+    return ApiService.download(`/api/analysis/${id}/export.xlsx?groupBy=${groupBy}${currency ? `&currency=${currency}` : ''}${rateSplit ? '&rateSplit=true' : ''}`, fileName);
+  },
+
+  async exportToPdf(id: string, fileName: string = 'BQ.pdf', groupBy: BQGrouping = 'trade', currency?: CurrencyCode) {
+    return ApiService.download(`/api/analysis/${id}/export.pdf?groupBy=${groupBy}${currency ? `&currency=${currency}` : ''}`, fileName);
   },
 };
 
+export const exchangeRatesApi = {
+  async getCurrencies() {
+    return ApiService.get('/api/exchange-rates/currencies');
+  },
+
+  async getRates(params: { currency?: CurrencyCode; asOf?: string; includeRetired?: boolean; page?: number; limit?: number } = {}) {
+    const query = new URLSearchParams(
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    return ApiService.get(`/api/exchange-rates${query ? `?${query}` : ''}`);
+  },
+
+  // Admins only
+  async createRate(data: { baseCurrency: CurrencyCode; quoteCurrency: CurrencyCode; rate: number; effectiveDate: string; source: string }) {
+    return ApiService.post('/api/exchange-rates', data);
+  },
+
+  async retireRate(id: string) {
+    return ApiService.delete(`/api/exchange-rates/${id}`);
+  },
+
+  async convert(from: CurrencyCode, to: CurrencyCode, amount: number, asOf?: string) {
+    return ApiService.get(`/api/exchange-rates/convert?from=${from}&to=${to}&amount=${amount}${asOf ? `&asOf=${asOf}` : ''}`);
+  }
+};
+
+export const locationFactorsApi = {
+  async getFactors(params: { county?: string; search?: string; asOf?: string; includeRetired?: boolean; page?: number; limit?: number } = {}) {
+    const query = new URLSearchParams(
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    return ApiService.get(`/api/location-factors${query ? `?${query}` : ''}`);
+  },
+
+  // Admins only
+  async createFactor(data: { location: string; county: string; labourFactor: number; materialFactor: number; effectiveDate: string; source: string }) {
+    return ApiService.post('/api/location-factors', data);
+  },
+
+  async retireFactor(id: string) {
+    return ApiService.delete(`/api/location-factors/${id}`);
+  }
+};
+
+export const priceIndicesApi = {
+  async getIndices(params: { trade?: string; from?: string; to?: string; includeRetired?: boolean; page?: number; limit?: number } = {}) {
+    const query = new URLSearchParams(
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    return ApiService.get(`/api/price-indices${query ? `?${query}` : ''}`);
+  },
+
+  // Admins only
+  async createIndex(data: { trade: string; period: string; value: number; source: string }) {
+    return ApiService.post('/api/price-indices', data);
+  },
+
+  async retireIndex(id: string) {
+    return ApiService.delete(`/api/price-indices/${id}`);
+  }
+};
+
+export const materialNormsApi = {
+  // The norms in use: built-in norms with admins' entries applied
+  async getNorms(kind?: MaterialNormKind) {
+    return ApiService.get(`/api/material-norms${kind ? `?kind=${kind}` : ''}`);
+  },
+
+  // Admins only; an entry with a built-in norm's key replaces it
+  async createNorm(data: Omit<MaterialNorm, '_id' | 'builtIn' | 'materialsPerUnit' | 'isActive'>) {
+    return ApiService.post('/api/material-norms', data);
+  },
+
+  async retireNorm(id: string) {
+    return ApiService.delete(`/api/material-norms/${id}`);
+  }
+};
+
+export const productivityNormsApi = {
+  // The norms in use: built-in norms with admins' entries applied
+  async getNorms(trade?: string) {
+    return ApiService.get(`/api/productivity-norms${trade ? `?trade=${encodeURIComponent(trade)}` : ''}`);
+  },
+
+  // Admins only; an entry with a built-in norm's key replaces it
+  async createNorm(data: Omit<ProductivityNorm, '_id' | 'builtIn' | 'isActive'>) {
+    return ApiService.post('/api/productivity-norms', data);
+  },
+
+  async retireNorm(id: string) {
+    return ApiService.delete(`/api/productivity-norms/${id}`);
+  },
+
+  async getRates(kind?: ResourceRate['kind']) {
+    return ApiService.get(`/api/productivity-norms/rates${kind ? `?kind=${kind}` : ''}`);
+  },
+
+  // Admins only; an entry for a built-in resource replaces its rate
+  async createRate(data: Omit<ResourceRate, '_id' | 'builtIn' | 'isActive'>) {
+    return ApiService.post('/api/productivity-norms/rates', data);
+  },
+
+  async retireRate(id: string) {
+    return ApiService.delete(`/api/productivity-norms/rates/${id}`);
+  }
+};
+
+export const valuationsApi = {
+  async getValuations(params: { projectId?: string; analysisId?: string } = {}) {
+    const query = new URLSearchParams(
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    return ApiService.get(`/api/valuations${query ? `?${query}` : ''}`);
+  },
+
+  async getValuation(id: string) {
+    return ApiService.get(`/api/valuations/${id}`);
+  },
+
+  // Starts the next valuation of a contract BQ as a draft; progress not entered carries forward
+  async createValuation(data: { analysisId: string; valuationDate?: string; items: ValuationProgress[]; variations?: Array<{ variationId: string; percentComplete: number }>; materialsOnSite?: Array<{ description: string; amountKES: number }>; terms?: Partial<ValuationTerms> }) {
+    return ApiService.post('/api/valuations', data);
+  },
+
+  async updateValuation(id: string, data: { valuationDate?: string; items: ValuationProgress[]; variations?: Array<{ variationId: string; percentComplete: number }>; materialsOnSite?: Array<{ description: string; amountKES: number }>; terms?: Partial<ValuationTerms> }) {
+    return ApiService.put(`/api/valuations/${id}`, data);
+  },
+
+  async deleteValuation(id: string) {
+    return ApiService.delete(`/api/valuations/${id}`);
+  },
+
+  // Issues the numbered payment certificate as a project document
+  async certifyValuation(id: string) {
+    return ApiService.post(`/api/valuations/${id}/certify`);
+  }
+};
+
+export const variationsApi = {
+  async getVariations(params: { projectId?: string; analysisId?: string; status?: VariationStatus } = {}) {
+    const query = new URLSearchParams(
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    return ApiService.get(`/api/variations${query ? `?${query}` : ''}`);
+  },
+
+  // Running adjusted contract sum of a contract BQ
+  async getRegister(analysisId: string) {
+    return ApiService.get(`/api/variations/register?analysisId=${analysisId}`);
+  },
+
+  async getFinalAccount(analysisId: string) {
+    return ApiService.get(`/api/variations/final-account?analysisId=${analysisId}`);
+  },
+
+  async getVariation(id: string) {
+    return ApiService.get(`/api/variations/${id}`);
+  },
+
+  async createVariation(data: { analysisId: string; title: string; description?: string; status?: VariationStatus; items: VariationItemInput[] }) {
+    return ApiService.post('/api/variations', data);
+  },
+
+  // Agreed variations can no longer change
+  async updateVariation(id: string, data: { title?: string; description?: string; items?: VariationItemInput[] }) {
+    return ApiService.put(`/api/variations/${id}`, data);
+  },
+
+  async setStatus(id: string, status: VariationStatus) {
+    return ApiService.post(`/api/variations/${id}/status`, { status });
+  },
+
+  async deleteVariation(id: string) {
+    return ApiService.delete(`/api/variations/${id}`);
+  }
+};
+
+export const ratesApi = {
+  async getRates(params: { region?: string; search?: string; itemCode?: string; page?: number; limit?: number } = {}) {
+    const query = new URLSearchParams(
+      Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(value)])
+    ).toString();
+    return ApiService.get(`/api/rates${query ? `?${query}` : ''}`);
+  },
+
+  async createRate(data: { itemCode: string; description: string; unit: string; region: string; rateKES: number; effectiveDate: string; source: string }) {
+    return ApiService.post('/api/rates', data);
+  },
+
+  // Records a new dated rate superseding this one; the old rate stays on record
+  async updateRate(id: string, data: Partial<{ description: string; unit: string; rateKES: number; effectiveDate: string; source: string }>) {
+    return ApiService.patch(`/api/rates/${id}`, data);
+  },
+
+  async deleteRate(id: string) {
+    return ApiService.delete(`/api/rates/${id}`);
+  }
+};
+
 export const projectsApi = {
   async getProjects() {
     return ApiService.get('/api/projects');
   },
 
-  async createProject(data: { name: string; type: string; description?: string }) {
+  // metadata.currency is the project's base currency (KES when unset)
+  async createProject(data: { name: string; type: string; description?: string; metadata?: { currency?: CurrencyCode } }) {
     return ApiService.post('/api/projects', data);
   },
 
-  async updateProject(id: string, data: { name?: string; description?: string; status?: string }) {
+  async updateProject(id: string, data: { name?: string; description?: string; status?: string; metadata?: { currency?: CurrencyCode } }) {
     return ApiService.patch(`/api/projects/${id}`, data);
+  },
+
+  // Preliminaries, contingency, fees and VAT new BQs in the project are summarised with
+  async getSummaryConfig(id: string) {
+    return ApiService.get(`/api/projects/${id}/summary-config`);
+  },
+
+  async updateSummaryConfig(id: string, config: EstimateSummaryConfig) {
+    return ApiService.put(`/api/projects/${id}/summary-config`, config);
+  },
+
+  // Raw materials for every BQ in the project, consolidated
+  async getMaterialSchedule(id: string) {
+    return ApiService.get(`/api/projects/${id}/material-schedule`);
+  },
+
+  async exportMaterialSchedule(id: string, fileName: string = 'Material Schedule.xlsx') {
+    return ApiService.download(`/api/projects/${id}/material-schedule/export.xlsx`, fileName);
+  },
+
+  // Programme dates, activities, retention and payment terms the cash flow is forecast with
+  async getCashFlowConfig(id: string) {
+    return ApiService.get(`/api/projects/${id}/cash-flow-config`);
+  },
+
+  async updateCashFlowConfig(id: string, config: CashFlowConfig) {
+    return ApiService.put(`/api/projects/${id}/cash-flow-config`, config);
+  },
+
+  // Monthly and cumulative cash flow of every BQ in the project
+  async getCashFlow(id: string) {
+    return ApiService.get(`/api/projects/${id}/cash-flow`);
+  },
+
+  async exportCashFlow(id: string, fileName: string = 'Cash Flow.xlsx') {
+    return ApiService.download(`/api/projects/${id}/cash-flow/export.xlsx`, fileName);
   }
 };
 
 export const documentsApi = {
   async createDocument(data: { projectId: string; title: string; content: string; type: string }) {
     return ApiService.post('/api/documents', data);
+  },
+
+  // AI draft of a document; returns the markdown without saving it
+  async generateDocument(prompt: string, type: string) {
+    return ApiService.post('/api/documents/generate', { prompt, type });
+  },
+
+  async exportToPdf(id: string, fileName: string = 'Document.pdf') {
+    return ApiService.download(`/api/documents/${id}/export.pdf`, fileName);
+  }
+};
+
+export const usersApi = {
+  async getCompany() {
+    return ApiService.get('/api/users/me/company');
+  },
+
+  async updateCompany(data: { name: string; logo?: string; address?: string; phone?: string; email?: string; registrationNumber?: string }) {
+    return ApiService.put('/api/users/me/company', data);
   }
 };
 
@@ -50,7 +50,7 @@ export const analyzeFloorPlan = async (imageData: string, mimeType: string): Pro
             1.  **Visual Perception:** Identify all rooms, walls (internal/external), doors, windows, and major structural elements. Extract or estimate dimensions.
             2.  **Quantification:** Apply the Standard Method of Measurement (SMM) principles to convert the visual data into quantified items. Group items logically by trade (e.g., Substructure, Walls, Finishes).
             3.  **Item Geometry:** For each quantified item in the BQ that corresponds to a distinct visual element, provide a 'boundingBox' with normalized coordinates (x, y, width, height), where (x,y) is the top-left corner.
-            4.  **Costing & Enrichment:** For each item, provide a realistic, localized unit rate in Kenyan Shillings (KES). Include a standard wastage factor. Calculate total costs. Analyze potential regional pricing differences for materials/labor between Nairobi, Mombasa, and Kisumu, and include this in 'regionalPricingDifferences'.
+            4.  **Costing & Enrichment:** For each item, provide a realistic, localized unit rate in Kenyan Shillings (KES). Include a standard wastage factor. Calculate total costs.
             5.  **Advisory & Optimization:** Review the BQ and provide actionable, intelligent suggestions for cost-saving.
             6.  **Summary:** Calculate overall costs and provide a confidence score based on the drawing's clarity.
 
@@ -66,18 +66,7 @@ export const analyzeFloorPlan = async (imageData: string, mimeType: string): Pro
                     properties: {
                         totalEstimatedCostKES: { type: Type.NUMBER },
                         totalWastageCostKES: { type: Type.NUMBER },
-                        confidenceScore: { type: Type.NUMBER, description: "AI confidence in the estimate, from 0.0 to 1.0" },
-                        regionalPricingDifferences: {
-                            type: Type.ARRAY,
-                            description: "Analysis of cost differences in major Kenyan cities.",
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    region: { type: Type.STRING },
-                                    percentageDifference: { type: Type.NUMBER, description: "e.g., 0.05 for 5% higher than baseline" }
-                                }
-                            }
-                        }
+                        confidenceScore: { type: Type.NUMBER, description: "AI confidence in the estimate, from 0.0 to 1.0" }
                     },
                     required: ["totalEstimatedCostKES", "totalWastageCostKES", "confidenceScore"]
                 },
@@ -0,0 +1,35 @@
+import { io, Socket } from 'socket.io-client';
+import { API_BASE_URL } from './apiService';
+import type { AnalysisJobUpdate } from '../shared/types';
+
+// Realtime connection to the backend Socket.IO server, opened on first use
+let socket: Socket | null = null;
+
+const getSocket = (): Socket => {
+  if (!socket) {
+    // In development the Vite proxy forwards /socket.io alongside /api
+    socket = API_BASE_URL ? io(API_BASE_URL) : io();
+  }
+  return socket;
+};
+
+// Follow a queued analysis; returns a function that stops following it
+export const followAnalysisJob = (jobId: string, onUpdate: (update: AnalysisJobUpdate) => void): (() => void) => {
+  const connection = getSocket();
+
+  // Rooms are lost on reconnect, so join again every time the socket connects
+  const join = () => connection.emit('join-analysis-job', jobId);
+  const handleUpdate = (update: AnalysisJobUpdate) => {
+    if (update.jobId === jobId) onUpdate(update);
+  };
+
+  if (connection.connected) join();
+  connection.on('connect', join);
+  connection.on('analysis-job:update', handleUpdate);
+
+  return () => {
+    connection.emit('leave-analysis-job', jobId);
+    connection.off('connect', join);
+    connection.off('analysis-job:update', handleUpdate);
+  };
+};
@@ -1,4 +1,4 @@
-import type { Document, Template, DocumentVersion } from '../types';
+import type { Document, Template, DocumentVersion, MaterialSchedule } from '../shared/types';
 
 export interface NewDocumentData {
   name: string;
@@ -46,6 +46,11 @@ export const COMMON_TAGS = [
   'Subcontractor'
 ];
 
+// Template pre-filled with a project's material schedule
+export const MATERIAL_REQUISITION_TEMPLATE_ID = 'temp-3';
+
+const REQUISITION_PLACEHOLDER_ROW = '| [Item] | [Description] | [Qty] | [Unit] | [Cost] |';
+
 // Document templates
 export const DOCUMENT_TEMPLATES: Template[] = [
   {
@@ -218,6 +223,35 @@ ${data.tags.map(tag => `- ${tag}`).join('\n')}
   return newDocument;
 };
 
+/**
+ * Fills the Material Requisition Form with the materials to order from a project's schedule
+ */
+export const fillMaterialRequisition = (template: Template, schedule: MaterialSchedule, projectName: string): Template => {
+  if (!template.content || schedule.lines.length === 0) return template;
+
+  const rows = schedule.lines.map((line, index) =>
+    `| ${index + 1} | ${line.material} | ${line.orderQuantity.toLocaleString()} | ${line.unit} | [Cost] |`
+  );
+
+  const lines = template.content.split('\n');
+  const placeholder = lines.findIndex(line => line.trim() === REQUISITION_PLACEHOLDER_ROW);
+  if (placeholder !== -1) lines.splice(placeholder, 1, ...rows);
+
+  // The note goes under the table, after any rows the template has below the placeholder
+  if (placeholder !== -1 && schedule.unscheduledItems.length > 0) {
+    let tableEnd = placeholder + rows.length;
+    while (tableEnd < lines.length && lines[tableEnd].trim().startsWith('|')) tableEnd++;
+    lines.splice(tableEnd, 0, '', `> Not taken off by the material norms; add by hand if needed: ${schedule.unscheduledItems.map(item => `${item.itemNumber} ${item.description}`).join('; ')}`);
+  }
+
+  return {
+    ...template,
+    content: lines.join('\n')
+      .replace('[Project Name]', projectName)
+      .replace('- **Requisition Date:** [Date]', `- **Requisition Date:** ${new Date().toLocaleDateString()}`)
+  };
+};
+
 /**
  * Gets all available clients
  */
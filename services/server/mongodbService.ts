@@ -386,8 +386,16 @@ export const getChatMessagesBySession = async (userId: ObjectId, sessionId: stri
   return await chatMessagesCollection.find({ userId, sessionId }).sort({ timestamp: 1 }).toArray();
 };
 
+// SHA-256 of the file contents, so the same drawing uploaded twice can be recognised
+const hashBase64 = async (base64: string): Promise<string> => {
+  const bytes = Uint8Array.from(atob(base64.split(',').pop() || ''), char => char.charCodeAt(0));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
 // File upload functions
 export const saveUploadedFile = async (userId: ObjectId, fileData: Partial<UploadedFileDocument>): Promise<UploadedFileDocument> => {
+  const fileHash = fileData.metadata?.fileHash || (fileData.base64 ? await hashBase64(fileData.base64) : undefined);
   const file: UploadedFileDocument = {
     userId,
     projectId: fileData.projectId,
@@ -398,7 +406,7 @@ export const saveUploadedFile = async (userId: ObjectId, fileData: Partial<Uploa
     uploadedAt: new Date(),
     base64: fileData.base64 || '',
     status: 'completed',
-    metadata: fileData.metadata,
+    metadata: fileHash ? { ...fileData.metadata, fileHash } : fileData.metadata,
   };
 
   const result = await uploadedFilesCollection.insertOne(file);
@@ -51,6 +51,20 @@ export interface UploadedFile {
 
 // --- Advanced BQ Analysis Types ---
 
+export interface RateProvenance {
+  source: 'ai' | 'library' | 'manual';
+  aiRateKES: number;
+  libraryRateId?: string;
+  itemCode?: string;
+  region?: string;
+  libraryRateKES?: number;
+  effectiveDate?: string;
+  librarySource?: string;
+  matchScore?: number;
+  deviation?: number;
+  withinTolerance?: boolean;
+}
+
 export interface BQItem {
   itemNumber: string;
   description: string;
@@ -59,6 +73,13 @@ export interface BQItem {
   unitRateKES: number;
   wastageFactor: number;
   totalCostKES: number;
+  category?: string;
+  rateProvenance?: RateProvenance; // Where the unit rate came from
+  classification?: BQClassification; // SMM7 work section and NRM1 element
+  sourcePages?: number[]; // Drawing set pages the item was measured from
+  quantityBasis?: string; // How a quantity measured from CAD geometry was derived
+  quantitySource?: QuantitySource; // Quantity taken from on-screen measurements
+  vatExempt?: boolean; // Left out of the VAT on the estimate summary
   boundingBox?: { // Optional coordinates for visual feedback on plans
     x: number;
     y: number;
@@ -74,21 +95,655 @@ export interface AISuggestion {
   impact: string;
 }
 
+export interface BQDiscrepancy {
+  scope: 'line' | 'summary';
+  field: 'totalCostKES' | 'totalEstimatedCostKES' | 'totalWastageCostKES';
+  itemNumber?: string;
+  lineIndex?: number;
+  aiValue: number;
+  recomputedValue: number;
+  difference: number;
+  relativeDifference: number;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  message: string;
+}
+
+export interface ReconciliationReport {
+  status: 'clean' | 'flagged';
+  resolution: 'pending' | 'ai' | 'recomputed';
+  discrepancies: BQDiscrepancy[];
+  checkedAt: string;
+  resolvedAt?: string;
+}
+
 export interface AnalyzedBQ {
   summary: {
     totalEstimatedCostKES: number;
     totalWastageCostKES: number;
     confidenceScore: number;
-    regionalPricingDifferences?: Array<{ // Optional regional pricing analysis
-        region: string;
-        percentageDifference: number;
-    }>;
+    regionalPricingDifferences?: RegionalPricingDifference[]; // Cost in other locations, from the location factors
+    escalationAllowanceKES?: number; // Separate from the measured total; see metadata.escalation
   };
   billOfQuantities: BQItem[];
   intelligentSuggestions: AISuggestion[];
+  reconciliation?: ReconciliationReport; // Arithmetic check of AI-returned totals
+  takeoffs?: PlanTakeoff[]; // On-screen measurements, one entry per drawing
+  summaryConfig?: EstimateSummaryConfig; // Additions and VAT rate the estimate summary is built with
+  estimateSummary?: EstimateSummary;
+  metadata?: AnalysisMetadata;
   error?: string; // To handle analysis errors gracefully
 }
 
+export interface AnalysisMetadata {
+  analysisDate: string;
+  fileType: string;
+  fileName: string;
+  confidence: number;
+  region?: string;
+  source?: 'ai' | 'import' | 'cad' | 'simulated';
+  fileHash?: string; // SHA-256 of the analysed drawing
+  cache?: AnalysisCacheInfo;
+  validation?: {
+    attempts: number;
+    repaired: boolean; // The AI needed a corrective prompt to match the BQ schema
+  };
+  fallback?: AnalysisFallback; // Present on every simulated result
+  currency?: CurrencyCode; // Currency of every amount in the BQ (KES when unset)
+  conversions?: CurrencyConversion[]; // Exchange rates the BQ was converted with, oldest first
+  location?: LocationAdjustment; // Set once rates are adjusted to the project's location
+  escalation?: EscalationAllowance; // Indices and assumptions behind summary.escalationAllowanceKES
+}
+
+export interface RegionalPricingDifference {
+  region: string;
+  county: string;
+  totalCost: number; // In the BQ's currency
+  percentageDifference: number; // e.g. 0.05 for 5% dearer than the BQ's own location
+}
+
+// Cost of labour and materials in a town or county relative to Nairobi (1.00)
+export interface LocationFactor {
+  _id: string;
+  location: string; // Town, or the county itself for a county-wide factor
+  county: string;
+  labourFactor: number;
+  materialFactor: number;
+  effectiveDate: string;
+  source: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  isActive: boolean;
+}
+
+export type LocationFactorRef = Pick<LocationFactor, 'location' | 'county' | 'labourFactor' | 'materialFactor'> & {
+  factorId?: string;
+  effectiveDate?: string;
+  source?: string;
+};
+
+// Construction price index for a month; trade is an SMM7 work section group letter or 'All'
+export interface PriceIndex {
+  _id: string;
+  trade: string;
+  period: string;
+  value: number;
+  source: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  isActive: boolean;
+}
+
+export interface EscalationTrade {
+  trade: string;
+  series: string; // Index used: the trade's own, or 'All' when the trade has none
+  baseIndex: number;
+  targetIndex: number;
+  projected: boolean; // The target index lies past the latest published index
+  annualRate?: number;
+  measuredCost: number;
+  allowance: number;
+}
+
+// Escalation of a BQ to a tender date or the midpoint of construction
+export interface EscalationAllowance {
+  basis: 'tender' | 'midpoint';
+  baseDate: string;
+  targetDate: string;
+  tenderDate?: string;
+  constructionStart?: string;
+  constructionMonths?: number;
+  statedAnnualRate?: number;
+  trades: EscalationTrade[];
+  measuredCost: number;
+  allowance: number;
+  percentage: number;
+  projectedAt: string;
+}
+
+export type SummaryLineKind = 'percentage' | 'lumpSum';
+export type SummaryLineBasis = 'measured' | 'running'; // Percentage of the measured works, or of the total so far
+
+// One addition on the estimate summary: preliminaries, provisional sums, contingency, fees...
+export interface SummaryLineConfig {
+  key: string;
+  label: string;
+  kind: SummaryLineKind;
+  rate?: number; // Fraction, for percentage lines
+  basis?: SummaryLineBasis;
+  amount?: number; // For lump sums, in the BQ's currency
+  vatExempt?: boolean;
+}
+
+export interface EstimateSummaryConfig {
+  lines: SummaryLineConfig[]; // Applied in order
+  vatRate: number;
+}
+
+export interface EstimateSummaryLine {
+  key: string;
+  label: string;
+  kind: SummaryLineKind;
+  rate?: number;
+  basis?: SummaryLineBasis;
+  amount: number;
+  vatExempt: boolean;
+  runningTotal: number;
+}
+
+// Summary page of a BQ, from the measured works to the grand total
+export interface EstimateSummary {
+  currency: CurrencyCode;
+  measuredWorks: number;
+  vatExemptMeasuredWorks: number;
+  lines: EstimateSummaryLine[]; // The escalation allowance first, when there is one
+  subtotal: number;
+  vatableAmount: number;
+  vatRate: number;
+  vat: number;
+  grandTotal: number;
+  builtAt: string;
+}
+
+export type MaterialNormKind = 'mix' | 'blockwork' | 'coverage' | 'reinforcement';
+
+// Consumption norm turning one unit of a BQ item into raw materials
+export interface MaterialNorm {
+  _id?: string; // Absent on built-in norms
+  key: string;
+  name: string;
+  kind: MaterialNormKind;
+  keywords: string[][]; // Every group must match the item description
+  units: string[];
+  mix?: { ratio: number[]; dryVolumeFactor: number; thicknessM?: number };
+  blockwork?: { block: string; blocksPerM2: number; mortarM3PerM2: number; mortarRatio: number[] };
+  coverage?: { material: string; unit: string; coveragePerUnit: number; coats: number };
+  reinforcement?: { steel: string; lapAllowance: number; bindingWireKgPerTonne: number };
+  source: string;
+  builtIn?: boolean;
+  materialsPerUnit?: Array<{ material: string; unit: string; quantity: number }>;
+  isActive: boolean;
+}
+
+export interface MaterialScheduleLine {
+  material: string;
+  unit: string;
+  netQuantity: number;
+  wastage: number;
+  quantity: number;
+  orderQuantity: number; // Rounded up to whole bags, blocks and pieces
+  sources: Array<{ analysisId?: string; itemNumber: string; description: string; normKey: string; quantity: number }>;
+}
+
+// Raw materials for one or more BQs, consolidated by material
+export interface MaterialSchedule {
+  projectId?: string;
+  analysisIds: string[];
+  lines: MaterialScheduleLine[];
+  unscheduledItems: Array<{ analysisId?: string; itemNumber: string; description: string; unit: string }>;
+  builtAt: string;
+}
+
+// Output of labour and plant in one unit of a BQ item
+export interface ProductivityNorm {
+  _id?: string; // Absent on built-in norms
+  key: string;
+  name: string;
+  trade: string;
+  keywords: string[][];
+  units: string[];
+  manHoursPerUnit: number;
+  crew: Array<{ role: string; count: number }>;
+  plant: Array<{ plant: string; hoursPerUnit: number }>;
+  source: string;
+  builtIn?: boolean;
+  isActive: boolean;
+}
+
+// Hourly cost of a crew role or an item of plant in Nairobi, in KES
+export interface ResourceRate {
+  _id?: string;
+  kind: 'labour' | 'plant';
+  resource: string;
+  hourlyRateKES: number;
+  source: string;
+  builtIn?: boolean;
+  isActive: boolean;
+}
+
+export interface RateSplit {
+  labourKES: number;
+  plantKES: number;
+  materialKES: number;
+}
+
+// Labour and plant for a BQ; amounts are in its currency
+export interface ResourceEstimate {
+  currency: CurrencyCode;
+  labourFactor: number;
+  programmeWeeks: number;
+  items: Array<{
+    itemNumber: string;
+    description: string;
+    normKey: string;
+    trade: string;
+    manHours: number;
+    labourCostKES: number;
+    plantCostKES: number;
+    materialCostKES: number;
+    rateSplit: RateSplit;
+    exceedsRate?: boolean; // Labour and plant alone cost more than the unit rate
+  }>;
+  trades: Array<{
+    trade: string;
+    manHours: number;
+    manDays: number;
+    labourCostKES: number;
+    plantCostKES: number;
+    crew: Array<{ role: string; manDays: number }>;
+    startWeek: number;
+    endWeek: number;
+  }>;
+  plant: Array<{ plant: string; hours: number; costKES: number }>;
+  histogram: Array<{ week: number; workers: number; byTrade: Record<string, number> }>;
+  totals: { manHours: number; manDays: number; labourCostKES: number; plantCostKES: number; materialCostKES: number };
+  unestimatedItems: Array<{ itemNumber: string; description: string; unit: string }>;
+  missingRates: string[];
+  builtAt: string;
+}
+
+// Dates a trade bill is spread over in a cash-flow forecast; trade is its SMM7 group letter or name
+export interface CashFlowActivity {
+  trade: string;
+  startDate: string;
+  endDate: string;
+  profile: 's-curve' | 'linear';
+}
+
+export interface CashFlowConfig {
+  startDate?: string; // Programme dates; the project timeline is used when absent
+  endDate?: string;
+  activities: CashFlowActivity[];
+  retentionRate: number;
+  retentionLimit: number; // Share of the contract value retention stops at
+  defectsLiabilityMonths: number;
+  paymentLagMonths: number;
+}
+
+// Monthly and cumulative cash flow of a project's BQs; amounts are in their currency
+export interface CashFlowForecast {
+  projectId?: string;
+  analysisIds: string[];
+  currency: CurrencyCode;
+  startDate: string;
+  endDate: string;
+  config: CashFlowConfig;
+  trades: Array<{ trade: string; code?: string; amount: number; startDate: string; endDate: string; profile: 's-curve' | 'linear'; source: 'activity' | 'standard' }>;
+  months: Array<{
+    month: string; // YYYY-MM
+    value: number;
+    cumulativeValue: number;
+    cumulativePercent: number;
+    vat: number;
+    retention: number;
+    retentionReleased: number;
+    certified: number;
+    payment: number;
+    cumulativePayment: number;
+  }>;
+  totals: { value: number; vat: number; retentionHeld: number; payments: number };
+  builtAt: string;
+}
+
+export interface ValuationTerms {
+  retentionRate: number;
+  retentionLimit: number; // Share of the contract sum retention stops at
+  advancePaymentKES: number;
+  advanceRecoveryRate: number; // Share of the work done recovered against the advance
+}
+
+// Progress entered for one BQ item, to date
+export interface ValuationProgress {
+  itemIndex: number;
+  percentComplete?: number;
+  quantityComplete?: number;
+}
+
+// Interim valuation of a contract BQ; amounts are in its currency
+export interface Valuation {
+  _id: string;
+  projectId: string;
+  analysisId: string;
+  number: number;
+  valuationDate: string;
+  status: 'draft' | 'certified';
+  currency: CurrencyCode;
+  terms: ValuationTerms;
+  items?: Array<{
+    itemIndex: number;
+    itemNumber: string;
+    description: string;
+    unit: string;
+    contractQuantity: number;
+    unitRateKES: number;
+    contractAmountKES: number;
+    quantityComplete: number;
+    percentComplete: number;
+    valueKES: number;
+  }>;
+  variations?: Array<{ variationId: string; number: number; title: string; netKES: number; percentComplete: number; valueKES: number }>;
+  materialsOnSite?: Array<{ description: string; amountKES: number }>;
+  certificate: {
+    contractSumKES: number;
+    workDoneKES: number;
+    variationsKES: number;
+    materialsOnSiteKES: number;
+    grossValuationKES: number;
+    retentionKES: number;
+    advanceRecoveredKES: number;
+    netValuationKES: number;
+    previousCertificatesKES: number;
+    amountDueKES: number;
+  };
+  documentId?: string; // The payment certificate, once certified
+  certifiedAt?: string;
+}
+
+// A BQ locked as the contract; changes to it are then recorded as variations
+export interface ContractBaseline {
+  lockedAt: string;
+  lockedBy: string;
+  revisionNumber?: number;
+  contractSumKES: number;
+  currency: CurrencyCode;
+  itemCount: number;
+}
+
+export type VariationStatus = 'proposed' | 'instructed' | 'agreed';
+
+// An item sent when recording a variation: a contract BQ item by its index, or a star rate
+export interface VariationItemInput {
+  kind: 'addition' | 'omission';
+  itemIndex?: number;
+  description?: string;
+  unit?: string;
+  quantity: number;
+  unitRateKES?: number;
+}
+
+// Variation order against a contract BQ; amounts are in its currency and omissions are negative
+export interface Variation {
+  _id: string;
+  projectId: string;
+  analysisId: string;
+  number: number;
+  title: string;
+  description?: string;
+  status: VariationStatus;
+  currency: CurrencyCode;
+  items: Array<{
+    kind: 'addition' | 'omission';
+    itemIndex?: number;
+    itemNumber?: string;
+    description: string;
+    unit: string;
+    quantity: number;
+    unitRateKES: number;
+    rateSource: 'bq' | 'star';
+    amountKES: number;
+  }>;
+  additionsKES: number;
+  omissionsKES: number;
+  netKES: number;
+  instructedAt?: string;
+  agreedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Only instructed and agreed variations count in the adjusted contract sum; proposed ones are anticipated
+export interface VariationRegister {
+  analysisId: string;
+  currency: CurrencyCode;
+  contractSumKES: number;
+  lines: Array<{
+    variationId: string;
+    number: number;
+    title: string;
+    status: VariationStatus;
+    additionsKES: number;
+    omissionsKES: number;
+    netKES: number;
+    adjustedContractSumKES: number;
+  }>;
+  totals: { proposedKES: number; instructedKES: number; agreedKES: number };
+  adjustedContractSumKES: number;
+  anticipatedContractSumKES: number;
+}
+
+export interface FinalAccount {
+  analysisId: string;
+  currency: CurrencyCode;
+  contractSumKES: number;
+  additionsKES: number;
+  omissionsKES: number;
+  agreedVariationsKES: number;
+  unagreedVariationsKES: number;
+  finalAccountKES: number;
+  isSettled: boolean; // Every variation is agreed
+  lastCertificate?: {
+    number: number;
+    valuationDate: string;
+    grossValuationKES: number;
+    retentionKES: number;
+    advanceRecoveredKES: number;
+    netValuationKES: number;
+  };
+  balanceKES: number; // Still to be paid against the last certificate
+  builtAt: string;
+}
+
+// How a BQ priced for one location was moved to another
+export interface LocationAdjustment {
+  from: LocationFactorRef;
+  to: LocationFactorRef;
+  baseTotal: number;
+  adjustedTotal: number;
+  adjustedAt: string;
+}
+
+export type CurrencyCode = 'KES' | 'UGX' | 'TZS' | 'RWF' | 'USD' | 'EUR' | 'GBP';
+
+// Audit record of a currency conversion and the table rate it used
+export interface CurrencyConversion {
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number;
+  exchangeRateId?: string;
+  effectiveDate: string;
+  source: string;
+  inverted: boolean;
+  convertedAt: string;
+}
+
+// One unit of baseCurrency buys `rate` units of quoteCurrency
+export interface ExchangeRate {
+  _id: string;
+  baseCurrency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  rate: number;
+  effectiveDate: string;
+  source: string;
+  isActive: boolean;
+}
+
+// Why an analysis is simulated rather than measured from the drawing
+export interface AnalysisFallback {
+  code: 'AI_NOT_CONFIGURED' | 'AI_FAILED';
+  reason: string;
+}
+
+// How an analysis used the cache of identical drawings
+export interface AnalysisCacheInfo {
+  fileHash: string;
+  projectType: string;
+  analysisVersion: string;
+  hit: boolean;
+  cachedAt?: string;
+  reanalyzed?: boolean;
+}
+
+// On-screen takeoff
+export type MeasurementKind = 'linear' | 'area' | 'count';
+
+export interface PlanPoint {
+  x: number; // Pixels on the drawing image
+  y: number;
+}
+
+export interface PlanScale {
+  points: [PlanPoint, PlanPoint];
+  lengthM: number;
+  metresPerPixel: number;
+}
+
+export interface PlanMeasurement {
+  id: string;
+  kind: MeasurementKind;
+  label: string;
+  points: PlanPoint[];
+  value: number;
+  unit: 'm' | 'm2' | 'nr';
+  color?: string;
+}
+
+export interface PlanTakeoff {
+  fileName: string;
+  imageWidth: number;
+  imageHeight: number;
+  scale?: PlanScale;
+  measurements: PlanMeasurement[];
+  updatedAt: string;
+}
+
+export interface QuantitySource {
+  type: 'takeoff';
+  measurementIds: string[];
+}
+
+// Standard measurement classification
+export type BQGrouping = 'trade' | 'element'; // SMM7 work sections or NRM1 elements
+
+export interface BQClassification {
+  workSectionCode: string; // e.g. 'F10'
+  workSectionName: string;
+  elementCode: string; // e.g. '2.5'
+  elementName: string;
+  source: 'rule' | 'ai' | 'manual' | 'unclassified';
+  confidence: number;
+}
+
+// Saved analysis revisions
+export interface AnalysisRevisionSummary {
+  revisionNumber: number;
+  note?: string;
+  createdBy: { userId: string; email?: string; name?: string };
+  createdAt: string;
+  restoredFrom?: number; // Revision this one restored
+  itemCount: number;
+  totalEstimatedCostKES: number;
+}
+
+// Queued floor plan analysis
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type AnalysisJobStage = 'uploaded' | 'pages_split' | 'ai_called' | 'parsed' | 'reconciled' | 'saved';
+
+// Job state as pushed on each analysis-job:update event
+export interface AnalysisJobUpdate {
+  jobId: string;
+  status: AnalysisJobStatus;
+  stage: AnalysisJobStage;
+  percent: number;
+  message: string;
+  attempts: number;
+  analysisId?: string;
+  error?: string;
+  updatedAt: string;
+}
+
+// Line-by-line BQ comparison
+export type BQChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface BQComparisonLine {
+  change: BQChangeType;
+  category: string;
+  base?: BQItem;
+  revised?: BQItem;
+  matchScore?: number;
+  changedFields: Array<'description' | 'unit' | 'quantity' | 'unitRateKES' | 'wastageFactor' | 'totalCostKES'>;
+  quantityDelta: number;
+  rateDelta: number;
+  costDelta: number;
+}
+
+export interface BQComparison {
+  base: { label: string; analysisId?: string; revisionNumber?: number; itemCount: number; totalKES: number };
+  revised: { label: string; analysisId?: string; revisionNumber?: number; itemCount: number; totalKES: number };
+  lines: BQComparisonLine[];
+  categories: Array<{ category: string; baseTotalKES: number; revisedTotalKES: number; deltaKES: number }>;
+  totals: { baseTotalKES: number; revisedTotalKES: number; deltaKES: number; deltaPercent: number | null };
+  counts: Record<BQChangeType, number>;
+  comparedAt: string;
+}
+
+// BQ spreadsheet import
+export type BqImportField = 'itemNumber' | 'description' | 'unit' | 'quantity' | 'rate' | 'amount' | 'category';
+
+export type BqColumnMapping = Partial<Record<BqImportField, number>>; // Zero-based column index per field
+
+export interface BqImportRowError {
+  row: number; // Spreadsheet row number (1-based)
+  field?: BqImportField;
+  value?: string;
+  message: string;
+}
+
+export interface BqImportPreview {
+  sheetName?: string;
+  sheetNames: string[];
+  headerRowNumber: number;
+  headers: string[];
+  sampleRows: Array<{ rowNumber: number; cells: string[] }>;
+  rowCount: number;
+  suggestedMapping: BqColumnMapping;
+  mapping: BqColumnMapping;
+  mappingProblems: string[];
+  itemCount: number;
+  errors: BqImportRowError[];
+}
+
 // Database-related types
 export interface User {
   _id?: string;
@@ -102,9 +757,19 @@ export interface User {
     theme?: 'light' | 'dark';
     notifications?: boolean;
     defaultProjectType?: string;
+    company?: CompanyBranding;
   };
 }
 
+export interface CompanyBranding {
+  name: string;
+  logo?: string; // PNG or JPEG data URL
+  address?: string;
+  phone?: string;
+  email?: string;
+  registrationNumber?: string;
+}
+
 export interface Session {
   _id?: string;
   userId: string;
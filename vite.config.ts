@@ -15,6 +15,11 @@ export default defineConfig(({ mode }) => {
             target: apiUrl,
             changeOrigin: true,
             secure: false,
+          },
+          '/socket.io': {
+            target: apiUrl,
+            changeOrigin: true,
+            ws: true,
           }
         }
       },